@@ -56,21 +56,26 @@ const PageLoader = () => (
 
 function ProtectedRoute({ component: Component }: { component: ComponentType }) {
   const [, setLocation] = useLocation();
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isMfaPending, isLoading } = useAuth();
   const [redirecting, setRedirecting] = useState(false);
 
   useEffect(() => {
-    if (!isLoading && !isAuthenticated && !redirecting) {
-      setRedirecting(true);
-      setLocation("/login");
+    if (!isLoading && !redirecting) {
+      if (!isAuthenticated) {
+        setRedirecting(true);
+        setLocation("/login");
+      } else if (isMfaPending) {
+        setRedirecting(true);
+        setLocation("/mfa");
+      }
     }
-  }, [isAuthenticated, isLoading, setLocation, redirecting]);
+  }, [isAuthenticated, isMfaPending, isLoading, setLocation, redirecting]);
 
   if (isLoading || redirecting) {
     return <PageLoader />;
   }
 
-  if (!isAuthenticated) {
+  if (!isAuthenticated || isMfaPending) {
     return null;
   }
 
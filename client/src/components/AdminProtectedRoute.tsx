@@ -13,7 +13,7 @@ const ADMIN_ROLES = [
 
 export function AdminProtectedRoute({ component: Component }: { component: ComponentType }) {
   const [, setLocation] = useLocation();
-  const { isAuthenticated, isLoading, user } = useAuth();
+  const { isAuthenticated, isMfaPending, isLoading, user } = useAuth();
   const [redirecting, setRedirecting] = useState(false);
 
   const userRole = user?.role?.toUpperCase() || "";
@@ -24,12 +24,15 @@ export function AdminProtectedRoute({ component: Component }: { component: Compo
       if (!isAuthenticated) {
         setRedirecting(true);
         setLocation("/admin/login");
+      } else if (isMfaPending) {
+        setRedirecting(true);
+        setLocation("/mfa");
       } else if (!isAdmin) {
         setRedirecting(true);
         setLocation("/admin/login?error=" + encodeURIComponent("Access denied. Admin privileges required."));
       }
     }
-  }, [isAuthenticated, isLoading, isAdmin, setLocation, redirecting]);
+  }, [isAuthenticated, isMfaPending, isLoading, isAdmin, setLocation, redirecting]);
 
   if (isLoading || redirecting) {
     return (
@@ -55,7 +58,7 @@ export function AdminProtectedRoute({ component: Component }: { component: Compo
     );
   }
 
-  if (!isAuthenticated || !isAdmin) {
+  if (!isAuthenticated || isMfaPending || !isAdmin) {
     return null;
   }
 
@@ -11,10 +11,14 @@ interface User {
   organisationId: string;
 }
 
+export type MfaGate = 'SATISFIED' | 'MFA_VERIFICATION_REQUIRED' | 'MFA_ENROLMENT_REQUIRED';
+
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
+  mfaGate: MfaGate | null;
+  isMfaPending: boolean;
   login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
@@ -24,6 +28,7 @@ const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [mfaGate, setMfaGate] = useState<MfaGate | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [, setLocation] = useLocation();
 
@@ -49,6 +54,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           role: u.role || 'VIEWER',
           organisationId: u.organisationId || 'default-org',
         });
+        // The session exists as soon as the password is accepted; the server
+        // still holds back API access until any required second factor is done
+        try {
+          const mfaRes = await fetch('/api/auth/mfa/status', { credentials: 'include' });
+          if (mfaRes.ok) {
+            const status = await mfaRes.json();
+            setMfaGate(status.gate);
+          } else {
+            setMfaGate(null);
+          }
+        } catch {
+          setMfaGate(null);
+        }
       } else {
         // Safari ITP fallback: Check sessionStorage backup if cookies failed
         try {
@@ -72,9 +90,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           // Ignore storage errors
         }
         setUser(null);
+        setMfaGate(null);
       }
     } catch {
       setUser(null);
+      setMfaGate(null);
     } finally {
       setIsLoading(false);
     }
@@ -127,6 +147,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
     } finally {
       setUser(null);
+      setMfaGate(null);
       setLocation('/login');
     }
   }, [setLocation]);
@@ -136,6 +157,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       user,
       isLoading,
       isAuthenticated: !!user,
+      mfaGate,
+      isMfaPending: !!user && !!mfaGate && mfaGate !== 'SATISFIED',
       login,
       logout,
       refreshUser,
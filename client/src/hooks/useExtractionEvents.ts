@@ -25,6 +25,10 @@ export function useExtractionEvents() {
         if (data.type === 'certificate_updated') {
           queryClient.invalidateQueries({ queryKey: ['certificates'] });
         }
+
+        if (typeof data.type === 'string' && data.type.startsWith('report_export_')) {
+          queryClient.invalidateQueries({ queryKey: ['report-export', data.exportId] });
+        }
       } catch (e) {
         // Ignore parse errors (e.g., ping messages)
       }
@@ -92,6 +92,25 @@ export interface ScenarioResult {
   }>;
 }
 
+export interface ScenarioPropertyOutcome {
+  propertyId: string;
+  name: string;
+  lat: number | null;
+  lng: number | null;
+  baselineRiskScore: number;
+  scenarioRiskScore: number;
+  baselineTier: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+  scenarioTier: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+  tierChanged: boolean;
+  becameCritical: boolean;
+}
+
+export interface ScenarioSimulationResult extends ScenarioResult {
+  properties: ScenarioPropertyOutcome[];
+  propertyCount: number;
+  appliedScenarios: ScenarioType[];
+}
+
 export interface EvidenceData {
   area: {
     id: string;
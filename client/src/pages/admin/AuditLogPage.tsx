@@ -67,6 +67,8 @@ const eventTypeLabels: Record<string, string> = {
   API_KEY_CREATED: "API Key Created",
   API_KEY_REVOKED: "API Key Revoked",
   BULK_IMPORT_COMPLETED: "Bulk Import",
+  HAZARD_CASE_STATUS_CHANGED: "Hazard Status Changed",
+  HAZARD_ACTION_STATUS_CHANGED: "Hazard Action Status Changed",
 };
 
 const eventIcons: Record<string, React.ReactNode> = {
@@ -240,6 +242,7 @@ export default function AuditLogPage() {
                   <SelectItem value="REMEDIAL_ACTION">Actions</SelectItem>
                   <SelectItem value="PROPERTY">Properties</SelectItem>
                   <SelectItem value="USER">Users</SelectItem>
+                  <SelectItem value="HAZARD_CASE">Hazard Cases</SelectItem>
                   <SelectItem value="SETTINGS">Settings</SelectItem>
                 </SelectContent>
               </Select>
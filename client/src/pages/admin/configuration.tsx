@@ -363,7 +363,6 @@ export default function Configuration() {
       const data = {
         promptTemplate: formData.get("promptTemplate") as string || undefined,
         schemaJson,
-        isActive: formData.get("isActive") === "on",
       };
       updateSchemaMutation.mutate({ id: editingSchema.id, data });
     } catch {
@@ -1264,9 +1263,10 @@ export default function Configuration() {
                           <p className="text-xs text-muted-foreground mt-1">Define the fields to extract, their types, and validation rules.</p>
                         </div>
                         <div className="flex items-center gap-2">
-                          <Switch id="isActive" name="isActive" defaultChecked={editingSchema.isActive} />
+                          <Switch id="isActive" name="isActive" defaultChecked={editingSchema.isActive} disabled />
                           <Label htmlFor="isActive">Active (used for new extractions)</Label>
                         </div>
+                        <p className="text-xs text-muted-foreground">Schemas are activated by promoting a shadow rollout and deactivated by rolling back.</p>
                         <DialogFooter>
                           <Button type="submit" disabled={updateSchemaMutation.isPending}>
                             {updateSchemaMutation.isPending ? (
@@ -644,7 +644,10 @@ function IntegrationGuideTab() {
           <h4 className="font-medium mt-4">Update Action Status</h4>
           <pre className="bg-muted p-4 rounded text-xs overflow-auto">{`POST /api/integrations/hms/actions
 Content-Type: application/json
-X-API-Key: your-api-key
+X-Webhook-Key-Id: whk_your-key-id
+X-Webhook-Timestamp: 1705759200
+X-Webhook-Nonce: 6f1c2e9a4b7d4c0e8a3f
+X-Webhook-Signature: sha256=hex-hmac
 
 {
   "actionId": "uuid",
@@ -657,7 +660,10 @@ X-API-Key: your-api-key
           <h4 className="font-medium mt-4">Update Work Order</h4>
           <pre className="bg-muted p-4 rounded text-xs overflow-auto">{`POST /api/integrations/hms/work-orders
 Content-Type: application/json
-X-API-Key: your-api-key
+X-Webhook-Key-Id: whk_your-key-id
+X-Webhook-Timestamp: 1705759200
+X-Webhook-Nonce: 6f1c2e9a4b7d4c0e8a3f
+X-Webhook-Signature: sha256=hex-hmac
 
 {
   "workOrderId": "WO-12345",
@@ -667,8 +673,15 @@ X-API-Key: your-api-key
   "assignedContractor": "ABC Electrical"
 }`}</pre>
 
+          <p className="mt-4">
+            Inbound HMS calls are authenticated per source. Create a source under{' '}
+            <code className="bg-muted px-1 rounded">/api/admin/inbound-webhook-sources</code> to get a key id and secret, then sign
+            each request with HMAC-SHA256 over <code className="bg-muted px-1 rounded">{'{timestamp}.{nonce}.{raw body}'}</code>.
+            Requests older than the source tolerance (5 minutes by default) or reusing a nonce are rejected.
+          </p>
+
           <h3 className="text-lg font-semibold mt-6">3. Authentication</h3>
-          <p>All API requests require authentication via API key:</p>
+          <p>All other API requests require authentication via API key:</p>
           <ul className="list-disc pl-6 space-y-1">
             <li>Generate an API key in the "API Keys" tab</li>
             <li>Include the key in the <code className="bg-muted px-1 rounded">X-API-Key</code> header</li>
@@ -20,7 +20,8 @@ import {
   EyeOff,
   Settings,
   UserCheck,
-  UserX
+  UserX,
+  ShieldOff
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -64,6 +65,7 @@ interface User {
   email: string;
   role: string;
   organisationId: string | null;
+  mfaEnabled?: boolean;
   createdAt?: string;
 }
 
@@ -166,6 +168,24 @@ export default function AdminUsersPage() {
     }
   });
 
+  const resetMfaMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await fetch(`/api/admin/users/${userId}/mfa/reset`, {
+        method: "POST",
+        credentials: 'include',
+      });
+      if (!res.ok) throw new Error("Failed to reset MFA");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "MFA reset", description: "The user will be asked to set up their authenticator again." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to reset MFA.", variant: "destructive" });
+    }
+  });
+
   if (authLoading) {
     return (
       <div className="flex items-center justify-center h-screen bg-muted/30">
@@ -497,6 +517,15 @@ export default function AdminUsersPage() {
                                             <Key className="mr-2 h-4 w-4 text-amber-600" />
                                             Reset Password
                                           </DropdownMenuItem>
+                                          {user.mfaEnabled && (
+                                            <DropdownMenuItem
+                                              onClick={() => resetMfaMutation.mutate(user.id)}
+                                              data-testid={`button-reset-mfa-${user.id}`}
+                                            >
+                                              <ShieldOff className="mr-2 h-4 w-4 text-amber-600" />
+                                              Reset MFA
+                                            </DropdownMenuItem>
+                                          )}
                                         </>
                                       )}
                                     </DropdownMenuContent>
@@ -17,7 +17,7 @@ export default function LoginPage() {
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
-  const { login, isAuthenticated } = useAuth();
+  const { login, isAuthenticated, isMfaPending } = useAuth();
 
   useEffect(() => {
     const params = new URLSearchParams(searchString);
@@ -29,9 +29,9 @@ export default function LoginPage() {
 
   useEffect(() => {
     if (isAuthenticated) {
-      setLocation("/dashboard");
+      setLocation(isMfaPending ? "/mfa" : "/dashboard");
     }
-  }, [isAuthenticated, setLocation]);
+  }, [isAuthenticated, isMfaPending, setLocation]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -543,7 +543,7 @@ function ComplianceRuleForm({
           <Button variant="outline">Cancel</Button>
         </DialogClose>
         <Button 
-          onClick={() => onSubmit({ ...formData, conditions: [], conditionLogic: 'AND' })} 
+          onClick={() => onSubmit({ ...formData, conditions: initialData?.conditions ?? [], conditionLogic: initialData?.conditionLogic ?? 'AND' })} 
           disabled={isSubmitting || !formData.ruleCode || !formData.ruleName}
           data-testid="button-save-rule"
         >
@@ -50,6 +50,8 @@ interface ExtractionRun {
   normalisedOutput: any;
   finalOutput: any;
   validationErrors: any[];
+  autoApproved?: boolean;
+  auditSampled?: boolean;
   createdAt: string;
   certificate?: {
     fileName: string;
@@ -175,21 +177,27 @@ export default function HumanReviewPage() {
   
   const bulkApproveMutation = useMutation({
     mutationFn: async (ids: string[]) => {
-      const results = await Promise.all(
-        ids.map(id => {
-          const run = runs.find(r => r.id === id);
-          const output = run?.normalisedOutput || run?.rawOutput || {};
-          return fetch(`/api/extraction-runs/${id}/approve`, {
+      // Audit samples were held back from auto-approval, so each one needs an individual review
+      const approvable = runs.filter(r => ids.includes(r.id) && !r.auditSampled);
+      await Promise.all(
+        approvable.map(run => {
+          const output = run.normalisedOutput || run.rawOutput || {};
+          return fetch(`/api/extraction-runs/${run.id}/approve`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ approvedOutput: output, errorTags: [], notes: 'Bulk approved' }),
           });
         })
       );
-      return results;
+      return { approved: approvable.length, skipped: ids.length - approvable.length };
     },
-    onSuccess: () => {
-      toast({ title: 'Bulk Approved', description: `${selectedRunIds.size} extractions approved` });
+    onSuccess: ({ approved, skipped }: { approved: number; skipped: number }) => {
+      toast({
+        title: 'Bulk Approved',
+        description: skipped > 0
+          ? `${approved} extractions approved, ${skipped} audit samples left for individual review`
+          : `${approved} extractions approved`,
+      });
       queryClient.invalidateQueries({ queryKey: ['extraction-runs'] });
       setSelectedRunIds(new Set());
     },
@@ -454,6 +462,12 @@ export default function HumanReviewPage() {
                                   }`} />
                                   <span className="text-xs font-medium">{(run.confidence * 100).toFixed(0)}%</span>
                                 </div>
+                                {run.auditSampled && (
+                                  <Badge variant="outline" className="text-xs border-blue-500 text-blue-700 dark:text-blue-300">Audit sample</Badge>
+                                )}
+                                {run.autoApproved && (
+                                  <Badge variant="outline" className="text-xs">Auto-approved</Badge>
+                                )}
                                 <Badge className={`text-xs ${
                                   run.status === 'APPROVED' ? 'bg-green-500/10 text-green-700 dark:bg-green-500/20 dark:text-green-300' :
                                   run.status === 'REJECTED' ? 'bg-red-500/10 text-red-700 dark:bg-red-500/20 dark:text-red-300' :
@@ -481,6 +495,14 @@ export default function HumanReviewPage() {
                             {new Date(run.createdAt).toLocaleDateString()}
                           </p>
                         </div>
+                        {run.auditSampled && (
+                          <Badge variant="outline" className="border-blue-500 text-blue-700 dark:text-blue-300" title="Met auto-approval thresholds; randomly held for human audit" data-testid={`badge-audit-sample-${run.id}`}>
+                            Audit sample
+                          </Badge>
+                        )}
+                        {run.autoApproved && (
+                          <Badge variant="outline" data-testid={`badge-auto-approved-${run.id}`}>Auto-approved</Badge>
+                        )}
                         <Badge className={
                           run.status === 'APPROVED' ? 'bg-green-500/10 text-green-700 dark:bg-green-500/20 dark:text-green-300' :
                           run.status === 'REJECTED' ? 'bg-red-500/10 text-red-700 dark:bg-red-500/20 dark:text-red-300' :
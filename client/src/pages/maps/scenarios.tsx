@@ -1,12 +1,12 @@
 import { useState, useMemo } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
 import { Sidebar } from '@/components/layout/Sidebar';
 import { Header } from '@/components/layout/Header';
 import { MapWrapper, BaseMap, PropertyMarkers, RiskLegend } from '@/components/maps';
 import { ScenarioPanel } from '@/components/maps/ScenarioPanel';
 import { ScenarioImpact } from '@/components/maps/ScenarioImpact';
 import type { PropertyMarker } from '@/components/maps';
-import type { Scenario, ScenarioResult, ScenarioType } from '@/lib/risk/types';
+import type { Scenario, ScenarioResult, ScenarioSimulationResult } from '@/lib/risk/types';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { getActionIcon, getStatusIcon } from '@/config/icons';
@@ -28,97 +28,21 @@ const DEFAULT_SCENARIOS: Scenario[] = [
   { type: 'hrb_only', enabled: false, params: {} },
 ];
 
-function generateScenarioResult(scenarios: Scenario[]): ScenarioResult | null {
-  const enabledScenarios = scenarios.filter(s => s.enabled);
-  if (enabledScenarios.length === 0) return null;
-
-  const baselineScore = 78;
-  const baselineAtRisk = 23;
-  
-  let scoreReduction = 0;
-  let additionalAtRisk = 0;
-
-  for (const scenario of enabledScenarios) {
-    switch (scenario.type) {
-      case 'advisory_as_failure':
-        scoreReduction += 8;
-        additionalAtRisk += 12;
-        break;
-      case 'certificate_slip':
-        const slipPct = scenario.params.slipPercentage || 20;
-        scoreReduction += Math.floor(slipPct / 2);
-        additionalAtRisk += Math.floor(slipPct * 1.5);
-        break;
-      case 'dual_failure':
-        scoreReduction += 5;
-        additionalAtRisk += 8;
-        break;
-      case 'capacity_reduction':
-        const capPct = scenario.params.capacityReduction || 25;
-        scoreReduction += Math.floor(capPct / 3);
-        additionalAtRisk += Math.floor(capPct / 2);
-        break;
-      case 'hrb_only':
-        break;
-    }
-  }
-
-  const scenarioScore = Math.max(0, baselineScore - scoreReduction);
-  const scenarioAtRisk = baselineAtRisk + additionalAtRisk;
-
-  return {
-    baseline: { score: baselineScore, propertiesAtRisk: baselineAtRisk },
-    scenario: { score: scenarioScore, propertiesAtRisk: scenarioAtRisk },
-    impact: {
-      scoreChange: -scoreReduction,
-      additionalAtRisk,
-      newHotspots: additionalAtRisk > 0 ? [
-        { id: 'h1', name: 'Highgate Block C', baselineScore: 72, scenarioScore: Math.max(0, 72 - scoreReduction) },
-        { id: 'h2', name: 'Camden Estate Tower', baselineScore: 68, scenarioScore: Math.max(0, 68 - scoreReduction) },
-        { id: 'h3', name: 'Islington Heights', baselineScore: 75, scenarioScore: Math.max(0, 75 - scoreReduction) },
-      ] : [],
-    },
-    affectedAreas: [],
-  };
-}
-
-function generateScenarioMarkers(scenarios: Scenario[]): PropertyMarker[] {
-  const baseMarkers: PropertyMarker[] = [
-    { id: 's1', name: 'Westminster Estate', lat: 51.501, lng: -0.141, riskScore: 82, propertyCount: 45, unitCount: 320 },
-    { id: 's2', name: 'Camden Heights', lat: 51.539, lng: -0.142, riskScore: 75, propertyCount: 38, unitCount: 280 },
-    { id: 's3', name: 'Islington Park', lat: 51.536, lng: -0.103, riskScore: 68, propertyCount: 52, unitCount: 410 },
-    { id: 's4', name: 'Hackney Central', lat: 51.545, lng: -0.055, riskScore: 55, propertyCount: 28, unitCount: 190 },
-    { id: 's5', name: 'Tower Hamlets Block', lat: 51.515, lng: -0.032, riskScore: 88, propertyCount: 62, unitCount: 480 },
-    { id: 's6', name: 'Southwark Estate', lat: 51.473, lng: -0.080, riskScore: 72, propertyCount: 35, unitCount: 250 },
-    { id: 's7', name: 'Lambeth Towers', lat: 51.457, lng: -0.123, riskScore: 65, propertyCount: 48, unitCount: 360 },
-    { id: 's8', name: 'Wandsworth Green', lat: 51.456, lng: -0.191, riskScore: 91, propertyCount: 22, unitCount: 140 },
-  ];
-
-  const enabledScenarios = scenarios.filter(s => s.enabled);
-  if (enabledScenarios.length === 0) return baseMarkers;
-
-  let scoreReduction = 0;
-  for (const scenario of enabledScenarios) {
-    switch (scenario.type) {
-      case 'advisory_as_failure':
-        scoreReduction += 8;
-        break;
-      case 'certificate_slip':
-        scoreReduction += Math.floor((scenario.params.slipPercentage || 20) / 2);
-        break;
-      case 'dual_failure':
-        scoreReduction += 5;
-        break;
-      case 'capacity_reduction':
-        scoreReduction += Math.floor((scenario.params.capacityReduction || 25) / 3);
-        break;
-    }
-  }
-
-  return baseMarkers.map(m => ({
-    ...m,
-    riskScore: Math.max(0, m.riskScore - scoreReduction),
-  }));
+// Risk scores are 0-100 with higher meaning worse; the map colours by compliance (higher is better)
+function toMarkers(result: ScenarioSimulationResult | undefined, isScenarioActive: boolean): PropertyMarker[] {
+  if (!result) return [];
+  return result.properties
+    .filter(p => p.lat !== null && p.lng !== null)
+    .map(p => ({
+      id: p.propertyId,
+      name: p.becameCritical ? `${p.name} (becomes CRITICAL)` : p.name,
+      lat: p.lat!,
+      lng: p.lng!,
+      riskScore: 100 - (isScenarioActive ? p.scenarioRiskScore : p.baselineRiskScore),
+      propertyCount: 1,
+      unitCount: 1,
+      assetType: 'property' as const,
+    }));
 }
 
 export default function ScenariosPage() {
@@ -128,8 +52,26 @@ export default function ScenariosPage() {
   const isScenarioActive = enabledCount > 0;
   const showBackButton = useMemo(() => hasUrlFilters(), []);
 
-  const scenarioResult = useMemo(() => generateScenarioResult(scenarios), [scenarios]);
-  const markers = useMemo(() => generateScenarioMarkers(scenarios), [scenarios]);
+  const enabledScenarios = useMemo(() => scenarios.filter(s => s.enabled), [scenarios]);
+
+  const { data: simulation, isPlaceholderData } = useQuery<ScenarioSimulationResult>({
+    queryKey: ['risk-scenarios', enabledScenarios],
+    queryFn: async () => {
+      const res = await fetch('/api/risk/scenarios', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ scenarios: enabledScenarios }),
+      });
+      if (!res.ok) throw new Error('Failed to run scenarios');
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
+    staleTime: 30000,
+  });
+
+  const scenarioResult: ScenarioResult | null = isScenarioActive && simulation ? simulation : null;
+  const markers = useMemo(() => toMarkers(simulation, isScenarioActive), [simulation, isScenarioActive]);
 
   return (
     <div className="flex h-screen bg-muted/30">
@@ -177,7 +119,7 @@ export default function ScenariosPage() {
           </div>
           
           <div className="w-80 border-l bg-background overflow-y-auto">
-            <ScenarioImpact result={scenarioResult} />
+            <ScenarioImpact result={scenarioResult} isLoading={isScenarioActive && (isPlaceholderData || !simulation)} />
           </div>
           </div>
         </main>
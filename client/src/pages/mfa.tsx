@@ -1,93 +1,206 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
-import { ShieldCheck, ArrowRight, Mail, RefreshCw, ArrowLeft } from "lucide-react";
+import { ShieldCheck, KeyRound, RefreshCw, ArrowLeft, Copy } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useAuth } from "@/contexts/AuthContext";
+
+interface EnrolmentDetails {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+async function postMfa<T>(path: string, body: Record<string, unknown> = {}): Promise<T> {
+  const res = await fetch(`/api/auth/mfa/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.detail || data.error || "Verification failed");
+  }
+  return data as T;
+}
 
 export default function MFAPage() {
   const [, setLocation] = useLocation();
+  const { user, mfaGate, isLoading: authLoading, refreshUser, logout } = useAuth();
   const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrolment, setEnrolment] = useState<EnrolmentDetails | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [timeLeft, setTimeLeft] = useState(30);
+  const [error, setError] = useState("");
+
+  const isEnrolling = mfaGate === "MFA_ENROLMENT_REQUIRED";
 
   useEffect(() => {
-    if (timeLeft > 0) {
-      const timer = setTimeout(() => setTimeLeft(timeLeft - 1), 1000);
-      return () => clearTimeout(timer);
+    if (authLoading) return;
+    if (!user) {
+      setLocation("/login");
+    } else if (mfaGate === "SATISFIED" && !recoveryCodes) {
+      setLocation("/dashboard");
     }
-  }, [timeLeft]);
+  }, [authLoading, user, mfaGate, recoveryCodes, setLocation]);
 
-  const handleVerify = (e: React.FormEvent) => {
+  useEffect(() => {
+    if (!isEnrolling || enrolment) return;
+    postMfa<EnrolmentDetails>("enrol")
+      .then(setEnrolment)
+      .catch(err => setError(err.message));
+  }, [isEnrolling, enrolment]);
+
+  const handleVerify = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (code.length !== 6) return;
-    
     setIsLoading(true);
-    // Simulate verification
-    setTimeout(() => {
+    setError("");
+
+    try {
+      if (isEnrolling) {
+        const result = await postMfa<{ recoveryCodes: string[] }>("enrol/confirm", { code });
+        setRecoveryCodes(result.recoveryCodes);
+      } else {
+        await postMfa("verify", useRecoveryCode ? { recoveryCode } : { code });
+        await refreshUser();
+        setLocation("/dashboard");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed");
+      setCode("");
+    } finally {
       setIsLoading(false);
-      setLocation("/dashboard");
-    }, 1500);
+    }
   };
 
+  const handleContinue = async () => {
+    await refreshUser();
+    setLocation("/dashboard");
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+        <Card className="w-full max-w-md border-border/50 shadow-lg">
+          <CardHeader>
+            <CardTitle>Save your recovery codes</CardTitle>
+            <CardDescription>
+              Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-muted p-4 rounded" data-testid="mfa-recovery-codes">
+              {recoveryCodes.map(rc => <span key={rc}>{rc}</span>)}
+            </div>
+          </CardContent>
+          <CardFooter className="flex flex-col space-y-2">
+            <Button variant="outline" className="w-full" onClick={() => navigator.clipboard?.writeText(recoveryCodes.join("\n"))}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy codes
+            </Button>
+            <Button className="w-full" onClick={handleContinue} data-testid="button-mfa-continue">
+              I've saved these codes
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
       <div className="w-full max-w-md space-y-8">
         <div className="flex flex-col items-center text-center space-y-2">
           <div className="h-12 w-12 bg-blue-50 text-blue-600 rounded-full flex items-center justify-center mb-2 border border-blue-100">
-             <Mail className="h-6 w-6" />
+             <ShieldCheck className="h-6 w-6" />
           </div>
           <h1 className="text-2xl font-display font-bold tracking-tight">Two-Factor Authentication</h1>
-          <p className="text-muted-foreground">We sent a verification code to your registered email address</p>
-          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-3 py-2 rounded-md text-xs mt-2 max-w-xs mx-auto">
-            <span className="font-semibold">Demo Mode:</span> Use code <strong>123456</strong> to verify
-          </div>
+          <p className="text-muted-foreground">
+            {isEnrolling
+              ? "Your organisation requires an authenticator app for your role. Scan the code below to set it up."
+              : "Enter the 6-digit code from your authenticator app"}
+          </p>
         </div>
 
         <Card className="border-border/50 shadow-lg">
           <CardHeader className="pb-4">
-            <CardTitle className="text-base text-center">Enter 6-digit code</CardTitle>
+            <CardTitle className="text-base text-center">
+              {useRecoveryCode ? "Enter a recovery code" : "Enter 6-digit code"}
+            </CardTitle>
           </CardHeader>
           <form onSubmit={handleVerify}>
             <CardContent className="flex flex-col items-center space-y-6">
+              {error && (
+                <Alert variant="destructive" className="w-full">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              {isEnrolling && enrolment && (
+                <div className="flex flex-col items-center space-y-2">
+                  <img src={enrolment.qrCodeDataUrl} alt="Authenticator QR code" className="h-44 w-44" data-testid="img-mfa-qr" />
+                  <p className="text-xs text-muted-foreground">Can't scan? Enter this key manually:</p>
+                  <code className="text-xs bg-muted px-2 py-1 rounded break-all">{enrolment.secret}</code>
+                </div>
+              )}
+
               <div className="flex justify-center w-full max-w-[240px]">
-                <Input 
-                  className="text-center text-2xl tracking-[1em] font-mono h-14" 
-                  maxLength={6} 
-                  value={code} 
-                  onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
-                  placeholder="000000"
-                />
-              </div>
-              
-              <div className="text-sm text-center">
-                <p className="text-muted-foreground mb-1">Didn't receive the email?</p>
-                {timeLeft > 0 ? (
-                  <span className="text-muted-foreground text-xs font-mono">Resend in {timeLeft}s</span>
+                {useRecoveryCode ? (
+                  <Input
+                    className="text-center text-lg font-mono h-14 uppercase"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    placeholder="XXXXX-XXXXX"
+                    data-testid="input-mfa-recovery-code"
+                  />
                 ) : (
-                  <Button 
-                    variant="link" 
-                    className="h-auto p-0 text-primary" 
-                    type="button"
-                    onClick={() => setTimeLeft(30)}
-                  >
-                    Resend Email
-                  </Button>
+                  <Input
+                    className="text-center text-2xl tracking-[1em] font-mono h-14"
+                    maxLength={6}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                    placeholder="000000"
+                    autoComplete="one-time-code"
+                    data-testid="input-mfa-code"
+                  />
                 )}
               </div>
+
+              {!isEnrolling && (
+                <Button
+                  variant="link"
+                  className="h-auto p-0 text-primary text-sm"
+                  type="button"
+                  onClick={() => { setUseRecoveryCode(!useRecoveryCode); setError(""); }}
+                >
+                  <KeyRound className="mr-1 h-3 w-3" />
+                  {useRecoveryCode ? "Use authenticator code instead" : "Use a recovery code"}
+                </Button>
+              )}
             </CardContent>
             <CardFooter className="flex flex-col space-y-2">
-              <Button className="w-full" disabled={code.length !== 6 || isLoading}>
+              <Button
+                className="w-full"
+                disabled={isLoading || (useRecoveryCode ? recoveryCode.trim().length === 0 : code.length !== 6)}
+                data-testid="button-mfa-verify"
+              >
                 {isLoading ? (
                   <>
                     <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
                     Verifying...
                   </>
+                ) : isEnrolling ? (
+                  "Enable & Continue"
                 ) : (
                   "Verify & Sign In"
                 )}
               </Button>
-              <Button variant="ghost" className="w-full text-muted-foreground" onClick={() => setLocation("/login")}>
+              <Button type="button" variant="ghost" className="w-full text-muted-foreground" onClick={() => logout()}>
                 <ArrowLeft className="mr-2 h-4 w-4" />
                 Back to Login
               </Button>
@@ -300,8 +300,8 @@ export default function ModelInsightsPage() {
       if (!res.ok) throw new Error('Benchmark failed');
       return res.json();
     },
-    onSuccess: (result) => {
-      toast({ title: 'Benchmark Complete', description: `Score: ${result.score?.toFixed(1) || 'N/A'}` });
+    onSuccess: () => {
+      toast({ title: 'Benchmark Queued', description: 'The score will appear here once the run completes.' });
       refetch();
     },
     onError: () => {
@@ -311,18 +311,30 @@ export default function ModelInsightsPage() {
   
   const exportMutation = useMutation({
     mutationFn: async () => {
-      const res = await fetch('/api/model-insights/export-training-data', { method: 'POST' });
+      const res = await fetch('/api/model-insights/export-training-data', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
       if (!res.ok) throw new Error('Export failed');
-      return res.blob();
+      return res.json() as Promise<{ totalRecords: number; files: { certificateType: string; downloadUrl: string }[] }>;
     },
-    onSuccess: (blob) => {
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `training-data-${new Date().toISOString().split('T')[0]}.jsonl`;
-      a.click();
-      URL.revokeObjectURL(url);
-      toast({ title: 'Export Complete', description: 'Training data downloaded' });
+    onSuccess: (result) => {
+      for (const file of result.files) {
+        const a = document.createElement('a');
+        a.href = file.downloadUrl;
+        a.download = `training-data-${file.certificateType}-${new Date().toISOString().split('T')[0]}.jsonl`;
+        a.click();
+      }
+      toast({
+        title: 'Export Complete',
+        description: result.totalRecords > 0
+          ? `${result.totalRecords} reviewed extractions across ${result.files.length} certificate type(s)`
+          : 'No reviewed extractions matched the export filters',
+      });
+    },
+    onError: () => {
+      toast({ title: 'Export Failed', variant: 'destructive' });
     },
   });
   
@@ -55,6 +55,13 @@ interface ScheduledReport {
   isActive: boolean;
 }
 
+interface ReportDeliveryStatus {
+  recipient: string;
+  status: 'PENDING' | 'SENT' | 'RETRYING' | 'FAILED';
+  attempts: number;
+  lastError: string | null;
+}
+
 interface RecentReport {
   id: string;
   name: string;
@@ -62,6 +69,17 @@ interface RecentReport {
   format: string;
   size: string;
   status: string;
+  deliveries: ReportDeliveryStatus[];
+}
+
+interface ReportExportStatus {
+  exportId: string;
+  status: 'QUEUED' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'EXPIRED';
+  processedRows: number;
+  totalRows: number | null;
+  progress: number;
+  error: string | null;
+  downloadUrl: string | null;
 }
 
 interface ReportTemplate {
@@ -159,8 +177,9 @@ export default function Reports() {
         name: r.name,
         generated: r.generated_at ? new Date(r.generated_at).toISOString().slice(0, 16).replace('T', ' ') : '',
         format: r.format || 'PDF',
-        size: r.file_size ? `${(r.file_size / 1024 / 1024).toFixed(1)} MB` : '1.0 MB',
-        status: r.status || 'Ready'
+        size: r.file_size ? (r.file_size >= 1024 * 1024 ? `${(r.file_size / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(r.file_size / 1024))} KB`) : '-',
+        status: r.status || 'Ready',
+        deliveries: r.deliveries || []
       }));
     },
   });
@@ -293,28 +312,57 @@ export default function Reports() {
     };
   });
 
-  const handleExport = (exportFormat: 'csv' | 'pdf') => {
-    const data = filteredCertificates.map(cert => ({
-      'Certificate Type': cert.certificateType,
-      'Property': cert.propertyId,
-      'Status': cert.status,
-      'Issue Date': cert.issueDate ? formatDate(cert.issueDate) : 'N/A',
-      'Expiry Date': cert.expiryDate ? formatDate(cert.expiryDate) : 'N/A',
-      'Created': formatDate(cert.createdAt),
-    }));
-
-    if (exportFormat === 'csv') {
-      const headers = Object.keys(data[0] || {}).join(',');
-      const rows = data.map(row => Object.values(row).join(','));
-      const csv = [headers, ...rows].join('\n');
-      const blob = new Blob([csv], { type: 'text/csv' });
-      const url = URL.createObjectURL(blob);
+  const [activeExportId, setActiveExportId] = useState<string | null>(null);
+
+  // Progress arrives over SSE; polling is a fallback for when the event stream drops
+  const { data: activeExport } = useQuery<ReportExportStatus>({
+    queryKey: ["report-export", activeExportId],
+    queryFn: async () => {
+      const res = await fetch(`/api/reports/export/${activeExportId}`, { credentials: 'include' });
+      if (!res.ok) throw new Error("Failed to fetch export status");
+      return res.json();
+    },
+    enabled: !!activeExportId,
+    refetchInterval: 5000,
+  });
+
+  useEffect(() => {
+    if (!activeExport) return;
+    if (activeExport.status === 'COMPLETED' && activeExport.downloadUrl) {
       const a = document.createElement('a');
-      a.href = url;
-      a.download = `compliance-report-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+      a.href = activeExport.downloadUrl;
       a.click();
-      URL.revokeObjectURL(url);
-      toast({ title: "CSV Exported", description: "Report has been downloaded successfully." });
+      setActiveExportId(null);
+      toast({ title: "Export Ready", description: `${activeExport.totalRows ?? 0} rows exported and downloaded.` });
+    } else if (activeExport.status === 'FAILED' || activeExport.status === 'EXPIRED') {
+      setActiveExportId(null);
+      toast({ title: "Export Failed", description: activeExport.error || "The export could not be completed.", variant: "destructive" });
+    }
+  }, [activeExport, toast]);
+
+  const handleExport = async (exportFormat: 'csv' | 'excel') => {
+    try {
+      const res = await fetch("/api/reports/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: 'include',
+        body: JSON.stringify({
+          reportType: "certificates",
+          format: exportFormat,
+          filters: {
+            complianceStreamId: filters.complianceStream !== "all" ? filters.complianceStream : undefined,
+            status: filters.status !== "all" ? filters.status : undefined,
+            dateFrom: filters.dateFrom ? startOfDay(filters.dateFrom).toISOString() : undefined,
+            dateTo: filters.dateTo ? endOfDay(filters.dateTo).toISOString() : undefined,
+          },
+        }),
+      });
+      if (!res.ok) throw new Error("Failed to start export");
+      const job: ReportExportStatus = await res.json();
+      setActiveExportId(job.exportId);
+      toast({ title: "Export Started", description: "Your export is being prepared and will download when ready." });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to start export", variant: "destructive" });
     }
   };
 
@@ -546,21 +594,48 @@ export default function Reports() {
     toast({ title: "Opening Report", description: `Opening ${report?.name} for viewing.` });
   };
 
-  const handleDownloadReport = (id: string) => {
+  const handleDownloadReport = async (id: string) => {
     const report = recentReports.find(r => r.id === id);
-    const doc = new jsPDF();
-    doc.setFontSize(20);
-    doc.text(report?.name || 'Report', 105, 20, { align: 'center' });
-    doc.setFontSize(12);
-    doc.text(`Generated: ${report?.generated}`, 105, 35, { align: 'center' });
-    doc.text('This is a sample report content.', 20, 60);
-    doc.save(`${report?.name?.toLowerCase().replace(/\s+/g, '-')}-${format(new Date(), 'yyyy-MM-dd')}.pdf`);
-    toast({ title: "Report Downloaded", description: `${report?.name} has been downloaded.` });
+    try {
+      const res = await fetch(`/api/reports/generated/${id}/download`, { credentials: 'include' });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        toast({ title: "Download Failed", description: body.error || "Report file is not available.", variant: "destructive" });
+        return;
+      }
+      const disposition = res.headers.get('Content-Disposition') || '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `${report?.name || 'report'}.${(report?.format || 'pdf').toLowerCase()}`;
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast({ title: "Report Downloaded", description: `${report?.name} has been downloaded.` });
+    } catch (error) {
+      toast({ title: "Download Failed", description: "Failed to download report. Please try again.", variant: "destructive" });
+    }
   };
 
-  const handleEmailReport = (id: string) => {
+  const handleEmailReport = async (id: string) => {
     const report = recentReports.find(r => r.id === id);
-    toast({ title: "Email Sent", description: `${report?.name} has been emailed to configured recipients.` });
+    try {
+      const res = await fetch(`/api/reports/generated/${id}/deliver`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({})
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast({ title: "Email Failed", description: body.error || "Failed to email report.", variant: "destructive" });
+        return;
+      }
+      refetchRecent();
+      toast({ title: "Email Queued", description: `${report?.name} is being emailed to ${body.queued} recipient(s).` });
+    } catch (error) {
+      toast({ title: "Email Failed", description: "Failed to email report. Please try again.", variant: "destructive" });
+    }
   };
 
   return (
@@ -579,9 +654,15 @@ export default function Reports() {
                 <RefreshCw className="h-4 w-4 sm:mr-2" />
                 <span className="hidden sm:inline">Refresh</span>
               </Button>
-              <Button variant="outline" size="sm" onClick={() => handleExport('csv')} data-testid="button-export-csv">
+              <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={!!activeExportId} data-testid="button-export-csv">
+                {activeExportId ? <Loader2 className="h-4 w-4 sm:mr-2 animate-spin" /> : <Download className="h-4 w-4 sm:mr-2" />}
+                <span className="hidden sm:inline">
+                  {activeExportId ? `Exporting${activeExport ? ` ${activeExport.progress}%` : '...'}` : 'Export CSV'}
+                </span>
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport('excel')} disabled={!!activeExportId} data-testid="button-export-excel">
                 <Download className="h-4 w-4 sm:mr-2" />
-                <span className="hidden sm:inline">Export CSV</span>
+                <span className="hidden sm:inline">Export Excel</span>
               </Button>
             </div>
           </div>
@@ -976,7 +1057,23 @@ export default function Reports() {
                     </div>
                     {recentReports.map(report => (
                       <div key={report.id} className="grid grid-cols-6 gap-4 p-3 items-center hover:bg-muted/50 rounded-lg" data-testid={`report-${report.id}`}>
-                        <div className="col-span-2 font-medium">{report.name}</div>
+                        <div className="col-span-2">
+                          <div className="font-medium">{report.name}</div>
+                          {report.deliveries.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1" data-testid={`report-deliveries-${report.id}`}>
+                              {report.deliveries.map((delivery: ReportDeliveryStatus) => (
+                                <Badge
+                                  key={delivery.recipient}
+                                  variant={delivery.status === 'SENT' ? 'secondary' : delivery.status === 'FAILED' ? 'destructive' : 'outline'}
+                                  className="text-xs font-normal"
+                                  title={delivery.lastError || `${delivery.attempts} attempt(s)`}
+                                >
+                                  {delivery.recipient}: {delivery.status.toLowerCase()}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </div>
                         <div className="text-sm text-muted-foreground">{report.generated}</div>
                         <div>
                           <Badge variant="outline">{report.format}</Badge>
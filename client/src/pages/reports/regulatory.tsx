@@ -28,7 +28,8 @@ import {
   ExternalLink,
   FileText,
   Search,
-  Filter
+  Filter,
+  ClipboardCheck
 } from "lucide-react";
 import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell,
@@ -204,6 +205,44 @@ function getResultBadge(result: string) {
   }
 }
 
+interface HrbReadinessItem {
+  check: string;
+  label: string;
+  status: "MET" | "DUE_SOON" | "OVERDUE" | "NOT_MET" | "NOT_APPLICABLE";
+  dueDate: string | null;
+  detail: string;
+}
+
+interface HrbReadinessPortfolio {
+  generatedAt: string;
+  summary: {
+    buildings: number;
+    averageScore: number;
+    fullyReady: number;
+    withOutstandingItems: number;
+    overdueItems: number;
+  };
+  buildings: Array<{
+    buildingSafetyProfileId: string;
+    blockId: string;
+    blockName: string | null;
+    hrbRegistrationNumber: string | null;
+    score: number;
+    items: HrbReadinessItem[];
+    outstandingItems: HrbReadinessItem[];
+  }>;
+}
+
+function getReadinessItemBadge(item: HrbReadinessItem) {
+  switch (item.status) {
+    case "MET": return <Badge className="bg-green-500">Met</Badge>;
+    case "DUE_SOON": return <Badge className="bg-amber-500">Due Soon</Badge>;
+    case "OVERDUE": return <Badge variant="destructive">Overdue</Badge>;
+    case "NOT_MET": return <Badge variant="destructive">Not Met</Badge>;
+    default: return <Badge variant="secondary">N/A</Badge>;
+  }
+}
+
 export default function RegulatoryEvidence() {
   const [searchTerm, setSearchTerm] = useState("");
   const [debouncedSearch, setDebouncedSearch] = useState("");
@@ -228,6 +267,17 @@ export default function RegulatoryEvidence() {
     refetchOnWindowFocus: false,
   });
   
+  const { data: hrbReadiness, isLoading: hrbReadinessLoading } = useQuery<HrbReadinessPortfolio | null>({
+    queryKey: ['/api/reports/hrb-readiness'],
+    queryFn: async () => {
+      const res = await fetch('/api/reports/hrb-readiness', { credentials: 'include' });
+      if (!res.ok) return null;
+      return res.json();
+    },
+    staleTime: 60000,
+    refetchOnWindowFocus: false,
+  });
+  
   const totalCompliant = complianceEvidence.reduce((sum, e) => sum + e.compliant, 0);
   const totalProperties = complianceEvidence.reduce((sum, e) => sum + e.total, 0);
   const overallCompliance = ((totalCompliant / totalProperties) * 100).toFixed(1);
@@ -312,6 +362,7 @@ export default function RegulatoryEvidence() {
                 <TabsTrigger value="evidence" data-testid="tab-evidence">Compliance Evidence</TabsTrigger>
                 <TabsTrigger value="exceptions" data-testid="tab-exceptions">Exception Handling</TabsTrigger>
                 <TabsTrigger value="audit" data-testid="tab-audit">Audit Trail</TabsTrigger>
+                <TabsTrigger value="hrb-readiness" data-testid="tab-hrb-readiness">HRB Readiness</TabsTrigger>
               </TabsList>
 
               {/* Compliance Evidence Tab */}
@@ -658,6 +709,64 @@ export default function RegulatoryEvidence() {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              {/* HRB Readiness Tab */}
+              <TabsContent value="hrb-readiness" className="space-y-6">
+                <Card data-testid="card-hrb-readiness">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <ClipboardCheck className="h-5 w-5 text-primary" />
+                      Higher-Risk Building Readiness
+                    </CardTitle>
+                    <CardDescription>
+                      Building Safety Act duties for each higher-risk building
+                      {hrbReadiness && ` - average ${hrbReadiness.summary.averageScore}%, ${hrbReadiness.summary.fullyReady} of ${hrbReadiness.summary.buildings} fully ready, ${hrbReadiness.summary.overdueItems} overdue items`}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {hrbReadinessLoading ? (
+                      <p className="text-sm text-muted-foreground">Loading readiness...</p>
+                    ) : !hrbReadiness || hrbReadiness.buildings.length === 0 ? (
+                      <p className="text-sm text-muted-foreground" data-testid="text-no-hrbs">No higher-risk buildings recorded</p>
+                    ) : (
+                      <div className="space-y-4">
+                        {hrbReadiness.buildings.map((building) => (
+                          <div
+                            key={building.buildingSafetyProfileId}
+                            className="p-4 border rounded-lg space-y-3"
+                            data-testid={`hrb-readiness-${building.buildingSafetyProfileId}`}
+                          >
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-2">
+                                <Building2 className="h-4 w-4 text-muted-foreground" />
+                                <span className="font-medium">{building.blockName ?? building.blockId}</span>
+                                {building.hrbRegistrationNumber && (
+                                  <span className="text-xs text-muted-foreground">{building.hrbRegistrationNumber}</span>
+                                )}
+                              </div>
+                              <span className={`font-bold ${building.score >= 90 ? 'text-green-600' : building.score >= 70 ? 'text-amber-600' : 'text-red-600'}`}>
+                                {building.score}%
+                              </span>
+                            </div>
+                            <Progress value={building.score} className="h-2" />
+                            <div className="grid gap-2 md:grid-cols-2">
+                              {building.items.map((item) => (
+                                <div key={item.check} className="flex items-center justify-between gap-2 text-sm">
+                                  <div>
+                                    <p>{item.label}</p>
+                                    <p className="text-xs text-muted-foreground">{item.detail}</p>
+                                  </div>
+                                  {getReadinessItemBadge(item)}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
             </Tabs>
           </div>
         </main>
@@ -112,6 +112,16 @@ export class ConflictError extends APIError {
   }
 }
 
+export class InvalidStateTransitionError extends APIError {
+  readonly status = 409;
+  readonly type = 'invalid-state-transition';
+  readonly title = 'Invalid State Transition';
+
+  constructor(detail: string, errors?: Array<{ path: string; message: string }>) {
+    super('Invalid State Transition', detail, errors);
+  }
+}
+
 export class TooManyRequestsError extends APIError {
   readonly status = 429;
   readonly type = 'rate-limit-exceeded';
@@ -1,10 +1,10 @@
 import type { Response } from "express";
 
-type SSEClient = { id: string; res: Response };
+type SSEClient = { id: string; res: Response; organisationId?: string | null };
 const sseClients: SSEClient[] = [];
 
-export function addSSEClient(id: string, res: Response) {
-  sseClients.push({ id, res });
+export function addSSEClient(id: string, res: Response, organisationId?: string | null) {
+  sseClients.push({ id, res, organisationId });
 }
 
 export function removeSSEClient(id: string) {
@@ -46,6 +46,27 @@ export function broadcastCacheInvalidation(regions: string[]) {
   });
 }
 
+// Export events carry organisation data, so they only go to clients signed in to that organisation
+export function broadcastReportExportEvent(organisationId: string, event: {
+  type: 'report_export_progress' | 'report_export_complete' | 'report_export_failed';
+  exportId: string;
+  status: string;
+  processedRows: number;
+  totalRows: number | null;
+  error?: string;
+}) {
+  const data = JSON.stringify({ ...event, timestamp: Date.now() });
+  sseClients
+    .filter(client => client.organisationId === organisationId)
+    .forEach(client => {
+      try {
+        client.res.write(`data: ${data}\n\n`);
+      } catch (e) {
+        // Client disconnected, will be cleaned up
+      }
+    });
+}
+
 export function getSSEClientCount(): number {
   return sseClients.length;
 }
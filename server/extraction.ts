@@ -9,6 +9,7 @@ import { extractWithAzureDocumentIntelligence, isAzureDocumentIntelligenceConfig
 import { logger } from "./logger";
 import type { ExtractedCertificateData as OrchestratorExtractedData, CertificateTypeCode } from "./services/extraction/types";
 import { extractCertificate as extractWithOrchestrator } from "./services/extraction/orchestrator";
+import { createProductionDependencies } from "./services/extraction/dependencies";
 
 // Helper to get certificate type config by code
 async function getCertificateTypeIdByCode(code: string) {
@@ -1997,12 +1998,18 @@ export async function processExtractionAndSave(
       return;
     }
     
+    // The active schema for the certificate type supplies the prompt template the AI tiers use
+    const { findActiveSchema, runShadowExtraction } = await import("./services/extraction-shadow");
+    const { resolveCertificateDocumentType } = await import("./services/compliance-rules-engine");
+    const activeSchema = await findActiveSchema(resolveCertificateDocumentType(certificateType));
+
     const orchestratorResult = await extractWithOrchestrator(
       certificateId,
       effectiveBuffer,
       mimeType || 'application/pdf',
       certificate.fileName || 'document.pdf',
-      { forceAI: true }
+      { forceAI: true },
+      activeSchema?.promptTemplate ? createProductionDependencies({ promptTemplate: activeSchema.promptTemplate }) : undefined
     );
     
     // Map tier strings to integer ordinals (0-6) for database storage
@@ -2074,11 +2081,12 @@ export async function processExtractionAndSave(
     
     const normalisedOutput = normalizeExtractionOutput(extractedDataForStorage);
     
-    await db.insert(extractionRuns).values({
+    const [extractionRun] = await db.insert(extractionRuns).values({
       certificateId,
+      schemaId: activeSchema?.id ?? null,
       modelVersion,
       promptVersion: `${certificateType?.toLowerCase() || 'general'}_v2.0`,
-      schemaVersion: "v1.0",
+      schemaVersion: activeSchema?.version ?? "v1.0",
       documentType: docType,
       classificationConfidence: result.confidence,
       rawOutput: { ...extractedDataForStorage, _tierHistory: result.tierHistory },
@@ -2091,7 +2099,29 @@ export async function processExtractionAndSave(
       processingCost: 0,
       validationPassed: result.confidence >= 0.7,
       status: result.tier === 5 ? 'AWAITING_REVIEW' : 'AWAITING_REVIEW',
+    }).returning();
+
+    // A sampled candidate schema runs in the background; its output never reaches the certificate
+    runShadowExtraction({
+      extractionRunId: extractionRun.id,
+      certificateId,
+      documentType: activeSchema?.documentType ?? resolveCertificateDocumentType(certificateType),
+      buffer: effectiveBuffer,
+      mimeType: mimeType || 'application/pdf',
+      fileName: certificate.fileName || 'document.pdf',
+      primaryOutput: orchestratorResult.data as unknown as Record<string, unknown> | null,
+      primaryTier: orchestratorResult.finalTier,
+    }).catch(error => logger.warn({ certificateId, error }, "Shadow extraction failed"));
+
+    const { evaluateRunForAutoApproval, completeAutoApprovedCertificate } = await import("./services/auto-approval");
+    const autoApproval = await evaluateRunForAutoApproval({
+      extractionRunId: extractionRun.id,
+      organisationId: certificate.organisationId,
+      documentType: docType,
+      normalisedOutput,
+      confidence: result.confidence,
     });
+    const certificateStatus = autoApproval.autoApproved ? "APPROVED" : "NEEDS_REVIEW";
 
     logger.info({ 
       certificateId, 
@@ -2109,7 +2139,7 @@ export async function processExtractionAndSave(
     const mappedOutcome = result.outcome === 'N/A' ? null : result.outcome;
     
     await storage.updateCertificate(certificateId, {
-      status: "NEEDS_REVIEW",
+      status: certificateStatus,
       certificateNumber: result.certificateNumber,
       issueDate: result.issueDate,
       expiryDate: result.expiryDate,
@@ -2267,6 +2297,10 @@ export async function processExtractionAndSave(
     // Auto-create/update contractor from engineer info
     await autoCreateContractorFromExtraction(certificate.organisationId, result.extractedData);
     
+    if (autoApproval.autoApproved) {
+      await completeAutoApprovedCertificate(certificateId, extractionRun.id, normalisedOutput);
+    }
+    
     console.log(`Extraction complete for certificate ${certificateId}: ${result.outcome}, ${result.remedialActions.length} actions created`);
     
     // Broadcast real-time update events
@@ -2274,7 +2308,7 @@ export async function processExtractionAndSave(
       type: 'extraction_complete', 
       certificateId, 
       propertyId: certificate.propertyId,
-      status: 'NEEDS_REVIEW'
+      status: certificateStatus
     });
   } catch (error) {
     console.error("Extraction failed:", error);
@@ -5,9 +5,16 @@ import { ObjectStorageService } from "./replit_integrations/object_storage";
 import { enqueueWebhookEvent } from "./webhook-worker";
 import { jobLogger } from "./logger";
 import { runPatternAnalysis } from "./services/pattern-analysis";
+import { runHazardClockSweep } from "./services/awaabs-law-clock";
+import { runOccurrenceDeadlineSweep } from "./services/mandatory-occurrence-reporting";
+import { runHrbReadinessSweep } from "./services/hrb-readiness";
+import { runComplianceRulesSweep } from "./services/compliance-rules-engine";
+import { runContractorSlaSweep } from "./services/contractor-sla";
+import { runContractorCertificationMonitor } from "./services/contractor-certification-monitor";
+import { recomputeAutoApprovalThresholds } from "./services/auto-approval";
 import { db, pool } from "./db";
 import { sql, eq } from "drizzle-orm";
-import { ingestionJobs, certificates } from "@shared/schema";
+import { ingestionJobs, certificates, generatedReports } from "@shared/schema";
 import { 
   withRetryAndTimeout, 
   withTimeout, 
@@ -49,6 +56,17 @@ export const QUEUE_NAMES = {
   SCHEDULED_REPORT: "scheduled-report",
   PATTERN_ANALYSIS: "pattern-analysis",
   MV_REFRESH: "mv-refresh",
+  HAZARD_SLA_CLOCK: "hazard-sla-clock",
+  OCCURRENCE_DEADLINE_SWEEP: "occurrence-deadline-sweep",
+  HRB_READINESS_SWEEP: "hrb-readiness-sweep",
+  COMPLIANCE_RULES_SWEEP: "compliance-rules-sweep",
+  CONTRACTOR_SLA_SWEEP: "contractor-sla-sweep",
+  CONTRACTOR_CERTIFICATION_EXPIRY: "contractor-certification-expiry",
+  CONTRACTOR_REGISTRATION_REVERIFY: "contractor-registration-reverify",
+  REPORT_DELIVERY: "report-delivery",
+  REPORT_EXPORT: "report-export",
+  AUTO_APPROVAL_RECALIBRATION: "auto-approval-recalibration",
+  EXTRACTION_BENCHMARK: "extraction-benchmark",
 } as const;
 
 interface IngestionJobData {
@@ -72,6 +90,25 @@ interface ScheduledReportJobData {
   triggerType: 'scheduled' | 'manual';
 }
 
+interface ReportDeliveryJobData {
+  deliveryId: string;
+}
+
+interface ReportExportJobData {
+  exportId: string;
+}
+
+interface ExtractionBenchmarkJobData {
+  evalRunId: string;
+}
+
+interface RegistrationReverifyJobData {
+  organisationId?: string;
+}
+
+// One initial attempt plus pg-boss retries for each report email
+const REPORT_DELIVERY_RETRY_LIMIT = 3;
+
 export async function initJobQueue(): Promise<PgBoss> {
   if (boss) {
     return boss;
@@ -243,6 +280,51 @@ async function registerWorkers(): Promise<void> {
   
   jobLogger.info("Scheduled report worker registered");
 
+  // Report email delivery - one job per recipient so failures retry independently
+  await boss.createQueue(QUEUE_NAMES.REPORT_DELIVERY);
+
+  await boss.work<ReportDeliveryJobData>(
+    QUEUE_NAMES.REPORT_DELIVERY,
+    async ([job]) => {
+      if (job) {
+        const { deliverReport } = await import("./services/report-delivery");
+        await deliverReport(job.data.deliveryId, REPORT_DELIVERY_RETRY_LIMIT + 1);
+      }
+    }
+  );
+
+  jobLogger.info("Report delivery worker registered");
+
+  // Ad-hoc report exports - streamed to storage so large exports don't block a request
+  await boss.createQueue(QUEUE_NAMES.REPORT_EXPORT);
+
+  await boss.work<ReportExportJobData>(
+    QUEUE_NAMES.REPORT_EXPORT,
+    async ([job]) => {
+      if (job) {
+        const { runReportExport } = await import("./services/report-export");
+        await runReportExport(job.data.exportId);
+      }
+    }
+  );
+
+  jobLogger.info("Report export worker registered");
+
+  // Extraction benchmarks replay a whole benchmark set through the AI tiers
+  await boss.createQueue(QUEUE_NAMES.EXTRACTION_BENCHMARK);
+
+  await boss.work<ExtractionBenchmarkJobData>(
+    QUEUE_NAMES.EXTRACTION_BENCHMARK,
+    async ([job]) => {
+      if (job) {
+        const { executeBenchmarkRun } = await import("./services/extraction-benchmark");
+        await executeBenchmarkRun(job.data.evalRunId);
+      }
+    }
+  );
+
+  jobLogger.info("Extraction benchmark worker registered");
+
   await boss.createQueue(QUEUE_NAMES.PATTERN_ANALYSIS);
   
   await boss.work(
@@ -270,6 +352,209 @@ async function registerWorkers(): Promise<void> {
   
   jobLogger.info("Pattern analysis worker registered and scheduled every 4 hours");
 
+  // Awaab's Law statutory clocks - flags SLA breaches on open hazard cases
+  await boss.createQueue(QUEUE_NAMES.HAZARD_SLA_CLOCK);
+
+  await boss.work(
+    QUEUE_NAMES.HAZARD_SLA_CLOCK,
+    async () => {
+      try {
+        const result = await runHazardClockSweep();
+        jobLogger.info(result, "Hazard SLA clock job completed");
+      } catch (error) {
+        jobLogger.error({ error }, "Hazard SLA clock job failed");
+        throw error;
+      }
+    }
+  );
+
+  const hazardClockIntervalMinutes = parsePositiveIntOrDefault(await storage.getFactorySettingValue('AWAABS_LAW_CLOCK_INTERVAL_MINUTES', '15'), 15);
+  await boss.schedule(
+    QUEUE_NAMES.HAZARD_SLA_CLOCK,
+    `*/${hazardClockIntervalMinutes} * * * *`,
+    {},
+    { tz: 'UTC' }
+  );
+
+  jobLogger.info({ intervalMinutes: hazardClockIntervalMinutes }, "Hazard SLA clock worker registered and scheduled");
+
+  // Building Safety Act mandatory occurrence reports - alerts as the regulator deadline approaches
+  await boss.createQueue(QUEUE_NAMES.OCCURRENCE_DEADLINE_SWEEP);
+
+  await boss.work(
+    QUEUE_NAMES.OCCURRENCE_DEADLINE_SWEEP,
+    async () => {
+      try {
+        const result = await runOccurrenceDeadlineSweep();
+        jobLogger.info(result, "Occurrence deadline sweep job completed");
+      } catch (error) {
+        jobLogger.error({ error }, "Occurrence deadline sweep job failed");
+        throw error;
+      }
+    }
+  );
+
+  await boss.schedule(
+    QUEUE_NAMES.OCCURRENCE_DEADLINE_SWEEP,
+    '5 * * * *', // Hourly
+    {},
+    { tz: 'UTC' }
+  );
+
+  jobLogger.info("Occurrence deadline sweep worker registered and scheduled hourly");
+
+  // Higher-risk building readiness - schedules due safety case and strategy reviews and alerts on gaps
+  await boss.createQueue(QUEUE_NAMES.HRB_READINESS_SWEEP);
+
+  await boss.work(
+    QUEUE_NAMES.HRB_READINESS_SWEEP,
+    async () => {
+      try {
+        const result = await runHrbReadinessSweep();
+        jobLogger.info(result, "HRB readiness sweep job completed");
+      } catch (error) {
+        jobLogger.error({ error }, "HRB readiness sweep job failed");
+        throw error;
+      }
+    }
+  );
+
+  await boss.schedule(
+    QUEUE_NAMES.HRB_READINESS_SWEEP,
+    '30 5 * * *', // Daily at 05:30 UTC
+    {},
+    { tz: 'UTC' }
+  );
+
+  jobLogger.info("HRB readiness sweep worker registered and scheduled daily");
+
+  // Compliance rules engine - evaluates active rules against every property overnight
+  await boss.createQueue(QUEUE_NAMES.COMPLIANCE_RULES_SWEEP);
+
+  await boss.work(
+    QUEUE_NAMES.COMPLIANCE_RULES_SWEEP,
+    async () => {
+      try {
+        const result = await runComplianceRulesSweep();
+        jobLogger.info(result, "Compliance rules sweep job completed");
+      } catch (error) {
+        jobLogger.error({ error }, "Compliance rules sweep job failed");
+        throw error;
+      }
+    }
+  );
+
+  await boss.schedule(
+    QUEUE_NAMES.COMPLIANCE_RULES_SWEEP,
+    '0 2 * * *', // Daily at 02:00 UTC
+    {},
+    { tz: 'UTC' }
+  );
+
+  jobLogger.info("Compliance rules sweep worker registered and scheduled daily");
+
+  // Contractor SLAs - moves job performance records to AT_RISK/BREACHED and raises contractor alerts
+  await boss.createQueue(QUEUE_NAMES.CONTRACTOR_SLA_SWEEP);
+
+  await boss.work(
+    QUEUE_NAMES.CONTRACTOR_SLA_SWEEP,
+    async () => {
+      try {
+        const result = await runContractorSlaSweep();
+        jobLogger.info(result, "Contractor SLA sweep job completed");
+      } catch (error) {
+        jobLogger.error({ error }, "Contractor SLA sweep job failed");
+        throw error;
+      }
+    }
+  );
+
+  const contractorSlaIntervalMinutes = parsePositiveIntOrDefault(await storage.getFactorySettingValue('CONTRACTOR_SLA_SWEEP_INTERVAL_MINUTES', '15'), 15);
+  await boss.schedule(
+    QUEUE_NAMES.CONTRACTOR_SLA_SWEEP,
+    `*/${contractorSlaIntervalMinutes} * * * *`,
+    {},
+    { tz: 'UTC' }
+  );
+
+  jobLogger.info({ intervalMinutes: contractorSlaIntervalMinutes }, "Contractor SLA sweep worker registered and scheduled");
+
+  // Contractor registrations - expiry warnings, EXPIRED marking and lapse handling
+  await boss.createQueue(QUEUE_NAMES.CONTRACTOR_CERTIFICATION_EXPIRY);
+
+  await boss.work(
+    QUEUE_NAMES.CONTRACTOR_CERTIFICATION_EXPIRY,
+    async () => {
+      try {
+        const result = await runContractorCertificationMonitor();
+        jobLogger.info(result, "Contractor certification expiry job completed");
+      } catch (error) {
+        jobLogger.error({ error }, "Contractor certification expiry job failed");
+        throw error;
+      }
+    }
+  );
+
+  await boss.schedule(
+    QUEUE_NAMES.CONTRACTOR_CERTIFICATION_EXPIRY,
+    '0 6 * * *', // Daily at 06:00 UTC
+    {},
+    { tz: 'UTC' }
+  );
+
+  jobLogger.info("Contractor certification expiry worker registered and scheduled daily");
+
+  // Contractor registrations - re-checks every certification against its scheme register
+  await boss.createQueue(QUEUE_NAMES.CONTRACTOR_REGISTRATION_REVERIFY);
+
+  await boss.work<RegistrationReverifyJobData>(
+    QUEUE_NAMES.CONTRACTOR_REGISTRATION_REVERIFY,
+    async ([job]) => {
+      try {
+        const { runRegistrationReverification } = await import("./services/contractor-registration-verification");
+        const result = await runRegistrationReverification({ organisationId: job?.data?.organisationId });
+        jobLogger.info(result, "Contractor registration re-verification job completed");
+      } catch (error) {
+        jobLogger.error({ error }, "Contractor registration re-verification job failed");
+        throw error;
+      }
+    }
+  );
+
+  await boss.schedule(
+    QUEUE_NAMES.CONTRACTOR_REGISTRATION_REVERIFY,
+    '0 3 * * 1', // Weekly, Monday 03:00 UTC
+    {},
+    { tz: 'UTC' }
+  );
+
+  jobLogger.info("Contractor registration re-verification worker registered and scheduled weekly");
+
+  // Auto-approval - recomputes threshold accuracy from recent human reviews and enables/disables them
+  await boss.createQueue(QUEUE_NAMES.AUTO_APPROVAL_RECALIBRATION);
+
+  await boss.work(
+    QUEUE_NAMES.AUTO_APPROVAL_RECALIBRATION,
+    async () => {
+      try {
+        const result = await recomputeAutoApprovalThresholds();
+        jobLogger.info(result, "Auto-approval recalibration job completed");
+      } catch (error) {
+        jobLogger.error({ error }, "Auto-approval recalibration job failed");
+        throw error;
+      }
+    }
+  );
+
+  await boss.schedule(
+    QUEUE_NAMES.AUTO_APPROVAL_RECALIBRATION,
+    '30 1 * * *', // Daily at 01:30 UTC
+    {},
+    { tz: 'UTC' }
+  );
+
+  jobLogger.info("Auto-approval recalibration worker registered and scheduled daily");
+
   await boss.createQueue(QUEUE_NAMES.MV_REFRESH);
   
   await boss.work(
@@ -801,10 +1086,21 @@ export async function getScheduledJobsStatus(): Promise<ScheduledJobInfo[]> {
     { name: QUEUE_NAMES.CERTIFICATE_WATCHDOG, description: 'Marks stuck certificates as failed', defaultCron: '*/5 * * * *', scheduleType: 'scheduled' as const },
     { name: QUEUE_NAMES.REPORTING_REFRESH, description: 'Refreshes reports and checks for due scheduled reports', defaultCron: '0 * * * *', scheduleType: 'scheduled' as const },
     { name: QUEUE_NAMES.PATTERN_ANALYSIS, description: 'Analyzes correction patterns for extraction improvement', defaultCron: '0 */4 * * *', scheduleType: 'scheduled' as const },
+    { name: QUEUE_NAMES.HAZARD_SLA_CLOCK, description: "Checks Awaab's Law statutory clocks on open hazard cases", defaultCron: '*/15 * * * *', scheduleType: 'scheduled' as const },
+    { name: QUEUE_NAMES.OCCURRENCE_DEADLINE_SWEEP, description: 'Alerts as mandatory occurrence report deadlines approach and pass', defaultCron: '5 * * * *', scheduleType: 'scheduled' as const },
+    { name: QUEUE_NAMES.HRB_READINESS_SWEEP, description: 'Scores higher-risk building readiness and schedules overdue safety case items', defaultCron: '30 5 * * *', scheduleType: 'scheduled' as const },
+    { name: QUEUE_NAMES.COMPLIANCE_RULES_SWEEP, description: 'Evaluates active compliance rules against every property', defaultCron: '0 2 * * *', scheduleType: 'scheduled' as const },
+    { name: QUEUE_NAMES.CONTRACTOR_SLA_SWEEP, description: 'Flags contractor jobs at risk of or in breach of their SLA', defaultCron: '*/15 * * * *', scheduleType: 'scheduled' as const },
+    { name: QUEUE_NAMES.CONTRACTOR_CERTIFICATION_EXPIRY, description: 'Warns before contractor registrations expire and marks lapsed ones expired', defaultCron: '0 6 * * *', scheduleType: 'scheduled' as const },
+    { name: QUEUE_NAMES.CONTRACTOR_REGISTRATION_REVERIFY, description: 'Re-checks contractor registrations against scheme registers', defaultCron: '0 3 * * 1', scheduleType: 'scheduled' as const },
+    { name: QUEUE_NAMES.AUTO_APPROVAL_RECALIBRATION, description: 'Recomputes auto-approval accuracy from human reviews and enables or disables thresholds', defaultCron: '30 1 * * *', scheduleType: 'scheduled' as const },
     { name: QUEUE_NAMES.RATE_LIMIT_CLEANUP, description: 'Cleans up expired rate limit entries', defaultCron: 'on-demand', scheduleType: 'on-demand' as const },
     { name: QUEUE_NAMES.CERTIFICATE_INGESTION, description: 'Processes certificate uploads and extractions', defaultCron: 'on-demand', scheduleType: 'on-demand' as const },
     { name: QUEUE_NAMES.WEBHOOK_DELIVERY, description: 'Delivers webhook notifications to external systems', defaultCron: 'on-demand', scheduleType: 'on-demand' as const },
     { name: QUEUE_NAMES.SCHEDULED_REPORT, description: 'Executes scheduled report generation', defaultCron: 'on-demand', scheduleType: 'on-demand' as const },
+    { name: QUEUE_NAMES.REPORT_DELIVERY, description: 'Emails generated reports to scheduled report recipients', defaultCron: 'on-demand', scheduleType: 'on-demand' as const },
+    { name: QUEUE_NAMES.REPORT_EXPORT, description: 'Streams ad-hoc CSV/Excel report exports to storage', defaultCron: 'on-demand', scheduleType: 'on-demand' as const },
+    { name: QUEUE_NAMES.EXTRACTION_BENCHMARK, description: 'Runs extraction benchmarks against locked benchmark sets', defaultCron: 'on-demand', scheduleType: 'on-demand' as const },
   ];
   
   try {
@@ -909,7 +1205,7 @@ async function processReportingRefresh(): Promise<void> {
 }
 
 // Process a scheduled report execution via pg-boss
-async function processScheduledReport(data: ScheduledReportJobData): Promise<void> {
+export async function processScheduledReport(data: ScheduledReportJobData): Promise<string | undefined> {
   const { scheduledReportId, triggerType } = data;
   
   jobLogger.info({ scheduledReportId, triggerType }, "Processing scheduled report");
@@ -942,20 +1238,30 @@ async function processScheduledReport(data: ScheduledReportJobData): Promise<voi
     
     const generatedReport = generateResult.rows[0] as any;
     
-    // TODO: Implement actual report generation logic here
-    // This would typically:
-    // 1. Fetch the template from report_templates
-    // 2. Query the relevant data based on filters
-    // 3. Generate the PDF/CSV/Excel file
-    // 4. Store in object storage
-    // 5. Update the generated_report with storage_key and file_size
-    
-    // For now, mark as ready (placeholder for full implementation)
-    await db.execute(sql`
-      UPDATE generated_reports 
-      SET status = 'READY', file_size = 102400
-      WHERE id = ${generatedReport.id}
-    `);
+    try {
+      const { generateAndStoreReport } = await import("./services/report-generator");
+      const stored = await generateAndStoreReport({
+        generatedReportId: generatedReport.id,
+        organisationId: schedule.organisation_id,
+        name: schedule.name,
+        format: schedule.format || 'PDF',
+        templateId: schedule.template_id,
+        templateName: schedule.template_name,
+        filters: schedule.filters,
+      });
+      
+      await db.execute(sql`
+        UPDATE generated_reports 
+        SET status = 'READY', storage_key = ${stored.storageKey}, file_size = ${stored.fileSize}, 
+            template_id = ${stored.templateId}, generated_at = NOW()
+        WHERE id = ${generatedReport.id}
+      `);
+    } catch (generationError) {
+      await db.execute(sql`
+        UPDATE generated_reports SET status = 'FAILED' WHERE id = ${generatedReport.id}
+      `);
+      throw generationError;
+    }
     
     // Update last_run_at on the scheduled report
     await db.execute(sql`
@@ -964,7 +1270,12 @@ async function processScheduledReport(data: ScheduledReportJobData): Promise<voi
       WHERE id = ${scheduledReportId}
     `);
     
+    if (schedule.recipients?.length > 0) {
+      await enqueueReportDeliveries(generatedReport.id, schedule.recipients);
+    }
+    
     jobLogger.info({ scheduledReportId, generatedReportId: generatedReport.id }, "Scheduled report completed");
+    return generatedReport.id;
     
   } catch (error) {
     jobLogger.error({ scheduledReportId, error }, "Scheduled report failed");
@@ -972,6 +1283,86 @@ async function processScheduledReport(data: ScheduledReportJobData): Promise<voi
   }
 }
 
+// Create per-recipient delivery records for a generated report and queue them for sending.
+// Without a running queue (e.g. the direct-execution fallback) each delivery is attempted once inline.
+export async function enqueueReportDeliveries(generatedReportId: string, recipients: string[]): Promise<number> {
+  const { createReportDeliveries, deliverReport } = await import("./services/report-delivery");
+
+  const [report] = await db.select().from(generatedReports).where(eq(generatedReports.id, generatedReportId));
+  if (!report) {
+    throw new Error(`Generated report ${generatedReportId} not found`);
+  }
+
+  const deliveryIds = await createReportDeliveries(report, recipients);
+
+  for (const deliveryId of deliveryIds) {
+    if (boss) {
+      await boss.send(QUEUE_NAMES.REPORT_DELIVERY, { deliveryId } as ReportDeliveryJobData, {
+        retryLimit: REPORT_DELIVERY_RETRY_LIMIT,
+        retryDelay: 60,
+        retryBackoff: true,
+        expireInMinutes: 15,
+      });
+    } else {
+      await deliverReport(deliveryId, 1).catch(error => {
+        jobLogger.error({ deliveryId, error }, "Inline report delivery failed");
+      });
+    }
+  }
+
+  jobLogger.info({ generatedReportId, deliveries: deliveryIds.length }, "Report deliveries queued");
+  return deliveryIds.length;
+}
+
+// Queue an ad-hoc report export created by the reports API
+export async function enqueueReportExport(exportId: string): Promise<string | null> {
+  if (!boss) {
+    throw new Error("Job queue not initialized");
+  }
+
+  const jobId = await boss.send(QUEUE_NAMES.REPORT_EXPORT, { exportId } as ReportExportJobData, {
+    retryLimit: 2,
+    retryDelay: 30,
+    expireInMinutes: 60,
+  });
+
+  jobLogger.info({ exportId, jobId }, "Report export queued");
+  return jobId;
+}
+
+// Queue a benchmark run queued by the model insights API
+export async function enqueueExtractionBenchmark(evalRunId: string): Promise<string | null> {
+  if (!boss) {
+    throw new Error("Job queue not initialized");
+  }
+
+  const jobId = await boss.send(QUEUE_NAMES.EXTRACTION_BENCHMARK, { evalRunId } as ExtractionBenchmarkJobData, {
+    retryLimit: 1,
+    retryDelay: 60,
+    expireInMinutes: 120,
+  });
+
+  jobLogger.info({ evalRunId, jobId }, "Extraction benchmark queued");
+  return jobId;
+}
+
+// Queue an immediate register re-check of one organisation's contractor registrations
+export async function enqueueRegistrationReverification(organisationId: string): Promise<string | null> {
+  if (!boss) {
+    throw new Error("Job queue not initialized");
+  }
+
+  const jobId = await boss.send(QUEUE_NAMES.CONTRACTOR_REGISTRATION_REVERIFY, { organisationId } as RegistrationReverifyJobData, {
+    retryLimit: 1,
+    retryDelay: 300,
+    expireInMinutes: 120,
+    singletonKey: `reverify-${organisationId}`,
+  });
+
+  jobLogger.info({ organisationId, jobId }, "Contractor registration re-verification queued");
+  return jobId;
+}
+
 // Enqueue a scheduled report for immediate execution
 export async function enqueueScheduledReportNow(scheduledReportId: string): Promise<string | null> {
   if (!boss) {
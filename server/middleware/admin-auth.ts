@@ -1,13 +1,10 @@
 import type { Request, Response, NextFunction } from "express";
-import { auth } from "../auth";
-import { fromNodeHeaders } from "better-auth/node";
+import { getVerifiedSession } from "../session";
 import { logger } from "../logger";
 
 export async function requireAdminRole(req: Request, res: Response): Promise<boolean> {
   try {
-    const session = await auth.api.getSession({
-      headers: fromNodeHeaders(req.headers),
-    });
+    const session = await getVerifiedSession(req);
     
     if (!session || !session.user) {
       res.status(401).json({ error: "Not authenticated" });
@@ -32,9 +29,7 @@ export async function requireAdminRole(req: Request, res: Response): Promise<boo
 
 export async function requireSuperAdminRole(req: Request, res: Response): Promise<boolean> {
   try {
-    const session = await auth.api.getSession({
-      headers: fromNodeHeaders(req.headers),
-    });
+    const session = await getVerifiedSession(req);
     
     if (!session || !session.user) {
       res.status(401).json({ error: "Not authenticated" });
@@ -60,9 +55,7 @@ export async function requireSuperAdminRole(req: Request, res: Response): Promis
 export function adminAuthMiddleware(allowedRoles: string[] = ['LASHAN_SUPER_USER', 'SUPER_ADMIN', 'SYSTEM_ADMIN', 'ADMIN', 'COMPLIANCE_MANAGER']) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const session = await auth.api.getSession({
-        headers: fromNodeHeaders(req.headers),
-      });
+      const session = await getVerifiedSession(req);
       
       if (!session || !session.user) {
         return res.status(401).json({ error: "Not authenticated" });
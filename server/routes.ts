@@ -34,6 +34,8 @@ import { staffRouter } from "./routes/staff.routes";
 import { hierarchyRouter } from "./routes/hierarchy.routes";
 import { authEndpointsRouter } from "./routes/auth-endpoints.routes";
 import { brandingRouter } from "./routes/branding.routes";
+import { asbestosRouter } from "./routes/asbestos.routes";
+import { waterHygieneRouter } from "./routes/water-hygiene.routes";
 
 async function seedDefaultComponentTypes() {
   const existing = await db.select().from(componentTypes);
@@ -78,16 +80,10 @@ async function seedDefaultComponentTypes() {
   console.log('Seeded default component types');
 }
 
-export async function registerRoutes(
-  httpServer: Server,
-  app: Express
-): Promise<Server> {
-  
-  await seedDefaultComponentTypes();
-  
-  registerObjectStorageRoutes(app);
-  
-  // Mount domain routers
+// Auth endpoints go first: several '/api' routers apply requireAuth to every request that
+// reaches them, which would reject sessions still completing MFA before they got here.
+export function mountDomainRouters(app: Express): void {
+  app.use('/api', authEndpointsRouter);
   app.use('/api/observability', observabilityRoutes);
   app.use('/api/admin', adminRouter);
   app.use('/api/reports', reportsRouter);
@@ -110,8 +106,21 @@ export async function registerRoutes(
   app.use('/api', analyticsRouter);
   app.use('/api', staffRouter);
   app.use('/api', hierarchyRouter);
-  app.use('/api', authEndpointsRouter);
   app.use('/api', brandingRouter);
+  app.use('/api', asbestosRouter);
+  app.use('/api', waterHygieneRouter);
+}
+
+export async function registerRoutes(
+  httpServer: Server,
+  app: Express
+): Promise<Server> {
+  
+  await seedDefaultComponentTypes();
+  
+  registerObjectStorageRoutes(app);
+  
+  mountDomainRouters(app);
 
   // OpenAPI/Swagger documentation
   let cachedOpenApiSpec = generateOpenAPIDocument();
@@ -492,101 +501,6 @@ export async function registerRoutes(
     }
   });
   
-  // HMS Integration Endpoints
-  app.post("/api/integrations/hms/actions", async (req, res) => {
-    try {
-      const log = await storage.createIncomingWebhookLog({
-        source: 'HMS',
-        eventType: req.body.eventType || 'action_update',
-        payload: req.body,
-        headers: req.headers as Record<string, string | string[] | undefined>
-      });
-      
-      const { actionId, status, completedAt, costActual } = req.body;
-      
-      if (!actionId) {
-        await storage.updateIncomingWebhookLog(log.id, { 
-          errorMessage: 'Missing actionId',
-          processed: true,
-          processedAt: new Date()
-        });
-        return res.status(400).json({ error: "actionId is required" });
-      }
-      
-      const action = await storage.getRemedialAction(actionId);
-      if (!action) {
-        await storage.updateIncomingWebhookLog(log.id, { 
-          errorMessage: 'Action not found',
-          processed: true,
-          processedAt: new Date()
-        });
-        return res.status(404).json({ error: "Remedial action not found" });
-      }
-      
-      const updates: Partial<{ status: string; resolvedAt: Date; costEstimate: string }> = {};
-      if (status) updates.status = status;
-      if (completedAt) updates.resolvedAt = new Date(completedAt);
-      if (costActual) updates.costEstimate = costActual.toString();
-      
-      await storage.updateRemedialAction(actionId, updates);
-      
-      await storage.updateIncomingWebhookLog(log.id, { 
-        processed: true,
-        processedAt: new Date()
-      });
-      
-      res.json({ success: true, actionId, updates });
-    } catch (error) {
-      console.error("Error processing HMS webhook:", error);
-      res.status(500).json({ error: "Failed to process webhook" });
-    }
-  });
-  
-  app.post("/api/integrations/hms/work-orders", async (req, res) => {
-    try {
-      const log = await storage.createIncomingWebhookLog({
-        source: 'HMS',
-        eventType: 'work_order_update',
-        payload: req.body,
-        headers: req.headers as Record<string, string | string[] | undefined>
-      });
-      
-      const { workOrderId, actionId, status, scheduledDate } = req.body;
-      
-      if (!actionId) {
-        await storage.updateIncomingWebhookLog(log.id, { 
-          errorMessage: 'Missing actionId',
-          processed: true,
-          processedAt: new Date()
-        });
-        return res.status(400).json({ error: "actionId is required" });
-      }
-      
-      const updates: Partial<{ status: string; resolvedAt: Date; dueDate: string }> = {};
-      if (status === 'scheduled' || status === 'in_progress') {
-        updates.status = 'IN_PROGRESS';
-      } else if (status === 'completed') {
-        updates.status = 'COMPLETED';
-        updates.resolvedAt = new Date();
-      }
-      if (scheduledDate) {
-        updates.dueDate = scheduledDate;
-      }
-      
-      await storage.updateRemedialAction(actionId, updates);
-      
-      await storage.updateIncomingWebhookLog(log.id, { 
-        processed: true,
-        processedAt: new Date()
-      });
-      
-      res.json({ success: true, actionId, workOrderId, updates });
-    } catch (error) {
-      console.error("Error processing work order webhook:", error);
-      res.status(500).json({ error: "Failed to process webhook" });
-    }
-  });
-
   return httpServer;
 }
 
@@ -3,6 +3,7 @@ import { requireRole, type AuthenticatedRequest } from "../../session";
 import { getAIRegistry } from "../../services/ai/providers";
 import { getConfiguredProviders } from "../../auth";
 import { ObjectStorageService } from "../../replit_integrations/object_storage";
+import { createStorageProvider, getStorageConfigFromEnv, StorageProviderType } from "../../storage/providers";
 import { ADMIN_ROLES, SUPER_ADMIN_ROLES } from "./utils";
 import { db } from "../../db";
 import { factorySettings, factorySettingsAudit } from "@shared/schema";
@@ -82,7 +83,7 @@ const STORAGE_PROVIDER_INFO: Record<string, { name: string; description: string;
   gcs: { 
     name: "Google Cloud Storage", 
     description: "Google Cloud Storage buckets",
-    envVars: ["GOOGLE_APPLICATION_CREDENTIALS", "GCS_BUCKET"]
+    envVars: ["GCP_PROJECT_ID", "GCS_PUBLIC_BUCKET", "GCS_PRIVATE_BUCKET"]
   },
 };
 
@@ -208,13 +209,19 @@ adminCloudConfigRouter.post("/cloud-config/health-check", requireRole(...ADMIN_R
         results,
       });
     } else if (category === "storage") {
-      const storageService = new ObjectStorageService();
       let healthy = false;
       let error: string | undefined;
       
       try {
-        storageService.getPublicObjectSearchPaths();
-        storageService.getPrivateObjectDir();
+        const config = getStorageConfigFromEnv();
+        if (config.type === StorageProviderType.REPLIT) {
+          const storageService = new ObjectStorageService();
+          storageService.getPublicObjectSearchPaths();
+          storageService.getPrivateObjectDir();
+        } else {
+          // Throws unless the provider initialises and passes its own health check
+          await createStorageProvider(config);
+        }
         healthy = true;
       } catch (e) {
         error = e instanceof Error ? e.message : String(e);
@@ -1,7 +1,5 @@
 import { Router, Response } from "express";
-import { requireRole, type AuthenticatedRequest } from "../../session";
-import { auth } from "../../auth";
-import { fromNodeHeaders } from "better-auth/node";
+import { requireRole, getVerifiedSession, type AuthenticatedRequest } from "../../session";
 import { SUPER_ADMIN_ROLES, ADMIN_AND_ABOVE_ROLES } from "./utils";
 
 export const adminDbOptimizationRouter = Router();
@@ -129,7 +127,7 @@ adminDbOptimizationRouter.get("/db-optimization/schedule", requireRole(...SUPER_
 
 adminDbOptimizationRouter.post("/db-optimization/schedule", requireRole(...SUPER_ADMIN_ROLES), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+    const session = await getVerifiedSession(req);
     const { 
       scheduleTime, 
       timezone = 'Europe/London', 
@@ -1,5 +1,5 @@
 import { Router, Response } from "express";
-import { requireRole, type AuthenticatedRequest } from "../../session";
+import { requireRole, getVerifiedSession, type AuthenticatedRequest } from "../../session";
 import { storage } from "../../storage";
 import { db } from "../../db";
 import { users, factorySettings, factorySettingsAudit, userFavorites } from "@shared/schema";
@@ -8,9 +8,25 @@ import bcrypt from "bcrypt";
 import { validatePassword } from "../../services/password-policy";
 import { clearApiLimitsCache } from "../../services/api-limits";
 import { clearTierThresholdsCache } from "../../services/risk-scoring";
-import { auth } from "../../auth";
-import { fromNodeHeaders } from "better-auth/node";
 import { SUPER_ADMIN_ROLES, ADMIN_ROLES, getOrgId } from "./utils";
+import { resetUserMfa, getOrganisationMfaPolicy, updateOrganisationMfaPolicy } from "../../services/mfa";
+import type { AuditContext } from "../../services/audit";
+import { z } from "zod";
+
+const mfaPolicySchema = z.object({
+  enforced: z.boolean(),
+  requiredRoles: z.array(z.enum(['LASHAN_SUPER_USER', 'SUPER_ADMIN', 'SYSTEM_ADMIN', 'COMPLIANCE_MANAGER', 'ADMIN', 'MANAGER', 'OFFICER', 'VIEWER'])),
+});
+
+function getAdminAuditContext(req: AuthenticatedRequest): AuditContext {
+  return {
+    actorId: req.user?.id,
+    actorName: req.user?.name || req.user?.username,
+    actorType: 'USER',
+    ipAddress: req.ip || (req.headers['x-forwarded-for'] as string),
+    userAgent: req.headers['user-agent'] as string,
+  };
+}
 
 export const adminUsersRouter = Router();
 
@@ -69,7 +85,8 @@ adminUsersRouter.post("/users", requireRole(...ADMIN_ROLES), async (req: Authent
 
 adminUsersRouter.patch("/users/:id", requireRole(...ADMIN_ROLES), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { password, ...updates } = req.body;
+    // MFA state only changes through enrolment or the reset endpoint
+    const { password, mfaEnabled: _mfaEnabled, ...updates } = req.body;
     
     if (password) {
       const passwordValidation = validatePassword(password);
@@ -147,9 +164,52 @@ adminUsersRouter.delete("/users/:id", requireRole(...SUPER_ADMIN_ROLES), async (
   }
 });
 
+adminUsersRouter.post("/users/:id/mfa/reset", requireRole(...ADMIN_ROLES), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const orgId = getOrgId(req);
+    const target = await storage.getUser(req.params.id);
+    if (!target || target.organisationId !== orgId) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    if (target.role === 'LASHAN_SUPER_USER' && req.user?.role !== 'LASHAN_SUPER_USER') {
+      return res.status(403).json({ error: "Cannot reset MFA for this user" });
+    }
+    
+    await resetUserMfa(target, getAdminAuditContext(req));
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error resetting user MFA:", error);
+    res.status(500).json({ error: "Failed to reset MFA" });
+  }
+});
+
+adminUsersRouter.get("/mfa-policy", requireRole(...ADMIN_ROLES), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await getOrganisationMfaPolicy(getOrgId(req)));
+  } catch (error) {
+    console.error("Error fetching MFA policy:", error);
+    res.status(500).json({ error: "Failed to fetch MFA policy" });
+  }
+});
+
+adminUsersRouter.put("/mfa-policy", requireRole(...SUPER_ADMIN_ROLES), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = mfaPolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid MFA policy", details: parsed.error.errors });
+    }
+    
+    const policy = await updateOrganisationMfaPolicy(getOrgId(req), parsed.data, getAdminAuditContext(req));
+    res.json(policy);
+  } catch (error) {
+    console.error("Error updating MFA policy:", error);
+    res.status(500).json({ error: "Failed to update MFA policy" });
+  }
+});
+
 adminUsersRouter.get("/user/favorites", async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+    const session = await getVerifiedSession(req);
     if (!session?.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
@@ -168,7 +228,7 @@ adminUsersRouter.get("/user/favorites", async (req: AuthenticatedRequest, res: R
 
 adminUsersRouter.post("/user/favorites", async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+    const session = await getVerifiedSession(req);
     if (!session?.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
@@ -203,7 +263,7 @@ adminUsersRouter.post("/user/favorites", async (req: AuthenticatedRequest, res:
 
 adminUsersRouter.delete("/user/favorites", async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+    const session = await getVerifiedSession(req);
     if (!session?.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
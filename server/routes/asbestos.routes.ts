@@ -0,0 +1,41 @@
+import { Router } from "express";
+import { requireAuth, requireRole, type AuthenticatedRequest } from "../session";
+import { handleRouteError } from "../errors";
+import {
+  checkRefurbishmentSurveyRequired,
+  getAsbestosRegister,
+  resolveScope,
+  syncAsbestosRegister,
+} from "../services/asbestos-register";
+
+export const asbestosRouter = Router();
+
+// ===== ASBESTOS REGISTER =====
+asbestosRouter.get("/asbestos-register", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const scope = await resolveScope(req.user!.organisationId!, req.query);
+    res.json(await getAsbestosRegister(scope));
+  } catch (error) {
+    handleRouteError(error, req, res, "Asbestos Register");
+  }
+});
+
+asbestosRouter.post("/asbestos-register/sync", requireRole('ADMIN', 'MANAGER', 'OFFICER', 'COMPLIANCE_MANAGER'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const scope = await resolveScope(req.user!.organisationId!, req.body ?? {});
+    res.json(await syncAsbestosRegister(req.user!.organisationId!, scope));
+  } catch (error) {
+    handleRouteError(error, req, res, "Asbestos Register");
+  }
+});
+
+asbestosRouter.get("/asbestos-register/refurbishment-check", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const scope = await resolveScope(req.user!.organisationId!, req.query);
+    const rooms = String(req.query.rooms ?? "").split(",").map(room => room.trim());
+    const warning = await checkRefurbishmentSurveyRequired(scope, rooms);
+    res.json({ surveyRequired: warning !== null, warning });
+  } catch (error) {
+    handleRouteError(error, req, res, "Asbestos Register");
+  }
+});
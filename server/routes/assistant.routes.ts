@@ -1,11 +1,9 @@
 import { Router, Response } from "express";
-import { requireAuth, type AuthenticatedRequest } from "../session";
+import { requireAuth, getVerifiedSession, type AuthenticatedRequest } from "../session";
 import { db } from "../db";
 import { eq } from "drizzle-orm";
 import { users } from "@shared/schema";
 import { z } from "zod";
-import { auth } from "../auth";
-import { fromNodeHeaders } from "better-auth/node";
 
 export const assistantRouter = Router();
 
@@ -27,7 +25,7 @@ const chatRequestSchema = z.object({
 
 assistantRouter.post("/assistant/chat", async (req, res) => {
   try {
-    const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+    const session = await getVerifiedSession(req);
     if (!session?.user?.id) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -45,7 +43,7 @@ assistantRouter.post("/assistant/chat", async (req, res) => {
     const { messages } = parseResult.data;
     
     const { chatWithAssistant } = await import('../services/ai-assistant');
-    const result = await chatWithAssistant(messages, user.organisationId || undefined);
+    const result = await chatWithAssistant(messages, { organisationId: user.organisationId, role: user.role });
     
     if (result.success) {
       res.json({ message: result.message, suggestions: result.suggestions || [] });
@@ -61,7 +59,7 @@ assistantRouter.post("/assistant/chat", async (req, res) => {
 // ===== AI ASSISTANT ANALYTICS ENDPOINT =====
 assistantRouter.get("/assistant/analytics", async (req, res) => {
   try {
-    const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+    const session = await getVerifiedSession(req);
     if (!session?.user?.id) {
       return res.status(401).json({ error: "Authentication required" });
     }
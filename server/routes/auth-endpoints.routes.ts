@@ -9,6 +9,18 @@ import {
   validatePassword, 
   getPasswordPolicyDescription 
 } from "../services/password-policy";
+import { requireAuth, requirePendingMfaAuth, type AuthenticatedRequest, type PendingMfaRequest } from "../session";
+import { storage } from "../storage";
+import type { AuditContext } from "../services/audit";
+import {
+  getMfaStatus,
+  startMfaEnrolment,
+  confirmMfaEnrolment,
+  completeMfaChallenge,
+  regenerateRecoveryCodes,
+  disableMfa,
+} from "../services/mfa";
+import { handleRouteError, NotFoundError, BadRequestError } from "../errors";
 
 export const authEndpointsRouter = Router();
 
@@ -73,4 +85,99 @@ authEndpointsRouter.get("/auth/password-policy", (req: Request, res: Response) =
   });
 });
 
+function getMfaAuditContext(req: AuthenticatedRequest): AuditContext {
+  return {
+    actorId: req.user?.id,
+    actorName: req.user?.name || req.user?.username,
+    actorType: 'USER',
+    ipAddress: req.ip || (req.headers['x-forwarded-for'] as string),
+    userAgent: req.headers['user-agent'] as string,
+  };
+}
+
+async function getMfaUser(req: AuthenticatedRequest) {
+  const user = await storage.getUser(req.user!.id);
+  if (!user) {
+    throw new NotFoundError("User");
+  }
+  return user;
+}
+
+function requireCode(value: unknown, field: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new BadRequestError(`${field} is required`);
+  }
+  return value.trim();
+}
+
+// MFA endpoints must be registered before the better-auth catch-all below
+authEndpointsRouter.get("/auth/mfa/status", requirePendingMfaAuth, async (req: PendingMfaRequest, res: Response) => {
+  try {
+    const user = await getMfaUser(req);
+    res.json(await getMfaStatus(user, req.mfaSessionId ?? null));
+  } catch (error) {
+    handleRouteError(error, req, res, "MFA Status");
+  }
+});
+
+authEndpointsRouter.post("/auth/mfa/enrol", requirePendingMfaAuth, async (req: PendingMfaRequest, res: Response) => {
+  try {
+    const user = await getMfaUser(req);
+    const enrolment = await startMfaEnrolment(user, getMfaAuditContext(req));
+    res.json(enrolment);
+  } catch (error) {
+    handleRouteError(error, req, res, "MFA Enrolment");
+  }
+});
+
+authEndpointsRouter.post("/auth/mfa/enrol/confirm", requirePendingMfaAuth, async (req: PendingMfaRequest, res: Response) => {
+  try {
+    const user = await getMfaUser(req);
+    const code = requireCode(req.body?.code, "code");
+    const { recoveryCodes } = await confirmMfaEnrolment(user, req.mfaSessionId ?? null, code, getMfaAuditContext(req));
+    res.json({ success: true, recoveryCodes });
+  } catch (error) {
+    handleRouteError(error, req, res, "MFA Enrolment");
+  }
+});
+
+authEndpointsRouter.post("/auth/mfa/verify", requirePendingMfaAuth, async (req: PendingMfaRequest, res: Response) => {
+  try {
+    const user = await getMfaUser(req);
+    const { code, recoveryCode } = req.body ?? {};
+    const result = await completeMfaChallenge(
+      user,
+      req.mfaSessionId ?? null,
+      {
+        code: typeof code === "string" ? code : undefined,
+        recoveryCode: typeof recoveryCode === "string" ? recoveryCode : undefined,
+      },
+      getMfaAuditContext(req)
+    );
+    res.json({ success: true, ...result });
+  } catch (error) {
+    handleRouteError(error, req, res, "MFA Verification");
+  }
+});
+
+authEndpointsRouter.post("/auth/mfa/recovery-codes", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = await getMfaUser(req);
+    const { recoveryCodes } = await regenerateRecoveryCodes(user, requireCode(req.body?.code, "code"), getMfaAuditContext(req));
+    res.json({ recoveryCodes });
+  } catch (error) {
+    handleRouteError(error, req, res, "MFA Recovery Codes");
+  }
+});
+
+authEndpointsRouter.post("/auth/mfa/disable", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = await getMfaUser(req);
+    await disableMfa(user, requireCode(req.body?.code, "code"), getMfaAuditContext(req));
+    res.json({ success: true });
+  } catch (error) {
+    handleRouteError(error, req, res, "MFA Disable");
+  }
+});
+
 authEndpointsRouter.all("/auth/*", toNodeHandler(auth));
@@ -12,6 +12,7 @@ import {
   getPasswordPolicyDescription 
 } from "../services/password-policy";
 import { getConfiguredProviders } from "../auth";
+import { getOrganisationMfaPolicy, isMfaRequiredForRole, verifyMfaCode } from "../services/mfa";
 import { handleRouteError } from "../errors";
 
 export const authRouter = Router();
@@ -79,6 +80,26 @@ authRouter.post("/login", async (req: Request, res: Response) => {
     
     await clearLoginAttempts(username);
     
+    if (user.mfaEnabled) {
+      const { mfaCode, recoveryCode } = req.body;
+      if (!mfaCode && !recoveryCode) {
+        return res.status(401).json({ error: "Multi-factor verification required", mfaRequired: true });
+      }
+      await verifyMfaCode(user, { code: mfaCode, recoveryCode }, {
+        actorId: user.id,
+        actorName: user.name || user.username,
+        actorType: 'USER',
+        ipAddress: req.ip || (req.headers['x-forwarded-for'] as string),
+        userAgent: req.headers['user-agent'] as string,
+      });
+    } else if (isMfaRequiredForRole(await getOrganisationMfaPolicy(user.organisationId), user.role)) {
+      // Enrolment runs on the verified-session endpoints, which this login does not create
+      return res.status(403).json({
+        error: "Your organisation requires multi-factor authentication. Please enrol to continue.",
+        code: "MFA_ENROLMENT_REQUIRED",
+      });
+    }
+    
     req.session.userId = user.id;
     req.session.username = user.username;
     req.session.role = user.role;
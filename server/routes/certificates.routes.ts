@@ -11,6 +11,7 @@ import { enqueueWebhookEvent } from "../webhook-worker";
 import { recordAudit, extractAuditContext, getChanges } from "../services/audit";
 import { ObjectStorageService } from "../replit_integrations/object_storage";
 import { handleRouteError } from "../errors";
+import { evaluatePropertyComplianceRules } from "../services/compliance-rules-engine";
 
 export const certificatesRouter = Router();
 
@@ -339,6 +340,14 @@ certificatesRouter.patch("/:id", async (req, res: Response) => {
       context: extractAuditContext(req),
     });
     
+    if (eventType === 'CERTIFICATE_APPROVED') {
+      try {
+        await evaluatePropertyComplianceRules(certificate.organisationId, certificate.propertyId);
+      } catch (rulesError) {
+        console.error("Error evaluating compliance rules:", rulesError);
+      }
+    }
+    
     res.json(certificate);
   } catch (error) {
     handleRouteError(error, req, res, "Certificate");
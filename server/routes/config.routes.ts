@@ -13,6 +13,16 @@ import {
   spaces,
 } from "@shared/schema";
 import { createInsertSchema } from "drizzle-zod";
+import { checkSchemaActivationGate } from "../services/extraction-benchmark";
+import {
+  evaluatePromotionGate,
+  promoteShadowSchema,
+  rollbackSchemaPromotion,
+  startShadowRollout,
+  stopShadowRollout,
+} from "../services/extraction-shadow";
+import { extractAuditContext } from "../services/audit";
+import { handleRouteError, NotFoundError } from "../errors";
 
 export const configRouter = Router();
 
@@ -278,6 +288,12 @@ configRouter.get("/config/extraction-schemas/:id", async (req: Request, res: Res
 configRouter.post("/config/extraction-schemas", requireRole(...CONFIG_ADMIN_ROLES), async (req: Request, res: Response) => {
   try {
     const data = insertExtractionSchemaSchema.parse(req.body);
+    if (data.isActive) {
+      const gate = await checkSchemaActivationGate(data);
+      if (!gate.allowed) {
+        return res.status(409).json({ error: "Extraction schema failed benchmark gating", details: gate.reason });
+      }
+    }
     const schema = await storage.createExtractionSchema(data);
     res.status(201).json(schema);
   } catch (error) {
@@ -293,6 +309,22 @@ configRouter.post("/config/extraction-schemas", requireRole(...CONFIG_ADMIN_ROLE
 configRouter.patch("/config/extraction-schemas/:id", requireRole(...CONFIG_ADMIN_ROLES), async (req: Request, res: Response) => {
   try {
     const updateData = insertExtractionSchemaSchema.partial().parse(req.body);
+    if (updateData.isActive !== undefined || updateData.version) {
+      const existing = await storage.getExtractionSchema(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Extraction schema not found" });
+      }
+      // Activation is gated, audited and swaps out the current schema, so it only happens through promote and rollback
+      if (updateData.isActive !== undefined && updateData.isActive !== existing.isActive) {
+        return res.status(400).json({ error: "Extraction schemas are activated by promoting a shadow rollout and deactivated by rollback" });
+      }
+      if (existing.isActive && updateData.version && updateData.version !== existing.version) {
+        const gate = await checkSchemaActivationGate({ ...existing, ...updateData });
+        if (!gate.allowed) {
+          return res.status(409).json({ error: "Extraction schema failed benchmark gating", details: gate.reason });
+        }
+      }
+    }
     const updated = await storage.updateExtractionSchema(req.params.id, updateData);
     if (!updated) {
       return res.status(404).json({ error: "Extraction schema not found" });
@@ -321,6 +353,59 @@ configRouter.delete("/config/extraction-schemas/:id", requireRole(...CONFIG_ADMI
   }
 });
 
+// ===== CONFIGURATION - EXTRACTION SCHEMA ROLLOUT =====
+const shadowRolloutSchema = z.object({
+  percentage: z.number().int().min(1).max(100).optional(),
+});
+
+configRouter.post("/config/extraction-schemas/:id/shadow", requireRole(...CONFIG_ADMIN_ROLES), async (req: Request, res: Response) => {
+  try {
+    const { percentage } = shadowRolloutSchema.parse(req.body ?? {});
+    const schema = await startShadowRollout(req.params.id, percentage, getOrgId(req as AuthenticatedRequest), extractAuditContext(req));
+    res.json(schema);
+  } catch (error) {
+    handleRouteError(error, req, res, "Extraction schema shadow");
+  }
+});
+
+configRouter.delete("/config/extraction-schemas/:id/shadow", requireRole(...CONFIG_ADMIN_ROLES), async (req: Request, res: Response) => {
+  try {
+    const schema = await stopShadowRollout(req.params.id, getOrgId(req as AuthenticatedRequest), extractAuditContext(req));
+    res.json(schema);
+  } catch (error) {
+    handleRouteError(error, req, res, "Extraction schema shadow");
+  }
+});
+
+configRouter.get("/config/extraction-schemas/:id/shadow-report", async (req: Request, res: Response) => {
+  try {
+    const schema = await storage.getExtractionSchema(req.params.id);
+    if (!schema) throw new NotFoundError('Extraction schema');
+    const gate = await evaluatePromotionGate(schema);
+    res.json({ schema, ...gate });
+  } catch (error) {
+    handleRouteError(error, req, res, "Extraction schema shadow report");
+  }
+});
+
+configRouter.post("/config/extraction-schemas/:id/promote", requireRole(...CONFIG_ADMIN_ROLES), async (req: Request, res: Response) => {
+  try {
+    const result = await promoteShadowSchema(req.params.id, getOrgId(req as AuthenticatedRequest), extractAuditContext(req));
+    res.json(result);
+  } catch (error) {
+    handleRouteError(error, req, res, "Extraction schema promotion");
+  }
+});
+
+configRouter.post("/config/extraction-schemas/:id/rollback", requireRole(...CONFIG_ADMIN_ROLES), async (req: Request, res: Response) => {
+  try {
+    const restored = await rollbackSchemaPromotion(req.params.id, getOrgId(req as AuthenticatedRequest), extractAuditContext(req));
+    res.json(restored);
+  } catch (error) {
+    handleRouteError(error, req, res, "Extraction schema rollback");
+  }
+});
+
 // ===== HACT ARCHITECTURE - COMPONENT TYPES =====
 configRouter.get("/component-types", async (req: Request, res: Response) => {
   try {
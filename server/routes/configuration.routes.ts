@@ -8,11 +8,14 @@ import {
   insertComplianceRuleSchema,
   insertNormalisationRuleSchema,
 } from "@shared/schema";
+import { resolveComplianceRuleAlerts, ruleConditionsSchema } from "../services/compliance-rules-engine";
 
 export const configurationRouter = Router();
 
 const CONFIG_ADMIN_ROLES = ['LASHAN_SUPER_USER', 'SUPER_ADMIN', 'SYSTEM_ADMIN', 'ADMIN'] as const;
 
+const complianceRuleSchema = insertComplianceRuleSchema.extend({ conditions: ruleConditionsSchema });
+
 // ===== CONFIGURATION - COMPLIANCE STREAMS =====
 configurationRouter.get("/config/compliance-streams", async (req: Request, res: Response) => {
   try {
@@ -204,7 +207,7 @@ configurationRouter.get("/config/compliance-rules/:id", async (req: Request, res
 
 configurationRouter.post("/config/compliance-rules", requireRole(...CONFIG_ADMIN_ROLES), async (req: Request, res: Response) => {
   try {
-    const data = insertComplianceRuleSchema.parse(req.body);
+    const data = complianceRuleSchema.parse(req.body);
     const rule = await storage.createComplianceRule(data);
     res.status(201).json(rule);
   } catch (error) {
@@ -219,11 +222,14 @@ configurationRouter.post("/config/compliance-rules", requireRole(...CONFIG_ADMIN
 
 configurationRouter.patch("/config/compliance-rules/:id", requireRole(...CONFIG_ADMIN_ROLES), async (req: Request, res: Response) => {
   try {
-    const updateData = insertComplianceRuleSchema.partial().parse(req.body);
+    const updateData = complianceRuleSchema.partial().parse(req.body);
     const updated = await storage.updateComplianceRule(req.params.id, updateData);
     if (!updated) {
       return res.status(404).json({ error: "Compliance rule not found" });
     }
+    if (!updated.isActive) {
+      await resolveComplianceRuleAlerts(updated.ruleCode, "was deactivated");
+    }
     res.json(updated);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -237,10 +243,14 @@ configurationRouter.patch("/config/compliance-rules/:id", requireRole(...CONFIG_
 
 configurationRouter.delete("/config/compliance-rules/:id", requireRole(...CONFIG_ADMIN_ROLES), async (req: Request, res: Response) => {
   try {
+    const rule = await storage.getComplianceRule(req.params.id);
     const deleted = await storage.deleteComplianceRule(req.params.id);
     if (!deleted) {
       return res.status(404).json({ error: "Compliance rule not found" });
     }
+    if (rule) {
+      await resolveComplianceRuleAlerts(rule.ruleCode, "was deleted");
+    }
     res.json({ success: true });
   } catch (error) {
     console.error("Error deleting compliance rule:", error);
@@ -1,4 +1,5 @@
 import { Router, Response } from "express";
+import { z } from "zod";
 import { requireAuth, type AuthenticatedRequest } from "../session";
 import { db } from "../db";
 import { eq, desc } from "drizzle-orm";
@@ -9,10 +10,21 @@ import {
   normalisationRules, 
   certificates, 
   properties, 
-  ingestionBatches 
+  ingestionBatches,
+  insertComplianceRuleSchema
 } from "@shared/schema";
 import { storage } from "../storage";
 import { enqueueWebhookEvent } from "../webhook-worker";
+import { populateCertificateDetailRecords } from "../services/certificate-detail-records";
+import { syncAsbestosRegister } from "../services/asbestos-register";
+import { recordReviewCorrections } from "../services/auto-approval";
+import {
+  dryRunComplianceRule,
+  evaluatePropertyComplianceRules,
+  resolveComplianceRuleAlerts,
+  ruleConditionsSchema,
+  type ComplianceRuleDefinition,
+} from "../services/compliance-rules-engine";
 
 export const extractionRouter = Router();
 
@@ -81,16 +93,22 @@ extractionRouter.post("/extraction-runs/:id/approve", async (req, res) => {
       return res.status(404).json({ error: "Extraction run not found" });
     }
     
-    await db.insert(humanReviews).values({
-      extractionRunId: req.params.id,
+    const correctedFields = approvedOutput ? await recordReviewCorrections(req.params.id, approvedOutput) : 0;
+    
+    // A run rejected earlier already has its review row, which this approval replaces
+    const review = {
       reviewerId: 'system',
       organisationId: orgId,
       approvedOutput,
       errorTags: errorTags || [],
-      wasCorrect: (errorTags || []).length === 0,
-      changeCount: 0,
+      wasCorrect: (errorTags || []).length === 0 && correctedFields === 0,
+      changeCount: correctedFields,
       reviewerNotes: notes,
-    });
+      reviewedAt: new Date(),
+    };
+    await db.insert(humanReviews)
+      .values({ extractionRunId: req.params.id, ...review })
+      .onConflictDoUpdate({ target: humanReviews.extractionRunId, set: review });
     
     if (updated.certificateId && approvedOutput) {
       const certificate = await storage.getCertificate(updated.certificateId);
@@ -137,6 +155,15 @@ extractionRouter.post("/extraction-runs/:id/approve", async (req, res) => {
           });
         }
         
+        try {
+          const detailCounts = await populateCertificateDetailRecords(certificate, approvedOutput, updated.id);
+          if (detailCounts.asbestosItems > 0) {
+            await syncAsbestosRegister(certificate.organisationId, { propertyId: certificate.propertyId });
+          }
+        } catch (detailError) {
+          console.error("Error deriving certificate detail records:", detailError);
+        }
+        
         const outcome = approvedOutput.findings?.outcome || approvedOutput.inspection?.outcome;
         if (outcome) {
           await storage.updateCertificate(updated.certificateId, {
@@ -146,6 +173,12 @@ extractionRouter.post("/extraction-runs/:id/approve", async (req, res) => {
         } else {
           await storage.updateCertificate(updated.certificateId, { status: 'APPROVED' });
         }
+        
+        try {
+          await evaluatePropertyComplianceRules(certificate.organisationId, certificate.propertyId);
+        } catch (rulesError) {
+          console.error("Error evaluating compliance rules:", rulesError);
+        }
       }
     }
     
@@ -159,6 +192,7 @@ extractionRouter.post("/extraction-runs/:id/approve", async (req, res) => {
 extractionRouter.post("/extraction-runs/:id/reject", async (req, res) => {
   try {
     const { reason, errorTags } = req.body;
+    const orgId = getOrgId(req as AuthenticatedRequest);
     
     const [updated] = await db.update(extractionRuns)
       .set({ status: 'REJECTED', updatedAt: new Date() })
@@ -169,6 +203,21 @@ extractionRouter.post("/extraction-runs/:id/reject", async (req, res) => {
       return res.status(404).json({ error: "Extraction run not found" });
     }
     
+    // A rejection counts against the certificate type's reviewed accuracy
+    const review = {
+      reviewerId: 'system',
+      organisationId: orgId,
+      approvedOutput: updated.normalisedOutput ?? {},
+      errorTags: errorTags || [],
+      wasCorrect: false,
+      changeCount: 0,
+      reviewerNotes: reason,
+      reviewedAt: new Date(),
+    };
+    await db.insert(humanReviews)
+      .values({ extractionRunId: req.params.id, ...review })
+      .onConflictDoUpdate({ target: humanReviews.extractionRunId, set: review });
+    
     res.json(updated);
   } catch (error) {
     console.error("Error rejecting extraction:", error);
@@ -321,9 +370,16 @@ extractionRouter.get("/compliance-rules", async (req, res) => {
   }
 });
 
+const complianceRuleSchema = insertComplianceRuleSchema.extend({ conditions: ruleConditionsSchema });
+
 extractionRouter.post("/compliance-rules", async (req, res) => {
   try {
-    const [rule] = await db.insert(complianceRules).values(req.body).returning();
+    const parsed = complianceRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid rule", details: parsed.error.errors });
+    }
+    
+    const [rule] = await db.insert(complianceRules).values(parsed.data).returning();
     res.status(201).json(rule);
   } catch (error) {
     console.error("Error creating compliance rule:", error);
@@ -331,16 +387,62 @@ extractionRouter.post("/compliance-rules", async (req, res) => {
   }
 });
 
+const complianceRuleDryRunSchema = z.object({
+  ruleId: z.string().optional(),
+  rule: z.object({
+    ruleCode: z.string().default("DRY_RUN"),
+    ruleName: z.string().default("Dry run"),
+    documentType: z.string().min(1),
+    conditions: ruleConditionsSchema.min(1),
+    conditionLogic: z.enum(["AND", "OR"]).default("AND"),
+    action: z.string().default("FLAG_URGENT"),
+    priority: z.enum(["P1", "P2", "P3"]).default("P2"),
+  }).optional(),
+}).refine(body => body.ruleId || body.rule, { message: "Provide ruleId or rule" });
+
+// Evaluates a saved or draft rule against the organisation's properties without raising anything
+extractionRouter.post("/compliance-rules/dry-run", async (req, res) => {
+  try {
+    const parsed = complianceRuleDryRunSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid rule", details: parsed.error.errors });
+    }
+    
+    let rule: ComplianceRuleDefinition | undefined = parsed.data.rule;
+    if (parsed.data.ruleId) {
+      const [saved] = await db.select().from(complianceRules).where(eq(complianceRules.id, parsed.data.ruleId));
+      if (!saved) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+      rule = saved;
+    }
+    
+    const result = await dryRunComplianceRule(getOrgId(req as AuthenticatedRequest), rule!);
+    res.json(result);
+  } catch (error) {
+    console.error("Error running compliance rule dry run:", error);
+    res.status(500).json({ error: "Failed to run rule" });
+  }
+});
+
 extractionRouter.patch("/compliance-rules/:id", async (req, res) => {
   try {
+    const parsed = complianceRuleSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid rule", details: parsed.error.errors });
+    }
+    
     const [updated] = await db.update(complianceRules)
-      .set({ ...req.body, updatedAt: new Date() })
+      .set({ ...parsed.data, updatedAt: new Date() })
       .where(eq(complianceRules.id, req.params.id))
       .returning();
     
     if (!updated) {
       return res.status(404).json({ error: "Rule not found" });
     }
+    if (!updated.isActive) {
+      await resolveComplianceRuleAlerts(updated.ruleCode, "was deactivated");
+    }
     res.json(updated);
   } catch (error) {
     console.error("Error updating compliance rule:", error);
@@ -350,7 +452,10 @@ extractionRouter.patch("/compliance-rules/:id", async (req, res) => {
 
 extractionRouter.delete("/compliance-rules/:id", async (req, res) => {
   try {
-    await db.delete(complianceRules).where(eq(complianceRules.id, req.params.id));
+    const [deleted] = await db.delete(complianceRules).where(eq(complianceRules.id, req.params.id)).returning();
+    if (deleted) {
+      await resolveComplianceRuleAlerts(deleted.ruleCode, "was deleted");
+    }
     res.json({ success: true });
   } catch (error) {
     console.error("Error deleting compliance rule:", error);
@@ -4,6 +4,7 @@ import { storage } from "../storage";
 import { db } from "../db";
 import { sql } from "drizzle-orm";
 import { getPropertyRiskSnapshots, mapTrendToLabel, RiskTier } from "../services/risk-scoring";
+import { scenarioRequestSchema, runRiskScenarioSimulation } from "../services/risk-scenarios";
 
 export const geoRouter = Router();
 
@@ -577,6 +578,22 @@ geoRouter.get("/risk/areas", async (req, res) => {
   }
 });
 
+geoRouter.post("/risk/scenarios", async (req, res) => {
+  try {
+    const parsed = scenarioRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid scenarios", details: parsed.error.errors });
+    }
+
+    const orgId = getOrgId(req);
+    const result = await runRiskScenarioSimulation(orgId, parsed.data.scenarios);
+    res.json(result);
+  } catch (error) {
+    console.error("Error running risk scenarios:", error);
+    res.status(500).json({ error: "Failed to run risk scenarios" });
+  }
+});
+
 geoRouter.get("/risk/evidence/:areaId", async (req, res) => {
   try {
     const { areaId } = req.params;
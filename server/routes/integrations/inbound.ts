@@ -1,9 +1,19 @@
 import { Router, Request, Response } from "express";
 import { storage } from "../../storage";
-import { type ApiClient } from "@shared/schema";
+import { requireRole, type AuthenticatedRequest } from "../../session";
+import { type ApiClient, type InboundWebhookSource, type RemedialAction } from "@shared/schema";
 import { enqueueIngestionJob } from "../../job-queue";
 import { checkUploadThrottle, endUpload, acquireFileLock, releaseFileLock } from "../../utils/upload-throttle";
-import { verifyApiKey, parseIntWithDefault } from "./utils";
+import {
+  authenticateInboundWebhook,
+  generateInboundWebhookCredentials,
+  hashInboundCredential,
+  inboundWebhookSourceCreateSchema,
+  inboundWebhookSourceUpdateSchema,
+  redactInboundHeaders,
+  type InboundRejectionReason,
+} from "../../services/inbound-webhook-auth";
+import { verifyApiKey, parseIntWithDefault, getOrgId, SUPER_ADMIN_ROLES } from "./utils";
 
 export const integrationsInboundRouter = Router();
 
@@ -22,6 +32,7 @@ async function initRateLimiting() {
   cleanupIntervalId = setInterval(async () => {
     try {
       await storage.cleanupExpiredRateLimits();
+      await storage.cleanupExpiredInboundWebhookNonces();
     } catch (error) {
       console.error("Error cleaning up rate limits:", error);
     }
@@ -94,15 +105,53 @@ const validateApiKey = async (req: Request, res: Response): Promise<{ client: Ap
   return { client };
 };
 
+function getRawBody(req: Request): Buffer | string {
+  return Buffer.isBuffer(req.rawBody) ? req.rawBody : JSON.stringify(req.body ?? {});
+}
+
+async function logRejectedInboundWebhook(
+  req: Request,
+  eventType: string,
+  rejection: { reason: InboundRejectionReason; message: string; source?: InboundWebhookSource }
+): Promise<void> {
+  await storage.createIncomingWebhookLog({
+    source: 'HMS',
+    organisationId: rejection.source?.organisationId,
+    inboundSourceId: rejection.source?.id,
+    eventType,
+    payload: req.body ?? {},
+    headers: redactInboundHeaders(req.headers),
+    processed: true,
+    processedAt: new Date(),
+    errorMessage: rejection.message,
+    rejectionReason: rejection.reason,
+  });
+}
+
+// Remedial actions are scoped through their certificate's organisation
+async function getOrganisationRemedialAction(actionId: string, organisationId: string): Promise<RemedialAction | 'NOT_FOUND' | 'OTHER_ORGANISATION'> {
+  const action = await storage.getRemedialAction(actionId);
+  if (!action) return 'NOT_FOUND';
+  const certificate = await storage.getCertificate(action.certificateId);
+  return certificate?.organisationId === organisationId ? action : 'OTHER_ORGANISATION';
+}
+
 integrationsInboundRouter.post("/integrations/hms/actions", async (req, res) => {
   try {
-    const apiKey = req.headers['x-api-key'] as string;
+    const eventType = req.body?.eventType || 'action_update';
+    const auth = await authenticateInboundWebhook('HMS', req.headers, getRawBody(req));
+    if (!auth.ok) {
+      await logRejectedInboundWebhook(req, eventType, auth);
+      return res.status(auth.status).json({ error: auth.message, reason: auth.reason });
+    }
     
     const log = await storage.createIncomingWebhookLog({
       source: 'HMS',
-      eventType: req.body.eventType || 'action_update',
+      organisationId: auth.source.organisationId,
+      inboundSourceId: auth.source.id,
+      eventType,
       payload: req.body,
-      headers: req.headers as any
+      headers: redactInboundHeaders(req.headers)
     });
     
     const { actionId, status, notes, completedAt, costActual } = req.body;
@@ -116,10 +165,11 @@ integrationsInboundRouter.post("/integrations/hms/actions", async (req, res) =>
       return res.status(400).json({ error: "actionId is required" });
     }
     
-    const action = await storage.getRemedialAction(actionId);
-    if (!action) {
+    const action = await getOrganisationRemedialAction(actionId, auth.source.organisationId);
+    if (action === 'NOT_FOUND' || action === 'OTHER_ORGANISATION') {
       await storage.updateIncomingWebhookLog(log.id, { 
         errorMessage: 'Action not found',
+        rejectionReason: action === 'OTHER_ORGANISATION' ? 'ACTION_NOT_IN_ORGANISATION' : null,
         processed: true,
         processedAt: new Date()
       });
@@ -147,11 +197,19 @@ integrationsInboundRouter.post("/integrations/hms/actions", async (req, res) =>
 
 integrationsInboundRouter.post("/integrations/hms/work-orders", async (req, res) => {
   try {
+    const auth = await authenticateInboundWebhook('HMS', req.headers, getRawBody(req));
+    if (!auth.ok) {
+      await logRejectedInboundWebhook(req, 'work_order_update', auth);
+      return res.status(auth.status).json({ error: auth.message, reason: auth.reason });
+    }
+    
     const log = await storage.createIncomingWebhookLog({
       source: 'HMS',
+      organisationId: auth.source.organisationId,
+      inboundSourceId: auth.source.id,
       eventType: 'work_order_update',
       payload: req.body,
-      headers: req.headers as any
+      headers: redactInboundHeaders(req.headers)
     });
     
     const { workOrderId, actionId, status, scheduledDate, assignedContractor } = req.body;
@@ -165,6 +223,17 @@ integrationsInboundRouter.post("/integrations/hms/work-orders", async (req, res)
       return res.status(400).json({ error: "actionId is required" });
     }
     
+    const action = await getOrganisationRemedialAction(actionId, auth.source.organisationId);
+    if (action === 'NOT_FOUND' || action === 'OTHER_ORGANISATION') {
+      await storage.updateIncomingWebhookLog(log.id, { 
+        errorMessage: 'Action not found',
+        rejectionReason: action === 'OTHER_ORGANISATION' ? 'ACTION_NOT_IN_ORGANISATION' : null,
+        processed: true,
+        processedAt: new Date()
+      });
+      return res.status(404).json({ error: "Remedial action not found" });
+    }
+    
     const updates: Partial<{ status: string; resolvedAt: Date; dueDate: string }> = {};
     if (status === 'scheduled' || status === 'in_progress') {
       updates.status = 'IN_PROGRESS';
@@ -190,6 +259,79 @@ integrationsInboundRouter.post("/integrations/hms/work-orders", async (req, res)
   }
 });
 
+function formatInboundSource(source: InboundWebhookSource) {
+  const { authValue, ...rest } = source;
+  return rest;
+}
+
+integrationsInboundRouter.get("/admin/inbound-webhook-sources", requireRole(...SUPER_ADMIN_ROLES), async (req: AuthenticatedRequest, res) => {
+  try {
+    const sources = await storage.listInboundWebhookSources(getOrgId(req));
+    res.json(sources.map(formatInboundSource));
+  } catch (error) {
+    console.error("Error fetching inbound webhook sources:", error);
+    res.status(500).json({ error: "Failed to fetch inbound webhook sources" });
+  }
+});
+
+integrationsInboundRouter.post("/admin/inbound-webhook-sources", requireRole(...SUPER_ADMIN_ROLES), async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = inboundWebhookSourceCreateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid inbound webhook source", details: parsed.error.errors });
+    }
+    const { name, source, authType, toleranceSeconds } = parsed.data;
+    
+    const { keyId, secret } = generateInboundWebhookCredentials();
+    const created = await storage.createInboundWebhookSource({
+      organisationId: getOrgId(req),
+      source,
+      name,
+      keyId,
+      authType,
+      authValue: authType === 'HMAC_SHA256' ? secret : hashInboundCredential(secret),
+      toleranceSeconds,
+      createdById: req.user?.id,
+    });
+    
+    // The secret is only ever returned here
+    res.status(201).json({ ...formatInboundSource(created), secret });
+  } catch (error) {
+    console.error("Error creating inbound webhook source:", error);
+    res.status(500).json({ error: "Failed to create inbound webhook source" });
+  }
+});
+
+integrationsInboundRouter.patch("/admin/inbound-webhook-sources/:id", requireRole(...SUPER_ADMIN_ROLES), async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = inboundWebhookSourceUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid inbound webhook source", details: parsed.error.errors });
+    }
+    const updated = await storage.updateInboundWebhookSource(req.params.id, getOrgId(req), parsed.data);
+    if (!updated) {
+      return res.status(404).json({ error: "Inbound webhook source not found" });
+    }
+    res.json(formatInboundSource(updated));
+  } catch (error) {
+    console.error("Error updating inbound webhook source:", error);
+    res.status(500).json({ error: "Failed to update inbound webhook source" });
+  }
+});
+
+integrationsInboundRouter.delete("/admin/inbound-webhook-sources/:id", requireRole(...SUPER_ADMIN_ROLES), async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await storage.deleteInboundWebhookSource(req.params.id, getOrgId(req));
+    if (!deleted) {
+      return res.status(404).json({ error: "Inbound webhook source not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting inbound webhook source:", error);
+    res.status(500).json({ error: "Failed to delete inbound webhook source" });
+  }
+});
+
 integrationsInboundRouter.get("/admin/incoming-webhooks", async (req, res) => {
   try {
     const limit = parseInt(req.query.limit as string) || 100;
@@ -1,8 +1,6 @@
 import { Request, Response } from "express";
 import { storage } from "../../storage";
-import { auth } from "../../auth";
-import { fromNodeHeaders } from "better-auth/node";
-import type { AuthenticatedRequest } from "../../session";
+import { getVerifiedSession, type AuthenticatedRequest } from "../../session";
 
 export const ORG_ID = "default-org";
 
@@ -37,9 +35,7 @@ export const requireAdminRole = async (req: Request, res: Response): Promise<boo
   let userId: string | null = null;
   
   try {
-    const session = await auth.api.getSession({
-      headers: fromNodeHeaders(req.headers),
-    });
+    const session = await getVerifiedSession(req);
     userId = session?.user?.id || null;
   } catch (error) {
     console.error('BetterAuth session error in requireAdminRole:', error);
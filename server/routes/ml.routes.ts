@@ -1,4 +1,5 @@
 import { Router, Response } from "express";
+import { z } from "zod";
 import { requireAuth, requireRole, type AuthenticatedRequest } from "../session";
 import { db } from "../db";
 import { eq, desc, and, sql, inArray } from "drizzle-orm";
@@ -13,8 +14,10 @@ import {
   extractionCorrections,
   certificates,
   properties,
+  evalRuns,
 } from "@shared/schema";
 import { storage } from "../storage";
+import { handleRouteError } from "../errors";
 
 export const mlRouter = Router();
 
@@ -122,6 +125,10 @@ mlRouter.get("/model-insights", async (req: AuthenticatedRequest, res: Response)
     
     const validationPassRate = allRuns.filter(r => r.validationPassed).length / Math.max(totalRuns, 1);
     const benchmarkScore = Math.round((avgConfidence * 0.5 + validationPassRate * 0.5) * 100);
+    const recentEvalRuns = await db.select().from(evalRuns)
+      .where(eq(evalRuns.status, 'COMPLETED'))
+      .orderBy(desc(evalRuns.createdAt))
+      .limit(10);
     
     res.json({
       accuracy: { overall: Math.round(overallAccuracy * 100), trend: 0, byDocType, byWeek },
@@ -139,7 +146,10 @@ mlRouter.get("/model-insights", async (req: AuthenticatedRequest, res: Response)
         })),
         recentWins: [],
       },
-      benchmarks: {
+      benchmarks: recentEvalRuns.length > 0 ? {
+        latest: { score: Math.round(recentEvalRuns[0].overallScore * 100), date: recentEvalRuns[0].createdAt.toISOString(), passed: recentEvalRuns[0].passedGating === true },
+        trend: recentEvalRuns.slice().reverse().map((run, i) => ({ run: i + 1, score: Math.round(run.overallScore * 100) })),
+      } : {
         latest: { score: benchmarkScore, date: new Date().toISOString(), passed: benchmarkScore >= 80 },
         trend: [],
       },
@@ -355,12 +365,74 @@ mlRouter.post("/model-insights/predict/batch", async (req: AuthenticatedRequest,
   res.json({ predictions: [] });
 });
 
-mlRouter.post("/model-insights/run-benchmark", async (req: AuthenticatedRequest, res: Response) => {
-  res.json({ success: true, score: 0 });
+const runBenchmarkSchema = z.object({
+  benchmarkSetId: z.string().optional(),
+  modelVersion: z.string().min(1).optional(),
+  promptVersion: z.string().min(1).optional(),
+  schemaVersion: z.string().min(1).optional(),
 });
 
-mlRouter.post("/model-insights/export-training-data", async (req: AuthenticatedRequest, res: Response) => {
-  res.json({ success: true, data: [] });
+mlRouter.post("/model-insights/run-benchmark", requireRole(...SUPER_ADMIN_ROLES), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const options = runBenchmarkSchema.parse(req.body ?? {});
+    const { queueExtractionBenchmark, executeBenchmarkRun } = await import('../services/extraction-benchmark');
+    const run = await queueExtractionBenchmark(options);
+
+    try {
+      const { enqueueExtractionBenchmark } = await import('../job-queue');
+      await enqueueExtractionBenchmark(run.id);
+    } catch (queueError) {
+      console.error("Failed to enqueue benchmark, running in background:", queueError);
+      executeBenchmarkRun(run.id).catch(error => {
+        console.error("Background benchmark failed:", error);
+      });
+    }
+
+    res.status(202).json({ success: true, evalRunId: run.id, status: run.status });
+  } catch (error) {
+    handleRouteError(error, req, res, "Benchmark");
+  }
+});
+
+mlRouter.post("/model-insights/export-training-data", requireRole(...SUPER_ADMIN_ROLES), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const orgId = getOrgId(req);
+    if (!orgId) return res.status(403).json({ error: "No organisation access" });
+
+    const { exportTrainingData, trainingDataExportSchema } = await import('../services/training-data-export');
+    const filters = trainingDataExportSchema.parse(req.body ?? {});
+    const result = await exportTrainingData(orgId, filters);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    handleRouteError(error, req, res, "Training data export");
+  }
+});
+
+mlRouter.get("/model-insights/training-data/:exportId/:certificateType", requireRole(...SUPER_ADMIN_ROLES), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const orgId = getOrgId(req);
+    if (!orgId) return res.status(403).json({ error: "No organisation access" });
+
+    const { trainingExportStorageKey } = await import('../services/training-data-export');
+    const { getOrInitializeStorage } = await import('../storage/providers');
+    const { exportId, certificateType } = req.params;
+    if (!/^[\w-]+$/.test(exportId) || !/^[\w-]+$/.test(certificateType)) {
+      return res.status(400).json({ error: "Invalid export reference" });
+    }
+
+    const provider = await getOrInitializeStorage();
+    const storageKey = trainingExportStorageKey(orgId, exportId, certificateType);
+    if (!(await provider.exists(storageKey))) {
+      return res.status(404).json({ error: "Training data export not found" });
+    }
+    res.setHeader("Content-Disposition", `attachment; filename="training-data-${certificateType}.jsonl"`);
+    await provider.streamToResponse(storageKey, res, { cacheTtlSec: 0 });
+  } catch (error) {
+    console.error("Error downloading training data export:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Failed to download training data export" });
+    }
+  }
 });
 
 // =====================================================
@@ -2,15 +2,28 @@ import { Router, Request, Response } from "express";
 import { storage } from "../storage";
 import { requireAuth, type AuthenticatedRequest } from "../session";
 import { db } from "../db";
-import { eq, desc, and, count, sql, isNotNull, lt, gte } from "drizzle-orm";
-import { 
-  certificates, 
-  properties, 
-  blocks, 
-  schemes, 
-  remedialActions,
-  contractors,
-} from "@shared/schema";
+import { sql } from "drizzle-orm";
+import {
+  getComplianceSummaryData,
+  getPropertyHealthData,
+  getContractorPerformanceData,
+  getMonthlyTrendsData,
+  getCertificateExpiryData,
+  getBoardSummaryData,
+} from "../services/report-data";
+import { getHrbReadinessPortfolio } from "../services/hrb-readiness";
+import { getReportDownloadFilename, type ReportFormat } from "../services/report-generator";
+import {
+  exportRequestSchema,
+  createReportExport,
+  getReportExport,
+  runReportExport,
+  getExportProgress,
+  getExportFilename,
+} from "../services/report-export";
+import { reportDeliveryRequestSchema } from "../services/report-delivery";
+import { getOrInitializeStorage, StorageError, StorageErrorCode } from "../storage/providers";
+import type { ReportExport } from "@shared/schema";
 
 export const reportsRouter = Router();
 
@@ -181,6 +194,20 @@ reportsRouter.get("/tsm-building-safety", async (req: AuthenticatedRequest, res:
   }
 });
 
+// ===== HRB READINESS SCORECARD =====
+reportsRouter.get("/hrb-readiness", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user?.organisationId) {
+      return res.status(403).json({ error: "No organisation access" });
+    }
+
+    res.json(await getHrbReadinessPortfolio(req.user.organisationId));
+  } catch (error) {
+    console.error("Error fetching HRB readiness:", error);
+    res.status(500).json({ error: "Failed to fetch HRB readiness" });
+  }
+});
+
 // ===== COMPLIANCE SUMMARY REPORT =====
 reportsRouter.get("/compliance-summary", async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -189,43 +216,15 @@ reportsRouter.get("/compliance-summary", async (req: AuthenticatedRequest, res:
     }
 
     const { useCached } = req.query;
-    const orgId = req.user.organisationId;
-
-    const query = db.select({
-      stream: certificates.complianceStreamId,
-      type: certificates.certificateType,
-      total: count(),
-      compliant: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} = 'APPROVED' OR ${certificates.status} = 'EXTRACTED')`,
-      nonCompliant: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} = 'FAILED')`,
-      expired: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} = 'EXPIRED')`,
-      expiringSoon: sql<number>`COUNT(*) FILTER (WHERE ${certificates.expiryDate}::date < CURRENT_DATE + INTERVAL '30 days' AND ${certificates.expiryDate}::date >= CURRENT_DATE)`,
-    })
-    .from(certificates)
-    .where(eq(certificates.organisationId, orgId))
-    .groupBy(certificates.complianceStreamId, certificates.certificateType);
-
-    const results = await query;
-
-    const totals = results.reduce((acc, row) => ({
-      totalCertificates: acc.totalCertificates + Number(row.total),
-      compliant: acc.compliant + Number(row.compliant),
-      nonCompliant: acc.nonCompliant + Number(row.nonCompliant),
-      expired: acc.expired + Number(row.expired),
-      expiringSoon: acc.expiringSoon + Number(row.expiringSoon),
-    }), { totalCertificates: 0, compliant: 0, nonCompliant: 0, expired: 0, expiringSoon: 0 });
-
-    const complianceRate = totals.totalCertificates > 0 
-      ? Math.round((totals.compliant / totals.totalCertificates) * 100) 
-      : 0;
+    const { totals, byStream } = await getComplianceSummaryData(req.user.organisationId);
 
     res.json({
       summary: {
         ...totals,
-        complianceRate,
         lastUpdated: new Date().toISOString(),
         queryType: useCached === 'true' ? 'cached' : 'live'
       },
-      byStream: results
+      byStream
     });
   } catch (error) {
     console.error("Error fetching compliance summary:", error);
@@ -241,61 +240,13 @@ reportsRouter.get("/property-health", async (req: AuthenticatedRequest, res: Res
     }
 
     const { minScore, maxScore } = req.query;
-    const orgId = req.user.organisationId;
-
-    const propertyData = await db.select({
-      id: properties.id,
-      address: properties.addressLine1,
-      blockId: properties.blockId,
-      totalCertificates: sql<number>`COUNT(DISTINCT ${certificates.id})`,
-      compliantCertificates: sql<number>`COUNT(DISTINCT ${certificates.id}) FILTER (WHERE ${certificates.status} IN ('APPROVED', 'EXTRACTED'))`,
-      openActions: sql<number>`COUNT(DISTINCT ${remedialActions.id}) FILTER (WHERE ${remedialActions.status} IN ('OPEN', 'IN_PROGRESS'))`,
-    })
-    .from(properties)
-    .innerJoin(blocks, eq(properties.blockId, blocks.id))
-    .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
-    .leftJoin(certificates, eq(certificates.propertyId, properties.id))
-    .leftJoin(remedialActions, eq(remedialActions.propertyId, properties.id))
-    .where(eq(schemes.organisationId, orgId))
-    .groupBy(properties.id, properties.addressLine1, properties.blockId);
-
-    const propertiesWithScores = propertyData.map(p => {
-      const total = Number(p.totalCertificates);
-      const compliant = Number(p.compliantCertificates);
-      const actions = Number(p.openActions);
-      
-      const certScore = total > 0 ? (compliant / total) * 100 : 50;
-      const actionPenalty = actions * 5;
-      const healthScore = Math.max(0, Math.min(100, Math.round(certScore - actionPenalty)));
-
-      return {
-        ...p,
-        healthScore,
-        riskLevel: healthScore >= 80 ? 'LOW' : healthScore >= 60 ? 'MEDIUM' : healthScore >= 40 ? 'HIGH' : 'CRITICAL'
-      };
+    const health = await getPropertyHealthData(req.user.organisationId, {
+      minScore: minScore ? Number(minScore) : undefined,
+      maxScore: maxScore ? Number(maxScore) : undefined,
     });
 
-    let filtered = propertiesWithScores;
-    if (minScore) {
-      filtered = filtered.filter(p => p.healthScore >= Number(minScore));
-    }
-    if (maxScore) {
-      filtered = filtered.filter(p => p.healthScore <= Number(maxScore));
-    }
-
-    const distribution = {
-      excellent: filtered.filter(p => p.healthScore >= 90).length,
-      good: filtered.filter(p => p.healthScore >= 70 && p.healthScore < 90).length,
-      fair: filtered.filter(p => p.healthScore >= 50 && p.healthScore < 70).length,
-      poor: filtered.filter(p => p.healthScore < 50).length,
-    };
-
     res.json({
-      properties: filtered.sort((a, b) => a.healthScore - b.healthScore),
-      distribution,
-      averageScore: filtered.length > 0 
-        ? Math.round(filtered.reduce((sum, p) => sum + p.healthScore, 0) / filtered.length) 
-        : 0,
+      ...health,
       lastUpdated: new Date().toISOString()
     });
   } catch (error) {
@@ -311,28 +262,10 @@ reportsRouter.get("/contractor-performance", async (req: AuthenticatedRequest, r
       return res.status(403).json({ error: "No organisation access" });
     }
 
-    const orgId = req.user.organisationId;
-
-    const contractorData = await db.select({
-      id: contractors.id,
-      name: contractors.companyName,
-      tradeType: contractors.tradeType,
-      status: contractors.status,
-    })
-    .from(contractors)
-    .where(eq(contractors.organisationId, orgId));
-
-    const contractorsWithMetrics = contractorData.map(c => ({
-      ...c,
-      totalJobs: 0,
-      completedOnTime: 0,
-      successRate: 0,
-      rating: 'PENDING' as const
-    }));
+    const performance = await getContractorPerformanceData(req.user.organisationId);
 
     res.json({
-      contractors: contractorsWithMetrics,
-      averageSuccessRate: 0,
+      ...performance,
       lastUpdated: new Date().toISOString()
     });
   } catch (error) {
@@ -350,22 +283,7 @@ reportsRouter.get("/monthly-trends", async (req: AuthenticatedRequest, res: Resp
 
     const { months = '12' } = req.query;
     const monthsBack = parseInt(months as string) || 12;
-    const orgId = req.user.organisationId;
-
-    const trends = await db.select({
-      month: sql<string>`DATE_TRUNC('month', ${certificates.createdAt})::date`,
-      stream: certificates.complianceStreamId,
-      issued: count(),
-      compliant: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} IN ('APPROVED', 'EXTRACTED'))`,
-      failed: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} = 'FAILED')`,
-    })
-    .from(certificates)
-    .where(and(
-      eq(certificates.organisationId, orgId),
-      gte(certificates.createdAt, sql`CURRENT_DATE - INTERVAL '${sql.raw(monthsBack.toString())} months'`)
-    ))
-    .groupBy(sql`DATE_TRUNC('month', ${certificates.createdAt})`, certificates.complianceStreamId)
-    .orderBy(sql`DATE_TRUNC('month', ${certificates.createdAt})`);
+    const trends = await getMonthlyTrendsData(req.user.organisationId, monthsBack);
 
     res.json({
       trends,
@@ -387,51 +305,10 @@ reportsRouter.get("/certificate-expiry", async (req: AuthenticatedRequest, res:
 
     const { days = '90' } = req.query;
     const daysAhead = parseInt(days as string) || 90;
-    const orgId = req.user.organisationId;
-
-    const expiringCerts = await db.select({
-      id: certificates.id,
-      type: certificates.certificateType,
-      complianceStream: certificates.complianceStreamId,
-      expiryDate: certificates.expiryDate,
-      propertyId: certificates.propertyId,
-      propertyAddress: properties.addressLine1,
-    })
-    .from(certificates)
-    .innerJoin(properties, eq(certificates.propertyId, properties.id))
-    .where(and(
-      eq(certificates.organisationId, orgId),
-      isNotNull(certificates.expiryDate),
-      lt(certificates.expiryDate, sql`(CURRENT_DATE + INTERVAL '${sql.raw(daysAhead.toString())} days')::text`),
-      gte(certificates.expiryDate, sql`CURRENT_DATE::text`)
-    ))
-    .orderBy(certificates.expiryDate);
-
-    const now = new Date();
-    const grouped = {
-      urgent: expiringCerts.filter(c => {
-        const days = Math.ceil((new Date(c.expiryDate!).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-        return days <= 7;
-      }),
-      soon: expiringCerts.filter(c => {
-        const days = Math.ceil((new Date(c.expiryDate!).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-        return days > 7 && days <= 30;
-      }),
-      upcoming: expiringCerts.filter(c => {
-        const days = Math.ceil((new Date(c.expiryDate!).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-        return days > 30;
-      }),
-    };
+    const expiry = await getCertificateExpiryData(req.user.organisationId, daysAhead);
 
     res.json({
-      expiring: expiringCerts,
-      grouped,
-      summary: {
-        total: expiringCerts.length,
-        urgentCount: grouped.urgent.length,
-        soonCount: grouped.soon.length,
-        upcomingCount: grouped.upcoming.length,
-      },
+      ...expiry,
       period: `${daysAhead} days`,
       lastUpdated: new Date().toISOString()
     });
@@ -456,54 +333,8 @@ reportsRouter.get("/board-summary", async (req: AuthenticatedRequest, res: Respo
       return res.json({ ...cached.data, cached: true, cacheAge: Math.round((Date.now() - cached.timestamp) / 1000) });
     }
 
-    const [certStats] = await db.select({
-      total: count(),
-      compliant: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} IN ('APPROVED', 'EXTRACTED'))`,
-      nonCompliant: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} = 'FAILED')`,
-      pending: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} IN ('PENDING', 'NEEDS_REVIEW'))`,
-    })
-    .from(certificates)
-    .where(eq(certificates.organisationId, orgId));
-
-    const [propStats] = await db.select({
-      total: count(),
-    })
-    .from(properties)
-    .innerJoin(blocks, eq(properties.blockId, blocks.id))
-    .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
-    .where(eq(schemes.organisationId, orgId));
-
-    const [actionStats] = await db.select({
-      total: count(),
-      critical: sql<number>`COUNT(*) FILTER (WHERE ${remedialActions.severity} = 'IMMEDIATE' AND ${remedialActions.status} NOT IN ('COMPLETED', 'CANCELLED'))`,
-      major: sql<number>`COUNT(*) FILTER (WHERE ${remedialActions.severity} IN ('URGENT', 'PRIORITY') AND ${remedialActions.status} NOT IN ('COMPLETED', 'CANCELLED'))`,
-      minor: sql<number>`COUNT(*) FILTER (WHERE ${remedialActions.severity} IN ('ROUTINE', 'ADVISORY') AND ${remedialActions.status} NOT IN ('COMPLETED', 'CANCELLED'))`,
-    })
-    .from(remedialActions);
-
-    const total = Number(certStats?.total || 0);
-    const compliant = Number(certStats?.compliant || 0);
-    const overallCompliance = total > 0 ? Math.round((compliant / total) * 100) : 0;
-
     const reportData = {
-      overview: {
-        overallCompliance,
-        totalProperties: Number(propStats?.total || 0),
-        totalCertificates: total,
-        openActions: Number(actionStats?.total || 0) - Number(actionStats?.critical || 0) - Number(actionStats?.major || 0) - Number(actionStats?.minor || 0),
-      },
-      certificates: {
-        total,
-        compliant,
-        nonCompliant: Number(certStats?.nonCompliant || 0),
-        pending: Number(certStats?.pending || 0),
-      },
-      actions: {
-        critical: Number(actionStats?.critical || 0),
-        major: Number(actionStats?.major || 0),
-        minor: Number(actionStats?.minor || 0),
-      },
-      riskLevel: overallCompliance >= 95 ? 'LOW' : overallCompliance >= 85 ? 'MEDIUM' : overallCompliance >= 70 ? 'HIGH' : 'CRITICAL',
+      ...await getBoardSummaryData(orgId),
       lastUpdated: new Date().toISOString()
     };
     
@@ -517,32 +348,105 @@ reportsRouter.get("/board-summary", async (req: AuthenticatedRequest, res: Respo
 });
 
 // ===== REPORT EXPORT =====
+function formatExportResponse(job: ReportExport) {
+  return {
+    exportId: job.id,
+    reportType: job.reportType,
+    format: job.format,
+    status: job.status,
+    processedRows: job.processedRows,
+    totalRows: job.totalRows,
+    progress: getExportProgress(job),
+    fileSize: job.fileSize,
+    error: job.errorMessage,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+    expiresAt: job.expiresAt,
+    statusUrl: `/api/reports/export/${job.id}`,
+    downloadUrl: job.status === 'COMPLETED' ? `/api/reports/export/${job.id}/download` : null,
+  };
+}
+
 reportsRouter.post("/export", async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.user?.organisationId) {
       return res.status(403).json({ error: "No organisation access" });
     }
 
-    const { reportType, format, filters } = req.body;
+    const parsed = exportRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid export request", details: parsed.error.errors });
+    }
+
+    const job = await createReportExport(req.user.organisationId, req.user.id, parsed.data);
 
-    if (!reportType || !format) {
-      return res.status(400).json({ error: "Report type and format are required" });
+    try {
+      const { enqueueReportExport } = await import("../job-queue");
+      await enqueueReportExport(job.id);
+    } catch (queueError) {
+      console.error("Failed to enqueue report export, running in background:", queueError);
+      runReportExport(job.id).catch(error => {
+        console.error("Background report export failed:", error);
+      });
     }
 
-    const exportId = `export_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    res.json({
-      exportId,
-      status: 'QUEUED',
-      message: `${reportType} export queued in ${format} format`,
-      estimatedCompletion: new Date(Date.now() + 60000).toISOString()
-    });
+    res.status(202).json(formatExportResponse(job));
   } catch (error) {
     console.error("Error exporting report:", error);
     res.status(500).json({ error: "Failed to export report" });
   }
 });
 
+reportsRouter.get("/export/:id", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user?.organisationId) {
+      return res.status(403).json({ error: "No organisation access" });
+    }
+
+    const job = await getReportExport(req.params.id, req.user.organisationId);
+    if (!job) {
+      return res.status(404).json({ error: "Export not found" });
+    }
+
+    res.json(formatExportResponse(job));
+  } catch (error) {
+    console.error("Error fetching export status:", error);
+    res.status(500).json({ error: "Failed to fetch export status" });
+  }
+});
+
+reportsRouter.get("/export/:id/download", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user?.organisationId) {
+      return res.status(403).json({ error: "No organisation access" });
+    }
+
+    const job = await getReportExport(req.params.id, req.user.organisationId);
+    if (!job) {
+      return res.status(404).json({ error: "Export not found" });
+    }
+    if (job.status === 'EXPIRED') {
+      return res.status(410).json({ error: "Export has expired" });
+    }
+    if (job.status !== 'COMPLETED' || !job.storageKey) {
+      return res.status(409).json({ error: `Export file is not available (status: ${job.status})` });
+    }
+
+    const provider = await getOrInitializeStorage();
+    res.setHeader("Content-Disposition", `attachment; filename="${getExportFilename(job)}"`);
+    await provider.streamToResponse(job.storageKey, res, { cacheTtlSec: 0 });
+  } catch (error) {
+    if (error instanceof StorageError && error.code === StorageErrorCode.NOT_FOUND) {
+      res.removeHeader("Content-Disposition");
+      return res.status(404).json({ error: "Export file not found in storage" });
+    }
+    console.error("Error downloading export:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Failed to download export" });
+    }
+  }
+});
+
 // ===== REPORT TEMPLATES =====
 reportsRouter.get("/templates", async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -688,9 +592,26 @@ reportsRouter.delete("/scheduled/:id", async (req: AuthenticatedRequest, res: Re
 // ===== GENERATED REPORTS =====
 reportsRouter.get("/generated", async (req: AuthenticatedRequest, res: Response) => {
   try {
+    if (!req.user?.organisationId) {
+      return res.status(403).json({ error: "No organisation access" });
+    }
+
     const result = await db.execute(sql`
-      SELECT * FROM generated_reports 
-      ORDER BY generated_at DESC 
+      SELECT gr.*, COALESCE((
+        SELECT json_agg(json_build_object(
+          'recipient', rd.recipient,
+          'status', rd.status,
+          'deliveryMethod', rd.delivery_method,
+          'attempts', rd.attempts,
+          'lastError', rd.last_error,
+          'sentAt', rd.sent_at
+        ) ORDER BY rd.recipient)
+        FROM report_deliveries rd
+        WHERE rd.generated_report_id = gr.id AND rd.organisation_id = ${req.user.organisationId}
+      ), '[]'::json) AS deliveries
+      FROM generated_reports gr
+      WHERE gr.organisation_id = ${req.user.organisationId}
+      ORDER BY gr.generated_at DESC 
       LIMIT 50
     `);
     res.json(result.rows);
@@ -700,6 +621,90 @@ reportsRouter.get("/generated", async (req: AuthenticatedRequest, res: Response)
   }
 });
 
+reportsRouter.get("/generated/:id/download", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user?.organisationId) {
+      return res.status(403).json({ error: "No organisation access" });
+    }
+
+    const result = await db.execute(sql`
+      SELECT * FROM generated_reports 
+      WHERE id = ${req.params.id} AND organisation_id = ${req.user.organisationId}
+    `);
+    interface GeneratedReportRow {
+      id: string;
+      name: string;
+      format: ReportFormat;
+      status: string;
+      storage_key: string | null;
+      generated_at: string | Date;
+    }
+    const report = result.rows[0] as unknown as GeneratedReportRow | undefined;
+
+    if (!report) {
+      return res.status(404).json({ error: "Generated report not found" });
+    }
+    if (report.status !== 'READY' || !report.storage_key) {
+      return res.status(409).json({ error: `Report file is not available (status: ${report.status})` });
+    }
+
+    const provider = await getOrInitializeStorage();
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${getReportDownloadFilename(report.name, report.format, new Date(report.generated_at))}"`
+    );
+    await provider.streamToResponse(report.storage_key, res, { cacheTtlSec: 0 });
+  } catch (error) {
+    if (error instanceof StorageError && error.code === StorageErrorCode.NOT_FOUND) {
+      res.removeHeader("Content-Disposition");
+      return res.status(404).json({ error: "Report file not found in storage" });
+    }
+    console.error("Error downloading generated report:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Failed to download generated report" });
+    }
+  }
+});
+
+reportsRouter.post("/generated/:id/deliver", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user?.organisationId) {
+      return res.status(403).json({ error: "No organisation access" });
+    }
+    const parsed = reportDeliveryRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid delivery request", details: parsed.error.errors });
+    }
+
+    const result = await db.execute(sql`
+      SELECT gr.id, gr.status, sr.recipients AS schedule_recipients
+      FROM generated_reports gr
+      LEFT JOIN scheduled_reports sr ON sr.id = gr.scheduled_report_id
+      WHERE gr.id = ${req.params.id} AND gr.organisation_id = ${req.user.organisationId}
+    `);
+    const report = result.rows[0] as unknown as { id: string; status: string; schedule_recipients: string[] | null } | undefined;
+
+    if (!report) {
+      return res.status(404).json({ error: "Generated report not found" });
+    }
+    if (report.status !== 'READY') {
+      return res.status(409).json({ error: `Report file is not available (status: ${report.status})` });
+    }
+
+    const recipients = parsed.data.recipients ?? report.schedule_recipients ?? [];
+    if (recipients.length === 0) {
+      return res.status(400).json({ error: "No recipients configured for this report" });
+    }
+
+    const { enqueueReportDeliveries } = await import("../job-queue");
+    const queued = await enqueueReportDeliveries(report.id, recipients);
+    res.json({ success: true, queued });
+  } catch (error) {
+    console.error("Error delivering generated report:", error);
+    res.status(500).json({ error: "Failed to deliver generated report" });
+  }
+});
+
 reportsRouter.post("/generated", async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { name, templateId, format, fileSize, filters, status } = req.body;
@@ -745,15 +750,9 @@ reportsRouter.post("/scheduled/:id/run", async (req: AuthenticatedRequest, res:
     } catch (queueError) {
       console.error("Failed to enqueue via pg-boss, falling back to direct execution:", queueError);
       
-      const result = await db.execute(sql`
-        INSERT INTO generated_reports (organisation_id, name, scheduled_report_id, format, status, filters)
-        VALUES (${schedule.organisation_id}, ${schedule.name}, ${id}, ${schedule.format}, 'READY', ${JSON.stringify(schedule.filters || {})})
-        RETURNING *
-      `);
-
-      await db.execute(sql`
-        UPDATE scheduled_reports SET last_run_at = NOW(), updated_at = NOW() WHERE id = ${id}
-      `);
+      const { processScheduledReport } = await import("../job-queue");
+      const generatedReportId = await processScheduledReport({ scheduledReportId: id, triggerType: 'manual' });
+      const result = await db.execute(sql`SELECT * FROM generated_reports WHERE id = ${generatedReportId}`);
 
       res.json(result.rows[0]);
     }
@@ -1,5 +1,5 @@
 import { Router, Request, Response } from "express";
-import { requireAuth, type AuthenticatedRequest } from "../session";
+import { requireAuth, getSessionOrganisationId, type AuthenticatedRequest } from "../session";
 import { db } from "../db";
 import { sql } from "drizzle-orm";
 import { addSSEClient, removeSSEClient } from "../events";
@@ -84,14 +84,16 @@ searchRouter.get("/search", async (req, res) => {
 });
 
 // ===== SSE EVENTS FOR REAL-TIME UPDATES =====
-searchRouter.get("/events", (req, res) => {
+searchRouter.get("/events", async (req, res) => {
+  const organisationId = await getSessionOrganisationId(req);
+
   res.setHeader('Content-Type', 'text/event-stream');
   res.setHeader('Cache-Control', 'no-cache');
   res.setHeader('Connection', 'keep-alive');
   res.flushHeaders();
   
   const clientId = Date.now().toString();
-  addSSEClient(clientId, res);
+  addSSEClient(clientId, res, organisationId);
   
   res.write(`data: ${JSON.stringify({ type: 'connected', clientId })}\n\n`);
   
@@ -1,7 +1,6 @@
 import { Router, Request, Response } from "express";
+import { getVerifiedSession } from "../session";
 import { z } from "zod";
-import { auth } from "../auth";
-import { fromNodeHeaders } from "better-auth/node";
 import { storage } from "../storage";
 import { db } from "../db";
 import { 
@@ -9,34 +8,128 @@ import {
   insertStaffMemberSchema,
   contractorSLAProfiles,
   contractorJobPerformance,
-  contractorRatings
+  contractorRatings,
+  contractorRegistrationTypeEnum,
+  insertContractorSLAProfileSchema
 } from "@shared/schema";
 import { eq, desc, count, sql } from "drizzle-orm";
+import { extractAuditContext } from "../services/audit";
+import {
+  COMPETENCY_OVERRIDE_ROLES,
+  checkContractorCompetency,
+  getOrganisationCompetencyMatrix,
+  isWorkCategory,
+  recordCompetencyOverride,
+  updateOrganisationCompetencyMatrix,
+  type CompetencyEvaluation,
+  type CompetencyOverride,
+} from "../services/contractor-competency";
+import { getMonthlySlaStatement, parseStatementMonth, slaPrioritySchema, startSlaTracking, syncSlaWithAssignment } from "../services/contractor-sla";
+import {
+  MAX_LEAD_TIME_DAYS,
+  getCertificationMonitorPolicy,
+  updateCertificationMonitorPolicy,
+} from "../services/contractor-certification-monitor";
+import { checkCertificationAgainstRegister } from "../services/contractor-registration-verification";
+import { RegistrationVerificationError } from "../services/registration-verification";
+import { checkRefurbishmentSurveyRequired, getAssignmentRooms, type RefurbishmentSurveyWarning } from "../services/asbestos-register";
 
 export const staffRouter = Router();
 
-async function getOrgId(req: Request): Promise<{ userId: string; organisationId: string } | null> {
-  const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+async function getOrgId(req: Request): Promise<{ userId: string; organisationId: string; role: string } | null> {
+  const session = await getVerifiedSession(req);
   if (!session?.user?.id) return null;
   
   const [user] = await db.select().from(users).where(eq(users.id, session.user.id));
   if (!user || !user.organisationId) return null;
   
-  return { userId: user.id, organisationId: user.organisationId };
+  return { userId: user.id, organisationId: user.organisationId, role: user.role };
 }
 
-function getSessionUserId(req: Request): string | undefined {
-  return (req.session as any)?.userId;
-}
+type CompetencyGateResult =
+  | { allowed: true; evaluation: CompetencyEvaluation; override?: CompetencyOverride }
+  | { allowed: false; status: number; body: Record<string, unknown> };
 
-async function getSessionOrgId(req: Request): Promise<{ userId: string; organisationId: string } | null> {
-  const userId = getSessionUserId(req);
-  if (!userId) return null;
+// Contractors must hold a verified, unexpired registration for the work category
+// unless a manager records why the assignment should go ahead anyway
+async function applyCompetencyGate(
+  orgInfo: { userId: string; organisationId: string; role: string },
+  contractorId: string,
+  workCategory: unknown,
+  overrideReason: unknown
+): Promise<CompetencyGateResult> {
+  if (!isWorkCategory(workCategory)) {
+    return { allowed: false, status: 400, body: { error: "A valid workCategory is required" } };
+  }
   
-  const [user] = await db.select().from(users).where(eq(users.id, userId));
-  if (!user || !user.organisationId) return null;
+  const evaluation = await checkContractorCompetency(orgInfo.organisationId, contractorId, workCategory);
+  if (evaluation.satisfied) {
+    return { allowed: true, evaluation };
+  }
+  
+  const reason = typeof overrideReason === "string" ? overrideReason.trim() : "";
+  if (!reason) {
+    return {
+      allowed: false,
+      status: 422,
+      body: {
+        error: `Contractor holds no verified, current ${evaluation.requiredRegistrationTypes.join(" or ")} registration for ${workCategory} work`,
+        code: "COMPETENCY_NOT_MET",
+        requiredRegistrationTypes: evaluation.requiredRegistrationTypes,
+      },
+    };
+  }
+  if (!COMPETENCY_OVERRIDE_ROLES.includes(orgInfo.role)) {
+    return { allowed: false, status: 403, body: { error: "Only managers can override the competency check" } };
+  }
   
-  return { userId: user.id, organisationId: user.organisationId };
+  return {
+    allowed: true,
+    evaluation,
+    override: { reason, overriddenById: orgInfo.userId, overriddenAt: new Date().toISOString() },
+  };
+}
+
+/** Client metadata without the gate evidence, which only the gates themselves write. */
+function clientMetadata(metadata: unknown): Record<string, unknown> {
+  const { competency: _competency, asbestosWarning: _asbestosWarning, ...rest } = (metadata as Record<string, unknown> | null) ?? {};
+  return rest;
+}
+
+function competencyMetadata(existing: unknown, evaluation: CompetencyEvaluation, override?: CompetencyOverride) {
+  return {
+    ...((existing as Record<string, unknown> | null) ?? {}),
+    competency: {
+      workCategory: evaluation.workCategory,
+      requiredRegistrationTypes: evaluation.requiredRegistrationTypes,
+      satisfied: evaluation.satisfied,
+      evaluatedAt: new Date().toISOString(),
+      override,
+    },
+  };
+}
+
+type AsbestosGateResult =
+  | { allowed: true; acknowledgement?: RefurbishmentSurveyWarning & { acknowledgedById: string; acknowledgedAt: string } }
+  | { allowed: false; body: Record<string, unknown> };
+
+/**
+ * Work in a room where the asbestos register holds ACMs that only a management
+ * survey has covered needs the warning acknowledged before it is approved.
+ */
+async function applyAsbestosGate(
+  orgInfo: { userId: string },
+  propertyId: string | null | undefined,
+  assignment: Parameters<typeof getAssignmentRooms>[0],
+  acknowledged: unknown
+): Promise<AsbestosGateResult> {
+  if (!propertyId) return { allowed: true };
+  const warning = await checkRefurbishmentSurveyRequired({ propertyId }, await getAssignmentRooms(assignment));
+  if (!warning) return { allowed: true };
+  if (acknowledged !== true) {
+    return { allowed: false, body: { error: warning.message, code: warning.code, warning } };
+  }
+  return { allowed: true, acknowledgement: { ...warning, acknowledgedById: orgInfo.userId, acknowledgedAt: new Date().toISOString() } };
 }
 
 // ===== STAFF MEMBERS - requires BetterAuth authentication =====
@@ -172,7 +265,7 @@ staffRouter.post("/staff/bulk-import", async (req: Request, res: Response) => {
 // ===== CONTRACTOR CERTIFICATIONS - requires authentication =====
 staffRouter.get("/contractor-certifications", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -193,7 +286,7 @@ staffRouter.get("/contractor-certifications", async (req: Request, res: Response
 
 staffRouter.get("/contractor-certifications/:id", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -213,7 +306,7 @@ staffRouter.get("/contractor-certifications/:id", async (req: Request, res: Resp
 
 staffRouter.post("/contractor-certifications", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -233,9 +326,59 @@ staffRouter.post("/contractor-certifications", async (req: Request, res: Respons
   }
 });
 
+staffRouter.post("/contractor-certifications/reverify", async (req: Request, res: Response) => {
+  try {
+    const orgInfo = await getOrgId(req);
+    if (!orgInfo) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!COMPETENCY_OVERRIDE_ROLES.includes(orgInfo.role)) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+    const { enqueueRegistrationReverification } = await import("../job-queue");
+    const jobId = await enqueueRegistrationReverification(orgInfo.organisationId);
+    res.status(202).json({ jobId });
+  } catch (error) {
+    console.error("Error queuing registration re-verification:", error);
+    res.status(500).json({ error: "Failed to queue registration re-verification" });
+  }
+});
+
+staffRouter.post("/contractor-certifications/:id/register-check", async (req: Request, res: Response) => {
+  try {
+    const orgInfo = await getOrgId(req);
+    if (!orgInfo) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    const certification = await storage.getContractorCertification(req.params.id);
+    if (!certification) {
+      return res.status(404).json({ error: "Certification not found" });
+    }
+    if (certification.organisationId !== orgInfo.organisationId) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+    const contractor = await storage.getContractor(certification.contractorId);
+    if (!contractor) {
+      return res.status(404).json({ error: "Contractor not found" });
+    }
+    
+    const outcome = await checkCertificationAgainstRegister(certification, contractor, { verifiedById: orgInfo.userId });
+    if (!outcome) {
+      return res.status(422).json({ error: `No register connection is configured for ${certification.registrationType}` });
+    }
+    res.json(outcome);
+  } catch (error) {
+    if (error instanceof RegistrationVerificationError) {
+      return res.status(502).json({ error: error.message });
+    }
+    console.error("Error checking certification against register:", error);
+    res.status(500).json({ error: "Failed to check certification against register" });
+  }
+});
+
 staffRouter.patch("/contractor-certifications/:id", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -256,7 +399,7 @@ staffRouter.patch("/contractor-certifications/:id", async (req: Request, res: Re
 
 staffRouter.delete("/contractor-certifications/:id", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -278,7 +421,7 @@ staffRouter.delete("/contractor-certifications/:id", async (req: Request, res: R
 // ===== CONTRACTOR VERIFICATION HISTORY =====
 staffRouter.get("/contractors/:id/verification-history", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -296,7 +439,7 @@ staffRouter.get("/contractors/:id/verification-history", async (req: Request, re
 
 staffRouter.post("/contractors/:id/verify", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -335,7 +478,7 @@ staffRouter.post("/contractors/:id/verify", async (req: Request, res: Response)
 // ===== CONTRACTOR ALERTS =====
 staffRouter.get("/contractor-alerts", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -357,7 +500,7 @@ staffRouter.get("/contractor-alerts", async (req: Request, res: Response) => {
 
 staffRouter.patch("/contractor-alerts/:id", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -383,7 +526,7 @@ staffRouter.patch("/contractor-alerts/:id", async (req: Request, res: Response)
 // ===== CONTRACTOR ASSIGNMENTS =====
 staffRouter.get("/contractor-assignments", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -406,10 +549,14 @@ staffRouter.get("/contractor-assignments", async (req: Request, res: Response) =
 
 staffRouter.post("/contractor-assignments", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
+    const priority = slaPrioritySchema.optional().safeParse(req.body.priority);
+    if (!priority.success) {
+      return res.status(400).json({ error: "Invalid priority", details: priority.error.errors });
+    }
     const contractor = await storage.getContractor(req.body.contractorId);
     if (!contractor || contractor.organisationId !== orgInfo.organisationId) {
       return res.status(403).json({ error: "Invalid contractor or access denied" });
@@ -418,11 +565,31 @@ staffRouter.post("/contractor-assignments", async (req: Request, res: Response)
     if (!property) {
       return res.status(404).json({ error: "Property not found" });
     }
+    
+    const { competencyOverrideReason, asbestosWarningAcknowledged, verifiedCertificationsAtAssignment: _ignored, ...assignmentData } = req.body;
+    const gate = await applyCompetencyGate(orgInfo, contractor.id, assignmentData.workCategory, competencyOverrideReason);
+    if (!gate.allowed) {
+      return res.status(gate.status).json(gate.body);
+    }
+    const asbestosGate = await applyAsbestosGate(orgInfo, property.id, assignmentData, asbestosWarningAcknowledged);
+    if (!asbestosGate.allowed) {
+      return res.status(409).json(asbestosGate.body);
+    }
+    
     const assignment = await storage.createContractorAssignment({
-      ...req.body,
+      ...assignmentData,
       organisationId: orgInfo.organisationId,
-      assignedBy: orgInfo.userId,
+      assignedById: orgInfo.userId,
+      verifiedCertificationsAtAssignment: gate.evaluation.matchingCertificationIds,
+      metadata: {
+        ...competencyMetadata(clientMetadata(assignmentData.metadata), gate.evaluation, gate.override),
+        ...(asbestosGate.acknowledgement ? { asbestosWarning: asbestosGate.acknowledgement } : {}),
+      },
     });
+    if (gate.override) {
+      await recordCompetencyOverride(assignment, contractor, gate.evaluation, gate.override, extractAuditContext(req));
+    }
+    await startSlaTracking(assignment);
     res.status(201).json(assignment);
   } catch (error) {
     console.error("Error creating contractor assignment:", error);
@@ -432,7 +599,7 @@ staffRouter.post("/contractor-assignments", async (req: Request, res: Response)
 
 staffRouter.patch("/contractor-assignments/:id", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -443,7 +610,63 @@ staffRouter.patch("/contractor-assignments/:id", async (req: Request, res: Respo
     if (assignment.organisationId !== orgInfo.organisationId) {
       return res.status(403).json({ error: "Access denied" });
     }
-    const updated = await storage.updateContractorAssignment(req.params.id, req.body);
+    
+    const { competencyOverrideReason, asbestosWarningAcknowledged, verifiedCertificationsAtAssignment: _ignored, ...updates } = req.body;
+    const priority = slaPrioritySchema.optional().safeParse(updates.priority);
+    if (!priority.success) {
+      return res.status(400).json({ error: "Invalid priority", details: priority.error.errors });
+    }
+    if (updates.metadata !== undefined) {
+      updates.metadata = { ...((assignment.metadata as Record<string, unknown> | null) ?? {}), ...clientMetadata(updates.metadata) };
+    }
+    const contractorId = updates.contractorId ?? assignment.contractorId;
+    const workCategory = updates.workCategory ?? assignment.workCategory;
+    
+    // Starting work is the point of approval for the asbestos check
+    if (updates.status === 'IN_PROGRESS' && assignment.status !== 'IN_PROGRESS') {
+      const asbestosGate = await applyAsbestosGate(
+        orgInfo,
+        updates.propertyId ?? assignment.propertyId,
+        { ...assignment, ...updates },
+        asbestosWarningAcknowledged
+      );
+      if (!asbestosGate.allowed) {
+        return res.status(409).json(asbestosGate.body);
+      }
+      if (asbestosGate.acknowledgement) {
+        updates.metadata = { ...((updates.metadata ?? assignment.metadata) as Record<string, unknown> | null ?? {}), asbestosWarning: asbestosGate.acknowledgement };
+      }
+    }
+    
+    // Re-run the gate whenever the work is handed to a different contractor or trade
+    if (contractorId !== assignment.contractorId || workCategory !== assignment.workCategory) {
+      const contractor = await storage.getContractor(contractorId);
+      if (!contractor || contractor.organisationId !== orgInfo.organisationId) {
+        return res.status(403).json({ error: "Invalid contractor or access denied" });
+      }
+      const gate = await applyCompetencyGate(orgInfo, contractor.id, workCategory, competencyOverrideReason);
+      if (!gate.allowed) {
+        return res.status(gate.status).json(gate.body);
+      }
+      
+      const updated = await storage.updateContractorAssignment(req.params.id, {
+        ...updates,
+        verifiedCertificationsAtAssignment: gate.evaluation.matchingCertificationIds,
+        metadata: competencyMetadata(updates.metadata ?? assignment.metadata, gate.evaluation, gate.override),
+      });
+      if (updated && gate.override) {
+        await recordCompetencyOverride(updated, contractor, gate.evaluation, gate.override, extractAuditContext(req));
+      }
+      if (updated) {
+        await syncSlaWithAssignment(assignment, updated);
+      }
+      return res.json(updated);
+    }
+    
+    const updated = await storage.updateContractorAssignment(req.params.id, updates);
+    if (updated) {
+      await syncSlaWithAssignment(assignment, updated);
+    }
     res.json(updated);
   } catch (error) {
     console.error("Error updating contractor assignment:", error);
@@ -451,10 +674,90 @@ staffRouter.patch("/contractor-assignments/:id", async (req: Request, res: Respo
   }
 });
 
+// ===== CONTRACTOR COMPETENCY MATRIX =====
+const competencyMatrixSchema = z.record(z.string(), z.array(z.enum(contractorRegistrationTypeEnum.enumValues)))
+  .refine(matrix => Object.keys(matrix).every(isWorkCategory), { message: "Unknown work category" });
+
+staffRouter.get("/contractor-competency-matrix", async (req: Request, res: Response) => {
+  try {
+    const orgInfo = await getOrgId(req);
+    if (!orgInfo) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    res.json(await getOrganisationCompetencyMatrix(orgInfo.organisationId));
+  } catch (error) {
+    console.error("Error fetching competency matrix:", error);
+    res.status(500).json({ error: "Failed to fetch competency matrix" });
+  }
+});
+
+staffRouter.put("/contractor-competency-matrix", async (req: Request, res: Response) => {
+  try {
+    const orgInfo = await getOrgId(req);
+    if (!orgInfo) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!COMPETENCY_OVERRIDE_ROLES.includes(orgInfo.role)) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+    const parsed = competencyMatrixSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid competency matrix", details: parsed.error.errors });
+    }
+    
+    const matrix = await updateOrganisationCompetencyMatrix(orgInfo.organisationId, parsed.data, extractAuditContext(req));
+    res.json(matrix);
+  } catch (error) {
+    console.error("Error updating competency matrix:", error);
+    res.status(500).json({ error: "Failed to update competency matrix" });
+  }
+});
+
+// ===== CONTRACTOR CERTIFICATION MONITORING =====
+const certificationMonitorPolicySchema = z.object({
+  leadTimeDays: z.array(z.number().int().min(1).max(MAX_LEAD_TIME_DAYS)).min(1).max(10),
+  suspendOnMandatoryLapse: z.boolean(),
+}).partial();
+
+staffRouter.get("/contractor-certification-monitor", async (req: Request, res: Response) => {
+  try {
+    const orgInfo = await getOrgId(req);
+    if (!orgInfo) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    res.json(await getCertificationMonitorPolicy(orgInfo.organisationId));
+  } catch (error) {
+    console.error("Error fetching certification monitor policy:", error);
+    res.status(500).json({ error: "Failed to fetch certification monitor policy" });
+  }
+});
+
+staffRouter.put("/contractor-certification-monitor", async (req: Request, res: Response) => {
+  try {
+    const orgInfo = await getOrgId(req);
+    if (!orgInfo) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!COMPETENCY_OVERRIDE_ROLES.includes(orgInfo.role)) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+    const parsed = certificationMonitorPolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid certification monitor policy", details: parsed.error.errors });
+    }
+    
+    const policy = await updateCertificationMonitorPolicy(orgInfo.organisationId, parsed.data, extractAuditContext(req));
+    res.json(policy);
+  } catch (error) {
+    console.error("Error updating certification monitor policy:", error);
+    res.status(500).json({ error: "Failed to update certification monitor policy" });
+  }
+});
+
 // ===== CONTRACTOR SLA PROFILES =====
 staffRouter.get("/contractor-sla-profiles", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -470,13 +773,20 @@ staffRouter.get("/contractor-sla-profiles", async (req: Request, res: Response)
 
 staffRouter.post("/contractor-sla-profiles", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
+    const parsed = insertContractorSLAProfileSchema
+      .omit({ organisationId: true })
+      .extend({ priority: slaPrioritySchema })
+      .safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid SLA profile", details: parsed.error.errors });
+    }
     const [profile] = await db.insert(contractorSLAProfiles)
       .values({
-        ...req.body,
+        ...parsed.data,
         organisationId: orgInfo.organisationId,
       })
       .returning();
@@ -488,9 +798,33 @@ staffRouter.post("/contractor-sla-profiles", async (req: Request, res: Response)
 });
 
 // ===== CONTRACTOR JOB PERFORMANCE =====
+staffRouter.get("/contractor-performance/:contractorId/statement", async (req: Request, res: Response) => {
+  try {
+    const orgInfo = await getOrgId(req);
+    if (!orgInfo) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    
+    const contractor = await storage.getContractor(req.params.contractorId);
+    if (!contractor || contractor.organisationId !== orgInfo.organisationId) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+    
+    const month = (req.query.month as string | undefined) ?? new Date().toISOString().slice(0, 7);
+    if (!parseStatementMonth(month)) {
+      return res.status(400).json({ error: "month must be in YYYY-MM format" });
+    }
+    
+    res.json(await getMonthlySlaStatement(orgInfo.organisationId, contractor.id, month));
+  } catch (error) {
+    console.error("Error building SLA statement:", error);
+    res.status(500).json({ error: "Failed to build SLA statement" });
+  }
+});
+
 staffRouter.get("/contractor-performance/:contractorId", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -536,7 +870,7 @@ staffRouter.get("/contractor-performance/:contractorId", async (req: Request, re
 
 staffRouter.post("/contractor-performance", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -559,7 +893,7 @@ staffRouter.post("/contractor-performance", async (req: Request, res: Response)
 // ===== CONTRACTOR RATINGS =====
 staffRouter.get("/contractor-ratings/:contractorId", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
@@ -605,7 +939,7 @@ staffRouter.get("/contractor-ratings/:contractorId", async (req: Request, res: R
 
 staffRouter.post("/contractor-ratings", async (req: Request, res: Response) => {
   try {
-    const orgInfo = await getSessionOrgId(req);
+    const orgInfo = await getOrgId(req);
     if (!orgInfo) {
       return res.status(401).json({ error: "Authentication required" });
     }
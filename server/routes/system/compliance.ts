@@ -1,22 +1,41 @@
 import { Router } from "express";
+import { z } from "zod";
 import { db } from "../../db";
 import { eq, desc, and, count, sql, isNotNull, lt, gte } from "drizzle-orm";
-import { requireAuth, requireRole, type AuthenticatedRequest } from "../../session";
+import { requireAuth, requireRole, getVerifiedSession, type AuthenticatedRequest } from "../../session";
 import { storage } from "../../storage";
 import { 
   certificates, properties, blocks, schemes, remedialActions, contractors,
-  propertyRiskSnapshots, riskFactorDefinitions, riskAlerts
+  propertyRiskSnapshots, riskFactorDefinitions, riskAlerts,
+  type InsertMandatoryOccurrenceReport, type MandatoryOccurrenceReport, tenureTypeEnum
 } from "@shared/schema";
-import { auth } from "../../auth";
-import { fromNodeHeaders } from "better-auth/node";
+import { deriveHazardDeadlines, reconcileHazardBreach } from "../../services/awaabs-law-clock";
+import {
+  applyHazardCaseTransition,
+  applyHazardActionTransition,
+  getAllowedHazardCaseTransitions,
+  parseHazardActionUpdate,
+  parseHazardCaseCreate,
+  parseHazardCaseUpdate,
+} from "../../services/hazard-workflow";
+import { recordFieldLevelAudit } from "../../services/golden-thread-audit";
+import { handleRouteError, NotFoundError, BadRequestError, ValidationError } from "../../errors";
+import { checkRefurbishmentSurveyRequired, getHazardCaseRooms } from "../../services/asbestos-register";
+import {
+  buildOccurrenceSubmissionPack,
+  deriveOccurrenceReportFields,
+  parseOccurrenceReportDates,
+  refreshOccurrenceDeadlineAlert,
+  renderSubmissionPackPdf,
+  resolveOccurrenceDeadlineAlerts,
+} from "../../services/mandatory-occurrence-reporting";
+import { calculateTsmSnapshots, getTsmNumeratorRecords, isCalculatedTsmMeasure, type TsmTenure } from "../../services/tsm-calculator";
 
 export const systemComplianceRouter = Router();
 
 systemComplianceRouter.get("/audit-events", async (req, res) => {
   try {
-    const session = await auth.api.getSession({
-      headers: fromNodeHeaders(req.headers),
-    });
+    const session = await getVerifiedSession(req);
     
     if (!session?.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
@@ -54,9 +73,7 @@ systemComplianceRouter.get("/audit-events", async (req, res) => {
 
 systemComplianceRouter.get("/audit-events/:entityType/:entityId", async (req, res) => {
   try {
-    const session = await auth.api.getSession({
-      headers: fromNodeHeaders(req.headers),
-    });
+    const session = await getVerifiedSession(req);
     
     if (!session?.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
@@ -139,7 +156,7 @@ const PORTFOLIO_CACHE_TTL = 60000;
 
 systemComplianceRouter.get("/risk/portfolio-summary", async (req, res) => {
   try {
-    const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+    const session = await getVerifiedSession(req);
     if (!session?.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
     }
@@ -174,7 +191,7 @@ systemComplianceRouter.get("/risk/portfolio-summary", async (req, res) => {
 
 systemComplianceRouter.get("/risk/properties", async (req, res) => {
   try {
-    const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+    const session = await getVerifiedSession(req);
     if (!session?.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
     }
@@ -229,7 +246,7 @@ systemComplianceRouter.get("/risk/properties", async (req, res) => {
 
 systemComplianceRouter.get("/risk/properties/:propertyId", async (req, res) => {
   try {
-    const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+    const session = await getVerifiedSession(req);
     if (!session?.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
     }
@@ -296,7 +313,7 @@ systemComplianceRouter.get("/risk/properties/:propertyId", async (req, res) => {
 
 systemComplianceRouter.post("/risk/properties/:propertyId/calculate", async (req, res) => {
   try {
-    const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+    const session = await getVerifiedSession(req);
     if (!session?.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
     }
@@ -344,7 +361,7 @@ systemComplianceRouter.post("/risk/properties/:propertyId/calculate", async (req
 
 systemComplianceRouter.post("/risk/calculate-all", async (req, res) => {
   try {
-    const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+    const session = await getVerifiedSession(req);
     if (!session?.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
     }
@@ -365,7 +382,7 @@ systemComplianceRouter.post("/risk/calculate-all", async (req, res) => {
 
 systemComplianceRouter.get("/risk/alerts", async (req, res) => {
   try {
-    const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+    const session = await getVerifiedSession(req);
     if (!session?.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
     }
@@ -1390,22 +1407,77 @@ systemComplianceRouter.get("/hazard-cases/:id", requireAuth, async (req: Authent
   }
 });
 
+function hazardAuditContext(req: AuthenticatedRequest) {
+  return {
+    organisationId: req.user!.organisationId!,
+    actorId: req.user!.id,
+    actorName: req.user!.name || req.user!.username,
+    actorType: 'USER' as const,
+    ipAddress: req.ip,
+    userAgent: req.headers['user-agent'],
+  };
+}
+
 systemComplianceRouter.post("/hazard-cases", requireRole('ADMIN', 'MANAGER', 'OFFICER'), async (req: AuthenticatedRequest, res) => {
   try {
-    const hazardCase = await storage.createHazardCase({ ...req.body, organisationId: req.organisationId! });
+    const body = parseHazardCaseCreate(req.body);
+    const reportedAt = body.reportedAt ?? new Date();
+    // Statutory deadlines are always derived server-side, never taken from the request
+    const deadlines = await deriveHazardDeadlines({ ...body, reportedAt });
+    const hazardCase = await storage.createHazardCase({
+      ...body,
+      reportedAt,
+      ...deadlines,
+      organisationId: req.user!.organisationId!,
+    });
     res.status(201).json(hazardCase);
   } catch (error) {
-    res.status(500).json({ error: "Failed to create hazard case" });
+    handleRouteError(error, req, res, "Hazard Case");
   }
 });
 
 systemComplianceRouter.patch("/hazard-cases/:id", requireRole('ADMIN', 'MANAGER', 'OFFICER'), async (req: AuthenticatedRequest, res) => {
   try {
-    const updated = await storage.updateHazardCase(req.params.id, req.body);
-    if (!updated) return res.status(404).json({ error: "Hazard case not found" });
+    const existing = await storage.getHazardCase(req.params.id, req.user!.organisationId!);
+    if (!existing) throw new NotFoundError("Hazard case");
+
+    const changes = parseHazardCaseUpdate(req.body);
+    const validated = applyHazardCaseTransition(
+      existing,
+      changes.status === 'CLOSED' ? { ...changes, closedById: req.user!.id } : changes
+    );
+    const deadlines = await deriveHazardDeadlines({ ...existing, ...validated });
+    const saved = await storage.updateHazardCase(req.params.id, { ...validated, ...deadlines });
+    if (!saved) throw new NotFoundError("Hazard case");
+    const updated = await reconcileHazardBreach(saved);
+
+    if (updated.status !== existing.status) {
+      await recordFieldLevelAudit(
+        hazardAuditContext(req),
+        'hazard_cases',
+        updated.id,
+        updated.caseReference,
+        'HAZARD_CASE_STATUS_CHANGED',
+        existing,
+        updated,
+        `Hazard case ${updated.caseReference} moved from ${existing.status} to ${updated.status}`,
+        { fromStatus: existing.status, toStatus: updated.status, propertyId: updated.propertyId }
+      );
+    }
+
     res.json(updated);
   } catch (error) {
-    res.status(500).json({ error: "Failed to update hazard case" });
+    handleRouteError(error, req, res, "Hazard Case");
+  }
+});
+
+systemComplianceRouter.get("/hazard-cases/:id/transitions", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const hazardCase = await storage.getHazardCase(req.params.id, req.user!.organisationId!);
+    if (!hazardCase) throw new NotFoundError("Hazard case");
+    res.json({ status: hazardCase.status, allowedTransitions: getAllowedHazardCaseTransitions(hazardCase.status) });
+  } catch (error) {
+    handleRouteError(error, req, res, "Hazard Case");
   }
 });
 
@@ -1420,13 +1492,62 @@ systemComplianceRouter.get("/hazard-cases/:id/actions", requireAuth, async (req:
 
 systemComplianceRouter.post("/hazard-cases/:id/actions", requireRole('ADMIN', 'MANAGER', 'OFFICER'), async (req: AuthenticatedRequest, res) => {
   try {
-    const action = await storage.createHazardAction({ ...req.body, hazardCaseId: req.params.id });
+    const { status, ...body } = req.body;
+    const action = await storage.createHazardAction({ ...body, hazardCaseId: req.params.id });
     res.status(201).json(action);
   } catch (error) {
     res.status(500).json({ error: "Failed to create hazard action" });
   }
 });
 
+systemComplianceRouter.patch("/hazard-cases/:id/actions/:actionId", requireRole('ADMIN', 'MANAGER', 'OFFICER'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const hazardCase = await storage.getHazardCase(req.params.id, req.user!.organisationId!);
+    if (!hazardCase) throw new NotFoundError("Hazard case");
+
+    const actions = await storage.listHazardActions(hazardCase.id);
+    const existing = actions.find(a => a.id === req.params.actionId);
+    if (!existing) throw new NotFoundError("Hazard action");
+
+    const { asbestosWarningAcknowledged, ...body } = req.body;
+    const validated = applyHazardActionTransition(existing, parseHazardActionUpdate(body));
+
+    // Scheduling or starting works approves them, so check the asbestos register first
+    if (validated.status && ['SCHEDULED', 'IN_PROGRESS'].includes(validated.status) && existing.status === 'PENDING') {
+      const warning = await checkRefurbishmentSurveyRequired({ propertyId: hazardCase.propertyId }, getHazardCaseRooms(hazardCase));
+      // Same warning response as contractor assignments: the client confirms and resends
+      if (warning && asbestosWarningAcknowledged !== true) {
+        return res.status(409).json({ error: warning.message, code: warning.code, warning });
+      }
+      if (warning) {
+        validated.notes = [validated.notes ?? existing.notes, `Asbestos warning acknowledged by ${req.user!.name || req.user!.username}: ${warning.message}`]
+          .filter(Boolean)
+          .join('\n');
+      }
+    }
+    const updated = await storage.updateHazardAction(existing.id, validated);
+    if (!updated) throw new NotFoundError("Hazard action");
+
+    if (updated.status !== existing.status) {
+      await recordFieldLevelAudit(
+        hazardAuditContext(req),
+        'hazard_actions',
+        updated.id,
+        `${hazardCase.caseReference} - ${updated.actionType}`,
+        'HAZARD_ACTION_STATUS_CHANGED',
+        existing,
+        updated,
+        `Hazard action on ${hazardCase.caseReference} moved from ${existing.status} to ${updated.status}`,
+        { hazardCaseId: hazardCase.id, fromStatus: existing.status, toStatus: updated.status }
+      );
+    }
+
+    res.json(updated);
+  } catch (error) {
+    handleRouteError(error, req, res, "Hazard Action");
+  }
+});
+
 systemComplianceRouter.get("/households", requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
     const { propertyId, isActive } = req.query;
@@ -1579,6 +1700,61 @@ systemComplianceRouter.post("/tsm-snapshots", requireRole('ADMIN', 'MANAGER'), a
   }
 });
 
+const tsmPeriodDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date")
+  // Date rolls impossible days over (2025-02-30 becomes 2025-03-02), so it must round-trip
+  .refine(value => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, "Expected a valid calendar date");
+const tsmCalculationSchema = z.object({
+  periodStart: tsmPeriodDate,
+  periodEnd: tsmPeriodDate,
+}).refine(period => period.periodStart <= period.periodEnd, { message: "periodStart must not be after periodEnd", path: ["periodEnd"] });
+
+systemComplianceRouter.post("/tsm-snapshots/calculate", requireRole('ADMIN', 'MANAGER'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = tsmCalculationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw ValidationError.fromZodError(parsed.error);
+    }
+    const { periodStart, periodEnd } = parsed.data;
+    const result = await calculateTsmSnapshots(req.user!.organisationId!, periodStart, periodEnd);
+    res.status(201).json({ periodStart, periodEnd, ...result });
+  } catch (error) {
+    handleRouteError(error, req, res, "TSM Calculation");
+  }
+});
+
+systemComplianceRouter.get("/tsm-snapshots/:id/records", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const snapshot = await storage.getTsmSnapshot(req.params.id, req.user!.organisationId!);
+    if (!snapshot) {
+      throw new NotFoundError("TSM snapshot");
+    }
+    if (!isCalculatedTsmMeasure(snapshot.measureCode)) {
+      throw new BadRequestError(`${snapshot.measureCode} is not calculated from records`);
+    }
+    const tenureType = typeof req.query.tenureType === "string" ? req.query.tenureType as TsmTenure : undefined;
+    if (tenureType && !tenureTypeEnum.enumValues.includes(tenureType)) {
+      throw new BadRequestError(`Unknown tenure type ${tenureType}`);
+    }
+
+    const records = await getTsmNumeratorRecords(snapshot, tenureType);
+    res.json({
+      snapshotId: snapshot.id,
+      measureCode: snapshot.measureCode,
+      periodStart: snapshot.periodStart,
+      periodEnd: snapshot.periodEnd,
+      tenureType: tenureType ?? null,
+      total: records.length,
+      records,
+    });
+  } catch (error) {
+    handleRouteError(error, req, res, "TSM Snapshot Records");
+  }
+});
+
 systemComplianceRouter.get("/building-safety-profiles", requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
     const { isHrb } = req.query;
@@ -1667,21 +1843,65 @@ systemComplianceRouter.get("/mandatory-occurrence-reports/:id", requireAuth, asy
   }
 });
 
+systemComplianceRouter.get("/mandatory-occurrence-reports/:id/submission-pack", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const report = await storage.getMandatoryOccurrenceReport(req.params.id, req.user!.organisationId!);
+    if (!report) throw new NotFoundError("Mandatory occurrence report");
+
+    const pack = await buildOccurrenceSubmissionPack(report);
+    const filename = `mor-${report.reportReference.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-submission-pack`;
+    if (req.query.format === 'pdf') {
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.pdf"`);
+      return res.send(renderSubmissionPackPdf(pack));
+    }
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}.json"`);
+    res.json(pack);
+  } catch (error) {
+    handleRouteError(error, req, res, "Mandatory Occurrence Report");
+  }
+});
+
 systemComplianceRouter.post("/mandatory-occurrence-reports", requireRole('ADMIN', 'MANAGER'), async (req: AuthenticatedRequest, res) => {
   try {
-    const report = await storage.createMandatoryOccurrenceReport({ ...req.body, organisationId: req.organisationId! });
+    // The regulator deadline is always derived server-side, never taken from the request
+    const { reportDeadline, wasReportedInTime, ...body } = parseOccurrenceReportDates(req.body);
+    const occurrenceDate = (body.occurrenceDate as Date | null | undefined) ?? new Date();
+    const deadlines = await deriveOccurrenceReportFields({
+      occurrenceType: String(body.occurrenceType ?? ''),
+      occurrenceDate,
+      reportedToRegulatorAt: body.reportedToRegulatorAt as Date | null | undefined,
+    });
+    const report = await storage.createMandatoryOccurrenceReport({
+      ...body,
+      occurrenceDate,
+      ...deadlines,
+      organisationId: req.user!.organisationId!,
+    } as InsertMandatoryOccurrenceReport);
     res.status(201).json(report);
   } catch (error) {
-    res.status(500).json({ error: "Failed to create mandatory occurrence report" });
+    handleRouteError(error, req, res, "Mandatory Occurrence Report");
   }
 });
 
 systemComplianceRouter.patch("/mandatory-occurrence-reports/:id", requireRole('ADMIN', 'MANAGER'), async (req: AuthenticatedRequest, res) => {
   try {
-    const updated = await storage.updateMandatoryOccurrenceReport(req.params.id, req.body);
-    if (!updated) return res.status(404).json({ error: "Mandatory occurrence report not found" });
+    const existing = await storage.getMandatoryOccurrenceReport(req.params.id, req.user!.organisationId!);
+    if (!existing) throw new NotFoundError("Mandatory occurrence report");
+
+    const { reportDeadline, wasReportedInTime, organisationId, ...changes } = parseOccurrenceReportDates(req.body);
+    const merged = { ...existing, ...changes } as MandatoryOccurrenceReport;
+    const deadlines = await deriveOccurrenceReportFields(merged);
+    const updated = await storage.updateMandatoryOccurrenceReport(req.params.id, { ...changes, ...deadlines } as Partial<InsertMandatoryOccurrenceReport>);
+    if (!updated) throw new NotFoundError("Mandatory occurrence report");
+
+    if (updated.reportedToRegulatorAt || updated.closedAt) {
+      await resolveOccurrenceDeadlineAlerts(updated);
+    } else if (existing.reportDeadline?.getTime() !== updated.reportDeadline?.getTime()) {
+      await refreshOccurrenceDeadlineAlert(updated);
+    }
     res.json(updated);
   } catch (error) {
-    res.status(500).json({ error: "Failed to update mandatory occurrence report" });
+    handleRouteError(error, req, res, "Mandatory Occurrence Report");
   }
 });
@@ -389,6 +389,12 @@ systemOperationsRouter.get("/admin/openapi", (req, res) => {
         post: {
           summary: "Receive action updates from HMS",
           tags: ["Integrations"],
+          security: [{ InboundWebhookSignature: [] }],
+          parameters: [
+            { name: "X-Webhook-Key-Id", in: "header", required: true, schema: { type: "string" } },
+            { name: "X-Webhook-Timestamp", in: "header", required: true, schema: { type: "string" }, description: "Unix time in seconds" },
+            { name: "X-Webhook-Nonce", in: "header", required: true, schema: { type: "string" }, description: "Unique per request, 16-128 URL-safe characters" }
+          ],
           requestBody: {
             content: {
               "application/json": {
@@ -412,6 +418,12 @@ systemOperationsRouter.get("/admin/openapi", (req, res) => {
         post: {
           summary: "Receive work order confirmations from HMS",
           tags: ["Integrations"],
+          security: [{ InboundWebhookSignature: [] }],
+          parameters: [
+            { name: "X-Webhook-Key-Id", in: "header", required: true, schema: { type: "string" } },
+            { name: "X-Webhook-Timestamp", in: "header", required: true, schema: { type: "string" }, description: "Unix time in seconds" },
+            { name: "X-Webhook-Nonce", in: "header", required: true, schema: { type: "string" }, description: "Unique per request, 16-128 URL-safe characters" }
+          ],
           requestBody: {
             content: {
               "application/json": {
@@ -438,6 +450,12 @@ systemOperationsRouter.get("/admin/openapi", (req, res) => {
           type: "apiKey",
           in: "header",
           name: "X-API-Key"
+        },
+        InboundWebhookSignature: {
+          type: "apiKey",
+          in: "header",
+          name: "X-Webhook-Signature",
+          description: "Hex HMAC-SHA256 of `timestamp.nonce.body` using the inbound source secret"
         }
       }
     }
@@ -1,7 +1,5 @@
 import { Request, Response } from "express";
-import type { AuthenticatedRequest } from "../../session";
-import { auth } from "../../auth";
-import { fromNodeHeaders } from "better-auth/node";
+import { getVerifiedSession, type AuthenticatedRequest } from "../../session";
 import { storage } from "../../storage";
 
 export const ORG_ID = "default-org";
@@ -14,7 +12,7 @@ export const ADMIN_ROLES = ['LASHAN_SUPER_USER', 'SUPER_ADMIN', 'SYSTEM_ADMIN',
 export const SUPER_ADMIN_ROLES = ['LASHAN_SUPER_USER', 'SUPER_ADMIN', 'SYSTEM_ADMIN'];
 
 export async function requireAdminRole(req: Request, res: Response): Promise<boolean> {
-  const session = await auth.api.getSession({ headers: fromNodeHeaders(req.headers) });
+  const session = await getVerifiedSession(req);
   if (!session?.user?.id) {
     res.status(401).json({ error: "Unauthorized" });
     return false;
@@ -0,0 +1,106 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth, requireRole, type AuthenticatedRequest } from "../session";
+import { BadRequestError, NotFoundError, ValidationError, handleRouteError } from "../errors";
+import { ADMIN_ROLES } from "./admin/utils";
+import { extractAuditContext } from "../services/audit";
+import { resolveScope } from "../services/asbestos-register";
+import {
+  findForeignReference,
+  getOutletHistory,
+  getWaterHygienePolicy,
+  listOutletStatuses,
+  outletReadingSchema,
+  recordOutletReading,
+  recordOutletReadingsFromCsv,
+  updateWaterHygienePolicy,
+} from "../services/water-hygiene-monitoring";
+
+export const waterHygieneRouter = Router();
+
+const MONITORING_ROLES = ['ADMIN', 'MANAGER', 'OFFICER', 'COMPLIANCE_MANAGER'];
+
+const temperatureLimit = z.number().min(0).max(100);
+const waterHygienePolicySchema = z.object({
+  coldMaxTemp: temperatureLimit,
+  hotMinTemp: temperatureLimit,
+  hotFlowMinTemp: temperatureLimit,
+  hotReturnMinTemp: temperatureLimit,
+  calorifierMinTemp: temperatureLimit,
+  escalateAfterFailures: z.number().int().min(1).max(12),
+}).partial();
+
+// ===== WATER HYGIENE THRESHOLDS =====
+waterHygieneRouter.get("/water-hygiene/policy", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json(await getWaterHygienePolicy(req.user!.organisationId!));
+  } catch (error) {
+    handleRouteError(error, req, res, "Water Hygiene Policy");
+  }
+});
+
+waterHygieneRouter.put("/water-hygiene/policy", requireRole(...ADMIN_ROLES), async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = waterHygienePolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw ValidationError.fromZodError(parsed.error);
+    }
+    res.json(await updateWaterHygienePolicy(req.user!.organisationId!, parsed.data, extractAuditContext(req)));
+  } catch (error) {
+    handleRouteError(error, req, res, "Water Hygiene Policy");
+  }
+});
+
+// ===== OUTLET TEMPERATURE MONITORING =====
+waterHygieneRouter.post("/water-hygiene/readings", requireRole(...MONITORING_ROLES), async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = outletReadingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw ValidationError.fromZodError(parsed.error);
+    }
+    const organisationId = req.user!.organisationId!;
+    const foreign = await findForeignReference(organisationId, parsed.data);
+    if (foreign) {
+      throw new NotFoundError(foreign);
+    }
+
+    const policy = await getWaterHygienePolicy(organisationId);
+    res.status(201).json(await recordOutletReading(organisationId, parsed.data, policy, req.user!.id));
+  } catch (error) {
+    handleRouteError(error, req, res, "Outlet Temperature Reading");
+  }
+});
+
+waterHygieneRouter.post("/water-hygiene/readings/bulk", requireRole(...MONITORING_ROLES), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { csvContent } = req.body ?? {};
+    if (typeof csvContent !== "string" || !csvContent.trim()) {
+      throw new BadRequestError("csvContent is required");
+    }
+    res.json(await recordOutletReadingsFromCsv(req.user!.organisationId!, csvContent, req.user!.id));
+  } catch (error) {
+    handleRouteError(error, req, res, "Outlet Temperature Import");
+  }
+});
+
+waterHygieneRouter.get("/water-hygiene/outlets", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const scope = await resolveScope(req.user!.organisationId!, req.query);
+    res.json(await listOutletStatuses(scope));
+  } catch (error) {
+    handleRouteError(error, req, res, "Outlet Temperature History");
+  }
+});
+
+waterHygieneRouter.get("/water-hygiene/outlets/history", requireAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const scope = await resolveScope(req.user!.organisationId!, req.query);
+    const outlet = typeof req.query.outlet === "string" ? req.query.outlet.trim() : "";
+    if (!outlet) {
+      throw new BadRequestError("outlet is required");
+    }
+    res.json(await getOutletHistory(scope, outlet));
+  } catch (error) {
+    handleRouteError(error, req, res, "Outlet Temperature History");
+  }
+});
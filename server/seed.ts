@@ -1627,13 +1627,13 @@ export async function seedConfiguration(): Promise<SeedResult[]> {
   // Comprehensive domain validation rules for all certificate types aligned with UK regulations
   const complianceRulesData = [
     // ========== GAS & HEATING RULES ==========
-    { ruleCode: "GAS_ANNUAL_CHECK", ruleName: "Gas Safety Annual Check Required", documentType: "GAS", description: "Properties with gas supply must have annual CP12/LGSR under Gas Safety Regulations 1998", legislation: "Gas Safety (Installation and Use) Regulations 1998", conditions: [{ field: "hasGas", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
+    { ruleCode: "GAS_ANNUAL_CHECK", ruleName: "Gas Safety Annual Check Required", documentType: "GAS", description: "Properties with gas supply must have annual CP12/LGSR under Gas Safety Regulations 1998", legislation: "Gas Safety (Installation and Use) Regulations 1998", conditions: [{ field: "hasGas", operator: "equals", value: true }, { field: "certificates.GAS", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
     { ruleCode: "GAS_ID_IMMEDIATE", ruleName: "Immediately Dangerous - Disconnect", documentType: "GAS", description: "ID classification requires immediate gas isolation", legislation: "Gas Safety (Installation and Use) Regulations 1998", conditions: [{ field: "defectCode", operator: "equals", value: "ID" }], conditionLogic: "AND", action: "AUTO_FAIL", priority: "P1", isActive: true },
     { ruleCode: "GAS_AR_28DAY", ruleName: "At Risk - 28 Day Repair", documentType: "GAS", description: "AR classification requires repair within 28 days", legislation: "Gas Safety (Installation and Use) Regulations 1998", conditions: [{ field: "defectCode", operator: "equals", value: "AR" }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
     { ruleCode: "GAS_NCS_REMEDIATE", ruleName: "Not to Current Standard", documentType: "GAS", description: "NCS defects should be remediated at next service", legislation: "Gas Safety (Installation and Use) Regulations 1998", conditions: [{ field: "defectCode", operator: "equals", value: "NCS" }], conditionLogic: "AND", action: "INFO", priority: "P3", isActive: true },
-    { ruleCode: "OIL_ANNUAL_SERVICE", ruleName: "Oil Boiler Annual Service", documentType: "OIL", description: "Oil boilers require annual servicing by OFTEC engineer", legislation: "Building Regulations Part J", conditions: [{ field: "hasOilHeating", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
-    { ruleCode: "LPG_ANNUAL_CHECK", ruleName: "LPG Safety Annual Check", documentType: "LPG", description: "LPG installations require annual safety check", legislation: "Gas Safety (Installation and Use) Regulations 1998", conditions: [{ field: "hasLPG", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
-    { ruleCode: "SOLID_FUEL_SWEEP", ruleName: "Solid Fuel Annual Sweep", documentType: "SOLID", description: "Solid fuel appliances require annual chimney sweep and inspection", legislation: "Building Regulations Part J", conditions: [{ field: "hasSolidFuel", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
+    { ruleCode: "OIL_ANNUAL_SERVICE", ruleName: "Oil Boiler Annual Service", documentType: "OIL", description: "Oil boilers require annual servicing by OFTEC engineer", legislation: "Building Regulations Part J", conditions: [{ field: "hasOilHeating", operator: "equals", value: true }, { field: "certificates.OIL", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
+    { ruleCode: "LPG_ANNUAL_CHECK", ruleName: "LPG Safety Annual Check", documentType: "LPG", description: "LPG installations require annual safety check", legislation: "Gas Safety (Installation and Use) Regulations 1998", conditions: [{ field: "hasLPG", operator: "equals", value: true }, { field: "certificates.LPG", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
+    { ruleCode: "SOLID_FUEL_SWEEP", ruleName: "Solid Fuel Annual Sweep", documentType: "SOLID", description: "Solid fuel appliances require annual chimney sweep and inspection", legislation: "Building Regulations Part J", conditions: [{ field: "hasSolidFuel", operator: "equals", value: true }, { field: "certificates.SOLID", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
     
     // ========== ELECTRICAL RULES ==========
     { ruleCode: "EICR_5YEAR_CHECK", ruleName: "EICR 5-Year Inspection", documentType: "EICR", description: "Electrical installations must be inspected every 5 years in rented properties", legislation: "Electrical Safety Standards in the Private Rented Sector (England) Regulations 2020", conditions: [{ field: "expiryDays", operator: "less_than", value: 90 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
@@ -1641,8 +1641,8 @@ export async function seedConfiguration(): Promise<SeedResult[]> {
     { ruleCode: "EICR_C2_28DAY", ruleName: "C2 - Potentially Dangerous", documentType: "EICR", description: "C2 classification requires remediation within 28 days", legislation: "BS 7671:2018", conditions: [{ field: "c2Count", operator: "greater_than", value: 0 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
     { ruleCode: "EICR_C3_RECOMMEND", ruleName: "C3 - Improvement Recommended", documentType: "EICR", description: "C3 observations should be considered for improvement", legislation: "BS 7671:2018", conditions: [{ field: "c3Count", operator: "greater_than", value: 0 }], conditionLogic: "AND", action: "INFO", priority: "P3", isActive: true },
     { ruleCode: "EICR_UNSAT_FAIL", ruleName: "EICR Unsatisfactory - Auto Fail", documentType: "EICR", description: "Unsatisfactory EICR requires immediate remedial action", legislation: "Electrical Safety Standards Regulations 2020", conditions: [{ field: "overallAssessment", operator: "equals", value: "UNSATISFACTORY" }], conditionLogic: "AND", action: "AUTO_FAIL", priority: "P1", isActive: true },
-    { ruleCode: "PAT_ANNUAL_COMMUNAL", ruleName: "PAT Testing Communal Areas", documentType: "PAT", description: "Portable appliances in communal areas require annual testing", legislation: "Electricity at Work Regulations 1989", conditions: [{ field: "isCommunal", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P3", isActive: true },
-    { ruleCode: "EMLT_ANNUAL_TEST", ruleName: "Emergency Lighting Annual Test", documentType: "EMLT", description: "Emergency lighting requires annual 3-hour duration test", legislation: "BS 5266-1", conditions: [{ field: "hasCommunalAreas", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
+    { ruleCode: "PAT_ANNUAL_COMMUNAL", ruleName: "PAT Testing Communal Areas", documentType: "PAT", description: "Portable appliances in communal areas require annual testing", legislation: "Electricity at Work Regulations 1989", conditions: [{ field: "isCommunal", operator: "equals", value: true }, { field: "certificates.PAT", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P3", isActive: true },
+    { ruleCode: "EMLT_ANNUAL_TEST", ruleName: "Emergency Lighting Annual Test", documentType: "EMLT", description: "Emergency lighting requires annual 3-hour duration test", legislation: "BS 5266-1", conditions: [{ field: "hasCommunalAreas", operator: "equals", value: true }, { field: "certificates.EMLT", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
     
     // ========== ENERGY RULES ==========
     { ruleCode: "EPC_E_MINIMUM", ruleName: "EPC E Minimum for Rental", documentType: "EPC", description: "Rental properties must have minimum EPC rating E", legislation: "Energy Efficiency (Private Rented Property) Regulations 2015", conditions: [{ field: "currentRating", operator: "in", value: ["F", "G"] }], conditionLogic: "AND", action: "AUTO_FAIL", priority: "P1", isActive: true },
@@ -1652,19 +1652,19 @@ export async function seedConfiguration(): Promise<SeedResult[]> {
     // ========== FIRE SAFETY RULES ==========
     { ruleCode: "FRA_ANNUAL_REVIEW", ruleName: "Fire Risk Assessment Annual Review", documentType: "FRA", description: "Fire risk assessments should be reviewed annually or after significant changes", legislation: "Regulatory Reform (Fire Safety) Order 2005", conditions: [{ field: "expiryDays", operator: "less_than", value: 60 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
     { ruleCode: "FRA_SUBSTANTIAL_FAIL", ruleName: "FRA Substantial/Intolerable Risk", documentType: "FRA", description: "Substantial or intolerable fire risk requires immediate action", legislation: "Regulatory Reform (Fire Safety) Order 2005", conditions: [{ field: "riskRating", operator: "in", value: ["SUBSTANTIAL", "INTOLERABLE"] }], conditionLogic: "AND", action: "AUTO_FAIL", priority: "P1", isActive: true },
-    { ruleCode: "FD_QUARTERLY_HRB", ruleName: "Fire Door Quarterly Inspection - HRBs", documentType: "FD_Q", description: "High-rise buildings require quarterly fire door inspections", legislation: "Fire Safety (England) Regulations 2022", conditions: [{ field: "buildingHeight", operator: "greater_than", value: 18 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
-    { ruleCode: "FD_ANNUAL_ALL", ruleName: "Fire Door Annual Inspection", documentType: "FD", description: "All fire doors require annual inspection", legislation: "Fire Safety (England) Regulations 2022", conditions: [{ field: "hasFireDoors", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
-    { ruleCode: "FA_ANNUAL_SERVICE", ruleName: "Fire Alarm Annual Service", documentType: "FA", description: "Fire alarm systems require annual service under BS 5839", legislation: "BS 5839-1", conditions: [{ field: "hasFireAlarm", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
-    { ruleCode: "FA_WEEKLY_TEST", ruleName: "Fire Alarm Weekly Test", documentType: "FA_W", description: "Fire alarm call points require weekly testing", legislation: "BS 5839-1", conditions: [{ field: "hasFireAlarm", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
-    { ruleCode: "SD_ANNUAL_TEST", ruleName: "Smoke Detector Annual Test", documentType: "SD", description: "Smoke detectors require annual testing and 10-year replacement", legislation: "Smoke and Carbon Monoxide Alarm (Amendment) Regulations 2022", conditions: [{ field: "hasSmokeDetectors", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
-    { ruleCode: "CO_ANNUAL_TEST", ruleName: "CO Detector Annual Test", documentType: "CO", description: "CO detectors required in all properties with combustion appliances", legislation: "Smoke and Carbon Monoxide Alarm (Amendment) Regulations 2022", conditions: [{ field: "hasCombustionAppliance", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
-    { ruleCode: "SPRINK_ANNUAL_LPCB", ruleName: "Sprinkler Annual Inspection", documentType: "SPRINK", description: "Sprinkler systems require annual inspection by LPCB contractor", legislation: "BS EN 12845", conditions: [{ field: "hasSprinklers", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
-    { ruleCode: "AOV_WEEKLY_TEST", ruleName: "AOV Weekly Function Test", documentType: "AOV", description: "AOV smoke ventilation requires weekly function testing", legislation: "BS EN 12101-2", conditions: [{ field: "hasAOV", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
-    { ruleCode: "EXT_ANNUAL_SERVICE", ruleName: "Fire Extinguisher Annual Service", documentType: "EXT", description: "Fire extinguishers require annual service by BAFE contractor", legislation: "BS 5306-3", conditions: [{ field: "hasExtinguishers", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
-    { ruleCode: "FRAEW_HRB_REQUIRED", ruleName: "FRAEW/EWS1 Required for HRBs", documentType: "FRAEW", description: "Buildings over 18m require external wall fire risk appraisal", legislation: "Building Safety Act 2022", conditions: [{ field: "buildingHeight", operator: "greater_than", value: 18 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
+    { ruleCode: "FD_QUARTERLY_HRB", ruleName: "Fire Door Quarterly Inspection - HRBs", documentType: "FD_Q", description: "High-rise buildings require quarterly fire door inspections", legislation: "Fire Safety (England) Regulations 2022", conditions: [{ field: "buildingHeight", operator: "greater_than", value: 18 }, { field: "certificates.FD_Q", operator: "missing", withinMonths: 3 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
+    { ruleCode: "FD_ANNUAL_ALL", ruleName: "Fire Door Annual Inspection", documentType: "FD", description: "All fire doors require annual inspection", legislation: "Fire Safety (England) Regulations 2022", conditions: [{ field: "hasFireDoors", operator: "equals", value: true }, { field: "certificates.FD", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
+    { ruleCode: "FA_ANNUAL_SERVICE", ruleName: "Fire Alarm Annual Service", documentType: "FA", description: "Fire alarm systems require annual service under BS 5839", legislation: "BS 5839-1", conditions: [{ field: "hasFireAlarm", operator: "equals", value: true }, { field: "certificates.FA", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
+    { ruleCode: "FA_WEEKLY_TEST", ruleName: "Fire Alarm Weekly Test", documentType: "FA_W", description: "Fire alarm call points require weekly testing", legislation: "BS 5839-1", conditions: [{ field: "hasFireAlarm", operator: "equals", value: true }, { field: "certificates.FA_W", operator: "missing", withinDays: 7 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
+    { ruleCode: "SD_ANNUAL_TEST", ruleName: "Smoke Detector Annual Test", documentType: "SD", description: "Smoke detectors require annual testing and 10-year replacement", legislation: "Smoke and Carbon Monoxide Alarm (Amendment) Regulations 2022", conditions: [{ field: "hasSmokeDetectors", operator: "equals", value: true }, { field: "certificates.SD", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
+    { ruleCode: "CO_ANNUAL_TEST", ruleName: "CO Detector Annual Test", documentType: "CO", description: "CO detectors required in all properties with combustion appliances", legislation: "Smoke and Carbon Monoxide Alarm (Amendment) Regulations 2022", conditions: [{ field: "hasCombustionAppliance", operator: "equals", value: true }, { field: "certificates.CO", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
+    { ruleCode: "SPRINK_ANNUAL_LPCB", ruleName: "Sprinkler Annual Inspection", documentType: "SPRINK", description: "Sprinkler systems require annual inspection by LPCB contractor", legislation: "BS EN 12845", conditions: [{ field: "hasSprinklers", operator: "equals", value: true }, { field: "certificates.SPRINK", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
+    { ruleCode: "AOV_WEEKLY_TEST", ruleName: "AOV Weekly Function Test", documentType: "AOV", description: "AOV smoke ventilation requires weekly function testing", legislation: "BS EN 12101-2", conditions: [{ field: "hasAOV", operator: "equals", value: true }, { field: "certificates.AOV", operator: "missing", withinDays: 7 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
+    { ruleCode: "EXT_ANNUAL_SERVICE", ruleName: "Fire Extinguisher Annual Service", documentType: "EXT", description: "Fire extinguishers require annual service by BAFE contractor", legislation: "BS 5306-3", conditions: [{ field: "hasExtinguishers", operator: "equals", value: true }, { field: "certificates.EXT", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
+    { ruleCode: "FRAEW_HRB_REQUIRED", ruleName: "FRAEW/EWS1 Required for HRBs", documentType: "FRAEW", description: "Buildings over 18m require external wall fire risk appraisal", legislation: "Building Safety Act 2022", conditions: [{ field: "buildingHeight", operator: "greater_than", value: 18 }, { field: "certificates.FRAEW", operator: "missing" }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
     
     // ========== ASBESTOS RULES ==========
-    { ruleCode: "ASB_MANAGEMENT_PLAN", ruleName: "Asbestos Management Plan Required", documentType: "ASB", description: "Buildings with ACMs must have management plan under CAR 2012", legislation: "Control of Asbestos Regulations 2012", conditions: [{ field: "hasAsbestos", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
+    { ruleCode: "ASB_MANAGEMENT_PLAN", ruleName: "Asbestos Management Plan Required", documentType: "ASB", description: "Buildings with ACMs must have management plan under CAR 2012", legislation: "Control of Asbestos Regulations 2012", conditions: [{ field: "hasAsbestos", operator: "equals", value: true }, { field: "certificates.ASB", operator: "missing" }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
     { ruleCode: "ASB_ANNUAL_REINSPECT", ruleName: "ACM Annual Reinspection", documentType: "ASB_R", description: "ACMs require annual condition reinspection", legislation: "Control of Asbestos Regulations 2012", conditions: [{ field: "acmCount", operator: "greater_than", value: 0 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
     { ruleCode: "ASB_HIGH_RISK_ACTION", ruleName: "High Risk ACM - Immediate Action", documentType: "ASB", description: "High-risk ACMs require immediate management action", legislation: "Control of Asbestos Regulations 2012", conditions: [{ field: "riskScore", operator: "greater_than", value: 10 }], conditionLogic: "AND", action: "AUTO_FAIL", priority: "P1", isActive: true },
     
@@ -1672,14 +1672,14 @@ export async function seedConfiguration(): Promise<SeedResult[]> {
     { ruleCode: "LEG_2YEAR_ASSESSMENT", ruleName: "Legionella Risk Assessment 2-Year", documentType: "LEG", description: "Legionella risk assessment required every 2 years under ACOP L8", legislation: "HSE ACOP L8", conditions: [{ field: "expiryDays", operator: "less_than", value: 90 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
     { ruleCode: "LEG_MONTHLY_MONITOR", ruleName: "Legionella Monthly Monitoring", documentType: "LEG_M", description: "Monthly temperature monitoring required for water systems", legislation: "HSE ACOP L8", conditions: [{ field: "lastMonitoringDays", operator: "greater_than", value: 35 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
     { ruleCode: "LEG_TEMP_COMPLIANCE", ruleName: "Water Temperature Compliance", documentType: "LEG_M", description: "Hot water must be stored at 60°C, delivered at 50°C within 1 minute", legislation: "HSE ACOP L8", conditions: [{ field: "temperatureNonCompliant", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
-    { ruleCode: "TMV_ANNUAL_SERVICE", ruleName: "TMV Annual Service", documentType: "TMV", description: "Thermostatic mixing valves require annual servicing", legislation: "HSE ACOP L8", conditions: [{ field: "hasTMVs", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
+    { ruleCode: "TMV_ANNUAL_SERVICE", ruleName: "TMV Annual Service", documentType: "TMV", description: "Thermostatic mixing valves require annual servicing", legislation: "HSE ACOP L8", conditions: [{ field: "hasTMVs", operator: "equals", value: true }, { field: "certificates.TMV", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
     
     // ========== LIFTING EQUIPMENT RULES ==========
-    { ruleCode: "LIFT_6MONTH_LOLER", ruleName: "Lift 6-Monthly LOLER Examination", documentType: "LIFT", description: "Passenger lifts require thorough examination every 6 months", legislation: "LOLER 1998", conditions: [{ field: "hasLift", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
-    { ruleCode: "LIFT_MONTHLY_MAINT", ruleName: "Lift Monthly Maintenance", documentType: "LIFT_M", description: "Lifts require monthly maintenance visits", legislation: "LOLER 1998", conditions: [{ field: "hasLift", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
+    { ruleCode: "LIFT_6MONTH_LOLER", ruleName: "Lift 6-Monthly LOLER Examination", documentType: "LIFT", description: "Passenger lifts require thorough examination every 6 months", legislation: "LOLER 1998", conditions: [{ field: "hasLift", operator: "equals", value: true }, { field: "certificates.LIFT", operator: "missing", withinMonths: 6 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
+    { ruleCode: "LIFT_MONTHLY_MAINT", ruleName: "Lift Monthly Maintenance", documentType: "LIFT_M", description: "Lifts require monthly maintenance visits", legislation: "LOLER 1998", conditions: [{ field: "hasLift", operator: "equals", value: true }, { field: "certificates.LIFT_M", operator: "missing", withinMonths: 1 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
     { ruleCode: "LIFT_DEFECT_ISOLATE", ruleName: "Dangerous Lift Defect - Isolate", documentType: "LIFT", description: "Dangerous lift defects require immediate isolation", legislation: "LOLER 1998", conditions: [{ field: "safeForUse", operator: "equals", value: false }], conditionLogic: "AND", action: "AUTO_FAIL", priority: "P1", isActive: true },
-    { ruleCode: "STAIR_6MONTH_LOLER", ruleName: "Stairlift 6-Monthly LOLER", documentType: "STAIR", description: "Stairlifts require thorough examination every 6 months", legislation: "LOLER 1998", conditions: [{ field: "hasStairlift", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
-    { ruleCode: "HOIST_6MONTH_LOLER", ruleName: "Hoist 6-Monthly LOLER", documentType: "HOIST", description: "Ceiling and mobile hoists require 6-monthly examination", legislation: "LOLER 1998", conditions: [{ field: "hasHoist", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
+    { ruleCode: "STAIR_6MONTH_LOLER", ruleName: "Stairlift 6-Monthly LOLER", documentType: "STAIR", description: "Stairlifts require thorough examination every 6 months", legislation: "LOLER 1998", conditions: [{ field: "hasStairlift", operator: "equals", value: true }, { field: "certificates.STAIR", operator: "missing", withinMonths: 6 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
+    { ruleCode: "HOIST_6MONTH_LOLER", ruleName: "Hoist 6-Monthly LOLER", documentType: "HOIST", description: "Ceiling and mobile hoists require 6-monthly examination", legislation: "LOLER 1998", conditions: [{ field: "hasHoist", operator: "equals", value: true }, { field: "certificates.HOIST", operator: "missing", withinMonths: 6 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
     
     // ========== BUILDING SAFETY RULES ==========
     { ruleCode: "HHSRS_CAT1_ACTION", ruleName: "HHSRS Category 1 Hazard", documentType: "HHSRS", description: "Category 1 hazards require local authority enforcement action", legislation: "Housing Act 2004", conditions: [{ field: "category1Hazards", operator: "greater_than", value: 0 }], conditionLogic: "AND", action: "AUTO_FAIL", priority: "P1", isActive: true },
@@ -1687,15 +1687,15 @@ export async function seedConfiguration(): Promise<SeedResult[]> {
     { ruleCode: "STRUCT_5YEAR_SURVEY", ruleName: "Structural Survey 5-Year Cycle", documentType: "STRUCT", description: "Structural surveys recommended on 5-year cycle", legislation: "Building Safety Act 2022", conditions: [{ field: "expiryDays", operator: "less_than", value: 180 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
     
     // ========== EXTERNAL AREAS RULES ==========
-    { ruleCode: "PLAY_ANNUAL_BSEN1176", ruleName: "Playground Annual Inspection", documentType: "PLAY", description: "Playgrounds require annual main inspection under BS EN 1176", legislation: "BS EN 1176", conditions: [{ field: "hasPlayground", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
+    { ruleCode: "PLAY_ANNUAL_BSEN1176", ruleName: "Playground Annual Inspection", documentType: "PLAY", description: "Playgrounds require annual main inspection under BS EN 1176", legislation: "BS EN 1176", conditions: [{ field: "hasPlayground", operator: "equals", value: true }, { field: "certificates.PLAY", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
     { ruleCode: "PLAY_HIGH_RISK_CLOSE", ruleName: "High Risk Equipment - Close Immediately", documentType: "PLAY", description: "High/very high risk playground equipment must be closed", legislation: "BS EN 1176", conditions: [{ field: "overallRisk", operator: "in", value: ["HIGH", "VERY_HIGH"] }], conditionLogic: "AND", action: "AUTO_FAIL", priority: "P1", isActive: true },
     { ruleCode: "TREE_URGENT_WORKS", ruleName: "Tree Urgent Works Required", documentType: "TREE", description: "Trees requiring urgent works must be addressed within 7 days", legislation: "Occupiers Liability Act", conditions: [{ field: "urgentWorksCount", operator: "greater_than", value: 0 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
     
     // ========== HRB SPECIFIC RULES ==========
-    { ruleCode: "SIB_ANNUAL_HRB", ruleName: "Secure Info Box Annual Inspection", documentType: "SIB", description: "HRBs require annual secure information box inspection", legislation: "Building Safety Act 2022", conditions: [{ field: "isHRB", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
-    { ruleCode: "SC_2YEAR_REVIEW", ruleName: "Building Safety Case 2-Year Review", documentType: "SC", description: "Building Safety Cases require review every 2 years", legislation: "Building Safety Act 2022", conditions: [{ field: "isHRB", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
-    { ruleCode: "PEEP_ANNUAL_REVIEW", ruleName: "PEEP Annual Review", documentType: "PEEP", description: "Personal Emergency Evacuation Plans require annual review", legislation: "Building Safety Act 2022", conditions: [{ field: "hasVulnerableOccupants", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
-    { ruleCode: "BEEP_ANNUAL_REVIEW", ruleName: "BEEP Annual Review", documentType: "BEEP", description: "Building Emergency Evacuation Plans require annual review", legislation: "Regulatory Reform (Fire Safety) Order 2005", conditions: [{ field: "hasCommunalAreas", operator: "equals", value: true }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true }
+    { ruleCode: "SIB_ANNUAL_HRB", ruleName: "Secure Info Box Annual Inspection", documentType: "SIB", description: "HRBs require annual secure information box inspection", legislation: "Building Safety Act 2022", conditions: [{ field: "isHRB", operator: "equals", value: true }, { field: "certificates.SIB", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
+    { ruleCode: "SC_2YEAR_REVIEW", ruleName: "Building Safety Case 2-Year Review", documentType: "SC", description: "Building Safety Cases require review every 2 years", legislation: "Building Safety Act 2022", conditions: [{ field: "isHRB", operator: "equals", value: true }, { field: "certificates.SC", operator: "missing", withinMonths: 24 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P1", isActive: true },
+    { ruleCode: "PEEP_ANNUAL_REVIEW", ruleName: "PEEP Annual Review", documentType: "PEEP", description: "Personal Emergency Evacuation Plans require annual review", legislation: "Building Safety Act 2022", conditions: [{ field: "hasVulnerableOccupants", operator: "equals", value: true }, { field: "certificates.PEEP", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true },
+    { ruleCode: "BEEP_ANNUAL_REVIEW", ruleName: "BEEP Annual Review", documentType: "BEEP", description: "Building Emergency Evacuation Plans require annual review", legislation: "Regulatory Reform (Fire Safety) Order 2005", conditions: [{ field: "hasCommunalAreas", operator: "equals", value: true }, { field: "certificates.BEEP", operator: "missing", withinMonths: 12 }], conditionLogic: "AND", action: "FLAG_URGENT", priority: "P2", isActive: true }
   ];
   
   try {
@@ -2072,6 +2072,46 @@ async function seedFactorySettings() {
       valueType: "json",
       isEditable: true
     },
+    {
+      key: "EXTRACTION_BENCHMARK_GATING",
+      value: JSON.stringify({
+        minOverallScore: 0.8,
+        minSchemaValidRate: 0.9,
+        maxScoreDrop: 0.02,
+        maxFieldRegressions: 0,
+        requireBenchmarkForActivation: false
+      }),
+      category: "AI",
+      description: "Benchmark thresholds an eval run must meet before an extraction schema version can be activated (JSON)",
+      valueType: "json",
+      isEditable: true
+    },
+    {
+      key: "EXTRACTION_SHADOW_ROLLOUT",
+      value: JSON.stringify({
+        defaultPercentage: 10,
+        minShadowSamples: 20,
+        maxDisagreementRate: 0.1,
+        requirePassingBenchmark: true
+      }),
+      category: "AI",
+      description: "Shadow-mode sampling for candidate extraction schemas and the disagreement/benchmark thresholds for promotion (JSON)",
+      valueType: "json",
+      isEditable: true
+    },
+    {
+      key: "AUTO_APPROVAL_POLICY",
+      value: JSON.stringify({
+        windowDays: 90,
+        minAccuracy: 0.98,
+        auditSamplePercentage: 10,
+        requiredFields: ["inspection.certificate_number", "inspection.date", "inspection.next_due_date", "inspection.outcome", "property.address_line_1"]
+      }),
+      category: "AI",
+      description: "Rolling review window, accuracy needed to enable auto-approval thresholds, required fields and the share of auto-approved runs still sent to human review (JSON)",
+      valueType: "json",
+      isEditable: true
+    },
     // Job Queue Settings
     {
       key: "JOB_RETRY_LIMIT",
@@ -2109,6 +2149,15 @@ async function seedFactorySettings() {
       isEditable: true,
       validationRules: { min: 7, max: 365 }
     },
+    {
+      key: "CONTRACTOR_SLA_SWEEP_INTERVAL_MINUTES",
+      value: "15",
+      category: "JOB_QUEUE",
+      description: "Interval in minutes between contractor SLA checks on open assignments",
+      valueType: "number",
+      isEditable: true,
+      validationRules: { min: 5, max: 60 }
+    },
     {
       key: "CERTIFICATE_PROCESSING_TIMEOUT_MINUTES",
       value: "20",
@@ -2127,6 +2176,99 @@ async function seedFactorySettings() {
       isEditable: true,
       validationRules: { min: 1, max: 30 }
     },
+    // Regulatory Settings
+    {
+      key: "AWAABS_LAW_TIMEFRAMES",
+      value: JSON.stringify({
+        emergency: { initialInspectionHours: 24, worksStartHours: 24, worksCompletionHours: 24 },
+        significant: { initialInspectionWorkingDays: 10, worksStartWorkingDays: 8, worksCompletionDays: 84 },
+        standard: { initialInspectionWorkingDays: 20, worksStartWorkingDays: 20, worksCompletionDays: 90 },
+        statutoryCategories: ["DAMP", "MOULD", "CONDENSATION", "WATER_INGRESS", "VENTILATION", "HHSRS_CATEGORY_1"],
+        vulnerableOccupantUplift: true,
+        escalationStepHours: 48,
+        maxEscalationLevel: 3
+      }),
+      category: "REGULATORY",
+      description: "Awaab's Law statutory timeframes for hazard cases (JSON). Update as the regulations are amended.",
+      valueType: "json",
+      isEditable: true
+    },
+    {
+      key: "BSA_MOR_TIMEFRAMES",
+      value: JSON.stringify({
+        deadlineHours: {
+          STRUCTURAL_FAILURE: 240,
+          FIRE_SPREAD: 240,
+          FIRE_SAFETY_SYSTEM_FAILURE: 240,
+          COMPARTMENTATION_FAILURE: 240,
+          OTHER_SAFETY_OCCURRENCE: 240
+        },
+        defaultDeadlineHours: 240,
+        alertLeadHours: [120, 48, 24]
+      }),
+      category: "REGULATORY",
+      description: "Building Safety Act mandatory occurrence reporting deadlines by occurrence type, and alert lead times (JSON, hours)",
+      valueType: "json",
+      isEditable: true
+    },
+    {
+      key: "HRB_READINESS_CHECKLIST",
+      value: JSON.stringify({
+        checks: [
+          "ACCOUNTABLE_PERSON",
+          "SAFETY_CASE",
+          "EVACUATION_STRATEGY",
+          "KEY_BUILDING_INFO",
+          "CLADDING_MITIGATION",
+          "RESIDENT_ENGAGEMENT",
+          "BUILDING_ASSURANCE_CERTIFICATE"
+        ],
+        evacuationStrategyReviewMonths: 12,
+        residentEngagementReviewMonths: 24,
+        dueSoonDays: 30
+      }),
+      category: "REGULATORY",
+      description: "Checks scored for higher-risk building readiness, review intervals (months) and due-soon window (days) (JSON)",
+      valueType: "json",
+      isEditable: true
+    },
+    {
+      key: "AWAABS_LAW_CLOCK_INTERVAL_MINUTES",
+      value: "15",
+      category: "REGULATORY",
+      description: "Interval in minutes between Awaab's Law clock checks on open hazard cases",
+      valueType: "number",
+      isEditable: true,
+      validationRules: { min: 5, max: 60 }
+    },
+    // Report Delivery Settings
+    {
+      key: "REPORT_EMAIL_MAX_ATTACHMENT_MB",
+      value: "10",
+      category: "REPORTING",
+      description: "Largest generated report (MB) sent as an email attachment; larger reports are sent as a signed download link",
+      valueType: "number",
+      isEditable: true,
+      validationRules: { min: 0, max: 25 }
+    },
+    {
+      key: "REPORT_EMAIL_LINK_TTL_HOURS",
+      value: "72",
+      category: "REPORTING",
+      description: "Hours before a signed report download link in a report email expires",
+      valueType: "number",
+      isEditable: true,
+      validationRules: { min: 1, max: 168 }
+    },
+    {
+      key: "REPORT_EXPORT_RETENTION_HOURS",
+      value: "24",
+      category: "REPORTING",
+      description: "Hours a completed report export file is kept available for download",
+      valueType: "number",
+      isEditable: true,
+      validationRules: { min: 1, max: 720 }
+    },
     // Rate Limit Timing Settings
     {
       key: "RATE_LIMIT_WINDOW_MS",
@@ -2,7 +2,7 @@ import Anthropic from "@anthropic-ai/sdk";
 import { logger } from '../logger';
 import { db } from '../db';
 import { properties, certificates, remedialActions, blocks, schemes, components, componentTypes, chatbotConversations, chatbotMessages, chatbotAnalytics, knowledgeEmbeddings } from '@shared/schema';
-import { count, ilike, or, eq, and, isNull, isNotNull, lt, desc, sql, gte, lte } from 'drizzle-orm';
+import { count, ilike, or, eq, and, isNull, isNotNull, lt, desc, sql, gte, lte, inArray } from 'drizzle-orm';
 import { memoryCache } from './cache-admin';
 import { getQueueStats, getScheduledJobsStatus, type ScheduledJobInfo } from '../job-queue';
 
@@ -1526,8 +1526,33 @@ function findCachedResponse(query: string): string | null {
   return null;
 }
 
+// =============================================================================
+// TENANT SCOPING
+// Every Layer 2 answer is limited to the asking user's organisation
+// =============================================================================
+
+export interface AssistantUserContext {
+  organisationId: string;
+  role: string;
+}
+
+const SYSTEM_STATUS_ROLES = ['LASHAN_SUPER_USER', 'SUPER_ADMIN', 'SYSTEM_ADMIN', 'ADMIN'];
+
+function canViewSystemStatus(role: string): boolean {
+  return SYSTEM_STATUS_ROLES.includes(role.toUpperCase());
+}
+
+// Properties, blocks and components have no organisation column - ownership runs through the scheme
+function organisationBlockIds(organisationId: string) {
+  return db
+    .select({ id: blocks.id })
+    .from(blocks)
+    .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
+    .where(eq(schemes.organisationId, organisationId));
+}
+
 // Get certificates pending review with links
-async function getCertificatesPendingReview(): Promise<string> {
+async function getCertificatesPendingReview(organisationId: string): Promise<string> {
   try {
     const pendingCerts = await db
       .select({
@@ -1536,7 +1561,10 @@ async function getCertificatesPendingReview(): Promise<string> {
         status: certificates.status,
       })
       .from(certificates)
-      .where(eq(certificates.status, 'NEEDS_REVIEW'));
+      .where(and(
+        eq(certificates.organisationId, organisationId),
+        eq(certificates.status, 'NEEDS_REVIEW')
+      ));
     
     if (pendingCerts.length === 0) {
       return `**No certificates pending review!**\nAll certificates have been reviewed. [View all certificates](/certificates) | [Remedial Actions](/actions)`;
@@ -1579,7 +1607,7 @@ async function getCertificatesPendingReview(): Promise<string> {
 }
 
 // Get certificates expiring soon for chatbot
-async function getCertificatesExpiringSoonForChat(): Promise<string> {
+async function getCertificatesExpiringSoonForChat(organisationId: string): Promise<string> {
   try {
     const now = new Date();
     const thirtyDaysFromNow = new Date(now);
@@ -1597,7 +1625,8 @@ async function getCertificatesExpiringSoonForChat(): Promise<string> {
         p.postcode as "propertyPostcode"
       FROM certificates c
       LEFT JOIN properties p ON c.property_id = p.id
-      WHERE c.expiry_date IS NOT NULL
+      WHERE c.organisation_id = ${organisationId}
+        AND c.expiry_date IS NOT NULL
         AND c.expiry_date ~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}'
         AND c.expiry_date::date >= ${now.toISOString().split('T')[0]}::date
         AND c.expiry_date::date <= ${thirtyDaysFromNow.toISOString().split('T')[0]}::date
@@ -1670,7 +1699,7 @@ async function getCertificatesExpiringSoonForChat(): Promise<string> {
 }
 
 // Get certificates that are already expired (past their expiry date)
-async function getExpiredCertificatesForChat(): Promise<string> {
+async function getExpiredCertificatesForChat(organisationId: string): Promise<string> {
   try {
     const now = new Date();
     const todayStr = now.toISOString().split('T')[0];
@@ -1686,7 +1715,8 @@ async function getExpiredCertificatesForChat(): Promise<string> {
         p.postcode as "propertyPostcode"
       FROM certificates c
       LEFT JOIN properties p ON c.property_id = p.id
-      WHERE c.expiry_date IS NOT NULL
+      WHERE c.organisation_id = ${organisationId}
+        AND c.expiry_date IS NOT NULL
         AND c.expiry_date ~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}'
         AND c.expiry_date::date < ${todayStr}::date
       ORDER BY c.expiry_date::date DESC
@@ -1794,10 +1824,14 @@ function detectComponentType(query: string): string | null {
 }
 
 // Get components needing attention
-async function getComponentsNeedingAttention(typeFilter?: string | null): Promise<string> {
+async function getComponentsNeedingAttention(organisationId: string, typeFilter?: string | null): Promise<string> {
   try {
     const today = new Date().toISOString().split('T')[0];
     const typeLabel = typeFilter ? `${typeFilter}s` : 'Components';
+    const inOrganisation = inArray(
+      sql`coalesce(${components.blockId}, ${properties.blockId})`,
+      organisationBlockIds(organisationId)
+    );
     
     // First check if there are ANY components of this type
     if (typeFilter) {
@@ -1805,6 +1839,8 @@ async function getComponentsNeedingAttention(typeFilter?: string | null): Promis
         .select({ id: components.id, componentTypeName: componentTypes.name })
         .from(components)
         .leftJoin(componentTypes, eq(components.componentTypeId, componentTypes.id))
+        .leftJoin(properties, eq(components.propertyId, properties.id))
+        .where(inOrganisation)
         .limit(50);
       
       const filterLower = typeFilter.toLowerCase();
@@ -1834,9 +1870,12 @@ async function getComponentsNeedingAttention(typeFilter?: string | null): Promis
       .leftJoin(componentTypes, eq(components.componentTypeId, componentTypes.id))
       .leftJoin(properties, eq(components.propertyId, properties.id))
       .where(
-        or(
-          lt(components.nextInspectionDue, today),
-          isNull(components.nextInspectionDue)
+        and(
+          inOrganisation,
+          or(
+            lt(components.nextInspectionDue, today),
+            isNull(components.nextInspectionDue)
+          )
         )
       )
       .orderBy(components.nextInspectionDue)
@@ -1886,7 +1925,7 @@ function shortenAddress(addr: string | null): string {
 }
 
 // Get overdue remedial actions with links to properties
-async function getOverdueActionsForChat(): Promise<string> {
+async function getOverdueActionsForChat(organisationId: string): Promise<string> {
   try {
     const now = new Date();
     const todayStr = now.toISOString().split('T')[0];
@@ -1905,8 +1944,9 @@ async function getOverdueActionsForChat(): Promise<string> {
         c.certificate_type as "certificateType"
       FROM remedial_actions ra
       LEFT JOIN properties p ON ra.property_id = p.id
-      LEFT JOIN certificates c ON ra.certificate_id = c.id
-      WHERE ra.status = 'OPEN'
+      INNER JOIN certificates c ON ra.certificate_id = c.id
+      WHERE c.organisation_id = ${organisationId}
+        AND ra.status = 'OPEN'
         AND ra.due_date IS NOT NULL
         AND ra.due_date::date < ${todayStr}::date
       ORDER BY ra.due_date::date ASC
@@ -1967,7 +2007,7 @@ async function getOverdueActionsForChat(): Promise<string> {
 }
 
 // Get properties with compliance issues
-async function getPropertiesWithIssues(): Promise<string> {
+async function getPropertiesWithIssues(organisationId: string): Promise<string> {
   try {
     // Get non-compliant properties
     const nonCompliantProps = await db
@@ -1981,7 +2021,10 @@ async function getPropertiesWithIssues(): Promise<string> {
       })
       .from(properties)
       .leftJoin(blocks, eq(properties.blockId, blocks.id))
-      .where(eq(properties.complianceStatus, 'NON_COMPLIANT'))
+      .where(and(
+        inArray(properties.blockId, organisationBlockIds(organisationId)),
+        eq(properties.complianceStatus, 'NON_COMPLIANT')
+      ))
       .limit(10);
     
     // Get properties with pending actions
@@ -1991,7 +2034,11 @@ async function getPropertiesWithIssues(): Promise<string> {
         actionCount: count(),
       })
       .from(remedialActions)
-      .where(eq(remedialActions.status, 'OPEN'))
+      .innerJoin(certificates, eq(remedialActions.certificateId, certificates.id))
+      .where(and(
+        eq(certificates.organisationId, organisationId),
+        eq(remedialActions.status, 'OPEN')
+      ))
       .groupBy(remedialActions.propertyId)
       .orderBy(count())
       .limit(5);
@@ -2045,7 +2092,7 @@ async function getPropertiesWithIssues(): Promise<string> {
 }
 
 // Search for properties by name/address or compliance status
-async function searchProperties(query: string): Promise<string | null> {
+async function searchProperties(query: string, context: AssistantUserContext): Promise<string | null> {
   const searchTerms = query.toLowerCase();
   
   // Skip if query is too short or looks like general chat
@@ -2068,7 +2115,7 @@ async function searchProperties(query: string): Promise<string | null> {
     searchTerms.includes('show') || searchTerms.includes('find') || searchTerms.includes('check')) && hasComponentContext;
   
   if (wantsComponentAttention) {
-    return await getComponentsNeedingAttention(detectedType);
+    return await getComponentsNeedingAttention(context.organisationId, detectedType);
   }
   
   // Check for overdue remedial actions queries
@@ -2078,7 +2125,7 @@ async function searchProperties(query: string): Promise<string | null> {
     searchTerms.includes('late') || searchTerms.includes('missed')) && hasActionContext;
   
   if (wantsOverdueActions) {
-    return await getOverdueActionsForChat();
+    return await getOverdueActionsForChat(context.organisationId);
   }
   
   // Check for pending certificates queries
@@ -2087,7 +2134,7 @@ async function searchProperties(query: string): Promise<string | null> {
     (searchTerms.includes('certificate') || searchTerms.includes('cert'));
   
   if (wantsPendingCerts) {
-    return await getCertificatesPendingReview();
+    return await getCertificatesPendingReview(context.organisationId);
   }
   
   // Check for expiring certificates queries - specifically about certificates, not properties
@@ -2105,7 +2152,7 @@ async function searchProperties(query: string): Promise<string | null> {
     searchTerms.includes('lapsed') || searchTerms.includes('already expired')) && hasCertContext;
   
   if (wantsAlreadyExpired) {
-    return await getExpiredCertificatesForChat();
+    return await getExpiredCertificatesForChat(context.organisationId);
   }
   
   // "expiry" with "all" suggests they want both, default to expiring soon
@@ -2116,7 +2163,7 @@ async function searchProperties(query: string): Promise<string | null> {
     searchTerms.includes('next month')) && hasCertContext;
   
   if (wantsExpiringCerts) {
-    return await getCertificatesExpiringSoonForChat();
+    return await getCertificatesExpiringSoonForChat(context.organisationId);
   }
   
   // Check for compliance-based queries first - must include property-related terms
@@ -2129,7 +2176,7 @@ async function searchProperties(query: string): Promise<string | null> {
   const wantsExpiring = (searchTerms.includes('expir') || searchTerms.includes('due soon')) && hasPropertyContext;
   
   if (wantsNonCompliant || wantsExpiring) {
-    return await getPropertiesWithIssues();
+    return await getPropertiesWithIssues(context.organisationId);
   }
   
   // Check if this looks like a property search - need explicit property context
@@ -2169,12 +2216,15 @@ async function searchProperties(query: string): Promise<string | null> {
       .leftJoin(blocks, eq(properties.blockId, blocks.id))
       .leftJoin(schemes, eq(blocks.schemeId, schemes.id))
       .where(
-        or(
-          ilike(properties.addressLine1, `%${cleanQuery}%`),
-          ilike(properties.addressLine2, `%${cleanQuery}%`),
-          ilike(properties.city, `%${cleanQuery}%`),
-          ilike(properties.postcode, `%${cleanQuery}%`),
-          ilike(blocks.name, `%${cleanQuery}%`)
+        and(
+          eq(schemes.organisationId, context.organisationId),
+          or(
+            ilike(properties.addressLine1, `%${cleanQuery}%`),
+            ilike(properties.addressLine2, `%${cleanQuery}%`),
+            ilike(properties.city, `%${cleanQuery}%`),
+            ilike(properties.postcode, `%${cleanQuery}%`),
+            ilike(blocks.name, `%${cleanQuery}%`)
+          )
         )
       )
       .limit(5);
@@ -2259,7 +2309,7 @@ ${p.epcRating ? `- EPC Rating: ${p.epcRating}` : ''}
 // Handles "What's due this week?" style queries
 // =============================================================================
 
-async function handleCalendarQuery(query: string): Promise<string | null> {
+async function handleCalendarQuery(query: string, context: AssistantUserContext): Promise<string | null> {
   const searchTerms = query.toLowerCase();
   
   try {
@@ -2295,6 +2345,7 @@ async function handleCalendarQuery(query: string): Promise<string | null> {
       .leftJoin(properties, eq(certificates.propertyId, properties.id))
       .where(
         and(
+          eq(certificates.organisationId, context.organisationId),
           isNotNull(certificates.expiryDate),
           sql`${certificates.expiryDate} >= ${now.toISOString()}`,
           sql`${certificates.expiryDate} <= ${futureDate.toISOString()}`
@@ -2315,9 +2366,11 @@ async function handleCalendarQuery(query: string): Promise<string | null> {
         postcode: properties.postcode,
       })
       .from(remedialActions)
+      .innerJoin(certificates, eq(remedialActions.certificateId, certificates.id))
       .leftJoin(properties, eq(remedialActions.propertyId, properties.id))
       .where(
         and(
+          eq(certificates.organisationId, context.organisationId),
           eq(remedialActions.status, 'OPEN'),
           isNotNull(remedialActions.dueDate),
           sql`${remedialActions.dueDate} <= ${futureDate.toISOString()}`
@@ -2383,9 +2436,13 @@ async function handleCalendarQuery(query: string): Promise<string | null> {
 // Handles "What's the system status?" style queries for admins
 // =============================================================================
 
-async function handleSystemQuery(query: string): Promise<string | null> {
+async function handleSystemQuery(query: string, context: AssistantUserContext): Promise<string | null> {
   const searchTerms = query.toLowerCase();
   
+  if (!canViewSystemStatus(context.role)) {
+    return `**System status is only available to administrators.**\n\nAsk an administrator to check [System Health](/admin/system-health), or ask me about your properties, certificates and actions.`;
+  }
+  
   try {
     // Determine what aspect of system status user is asking about
     const wantsJobStatus = /job|scheduled|background|queue status|job queue/i.test(query);
@@ -2578,13 +2635,18 @@ export interface AssistantResponse {
   error?: string;
 }
 
-async function getComplianceContext(): Promise<string> {
+async function getComplianceContext(organisationId: string): Promise<string> {
   try {
     const [propertiesCount, certsCount, actionsCount, pendingReview] = await Promise.all([
-      db.select({ count: count() }).from(properties),
-      db.select({ count: count() }).from(certificates),
-      db.select({ count: count() }).from(remedialActions),
-      db.select({ count: count() }).from(certificates).where(eq(certificates.status, 'NEEDS_REVIEW')),
+      db.select({ count: count() }).from(properties)
+        .where(inArray(properties.blockId, organisationBlockIds(organisationId))),
+      db.select({ count: count() }).from(certificates)
+        .where(eq(certificates.organisationId, organisationId)),
+      db.select({ count: count() }).from(remedialActions)
+        .innerJoin(certificates, eq(remedialActions.certificateId, certificates.id))
+        .where(eq(certificates.organisationId, organisationId)),
+      db.select({ count: count() }).from(certificates)
+        .where(and(eq(certificates.organisationId, organisationId), eq(certificates.status, 'NEEDS_REVIEW'))),
     ]);
 
     const propCount = propertiesCount[0]?.count || 0;
@@ -2684,7 +2746,7 @@ Need help with something else?`,
 
 export async function chatWithAssistant(
   messages: ChatMessage[],
-  organisationId?: string
+  context: AssistantUserContext
 ): Promise<AssistantResponse> {
   const startTime = Date.now();
   
@@ -2789,7 +2851,7 @@ export async function chatWithAssistant(
       // Database intent should be handled by database layer, not RAG
       // ==========================================================================
       if (intent.category === 'database') {
-        const propertyResponse = await searchProperties(query);
+        const propertyResponse = await searchProperties(query, context);
         if (propertyResponse) {
           logger.info({ query: query.substring(0, 50) }, 'Serving database query response');
           const enhanced = enhanceResponse(propertyResponse, intent, askedQuestions, 'database');
@@ -2819,7 +2881,7 @@ export async function chatWithAssistant(
       // Handle calendar and schedule related queries
       // ==========================================================================
       if (intent.category === 'calendar') {
-        const calendarResponse = await handleCalendarQuery(query);
+        const calendarResponse = await handleCalendarQuery(query, context);
         if (calendarResponse) {
           logger.info({ query: query.substring(0, 50) }, 'Serving calendar query response');
           const enhanced = enhanceResponse(calendarResponse, intent, askedQuestions, 'database');
@@ -2849,7 +2911,7 @@ export async function chatWithAssistant(
       // Handle admin system monitoring queries
       // ==========================================================================
       if (intent.category === 'system') {
-        const systemResponse = await handleSystemQuery(query);
+        const systemResponse = await handleSystemQuery(query, context);
         if (systemResponse) {
           logger.info({ query: query.substring(0, 50) }, 'Serving system query response');
           const enhanced = enhanceResponse(systemResponse, intent, askedQuestions, 'database');
@@ -3022,7 +3084,7 @@ export async function chatWithAssistant(
     // ==========================================================================
     logger.info({ query: query.substring(0, 50), intent: intent.category }, 'Escalating to LLM');
     
-    const complianceContext = await getComplianceContext();
+    const complianceContext = await getComplianceContext(context.organisationId);
     const systemContent = complianceContext 
       ? `${SYSTEM_PROMPT}\n\n${complianceContext}`
       : SYSTEM_PROMPT;
@@ -3076,10 +3138,10 @@ export async function chatWithAssistant(
 
 export async function* chatWithAssistantStream(
   messages: ChatMessage[],
-  organisationId?: string
+  context: AssistantUserContext
 ): AsyncGenerator<string, void, unknown> {
   try {
-    const complianceContext = await getComplianceContext();
+    const complianceContext = await getComplianceContext(context.organisationId);
     
     const systemContent = complianceContext 
       ? `${SYSTEM_PROMPT}\n\n${complianceContext}`
@@ -0,0 +1,440 @@
+import { db } from '../db';
+import { asbestosSurveyRecords, blocks, complianceCalendarEvents, properties, schemes } from '@shared/schema';
+import type { AsbestosSurveyRecord, ComplianceCalendarEvent, ContractorAssignment, HazardCase } from '@shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { BadRequestError, NotFoundError } from '../errors';
+
+export type AsbestosRiskBand = 'HIGH' | 'MEDIUM' | 'LOW' | 'VERY_LOW';
+
+export interface AsbestosRegisterScope {
+  propertyId?: string;
+  blockId?: string;
+}
+
+/** HSG264 material assessment: product type and asbestos type score 1-3, damage and surface treatment 0-3. */
+export interface MaterialAssessment {
+  productType: number;
+  damage: number;
+  surfaceTreatment: number;
+  asbestosType: number;
+}
+
+/** HSG227 priority assessment: each factor is the 0-3 average of its sub-questions. */
+export interface PriorityAssessment {
+  occupantActivity: number;
+  likelihoodOfDisturbance: number;
+  humanExposurePotential: number;
+  maintenanceActivity: number;
+}
+
+export interface AsbestosSurveyHistoryItem {
+  recordId: string;
+  certificateId: string;
+  surveyType: string;
+  surveyDate: string;
+  condition: string | null;
+  materialScore: number | null;
+}
+
+export interface AsbestosRegisterEntry {
+  location: string;
+  materialType: string;
+  asbestosType: string | null;
+  containsAsbestos: boolean;
+  condition: string | null;
+  recommendedAction: string | null;
+  propertyId: string | null;
+  blockId: string | null;
+  componentId: string | null;
+  latestRecordId: string;
+  certificateId: string;
+  surveyType: string;
+  surveyDate: string;
+  materialScore: number | null;
+  priorityScore: number | null;
+  totalRiskScore: number | null;
+  riskBand: AsbestosRiskBand | null;
+  reinspectionDate: string | null;
+  refurbishmentSurveyed: boolean;
+  history: AsbestosSurveyHistoryItem[];
+}
+
+export interface AsbestosRegister {
+  scope: AsbestosRegisterScope;
+  generatedAt: string;
+  entries: AsbestosRegisterEntry[];
+  summary: {
+    locations: number;
+    containingAsbestos: number;
+    highRisk: number;
+    reinspectionsOverdue: number;
+  };
+}
+
+export interface AsbestosRegisterSyncResult {
+  entries: number;
+  reinspectionsScheduled: number;
+  remedialActionsCreated: number;
+}
+
+export interface RefurbishmentSurveyWarning {
+  code: 'REFURBISHMENT_SURVEY_REQUIRED';
+  message: string;
+  locations: string[];
+  materials: Array<{ location: string; materialType: string; riskBand: AsbestosRiskBand | null }>;
+}
+
+// HSG227 recommends reinspecting known and presumed ACMs at least every 12 months
+export const DEFAULT_REINSPECTION_MONTHS = 12;
+export const HIGH_RISK_REMEDIAL_CODE = 'ASBESTOS-HIGH-RISK';
+const HIGH_RISK_ACTION_DAYS = 7;
+const LEGISLATION_REFERENCE = 'Control of Asbestos Regulations 2012, Regulation 4';
+
+const NO_ASBESTOS_PATTERN = /\b(no asbestos|nadis|none detected|not detected|negative)\b/i;
+const REFURBISHMENT_SURVEY_PATTERN = /refurb|demolition/i;
+
+function normaliseKey(value: string | null | undefined): string {
+  return (value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function sumScores(values: unknown[]): number | null {
+  if (!values.every(value => typeof value === 'number' && Number.isFinite(value))) return null;
+  return (values as number[]).reduce((total, value) => total + value, 0);
+}
+
+/** HSG264 bands for a material assessment total (2-12). */
+export function materialRiskBand(score: number | null): AsbestosRiskBand | null {
+  if (score === null) return null;
+  if (score >= 10) return 'HIGH';
+  if (score >= 7) return 'MEDIUM';
+  if (score >= 5) return 'LOW';
+  return 'VERY_LOW';
+}
+
+/** Bands for the combined material and priority total (up to 24). */
+export function totalRiskBand(score: number | null): AsbestosRiskBand | null {
+  if (score === null) return null;
+  if (score >= 19) return 'HIGH';
+  if (score >= 14) return 'MEDIUM';
+  if (score >= 10) return 'LOW';
+  return 'VERY_LOW';
+}
+
+/**
+ * Works out the material, priority and total scores for a survey record. Score
+ * breakdowns in metadata take precedence over the stored totals. Only an HSG227
+ * priority assessment moves the band onto the combined total; otherwise the item
+ * is banded on its material score, so a missing priority assessment cannot
+ * downgrade a high-scoring material.
+ */
+export function assessAsbestosRecord(record: AsbestosSurveyRecord): {
+  materialScore: number | null;
+  priorityScore: number | null;
+  totalRiskScore: number | null;
+  riskBand: AsbestosRiskBand | null;
+} {
+  const metadata = (record.metadata as { materialAssessment?: Partial<MaterialAssessment>; priorityAssessment?: Partial<PriorityAssessment> } | null) ?? {};
+  const material = metadata.materialAssessment;
+  const priority = metadata.priorityAssessment;
+
+  const materialScore = (material && sumScores([material.productType, material.damage, material.surfaceTreatment, material.asbestosType]))
+    ?? record.materialScore;
+  const priorityScore = (priority && sumScores([priority.occupantActivity, priority.likelihoodOfDisturbance, priority.humanExposurePotential, priority.maintenanceActivity]))
+    ?? null;
+
+  if (materialScore !== null && priorityScore !== null) {
+    const totalRiskScore = materialScore + priorityScore;
+    return { materialScore, priorityScore, totalRiskScore, riskBand: totalRiskBand(totalRiskScore) };
+  }
+  return {
+    materialScore,
+    priorityScore,
+    totalRiskScore: record.totalRiskScore,
+    riskBand: materialRiskBand(materialScore),
+  };
+}
+
+export function recordContainsAsbestos(record: Pick<AsbestosSurveyRecord, 'labResult' | 'asbestosType'>): boolean {
+  return !NO_ASBESTOS_PATTERN.test(`${record.labResult ?? ''} ${record.asbestosType ?? ''}`);
+}
+
+function addMonths(date: string, months: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result.toISOString().slice(0, 10);
+}
+
+function compareRecordsNewestFirst(a: AsbestosSurveyRecord, b: AsbestosSurveyRecord): number {
+  if (a.surveyDate !== b.surveyDate) return a.surveyDate < b.surveyDate ? 1 : -1;
+  return b.createdAt.getTime() - a.createdAt.getTime();
+}
+
+/**
+ * Merges survey records into one register entry per location and material,
+ * taking the latest survey's findings and keeping the older ones as history.
+ */
+export function buildAsbestosRegisterEntries(records: AsbestosSurveyRecord[]): AsbestosRegisterEntry[] {
+  const byKey = new Map<string, AsbestosSurveyRecord[]>();
+  const refurbishmentSurveyedLocations = new Set<string>();
+
+  for (const record of [...records].sort(compareRecordsNewestFirst)) {
+    const key = `${normaliseKey(record.location)}|${normaliseKey(record.materialType)}`;
+    byKey.set(key, [...(byKey.get(key) ?? []), record]);
+    if (REFURBISHMENT_SURVEY_PATTERN.test(record.surveyType)) {
+      refurbishmentSurveyedLocations.add(normaliseKey(record.location));
+    }
+  }
+
+  return Array.from(byKey.values()).map(([latest, ...older]) => {
+    const containsAsbestos = recordContainsAsbestos(latest);
+    const assessment = assessAsbestosRecord(latest);
+    return {
+      location: latest.location,
+      materialType: latest.materialType,
+      asbestosType: latest.asbestosType,
+      containsAsbestos,
+      condition: latest.condition,
+      recommendedAction: latest.recommendedAction,
+      propertyId: latest.propertyId,
+      blockId: latest.blockId,
+      componentId: latest.componentId,
+      latestRecordId: latest.id,
+      certificateId: latest.certificateId,
+      surveyType: latest.surveyType,
+      surveyDate: latest.surveyDate,
+      ...assessment,
+      reinspectionDate: latest.reinspectionDate
+        ?? (containsAsbestos ? addMonths(latest.surveyDate, DEFAULT_REINSPECTION_MONTHS) : null),
+      refurbishmentSurveyed: refurbishmentSurveyedLocations.has(normaliseKey(latest.location)),
+      history: [latest, ...older].map(record => ({
+        recordId: record.id,
+        certificateId: record.certificateId,
+        surveyType: record.surveyType,
+        surveyDate: record.surveyDate,
+        condition: record.condition,
+        materialScore: record.materialScore,
+      })),
+    };
+  }).sort((a, b) => a.location.localeCompare(b.location) || a.materialType.localeCompare(b.materialType));
+}
+
+/** Confirms the property or block belongs to the organisation; returns false otherwise. */
+export async function isScopeInOrganisation(organisationId: string, scope: AsbestosRegisterScope): Promise<boolean> {
+  if (scope.propertyId) {
+    const [row] = await db.select({ organisationId: schemes.organisationId })
+      .from(properties)
+      .innerJoin(blocks, eq(properties.blockId, blocks.id))
+      .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
+      .where(eq(properties.id, scope.propertyId));
+    return row?.organisationId === organisationId;
+  }
+  if (scope.blockId) {
+    const [row] = await db.select({ organisationId: schemes.organisationId })
+      .from(blocks)
+      .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
+      .where(eq(blocks.id, scope.blockId));
+    return row?.organisationId === organisationId;
+  }
+  return false;
+}
+
+/**
+ * Reads a property or block scope from a request's query or body and confirms it belongs to
+ * the organisation. A property takes precedence when both are given.
+ */
+export async function resolveScope(organisationId: string, source: Record<string, unknown>): Promise<AsbestosRegisterScope> {
+  const propertyId = typeof source.propertyId === 'string' && source.propertyId ? source.propertyId : undefined;
+  const blockId = typeof source.blockId === 'string' && source.blockId ? source.blockId : undefined;
+  if (!propertyId && !blockId) {
+    throw new BadRequestError('propertyId or blockId is required');
+  }
+  const scope = propertyId ? { propertyId } : { blockId };
+  if (!await isScopeInOrganisation(organisationId, scope)) {
+    throw new NotFoundError(propertyId ? 'Property' : 'Block');
+  }
+  return scope;
+}
+
+async function listScopeRecords(scope: AsbestosRegisterScope): Promise<AsbestosSurveyRecord[]> {
+  if (scope.propertyId) {
+    return db.select().from(asbestosSurveyRecords).where(eq(asbestosSurveyRecords.propertyId, scope.propertyId));
+  }
+  if (scope.blockId) {
+    return db.select().from(asbestosSurveyRecords).where(eq(asbestosSurveyRecords.blockId, scope.blockId));
+  }
+  return [];
+}
+
+export async function getAsbestosRegister(scope: AsbestosRegisterScope, now: Date = new Date()): Promise<AsbestosRegister> {
+  const entries = buildAsbestosRegisterEntries(await listScopeRecords(scope));
+  const today = now.toISOString().slice(0, 10);
+  const present = entries.filter(entry => entry.containsAsbestos);
+
+  return {
+    scope,
+    generatedAt: now.toISOString(),
+    entries,
+    summary: {
+      locations: new Set(entries.map(entry => normaliseKey(entry.location))).size,
+      containingAsbestos: present.length,
+      highRisk: present.filter(entry => entry.riskBand === 'HIGH').length,
+      reinspectionsOverdue: present.filter(entry => entry.reinspectionDate !== null && entry.reinspectionDate < today).length,
+    },
+  };
+}
+
+function reinspectionTitle(entry: AsbestosRegisterEntry): string {
+  return `Asbestos reinspection: ${entry.materialType} - ${entry.location}`;
+}
+
+async function scheduleReinspection(
+  organisationId: string,
+  entry: AsbestosRegisterEntry,
+  existing: ComplianceCalendarEvent[]
+): Promise<boolean> {
+  if (!entry.reinspectionDate) return false;
+
+  const title = reinspectionTitle(entry);
+  const alreadyScheduled = existing.some(event =>
+    event.title === title
+    && event.propertyId === entry.propertyId
+    && event.startDate.toISOString().slice(0, 10) === entry.reinspectionDate
+  );
+  if (alreadyScheduled) return false;
+
+  await storage.createCalendarEvent({
+    organisationId,
+    title,
+    description: `Reinspect ${entry.materialType} at ${entry.location}${entry.blockId && !entry.propertyId ? ` (block ${entry.blockId})` : ''}. `
+      + `Last surveyed ${entry.surveyDate}${entry.riskBand ? `, risk ${entry.riskBand.replace('_', ' ').toLowerCase()}` : ''}.`,
+    eventType: 'INSPECTION',
+    startDate: new Date(`${entry.reinspectionDate}T00:00:00Z`),
+    propertyId: entry.propertyId,
+    certificateId: entry.certificateId,
+    reminderDaysBefore: 30,
+    legislationReference: LEGISLATION_REFERENCE,
+    priority: entry.riskBand === 'HIGH' ? 'HIGH' : 'MEDIUM',
+    isSystemGenerated: true,
+  });
+  return true;
+}
+
+async function raiseHighRiskAction(organisationId: string, entry: AsbestosRegisterEntry, now: Date): Promise<boolean> {
+  // Remedial actions hang off a property, so communal block items are tracked by reinspection only
+  if (!entry.propertyId) return false;
+
+  // Actions carry no link back to the register, so the item is matched on its location and
+  // the material named in the description. A completed action only covers the survey it
+  // was raised from; a later survey that still finds the item high risk raises a new one.
+  const existing = await storage.listRemedialActions(organisationId, { propertyId: entry.propertyId });
+  const alreadyRaised = existing.some(action =>
+    action.code === HIGH_RISK_REMEDIAL_CODE
+    && normaliseKey(action.location) === normaliseKey(entry.location)
+    && normaliseKey(action.description).includes(normaliseKey(entry.materialType))
+    && action.status !== 'CANCELLED'
+    && (action.status !== 'COMPLETED' || action.createdAt >= new Date(`${entry.surveyDate}T00:00:00Z`))
+  );
+  if (alreadyRaised) return false;
+
+  await storage.createRemedialAction({
+    certificateId: entry.certificateId,
+    propertyId: entry.propertyId,
+    code: HIGH_RISK_REMEDIAL_CODE,
+    category: 'ASBESTOS',
+    description: `High-risk asbestos (${entry.materialType}) at ${entry.location}: `
+      + (entry.recommendedAction ?? 'arrange encapsulation or removal by a licensed contractor'),
+    location: entry.location,
+    severity: 'URGENT',
+    status: 'OPEN',
+    dueDate: new Date(now.getTime() + HIGH_RISK_ACTION_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+  });
+  return true;
+}
+
+/**
+ * Schedules reinspections for every asbestos-containing entry and raises a
+ * remedial action for each high-risk one. Safe to run repeatedly.
+ */
+export async function syncAsbestosRegister(
+  organisationId: string,
+  scope: AsbestosRegisterScope,
+  now: Date = new Date()
+): Promise<AsbestosRegisterSyncResult> {
+  const register = await getAsbestosRegister(scope, now);
+  const existingEvents = await db.select().from(complianceCalendarEvents).where(and(
+    eq(complianceCalendarEvents.organisationId, organisationId),
+    eq(complianceCalendarEvents.eventType, 'INSPECTION'),
+    eq(complianceCalendarEvents.isSystemGenerated, true)
+  ));
+
+  const result: AsbestosRegisterSyncResult = { entries: register.entries.length, reinspectionsScheduled: 0, remedialActionsCreated: 0 };
+  for (const entry of register.entries.filter(item => item.containsAsbestos)) {
+    if (await scheduleReinspection(organisationId, entry, existingEvents)) {
+      result.reinspectionsScheduled++;
+    }
+    if (entry.riskBand === 'HIGH' && await raiseHighRiskAction(organisationId, entry, now)) {
+      result.remedialActionsCreated++;
+    }
+  }
+
+  logger.info({ organisationId, ...scope, ...result }, 'Asbestos register synchronised');
+  return result;
+}
+
+function roomsOverlap(room: string, location: string): boolean {
+  const roomKey = normaliseKey(room);
+  const locationKey = normaliseKey(location);
+  if (!roomKey || !locationKey) return false;
+  return locationKey.includes(roomKey) || roomKey.includes(locationKey);
+}
+
+/**
+ * Register entries in the given rooms that contain asbestos but have only been
+ * through a management survey, which does not cover intrusive work.
+ */
+export function findRefurbishmentSurveyGaps(entries: AsbestosRegisterEntry[], rooms: string[]): AsbestosRegisterEntry[] {
+  return entries.filter(entry =>
+    entry.containsAsbestos
+    && !entry.refurbishmentSurveyed
+    && rooms.some(room => roomsOverlap(room, entry.location))
+  );
+}
+
+export async function checkRefurbishmentSurveyRequired(
+  scope: AsbestosRegisterScope,
+  rooms: Array<string | null | undefined>
+): Promise<RefurbishmentSurveyWarning | null> {
+  const named = rooms.filter((room): room is string => typeof room === 'string' && room.trim().length > 0);
+  if (named.length === 0 || (!scope.propertyId && !scope.blockId)) return null;
+
+  const gaps = findRefurbishmentSurveyGaps(buildAsbestosRegisterEntries(await listScopeRecords(scope)), named);
+  if (gaps.length === 0) return null;
+
+  const locations = Array.from(new Set(gaps.map(entry => entry.location)));
+  return {
+    code: 'REFURBISHMENT_SURVEY_REQUIRED',
+    message: `Refurbishment/demolition survey required: the asbestos register records asbestos at ${locations.join(', ')} and no refurbishment or demolition survey covers it`,
+    locations,
+    materials: gaps.map(entry => ({ location: entry.location, materialType: entry.materialType, riskBand: entry.riskBand })),
+  };
+}
+
+/** Rooms a contractor assignment works in, from its own details or the remedial action it delivers. */
+export async function getAssignmentRooms(
+  assignment: Partial<Pick<ContractorAssignment, 'remedialActionId' | 'metadata'>> & { location?: unknown }
+): Promise<string[]> {
+  const metadata = (assignment.metadata as { location?: unknown; rooms?: unknown } | null) ?? {};
+  const rooms = [assignment.location, metadata.location, ...(Array.isArray(metadata.rooms) ? metadata.rooms : [])];
+  if (assignment.remedialActionId) {
+    const action = await storage.getRemedialAction(assignment.remedialActionId);
+    rooms.push(action?.location);
+  }
+  return rooms.filter((room): room is string => typeof room === 'string' && room.trim().length > 0);
+}
+
+export function getHazardCaseRooms(hazardCase: Pick<HazardCase, 'location' | 'affectedRooms'>): string[] {
+  return [hazardCase.location, ...(hazardCase.affectedRooms ?? [])]
+    .filter((room): room is string => typeof room === 'string' && room.trim().length > 0);
+}
@@ -10,10 +10,18 @@ type AuditEventType =
   | 'REMEDIAL_ACTION_COMPLETED' | 'PROPERTY_CREATED' | 'PROPERTY_UPDATED' | 'PROPERTY_DELETED'
   | 'COMPONENT_CREATED' | 'COMPONENT_UPDATED' | 'USER_LOGIN' | 'USER_LOGOUT' 
   | 'USER_CREATED' | 'USER_UPDATED' | 'USER_ROLE_CHANGED' | 'SETTINGS_CHANGED'
-  | 'API_KEY_CREATED' | 'API_KEY_REVOKED' | 'BULK_IMPORT_COMPLETED';
-type AuditEntityType = 'CERTIFICATE' | 'PROPERTY' | 'COMPONENT' | 'REMEDIAL_ACTION' | 'USER' | 'ORGANISATION' | 'API_KEY' | 'SETTINGS';
+  | 'API_KEY_CREATED' | 'API_KEY_REVOKED' | 'BULK_IMPORT_COMPLETED'
+  | 'HAZARD_CASE_STATUS_CHANGED' | 'HAZARD_ACTION_STATUS_CHANGED'
+  | 'MFA_ENROLMENT_STARTED' | 'MFA_ENABLED' | 'MFA_VERIFIED' | 'MFA_VERIFICATION_FAILED'
+  | 'MFA_RECOVERY_CODE_USED' | 'MFA_RECOVERY_CODES_REGENERATED' | 'MFA_DISABLED'
+  | 'MFA_RESET' | 'MFA_POLICY_CHANGED'
+  | 'CONTRACTOR_COMPETENCY_OVERRIDDEN' | 'CONTRACTOR_COMPETENCY_MATRIX_CHANGED'
+  | 'CONTRACTOR_SUSPENDED'
+  | 'EXTRACTION_SCHEMA_SHADOW_STARTED' | 'EXTRACTION_SCHEMA_SHADOW_STOPPED'
+  | 'EXTRACTION_SCHEMA_PROMOTED' | 'EXTRACTION_SCHEMA_ROLLED_BACK';
+type AuditEntityType = 'CERTIFICATE' | 'PROPERTY' | 'COMPONENT' | 'REMEDIAL_ACTION' | 'USER' | 'ORGANISATION' | 'API_KEY' | 'SETTINGS' | 'HAZARD_CASE' | 'CONTRACTOR';
 
-interface AuditContext {
+export interface AuditContext {
   actorId?: string;
   actorName?: string;
   actorType?: AuditActorType;
@@ -0,0 +1,331 @@
+import { db } from '../db';
+import { autoApprovalThresholds, extractionRuns, fieldConfidenceScores, humanReviews } from '@shared/schema';
+import type { AutoApprovalThreshold } from '@shared/schema';
+import { eq, gte } from 'drizzle-orm';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import {
+  checkAutoApprovalEligibility,
+  recordFieldConfidenceScores,
+  recordFieldCorrection,
+  type AutoApprovalResult,
+  type FieldConfidence,
+} from './confidence-scoring';
+import { populateCertificateDetailRecords } from './certificate-detail-records';
+import { syncAsbestosRegister } from './asbestos-register';
+import { evaluatePropertyComplianceRules } from './compliance-rules-engine';
+
+export interface AutoApprovalPolicy {
+  /** Days of human reviews used to recompute threshold accuracy */
+  windowDays: number;
+  /** Accuracy (0-1) a threshold's reviewed samples must reach before it is enabled */
+  minAccuracy: number;
+  /** Share (0-100) of eligible runs still sent to human review as an audit sample */
+  auditSamplePercentage: number;
+  /** Paths into the normalised output that must be present and confident for every run */
+  requiredFields: string[];
+}
+
+export const DEFAULT_AUTO_APPROVAL_POLICY: AutoApprovalPolicy = {
+  windowDays: 90,
+  minAccuracy: 0.98,
+  auditSamplePercentage: 10,
+  requiredFields: [
+    'inspection.certificate_number',
+    'inspection.date',
+    'inspection.next_due_date',
+    'inspection.outcome',
+    'property.address_line_1',
+  ],
+};
+
+export interface AutoApprovalDecision {
+  autoApproved: boolean;
+  auditSampled: boolean;
+  eligibility: AutoApprovalResult;
+}
+
+export interface AutoApprovalRecalibrationResult {
+  evaluated: number;
+  created: number;
+  enabled: number;
+  disabled: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CONFIG_CACHE_TTL_MS = 60000;
+let cachedPolicy: AutoApprovalPolicy | null = null;
+let policyCacheTime = 0;
+
+export function mergeAutoApprovalPolicy(overrides: Partial<AutoApprovalPolicy>): AutoApprovalPolicy {
+  const { windowDays, minAccuracy, auditSamplePercentage, requiredFields } = overrides;
+  return {
+    windowDays: typeof windowDays === 'number' && Number.isInteger(windowDays) && windowDays > 0
+      ? windowDays
+      : DEFAULT_AUTO_APPROVAL_POLICY.windowDays,
+    minAccuracy: typeof minAccuracy === 'number' && minAccuracy > 0 && minAccuracy <= 1
+      ? minAccuracy
+      : DEFAULT_AUTO_APPROVAL_POLICY.minAccuracy,
+    auditSamplePercentage: typeof auditSamplePercentage === 'number' && auditSamplePercentage >= 0 && auditSamplePercentage <= 100
+      ? auditSamplePercentage
+      : DEFAULT_AUTO_APPROVAL_POLICY.auditSamplePercentage,
+    requiredFields: Array.isArray(requiredFields) && requiredFields.every(field => typeof field === 'string')
+      ? requiredFields
+      : DEFAULT_AUTO_APPROVAL_POLICY.requiredFields,
+  };
+}
+
+export async function getAutoApprovalPolicy(): Promise<AutoApprovalPolicy> {
+  const now = Date.now();
+  if (cachedPolicy && now - policyCacheTime < CONFIG_CACHE_TTL_MS) {
+    return cachedPolicy;
+  }
+
+  try {
+    const raw = await storage.getFactorySettingValue('AUTO_APPROVAL_POLICY', '');
+    const overrides = raw ? JSON.parse(raw) as Partial<AutoApprovalPolicy> : {};
+    cachedPolicy = mergeAutoApprovalPolicy(overrides);
+  } catch (error) {
+    logger.warn({ error }, 'Failed to load auto-approval policy, using defaults');
+    cachedPolicy = DEFAULT_AUTO_APPROVAL_POLICY;
+  }
+  policyCacheTime = now;
+  return cachedPolicy;
+}
+
+export function clearAutoApprovalPolicyCache(): void {
+  cachedPolicy = null;
+  policyCacheTime = 0;
+}
+
+function valueAtPath(output: Record<string, unknown> | null | undefined, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+    output
+  );
+}
+
+function toFieldValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = (typeof value === 'object' ? JSON.stringify(value) : String(value)).trim();
+  return text.length > 0 ? text : null;
+}
+
+/**
+ * The tiered orchestrator only reports a run-level confidence, so each field inherits it when a
+ * value was extracted and scores zero when it is missing. A field threshold therefore cannot tell
+ * one confidently extracted field from another: it acts through `isEnabled`, which recalibration
+ * sets from that field's correction rate, and its `minConfidenceThreshold` is only a stricter bar
+ * on the run confidence.
+ */
+export function deriveFieldConfidences(
+  output: Record<string, unknown>,
+  runConfidence: number,
+  fieldNames: string[]
+): FieldConfidence[] {
+  return fieldNames.map(fieldName => {
+    const extractedValue = toFieldValue(valueAtPath(output, fieldName));
+    return {
+      fieldName,
+      confidence: extractedValue === null ? 0 : runConfidence,
+      extractedValue,
+    };
+  });
+}
+
+/**
+ * Records field confidences for a new run and approves it when every required field clears its
+ * threshold. A random audit sample of eligible runs stays in the review queue, flagged so
+ * reviewers can tell them apart. Never throws - a failure leaves the run awaiting review.
+ */
+export async function evaluateRunForAutoApproval(params: {
+  extractionRunId: string;
+  organisationId: string;
+  documentType: string;
+  normalisedOutput: Record<string, unknown>;
+  confidence: number;
+}): Promise<AutoApprovalDecision> {
+  const { extractionRunId, organisationId, documentType, normalisedOutput, confidence } = params;
+  const policy = await getAutoApprovalPolicy();
+  const fields = deriveFieldConfidences(normalisedOutput, confidence, policy.requiredFields);
+
+  await recordFieldConfidenceScores(extractionRunId, documentType, fields);
+  const eligibility = await checkAutoApprovalEligibility(documentType, fields, organisationId, policy.requiredFields);
+  if (!eligibility.canAutoApprove) {
+    return { autoApproved: false, auditSampled: false, eligibility };
+  }
+
+  const auditSampled = Math.random() * 100 < policy.auditSamplePercentage;
+  try {
+    if (auditSampled) {
+      await db.update(extractionRuns)
+        .set({ auditSampled: true, updatedAt: new Date() })
+        .where(eq(extractionRuns.id, extractionRunId));
+    } else {
+      await db.update(extractionRuns)
+        .set({ status: 'APPROVED', finalOutput: normalisedOutput, autoApproved: true, updatedAt: new Date() })
+        .where(eq(extractionRuns.id, extractionRunId));
+    }
+  } catch (error) {
+    logger.error({ error, extractionRunId }, 'Failed to apply auto-approval decision');
+    return { autoApproved: false, auditSampled: false, eligibility };
+  }
+
+  logger.info({ extractionRunId, documentType, auditSampled }, auditSampled
+    ? 'Auto-approvable run held for audit review'
+    : 'Extraction run auto-approved');
+  return { autoApproved: !auditSampled, auditSampled, eligibility };
+}
+
+/** Mirrors the follow-up work of a manual approval for a run that was approved automatically. */
+export async function completeAutoApprovedCertificate(
+  certificateId: string,
+  extractionRunId: string,
+  approvedOutput: Record<string, any>
+): Promise<void> {
+  const certificate = await storage.getCertificate(certificateId);
+  if (!certificate) return;
+
+  try {
+    const detailCounts = await populateCertificateDetailRecords(certificate, approvedOutput, extractionRunId);
+    if (detailCounts.asbestosItems > 0) {
+      await syncAsbestosRegister(certificate.organisationId, { propertyId: certificate.propertyId });
+    }
+  } catch (error) {
+    logger.error({ error, certificateId }, 'Failed to derive detail records for auto-approved certificate');
+  }
+
+  try {
+    await evaluatePropertyComplianceRules(certificate.organisationId, certificate.propertyId);
+  } catch (error) {
+    logger.error({ error, certificateId }, 'Failed to evaluate compliance rules for auto-approved certificate');
+  }
+}
+
+/**
+ * Marks each recorded field whose reviewed value differs from what was extracted as corrected,
+ * which is what the recalibration job measures accuracy from. Returns the number of corrections.
+ */
+export async function recordReviewCorrections(
+  extractionRunId: string,
+  approvedOutput: Record<string, unknown>
+): Promise<number> {
+  try {
+    const scores = await db.select()
+      .from(fieldConfidenceScores)
+      .where(eq(fieldConfidenceScores.extractionRunId, extractionRunId));
+
+    let corrections = 0;
+    for (const score of scores) {
+      const reviewedValue = toFieldValue(valueAtPath(approvedOutput, score.fieldName));
+      if (reviewedValue === score.extractedValue) continue;
+      await recordFieldCorrection(extractionRunId, score.fieldName, reviewedValue ?? '', 'Changed during human review');
+      corrections++;
+    }
+    return corrections;
+  } catch (error) {
+    logger.error({ error, extractionRunId }, 'Failed to record review corrections');
+    return 0;
+  }
+}
+
+interface AccuracyTally {
+  samples: number;
+  correct: number;
+}
+
+function thresholdKey(organisationId: string | null, certificateType: string, fieldName: string | null): string {
+  return `${organisationId ?? ''}|${certificateType}|${fieldName ?? ''}`;
+}
+
+function tally(stats: Map<string, AccuracyTally>, key: string, correct: boolean): void {
+  const entry = stats.get(key) ?? { samples: 0, correct: 0 };
+  entry.samples++;
+  if (correct) entry.correct++;
+  stats.set(key, entry);
+}
+
+/**
+ * Recomputes every threshold's sample size and accuracy from human reviews in the rolling window.
+ * Field-level accuracy comes from field_confidence_scores.was_corrected; type-level accuracy counts
+ * a reviewed run as correct when the reviewer flagged no errors and corrected no field. Global rows
+ * are created for any type/field with reviewed samples; organisation rows are only maintained where
+ * they already exist. A threshold is enabled once it reaches its required sample size at the
+ * policy's minimum accuracy, and disabled again if either drops.
+ */
+export async function recomputeAutoApprovalThresholds(now: Date = new Date()): Promise<AutoApprovalRecalibrationResult> {
+  const policy = await getAutoApprovalPolicy();
+  const since = new Date(now.getTime() - policy.windowDays * DAY_MS);
+
+  const fieldRows = await db.select({
+    organisationId: humanReviews.organisationId,
+    extractionRunId: fieldConfidenceScores.extractionRunId,
+    certificateType: fieldConfidenceScores.certificateType,
+    fieldName: fieldConfidenceScores.fieldName,
+    wasCorrected: fieldConfidenceScores.wasCorrected,
+  })
+    .from(fieldConfidenceScores)
+    .innerJoin(humanReviews, eq(humanReviews.extractionRunId, fieldConfidenceScores.extractionRunId))
+    .where(gte(humanReviews.reviewedAt, since));
+
+  const reviewRows = await db.select({
+    organisationId: humanReviews.organisationId,
+    extractionRunId: humanReviews.extractionRunId,
+    certificateType: extractionRuns.documentType,
+    wasCorrect: humanReviews.wasCorrect,
+  })
+    .from(humanReviews)
+    .innerJoin(extractionRuns, eq(extractionRuns.id, humanReviews.extractionRunId))
+    .where(gte(humanReviews.reviewedAt, since));
+
+  const stats = new Map<string, AccuracyTally>();
+  const correctedRunIds = new Set<string>();
+  for (const row of fieldRows) {
+    if (row.wasCorrected) correctedRunIds.add(row.extractionRunId);
+    tally(stats, thresholdKey(row.organisationId, row.certificateType, row.fieldName), !row.wasCorrected);
+    tally(stats, thresholdKey(null, row.certificateType, row.fieldName), !row.wasCorrected);
+  }
+  for (const row of reviewRows) {
+    const correct = row.wasCorrect && !correctedRunIds.has(row.extractionRunId);
+    tally(stats, thresholdKey(row.organisationId, row.certificateType, null), correct);
+    tally(stats, thresholdKey(null, row.certificateType, null), correct);
+  }
+
+  const thresholds: AutoApprovalThreshold[] = await db.select().from(autoApprovalThresholds);
+  const existingKeys = new Set(thresholds.map(t => thresholdKey(t.organisationId, t.certificateType, t.fieldName)));
+
+  let created = 0;
+  const missingGlobalKeys = Array.from(stats.keys()).filter(key => key.startsWith('|') && !existingKeys.has(key));
+  for (const key of missingGlobalKeys) {
+    const [, certificateType, fieldName] = key.split('|');
+    const [row] = await db.insert(autoApprovalThresholds).values({
+      organisationId: null,
+      certificateType,
+      fieldName: fieldName || null,
+    }).returning();
+    thresholds.push(row);
+    created++;
+  }
+
+  let enabled = 0;
+  let disabled = 0;
+  for (const threshold of thresholds) {
+    const entry = stats.get(thresholdKey(threshold.organisationId, threshold.certificateType, threshold.fieldName));
+    const currentSampleSize = entry?.samples ?? 0;
+    const currentAccuracy = entry && entry.samples > 0 ? entry.correct / entry.samples : null;
+    const isEnabled = currentSampleSize >= threshold.requiredSampleSize
+      && currentAccuracy !== null
+      && currentAccuracy >= policy.minAccuracy;
+
+    if (isEnabled && !threshold.isEnabled) enabled++;
+    if (!isEnabled && threshold.isEnabled) disabled++;
+
+    await db.update(autoApprovalThresholds)
+      .set({ currentSampleSize, currentAccuracy, isEnabled, lastEvaluatedAt: now, updatedAt: now })
+      .where(eq(autoApprovalThresholds.id, threshold.id));
+  }
+
+  const result = { evaluated: thresholds.length, created, enabled, disabled };
+  logger.info({ ...result, windowDays: policy.windowDays }, 'Recomputed auto-approval thresholds');
+  return result;
+}
@@ -0,0 +1,390 @@
+import { db } from '../db';
+import { hazardCases, riskAlerts } from '@shared/schema';
+import type { HazardCase } from '@shared/schema';
+import { and, eq, ne, notInArray, sql } from 'drizzle-orm';
+import { storage } from '../storage';
+import { logger } from '../logger';
+
+export type HazardClockRegime = 'EMERGENCY' | 'SIGNIFICANT' | 'STANDARD';
+export type HazardClockType = 'INITIAL_INSPECTION' | 'WORKS_START' | 'WORKS_COMPLETION';
+
+interface RegimeTimeframes {
+  initialInspectionHours?: number;
+  initialInspectionWorkingDays?: number;
+  worksStartHours?: number;
+  worksStartWorkingDays?: number;
+  worksCompletionHours?: number;
+  worksCompletionDays?: number;
+}
+
+export interface AwaabsClockConfig {
+  emergency: RegimeTimeframes;
+  significant: RegimeTimeframes;
+  standard: RegimeTimeframes;
+  statutoryCategories: string[];
+  vulnerableOccupantUplift: boolean;
+  escalationStepHours: number;
+  maxEscalationLevel: number;
+}
+
+export interface HazardClockInput {
+  reportedAt: Date | string;
+  severity: string;
+  category: string;
+  hasVulnerableOccupants?: boolean | null;
+  initialInspectionAt?: Date | string | null;
+  worksStartedAt?: Date | string | null;
+}
+
+export interface HazardDeadlines {
+  regime: HazardClockRegime;
+  initialInspectionDue: Date;
+  worksStartDue: Date;
+  worksCompletionDue: Date;
+}
+
+export interface HazardBreachResult {
+  breached: boolean;
+  breachType: HazardClockType | null;
+  breachAt: Date | null;
+  escalationLevel: number;
+}
+
+/**
+ * Defaults follow the Hazards in Social Housing (Prescribed Requirements) (England)
+ * Regulations 2025. They can be overridden with the AWAABS_LAW_TIMEFRAMES factory setting.
+ */
+export const DEFAULT_AWAABS_CLOCK_CONFIG: AwaabsClockConfig = {
+  emergency: {
+    initialInspectionHours: 24,
+    worksStartHours: 24,
+    worksCompletionHours: 24,
+  },
+  significant: {
+    initialInspectionWorkingDays: 10,
+    worksStartWorkingDays: 8,
+    worksCompletionDays: 84,
+  },
+  standard: {
+    initialInspectionWorkingDays: 20,
+    worksStartWorkingDays: 20,
+    worksCompletionDays: 90,
+  },
+  statutoryCategories: ['DAMP', 'MOULD', 'CONDENSATION', 'WATER_INGRESS', 'VENTILATION', 'HHSRS_CATEGORY_1'],
+  vulnerableOccupantUplift: true,
+  escalationStepHours: 48,
+  maxEscalationLevel: 3,
+};
+
+const CLOSED_STATUSES = ['RESOLVED', 'CLOSED'] as const;
+
+const CLOCK_LABELS: Record<HazardClockType, string> = {
+  INITIAL_INSPECTION: 'initial inspection',
+  WORKS_START: 'start of works',
+  WORKS_COMPLETION: 'completion of works',
+};
+
+let cachedConfig: AwaabsClockConfig | null = null;
+let configCacheTime = 0;
+const CONFIG_CACHE_TTL_MS = 60000;
+
+export async function getAwaabsClockConfig(): Promise<AwaabsClockConfig> {
+  const now = Date.now();
+  if (cachedConfig && now - configCacheTime < CONFIG_CACHE_TTL_MS) {
+    return cachedConfig;
+  }
+
+  try {
+    const raw = await storage.getFactorySettingValue('AWAABS_LAW_TIMEFRAMES', '');
+    const overrides = raw ? JSON.parse(raw) as Partial<AwaabsClockConfig> : {};
+    cachedConfig = mergeClockConfig(overrides);
+  } catch (error) {
+    logger.warn({ error }, "Failed to load Awaab's Law timeframes, using defaults");
+    cachedConfig = DEFAULT_AWAABS_CLOCK_CONFIG;
+  }
+  configCacheTime = now;
+  return cachedConfig;
+}
+
+export function clearAwaabsClockConfigCache(): void {
+  cachedConfig = null;
+  configCacheTime = 0;
+}
+
+export function mergeClockConfig(overrides: Partial<AwaabsClockConfig>): AwaabsClockConfig {
+  return {
+    ...DEFAULT_AWAABS_CLOCK_CONFIG,
+    ...overrides,
+    emergency: { ...DEFAULT_AWAABS_CLOCK_CONFIG.emergency, ...overrides.emergency },
+    significant: { ...DEFAULT_AWAABS_CLOCK_CONFIG.significant, ...overrides.significant },
+    standard: { ...DEFAULT_AWAABS_CLOCK_CONFIG.standard, ...overrides.standard },
+  };
+}
+
+export function addWorkingDays(from: Date, days: number): Date {
+  const result = new Date(from);
+  let remaining = days;
+  while (remaining > 0) {
+    result.setUTCDate(result.getUTCDate() + 1);
+    const day = result.getUTCDay();
+    if (day !== 0 && day !== 6) {
+      remaining--;
+    }
+  }
+  return result;
+}
+
+function addHours(from: Date, hours: number): Date {
+  return new Date(from.getTime() + hours * 60 * 60 * 1000);
+}
+
+function applyTimeframe(from: Date, hours?: number, workingDays?: number, calendarDays?: number): Date {
+  if (hours !== undefined) return addHours(from, hours);
+  if (workingDays !== undefined) return addWorkingDays(from, workingDays);
+  return addHours(from, (calendarDays ?? 0) * 24);
+}
+
+function toDate(value: Date | string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function determineRegime(input: HazardClockInput, config: AwaabsClockConfig = DEFAULT_AWAABS_CLOCK_CONFIG): HazardClockRegime {
+  if (input.severity === 'EMERGENCY') return 'EMERGENCY';
+
+  const isStatutoryCategory = config.statutoryCategories.includes(input.category);
+  if (input.severity === 'SERIOUS' && isStatutoryCategory) return 'SIGNIFICANT';
+
+  // Vulnerable occupants lower the threshold at which a hazard becomes significant
+  if (config.vulnerableOccupantUplift && input.hasVulnerableOccupants && isStatutoryCategory
+      && (input.severity === 'SERIOUS' || input.severity === 'MODERATE')) {
+    return 'SIGNIFICANT';
+  }
+
+  return 'STANDARD';
+}
+
+/**
+ * Derives every statutory deadline for a hazard case. Later clocks are anchored on the
+ * actual time the previous stage happened once it is known, otherwise on its due date.
+ */
+export function calculateHazardDeadlines(
+  input: HazardClockInput,
+  config: AwaabsClockConfig = DEFAULT_AWAABS_CLOCK_CONFIG
+): HazardDeadlines {
+  const reportedAt = toDate(input.reportedAt) ?? new Date();
+  const regime = determineRegime(input, config);
+  const timeframes = regime === 'EMERGENCY' ? config.emergency
+    : regime === 'SIGNIFICANT' ? config.significant
+    : config.standard;
+
+  const initialInspectionDue = applyTimeframe(
+    reportedAt,
+    timeframes.initialInspectionHours,
+    timeframes.initialInspectionWorkingDays
+  );
+
+  const worksStartAnchor = regime === 'EMERGENCY'
+    ? reportedAt
+    : toDate(input.initialInspectionAt) ?? initialInspectionDue;
+  const worksStartDue = applyTimeframe(
+    worksStartAnchor,
+    timeframes.worksStartHours,
+    timeframes.worksStartWorkingDays
+  );
+
+  const completionAnchor = regime === 'EMERGENCY'
+    ? reportedAt
+    : toDate(input.worksStartedAt) ?? worksStartDue;
+  const worksCompletionDue = applyTimeframe(
+    completionAnchor,
+    timeframes.worksCompletionHours,
+    undefined,
+    timeframes.worksCompletionDays
+  );
+
+  return { regime, initialInspectionDue, worksStartDue, worksCompletionDue };
+}
+
+export function evaluateHazardBreach(
+  hazard: Pick<HazardCase, 'initialInspectionDue' | 'initialInspectionAt' | 'worksStartDue' | 'worksStartedAt' | 'worksCompletionDue' | 'worksCompletedAt'>,
+  now: Date = new Date(),
+  config: AwaabsClockConfig = DEFAULT_AWAABS_CLOCK_CONFIG
+): HazardBreachResult {
+  const clocks: Array<{ type: HazardClockType; due: Date | null; metAt: Date | null }> = [
+    { type: 'INITIAL_INSPECTION', due: toDate(hazard.initialInspectionDue), metAt: toDate(hazard.initialInspectionAt) },
+    { type: 'WORKS_START', due: toDate(hazard.worksStartDue), metAt: toDate(hazard.worksStartedAt) },
+    { type: 'WORKS_COMPLETION', due: toDate(hazard.worksCompletionDue), metAt: toDate(hazard.worksCompletedAt) },
+  ];
+
+  const missed = clocks.filter(clock => clock.due && (clock.metAt ?? now).getTime() > clock.due.getTime());
+  if (missed.length === 0) {
+    return { breached: false, breachType: null, breachAt: null, escalationLevel: 0 };
+  }
+
+  // A clock that is still running late takes precedence over one that was met late
+  const outstanding = missed.find(clock => !clock.metAt);
+  const breach = outstanding ?? missed[0];
+  const overdueHours = outstanding ? (now.getTime() - outstanding.due!.getTime()) / (60 * 60 * 1000) : 0;
+  const steps = Math.floor(overdueHours / Math.max(config.escalationStepHours, 1));
+
+  return {
+    breached: true,
+    breachType: breach.type,
+    breachAt: breach.due,
+    escalationLevel: Math.min(1 + steps, config.maxEscalationLevel),
+  };
+}
+
+/**
+ * Returns the deadline fields to persist on a hazard case after it is created or changed.
+ */
+export async function deriveHazardDeadlines(input: HazardClockInput): Promise<Pick<HazardCase, 'initialInspectionDue' | 'worksStartDue' | 'worksCompletionDue'>> {
+  const config = await getAwaabsClockConfig();
+  const { initialInspectionDue, worksStartDue, worksCompletionDue } = calculateHazardDeadlines(input, config);
+  return { initialInspectionDue, worksStartDue, worksCompletionDue };
+}
+
+function breachAlertType(breachType: HazardClockType): string {
+  return `AWAABS_LAW_${breachType}_BREACH`;
+}
+
+/** Resolves the open breach alerts raised for a hazard case, optionally keeping one alert type open. */
+async function resolveHazardBreachAlerts(hazardCaseId: string, resolutionNotes: string, now: Date, keepAlertType?: string): Promise<void> {
+  const conditions = [
+    sql`${riskAlerts.metadata}->>'hazardCaseId' = ${hazardCaseId}`,
+    sql`${riskAlerts.alertType} like 'AWAABS_LAW_%'`,
+    eq(riskAlerts.status, 'OPEN'),
+  ];
+  if (keepAlertType) conditions.push(ne(riskAlerts.alertType, keepAlertType));
+
+  await db.update(riskAlerts)
+    .set({ status: 'RESOLVED', resolvedAt: now, resolutionNotes, updatedAt: now })
+    .where(and(...conditions));
+}
+
+async function raiseHazardBreachAlert(hazard: HazardCase, breach: HazardBreachResult): Promise<void> {
+  const alertType = breachAlertType(breach.breachType!);
+
+  // A property can have several hazard cases, each with its own clocks and alerts
+  const [existing] = await db.select({ id: riskAlerts.id })
+    .from(riskAlerts)
+    .where(and(
+      sql`${riskAlerts.metadata}->>'hazardCaseId' = ${hazard.id}`,
+      eq(riskAlerts.alertType, alertType),
+      eq(riskAlerts.status, 'OPEN')
+    ))
+    .limit(1);
+
+  if (existing) {
+    await db.update(riskAlerts)
+      .set({ escalationLevel: breach.escalationLevel, updatedAt: new Date() })
+      .where(eq(riskAlerts.id, existing.id));
+    return;
+  }
+
+  const isEmergency = hazard.severity === 'EMERGENCY';
+  await db.insert(riskAlerts).values({
+    organisationId: hazard.organisationId,
+    propertyId: hazard.propertyId,
+    alertType,
+    riskTier: isEmergency || hazard.hasVulnerableOccupants ? 'CRITICAL' : 'HIGH',
+    title: `Awaab's Law deadline missed - ${hazard.caseReference}`,
+    description: `Statutory deadline for ${CLOCK_LABELS[breach.breachType!]} expired on ${breach.breachAt!.toISOString()}`,
+    triggeringFactors: [
+      `${hazard.severity} ${hazard.category} hazard`,
+      ...(hazard.hasVulnerableOccupants ? ['Vulnerable occupants'] : []),
+    ],
+    riskScore: isEmergency ? 100 : 75,
+    dueDate: new Date(),
+    slaHours: 0,
+    escalationLevel: breach.escalationLevel,
+    metadata: { hazardCaseId: hazard.id, breachType: breach.breachType },
+  });
+}
+
+/**
+ * Resolves a case's open breach alerts once it is resolved or closed, or once its deadlines are
+ * re-timed so that no clock is missed. The breach flag, type and time stay on the case as the
+ * record that a statutory deadline was missed.
+ */
+export async function reconcileHazardBreach(hazard: HazardCase, now: Date = new Date()): Promise<HazardCase> {
+  if (!hazard.slaBreach) return hazard;
+
+  const closed = (CLOSED_STATUSES as readonly string[]).includes(hazard.status);
+  if (!closed && evaluateHazardBreach(hazard, now, await getAwaabsClockConfig()).breached) return hazard;
+
+  await resolveHazardBreachAlerts(
+    hazard.id,
+    closed ? `Hazard case ${hazard.caseReference} ${hazard.status.toLowerCase()}` : `Hazard case ${hazard.caseReference} deadlines are no longer missed`,
+    now
+  );
+  return hazard;
+}
+
+/**
+ * Checks every open hazard case against its statutory clocks, flags breaches and raises alerts.
+ */
+export async function runHazardClockSweep(now: Date = new Date()): Promise<{ checked: number; newlyBreached: number; escalated: number }> {
+  const config = await getAwaabsClockConfig();
+
+  const openCases = await db.select()
+    .from(hazardCases)
+    .where(notInArray(hazardCases.status, [...CLOSED_STATUSES]));
+
+  let newlyBreached = 0;
+  let escalated = 0;
+
+  for (const hazard of openCases) {
+    try {
+      const needsDeadlines = !hazard.initialInspectionDue || !hazard.worksStartDue || !hazard.worksCompletionDue;
+      const deadlines = needsDeadlines ? calculateHazardDeadlines(hazard, config) : null;
+      const current = deadlines ? { ...hazard, ...deadlines } : hazard;
+
+      const breach = evaluateHazardBreach(current, now, config);
+      if (!breach.breached) {
+        if (deadlines) {
+          const { regime, ...deadlineFields } = deadlines;
+          await storage.updateHazardCase(hazard.id, deadlineFields);
+        }
+        await reconcileHazardBreach(current, now);
+        continue;
+      }
+
+      // A kept breach record with a different deadline means the clock was re-timed and missed again
+      const isNewBreach = !hazard.slaBreach
+        || hazard.slaBreachType !== breach.breachType
+        || toDate(hazard.slaBreachAt)?.getTime() !== breach.breachAt?.getTime();
+      const isEscalation = breach.escalationLevel > hazard.escalationLevel;
+      if (!isNewBreach && !isEscalation && !deadlines) continue;
+
+      await storage.updateHazardCase(hazard.id, {
+        ...(deadlines ? {
+          initialInspectionDue: deadlines.initialInspectionDue,
+          worksStartDue: deadlines.worksStartDue,
+          worksCompletionDue: deadlines.worksCompletionDue,
+        } : {}),
+        slaBreach: true,
+        slaBreachType: breach.breachType,
+        slaBreachAt: isNewBreach ? breach.breachAt : hazard.slaBreachAt,
+        escalationLevel: Math.max(breach.escalationLevel, hazard.escalationLevel),
+      });
+
+      if (isNewBreach) newlyBreached++;
+      else if (isEscalation) escalated++;
+
+      if (isNewBreach && hazard.slaBreach) {
+        await resolveHazardBreachAlerts(hazard.id, `Superseded by a ${CLOCK_LABELS[breach.breachType!]} breach`, now, breachAlertType(breach.breachType!));
+      }
+      if (isNewBreach || isEscalation) {
+        await raiseHazardBreachAlert(hazard, breach);
+      }
+    } catch (error) {
+      logger.error({ error, hazardCaseId: hazard.id }, 'Failed to evaluate hazard case clock');
+    }
+  }
+
+  logger.info({ checked: openCases.length, newlyBreached, escalated }, "Awaab's Law clock sweep completed");
+  return { checked: openCases.length, newlyBreached, escalated };
+}
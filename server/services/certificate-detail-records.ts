@@ -0,0 +1,408 @@
+import type {
+  Certificate,
+  Component,
+  InsertAsbestosSurveyRecord,
+  InsertElectricalCircuitRecord,
+  InsertFireSystemRecord,
+  InsertGasApplianceRecord,
+  InsertWaterTemperatureRecord,
+} from '@shared/schema';
+import { storage } from '../storage';
+import type { CertificateDetailRecordCounts, CertificateDetailRecordSet } from '../storage/interfaces';
+import { logger } from '../logger';
+import { materialRiskBand } from './asbestos-register';
+import { evaluateOutletReading } from './water-hygiene-monitoring';
+
+type ExtractedItem = Record<string, any>;
+
+export type ComponentMatchMethod = 'SERIAL_NUMBER' | 'LOCATION';
+
+export interface ComponentMatch {
+  componentId: string;
+  matchedBy: ComponentMatchMethod;
+}
+
+interface DetailContext {
+  certificate: Pick<Certificate, 'id' | 'propertyId' | 'blockId' | 'certificateType' | 'issueDate'>;
+  components: Component[];
+  extractionRunId: string | null;
+}
+
+const SOURCE_KEYS = {
+  appliances: ['appliances'],
+  circuits: ['circuits', 'circuitSchedule', 'circuitSchedules', 'circuitDetails'],
+  fireSystems: ['fireSystems', 'systems', 'detectionSystems'],
+  asbestosItems: ['acmItems', 'asbestosItems', 'materials'],
+  waterTemperatures: ['temperatureReadings', 'outletTemperatures', 'waterTemperatures', 'outlets'],
+};
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Approved output is the normalised review shape with the model's raw output
+ * under `_raw`, but older runs and orchestrator results store the extracted
+ * fields at the top level, so both are searched.
+ */
+function extractionSources(approvedOutput: Record<string, any>): Record<string, any>[] {
+  return [approvedOutput, approvedOutput._raw].filter(isObject);
+}
+
+function pickArray(sources: Record<string, any>[], keys: string[]): ExtractedItem[] {
+  for (const source of sources) {
+    for (const key of keys) {
+      if (Array.isArray(source[key])) return source[key].filter(isObject);
+    }
+  }
+  return [];
+}
+
+function pickString(sources: Record<string, any>[], read: (source: Record<string, any>) => unknown): string | null {
+  for (const source of sources) {
+    const value = read(source);
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return null;
+}
+
+function text(...values: unknown[]): string | null {
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number') return String(value);
+  }
+  return null;
+}
+
+function bool(...values: unknown[]): boolean | null {
+  for (const value of values) {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'string') {
+      const upper = value.trim().toUpperCase();
+      if (['YES', 'Y', 'TRUE', 'PASS', 'SATISFACTORY'].includes(upper)) return true;
+      if (['NO', 'N', 'FALSE', 'FAIL', 'UNSATISFACTORY'].includes(upper)) return false;
+    }
+  }
+  return null;
+}
+
+function num(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/[^0-9.\-]/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function int(value: unknown): number | null {
+  const parsed = num(value);
+  return parsed === null ? null : Math.round(parsed);
+}
+
+function stringList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(item => text(item, isObject(item) ? item.description : null)).filter((item): item is string => !!item);
+  const single = text(value);
+  return single ? [single] : [];
+}
+
+/** Accepts ISO and UK day-first dates and returns YYYY-MM-DD, or null when unreadable. */
+export function toIsoDate(value: unknown): string | null {
+  const raw = text(value);
+  if (!raw) return null;
+  const iso = raw.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const uk = raw.match(/^(\d{1,2})[\/.\-](\d{1,2})[\/.\-](\d{4})$/);
+  if (uk) return `${uk[3]}-${uk[2].padStart(2, '0')}-${uk[1].padStart(2, '0')}`;
+  return null;
+}
+
+/**
+ * Maps the many ways a certificate records a check (booleans, PASS/FAIL,
+ * SATISFACTORY, Gas Safe ID/AR classifications) onto one vocabulary so results
+ * can be queried across the portfolio.
+ */
+export function normaliseResult(value: unknown): string | null {
+  if (typeof value === 'boolean') return value ? 'PASS' : 'FAIL';
+  const raw = text(value);
+  if (!raw) return null;
+  const upper = raw.toUpperCase().replace(/[_\-]/g, ' ');
+  if (upper.includes('IMMEDIATELY DANGEROUS') || upper === 'ID') return 'IMMEDIATELY_DANGEROUS';
+  if (upper.includes('AT RISK') || upper === 'AR') return 'AT_RISK';
+  if (upper === 'N/A' || upper === 'NA' || upper.includes('NOT APPLICABLE') || upper.includes('NOT TESTED')) return 'N/A';
+  if (/\b(FAIL|FAILED|UNSAFE|UNSATISFACTORY|DEFECTIVE|NO)\b/.test(upper)) return 'FAIL';
+  if (/\b(PASS|PASSED|SAFE|SATISFACTORY|OK|YES)\b/.test(upper)) return 'PASS';
+  return raw.toUpperCase();
+}
+
+function normaliseKey(value: string | null | undefined): string {
+  return (value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Links an extracted item to a known component by serial number, falling back
+ * to location only when exactly one component sits there, so a kitchen with a
+ * boiler and a cooker is never guessed at.
+ */
+export function matchComponent(
+  item: { serialNumber?: string | null; location?: string | null },
+  components: Component[]
+): ComponentMatch | null {
+  const serial = normaliseKey(item.serialNumber);
+  if (serial) {
+    const bySerial = components.find(component => normaliseKey(component.serialNumber) === serial);
+    if (bySerial) return { componentId: bySerial.id, matchedBy: 'SERIAL_NUMBER' };
+  }
+
+  const location = normaliseKey(item.location);
+  if (location) {
+    const byLocation = components.filter(component => normaliseKey(component.location) === location);
+    if (byLocation.length === 1) return { componentId: byLocation[0].id, matchedBy: 'LOCATION' };
+  }
+
+  return null;
+}
+
+function linkComponent(context: DetailContext, item: { serialNumber?: string | null; location?: string | null }) {
+  const match = matchComponent(item, context.components);
+  return {
+    componentId: match?.componentId ?? null,
+    metadata: {
+      source: 'EXTRACTION',
+      extractionRunId: context.extractionRunId,
+      componentMatchedBy: match?.matchedBy ?? null,
+    },
+  };
+}
+
+function mapGasAppliances(sources: Record<string, any>[], context: DetailContext): InsertGasApplianceRecord[] {
+  if (context.certificate.certificateType !== 'GAS_SAFETY') return [];
+
+  return pickArray(sources, SOURCE_KEYS.appliances).map(item => {
+    const serialNumber = text(item.serialNumber, item.serial);
+    const location = text(item.location) ?? 'Not recorded';
+    const defects = stringList(item.defects);
+    return {
+      certificateId: context.certificate.id,
+      propertyId: context.certificate.propertyId,
+      applianceType: text(item.type, item.applianceType) ?? 'Unknown',
+      manufacturer: text(item.make, item.manufacturer),
+      model: text(item.model),
+      serialNumber,
+      gcNumber: text(item.gcNumber),
+      location,
+      flueType: text(item.flueType),
+      operatingPressure: text(item.operatingPressure),
+      safetyDeviceChecked: bool(item.safetyDeviceCorrect, item.safetyDeviceChecked),
+      ventilationSatisfactory: bool(item.ventilationSatisfactory),
+      visualCondition: text(item.visualCondition),
+      flueFowTest: normaliseResult(item.flueFlowTest ?? item.flueFlowSatisfactory),
+      spillageTest: normaliseResult(item.spillageTest ?? item.spillageSatisfactory),
+      applianceResult: normaliseResult(item.outcome ?? item.safetyStatus ?? item.applianceSafe) ?? 'NOT_RECORDED',
+      defectsFound: defects.length > 0 ? defects.join('; ') : null,
+      actionRequired: text(item.actionRequired, item.actionTaken),
+      ...linkComponent(context, { serialNumber, location: text(item.location) }),
+    };
+  });
+}
+
+function mapElectricalCircuits(sources: Record<string, any>[], context: DetailContext): InsertElectricalCircuitRecord[] {
+  return pickArray(sources, SOURCE_KEYS.circuits).map((item, index) => {
+    const description = text(item.description, item.circuitDescription, item.designation) ?? `Circuit ${index + 1}`;
+    const observationCodes = stringList(item.observationCodes ?? item.codes ?? item.code).map(code => code.toUpperCase());
+    const hasDangerCode = observationCodes.some(code => ['C1', 'C2', 'FI'].includes(code));
+    return {
+      certificateId: context.certificate.id,
+      propertyId: context.certificate.propertyId,
+      circuitNumber: int(item.circuitNumber ?? item.number ?? item.circuit) ?? index + 1,
+      circuitDescription: description,
+      circuitType: text(item.circuitType, item.type),
+      fuseRating: text(item.fuseRating, item.ocpdRating, item.rating),
+      mcbType: text(item.mcbType, item.ocpdType, item.deviceType),
+      rcboProtected: bool(item.rcboProtected, item.rcbo),
+      cableType: text(item.cableType, item.wiringType),
+      cableSize: text(item.cableSize, item.liveConductorSize),
+      cpcSize: text(item.cpcSize),
+      insulationResistance: text(item.insulationResistance),
+      polarity: normaliseResult(item.polarity),
+      earthFaultLoopImpedance: text(item.earthFaultLoopImpedance, item.zs),
+      rcdOperatingTime: text(item.rcdOperatingTime),
+      observationCodes,
+      observations: text(item.observations, item.notes),
+      result: normaliseResult(item.result ?? item.outcome) ?? (hasDangerCode ? 'FAIL' : 'PASS'),
+      ...linkComponent(context, { location: text(item.location) }),
+    };
+  });
+}
+
+function mapFireSystems(sources: Record<string, any>[], context: DetailContext): InsertFireSystemRecord[] {
+  return pickArray(sources, SOURCE_KEYS.fireSystems).map(item => {
+    const location = text(item.location, item.coverageArea) ?? 'Not recorded';
+    const faults = stringList(item.faultsFound ?? item.faults ?? item.defects);
+    return {
+      certificateId: context.certificate.id,
+      propertyId: context.certificate.propertyId,
+      blockId: context.certificate.blockId,
+      systemType: text(item.systemType, item.type) ?? 'Unknown',
+      systemCategory: text(item.systemCategory, item.category),
+      manufacturer: text(item.manufacturer, item.make),
+      model: text(item.model),
+      location,
+      coverageArea: text(item.coverageArea),
+      lastServiceDate: toIsoDate(item.lastServiceDate ?? item.testDate),
+      nextServiceDue: toIsoDate(item.nextServiceDue),
+      detectorTypes: stringList(item.detectorTypes),
+      numberOfDetectors: int(item.numberOfDetectors ?? item.detectorCount),
+      numberOfCallPoints: int(item.numberOfCallPoints ?? item.callPointCount),
+      numberOfSounders: int(item.numberOfSounders ?? item.sounderCount),
+      panelLocation: text(item.panelLocation),
+      panelType: text(item.panelType),
+      zonesConfigured: int(item.zonesConfigured ?? item.zones),
+      testResult: normaliseResult(item.testResult ?? item.result ?? item.outcome ?? item.status)
+        ?? (faults.length > 0 ? 'FAIL' : 'NOT_RECORDED'),
+      faultsFound: faults,
+      recommendedActions: text(item.recommendedActions, item.recommendation),
+      ...linkComponent(context, { serialNumber: text(item.serialNumber), location: text(item.location) }),
+    };
+  });
+}
+
+function mapAsbestosItems(sources: Record<string, any>[], context: DetailContext): InsertAsbestosSurveyRecord[] {
+  const items = pickArray(sources, SOURCE_KEYS.asbestosItems);
+  if (items.length === 0) return [];
+
+  const surveyDate = toIsoDate(
+    pickString(sources, source => source.surveyDate ?? source.inspection?.date ?? source.inspectionDate ?? source.issueDate)
+  ) ?? toIsoDate(context.certificate.issueDate);
+  if (!surveyDate) {
+    logger.warn({ certificateId: context.certificate.id }, 'Skipping asbestos register items without a survey date');
+    return [];
+  }
+
+  const surveyType = pickString(sources, source => source.surveyType) ?? 'Management Survey';
+  const surveyorName = pickString(sources, source => source.surveyor?.name ?? source.engineer?.name ?? source.engineerName) ?? 'Not recorded';
+  const surveyorQualification = pickString(sources, source => source.surveyor?.qualifications);
+  const accreditationNumber = pickString(sources, source => source.surveyor?.laboratoryAccreditation);
+
+  return items.map(item => {
+    const location = text(item.location) ?? 'Not recorded';
+    // The survey prompt's riskScore is the HSG264 material assessment score
+    const materialScore = int(item.materialScore ?? item.riskScore);
+    const sampleReference = text(item.sampleReference, item.itemId);
+    return {
+      certificateId: context.certificate.id,
+      propertyId: context.certificate.propertyId,
+      blockId: context.certificate.blockId,
+      surveyType,
+      surveyDate,
+      surveyorName,
+      surveyorQualification,
+      accreditationNumber,
+      location,
+      roomDescription: text(item.roomDescription),
+      materialType: text(item.material, item.materialType) ?? 'Unknown',
+      materialDescription: text(item.materialDescription, item.description),
+      asbestosType: text(item.asbestosType),
+      sampleTaken: bool(item.sampleTaken) ?? !!sampleReference,
+      sampleReference,
+      labResult: text(item.labResult),
+      condition: text(item.condition),
+      surfaceTreatment: text(item.surfaceTreatment),
+      accessibilityScore: int(item.accessibilityScore),
+      damageScore: int(item.damageScore),
+      materialScore,
+      totalRiskScore: int(item.totalRiskScore),
+      riskCategory: text(item.riskCategory) ?? materialRiskBand(materialScore),
+      recommendedAction: text(item.recommendation, item.recommendedAction),
+      reinspectionDate: toIsoDate(item.reinspectionDate),
+      ...linkComponent(context, { location: text(item.location) }),
+    };
+  });
+}
+
+function mapWaterTemperatures(sources: Record<string, any>[], context: DetailContext): InsertWaterTemperatureRecord[] {
+  const items = pickArray(sources, SOURCE_KEYS.waterTemperatures);
+  if (items.length === 0) return [];
+
+  const inspectionDate = toIsoDate(
+    pickString(sources, source => source.inspection?.date ?? source.assessmentDate ?? source.inspectionDate ?? source.issueDate)
+  ) ?? toIsoDate(context.certificate.issueDate);
+
+  return items.flatMap(item => {
+    const monitoringDate = toIsoDate(item.date ?? item.monitoringDate) ?? inspectionDate;
+    if (!monitoringDate) return [];
+
+    const outletLocation = text(item.location, item.outletLocation) ?? 'Not recorded';
+    const coldWaterTemp = num(item.coldTemp ?? item.coldWaterTemp ?? item.cold);
+    const hotWaterTemp = num(item.hotTemp ?? item.hotWaterTemp ?? item.hot);
+    const { coldWithinLimit, hotWithinLimit } = evaluateOutletReading({ coldWaterTemp, hotWaterTemp });
+    return [{
+      certificateId: context.certificate.id,
+      propertyId: context.certificate.propertyId,
+      blockId: context.certificate.blockId,
+      monitoringDate: new Date(monitoringDate),
+      outletLocation,
+      outletType: text(item.outletType, item.type) ?? 'Outlet',
+      outletReference: text(item.outletReference, item.reference),
+      coldWaterTemp,
+      hotWaterTemp,
+      hotWaterFlowTemp: num(item.flowTemp ?? item.hotWaterFlowTemp),
+      hotWaterReturnTemp: num(item.returnTemp ?? item.hotWaterReturnTemp),
+      calorifierTemp: num(item.calorifierTemp),
+      coldWithinLimit,
+      hotWithinLimit,
+      flushingRequired: bool(item.flushingRequired) ?? (coldWithinLimit === false || hotWithinLimit === false),
+      actionRequired: text(item.actionRequired),
+      notes: text(item.notes, item.findings),
+      ...linkComponent(context, { serialNumber: text(item.serialNumber), location: text(item.location, item.outletLocation) }),
+    }];
+  });
+}
+
+/**
+ * Maps approved extraction output onto the per-regulation detail tables.
+ */
+export function buildCertificateDetailRecords(
+  approvedOutput: Record<string, any>,
+  certificate: DetailContext['certificate'],
+  components: Component[],
+  extractionRunId: string | null = null
+): CertificateDetailRecordSet {
+  const sources = extractionSources(approvedOutput);
+  const context: DetailContext = { certificate, components, extractionRunId };
+  return {
+    gasAppliances: mapGasAppliances(sources, context),
+    electricalCircuits: mapElectricalCircuits(sources, context),
+    fireSystems: mapFireSystems(sources, context),
+    asbestosItems: mapAsbestosItems(sources, context),
+    waterTemperatures: mapWaterTemperatures(sources, context),
+  };
+}
+
+/**
+ * Re-derives a certificate's detail records from its approved extraction.
+ * Existing rows for the certificate are replaced, so approving the extraction
+ * of a superseding version leaves only the latest data queryable.
+ */
+export async function populateCertificateDetailRecords(
+  certificate: Certificate,
+  approvedOutput: Record<string, any>,
+  extractionRunId: string | null = null
+): Promise<CertificateDetailRecordCounts> {
+  const componentsById = new Map<string, Component>();
+  for (const component of await storage.listComponents({ propertyId: certificate.propertyId })) {
+    componentsById.set(component.id, component);
+  }
+  if (certificate.blockId) {
+    for (const component of await storage.listComponents({ blockId: certificate.blockId })) {
+      componentsById.set(component.id, component);
+    }
+  }
+  const components = Array.from(componentsById.values());
+
+  const records = buildCertificateDetailRecords(approvedOutput, certificate, components, extractionRunId);
+  const counts = await storage.replaceCertificateDetailRecords(certificate.id, records);
+
+  logger.info({ certificateId: certificate.id, extractionRunId, ...counts }, 'Certificate detail records derived from extraction');
+  return counts;
+}
@@ -0,0 +1,762 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { complianceCalendarEvents, complianceRules, extractionRuns, riskAlerts } from '@shared/schema';
+import type { Block, BuildingSafetyProfile, Certificate, ComplianceRule, Property } from '@shared/schema';
+import { and, desc, eq, gte, inArray, sql } from 'drizzle-orm';
+import { storage } from '../storage';
+import { enqueueWebhookEvent } from '../webhook-worker';
+import { logger } from '../logger';
+
+export const COMPLIANCE_RULE_ALERT_TYPE = 'COMPLIANCE_RULE';
+
+export const RULE_OPERATORS = [
+  'equals',
+  'not_equals',
+  'greater_than',
+  'greater_than_or_equal',
+  'less_than',
+  'less_than_or_equal',
+  'in',
+  'not_in',
+  'contains',
+  'exists',
+  'not_exists',
+  'missing',
+  'present',
+] as const;
+
+export type RuleOperator = typeof RULE_OPERATORS[number];
+
+export const ruleConditionSchema = z.object({
+  field: z.string().min(1),
+  operator: z.enum(RULE_OPERATORS),
+  value: z.unknown().optional(),
+  withinMonths: z.number().int().positive().optional(),
+  withinDays: z.number().int().positive().optional(),
+});
+
+export const ruleConditionsSchema = z.array(ruleConditionSchema);
+
+/**
+ * One rule condition. Fields are asset facts (`hasGas`, `buildingHeight`), values read
+ * from the rule's latest certificate (`c1Count`, `expiryDays`), or `certificates.<DOC>`
+ * with `missing`/`present` to test for a valid certificate of that document type.
+ */
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+
+export type RuleOutcome = 'REMEDIAL_ACTION' | 'RISK_ALERT' | 'CALENDAR_EVENT';
+
+/** What each rule action turns into when the rule matches a property. */
+export const RULE_ACTION_OUTCOMES: Record<string, RuleOutcome> = {
+  AUTO_FAIL: 'REMEDIAL_ACTION',
+  CREATE_ACTION: 'REMEDIAL_ACTION',
+  FLAG_URGENT: 'RISK_ALERT',
+  MARK_INCOMPLETE: 'RISK_ALERT',
+  INFO: 'CALENDAR_EVENT',
+  REMEDIAL_ACTION: 'REMEDIAL_ACTION',
+  RISK_ALERT: 'RISK_ALERT',
+  CALENDAR_EVENT: 'CALENDAR_EVENT',
+};
+
+export type ComplianceRuleDefinition = Pick<ComplianceRule, 'ruleCode' | 'ruleName' | 'documentType' | 'conditions' | 'conditionLogic' | 'action' | 'priority'>
+  & Partial<Pick<ComplianceRule, 'id' | 'description' | 'legislation' | 'complianceStreamId'>>;
+
+const CERTIFICATE_TYPE_DOCUMENT_TYPES: Record<string, string> = {
+  GAS_SAFETY: 'GAS',
+  EICR: 'EICR',
+  EPC: 'EPC',
+  FIRE_RISK_ASSESSMENT: 'FRA',
+  LEGIONELLA_ASSESSMENT: 'LEG',
+  ASBESTOS_SURVEY: 'ASB',
+  LIFT_LOLER: 'LIFT',
+};
+
+/** Component type codes that establish an asset fact when present on the property or its block. */
+const COMPONENT_FACTS: Record<string, string[]> = {
+  hasFireAlarm: ['FIRE_ALARM_PANEL'],
+  hasFireDoors: ['FIRE_DOOR', 'FIRE_DOOR_FLAT'],
+  hasSmokeDetectors: ['SMOKE_ALARM', 'SMOKE_DETECTOR', 'HEAT_DETECTOR'],
+  hasCoAlarm: ['CO_ALARM'],
+  hasCombustionAppliance: ['GAS_BOILER', 'GAS_FIRE', 'GAS_COOKER', 'GAS_WATER_HEATER'],
+  hasExtinguishers: ['FIRE_EXTINGUISHER'],
+  hasEmergencyLighting: ['EMERGENCY_LIGHT'],
+  hasLift: ['LIFT', 'PASSENGER_LIFT'],
+  hasStairlift: ['STAIRLIFT'],
+  hasWaterTank: ['WATER_TANK'],
+  hasAsbestos: ['ASBESTOS_ACM'],
+};
+
+/** Certificate fields that extraction outputs hold in a list, one entry per defect. */
+const CERTIFICATE_FIELD_PATHS: Record<string, string[]> = {
+  defectCode: ['findings.observations.code', 'defects.code', '_raw.defects.code'],
+};
+
+const INVALID_CERTIFICATE_STATUSES = new Set(['REJECTED', 'FAILED', 'DELETED']);
+const CLOSED_ACTION_STATUSES = ['COMPLETED', 'CANCELLED'];
+
+const PRIORITY_RISK_TIER: Record<string, 'CRITICAL' | 'HIGH' | 'MEDIUM'> = { P1: 'CRITICAL', P2: 'HIGH', P3: 'MEDIUM' };
+const PRIORITY_RISK_SCORE: Record<string, number> = { P1: 90, P2: 70, P3: 40 };
+const PRIORITY_SEVERITY: Record<string, 'URGENT' | 'PRIORITY' | 'ROUTINE'> = { P1: 'URGENT', P2: 'PRIORITY', P3: 'ROUTINE' };
+const PRIORITY_EVENT_PRIORITY: Record<string, string> = { P1: 'HIGH', P2: 'MEDIUM', P3: 'LOW' };
+const SEVERITY_DUE_DAYS: Record<string, number> = { IMMEDIATE: 1, URGENT: 7, PRIORITY: 28, ROUTINE: 90 };
+const CALENDAR_LEAD_DAYS = 28;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RuleCertificate {
+  id: string;
+  documentType: string;
+  status: string;
+  issueDate: string | null;
+  expiryDate: string | null;
+  createdAt: Date;
+  outcome: string | null;
+  data: Record<string, unknown> | null;
+}
+
+export interface RuleContext {
+  property: Property;
+  /** Asset facts from the property, its block, the block's safety profile and installed components. */
+  facts: Record<string, unknown>;
+  certificates: RuleCertificate[];
+}
+
+export interface RuleEvaluation {
+  matched: boolean;
+  /** Human-readable description of each condition that held. */
+  matchedConditions: string[];
+  subjectCertificateId: string | null;
+}
+
+export interface ComplianceRuleApplication {
+  propertyId: string;
+  evaluated: number;
+  matched: number;
+  remedialActionsCreated: number;
+  alertsRaised: number;
+  alertsResolved: number;
+  eventsScheduled: number;
+}
+
+function toDate(value: string | Date | null | undefined): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Maps a certificate to the rule document type code (`GAS`, `FRAEW`, ...). */
+export function resolveCertificateDocumentType(certificateType: string, extractedDocumentType?: string | null, documentTypeCodes: Map<string, string> = new Map()): string {
+  const mapped = CERTIFICATE_TYPE_DOCUMENT_TYPES[certificateType];
+  if (mapped) return mapped;
+  if (extractedDocumentType) {
+    return documentTypeCodes.get(extractedDocumentType.trim().toUpperCase()) ?? extractedDocumentType.trim().toUpperCase();
+  }
+  return certificateType;
+}
+
+export function buildAssetFacts(
+  property: Property,
+  block: Block | null,
+  profile: BuildingSafetyProfile | null,
+  componentTypeCodes: string[]
+): Record<string, unknown> {
+  const facts: Record<string, unknown> = {
+    ...property,
+    hasVulnerableOccupants: property.vulnerableOccupant,
+    hasCommunalAreas: Boolean(block),
+    hasCommunalBoiler: block?.hasCommunalBoiler ?? false,
+    hasLift: block?.hasLift ?? false,
+    isHRB: profile?.isHRB ?? false,
+    componentTypes: componentTypeCodes,
+  };
+  if (profile) {
+    facts.buildingHeight = profile.buildingHeight;
+    facts.numberOfStoreys = profile.numberOfStoreys;
+    facts.hasACM = profile.hasACM;
+    facts.hasHPL = profile.hasHPL;
+    facts.evacuationStrategy = profile.evacuationStrategy;
+  }
+
+  const codes = new Set(componentTypeCodes);
+  for (const [fact, typeCodes] of Object.entries(COMPONENT_FACTS)) {
+    if (typeCodes.some(code => codes.has(code))) facts[fact] = true;
+    else if (facts[fact] === undefined) facts[fact] = false;
+  }
+  if (property.hasGas) facts.hasCombustionAppliance = true;
+  return facts;
+}
+
+function readPath(value: unknown, keys: string[]): unknown {
+  if (keys.length === 0) return value;
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      const found = readPath(item, keys);
+      return found === undefined ? [] : Array.isArray(found) ? found : [found];
+    });
+  }
+  if (!value || typeof value !== 'object') return undefined;
+  return readPath((value as Record<string, unknown>)[keys[0]], keys.slice(1));
+}
+
+/**
+ * Reads a value by dotted path, or finds a key anywhere in the nested extraction output.
+ * Lists are searched too; when a key turns up in several entries every value is returned.
+ */
+function readField(data: Record<string, unknown> | null, field: string): unknown {
+  if (!data) return undefined;
+  if (field.includes('.')) return readPath(data, field.split('.'));
+
+  const queue: unknown[] = [data];
+  for (let depth = 0; depth < 5 && queue.length > 0; depth++) {
+    const level = queue.splice(0, queue.length);
+    const matches: unknown[] = [];
+    for (const node of level) {
+      if (Array.isArray(node)) {
+        queue.push(...node);
+        continue;
+      }
+      if (!node || typeof node !== 'object') continue;
+      const record = node as Record<string, unknown>;
+      if (record[field] !== undefined) matches.push(record[field]);
+      queue.push(...Object.values(record));
+    }
+    if (matches.length > 0) {
+      const distinct = Array.from(new Set(matches));
+      return distinct.length === 1 ? distinct[0] : distinct;
+    }
+  }
+  return undefined;
+}
+
+function normalise(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim().toUpperCase() : value;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function compareValues(actual: unknown, operator: RuleOperator, expected: unknown): boolean {
+  if (Array.isArray(actual) && operator !== 'contains' && operator !== 'exists' && operator !== 'not_exists') {
+    // A list such as one code per defect holds when any entry does; negated operators need every entry to hold
+    return operator === 'not_equals' || operator === 'not_in'
+      ? actual.every(item => compareValue(item, operator, expected))
+      : actual.some(item => compareValue(item, operator, expected));
+  }
+  return compareValue(actual, operator, expected);
+}
+
+function compareValue(actual: unknown, operator: RuleOperator, expected: unknown): boolean {
+  switch (operator) {
+    case 'exists':
+      return !isBlank(actual);
+    case 'not_exists':
+      return isBlank(actual);
+    case 'equals':
+      return normalise(actual) === normalise(expected);
+    case 'not_equals':
+      return actual !== undefined && normalise(actual) !== normalise(expected);
+    case 'in':
+      return Array.isArray(expected) && expected.some(option => normalise(option) === normalise(actual));
+    case 'not_in':
+      return actual !== undefined && Array.isArray(expected) && !expected.some(option => normalise(option) === normalise(actual));
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some(item => normalise(item) === normalise(expected));
+      return typeof actual === 'string' && typeof expected === 'string' && actual.toUpperCase().includes(expected.toUpperCase());
+    case 'greater_than':
+    case 'greater_than_or_equal':
+    case 'less_than':
+    case 'less_than_or_equal': {
+      if (actual === null || actual === undefined || actual === '') return false;
+      const left = Number(actual);
+      const right = Number(expected);
+      if (Number.isNaN(left) || Number.isNaN(right)) return false;
+      if (operator === 'greater_than') return left > right;
+      if (operator === 'greater_than_or_equal') return left >= right;
+      if (operator === 'less_than') return left < right;
+      return left <= right;
+    }
+    default:
+      return false;
+  }
+}
+
+/** A certificate counts as valid while it is not rejected or failed, has not expired and falls within the window. */
+export function hasValidCertificate(certificates: RuleCertificate[], documentType: string, condition: Pick<RuleCondition, 'withinMonths' | 'withinDays'>, now: Date): boolean {
+  let windowStart: Date | null = null;
+  if (condition.withinMonths) {
+    windowStart = new Date(now);
+    windowStart.setMonth(windowStart.getMonth() - condition.withinMonths);
+  } else if (condition.withinDays) {
+    windowStart = new Date(now.getTime() - condition.withinDays * DAY_MS);
+  }
+
+  return certificates.some(certificate => {
+    if (certificate.documentType !== documentType || INVALID_CERTIFICATE_STATUSES.has(certificate.status)) return false;
+    const expiry = toDate(certificate.expiryDate);
+    if (expiry && expiry < now) return false;
+    const issued = toDate(certificate.issueDate) ?? certificate.createdAt;
+    return !windowStart || issued >= windowStart;
+  });
+}
+
+/** The rule's subject is the most recently issued usable certificate of its document type. */
+function findSubjectCertificate(certificates: RuleCertificate[], documentType: string): RuleCertificate | null {
+  const candidates = certificates
+    .filter(certificate => certificate.documentType === documentType && !INVALID_CERTIFICATE_STATUSES.has(certificate.status))
+    .sort((a, b) => (toDate(b.issueDate) ?? b.createdAt).getTime() - (toDate(a.issueDate) ?? a.createdAt).getTime());
+  return candidates[0] ?? null;
+}
+
+function certificateField(certificate: RuleCertificate | null, field: string, now: Date): unknown {
+  if (!certificate) return undefined;
+  if (field === 'expiryDays') {
+    const expiry = toDate(certificate.expiryDate);
+    return expiry ? Math.floor((expiry.getTime() - now.getTime()) / DAY_MS) : undefined;
+  }
+  if (field === 'outcome' && certificate.outcome) return certificate.outcome;
+  const value = readField(certificate.data, field);
+  if (value !== undefined) return value;
+  for (const path of CERTIFICATE_FIELD_PATHS[field] ?? []) {
+    const listed = readField(certificate.data, path);
+    if (!isBlank(listed)) return listed;
+  }
+  return undefined;
+}
+
+function describeCondition(condition: RuleCondition, actual: unknown): string {
+  if (condition.operator === 'missing' || condition.operator === 'present') {
+    const window = condition.withinMonths ? ` within ${condition.withinMonths} months` : condition.withinDays ? ` within ${condition.withinDays} days` : '';
+    const docType = condition.field.slice('certificates.'.length);
+    return `${condition.operator === 'missing' ? 'No' : 'Has'} valid ${docType} certificate${window}`;
+  }
+  const expected = condition.value === undefined ? '' : ` ${JSON.stringify(condition.value)}`;
+  return `${condition.field} ${condition.operator.replace(/_/g, ' ')}${expected} (actual: ${JSON.stringify(actual ?? null)})`;
+}
+
+/** A rule's stored conditions, or null when any of them is invalid. */
+export function parseRuleConditions(conditions: unknown): RuleCondition[] | null {
+  const parsed = ruleConditionsSchema.safeParse(conditions);
+  return parsed.success ? parsed.data : null;
+}
+
+/** Evaluates a rule's conditions against one property's context. A rule with no conditions, or an invalid one, never matches. */
+export function evaluateRule(rule: ComplianceRuleDefinition, context: RuleContext, now: Date = new Date()): RuleEvaluation {
+  const conditions = parseRuleConditions(rule.conditions);
+  const subject = findSubjectCertificate(context.certificates, rule.documentType);
+  if (!conditions || conditions.length === 0) return { matched: false, matchedConditions: [], subjectCertificateId: subject?.id ?? null };
+
+  const results = conditions.map(condition => {
+    if (condition.operator === 'missing' || condition.operator === 'present') {
+      if (!condition.field.startsWith('certificates.')) return { condition, held: false, actual: undefined };
+      const valid = hasValidCertificate(context.certificates, condition.field.slice('certificates.'.length), condition, now);
+      return { condition, held: condition.operator === 'present' ? valid : !valid, actual: valid };
+    }
+    const actual = condition.field in context.facts ? context.facts[condition.field] : certificateField(subject, condition.field, now);
+    return { condition, held: compareValues(actual, condition.operator, condition.value), actual };
+  });
+
+  const matched = rule.conditionLogic === 'OR' ? results.some(result => result.held) : results.every(result => result.held);
+  return {
+    matched,
+    matchedConditions: results.filter(result => result.held).map(result => describeCondition(result.condition, result.actual)),
+    subjectCertificateId: subject?.id ?? null,
+  };
+}
+
+export function ruleOutcome(rule: Pick<ComplianceRuleDefinition, 'action'>): RuleOutcome {
+  return RULE_ACTION_OUTCOMES[rule.action] ?? 'RISK_ALERT';
+}
+
+interface ContextCache {
+  blocks: Map<string, Block | null>;
+  profiles: Map<string, BuildingSafetyProfile | null>;
+  blockComponentTypes: Map<string, string[]>;
+  componentTypeCodes: Map<string, string>;
+  documentTypeCodes: Map<string, string>;
+}
+
+async function createContextCache(): Promise<ContextCache> {
+  const [componentTypes, certificateTypes] = await Promise.all([storage.listComponentTypes(), storage.listCertificateTypes()]);
+  const documentTypeCodes = new Map<string, string>();
+  for (const type of certificateTypes) {
+    for (const label of [type.code, type.name, type.shortName]) {
+      if (label) documentTypeCodes.set(label.trim().toUpperCase(), type.code);
+    }
+  }
+  return {
+    blocks: new Map(),
+    profiles: new Map(),
+    blockComponentTypes: new Map(),
+    componentTypeCodes: new Map(componentTypes.map(type => [type.id, type.code])),
+    documentTypeCodes,
+  };
+}
+
+async function loadRuleCertificates(organisationId: string, propertyId: string, cache: ContextCache): Promise<RuleCertificate[]> {
+  const certificates = (await storage.listCertificates(organisationId, { propertyId }))
+    .filter((certificate: Certificate) => !certificate.deletedAt);
+  if (certificates.length === 0) return [];
+
+  const runs = await db.select({
+    certificateId: extractionRuns.certificateId,
+    documentType: extractionRuns.documentType,
+    finalOutput: extractionRuns.finalOutput,
+    normalisedOutput: extractionRuns.normalisedOutput,
+    validatedOutput: extractionRuns.validatedOutput,
+  })
+    .from(extractionRuns)
+    .where(inArray(extractionRuns.certificateId, certificates.map(certificate => certificate.id)))
+    .orderBy(desc(extractionRuns.createdAt));
+
+  const latestRuns = new Map<string, typeof runs[number]>();
+  for (const run of runs) {
+    if (!latestRuns.has(run.certificateId)) latestRuns.set(run.certificateId, run);
+  }
+
+  return certificates.map(certificate => {
+    const run = latestRuns.get(certificate.id);
+    const data = (run?.finalOutput ?? run?.normalisedOutput ?? run?.validatedOutput ?? null) as Record<string, unknown> | null;
+    return {
+      id: certificate.id,
+      documentType: resolveCertificateDocumentType(certificate.certificateType, run?.documentType, cache.documentTypeCodes),
+      status: certificate.status,
+      issueDate: certificate.issueDate,
+      expiryDate: certificate.expiryDate,
+      createdAt: certificate.createdAt,
+      outcome: certificate.outcome,
+      data,
+    };
+  });
+}
+
+async function loadRuleContext(organisationId: string, property: Property, cache: ContextCache): Promise<RuleContext> {
+  let block: Block | null = null;
+  let profile: BuildingSafetyProfile | null = null;
+  let blockComponentTypes: string[] = [];
+
+  if (property.blockId) {
+    if (!cache.blocks.has(property.blockId)) {
+      cache.blocks.set(property.blockId, (await storage.getBlock(property.blockId)) ?? null);
+      cache.profiles.set(property.blockId, (await storage.getBuildingSafetyProfileByBlockId(property.blockId)) ?? null);
+      const components = await storage.listComponents({ blockId: property.blockId });
+      cache.blockComponentTypes.set(property.blockId, components
+        .filter(component => component.isActive)
+        .map(component => cache.componentTypeCodes.get(component.componentTypeId) ?? ''));
+    }
+    block = cache.blocks.get(property.blockId) ?? null;
+    profile = cache.profiles.get(property.blockId) ?? null;
+    blockComponentTypes = cache.blockComponentTypes.get(property.blockId) ?? [];
+  }
+
+  const propertyComponents = await storage.listComponents({ propertyId: property.id });
+  const componentTypeCodes = Array.from(new Set([
+    ...blockComponentTypes,
+    ...propertyComponents.filter(component => component.isActive).map(component => cache.componentTypeCodes.get(component.componentTypeId) ?? ''),
+  ])).filter(Boolean);
+
+  return {
+    property,
+    facts: buildAssetFacts(property, block, profile, componentTypeCodes),
+    certificates: await loadRuleCertificates(organisationId, property.id, cache),
+  };
+}
+
+/** Open rule alerts and unfinished rule actions, keyed by `${propertyId}:${ruleCode}`. */
+interface OpenRuleOutcomes {
+  alerts: Map<string, string>;
+  actions: Set<string>;
+}
+
+function outcomeKey(propertyId: string, ruleCode: string): string {
+  return `${propertyId}:${ruleCode}`;
+}
+
+async function loadOpenRuleOutcomes(organisationId: string, propertyId?: string): Promise<OpenRuleOutcomes> {
+  const alertConditions = [
+    eq(riskAlerts.organisationId, organisationId),
+    eq(riskAlerts.alertType, COMPLIANCE_RULE_ALERT_TYPE),
+    eq(riskAlerts.status, 'OPEN'),
+  ];
+  if (propertyId) alertConditions.push(eq(riskAlerts.propertyId, propertyId));
+
+  const [alerts, actions] = await Promise.all([
+    db.select({ id: riskAlerts.id, propertyId: riskAlerts.propertyId, ruleCode: sql<string | null>`${riskAlerts.metadata}->>'ruleCode'` })
+      .from(riskAlerts)
+      .where(and(...alertConditions)),
+    storage.listRemedialActions(organisationId, propertyId ? { propertyId } : undefined),
+  ]);
+
+  const outcomes: OpenRuleOutcomes = { alerts: new Map(), actions: new Set() };
+  for (const alert of alerts) {
+    if (alert.propertyId && alert.ruleCode) outcomes.alerts.set(outcomeKey(alert.propertyId, alert.ruleCode), alert.id);
+  }
+  for (const action of actions) {
+    if (action.code && !CLOSED_ACTION_STATUSES.includes(action.status)) outcomes.actions.add(outcomeKey(action.propertyId, action.code));
+  }
+  return outcomes;
+}
+
+/** Resolves the open alert a rule raised for a property, if there is one. */
+async function resolveRuleAlert(key: string, rule: ComplianceRule, outcomes: OpenRuleOutcomes, reason: string, now: Date): Promise<boolean> {
+  const existing = outcomes.alerts.get(key);
+  if (!existing) return false;
+  await db.update(riskAlerts)
+    .set({ status: 'RESOLVED', resolvedAt: now, resolutionNotes: `Compliance rule ${rule.ruleCode} ${reason}`, updatedAt: now })
+    .where(eq(riskAlerts.id, existing));
+  outcomes.alerts.delete(key);
+  return true;
+}
+
+async function syncRuleAlert(
+  organisationId: string,
+  rule: ComplianceRule,
+  context: RuleContext,
+  evaluation: RuleEvaluation,
+  outcomes: OpenRuleOutcomes,
+  now: Date
+): Promise<'RAISED' | 'RESOLVED' | null> {
+  const key = outcomeKey(context.property.id, rule.ruleCode);
+  const existing = outcomes.alerts.get(key);
+
+  if (!evaluation.matched) {
+    return await resolveRuleAlert(key, rule, outcomes, 'no longer applies', now) ? 'RESOLVED' : null;
+  }
+  if (existing) return null;
+
+  await db.insert(riskAlerts).values({
+    organisationId,
+    propertyId: context.property.id,
+    alertType: COMPLIANCE_RULE_ALERT_TYPE,
+    riskTier: PRIORITY_RISK_TIER[rule.priority ?? 'P3'] ?? 'MEDIUM',
+    title: `${rule.ruleName} - ${context.property.addressLine1}`,
+    description: rule.description ?? rule.ruleName,
+    triggeringFactors: evaluation.matchedConditions,
+    riskScore: PRIORITY_RISK_SCORE[rule.priority ?? 'P3'] ?? 40,
+    linkedCertificateIds: evaluation.subjectCertificateId ? [evaluation.subjectCertificateId] : null,
+    metadata: { ruleId: rule.id, ruleCode: rule.ruleCode, legislation: rule.legislation },
+  });
+  return 'RAISED';
+}
+
+async function createRuleRemedialAction(rule: ComplianceRule, context: RuleContext, evaluation: RuleEvaluation, outcomes: OpenRuleOutcomes, now: Date): Promise<boolean> {
+  const key = outcomeKey(context.property.id, rule.ruleCode);
+  if (outcomes.actions.has(key)) return false;
+
+  const severity = rule.action === 'AUTO_FAIL' && rule.priority === 'P1' ? 'IMMEDIATE' : PRIORITY_SEVERITY[rule.priority ?? 'P3'] ?? 'ROUTINE';
+  const action = await storage.createRemedialAction({
+    certificateId: evaluation.subjectCertificateId!,
+    propertyId: context.property.id,
+    code: rule.ruleCode,
+    category: 'COMPLIANCE_RULE',
+    description: `${rule.ruleName}: ${evaluation.matchedConditions.join('; ')}`,
+    severity,
+    status: 'OPEN',
+    dueDate: new Date(now.getTime() + SEVERITY_DUE_DAYS[severity] * DAY_MS).toISOString().split('T')[0],
+  });
+  outcomes.actions.add(key);
+
+  enqueueWebhookEvent('action.created', 'remedialAction', action.id, {
+    id: action.id,
+    propertyId: action.propertyId,
+    code: action.code,
+    description: action.description,
+    severity: action.severity,
+    status: action.status,
+    dueDate: action.dueDate,
+  });
+  return true;
+}
+
+async function scheduleRuleEvent(organisationId: string, rule: ComplianceRule, context: RuleContext, evaluation: RuleEvaluation, now: Date): Promise<boolean> {
+  const title = `${rule.ruleName}: ${context.property.addressLine1}`;
+  const [existing] = await db.select({ id: complianceCalendarEvents.id })
+    .from(complianceCalendarEvents)
+    .where(and(
+      eq(complianceCalendarEvents.organisationId, organisationId),
+      eq(complianceCalendarEvents.propertyId, context.property.id),
+      eq(complianceCalendarEvents.title, title),
+      eq(complianceCalendarEvents.isSystemGenerated, true),
+      gte(complianceCalendarEvents.startDate, now)
+    ))
+    .limit(1);
+  if (existing) return false;
+
+  const subject = context.certificates.find(certificate => certificate.id === evaluation.subjectCertificateId);
+  const expiry = toDate(subject?.expiryDate);
+  await storage.createCalendarEvent({
+    organisationId,
+    title,
+    description: `${rule.description ?? rule.ruleName}. ${evaluation.matchedConditions.join('; ')}`,
+    eventType: 'STREAM_TASK',
+    complianceStreamId: rule.complianceStreamId,
+    startDate: expiry && expiry > now ? expiry : new Date(now.getTime() + CALENDAR_LEAD_DAYS * DAY_MS),
+    propertyId: context.property.id,
+    certificateId: evaluation.subjectCertificateId,
+    reminderDaysBefore: 7,
+    legislationReference: rule.legislation,
+    priority: PRIORITY_EVENT_PRIORITY[rule.priority ?? 'P3'] ?? 'MEDIUM',
+    isSystemGenerated: true,
+  });
+  return true;
+}
+
+async function applyRulesToProperty(
+  organisationId: string,
+  property: Property,
+  rules: ComplianceRule[],
+  cache: ContextCache,
+  outcomes: OpenRuleOutcomes,
+  now: Date
+): Promise<ComplianceRuleApplication> {
+  const context = await loadRuleContext(organisationId, property, cache);
+  const result: ComplianceRuleApplication = {
+    propertyId: property.id,
+    evaluated: rules.length,
+    matched: 0,
+    remedialActionsCreated: 0,
+    alertsRaised: 0,
+    alertsResolved: 0,
+    eventsScheduled: 0,
+  };
+
+  for (const rule of rules) {
+    const evaluation = evaluateRule(rule, context, now);
+    if (evaluation.matched) result.matched++;
+
+    let outcome = ruleOutcome(rule);
+    // Remedial actions hang off a certificate, so requirement rules without one are raised as alerts
+    if (outcome === 'REMEDIAL_ACTION' && !evaluation.subjectCertificateId) outcome = 'RISK_ALERT';
+
+    if (outcome === 'RISK_ALERT') {
+      const alert = await syncRuleAlert(organisationId, rule, context, evaluation, outcomes, now);
+      if (alert === 'RAISED') result.alertsRaised++;
+      if (alert === 'RESOLVED') result.alertsResolved++;
+      continue;
+    }
+
+    // The outcome is no longer an alert, e.g. the rule's action changed or its subject certificate turned up
+    if (await resolveRuleAlert(outcomeKey(property.id, rule.ruleCode), rule, outcomes, `now produces a ${outcome.toLowerCase().replace('_', ' ')}`, now)) {
+      result.alertsResolved++;
+    }
+    if (evaluation.matched && outcome === 'REMEDIAL_ACTION') {
+      if (await createRuleRemedialAction(rule, context, evaluation, outcomes, now)) result.remedialActionsCreated++;
+    } else if (evaluation.matched && outcome === 'CALENDAR_EVENT') {
+      if (await scheduleRuleEvent(organisationId, rule, context, evaluation, now)) result.eventsScheduled++;
+    }
+  }
+  return result;
+}
+
+async function listActiveRules(): Promise<ComplianceRule[]> {
+  const rules = await db.select().from(complianceRules).where(eq(complianceRules.isActive, true));
+  for (const rule of rules) {
+    const parsed = ruleConditionsSchema.safeParse(rule.conditions);
+    if (!parsed.success) {
+      logger.warn({ ruleId: rule.id, ruleCode: rule.ruleCode, issues: parsed.error.errors }, 'Compliance rule has invalid conditions and will not match');
+    }
+  }
+  return rules;
+}
+
+/** Resolves the open alerts a rule raised, e.g. once it is deactivated or deleted. */
+export async function resolveComplianceRuleAlerts(ruleCode: string, reason: string, now: Date = new Date()): Promise<number> {
+  const resolved = await db.update(riskAlerts)
+    .set({ status: 'RESOLVED', resolvedAt: now, resolutionNotes: `Compliance rule ${ruleCode} ${reason}`, updatedAt: now })
+    .where(and(
+      eq(riskAlerts.alertType, COMPLIANCE_RULE_ALERT_TYPE),
+      eq(riskAlerts.status, 'OPEN'),
+      sql`${riskAlerts.metadata}->>'ruleCode' = ${ruleCode}`
+    ))
+    .returning({ id: riskAlerts.id });
+  return resolved.length;
+}
+
+/** Runs every active rule against one property, e.g. after one of its certificates is approved. */
+export async function evaluatePropertyComplianceRules(organisationId: string, propertyId: string, now: Date = new Date()): Promise<ComplianceRuleApplication | null> {
+  const property = await storage.getProperty(propertyId);
+  if (!property) return null;
+  const [rules, cache, outcomes] = await Promise.all([listActiveRules(), createContextCache(), loadOpenRuleOutcomes(organisationId, propertyId)]);
+  return applyRulesToProperty(organisationId, property, rules, cache, outcomes, now);
+}
+
+/**
+ * Nightly sweep: evaluates every active rule against every property, raising and
+ * resolving rule alerts and creating remedial actions and calendar events. Alerts
+ * left open by rules that are no longer active are resolved.
+ */
+export async function runComplianceRulesSweep(now: Date = new Date()): Promise<{ properties: number; matched: number; remedialActionsCreated: number; alertsRaised: number; alertsResolved: number; eventsScheduled: number }> {
+  const rules = await listActiveRules();
+  const activeRuleCodes = new Set(rules.map(rule => rule.ruleCode));
+  const totals = { properties: 0, matched: 0, remedialActionsCreated: 0, alertsRaised: 0, alertsResolved: 0, eventsScheduled: 0 };
+
+  for (const organisation of await storage.listOrganisations()) {
+    const outcomes = await loadOpenRuleOutcomes(organisation.id);
+    const retiredAlertIds = Array.from(outcomes.alerts.entries())
+      .filter(([key]) => !activeRuleCodes.has(key.slice(key.indexOf(':') + 1)))
+      .map(([, id]) => id);
+    if (retiredAlertIds.length > 0) {
+      await db.update(riskAlerts)
+        .set({ status: 'RESOLVED', resolvedAt: now, resolutionNotes: 'Compliance rule is no longer active', updatedAt: now })
+        .where(inArray(riskAlerts.id, retiredAlertIds));
+      totals.alertsResolved += retiredAlertIds.length;
+    }
+    if (rules.length === 0) continue;
+
+    const cache = await createContextCache();
+    const properties = await storage.listProperties(organisation.id);
+    for (const property of properties) {
+      if (property.deletedAt) continue;
+      try {
+        const result = await applyRulesToProperty(organisation.id, property, rules, cache, outcomes, now);
+        totals.properties++;
+        totals.matched += result.matched;
+        totals.remedialActionsCreated += result.remedialActionsCreated;
+        totals.alertsRaised += result.alertsRaised;
+        totals.alertsResolved += result.alertsResolved;
+        totals.eventsScheduled += result.eventsScheduled;
+      } catch (error) {
+        logger.error({ error, propertyId: property.id }, 'Failed to evaluate compliance rules for property');
+      }
+    }
+  }
+  return totals;
+}
+
+export interface ComplianceRuleDryRun {
+  ruleCode: string;
+  outcome: RuleOutcome;
+  evaluated: number;
+  matched: number;
+  properties: Array<{
+    propertyId: string;
+    uprn: string;
+    addressLine1: string;
+    postcode: string;
+    subjectCertificateId: string | null;
+    matchedConditions: string[];
+  }>;
+}
+
+/** Shows which of an organisation's properties a rule would hit, without creating anything. */
+export async function dryRunComplianceRule(organisationId: string, rule: ComplianceRuleDefinition, now: Date = new Date()): Promise<ComplianceRuleDryRun> {
+  const cache = await createContextCache();
+  const properties = (await storage.listProperties(organisationId)).filter(property => !property.deletedAt);
+  const result: ComplianceRuleDryRun = { ruleCode: rule.ruleCode, outcome: ruleOutcome(rule), evaluated: properties.length, matched: 0, properties: [] };
+
+  for (const property of properties) {
+    const context = await loadRuleContext(organisationId, property, cache);
+    const evaluation = evaluateRule(rule, context, now);
+    if (!evaluation.matched) continue;
+    result.matched++;
+    result.properties.push({
+      propertyId: property.id,
+      uprn: property.uprn,
+      addressLine1: property.addressLine1,
+      postcode: property.postcode,
+      subjectCertificateId: evaluation.subjectCertificateId,
+      matchedConditions: evaluation.matchedConditions,
+    });
+  }
+  return result;
+}
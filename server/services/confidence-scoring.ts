@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { fieldConfidenceScores, autoApprovalThresholds, confidenceBaselines, humanReviews } from '@shared/schema';
-import { eq, and, sql, gte } from 'drizzle-orm';
+import { eq, and, or, sql, isNull } from 'drizzle-orm';
+import type { AutoApprovalThreshold } from '@shared/schema';
 import { logger } from '../logger';
 
 export interface FieldConfidence {
@@ -104,52 +105,73 @@ export interface AutoApprovalResult {
   overallConfidence: number;
 }
 
+/**
+ * A run is eligible only when the certificate type's threshold is enabled (the recalibration job
+ * enables it once enough reviewed samples meet the accuracy bar) and every required or supplied
+ * field clears its own threshold, falling back to the type-level one. Organisation rows override
+ * global (organisationId IS NULL) rows.
+ */
 export async function checkAutoApprovalEligibility(
   certificateType: string,
   fieldConfidences: FieldConfidence[],
-  organisationId?: string
+  organisationId?: string,
+  requiredFields: string[] = []
 ): Promise<AutoApprovalResult> {
   try {
     const thresholds = await db.select()
       .from(autoApprovalThresholds)
       .where(and(
         eq(autoApprovalThresholds.certificateType, certificateType),
-        eq(autoApprovalThresholds.isEnabled, true),
         organisationId 
-          ? eq(autoApprovalThresholds.organisationId, organisationId)
-          : sql`${autoApprovalThresholds.organisationId} IS NULL`
+          ? or(eq(autoApprovalThresholds.organisationId, organisationId), isNull(autoApprovalThresholds.organisationId))
+          : isNull(autoApprovalThresholds.organisationId)
       ));
     
-    if (thresholds.length === 0) {
+    const overallConfidence = calculateOverallConfidence(fieldConfidences);
+    const thresholdMap = new Map<string, AutoApprovalThreshold>();
+    for (const threshold of thresholds) {
+      const key = threshold.fieldName ?? '';
+      const existing = thresholdMap.get(key);
+      if (!existing || (threshold.organisationId && !existing.organisationId)) {
+        thresholdMap.set(key, threshold);
+      }
+    }
+    
+    const typeThreshold = thresholdMap.get('');
+    if (!typeThreshold) {
       return {
         canAutoApprove: false,
         reason: 'No auto-approval thresholds configured for this certificate type',
         fieldsBelowThreshold: [],
-        overallConfidence: calculateOverallConfidence(fieldConfidences),
+        overallConfidence,
       };
     }
     
-    const thresholdMap = new Map<string, number>();
-    let globalThreshold = 0.9;
-    
-    for (const threshold of thresholds) {
-      if (threshold.fieldName) {
-        thresholdMap.set(threshold.fieldName, threshold.minConfidenceThreshold);
-      } else {
-        globalThreshold = threshold.minConfidenceThreshold;
-      }
+    if (!typeThreshold.isEnabled) {
+      return {
+        canAutoApprove: false,
+        reason: `Auto-approval not enabled for this certificate type (${typeThreshold.currentSampleSize}/${typeThreshold.requiredSampleSize} reviewed samples)`,
+        fieldsBelowThreshold: [],
+        overallConfidence,
+      };
     }
     
+    const confidenceByField = new Map(fieldConfidences.map(field => [field.fieldName, field.confidence]));
+    const fieldNames = new Set([...requiredFields, ...fieldConfidences.map(field => field.fieldName)]);
+    thresholdMap.forEach((_, key) => {
+      if (key) fieldNames.add(key);
+    });
+    
     const fieldsBelowThreshold: string[] = [];
     
-    for (const field of fieldConfidences) {
-      const requiredThreshold = thresholdMap.get(field.fieldName) || globalThreshold;
-      if (field.confidence < requiredThreshold) {
-        fieldsBelowThreshold.push(field.fieldName);
+    fieldNames.forEach(fieldName => {
+      const fieldThreshold = thresholdMap.get(fieldName);
+      const confidence = confidenceByField.get(fieldName) ?? 0;
+      const requiredThreshold = fieldThreshold?.minConfidenceThreshold ?? typeThreshold.minConfidenceThreshold;
+      if ((fieldThreshold && !fieldThreshold.isEnabled) || confidence < requiredThreshold) {
+        fieldsBelowThreshold.push(fieldName);
       }
-    }
-    
-    const overallConfidence = calculateOverallConfidence(fieldConfidences);
+    });
     
     if (fieldsBelowThreshold.length > 0) {
       return {
@@ -0,0 +1,329 @@
+import { db } from '../db';
+import { contractorCertifications } from '@shared/schema';
+import type { Contractor, ContractorCertification } from '@shared/schema';
+import { and, eq, isNotNull, lte, notInArray } from 'drizzle-orm';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { recordAudit, type AuditContext } from './audit';
+import {
+  evaluateCompetency,
+  getOrganisationCompetencyMatrix,
+  type CompetencyMatrix,
+  type WorkCategory,
+} from './contractor-competency';
+
+export interface CertificationMonitorPolicy {
+  /** Days before expiry at which a warning alert is raised, one alert per lead time. */
+  leadTimeDays: number[];
+  /** Suspend an approved contractor when a lapse leaves a work category uncovered. */
+  suspendOnMandatoryLapse: boolean;
+}
+
+export interface CertificationMonitorResult {
+  checked: number;
+  warningsRaised: number;
+  expired: number;
+  assignmentsFlagged: number;
+  contractorsSuspended: number;
+}
+
+export const DEFAULT_CERTIFICATION_MONITOR_POLICY: CertificationMonitorPolicy = {
+  leadTimeDays: [60, 30, 7],
+  suspendOnMandatoryLapse: false,
+};
+
+export const MAX_LEAD_TIME_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CLOSED_CERTIFICATION_STATUSES = ['EXPIRED', 'REVOKED'] as const;
+const OPEN_ASSIGNMENT_STATUSES = ['OPEN', 'SCHEDULED', 'IN_PROGRESS'];
+
+function normaliseLeadTimes(values: unknown): number[] | null {
+  if (!Array.isArray(values)) return null;
+  const days = values
+    .filter((value): value is number => Number.isInteger(value) && value >= 1 && value <= MAX_LEAD_TIME_DAYS);
+  return days.length > 0 ? Array.from(new Set(days)).sort((a, b) => b - a) : null;
+}
+
+/**
+ * Reads the organisation's policy from `settings.contractorCertificationMonitor`,
+ * falling back to the defaults for anything missing or invalid.
+ */
+export function parseCertificationMonitorPolicy(settings: unknown): CertificationMonitorPolicy {
+  const raw = (settings as { contractorCertificationMonitor?: Partial<CertificationMonitorPolicy> } | null)?.contractorCertificationMonitor;
+  return {
+    leadTimeDays: normaliseLeadTimes(raw?.leadTimeDays) ?? DEFAULT_CERTIFICATION_MONITOR_POLICY.leadTimeDays,
+    suspendOnMandatoryLapse: typeof raw?.suspendOnMandatoryLapse === 'boolean'
+      ? raw.suspendOnMandatoryLapse
+      : DEFAULT_CERTIFICATION_MONITOR_POLICY.suspendOnMandatoryLapse,
+  };
+}
+
+export function daysUntilExpiry(expiryDate: Date, now: Date = new Date()): number {
+  return Math.ceil((expiryDate.getTime() - now.getTime()) / DAY_MS);
+}
+
+/**
+ * Returns the tightest lead time the certification has reached, or null when it
+ * is not yet inside any warning window.
+ */
+export function selectExpiryStage(daysRemaining: number, leadTimeDays: number[]): number | null {
+  const reached = leadTimeDays.filter(days => daysRemaining <= days);
+  return reached.length > 0 ? Math.min(...reached) : null;
+}
+
+/**
+ * Work categories the lapsed certifications covered that the contractor's
+ * remaining certifications no longer satisfy.
+ */
+export function findLapsedCategories(
+  lapsed: ContractorCertification[],
+  remaining: ContractorCertification[],
+  matrix: CompetencyMatrix,
+  now: Date = new Date()
+): WorkCategory[] {
+  return (Object.keys(matrix) as WorkCategory[]).filter(category => {
+    const required = matrix[category];
+    const wasCovered = lapsed.some(cert =>
+      required.includes(cert.registrationType)
+      && (!cert.workCategories?.length || cert.workCategories.includes(category))
+    );
+    return wasCovered && !evaluateCompetency(category, remaining, matrix, now).satisfied;
+  });
+}
+
+export async function getCertificationMonitorPolicy(organisationId: string): Promise<CertificationMonitorPolicy> {
+  try {
+    const organisation = await storage.getOrganisation(organisationId);
+    return parseCertificationMonitorPolicy(organisation?.settings);
+  } catch (error) {
+    logger.error({ error, organisationId }, 'Failed to load certification monitor policy, using defaults');
+    return { ...DEFAULT_CERTIFICATION_MONITOR_POLICY };
+  }
+}
+
+export async function updateCertificationMonitorPolicy(
+  organisationId: string,
+  updates: Partial<CertificationMonitorPolicy>,
+  context: AuditContext
+): Promise<CertificationMonitorPolicy> {
+  const organisation = await storage.getOrganisation(organisationId);
+  const before = parseCertificationMonitorPolicy(organisation?.settings);
+  const settings = (organisation?.settings as Record<string, unknown> | null) ?? {};
+
+  const contractorCertificationMonitor = { ...before, ...updates };
+  await storage.updateOrganisation(organisationId, { settings: { ...settings, contractorCertificationMonitor } });
+  const after = parseCertificationMonitorPolicy({ contractorCertificationMonitor });
+
+  await recordAudit({
+    organisationId,
+    eventType: 'SETTINGS_CHANGED',
+    entityType: 'ORGANISATION',
+    entityId: organisationId,
+    entityName: organisation?.name,
+    message: 'Contractor certification monitoring policy updated',
+    beforeState: { ...before },
+    afterState: { ...after },
+    context,
+  });
+  return after;
+}
+
+async function raiseExpiryWarning(cert: ContractorCertification, leadTimeDays: number, daysRemaining: number): Promise<boolean> {
+  const expiryDate = cert.expiryDate!.toISOString();
+
+  // Any earlier alert for this stage counts, so resolving a warning does not re-raise it the next day
+  const alerts = await storage.listContractorAlerts(cert.organisationId, { contractorId: cert.contractorId });
+  const alreadyRaised = alerts.some(alert => {
+    const metadata = alert.metadata as { leadTimeDays?: number; expiryDate?: string } | null;
+    return alert.certificationId === cert.id
+      && alert.alertType === 'CERTIFICATION_EXPIRING'
+      && metadata?.leadTimeDays === leadTimeDays
+      && metadata?.expiryDate === expiryDate;
+  });
+  if (alreadyRaised) return false;
+
+  await storage.createContractorAlert({
+    organisationId: cert.organisationId,
+    contractorId: cert.contractorId,
+    certificationId: cert.id,
+    alertType: 'CERTIFICATION_EXPIRING',
+    severity: leadTimeDays <= 7 ? 'URGENT' : leadTimeDays <= 30 ? 'PRIORITY' : 'ROUTINE',
+    title: `${cert.registrationType} registration expires in ${daysRemaining} day${daysRemaining === 1 ? '' : 's'}`,
+    description: `Registration ${cert.registrationNumber} expires on ${expiryDate}. Renewal evidence is needed before then.`,
+    dueDate: cert.expiryDate,
+    metadata: { leadTimeDays, expiryDate },
+  });
+  return true;
+}
+
+async function expireCertification(cert: ContractorCertification): Promise<void> {
+  await storage.updateContractorCertification(cert.id, { verificationStatus: 'EXPIRED' });
+  await storage.createContractorVerificationHistory({
+    contractorId: cert.contractorId,
+    certificationId: cert.id,
+    organisationId: cert.organisationId,
+    verificationType: 'EXPIRY_MONITOR',
+    verificationMethod: 'AUTOMATED',
+    previousStatus: cert.verificationStatus,
+    newStatus: 'EXPIRED',
+    notes: `Registration expired on ${cert.expiryDate!.toISOString()}`,
+  });
+  await storage.createContractorAlert({
+    organisationId: cert.organisationId,
+    contractorId: cert.contractorId,
+    certificationId: cert.id,
+    alertType: 'CERTIFICATION_EXPIRED',
+    severity: 'URGENT',
+    title: `${cert.registrationType} registration has expired`,
+    description: `Registration ${cert.registrationNumber} expired on ${cert.expiryDate!.toISOString()} and no longer counts towards competency checks.`,
+    dueDate: cert.expiryDate,
+    metadata: { expiryDate: cert.expiryDate!.toISOString() },
+  });
+}
+
+async function suspendContractor(contractor: Contractor, lapsed: ContractorCertification[], categories: WorkCategory[]): Promise<void> {
+  await storage.updateContractorStatus(contractor.id, 'SUSPENDED');
+  await storage.createContractorVerificationHistory({
+    contractorId: contractor.id,
+    organisationId: contractor.organisationId,
+    verificationType: 'AUTOMATIC_SUSPENSION',
+    verificationMethod: 'AUTOMATED',
+    newStatus: 'SUSPENDED',
+    notes: `Suspended after ${lapsed.map(cert => cert.registrationType).join(', ')} lapsed, leaving ${categories.join(', ')} uncovered`,
+  });
+  await recordAudit({
+    organisationId: contractor.organisationId,
+    eventType: 'CONTRACTOR_SUSPENDED',
+    entityType: 'CONTRACTOR',
+    entityId: contractor.id,
+    entityName: contractor.companyName,
+    message: `${contractor.companyName} suspended automatically: mandatory registration lapsed for ${categories.join(', ')}`,
+    beforeState: { status: contractor.status },
+    afterState: { status: 'SUSPENDED' },
+    metadata: { certificationIds: lapsed.map(cert => cert.id), workCategories: categories },
+  });
+}
+
+/**
+ * Flags the contractor's open work in categories the lapse left uncovered and,
+ * when the policy asks for it, suspends the contractor.
+ */
+async function handleCompetencyLapse(
+  organisationId: string,
+  contractorId: string,
+  lapsed: ContractorCertification[],
+  matrix: CompetencyMatrix,
+  policy: CertificationMonitorPolicy,
+  now: Date
+): Promise<{ assignmentsFlagged: number; suspended: boolean }> {
+  const lapsedIds = new Set(lapsed.map(cert => cert.id));
+  const remaining = (await storage.listContractorCertifications(organisationId, contractorId))
+    .filter(cert => !lapsedIds.has(cert.id));
+  const categories = findLapsedCategories(lapsed, remaining, matrix, now);
+  if (categories.length === 0) return { assignmentsFlagged: 0, suspended: false };
+
+  const assignments = (await storage.listContractorAssignments(organisationId, { contractorId }))
+    .filter(assignment => OPEN_ASSIGNMENT_STATUSES.includes(assignment.status) && categories.includes(assignment.workCategory));
+
+  for (const assignment of assignments) {
+    await storage.updateContractorAssignment(assignment.id, {
+      metadata: {
+        ...((assignment.metadata as Record<string, unknown> | null) ?? {}),
+        competencyLapse: {
+          flaggedAt: now.toISOString(),
+          certificationIds: Array.from(lapsedIds),
+          registrationTypes: lapsed.map(cert => cert.registrationType),
+        },
+      },
+    });
+  }
+
+  await storage.createContractorAlert({
+    organisationId,
+    contractorId,
+    alertType: 'COMPETENCY_LAPSED',
+    severity: 'URGENT',
+    title: `No current registration for ${categories.join(', ')}`,
+    description: assignments.length > 0
+      ? `${assignments.length} open assignment${assignments.length === 1 ? '' : 's'} in these categories need reassigning or an override`
+      : 'The contractor can no longer be assigned work in these categories',
+    metadata: { workCategories: categories, assignmentIds: assignments.map(assignment => assignment.id) },
+  });
+
+  const contractor = await storage.getContractor(contractorId);
+  const suspended = policy.suspendOnMandatoryLapse && contractor?.status === 'APPROVED';
+  if (suspended) {
+    await suspendContractor(contractor!, lapsed, categories);
+  }
+  return { assignmentsFlagged: assignments.length, suspended };
+}
+
+/**
+ * Daily pass over certifications nearing or past expiry: raises lead-time warnings,
+ * marks lapsed registrations EXPIRED and deals with the competency they took away.
+ */
+export async function runContractorCertificationMonitor(now: Date = new Date()): Promise<CertificationMonitorResult> {
+  const horizon = new Date(now.getTime() + MAX_LEAD_TIME_DAYS * DAY_MS);
+  const candidates = await db.select()
+    .from(contractorCertifications)
+    .where(and(
+      eq(contractorCertifications.isActive, true),
+      isNotNull(contractorCertifications.expiryDate),
+      lte(contractorCertifications.expiryDate, horizon),
+      notInArray(contractorCertifications.verificationStatus, [...CLOSED_CERTIFICATION_STATUSES])
+    ));
+
+  const result: CertificationMonitorResult = {
+    checked: candidates.length,
+    warningsRaised: 0,
+    expired: 0,
+    assignmentsFlagged: 0,
+    contractorsSuspended: 0,
+  };
+
+  const byOrganisation = new Map<string, ContractorCertification[]>();
+  for (const cert of candidates) {
+    byOrganisation.set(cert.organisationId, [...(byOrganisation.get(cert.organisationId) ?? []), cert]);
+  }
+
+  for (const [organisationId, certs] of Array.from(byOrganisation.entries())) {
+    const [policy, matrix] = await Promise.all([
+      getCertificationMonitorPolicy(organisationId),
+      getOrganisationCompetencyMatrix(organisationId),
+    ]);
+
+    const lapsedByContractor = new Map<string, ContractorCertification[]>();
+    for (const cert of certs) {
+      try {
+        const daysRemaining = daysUntilExpiry(cert.expiryDate!, now);
+        if (daysRemaining > 0) {
+          const stage = selectExpiryStage(daysRemaining, policy.leadTimeDays);
+          if (stage !== null && await raiseExpiryWarning(cert, stage, daysRemaining)) {
+            result.warningsRaised++;
+          }
+          continue;
+        }
+
+        await expireCertification(cert);
+        result.expired++;
+        lapsedByContractor.set(cert.contractorId, [...(lapsedByContractor.get(cert.contractorId) ?? []), cert]);
+      } catch (error) {
+        logger.error({ error, certificationId: cert.id }, 'Failed to check contractor certification expiry');
+      }
+    }
+
+    for (const [contractorId, lapsed] of Array.from(lapsedByContractor.entries())) {
+      try {
+        const outcome = await handleCompetencyLapse(organisationId, contractorId, lapsed, matrix, policy, now);
+        result.assignmentsFlagged += outcome.assignmentsFlagged;
+        if (outcome.suspended) result.contractorsSuspended++;
+      } catch (error) {
+        logger.error({ error, contractorId }, 'Failed to handle contractor competency lapse');
+      }
+    }
+  }
+
+  logger.info(result, 'Contractor certification monitor completed');
+  return result;
+}
@@ -0,0 +1,187 @@
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { recordAudit, type AuditContext } from './audit';
+import {
+  contractorRegistrationTypeEnum,
+  contractorWorkCategoryEnum,
+  type Contractor,
+  type ContractorAssignment,
+  type ContractorCertification,
+} from '@shared/schema';
+
+export type WorkCategory = typeof contractorWorkCategoryEnum.enumValues[number];
+export type RegistrationType = typeof contractorRegistrationTypeEnum.enumValues[number];
+
+/** Registration types accepted for each work category; any one of them is sufficient. */
+export type CompetencyMatrix = Record<WorkCategory, RegistrationType[]>;
+
+export interface CompetencyEvaluation {
+  workCategory: WorkCategory;
+  requiredRegistrationTypes: RegistrationType[];
+  satisfied: boolean;
+  matchingCertificationIds: string[];
+}
+
+export interface CompetencyOverride {
+  reason: string;
+  overriddenById: string;
+  overriddenAt: string;
+}
+
+export const COMPETENCY_OVERRIDE_ROLES = ['LASHAN_SUPER_USER', 'SUPER_ADMIN', 'SYSTEM_ADMIN', 'COMPLIANCE_MANAGER', 'ADMIN'];
+
+const ELECTRICAL_SCHEMES: RegistrationType[] = ['NICEIC', 'NAPIT', 'ELECSA'];
+
+// Categories with an empty list need no registration
+export const DEFAULT_COMPETENCY_MATRIX: CompetencyMatrix = {
+  GAS_BOILER: ['GAS_SAFE'],
+  GAS_APPLIANCES: ['GAS_SAFE'],
+  GAS_FIRES: ['GAS_SAFE'],
+  ELECTRICAL_INSTALL: ELECTRICAL_SCHEMES,
+  ELECTRICAL_TEST: ELECTRICAL_SCHEMES,
+  FIRE_ALARM: ELECTRICAL_SCHEMES,
+  FIRE_DOOR: [],
+  FIRE_EXTINGUISHER: [],
+  LIFT_MAINTENANCE: [],
+  LEGIONELLA: [],
+  ASBESTOS_SURVEY: [],
+  ASBESTOS_REMOVAL: [],
+  WATER_HYGIENE: [],
+  EPC_ASSESSMENT: [],
+  GENERAL_MAINTENANCE: [],
+  ROOFING: [],
+  PLUMBING: [],
+  OTHER: [],
+};
+
+export function isWorkCategory(value: unknown): value is WorkCategory {
+  return typeof value === 'string' && (contractorWorkCategoryEnum.enumValues as readonly string[]).includes(value);
+}
+
+function isRegistrationType(value: unknown): value is RegistrationType {
+  return typeof value === 'string' && (contractorRegistrationTypeEnum.enumValues as readonly string[]).includes(value);
+}
+
+/**
+ * Reads the organisation's overrides from `settings.contractorCompetency`
+ * and layers them over the default matrix.
+ */
+export function parseCompetencyMatrix(settings: unknown): CompetencyMatrix {
+  const overrides = (settings as { contractorCompetency?: Record<string, unknown> } | null)?.contractorCompetency;
+  const matrix: CompetencyMatrix = { ...DEFAULT_COMPETENCY_MATRIX };
+  if (!overrides) return matrix;
+
+  for (const [category, types] of Object.entries(overrides)) {
+    if (isWorkCategory(category) && Array.isArray(types)) {
+      matrix[category] = types.filter(isRegistrationType);
+    }
+  }
+  return matrix;
+}
+
+export function isCertificationCurrent(certification: ContractorCertification, now: Date = new Date()): boolean {
+  return certification.isActive
+    && certification.verificationStatus === 'VERIFIED'
+    && (!certification.expiryDate || certification.expiryDate > now);
+}
+
+/**
+ * Matches a contractor's certifications against the matrix. A certification
+ * that lists its own work categories only covers those categories.
+ */
+export function evaluateCompetency(
+  workCategory: WorkCategory,
+  certifications: ContractorCertification[],
+  matrix: CompetencyMatrix,
+  now: Date = new Date()
+): CompetencyEvaluation {
+  const requiredRegistrationTypes = matrix[workCategory] ?? [];
+
+  const matchingCertificationIds = certifications
+    .filter(cert => requiredRegistrationTypes.includes(cert.registrationType))
+    .filter(cert => !cert.workCategories?.length || cert.workCategories.includes(workCategory))
+    .filter(cert => isCertificationCurrent(cert, now))
+    .map(cert => cert.id);
+
+  return {
+    workCategory,
+    requiredRegistrationTypes,
+    satisfied: requiredRegistrationTypes.length === 0 || matchingCertificationIds.length > 0,
+    matchingCertificationIds,
+  };
+}
+
+export async function getOrganisationCompetencyMatrix(organisationId: string): Promise<CompetencyMatrix> {
+  try {
+    const organisation = await storage.getOrganisation(organisationId);
+    return parseCompetencyMatrix(organisation?.settings);
+  } catch (error) {
+    logger.error({ error, organisationId }, 'Failed to load competency matrix, using defaults');
+    return { ...DEFAULT_COMPETENCY_MATRIX };
+  }
+}
+
+export async function updateOrganisationCompetencyMatrix(
+  organisationId: string,
+  overrides: Partial<CompetencyMatrix>,
+  context: AuditContext
+): Promise<CompetencyMatrix> {
+  const organisation = await storage.getOrganisation(organisationId);
+  const before = parseCompetencyMatrix(organisation?.settings);
+  const settings = (organisation?.settings as Record<string, unknown> | null) ?? {};
+  const existing = (settings.contractorCompetency as Record<string, unknown> | undefined) ?? {};
+
+  const contractorCompetency = { ...existing, ...overrides };
+  await storage.updateOrganisation(organisationId, { settings: { ...settings, contractorCompetency } });
+  const after = parseCompetencyMatrix({ contractorCompetency });
+
+  await recordAudit({
+    organisationId,
+    eventType: 'CONTRACTOR_COMPETENCY_MATRIX_CHANGED',
+    entityType: 'ORGANISATION',
+    entityId: organisationId,
+    entityName: organisation?.name,
+    message: `Contractor competency requirements updated for ${Object.keys(overrides).join(', ')}`,
+    beforeState: { ...before },
+    afterState: { ...after },
+    context,
+  });
+  return after;
+}
+
+export async function checkContractorCompetency(
+  organisationId: string,
+  contractorId: string,
+  workCategory: WorkCategory,
+  now: Date = new Date()
+): Promise<CompetencyEvaluation> {
+  const [matrix, certifications] = await Promise.all([
+    getOrganisationCompetencyMatrix(organisationId),
+    storage.listContractorCertifications(organisationId, contractorId),
+  ]);
+  return evaluateCompetency(workCategory, certifications, matrix, now);
+}
+
+export async function recordCompetencyOverride(
+  assignment: ContractorAssignment,
+  contractor: Contractor,
+  evaluation: CompetencyEvaluation,
+  override: CompetencyOverride,
+  context: AuditContext
+): Promise<void> {
+  await recordAudit({
+    organisationId: assignment.organisationId,
+    eventType: 'CONTRACTOR_COMPETENCY_OVERRIDDEN',
+    entityType: 'CONTRACTOR',
+    entityId: contractor.id,
+    entityName: contractor.companyName,
+    propertyId: assignment.propertyId ?? undefined,
+    message: `${contractor.companyName} assigned ${evaluation.workCategory} work without ${evaluation.requiredRegistrationTypes.join('/')} registration: ${override.reason}`,
+    metadata: {
+      assignmentId: assignment.id,
+      requiredRegistrationTypes: evaluation.requiredRegistrationTypes,
+      reason: override.reason,
+    },
+    context,
+  });
+}
@@ -0,0 +1,277 @@
+import { db } from '../db';
+import { contractorCertifications, contractorVerificationStatusEnum } from '@shared/schema';
+import type { Contractor, ContractorCertification, ContractorVerificationHistory } from '@shared/schema';
+import { and, eq, ne } from 'drizzle-orm';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { getRegistrationVerifier, type RegistrationLookupResult } from './registration-verification';
+
+export type VerificationStatus = typeof contractorVerificationStatusEnum.enumValues[number];
+
+export type RegistrationMismatchType =
+  | 'NOT_ON_REGISTER'
+  | 'REGISTRATION_LAPSED'
+  | 'NAME_CHANGED'
+  | 'WORK_CATEGORY_MISSING'
+  | 'EXPIRY_DATE_CHANGED';
+
+export interface RegistrationMismatch {
+  type: RegistrationMismatchType;
+  message: string;
+  held: unknown;
+  register: unknown;
+}
+
+export interface RegisterCheckOutcome {
+  status: VerificationStatus;
+  mismatches: RegistrationMismatch[];
+  history: ContractorVerificationHistory;
+}
+
+export interface ReverificationResult {
+  checked: number;
+  verified: number;
+  mismatched: number;
+  skipped: number;
+  failed: number;
+}
+
+const MISMATCH_SEVERITY: Record<RegistrationMismatchType, 'URGENT' | 'PRIORITY' | 'ROUTINE'> = {
+  NOT_ON_REGISTER: 'URGENT',
+  REGISTRATION_LAPSED: 'URGENT',
+  NAME_CHANGED: 'PRIORITY',
+  WORK_CATEGORY_MISSING: 'PRIORITY',
+  EXPIRY_DATE_CHANGED: 'ROUTINE',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Strips punctuation and company suffixes so "Acme Heating Ltd." matches "ACME HEATING LIMITED". */
+export function normaliseRegisteredName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\b(ltd|limited|plc|llp|co|company|uk)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Compares what the register returned with the certification and contractor we hold.
+ */
+export function compareRegistration(
+  cert: ContractorCertification,
+  contractor: Pick<Contractor, 'companyName'>,
+  result: RegistrationLookupResult,
+  now: Date = new Date()
+): RegistrationMismatch[] {
+  if (!result.found || !result.record) {
+    return [{
+      type: 'NOT_ON_REGISTER',
+      message: `${cert.registrationType} registration ${cert.registrationNumber} was not found on the register`,
+      held: cert.registrationNumber,
+      register: null,
+    }];
+  }
+
+  const { record } = result;
+  const mismatches: RegistrationMismatch[] = [];
+
+  const pastExpiry = !!record.expiryDate && record.expiryDate <= now;
+  const lapsedStatus = record.status !== 'ACTIVE' && record.status !== 'UNKNOWN';
+  if (lapsedStatus || pastExpiry) {
+    mismatches.push({
+      type: 'REGISTRATION_LAPSED',
+      message: `Register shows the registration as ${lapsedStatus ? record.status.toLowerCase() : 'expired'}`,
+      held: cert.verificationStatus,
+      register: record.status,
+    });
+  }
+
+  const heldName = cert.registrationName || contractor.companyName;
+  if (record.registeredName && normaliseRegisteredName(record.registeredName) !== normaliseRegisteredName(heldName)) {
+    mismatches.push({
+      type: 'NAME_CHANGED',
+      message: `Registered name "${record.registeredName}" does not match "${heldName}"`,
+      held: heldName,
+      register: record.registeredName,
+    });
+  }
+
+  // Registers that do not publish scopes cannot contradict the categories we hold
+  const missing = record.workCategories.length > 0
+    ? (cert.workCategories ?? []).filter(category => !record.workCategories.includes(category as typeof record.workCategories[number]))
+    : [];
+  if (missing.length > 0) {
+    mismatches.push({
+      type: 'WORK_CATEGORY_MISSING',
+      message: `Register does not list ${missing.join(', ')} for this registration`,
+      held: cert.workCategories,
+      register: record.workCategories,
+    });
+  }
+
+  if (record.expiryDate && (!cert.expiryDate || Math.abs(record.expiryDate.getTime() - cert.expiryDate.getTime()) >= DAY_MS)) {
+    mismatches.push({
+      type: 'EXPIRY_DATE_CHANGED',
+      message: `Register expiry ${toDay(record.expiryDate)} differs from ${cert.expiryDate ? toDay(cert.expiryDate) : 'no expiry'} on file`,
+      held: cert.expiryDate?.toISOString() ?? null,
+      register: record.expiryDate.toISOString(),
+    });
+  }
+
+  return mismatches;
+}
+
+/**
+ * A register that publishes no expiry cannot show a lapsed registration was renewed,
+ * so the expiry we hold still applies and keeps it EXPIRED.
+ */
+export function resolveVerificationStatus(
+  result: RegistrationLookupResult,
+  now: Date = new Date(),
+  heldExpiryDate: Date | null = null
+): VerificationStatus {
+  if (!result.found || !result.record) return 'FAILED';
+  const { status } = result.record;
+  const expiryDate = result.record.expiryDate ?? heldExpiryDate;
+  if (status === 'SUSPENDED') return 'SUSPENDED';
+  if (status === 'REVOKED') return 'REVOKED';
+  if (status === 'EXPIRED' || (expiryDate && expiryDate <= now)) return 'EXPIRED';
+  if (status === 'UNKNOWN') return 'UNVERIFIED';
+  return 'VERIFIED';
+}
+
+async function raiseMismatchAlerts(cert: ContractorCertification, mismatches: RegistrationMismatch[], source: string): Promise<void> {
+  if (mismatches.length === 0) return;
+
+  const openAlerts = await storage.listContractorAlerts(cert.organisationId, { contractorId: cert.contractorId, status: 'OPEN' });
+  for (const mismatch of mismatches) {
+    const duplicate = openAlerts.some(alert =>
+      alert.certificationId === cert.id
+      && alert.alertType === 'REGISTRATION_MISMATCH'
+      && (alert.metadata as { mismatchType?: string } | null)?.mismatchType === mismatch.type
+    );
+    if (duplicate) continue;
+
+    await storage.createContractorAlert({
+      organisationId: cert.organisationId,
+      contractorId: cert.contractorId,
+      certificationId: cert.id,
+      alertType: 'REGISTRATION_MISMATCH',
+      severity: MISMATCH_SEVERITY[mismatch.type],
+      title: `${cert.registrationType} register check: ${mismatch.type.replace(/_/g, ' ').toLowerCase()}`,
+      description: mismatch.message,
+      metadata: { mismatchType: mismatch.type, held: mismatch.held, register: mismatch.register, source },
+    });
+  }
+}
+
+/**
+ * Looks a certification up on its scheme's register, records the result in the
+ * verification history and raises alerts for anything that no longer matches.
+ * Returns null when the scheme's register is not connected.
+ */
+export async function checkCertificationAgainstRegister(
+  cert: ContractorCertification,
+  contractor: Pick<Contractor, 'companyName'>,
+  options: { verifiedById?: string; verifiedByName?: string } = {},
+  now: Date = new Date()
+): Promise<RegisterCheckOutcome | null> {
+  const verifier = getRegistrationVerifier(cert.registrationType);
+  if (!verifier) return null;
+
+  const result = await verifier.lookup(cert.registrationNumber);
+  const mismatches = compareRegistration(cert, contractor, result, now);
+  const status = resolveVerificationStatus(result, now, cert.expiryDate);
+
+  const history = await storage.createContractorVerificationHistory({
+    contractorId: cert.contractorId,
+    certificationId: cert.id,
+    organisationId: cert.organisationId,
+    verificationType: 'REGISTER_LOOKUP',
+    verificationMethod: verifier.name,
+    previousStatus: cert.verificationStatus,
+    newStatus: status,
+    verifiedById: options.verifiedById ?? null,
+    verifiedByName: options.verifiedByName ?? null,
+    lookupUrl: result.lookupUrl,
+    notes: mismatches.length > 0 ? mismatches.map(mismatch => mismatch.message).join('; ') : null,
+    registrationDataSnapshot: {
+      source: result.source,
+      checkedAt: result.checkedAt.toISOString(),
+      found: result.found,
+      record: result.record && {
+        ...result.record,
+        expiryDate: result.record.expiryDate?.toISOString() ?? null,
+      },
+      raw: result.raw ?? null,
+      mismatches: mismatches.map(mismatch => mismatch.type),
+    },
+  });
+
+  // Take the register's expiry so the daily expiry monitor judges the same date the status was set from
+  await storage.updateContractorCertification(cert.id, {
+    verificationStatus: status,
+    verificationMethod: 'REGISTER_LOOKUP',
+    ...(result.record?.expiryDate ? { expiryDate: result.record.expiryDate } : {}),
+    ...(status === 'VERIFIED' ? { verifiedAt: now, verifiedById: options.verifiedById ?? null } : {}),
+  });
+
+  await raiseMismatchAlerts(cert, mismatches, result.source);
+  return { status, mismatches, history };
+}
+
+/**
+ * Re-checks every active certification whose scheme has a connected register,
+ * optionally limited to one organisation.
+ */
+export async function runRegistrationReverification(
+  options: { organisationId?: string } = {},
+  now: Date = new Date()
+): Promise<ReverificationResult> {
+  const conditions = [
+    eq(contractorCertifications.isActive, true),
+    ne(contractorCertifications.verificationStatus, 'REVOKED'),
+  ];
+  if (options.organisationId) {
+    conditions.push(eq(contractorCertifications.organisationId, options.organisationId));
+  }
+  const certs = await db.select().from(contractorCertifications).where(and(...conditions));
+
+  const result: ReverificationResult = { checked: certs.length, verified: 0, mismatched: 0, skipped: 0, failed: 0 };
+  const contractorsById = new Map<string, Contractor | undefined>();
+
+  for (const cert of certs) {
+    try {
+      if (!contractorsById.has(cert.contractorId)) {
+        contractorsById.set(cert.contractorId, await storage.getContractor(cert.contractorId));
+      }
+      const contractor = contractorsById.get(cert.contractorId);
+      if (!contractor) {
+        result.skipped++;
+        continue;
+      }
+
+      const outcome = await checkCertificationAgainstRegister(cert, contractor, {}, now);
+      if (!outcome) {
+        result.skipped++;
+      } else if (outcome.mismatches.length > 0) {
+        result.mismatched++;
+      } else {
+        result.verified++;
+      }
+    } catch (error) {
+      result.failed++;
+      logger.error({ error, certificationId: cert.id }, 'Failed to re-verify contractor registration');
+    }
+  }
+
+  logger.info({ ...result, organisationId: options.organisationId }, 'Contractor registration re-verification completed');
+  return result;
+}
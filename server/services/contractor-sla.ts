@@ -0,0 +1,467 @@
+import { db } from '../db';
+import {
+  contractorAssignments,
+  contractorJobPerformance,
+  contractorSLAProfiles,
+  slaComplianceStatusEnum,
+  slaPriorityEnum,
+} from '@shared/schema';
+import type {
+  ContractorAssignment,
+  ContractorJobPerformance,
+  ContractorSLAProfile,
+  InsertContractorJobPerformance,
+} from '@shared/schema';
+import { and, eq, gte, inArray, isNull, lt, ne, or } from 'drizzle-orm';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { logger } from '../logger';
+
+export type SlaPriority = typeof slaPriorityEnum.enumValues[number];
+export type SlaStatus = typeof slaComplianceStatusEnum.enumValues[number];
+
+/** Priorities are matched exactly against SLA profiles, so anything outside the enum would never find one. */
+export const slaPrioritySchema = z.enum(slaPriorityEnum.enumValues);
+
+export type SlaClockFields = Pick<
+  ContractorJobPerformance,
+  'assignedAt' | 'acknowledgedAt' | 'startedAt' | 'completedAt' | 'slaDeadline' | 'responseDeadline'
+>;
+
+/** Commercial terms copied onto each job so later profile edits do not rewrite past statements. */
+export interface SlaTerms {
+  profileName: string;
+  penaltyPercentage: number;
+  bonusPercentage: number;
+}
+
+export interface SlaStatementJob extends SlaTerms {
+  slaProfileId: string | null;
+  slaStatus: SlaStatus;
+}
+
+export interface SlaStatementLine extends SlaTerms {
+  slaProfileId: string | null;
+  jobs: number;
+  met: number;
+  missed: number;
+  open: number;
+  adjustmentPercentage: number;
+}
+
+export interface MonthlySlaStatement {
+  contractorId: string;
+  month: string;
+  periodStart: Date;
+  periodEnd: Date;
+  totalJobs: number;
+  metCount: number;
+  missedCount: number;
+  openCount: number;
+  slaComplianceRate: number;
+  netAdjustmentPercentage: number;
+  lines: SlaStatementLine[];
+}
+
+/** A job is at risk once less than this share of its completion window remains. */
+export const AT_RISK_REMAINING_FRACTION = 0.25;
+
+const OPEN_SLA_STATUSES: SlaStatus[] = ['ON_TRACK', 'AT_RISK'];
+const MISSED_SLA_STATUSES: SlaStatus[] = ['BREACHED', 'COMPLETED_LATE'];
+
+function addHours(from: Date, hours: number): Date {
+  return new Date(from.getTime() + hours * 60 * 60 * 1000);
+}
+
+function minutesBetween(from: Date, to: Date): number {
+  return Math.max(0, Math.round((to.getTime() - from.getTime()) / 60000));
+}
+
+function toDate(value: Date | string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function roundPercentage(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function calculateSlaDeadlines(
+  assignedAt: Date,
+  profile: Pick<ContractorSLAProfile, 'responseTimeHours' | 'completionTimeHours'>
+): { responseDeadline: Date; slaDeadline: Date } {
+  return {
+    responseDeadline: addHours(assignedAt, profile.responseTimeHours),
+    slaDeadline: addHours(assignedAt, profile.completionTimeHours),
+  };
+}
+
+export function evaluateSlaStatus(record: SlaClockFields, now: Date = new Date()): SlaStatus {
+  if (record.completedAt) {
+    return record.completedAt > record.slaDeadline ? 'COMPLETED_LATE' : 'COMPLETED';
+  }
+  if (now > record.slaDeadline) return 'BREACHED';
+
+  // An unanswered job is at risk as soon as the response window closes
+  if (record.responseDeadline && !record.acknowledgedAt && now > record.responseDeadline) {
+    return 'AT_RISK';
+  }
+
+  const window = record.slaDeadline.getTime() - record.assignedAt.getTime();
+  const remaining = record.slaDeadline.getTime() - now.getTime();
+  if (window > 0 && remaining / window < AT_RISK_REMAINING_FRACTION) return 'AT_RISK';
+
+  return 'ON_TRACK';
+}
+
+/**
+ * Maps an assignment status onto the job's clock. Leaving OPEN counts as the
+ * contractor's response; reopening a completed job restarts its clock.
+ */
+export function deriveStatusChangeUpdates(
+  record: SlaClockFields,
+  assignment: Pick<ContractorAssignment, 'status' | 'completedDate'>,
+  now: Date = new Date()
+): Partial<InsertContractorJobPerformance> {
+  const updates: Partial<InsertContractorJobPerformance> = {};
+  const { status } = assignment;
+
+  if (status !== 'OPEN' && status !== 'CANCELLED' && !record.acknowledgedAt) {
+    updates.acknowledgedAt = now;
+    updates.responseTimeMinutes = minutesBetween(record.assignedAt, now);
+  }
+
+  if (status === 'IN_PROGRESS' && !record.startedAt) {
+    updates.startedAt = now;
+  }
+
+  if (status === 'COMPLETED' && !record.completedAt) {
+    const completedAt = toDate(assignment.completedDate) ?? now;
+    const late = completedAt > record.slaDeadline;
+    updates.completedAt = completedAt;
+    updates.completionTimeMinutes = minutesBetween(record.assignedAt, completedAt);
+    updates.slaStatus = late ? 'COMPLETED_LATE' : 'COMPLETED';
+    updates.slaBreachMinutes = late ? minutesBetween(record.slaDeadline, completedAt) : 0;
+  }
+
+  if (status !== 'COMPLETED' && record.completedAt) {
+    updates.completedAt = null;
+    updates.completionTimeMinutes = null;
+    updates.slaBreachMinutes = null;
+    updates.slaStatus = evaluateSlaStatus({ ...record, completedAt: null }, now);
+  }
+
+  return updates;
+}
+
+/** Parses a `YYYY-MM` statement month into its UTC bounds. */
+export function parseStatementMonth(month: string): { periodStart: Date; periodEnd: Date } | null {
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  return {
+    periodStart: new Date(Date.UTC(year, monthIndex, 1)),
+    periodEnd: new Date(Date.UTC(year, monthIndex + 1, 1)),
+  };
+}
+
+/**
+ * Rolls jobs due in the month into a statement. Each job met on time earns its
+ * profile's bonus and each missed job incurs its penalty; the adjustment is the
+ * average across decided jobs, so jobs still running do not count either way.
+ */
+export function buildMonthlySlaStatement(contractorId: string, month: string, jobs: SlaStatementJob[]): MonthlySlaStatement {
+  const period = parseStatementMonth(month);
+  if (!period) {
+    throw new Error(`Invalid statement month: ${month}`);
+  }
+
+  const lines = new Map<string, SlaStatementLine & { adjustmentTotal: number }>();
+  for (const job of jobs) {
+    const key = `${job.slaProfileId ?? ''}:${job.profileName}:${job.penaltyPercentage}:${job.bonusPercentage}`;
+    const line = lines.get(key) ?? {
+      slaProfileId: job.slaProfileId,
+      profileName: job.profileName,
+      penaltyPercentage: job.penaltyPercentage,
+      bonusPercentage: job.bonusPercentage,
+      jobs: 0, met: 0, missed: 0, open: 0,
+      adjustmentPercentage: 0,
+      adjustmentTotal: 0,
+    };
+    line.jobs++;
+    if (job.slaStatus === 'COMPLETED') {
+      line.met++;
+      line.adjustmentTotal += job.bonusPercentage;
+    } else if (MISSED_SLA_STATUSES.includes(job.slaStatus)) {
+      line.missed++;
+      line.adjustmentTotal -= job.penaltyPercentage;
+    } else {
+      line.open++;
+    }
+    lines.set(key, line);
+  }
+
+  let metCount = 0;
+  let missedCount = 0;
+  let openCount = 0;
+  let adjustmentTotal = 0;
+  const statementLines: SlaStatementLine[] = [];
+  for (const { adjustmentTotal: lineTotal, ...line } of Array.from(lines.values())) {
+    const decided = line.met + line.missed;
+    metCount += line.met;
+    missedCount += line.missed;
+    openCount += line.open;
+    adjustmentTotal += lineTotal;
+    statementLines.push({ ...line, adjustmentPercentage: decided > 0 ? roundPercentage(lineTotal / decided) : 0 });
+  }
+
+  const decided = metCount + missedCount;
+  return {
+    contractorId,
+    month,
+    ...period,
+    totalJobs: jobs.length,
+    metCount,
+    missedCount,
+    openCount,
+    slaComplianceRate: decided > 0 ? Math.round((metCount / decided) * 100) : 0,
+    netAdjustmentPercentage: decided > 0 ? roundPercentage(adjustmentTotal / decided) : 0,
+    lines: statementLines,
+  };
+}
+
+function termsFromProfile(profile: ContractorSLAProfile): SlaTerms {
+  return {
+    profileName: profile.name,
+    penaltyPercentage: profile.penaltyPercentage ?? 0,
+    bonusPercentage: profile.bonusPercentage ?? 0,
+  };
+}
+
+export async function findSlaProfile(
+  organisationId: string,
+  workCategory: ContractorAssignment['workCategory'],
+  priority: SlaPriority
+): Promise<ContractorSLAProfile | undefined> {
+  const [profile] = await db.select()
+    .from(contractorSLAProfiles)
+    .where(and(
+      eq(contractorSLAProfiles.organisationId, organisationId),
+      eq(contractorSLAProfiles.workCategory, workCategory),
+      eq(contractorSLAProfiles.priority, priority),
+      eq(contractorSLAProfiles.isActive, true)
+    ))
+    .limit(1);
+  return profile;
+}
+
+async function getAssignmentPerformance(assignmentId: string): Promise<ContractorJobPerformance | undefined> {
+  const [record] = await db.select()
+    .from(contractorJobPerformance)
+    .where(eq(contractorJobPerformance.assignmentId, assignmentId))
+    .limit(1);
+  return record;
+}
+
+/**
+ * Opens a job performance record for a new assignment. Assignments without a
+ * matching active SLA profile are not tracked.
+ */
+export async function startSlaTracking(
+  assignment: ContractorAssignment,
+  now: Date = new Date()
+): Promise<ContractorJobPerformance | null> {
+  try {
+    const existing = await getAssignmentPerformance(assignment.id);
+    if (existing) return existing;
+
+    const profile = await findSlaProfile(assignment.organisationId, assignment.workCategory, assignment.priority);
+    if (!profile) {
+      logger.debug({ assignmentId: assignment.id, workCategory: assignment.workCategory, priority: assignment.priority }, 'No SLA profile for contractor assignment');
+      return null;
+    }
+
+    const clock: SlaClockFields = {
+      assignedAt: assignment.assignedAt,
+      acknowledgedAt: null,
+      startedAt: null,
+      completedAt: null,
+      ...calculateSlaDeadlines(assignment.assignedAt, profile),
+    };
+
+    const [record] = await db.insert(contractorJobPerformance).values({
+      organisationId: assignment.organisationId,
+      contractorId: assignment.contractorId,
+      assignmentId: assignment.id,
+      slaProfileId: profile.id,
+      priority: assignment.priority,
+      ...clock,
+      slaStatus: evaluateSlaStatus(clock, now),
+      ...deriveStatusChangeUpdates(clock, assignment, now),
+      metadata: { sla: termsFromProfile(profile) },
+    }).returning();
+    return record;
+  } catch (error) {
+    logger.error({ error, assignmentId: assignment.id }, 'Failed to start SLA tracking for contractor assignment');
+    return null;
+  }
+}
+
+/**
+ * Carries assignment changes onto its job performance record: a new contractor,
+ * a re-graded job (re-resolving the profile and deadlines) or a status change.
+ */
+export async function syncSlaWithAssignment(
+  before: ContractorAssignment,
+  after: ContractorAssignment,
+  now: Date = new Date()
+): Promise<ContractorJobPerformance | null> {
+  try {
+    const record = await getAssignmentPerformance(after.id);
+    if (!record) return startSlaTracking(after, now);
+
+    const updates: Partial<InsertContractorJobPerformance> = {};
+    if (before.contractorId !== after.contractorId) {
+      updates.contractorId = after.contractorId;
+    }
+
+    if (before.workCategory !== after.workCategory || before.priority !== after.priority) {
+      const profile = await findSlaProfile(after.organisationId, after.workCategory, after.priority);
+      if (profile) {
+        const deadlines = calculateSlaDeadlines(record.assignedAt, profile);
+        Object.assign(updates, deadlines, {
+          slaProfileId: profile.id,
+          priority: after.priority,
+          slaStatus: evaluateSlaStatus({ ...record, ...deadlines }, now),
+          metadata: { ...(record.metadata as Record<string, unknown> | null), sla: termsFromProfile(profile) },
+        });
+      }
+    }
+
+    if (before.status !== after.status) {
+      const clock = { ...record, ...updates } as SlaClockFields;
+      Object.assign(updates, deriveStatusChangeUpdates(clock, after, now));
+    }
+
+    if (Object.keys(updates).length === 0) return record;
+
+    const [updated] = await db.update(contractorJobPerformance)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(contractorJobPerformance.id, record.id))
+      .returning();
+    return updated;
+  } catch (error) {
+    logger.error({ error, assignmentId: after.id }, 'Failed to sync SLA tracking for contractor assignment');
+    return null;
+  }
+}
+
+async function raiseSlaAlert(
+  record: ContractorJobPerformance,
+  status: 'AT_RISK' | 'BREACHED',
+  workCategory: string | null
+): Promise<void> {
+  const alertType = status === 'BREACHED' ? 'SLA_BREACHED' : 'SLA_AT_RISK';
+
+  const openAlerts = await storage.listContractorAlerts(record.organisationId, { contractorId: record.contractorId, status: 'OPEN' });
+  const duplicate = openAlerts.some(alert =>
+    alert.alertType === alertType && (alert.metadata as { jobPerformanceId?: string } | null)?.jobPerformanceId === record.id
+  );
+  if (duplicate) return;
+
+  const job = [record.priority, workCategory].filter(Boolean).join(' ');
+  await storage.createContractorAlert({
+    organisationId: record.organisationId,
+    contractorId: record.contractorId,
+    alertType,
+    severity: status === 'BREACHED' ? 'URGENT' : 'PRIORITY',
+    title: status === 'BREACHED' ? `SLA breached - ${job} job` : `SLA at risk - ${job} job`,
+    description: status === 'BREACHED'
+      ? `Completion deadline passed on ${record.slaDeadline.toISOString()}`
+      : `Completion due by ${record.slaDeadline.toISOString()}${record.acknowledgedAt ? '' : ' and the job has not been acknowledged'}`,
+    dueDate: record.slaDeadline,
+    slaHours: Math.round((record.slaDeadline.getTime() - record.assignedAt.getTime()) / (60 * 60 * 1000)),
+    metadata: { jobPerformanceId: record.id, assignmentId: record.assignmentId },
+  });
+}
+
+/**
+ * Re-evaluates every running job against its SLA, persists status changes and
+ * raises contractor alerts as jobs become at risk or breached.
+ */
+export async function runContractorSlaSweep(now: Date = new Date()): Promise<{ checked: number; atRisk: number; breached: number }> {
+  const rows = await db.select({ record: contractorJobPerformance, workCategory: contractorAssignments.workCategory })
+    .from(contractorJobPerformance)
+    .leftJoin(contractorAssignments, eq(contractorAssignments.id, contractorJobPerformance.assignmentId))
+    .where(and(
+      inArray(contractorJobPerformance.slaStatus, OPEN_SLA_STATUSES),
+      or(isNull(contractorAssignments.status), ne(contractorAssignments.status, 'CANCELLED'))
+    ));
+
+  let atRisk = 0;
+  let breached = 0;
+
+  for (const { record, workCategory } of rows) {
+    try {
+      const status = evaluateSlaStatus(record, now);
+      if (status === record.slaStatus) continue;
+
+      await db.update(contractorJobPerformance)
+        .set({
+          slaStatus: status,
+          ...(status === 'BREACHED' ? { slaBreachMinutes: minutesBetween(record.slaDeadline, now) } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(contractorJobPerformance.id, record.id));
+
+      if (status === 'AT_RISK' || status === 'BREACHED') {
+        await raiseSlaAlert(record, status, workCategory);
+        if (status === 'AT_RISK') atRisk++;
+        else breached++;
+      }
+    } catch (error) {
+      logger.error({ error, jobPerformanceId: record.id }, 'Failed to evaluate contractor SLA');
+    }
+  }
+
+  logger.info({ checked: rows.length, atRisk, breached }, 'Contractor SLA sweep completed');
+  return { checked: rows.length, atRisk, breached };
+}
+
+/**
+ * Builds a contractor's statement for the jobs whose SLA deadline fell in the
+ * given month. Cancelled assignments are left out.
+ */
+export async function getMonthlySlaStatement(
+  organisationId: string,
+  contractorId: string,
+  month: string
+): Promise<MonthlySlaStatement> {
+  const period = parseStatementMonth(month);
+  if (!period) {
+    throw new Error(`Invalid statement month: ${month}`);
+  }
+
+  const rows = await db.select({ record: contractorJobPerformance, profile: contractorSLAProfiles })
+    .from(contractorJobPerformance)
+    .leftJoin(contractorSLAProfiles, eq(contractorSLAProfiles.id, contractorJobPerformance.slaProfileId))
+    .leftJoin(contractorAssignments, eq(contractorAssignments.id, contractorJobPerformance.assignmentId))
+    .where(and(
+      eq(contractorJobPerformance.organisationId, organisationId),
+      eq(contractorJobPerformance.contractorId, contractorId),
+      gte(contractorJobPerformance.slaDeadline, period.periodStart),
+      lt(contractorJobPerformance.slaDeadline, period.periodEnd),
+      or(isNull(contractorAssignments.status), ne(contractorAssignments.status, 'CANCELLED'))
+    ));
+
+  const jobs: SlaStatementJob[] = rows.map(({ record, profile }) => {
+    // Records created before terms were snapshotted fall back to the live profile
+    const terms = (record.metadata as { sla?: SlaTerms } | null)?.sla
+      ?? (profile ? termsFromProfile(profile) : { profileName: 'No SLA profile', penaltyPercentage: 0, bonusPercentage: 0 });
+    return { slaProfileId: record.slaProfileId, slaStatus: record.slaStatus, ...terms };
+  });
+
+  return buildMonthlySlaStatement(contractorId, month, jobs);
+}
@@ -0,0 +1,518 @@
+import { db } from '../db';
+import { benchmarkItems, benchmarkSets, evalRuns, extractionSchemas } from '@shared/schema';
+import type { BenchmarkItem, Certificate, EvalRun, ExtractionSchema } from '@shared/schema';
+import { and, desc, eq, ne } from 'drizzle-orm';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { BadRequestError, NotFoundError } from '../errors';
+import { ObjectStorageService } from '../replit_integrations/object_storage';
+import { extractCertificateWithDI } from './extraction/orchestrator-di';
+import { createProductionDependencies, type ExtractionDependencies } from './extraction/dependencies';
+import { resolveCertificateDocumentType } from './compliance-rules-engine';
+
+export interface BenchmarkGatingConfig {
+  /** Minimum share of expected fields matched after normalisation (0-1). */
+  minOverallScore: number;
+  minSchemaValidRate: number;
+  /** Largest drop in overall score allowed against the previous run on the same set. */
+  maxScoreDrop: number;
+  maxFieldRegressions: number;
+  /** When set, a schema version without any eval run cannot be activated. */
+  requireBenchmarkForActivation: boolean;
+}
+
+export const DEFAULT_BENCHMARK_GATING_CONFIG: BenchmarkGatingConfig = {
+  minOverallScore: 0.8,
+  minSchemaValidRate: 0.9,
+  maxScoreDrop: 0.02,
+  maxFieldRegressions: 0,
+  requireBenchmarkForActivation: false,
+};
+
+export const DEFAULT_BENCHMARK_MODEL_VERSION = 'claude-sonnet-4-20250514';
+export const DEFAULT_BENCHMARK_PROMPT_VERSION = 'v2.0';
+
+export interface BenchmarkRunOptions {
+  benchmarkSetId?: string;
+  modelVersion?: string;
+  promptVersion?: string;
+  schemaVersion?: string;
+}
+
+export interface FieldScore {
+  field: string;
+  expected: unknown;
+  actual: unknown;
+  exactMatch: boolean;
+  normalisedMatch: boolean;
+}
+
+export interface BenchmarkItemResult {
+  itemId: string;
+  certificateId: string;
+  documentType: string | null;
+  success: boolean;
+  error: string | null;
+  fieldScores: FieldScore[];
+  exactMatchRate: number;
+  normalisedMatchRate: number;
+  /** Share of expected fields the extraction returned any value for. */
+  fieldCoverage: number;
+  schemaValid: boolean;
+  schemaErrors: string[];
+}
+
+export interface FieldChange {
+  itemId: string;
+  field: string;
+  expected: unknown;
+  previous: unknown;
+  current: unknown;
+}
+
+export interface BenchmarkSummary {
+  overallScore: number;
+  exactMatchRate: number;
+  evidenceAccuracy: number;
+  schemaValidRate: number;
+  byField: Record<string, { total: number; exact: number; normalised: number }>;
+}
+
+export interface BenchmarkGatingResult {
+  passed: boolean;
+  notes: string[];
+}
+
+/** Loads the source document for a benchmark item's certificate. */
+export type BenchmarkDocumentLoader = (certificate: Certificate) => Promise<Buffer | null>;
+
+let cachedConfig: BenchmarkGatingConfig | null = null;
+let configCacheTime = 0;
+const CONFIG_CACHE_TTL_MS = 60000;
+
+function rateOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1 ? value : fallback;
+}
+
+export function mergeBenchmarkGatingConfig(overrides: Partial<BenchmarkGatingConfig>): BenchmarkGatingConfig {
+  return {
+    minOverallScore: rateOr(overrides.minOverallScore, DEFAULT_BENCHMARK_GATING_CONFIG.minOverallScore),
+    minSchemaValidRate: rateOr(overrides.minSchemaValidRate, DEFAULT_BENCHMARK_GATING_CONFIG.minSchemaValidRate),
+    maxScoreDrop: rateOr(overrides.maxScoreDrop, DEFAULT_BENCHMARK_GATING_CONFIG.maxScoreDrop),
+    maxFieldRegressions: typeof overrides.maxFieldRegressions === 'number' && Number.isInteger(overrides.maxFieldRegressions) && overrides.maxFieldRegressions >= 0
+      ? overrides.maxFieldRegressions
+      : DEFAULT_BENCHMARK_GATING_CONFIG.maxFieldRegressions,
+    requireBenchmarkForActivation: typeof overrides.requireBenchmarkForActivation === 'boolean'
+      ? overrides.requireBenchmarkForActivation
+      : DEFAULT_BENCHMARK_GATING_CONFIG.requireBenchmarkForActivation,
+  };
+}
+
+export async function getBenchmarkGatingConfig(): Promise<BenchmarkGatingConfig> {
+  const now = Date.now();
+  if (cachedConfig && now - configCacheTime < CONFIG_CACHE_TTL_MS) {
+    return cachedConfig;
+  }
+
+  try {
+    const raw = await storage.getFactorySettingValue('EXTRACTION_BENCHMARK_GATING', '');
+    const overrides = raw ? JSON.parse(raw) as Partial<BenchmarkGatingConfig> : {};
+    cachedConfig = mergeBenchmarkGatingConfig(overrides);
+  } catch (error) {
+    logger.warn({ error }, 'Failed to load extraction benchmark gating, using defaults');
+    cachedConfig = DEFAULT_BENCHMARK_GATING_CONFIG;
+  }
+  configCacheTime = now;
+  return cachedConfig;
+}
+
+export function clearBenchmarkGatingConfigCache(): void {
+  cachedConfig = null;
+  configCacheTime = 0;
+}
+
+const DATE_PATTERN = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/;
+
+/** Normalises case, whitespace, punctuation, UK dates and numeric strings so formatting differences still match. */
+export function normaliseFieldValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(normaliseFieldValue);
+  if (typeof value !== 'string') return value;
+
+  const trimmed = value.trim();
+  const ukDate = trimmed.match(DATE_PATTERN);
+  if (ukDate) return `${ukDate[3]}-${ukDate[2].padStart(2, '0')}-${ukDate[1].padStart(2, '0')}`;
+  if (/^\d{4}-\d{2}-\d{2}(T|$)/.test(trimmed)) return trimmed.slice(0, 10);
+  if (/^-?\d+(\.\d+)?$/.test(trimmed.replace(/,/g, ''))) return Number(trimmed.replace(/,/g, ''));
+  if (/^(true|yes)$/i.test(trimmed)) return true;
+  if (/^(false|no)$/i.test(trimmed)) return false;
+  return trimmed.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/** Flattens nested objects into dotted paths; arrays are compared as a whole. */
+function flattenFields(value: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (child && typeof child === 'object' && !Array.isArray(child) && !(child instanceof Date)) {
+      Object.assign(fields, flattenFields(child as Record<string, unknown>, path));
+    } else {
+      fields[path] = child;
+    }
+  }
+  return fields;
+}
+
+function readPath(data: Record<string, unknown>, path: string): unknown {
+  const value = path.split('.').reduce<unknown>((node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined), data);
+  if (value !== undefined) return value;
+  // Document-specific fields land in additionalFields in the tiered extraction output
+  const additional = data.additionalFields as Record<string, unknown> | undefined;
+  return additional?.[path.split('.').pop()!];
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function scoreFields(expected: Record<string, unknown>, actual: Record<string, unknown> | null): FieldScore[] {
+  return Object.entries(flattenFields(expected)).map(([field, expectedValue]) => {
+    const actualValue = actual ? readPath(actual, field) : undefined;
+    return {
+      field,
+      expected: expectedValue,
+      actual: actualValue ?? null,
+      exactMatch: sameValue(expectedValue, actualValue),
+      normalisedMatch: sameValue(normaliseFieldValue(expectedValue), normaliseFieldValue(actualValue)),
+    };
+  });
+}
+
+type SchemaFieldSpec = { type?: string; required?: boolean; enum?: string[] };
+
+/** Checks required fields, value types and enumerations against an extraction schema's `schemaJson`. */
+export function validateAgainstSchema(data: Record<string, unknown> | null, schemaJson: unknown): string[] {
+  if (!data) return ['No output'];
+  if (!schemaJson || typeof schemaJson !== 'object') return [];
+
+  const errors: string[] = [];
+  for (const [field, rawSpec] of Object.entries(schemaJson as Record<string, unknown>)) {
+    const spec = (rawSpec ?? {}) as SchemaFieldSpec;
+    const value = readPath(data, field);
+    if (!isPresent(value)) {
+      if (spec.required) errors.push(`${field} is required`);
+      continue;
+    }
+    if (spec.type === 'array' && !Array.isArray(value)) errors.push(`${field} should be an array`);
+    if (spec.type === 'number' && Number.isNaN(Number(value))) errors.push(`${field} should be a number`);
+    if (spec.type === 'boolean' && typeof normaliseFieldValue(value) !== 'boolean') errors.push(`${field} should be a boolean`);
+    if (spec.type === 'date' && Number.isNaN(new Date(String(normaliseFieldValue(value))).getTime())) errors.push(`${field} should be a date`);
+    if (Array.isArray(spec.enum) && !spec.enum.some(option => normaliseFieldValue(option) === normaliseFieldValue(value))) {
+      errors.push(`${field} should be one of ${spec.enum.join(', ')}`);
+    }
+  }
+  return errors;
+}
+
+function rate(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+export function scoreBenchmarkItem(
+  item: Pick<BenchmarkItem, 'id' | 'certificateId' | 'expectedOutput'>,
+  documentType: string | null,
+  output: Record<string, unknown> | null,
+  schemaJson: unknown,
+  error: string | null = null
+): BenchmarkItemResult {
+  const fieldScores = scoreFields((item.expectedOutput ?? {}) as Record<string, unknown>, output);
+  const schemaErrors = output ? validateAgainstSchema(output, schemaJson) : [error ?? 'No output'];
+  return {
+    itemId: item.id,
+    certificateId: item.certificateId,
+    documentType,
+    success: Boolean(output) && !error,
+    error,
+    fieldScores,
+    exactMatchRate: rate(fieldScores.filter(score => score.exactMatch).length, fieldScores.length),
+    normalisedMatchRate: rate(fieldScores.filter(score => score.normalisedMatch).length, fieldScores.length),
+    fieldCoverage: rate(fieldScores.filter(score => isPresent(score.actual)).length, fieldScores.length),
+    schemaValid: schemaErrors.length === 0,
+    schemaErrors,
+  };
+}
+
+/** Rates are averaged per item so a long certificate does not outweigh the rest of the set. */
+export function summariseBenchmark(results: BenchmarkItemResult[]): BenchmarkSummary {
+  const byField: BenchmarkSummary['byField'] = {};
+  for (const result of results) {
+    for (const score of result.fieldScores) {
+      const field = byField[score.field] ?? (byField[score.field] = { total: 0, exact: 0, normalised: 0 });
+      field.total++;
+      if (score.exactMatch) field.exact++;
+      if (score.normalisedMatch) field.normalised++;
+    }
+  }
+  const mean = (pick: (result: BenchmarkItemResult) => number) => rate(results.reduce((sum, result) => sum + pick(result), 0), results.length);
+  return {
+    overallScore: mean(result => result.normalisedMatchRate),
+    exactMatchRate: mean(result => result.exactMatchRate),
+    evidenceAccuracy: mean(result => result.fieldCoverage),
+    schemaValidRate: rate(results.filter(result => result.schemaValid).length, results.length),
+    byField,
+  };
+}
+
+/** Fields that matched in the previous run but not in this one, and the reverse. */
+export function compareItemResults(previous: BenchmarkItemResult[], current: BenchmarkItemResult[]): { regressions: FieldChange[]; improvements: FieldChange[] } {
+  const previousScores = new Map<string, FieldScore>();
+  for (const result of previous) {
+    for (const score of result.fieldScores) previousScores.set(`${result.itemId}:${score.field}`, score);
+  }
+
+  const regressions: FieldChange[] = [];
+  const improvements: FieldChange[] = [];
+  for (const result of current) {
+    for (const score of result.fieldScores) {
+      const before = previousScores.get(`${result.itemId}:${score.field}`);
+      if (!before || before.normalisedMatch === score.normalisedMatch) continue;
+      const change = { itemId: result.itemId, field: score.field, expected: score.expected, previous: before.actual, current: score.actual };
+      if (score.normalisedMatch) improvements.push(change);
+      else regressions.push(change);
+    }
+  }
+  return { regressions, improvements };
+}
+
+export function evaluateGating(
+  summary: Pick<BenchmarkSummary, 'overallScore' | 'schemaValidRate'>,
+  previous: Pick<EvalRun, 'overallScore'> | null,
+  regressionCount: number,
+  config: BenchmarkGatingConfig = DEFAULT_BENCHMARK_GATING_CONFIG
+): BenchmarkGatingResult {
+  const notes: string[] = [];
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  if (summary.overallScore < config.minOverallScore) {
+    notes.push(`Overall score ${percent(summary.overallScore)} below ${percent(config.minOverallScore)}`);
+  }
+  if (summary.schemaValidRate < config.minSchemaValidRate) {
+    notes.push(`Schema valid rate ${percent(summary.schemaValidRate)} below ${percent(config.minSchemaValidRate)}`);
+  }
+  if (previous) {
+    const drop = previous.overallScore - summary.overallScore;
+    if (drop > config.maxScoreDrop) {
+      notes.push(`Overall score dropped ${percent(drop)} against the previous run (max ${percent(config.maxScoreDrop)})`);
+    }
+    if (regressionCount > config.maxFieldRegressions) {
+      notes.push(`${regressionCount} field regression(s) against the previous run (max ${config.maxFieldRegressions})`);
+    }
+  }
+  return { passed: notes.length === 0, notes };
+}
+
+const objectStorageService = new ObjectStorageService();
+
+async function loadCertificateDocument(certificate: Certificate): Promise<Buffer | null> {
+  if (!certificate.storageKey) return null;
+  const file = await objectStorageService.getObjectEntityFile(certificate.storageKey);
+  const [contents] = await file.download();
+  return contents;
+}
+
+/**
+ * Production extraction with the chosen model (and optionally a schema's prompt template),
+ * without writing tier audits against the real certificate.
+ */
+export function createBenchmarkDependencies(modelVersion: string, promptTemplate?: string | null): ExtractionDependencies {
+  return {
+    ...createProductionDependencies({ model: modelVersion, promptTemplate }),
+    recordTierAudit: async () => {},
+  };
+}
+
+async function resolveBenchmarkSet(benchmarkSetId?: string) {
+  const [set] = benchmarkSetId
+    ? await db.select().from(benchmarkSets).where(eq(benchmarkSets.id, benchmarkSetId)).limit(1)
+    : await db.select().from(benchmarkSets).where(eq(benchmarkSets.isLocked, true)).orderBy(desc(benchmarkSets.lockedAt)).limit(1);
+  if (!set) throw new NotFoundError('Benchmark set');
+  if (!set.isLocked) throw new BadRequestError('Benchmark set must be locked before it can be run');
+  return set;
+}
+
+async function resolveSchemaVersion(schemaVersion?: string): Promise<string> {
+  if (schemaVersion) return schemaVersion;
+  const [active] = await db.select({ version: extractionSchemas.version })
+    .from(extractionSchemas)
+    .where(eq(extractionSchemas.isActive, true))
+    .limit(1);
+  return active?.version ?? 'v1.0';
+}
+
+type BenchmarkDependencies = { extraction?: ExtractionDependencies; loadDocument?: BenchmarkDocumentLoader };
+
+/**
+ * Records a queued eval run for a locked benchmark set so the caller gets its id
+ * straight away; executeBenchmarkRun does the extraction and scoring.
+ */
+export async function queueExtractionBenchmark(options: BenchmarkRunOptions = {}): Promise<EvalRun> {
+  const set = await resolveBenchmarkSet(options.benchmarkSetId);
+  const [item] = await db.select({ id: benchmarkItems.id }).from(benchmarkItems).where(eq(benchmarkItems.benchmarkSetId, set.id)).limit(1);
+  if (!item) throw new BadRequestError('Benchmark set has no items');
+
+  const [run] = await db.insert(evalRuns).values({
+    benchmarkSetId: set.id,
+    modelVersion: options.modelVersion ?? DEFAULT_BENCHMARK_MODEL_VERSION,
+    promptVersion: options.promptVersion ?? DEFAULT_BENCHMARK_PROMPT_VERSION,
+    schemaVersion: await resolveSchemaVersion(options.schemaVersion),
+    overallScore: 0,
+    exactMatchRate: 0,
+    evidenceAccuracy: 0,
+    schemaValidRate: 0,
+    scores: {},
+    itemResults: [],
+    status: 'QUEUED',
+  }).returning();
+  return run;
+}
+
+/**
+ * Replays every item of a queued run's benchmark set through the tiered extraction
+ * pipeline with the schema version's prompt templates, scores the output against the
+ * expected output and completes the run with its regressions against the latest
+ * completed run of the active schema version and the gating outcome. Baselining on the
+ * active version keeps a re-run candidate from being measured against its own earlier run.
+ */
+async function completeBenchmarkRun(queued: EvalRun, deps: BenchmarkDependencies = {}): Promise<EvalRun> {
+  const { modelVersion, schemaVersion } = queued;
+  const loadDocument = deps.loadDocument ?? loadCertificateDocument;
+
+  const items = await db.select().from(benchmarkItems).where(eq(benchmarkItems.benchmarkSetId, queued.benchmarkSetId));
+  const schemas = await db.select().from(extractionSchemas).where(eq(extractionSchemas.version, schemaVersion));
+  const schemaByDocumentType = new Map(schemas.map(schema => [schema.documentType, schema]));
+  const extractionByDocumentType = new Map<string, ExtractionDependencies>();
+  const extractionFor = (documentType: string | null): ExtractionDependencies => {
+    if (deps.extraction) return deps.extraction;
+    const key = documentType ?? '';
+    if (!extractionByDocumentType.has(key)) {
+      const promptTemplate = documentType ? schemaByDocumentType.get(documentType)?.promptTemplate : null;
+      extractionByDocumentType.set(key, createBenchmarkDependencies(modelVersion, promptTemplate));
+    }
+    return extractionByDocumentType.get(key)!;
+  };
+
+  const results: BenchmarkItemResult[] = [];
+  for (const item of items) {
+    const certificate = await storage.getCertificate(item.certificateId);
+    const documentType = certificate ? resolveCertificateDocumentType(certificate.certificateType) : null;
+    const schemaJson = documentType ? schemaByDocumentType.get(documentType)?.schemaJson : undefined;
+
+    try {
+      if (!certificate) throw new Error('Certificate not found');
+      const buffer = await loadDocument(certificate);
+      if (!buffer) throw new Error('Source document not available');
+
+      const result = await extractCertificateWithDI(certificate.id, buffer, certificate.fileType, certificate.fileName, { forceAI: true, forceReprocess: true }, extractionFor(documentType));
+      const output = result.data ? result.data as unknown as Record<string, unknown> : null;
+      results.push(scoreBenchmarkItem(item, documentType, output, schemaJson, output ? null : 'Extraction returned no data'));
+    } catch (error) {
+      logger.warn({ error, benchmarkItemId: item.id }, 'Benchmark item failed to extract');
+      results.push(scoreBenchmarkItem(item, documentType, null, schemaJson, error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  const summary = summariseBenchmark(results);
+  const baselineVersion = await resolveSchemaVersion();
+  const [previous] = await db.select().from(evalRuns)
+    .where(and(
+      eq(evalRuns.benchmarkSetId, queued.benchmarkSetId),
+      eq(evalRuns.schemaVersion, baselineVersion),
+      eq(evalRuns.status, 'COMPLETED'),
+      ne(evalRuns.id, queued.id)
+    ))
+    .orderBy(desc(evalRuns.createdAt))
+    .limit(1);
+  const { regressions, improvements } = previous
+    ? compareItemResults(previous.itemResults as BenchmarkItemResult[], results)
+    : { regressions: [], improvements: [] };
+  const gating = evaluateGating(summary, previous ?? null, regressions.length, await getBenchmarkGatingConfig());
+
+  const [run] = await db.update(evalRuns).set({
+    overallScore: summary.overallScore,
+    exactMatchRate: summary.exactMatchRate,
+    evidenceAccuracy: summary.evidenceAccuracy,
+    schemaValidRate: summary.schemaValidRate,
+    scores: { byField: summary.byField, items: results.length, failedItems: results.filter(result => !result.success).length },
+    itemResults: results,
+    previousRunId: previous?.id ?? null,
+    regressions,
+    improvements,
+    scoreDelta: previous ? summary.overallScore - previous.overallScore : null,
+    passedGating: gating.passed,
+    gatingNotes: gating.passed ? 'All gating thresholds met' : gating.notes.join('; '),
+    status: 'COMPLETED',
+    errorMessage: null,
+    completedAt: new Date(),
+  }).where(eq(evalRuns.id, queued.id)).returning();
+
+  logger.info({ evalRunId: run.id, benchmarkSetId: run.benchmarkSetId, overallScore: summary.overallScore, passedGating: gating.passed }, 'Extraction benchmark completed');
+  return run;
+}
+
+/** Runs a queued eval run, marking it FAILED if the benchmark cannot complete. */
+export async function executeBenchmarkRun(evalRunId: string, deps: BenchmarkDependencies = {}): Promise<EvalRun | undefined> {
+  const [queued] = await db.select().from(evalRuns).where(eq(evalRuns.id, evalRunId)).limit(1);
+  if (!queued) {
+    logger.warn({ evalRunId }, 'Eval run not found, skipping');
+    return undefined;
+  }
+  if (queued.status === 'COMPLETED') return queued;
+
+  await db.update(evalRuns).set({ status: 'RUNNING', errorMessage: null }).where(eq(evalRuns.id, evalRunId));
+  try {
+    return await completeBenchmarkRun(queued, deps);
+  } catch (error) {
+    await db.update(evalRuns).set({
+      status: 'FAILED',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    }).where(eq(evalRuns.id, evalRunId));
+    throw error;
+  }
+}
+
+/** Queues and runs a benchmark in one go. */
+export async function runExtractionBenchmark(options: BenchmarkRunOptions = {}, deps: BenchmarkDependencies = {}): Promise<EvalRun> {
+  return completeBenchmarkRun(await queueExtractionBenchmark(options), deps);
+}
+
+/** Latest eval run for a schema version on a benchmark set covering its document type. */
+export async function getLatestBenchmarkRun(schema: Pick<ExtractionSchema, 'version' | 'documentType'>): Promise<EvalRun | undefined> {
+  const runs = await db.select({ run: evalRuns, documentTypes: benchmarkSets.documentTypes })
+    .from(evalRuns)
+    .innerJoin(benchmarkSets, eq(evalRuns.benchmarkSetId, benchmarkSets.id))
+    .where(and(eq(evalRuns.schemaVersion, schema.version), eq(evalRuns.status, 'COMPLETED')))
+    .orderBy(desc(evalRuns.createdAt));
+  return runs.find(({ documentTypes }) => !documentTypes?.length || documentTypes.includes(schema.documentType))?.run;
+}
+
+/**
+ * Blocks activating an extraction schema version whose latest eval run failed gating,
+ * or that has never been benchmarked when the gating config requires it.
+ */
+export async function checkSchemaActivationGate(schema: Pick<ExtractionSchema, 'version' | 'documentType'>): Promise<{ allowed: boolean; reason: string | null }> {
+  const latest = await getLatestBenchmarkRun(schema);
+
+  if (!latest) {
+    const config = await getBenchmarkGatingConfig();
+    return config.requireBenchmarkForActivation
+      ? { allowed: false, reason: `Schema version ${schema.version} has no benchmark run for ${schema.documentType}` }
+      : { allowed: true, reason: null };
+  }
+  if (latest.passedGating === false) {
+    return { allowed: false, reason: `Benchmark run ${latest.id} failed gating: ${latest.gatingNotes ?? 'thresholds not met'}` };
+  }
+  return { allowed: true, reason: null };
+}
@@ -0,0 +1,436 @@
+import { createHash } from 'crypto';
+import { db } from '../db';
+import { extractionRuns, extractionSchemas } from '@shared/schema';
+import type { EvalRun, ExtractionSchema } from '@shared/schema';
+import { and, eq, gt, isNotNull, ne } from 'drizzle-orm';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { BadRequestError, ConflictError, NotFoundError } from '../errors';
+import { recordAudit, type AuditContext } from './audit';
+import { extractCertificateWithDI } from './extraction/orchestrator-di';
+import type { ExtractionDependencies } from './extraction/dependencies';
+import type { ExtractionTier } from './extraction/types';
+import {
+  DEFAULT_BENCHMARK_MODEL_VERSION,
+  createBenchmarkDependencies,
+  getLatestBenchmarkRun,
+  scoreFields,
+} from './extraction-benchmark';
+
+export interface ShadowRolloutConfig {
+  /** Share of live certificates (0-100) a candidate runs on when no percentage is given */
+  defaultPercentage: number;
+  minShadowSamples: number;
+  /** Highest mean field-level disagreement rate (0-1) that still allows promotion */
+  maxDisagreementRate: number;
+  requirePassingBenchmark: boolean;
+}
+
+export const DEFAULT_SHADOW_ROLLOUT_CONFIG: ShadowRolloutConfig = {
+  defaultPercentage: 10,
+  minShadowSamples: 20,
+  maxDisagreementRate: 0.1,
+  requirePassingBenchmark: true,
+};
+
+export interface ShadowDisagreement {
+  field: string;
+  primary: unknown;
+  shadow: unknown;
+}
+
+export interface ShadowComparison {
+  disagreements: ShadowDisagreement[];
+  disagreementRate: number;
+}
+
+export interface ShadowStats {
+  samples: number;
+  disagreementRate: number;
+  fieldDisagreements: Record<string, number>;
+}
+
+export interface PromotionGateResult {
+  allowed: boolean;
+  reasons: string[];
+  stats: ShadowStats;
+  benchmarkRun: Pick<EvalRun, 'id' | 'overallScore' | 'passedGating' | 'createdAt'> | null;
+}
+
+/** Tiers whose output comes from the Claude prompt, the only part a candidate schema changes. */
+export const SHADOW_COMPARABLE_TIERS: ExtractionTier[] = ['tier-1.5', 'tier-3'];
+
+const CONFIG_CACHE_TTL_MS = 60000;
+let cachedConfig: ShadowRolloutConfig | null = null;
+let configCacheTime = 0;
+
+export function mergeShadowRolloutConfig(overrides: Partial<ShadowRolloutConfig>): ShadowRolloutConfig {
+  const percentage = overrides.defaultPercentage;
+  const rate = overrides.maxDisagreementRate;
+  const samples = overrides.minShadowSamples;
+  return {
+    defaultPercentage: typeof percentage === 'number' && percentage > 0 && percentage <= 100
+      ? percentage
+      : DEFAULT_SHADOW_ROLLOUT_CONFIG.defaultPercentage,
+    minShadowSamples: typeof samples === 'number' && Number.isInteger(samples) && samples >= 0
+      ? samples
+      : DEFAULT_SHADOW_ROLLOUT_CONFIG.minShadowSamples,
+    maxDisagreementRate: typeof rate === 'number' && rate >= 0 && rate <= 1
+      ? rate
+      : DEFAULT_SHADOW_ROLLOUT_CONFIG.maxDisagreementRate,
+    requirePassingBenchmark: typeof overrides.requirePassingBenchmark === 'boolean'
+      ? overrides.requirePassingBenchmark
+      : DEFAULT_SHADOW_ROLLOUT_CONFIG.requirePassingBenchmark,
+  };
+}
+
+export async function getShadowRolloutConfig(): Promise<ShadowRolloutConfig> {
+  const now = Date.now();
+  if (cachedConfig && now - configCacheTime < CONFIG_CACHE_TTL_MS) {
+    return cachedConfig;
+  }
+
+  try {
+    const raw = await storage.getFactorySettingValue('EXTRACTION_SHADOW_ROLLOUT', '');
+    const overrides = raw ? JSON.parse(raw) as Partial<ShadowRolloutConfig> : {};
+    cachedConfig = mergeShadowRolloutConfig(overrides);
+  } catch (error) {
+    logger.warn({ error }, 'Failed to load extraction shadow rollout config, using defaults');
+    cachedConfig = DEFAULT_SHADOW_ROLLOUT_CONFIG;
+  }
+  configCacheTime = now;
+  return cachedConfig;
+}
+
+export function clearShadowRolloutConfigCache(): void {
+  cachedConfig = null;
+  configCacheTime = 0;
+}
+
+/** Hashes the certificate id so a certificate stays in (or out of) the sample across reprocessing. */
+export function isInShadowSample(certificateId: string, percentage: number): boolean {
+  if (percentage <= 0) return false;
+  if (percentage >= 100) return true;
+  const bucket = createHash('sha256').update(certificateId).digest().readUInt32BE(0) % 100;
+  return bucket < percentage;
+}
+
+function withoutInternalFields(output: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(output).filter(([key]) => !key.startsWith('_')));
+}
+
+/** Field-level comparison of the active and candidate outputs, using the benchmark's normalised matching. */
+export function compareShadowOutput(primary: Record<string, unknown> | null, shadow: Record<string, unknown> | null): ShadowComparison {
+  const primaryFields = withoutInternalFields(primary ?? {});
+  const shadowFields = withoutInternalFields(shadow ?? {});
+  const fromPrimary = scoreFields(primaryFields, shadowFields);
+  const seen = new Set(fromPrimary.map(score => score.field));
+  const shadowOnly = scoreFields(shadowFields, primaryFields).filter(score => !seen.has(score.field));
+
+  const disagreements: ShadowDisagreement[] = [
+    ...fromPrimary.filter(score => !score.normalisedMatch).map(score => ({ field: score.field, primary: score.expected, shadow: score.actual })),
+    ...shadowOnly.filter(score => !score.normalisedMatch).map(score => ({ field: score.field, primary: score.actual, shadow: score.expected })),
+  ];
+  const total = fromPrimary.length + shadowOnly.length;
+  return { disagreements, disagreementRate: total > 0 ? disagreements.length / total : 0 };
+}
+
+export async function findActiveSchema(documentType: string): Promise<ExtractionSchema | undefined> {
+  const [schema] = await db.select().from(extractionSchemas)
+    .where(and(eq(extractionSchemas.documentType, documentType), eq(extractionSchemas.isActive, true)))
+    .limit(1);
+  return schema;
+}
+
+export async function findShadowSchema(documentType: string): Promise<ExtractionSchema | undefined> {
+  const [schema] = await db.select().from(extractionSchemas)
+    .where(and(
+      eq(extractionSchemas.documentType, documentType),
+      eq(extractionSchemas.isActive, false),
+      gt(extractionSchemas.shadowPercentage, 0),
+    ))
+    .limit(1);
+  return schema;
+}
+
+/**
+ * Runs the shadow candidate for a document type on a sampled live certificate and stores
+ * its output and field disagreements on the primary extraction run. The candidate's output
+ * is never applied to the certificate. Only primaries from a prompt-driven tier are shadowed,
+ * and a shadow that settles on a different tier is discarded, so disagreements reflect the
+ * prompt rather than which tier happened to answer.
+ */
+export async function runShadowExtraction(params: {
+  extractionRunId: string;
+  certificateId: string;
+  documentType: string;
+  buffer: Buffer;
+  mimeType: string;
+  fileName: string;
+  primaryOutput: Record<string, unknown> | null;
+  primaryTier: ExtractionTier;
+}, deps?: ExtractionDependencies): Promise<ShadowComparison | null> {
+  if (!SHADOW_COMPARABLE_TIERS.includes(params.primaryTier)) {
+    return null;
+  }
+  const candidate = await findShadowSchema(params.documentType);
+  if (!candidate || !isInShadowSample(params.certificateId, candidate.shadowPercentage)) {
+    return null;
+  }
+
+  const extraction = deps ?? createBenchmarkDependencies(DEFAULT_BENCHMARK_MODEL_VERSION, candidate.promptTemplate);
+  const result = await extractCertificateWithDI(
+    params.certificateId,
+    params.buffer,
+    params.mimeType,
+    params.fileName,
+    { forceAI: true, forceReprocess: true },
+    extraction
+  );
+  if (result.finalTier !== params.primaryTier) {
+    logger.info({
+      extractionRunId: params.extractionRunId,
+      shadowSchemaId: candidate.id,
+      primaryTier: params.primaryTier,
+      shadowTier: result.finalTier,
+    }, 'Shadow extraction settled on a different tier, not compared');
+    return null;
+  }
+
+  const shadowOutput = result.data ? result.data as unknown as Record<string, unknown> : null;
+  const comparison = compareShadowOutput(params.primaryOutput, shadowOutput);
+
+  await db.update(extractionRuns)
+    .set({
+      shadowSchemaId: candidate.id,
+      shadowOutput,
+      shadowDisagreements: comparison.disagreements,
+      shadowDisagreementRate: comparison.disagreementRate,
+      updatedAt: new Date(),
+    })
+    .where(eq(extractionRuns.id, params.extractionRunId));
+
+  logger.info({
+    extractionRunId: params.extractionRunId,
+    shadowSchemaId: candidate.id,
+    disagreements: comparison.disagreements.length,
+    disagreementRate: comparison.disagreementRate,
+  }, 'Shadow extraction compared');
+  return comparison;
+}
+
+export async function getShadowStats(schemaId: string): Promise<ShadowStats> {
+  const runs = await db.select({
+    disagreementRate: extractionRuns.shadowDisagreementRate,
+    disagreements: extractionRuns.shadowDisagreements,
+  })
+    .from(extractionRuns)
+    .where(and(eq(extractionRuns.shadowSchemaId, schemaId), isNotNull(extractionRuns.shadowDisagreementRate)));
+
+  const fieldDisagreements: Record<string, number> = {};
+  for (const run of runs) {
+    for (const disagreement of (run.disagreements ?? []) as ShadowDisagreement[]) {
+      fieldDisagreements[disagreement.field] = (fieldDisagreements[disagreement.field] ?? 0) + 1;
+    }
+  }
+  const total = runs.reduce((sum, run) => sum + (run.disagreementRate ?? 0), 0);
+  return {
+    samples: runs.length,
+    disagreementRate: runs.length > 0 ? total / runs.length : 0,
+    fieldDisagreements,
+  };
+}
+
+async function getSchemaOrThrow(schemaId: string): Promise<ExtractionSchema> {
+  const schema = await storage.getExtractionSchema(schemaId);
+  if (!schema) throw new NotFoundError('Extraction schema');
+  return schema;
+}
+
+export async function evaluatePromotionGate(schema: ExtractionSchema): Promise<PromotionGateResult> {
+  const config = await getShadowRolloutConfig();
+  const stats = await getShadowStats(schema.id);
+  const benchmarkRun = await getLatestBenchmarkRun(schema);
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const reasons: string[] = [];
+
+  if (stats.samples < config.minShadowSamples) {
+    reasons.push(`Only ${stats.samples} shadow sample(s), at least ${config.minShadowSamples} required`);
+  }
+  if (stats.disagreementRate > config.maxDisagreementRate) {
+    reasons.push(`Disagreement rate ${percent(stats.disagreementRate)} above ${percent(config.maxDisagreementRate)}`);
+  }
+  if (benchmarkRun?.passedGating === false) {
+    reasons.push(`Benchmark run ${benchmarkRun.id} failed gating`);
+  } else if (!benchmarkRun && config.requirePassingBenchmark) {
+    reasons.push(`Schema version ${schema.version} has no benchmark run for ${schema.documentType}`);
+  }
+
+  return {
+    allowed: reasons.length === 0,
+    reasons,
+    stats,
+    benchmarkRun: benchmarkRun
+      ? { id: benchmarkRun.id, overallScore: benchmarkRun.overallScore, passedGating: benchmarkRun.passedGating, createdAt: benchmarkRun.createdAt }
+      : null,
+  };
+}
+
+function schemaEntityName(schema: ExtractionSchema): string {
+  return `${schema.documentType} ${schema.version}`;
+}
+
+export async function startShadowRollout(
+  schemaId: string,
+  percentage: number | undefined,
+  organisationId: string,
+  context?: AuditContext
+): Promise<ExtractionSchema> {
+  const schema = await getSchemaOrThrow(schemaId);
+  if (schema.isActive) throw new BadRequestError('Active schemas cannot run in shadow mode');
+  if (schema.isDeprecated) throw new BadRequestError('Deprecated schemas cannot run in shadow mode');
+
+  const existing = await findShadowSchema(schema.documentType);
+  if (existing && existing.id !== schema.id) {
+    throw new ConflictError(`${schemaEntityName(existing)} is already in shadow mode for ${schema.documentType}`);
+  }
+
+  const shadowPercentage = percentage ?? (await getShadowRolloutConfig()).defaultPercentage;
+  const [updated] = await db.update(extractionSchemas)
+    .set({ shadowPercentage, shadowStartedAt: schema.shadowStartedAt ?? new Date(), updatedAt: new Date() })
+    .where(eq(extractionSchemas.id, schema.id))
+    .returning();
+
+  await recordAudit({
+    organisationId,
+    eventType: 'EXTRACTION_SCHEMA_SHADOW_STARTED',
+    entityType: 'SETTINGS',
+    entityId: schema.id,
+    entityName: schemaEntityName(schema),
+    message: `Shadow mode set to ${shadowPercentage}% for extraction schema ${schemaEntityName(schema)}`,
+    beforeState: { shadowPercentage: schema.shadowPercentage },
+    afterState: { shadowPercentage },
+    context,
+  });
+  return updated;
+}
+
+export async function stopShadowRollout(schemaId: string, organisationId: string, context?: AuditContext): Promise<ExtractionSchema> {
+  const schema = await getSchemaOrThrow(schemaId);
+  if (schema.shadowPercentage === 0) throw new BadRequestError('Extraction schema is not in shadow mode');
+
+  const [updated] = await db.update(extractionSchemas)
+    .set({ shadowPercentage: 0, shadowStartedAt: null, updatedAt: new Date() })
+    .where(eq(extractionSchemas.id, schema.id))
+    .returning();
+
+  await recordAudit({
+    organisationId,
+    eventType: 'EXTRACTION_SCHEMA_SHADOW_STOPPED',
+    entityType: 'SETTINGS',
+    entityId: schema.id,
+    entityName: schemaEntityName(schema),
+    message: `Shadow mode stopped for extraction schema ${schemaEntityName(schema)}`,
+    beforeState: { shadowPercentage: schema.shadowPercentage },
+    afterState: { shadowPercentage: 0 },
+    context,
+  });
+  return updated;
+}
+
+/**
+ * Makes a shadow candidate the active schema for its document type once the promotion gate
+ * passes. The replaced schema is kept (inactive) and referenced for rollback.
+ */
+export async function promoteShadowSchema(schemaId: string, organisationId: string, context?: AuditContext): Promise<{ schema: ExtractionSchema; gate: PromotionGateResult }> {
+  const schema = await getSchemaOrThrow(schemaId);
+  if (schema.isActive) throw new BadRequestError('Extraction schema is already active');
+  if (schema.shadowPercentage === 0) throw new BadRequestError('Extraction schema must run in shadow mode before promotion');
+
+  const gate = await evaluatePromotionGate(schema);
+  if (!gate.allowed) {
+    throw new ConflictError(`Promotion blocked: ${gate.reasons.join('; ')}`);
+  }
+
+  const previous = await findActiveSchema(schema.documentType);
+  const now = new Date();
+  const promoted = await db.transaction(async (tx) => {
+    await tx.update(extractionSchemas)
+      .set({ isActive: false, updatedAt: now })
+      .where(and(
+        eq(extractionSchemas.documentType, schema.documentType),
+        eq(extractionSchemas.isActive, true),
+        ne(extractionSchemas.id, schema.id),
+      ));
+    const [updated] = await tx.update(extractionSchemas)
+      .set({
+        isActive: true,
+        shadowPercentage: 0,
+        promotedAt: now,
+        promotedById: context?.actorId ?? null,
+        previousSchemaId: previous?.id ?? null,
+        updatedAt: now,
+      })
+      .where(eq(extractionSchemas.id, schema.id))
+      .returning();
+    return updated;
+  });
+
+  await recordAudit({
+    organisationId,
+    eventType: 'EXTRACTION_SCHEMA_PROMOTED',
+    entityType: 'SETTINGS',
+    entityId: schema.id,
+    entityName: schemaEntityName(schema),
+    message: `Extraction schema ${schemaEntityName(schema)} promoted${previous ? ` replacing ${previous.version}` : ''}`,
+    beforeState: { activeSchemaId: previous?.id ?? null, activeVersion: previous?.version ?? null },
+    afterState: { activeSchemaId: schema.id, activeVersion: schema.version },
+    metadata: {
+      documentType: schema.documentType,
+      shadowSamples: gate.stats.samples,
+      disagreementRate: gate.stats.disagreementRate,
+      benchmarkRunId: gate.benchmarkRun?.id ?? null,
+      benchmarkScore: gate.benchmarkRun?.overallScore ?? null,
+    },
+    context,
+  });
+  logger.info({ schemaId: schema.id, documentType: schema.documentType, previousSchemaId: previous?.id }, 'Extraction schema promoted from shadow');
+  return { schema: promoted, gate };
+}
+
+/** Reactivates the schema a promotion replaced. */
+export async function rollbackSchemaPromotion(schemaId: string, organisationId: string, context?: AuditContext): Promise<ExtractionSchema> {
+  const schema = await getSchemaOrThrow(schemaId);
+  if (!schema.isActive || !schema.previousSchemaId) {
+    throw new BadRequestError('Only an active, promoted extraction schema can be rolled back');
+  }
+  const previous = await storage.getExtractionSchema(schema.previousSchemaId);
+  if (!previous) throw new NotFoundError('Previous extraction schema');
+
+  const now = new Date();
+  const restored = await db.transaction(async (tx) => {
+    await tx.update(extractionSchemas)
+      .set({ isActive: false, updatedAt: now })
+      .where(eq(extractionSchemas.id, schema.id));
+    const [updated] = await tx.update(extractionSchemas)
+      .set({ isActive: true, isDeprecated: false, updatedAt: now })
+      .where(eq(extractionSchemas.id, previous.id))
+      .returning();
+    return updated;
+  });
+
+  await recordAudit({
+    organisationId,
+    eventType: 'EXTRACTION_SCHEMA_ROLLED_BACK',
+    entityType: 'SETTINGS',
+    entityId: schema.id,
+    entityName: schemaEntityName(schema),
+    message: `Extraction schema ${schemaEntityName(schema)} rolled back to ${previous.version}`,
+    beforeState: { activeSchemaId: schema.id, activeVersion: schema.version },
+    afterState: { activeSchemaId: previous.id, activeVersion: previous.version },
+    metadata: { documentType: schema.documentType, promotedAt: schema.promotedAt, promotedById: schema.promotedById },
+    context,
+  });
+  logger.info({ schemaId: schema.id, restoredSchemaId: previous.id }, 'Extraction schema promotion rolled back');
+  return restored;
+}
@@ -65,7 +65,9 @@ export interface ClaudeTextResult {
 export async function extractWithClaudeText(
   text: string,
   certificateType?: string | null,
-  existingData?: Partial<ExtractedCertificateData>
+  existingData?: Partial<ExtractedCertificateData>,
+  model: string = "claude-sonnet-4-20250514",
+  promptTemplate?: string | null
 ): Promise<ClaudeTextResult> {
   const startTime = Date.now();
   
@@ -79,12 +81,12 @@ export async function extractWithClaudeText(
       : '';
 
     const response = await anthropic.messages.create({
-      model: "claude-sonnet-4-20250514",
+      model,
       max_tokens: 4096,
       messages: [
         {
           role: "user",
-          content: `${EXTRACTION_PROMPT}\n\n${contextPrompt}${existingDataPrompt}Document text:\n\n${text.substring(0, 50000)}`
+          content: `${EXTRACTION_PROMPT}\n\n${promptTemplate ? `${promptTemplate}\n\n` : ''}${contextPrompt}${existingDataPrompt}Document text:\n\n${text.substring(0, 50000)}`
         }
       ]
     });
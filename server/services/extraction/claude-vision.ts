@@ -70,7 +70,9 @@ type MediaType = "image/jpeg" | "image/png" | "image/gif" | "image/webp";
 export async function extractWithClaudeVision(
   imageBuffer: Buffer,
   mimeType: string,
-  certificateType?: string | null
+  certificateType?: string | null,
+  model: string = "claude-sonnet-4-20250514",
+  promptTemplate?: string | null
 ): Promise<ClaudeVisionResult> {
   const startTime = Date.now();
   
@@ -93,7 +95,7 @@ export async function extractWithClaudeVision(
       'claude-vision',
       () => withRetry(
         () => anthropic.messages.create({
-          model: "claude-sonnet-4-20250514",
+          model,
           max_tokens: 4096,
           messages: [
             {
@@ -109,7 +111,7 @@ export async function extractWithClaudeVision(
                 },
                 {
                   type: "text",
-                  text: `${VISION_EXTRACTION_PROMPT}\n\n${contextPrompt}Please analyze this compliance certificate image and extract the data.`
+                  text: `${VISION_EXTRACTION_PROMPT}\n\n${promptTemplate ? `${promptTemplate}\n\n` : ''}${contextPrompt}Please analyze this compliance certificate image and extract the data.`
                 }
               ]
             }
@@ -176,7 +178,9 @@ export async function extractWithClaudeVision(
 
 export async function extractWithClaudeVisionFromPDF(
   pdfBuffer: Buffer,
-  certificateType?: string | null
+  certificateType?: string | null,
+  model: string = "claude-sonnet-4-20250514",
+  promptTemplate?: string | null
 ): Promise<ClaudeVisionResult> {
   const startTime = Date.now();
   
@@ -191,7 +195,7 @@ export async function extractWithClaudeVisionFromPDF(
       'claude-vision',
       () => withRetry(
         () => anthropic.messages.create({
-          model: "claude-sonnet-4-20250514",
+          model,
           max_tokens: 4096,
           messages: [
             {
@@ -207,7 +211,7 @@ export async function extractWithClaudeVisionFromPDF(
                 },
                 {
                   type: "text",
-                  text: `${VISION_EXTRACTION_PROMPT}\n\n${contextPrompt}Please analyze this compliance certificate document and extract the data.`
+                  text: `${VISION_EXTRACTION_PROMPT}\n\n${promptTemplate ? `${promptTemplate}\n\n` : ''}${contextPrompt}Please analyze this compliance certificate document and extract the data.`
                 }
               ]
             }
@@ -181,17 +181,22 @@ async function recordProductionTierAudit(record: TierAuditRecord): Promise<void>
   }
 }
 
-export function createProductionDependencies(): ExtractionDependencies {
+/**
+ * Real extraction tiers. A schema's prompt template, when given, is added to the
+ * built-in Claude prompts; the model can be overridden for benchmarking.
+ */
+export function createProductionDependencies(options: { promptTemplate?: string | null; model?: string } = {}): ExtractionDependencies {
+  const { promptTemplate, model } = options;
   return {
     getSettings: getProductionSettings,
     analyseDocument: realAnalyseDocument,
     extractQRMetadata: realExtractQRMetadata,
     extractWithTemplate: realExtractWithTemplate,
-    extractWithClaudeText: realExtractWithClaudeText,
+    extractWithClaudeText: (text, docType) => realExtractWithClaudeText(text, docType, undefined, model, promptTemplate),
     extractWithAzureDI: realExtractWithAzureDI,
     isAzureDIConfigured: realIsAzureDIConfigured,
-    extractWithClaudeVision: realExtractWithClaudeVision,
-    extractWithClaudeVisionFromPDF: realExtractWithClaudeVisionFromPDF,
+    extractWithClaudeVision: (buffer, mimeType, docType) => realExtractWithClaudeVision(buffer, mimeType, docType, model, promptTemplate),
+    extractWithClaudeVisionFromPDF: (buffer, docType) => realExtractWithClaudeVisionFromPDF(buffer, docType, model, promptTemplate),
     recordTierAudit: recordProductionTierAudit,
   };
 }
@@ -10,7 +10,7 @@ import type {
 import type { FormatAnalysis } from './format-detector';
 import type { QRMetadataResult } from './qr-metadata';
 import { extractCertificateWithDI } from './orchestrator-di';
-import { getDependencies, TIER_ORDER, TIER_COST_ESTIMATES } from './dependencies';
+import { getDependencies, TIER_ORDER, TIER_COST_ESTIMATES, type ExtractionDependencies } from './dependencies';
 import { logger } from '../../logger';
 
 export async function isAIProcessingEnabled(): Promise<boolean> {
@@ -65,9 +65,10 @@ export async function extractCertificate(
   buffer: Buffer,
   mimeType: string,
   filename: string,
-  options: ExtractionOptions = {}
+  options: ExtractionOptions = {},
+  deps: ExtractionDependencies = getDependencies()
 ): Promise<ExtractionResult> {
-  return extractCertificateWithDI(certificateId, buffer, mimeType, filename, options, getDependencies());
+  return extractCertificateWithDI(certificateId, buffer, mimeType, filename, options, deps);
 }
 
 export async function getTierAuditForCertificate(certificateId: string) {
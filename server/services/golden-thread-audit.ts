@@ -4,7 +4,7 @@ import { auditEvents } from "@shared/schema";
 import { eq, and, desc } from "drizzle-orm";
 import type { InsertAuditFieldChange, InsertAuditEvent } from "@shared/schema";
 
-type ChangeScope = 'PROPERTY' | 'COMPONENT' | 'BUILDING_FABRIC' | 'CERTIFICATE' | 'REMEDIAL_ACTION' | 'CONTRACTOR' | 'USER' | 'SETTINGS' | 'SCHEME' | 'BLOCK';
+type ChangeScope = 'PROPERTY' | 'COMPONENT' | 'BUILDING_FABRIC' | 'CERTIFICATE' | 'REMEDIAL_ACTION' | 'CONTRACTOR' | 'USER' | 'SETTINGS' | 'SCHEME' | 'BLOCK' | 'HAZARD_CASE';
 
 interface FieldChange {
   fieldName: string;
@@ -31,6 +31,8 @@ const SIGNIFICANT_FIELDS: Record<string, string[]> = {
   certificates: ['status', 'outcome', 'expiryDate', 'certificateNumber'],
   contractors: ['status', 'gasRegistration', 'electricalRegistration'],
   remedial_actions: ['status', 'severity', 'dueDate', 'resolvedAt'],
+  hazard_cases: ['status', 'severity', 'initialInspectionAt', 'worksStartedAt', 'worksCompletedAt', 'closedById', 'closureReason'],
+  hazard_actions: ['status', 'completedAt', 'outcome'],
 };
 
 const FIELD_LABELS: Record<string, Record<string, string>> = {
@@ -93,6 +95,25 @@ const FIELD_LABELS: Record<string, Record<string, string>> = {
     location: 'Location',
     costEstimate: 'Cost Estimate',
   },
+  hazard_cases: {
+    status: 'Hazard Status',
+    severity: 'Severity',
+    acknowledgedAt: 'Acknowledged At',
+    initialInspectionAt: 'Initial Inspection At',
+    worksStartedAt: 'Works Started At',
+    worksCompletedAt: 'Works Completed At',
+    completionPhotos: 'Completion Photos',
+    resolvedAt: 'Resolved At',
+    closedById: 'Closed By',
+    closedAt: 'Closed At',
+    closureReason: 'Closure Reason',
+  },
+  hazard_actions: {
+    status: 'Action Status',
+    scheduledDate: 'Scheduled Date',
+    completedAt: 'Completed At',
+    outcome: 'Outcome',
+  },
 };
 
 function getChangeScope(tableName: string): ChangeScope {
@@ -105,6 +126,8 @@ function getChangeScope(tableName: string): ChangeScope {
     remedial_actions: 'REMEDIAL_ACTION',
     contractors: 'CONTRACTOR',
     users: 'USER',
+    hazard_cases: 'HAZARD_CASE',
+    hazard_actions: 'HAZARD_CASE',
   };
   return mapping[tableName] || 'SETTINGS';
 }
@@ -166,6 +189,7 @@ export async function recordFieldLevelAudit(
       : changeScope === 'CERTIFICATE' ? 'CERTIFICATE'
       : changeScope === 'REMEDIAL_ACTION' ? 'REMEDIAL_ACTION'
       : changeScope === 'CONTRACTOR' ? 'ORGANISATION'
+      : changeScope === 'HAZARD_CASE' ? 'HAZARD_CASE'
       : 'SETTINGS';
     
     const significantChanges = changes.filter(c => c.isSignificant);
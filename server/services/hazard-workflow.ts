@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import { insertHazardActionSchema, insertHazardCaseSchema } from '@shared/schema';
+import type { HazardCase, HazardAction } from '@shared/schema';
+import { InvalidStateTransitionError } from '../errors';
+
+export type HazardCaseStatus = HazardCase['status'];
+export type HazardActionStatus = 'PENDING' | 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+
+interface TransitionRule<TRecord> {
+  requiredFields: Array<keyof TRecord>;
+  timestampField?: keyof TRecord;
+}
+
+export const HAZARD_CASE_TRANSITIONS: Record<HazardCaseStatus, HazardCaseStatus[]> = {
+  REPORTED: ['ACKNOWLEDGED', 'INVESTIGATING', 'ESCALATED'],
+  ACKNOWLEDGED: ['INVESTIGATING', 'ESCALATED'],
+  INVESTIGATING: ['WORKS_SCHEDULED', 'RESOLVED', 'ESCALATED'],
+  WORKS_SCHEDULED: ['WORKS_IN_PROGRESS', 'ESCALATED'],
+  WORKS_IN_PROGRESS: ['WORKS_COMPLETED', 'ESCALATED'],
+  WORKS_COMPLETED: ['MONITORING', 'RESOLVED', 'WORKS_IN_PROGRESS'],
+  MONITORING: ['RESOLVED', 'WORKS_SCHEDULED', 'ESCALATED'],
+  RESOLVED: ['CLOSED', 'MONITORING'],
+  ESCALATED: ['INVESTIGATING', 'WORKS_SCHEDULED', 'WORKS_IN_PROGRESS'],
+  CLOSED: [],
+};
+
+const HAZARD_CASE_RULES: Partial<Record<HazardCaseStatus, TransitionRule<HazardCase>>> = {
+  ACKNOWLEDGED: { requiredFields: [], timestampField: 'acknowledgedAt' },
+  WORKS_SCHEDULED: { requiredFields: ['initialInspectionAt'] },
+  WORKS_IN_PROGRESS: { requiredFields: ['initialInspectionAt'], timestampField: 'worksStartedAt' },
+  WORKS_COMPLETED: { requiredFields: ['worksStartedAt', 'completionPhotos'], timestampField: 'worksCompletedAt' },
+  RESOLVED: { requiredFields: ['initialInspectionAt'], timestampField: 'resolvedAt' },
+  CLOSED: { requiredFields: ['closureReason', 'closedById'], timestampField: 'closedAt' },
+};
+
+export const HAZARD_ACTION_TRANSITIONS: Record<HazardActionStatus, HazardActionStatus[]> = {
+  PENDING: ['SCHEDULED', 'IN_PROGRESS', 'CANCELLED'],
+  SCHEDULED: ['IN_PROGRESS', 'CANCELLED'],
+  IN_PROGRESS: ['COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+const HAZARD_ACTION_RULES: Partial<Record<HazardActionStatus, TransitionRule<HazardAction>>> = {
+  SCHEDULED: { requiredFields: ['scheduledDate'] },
+  COMPLETED: { requiredFields: ['outcome'], timestampField: 'completedAt' },
+};
+
+/** ISO strings from a JSON body become Dates and a blank string clears the field; anything unparseable fails. */
+const timestampInput = z.preprocess(
+  value => typeof value === 'string' ? (value ? new Date(value) : null) : value,
+  z.date({ invalid_type_error: 'Invalid date' }).nullable().optional()
+);
+
+const requiredTimestampInput = z.preprocess(
+  value => typeof value === 'string' ? new Date(value) : value,
+  z.date({ invalid_type_error: 'Invalid date' }).optional()
+);
+
+/** Same as timestampInput, stored as a YYYY-MM-DD date column. */
+const calendarDateInput = timestampInput.transform(value => value ? value.toISOString().split('T')[0] : value);
+
+/**
+ * Fields only the server writes: the owning organisation, the statutory deadlines, the
+ * Awaab's Law breach record kept by the clock sweep, and who closed the case.
+ */
+const SERVER_OWNED_HAZARD_CASE_FIELDS = {
+  organisationId: true,
+  initialInspectionDue: true,
+  worksStartDue: true,
+  worksCompletionDue: true,
+  slaBreach: true,
+  slaBreachType: true,
+  slaBreachAt: true,
+  escalationLevel: true,
+  closedById: true,
+} as const;
+
+const hazardCaseTimestamps = {
+  reportedAt: requiredTimestampInput,
+  acknowledgedAt: timestampInput,
+  initialInspectionAt: timestampInput,
+  worksStartedAt: timestampInput,
+  worksCompletedAt: timestampInput,
+  resolvedAt: timestampInput,
+  decantOfferedAt: timestampInput,
+  decantAcceptedAt: timestampInput,
+  closedAt: timestampInput,
+};
+
+/** Fields a client may set when reporting a hazard. New cases always enter the state machine at REPORTED. */
+export const hazardCaseCreateSchema = insertHazardCaseSchema
+  .omit({ ...SERVER_OWNED_HAZARD_CASE_FIELDS, status: true })
+  .extend(hazardCaseTimestamps);
+
+/** Fields a client may change on a hazard case. A case stays on the property it was reported against. */
+export const hazardCaseUpdateSchema = insertHazardCaseSchema
+  .omit({ ...SERVER_OWNED_HAZARD_CASE_FIELDS, propertyId: true, blockId: true, schemeId: true })
+  .partial()
+  .extend(hazardCaseTimestamps);
+
+export const hazardActionUpdateSchema = insertHazardActionSchema
+  .omit({ hazardCaseId: true })
+  .partial()
+  .extend({
+    scheduledDate: calendarDateInput,
+    dueDate: calendarDateInput,
+    completedAt: timestampInput,
+  });
+
+export type HazardCaseCreate = z.infer<typeof hazardCaseCreateSchema>;
+export type HazardCaseUpdate = z.infer<typeof hazardCaseUpdateSchema>;
+export type HazardActionUpdate = z.infer<typeof hazardActionUpdateSchema>;
+
+/** Validates a hazard case POST body. Throws ZodError. */
+export function parseHazardCaseCreate(body: unknown): HazardCaseCreate {
+  return hazardCaseCreateSchema.parse(body);
+}
+
+/** Validates a hazard case PATCH body. Throws ZodError. */
+export function parseHazardCaseUpdate(body: unknown): HazardCaseUpdate {
+  return hazardCaseUpdateSchema.parse(body);
+}
+
+/** Validates a hazard action PATCH body. Throws ZodError. */
+export function parseHazardActionUpdate(body: unknown): HazardActionUpdate {
+  return hazardActionUpdateSchema.parse(body);
+}
+
+function isMissing(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+function applyTransition<TRecord extends { status: string }, TUpdates extends { status?: string | null }>(
+  entityLabel: string,
+  transitions: Record<string, string[]>,
+  rules: Partial<Record<string, TransitionRule<TRecord>>>,
+  current: TRecord,
+  updates: TUpdates,
+  now: Date
+): TUpdates {
+  const targetStatus = updates.status;
+  if (!targetStatus || targetStatus === current.status) {
+    return updates;
+  }
+
+  const allowed = transitions[current.status];
+  if (!allowed) {
+    throw new InvalidStateTransitionError(`Unknown ${entityLabel} status '${current.status}'`);
+  }
+  if (!transitions[targetStatus]) {
+    throw new InvalidStateTransitionError(`Unknown ${entityLabel} status '${targetStatus}'`);
+  }
+  if (!allowed.includes(targetStatus)) {
+    throw new InvalidStateTransitionError(
+      `Cannot move ${entityLabel} from ${current.status} to ${targetStatus}`,
+      [{ path: 'status', message: `Allowed transitions from ${current.status}: ${allowed.join(', ') || 'none'}` }]
+    );
+  }
+
+  const result: TUpdates = { ...updates };
+  const rule = rules[targetStatus];
+  if (!rule) return result;
+
+  const merged = { ...current, ...result } as unknown as TRecord;
+  const missing = rule.requiredFields.filter(field => isMissing(merged[field]));
+  if (missing.length > 0) {
+    throw new InvalidStateTransitionError(
+      `Cannot move ${entityLabel} to ${targetStatus} until required fields are recorded`,
+      missing.map(field => ({ path: String(field), message: `${String(field)} is required before ${targetStatus}` }))
+    );
+  }
+
+  if (rule.timestampField && isMissing(merged[rule.timestampField])) {
+    (result as Record<string, unknown>)[rule.timestampField as string] = now;
+  }
+
+  return result;
+}
+
+/**
+ * Validates a hazard case update against the status state machine and returns the
+ * updates with any transition timestamps filled in. Throws InvalidStateTransitionError.
+ */
+export function applyHazardCaseTransition<TUpdates extends HazardCaseUpdate & { closedById?: string | null }>(
+  current: HazardCase,
+  updates: TUpdates,
+  now: Date = new Date()
+): TUpdates {
+  return applyTransition('hazard case', HAZARD_CASE_TRANSITIONS, HAZARD_CASE_RULES, current, updates, now);
+}
+
+export function applyHazardActionTransition(
+  current: HazardAction,
+  updates: HazardActionUpdate,
+  now: Date = new Date()
+): HazardActionUpdate {
+  return applyTransition('hazard action', HAZARD_ACTION_TRANSITIONS, HAZARD_ACTION_RULES, current, updates, now);
+}
+
+export function getAllowedHazardCaseTransitions(status: HazardCaseStatus): HazardCaseStatus[] {
+  return HAZARD_CASE_TRANSITIONS[status] ?? [];
+}
@@ -0,0 +1,425 @@
+import { db } from '../db';
+import { buildingSafetyProfiles, complianceCalendarEvents, riskAlerts } from '@shared/schema';
+import type { BuildingSafetyProfile, SafetyCaseReview } from '@shared/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { storage } from '../storage';
+import { logger } from '../logger';
+
+export type HrbReadinessCheck =
+  | 'ACCOUNTABLE_PERSON'
+  | 'SAFETY_CASE'
+  | 'EVACUATION_STRATEGY'
+  | 'KEY_BUILDING_INFO'
+  | 'CLADDING_MITIGATION'
+  | 'RESIDENT_ENGAGEMENT'
+  | 'BUILDING_ASSURANCE_CERTIFICATE';
+
+export type HrbReadinessStatus = 'MET' | 'DUE_SOON' | 'OVERDUE' | 'NOT_MET' | 'NOT_APPLICABLE';
+
+export interface HrbReadinessConfig {
+  /** Checks scored for every higher-risk building, in display order. */
+  checks: HrbReadinessCheck[];
+  evacuationStrategyReviewMonths: number;
+  residentEngagementReviewMonths: number;
+  /** Dated items within this many days of falling due are flagged and scheduled. */
+  dueSoonDays: number;
+}
+
+export interface HrbReadinessItem {
+  check: HrbReadinessCheck;
+  label: string;
+  status: HrbReadinessStatus;
+  dueDate: string | null;
+  detail: string;
+}
+
+export interface HrbReadinessScore {
+  /** Percentage of applicable checks met; items due soon still count as met. */
+  score: number;
+  items: HrbReadinessItem[];
+  outstandingItems: HrbReadinessItem[];
+}
+
+export interface HrbBuildingReadiness extends HrbReadinessScore {
+  buildingSafetyProfileId: string;
+  blockId: string;
+  blockName: string | null;
+  hrbRegistrationNumber: string | null;
+}
+
+export interface HrbReadinessPortfolio {
+  generatedAt: string;
+  summary: {
+    buildings: number;
+    averageScore: number;
+    fullyReady: number;
+    withOutstandingItems: number;
+    overdueItems: number;
+  };
+  buildings: HrbBuildingReadiness[];
+}
+
+const CHECK_LABELS: Record<HrbReadinessCheck, string> = {
+  ACCOUNTABLE_PERSON: 'Principal accountable person appointed',
+  SAFETY_CASE: 'Safety case review',
+  EVACUATION_STRATEGY: 'Evacuation strategy review',
+  KEY_BUILDING_INFO: 'Key building information submitted',
+  CLADDING_MITIGATION: 'ACM/HPL cladding mitigated',
+  RESIDENT_ENGAGEMENT: 'Resident engagement strategy review',
+  BUILDING_ASSURANCE_CERTIFICATE: 'Building assurance certificate',
+};
+
+const ALL_CHECKS = Object.keys(CHECK_LABELS) as HrbReadinessCheck[];
+
+/**
+ * Defaults follow the Building Safety Act 2022 duties on the principal accountable
+ * person for an occupied higher-risk building. They can be overridden with the
+ * HRB_READINESS_CHECKLIST factory setting.
+ */
+export const DEFAULT_HRB_READINESS_CONFIG: HrbReadinessConfig = {
+  checks: ALL_CHECKS,
+  evacuationStrategyReviewMonths: 12,
+  residentEngagementReviewMonths: 24,
+  dueSoonDays: 30,
+};
+
+export const HRB_READINESS_ALERT_TYPE = 'HRB_READINESS';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LEGISLATION_REFERENCE = 'Building Safety Act 2022, Part 4';
+
+let cachedConfig: HrbReadinessConfig | null = null;
+let configCacheTime = 0;
+const CONFIG_CACHE_TTL_MS = 60000;
+
+function positiveOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function mergeHrbReadinessConfig(overrides: Partial<HrbReadinessConfig>): HrbReadinessConfig {
+  const checks = Array.isArray(overrides.checks)
+    ? ALL_CHECKS.filter(check => overrides.checks!.includes(check))
+    : [];
+  return {
+    checks: checks.length > 0 ? checks : DEFAULT_HRB_READINESS_CONFIG.checks,
+    evacuationStrategyReviewMonths: positiveOr(overrides.evacuationStrategyReviewMonths, DEFAULT_HRB_READINESS_CONFIG.evacuationStrategyReviewMonths),
+    residentEngagementReviewMonths: positiveOr(overrides.residentEngagementReviewMonths, DEFAULT_HRB_READINESS_CONFIG.residentEngagementReviewMonths),
+    dueSoonDays: positiveOr(overrides.dueSoonDays, DEFAULT_HRB_READINESS_CONFIG.dueSoonDays),
+  };
+}
+
+export async function getHrbReadinessConfig(): Promise<HrbReadinessConfig> {
+  const now = Date.now();
+  if (cachedConfig && now - configCacheTime < CONFIG_CACHE_TTL_MS) {
+    return cachedConfig;
+  }
+
+  try {
+    const raw = await storage.getFactorySettingValue('HRB_READINESS_CHECKLIST', '');
+    const overrides = raw ? JSON.parse(raw) as Partial<HrbReadinessConfig> : {};
+    cachedConfig = mergeHrbReadinessConfig(overrides);
+  } catch (error) {
+    logger.warn({ error }, 'Failed to load HRB readiness checklist, using defaults');
+    cachedConfig = DEFAULT_HRB_READINESS_CONFIG;
+  }
+  configCacheTime = now;
+  return cachedConfig;
+}
+
+export function clearHrbReadinessConfigCache(): void {
+  cachedConfig = null;
+  configCacheTime = 0;
+}
+
+function toDate(value: Date | string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
+
+function dateOnly(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function hasText(value: string | null | undefined): boolean {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function datedItem(check: HrbReadinessCheck, dueDate: Date, now: Date, config: HrbReadinessConfig): HrbReadinessItem {
+  const daysRemaining = Math.floor((dueDate.getTime() - now.getTime()) / DAY_MS);
+  const status: HrbReadinessStatus = daysRemaining < 0 ? 'OVERDUE' : daysRemaining <= config.dueSoonDays ? 'DUE_SOON' : 'MET';
+  const detail = daysRemaining < 0
+    ? `Overdue since ${dateOnly(dueDate)}`
+    : `Due ${dateOnly(dueDate)}`;
+  return { check, label: CHECK_LABELS[check], status, dueDate: dateOnly(dueDate), detail };
+}
+
+function undatedItem(check: HrbReadinessCheck, status: HrbReadinessStatus, detail: string): HrbReadinessItem {
+  return { check, label: CHECK_LABELS[check], status, dueDate: null, detail };
+}
+
+/**
+ * The safety case is current until the next review due on the most recent review,
+ * falling back to the date held on the profile when no review has set one.
+ */
+export function safetyCaseNextReviewDue(profile: BuildingSafetyProfile, reviews: SafetyCaseReview[]): Date | null {
+  const latest = [...reviews]
+    .filter(review => review.nextReviewDue)
+    .sort((a, b) => b.reviewDate.localeCompare(a.reviewDate))[0];
+  return toDate(latest?.nextReviewDue) ?? toDate(profile.safetyCaseNextReviewDue);
+}
+
+// Measures in place for ACM/HPL panels are recorded on the profile under metadata.claddingMitigation
+function hasCladdingMitigation(profile: BuildingSafetyProfile): boolean {
+  const mitigation = (profile.metadata as Record<string, unknown> | null)?.claddingMitigation;
+  if (typeof mitigation === 'string') return mitigation.trim().length > 0;
+  return mitigation === true || (!!mitigation && typeof mitigation === 'object');
+}
+
+function evaluateCheck(
+  check: HrbReadinessCheck,
+  profile: BuildingSafetyProfile,
+  reviews: SafetyCaseReview[],
+  config: HrbReadinessConfig,
+  now: Date
+): HrbReadinessItem {
+  switch (check) {
+    case 'ACCOUNTABLE_PERSON':
+      return hasText(profile.principalAccountablePersonName)
+        ? undatedItem(check, 'MET', profile.principalAccountablePersonName!)
+        : undatedItem(check, 'NOT_MET', 'No principal accountable person recorded');
+    case 'SAFETY_CASE': {
+      const due = safetyCaseNextReviewDue(profile, reviews);
+      return due ? datedItem(check, due, now, config) : undatedItem(check, 'NOT_MET', 'No safety case review recorded');
+    }
+    case 'EVACUATION_STRATEGY': {
+      const reviewed = toDate(profile.evacuationStrategyLastReviewed);
+      if (!profile.evacuationStrategy || !reviewed) {
+        return undatedItem(check, 'NOT_MET', profile.evacuationStrategy ? 'Evacuation strategy has never been reviewed' : 'No evacuation strategy recorded');
+      }
+      return datedItem(check, addMonths(reviewed, config.evacuationStrategyReviewMonths), now, config);
+    }
+    case 'KEY_BUILDING_INFO':
+      return profile.keyBuildingInfoSubmitted
+        ? undatedItem(check, 'MET', 'Submitted to the Building Safety Regulator')
+        : undatedItem(check, 'NOT_MET', 'Key building information not submitted');
+    case 'CLADDING_MITIGATION': {
+      const panels = [profile.hasACM && 'ACM', profile.hasHPL && 'HPL'].filter(Boolean).join(' and ');
+      if (!panels) return undatedItem(check, 'MET', 'No ACM or HPL cladding recorded');
+      return hasCladdingMitigation(profile)
+        ? undatedItem(check, 'MET', `${panels} cladding with mitigation in place`)
+        : undatedItem(check, 'NOT_MET', `${panels} cladding without recorded mitigation`);
+    }
+    case 'RESIDENT_ENGAGEMENT': {
+      const reviewed = toDate(profile.residentEngagementLastReviewed);
+      if (!hasText(profile.residentEngagementStrategy) || !reviewed) {
+        return undatedItem(check, 'NOT_MET', hasText(profile.residentEngagementStrategy) ? 'Resident engagement strategy has never been reviewed' : 'No resident engagement strategy recorded');
+      }
+      return datedItem(check, addMonths(reviewed, config.residentEngagementReviewMonths), now, config);
+    }
+    case 'BUILDING_ASSURANCE_CERTIFICATE': {
+      const expiry = toDate(profile.buildingAssuranceCertificateExpiry);
+      return expiry ? datedItem(check, expiry, now, config) : undatedItem(check, 'NOT_APPLICABLE', 'No certificate issued');
+    }
+  }
+}
+
+export function scoreHrbReadiness(
+  profile: BuildingSafetyProfile,
+  reviews: SafetyCaseReview[],
+  config: HrbReadinessConfig = DEFAULT_HRB_READINESS_CONFIG,
+  now: Date = new Date()
+): HrbReadinessScore {
+  const items = config.checks.map(check => evaluateCheck(check, profile, reviews, config, now));
+  const applicable = items.filter(item => item.status !== 'NOT_APPLICABLE');
+  const met = applicable.filter(item => item.status === 'MET' || item.status === 'DUE_SOON');
+  return {
+    score: applicable.length > 0 ? Math.round((met.length / applicable.length) * 100) : 100,
+    items,
+    outstandingItems: items.filter(item => item.status === 'OVERDUE' || item.status === 'NOT_MET'),
+  };
+}
+
+async function assessBuilding(profile: BuildingSafetyProfile, config: HrbReadinessConfig, now: Date): Promise<HrbBuildingReadiness> {
+  const [reviews, block] = await Promise.all([
+    storage.listSafetyCaseReviews(profile.id),
+    storage.getBlock(profile.blockId),
+  ]);
+  return {
+    buildingSafetyProfileId: profile.id,
+    blockId: profile.blockId,
+    blockName: block?.name ?? null,
+    hrbRegistrationNumber: profile.hrbRegistrationNumber,
+    ...scoreHrbReadiness(profile, reviews, config, now),
+  };
+}
+
+/** Scores every higher-risk building in the organisation, least ready first. */
+export async function getHrbReadinessPortfolio(organisationId: string, now: Date = new Date()): Promise<HrbReadinessPortfolio> {
+  const config = await getHrbReadinessConfig();
+  const profiles = await storage.listBuildingSafetyProfiles(organisationId, { isHrb: true });
+  const buildings = await Promise.all(profiles.map(profile => assessBuilding(profile, config, now)));
+  buildings.sort((a, b) => a.score - b.score || (a.blockName ?? '').localeCompare(b.blockName ?? ''));
+
+  return {
+    generatedAt: now.toISOString(),
+    summary: {
+      buildings: buildings.length,
+      averageScore: buildings.length > 0 ? Math.round(buildings.reduce((sum, building) => sum + building.score, 0) / buildings.length) : 0,
+      fullyReady: buildings.filter(building => building.outstandingItems.length === 0).length,
+      withOutstandingItems: buildings.filter(building => building.outstandingItems.length > 0).length,
+      overdueItems: buildings.reduce((sum, building) => sum + building.items.filter(item => item.status === 'OVERDUE').length, 0),
+    },
+    buildings,
+  };
+}
+
+// Calendar events and risk alerts hang off a property, so use one of the block's properties
+async function resolveBlockPropertyId(organisationId: string, blockId: string): Promise<string | null> {
+  const [property] = await storage.listProperties(organisationId, { blockId });
+  return property?.id ?? null;
+}
+
+/**
+ * Puts each dated item that is due soon or overdue in the compliance calendar once
+ * per review cycle. Overdue items are scheduled for today rather than in the past.
+ */
+async function scheduleReadinessItems(
+  organisationId: string,
+  building: HrbBuildingReadiness,
+  propertyId: string | null,
+  config: HrbReadinessConfig,
+  now: Date
+): Promise<number> {
+  const dueItems = building.items.filter(item => item.dueDate && (item.status === 'DUE_SOON' || item.status === 'OVERDUE'));
+  if (dueItems.length === 0) return 0;
+
+  const existing = await db.select().from(complianceCalendarEvents).where(and(
+    eq(complianceCalendarEvents.organisationId, organisationId),
+    eq(complianceCalendarEvents.eventType, 'INSPECTION'),
+    eq(complianceCalendarEvents.isSystemGenerated, true)
+  ));
+  const stream = await storage.getComplianceStreamByCode('BUILDING_SAFETY');
+
+  let scheduled = 0;
+  for (const item of dueItems) {
+    const title = `${item.label}: ${building.blockName ?? building.blockId}`;
+    const dueDate = new Date(item.dueDate!);
+    const cycleStart = new Date(dueDate.getTime() - config.dueSoonDays * DAY_MS);
+    if (existing.some(event => event.title === title && event.startDate >= cycleStart)) continue;
+
+    await storage.createCalendarEvent({
+      organisationId,
+      title,
+      description: `${item.detail}. Required for higher-risk building ${building.hrbRegistrationNumber ?? building.blockId}.`,
+      eventType: 'INSPECTION',
+      complianceStreamId: stream?.id ?? null,
+      startDate: item.status === 'OVERDUE' ? now : dueDate,
+      propertyId,
+      reminderDaysBefore: 7,
+      legislationReference: LEGISLATION_REFERENCE,
+      priority: item.status === 'OVERDUE' ? 'HIGH' : 'MEDIUM',
+      isSystemGenerated: true,
+    });
+    scheduled++;
+  }
+  return scheduled;
+}
+
+/**
+ * Keeps one open alert per building listing its outstanding items, and resolves it
+ * once every check is met.
+ */
+async function syncReadinessAlert(
+  organisationId: string,
+  building: HrbBuildingReadiness,
+  propertyId: string | null,
+  now: Date
+): Promise<'RAISED' | 'UPDATED' | 'RESOLVED' | null> {
+  const [existing] = await db.select({ id: riskAlerts.id, triggeringFactors: riskAlerts.triggeringFactors })
+    .from(riskAlerts)
+    .where(and(
+      eq(riskAlerts.organisationId, organisationId),
+      eq(riskAlerts.alertType, HRB_READINESS_ALERT_TYPE),
+      eq(riskAlerts.status, 'OPEN'),
+      sql`${riskAlerts.metadata}->>'buildingSafetyProfileId' = ${building.buildingSafetyProfileId}`
+    ))
+    .limit(1);
+
+  if (building.outstandingItems.length === 0) {
+    if (!existing) return null;
+    await db.update(riskAlerts)
+      .set({ status: 'RESOLVED', resolvedAt: now, resolutionNotes: 'All HRB readiness checks met', updatedAt: now })
+      .where(eq(riskAlerts.id, existing.id));
+    return 'RESOLVED';
+  }
+
+  const triggeringFactors = building.outstandingItems.map(item => `${item.label}: ${item.detail}`);
+  if (existing && JSON.stringify(existing.triggeringFactors ?? []) === JSON.stringify(triggeringFactors)) return null;
+
+  const buildingName = building.blockName ?? building.blockId;
+  const title = `HRB readiness ${building.score}% - ${buildingName}`;
+  const description = `${building.outstandingItems.length} outstanding Building Safety Act item(s) for ${buildingName}`;
+  const riskTier = building.outstandingItems.some(item => item.status === 'OVERDUE' || item.check === 'CLADDING_MITIGATION') ? 'CRITICAL' : 'HIGH';
+
+  if (existing) {
+    await db.update(riskAlerts)
+      .set({ title, description, triggeringFactors, riskTier, riskScore: 100 - building.score, updatedAt: now })
+      .where(eq(riskAlerts.id, existing.id));
+    return 'UPDATED';
+  }
+
+  if (!propertyId) {
+    logger.warn({ buildingSafetyProfileId: building.buildingSafetyProfileId }, 'Higher-risk building has no property to alert against');
+    return null;
+  }
+
+  await db.insert(riskAlerts).values({
+    organisationId,
+    propertyId,
+    alertType: HRB_READINESS_ALERT_TYPE,
+    riskTier,
+    title,
+    description,
+    triggeringFactors,
+    riskScore: 100 - building.score,
+    metadata: { buildingSafetyProfileId: building.buildingSafetyProfileId, blockId: building.blockId },
+  });
+  return 'RAISED';
+}
+
+/**
+ * Scores every higher-risk building, schedules due and overdue review items and
+ * keeps each building's readiness alert in step with its outstanding items.
+ */
+export async function runHrbReadinessSweep(now: Date = new Date()): Promise<{ checked: number; eventsScheduled: number; alertsRaised: number; alertsResolved: number }> {
+  const config = await getHrbReadinessConfig();
+  const profiles = await db.select().from(buildingSafetyProfiles).where(eq(buildingSafetyProfiles.isHRB, true));
+
+  let eventsScheduled = 0;
+  let alertsRaised = 0;
+  let alertsResolved = 0;
+
+  for (const profile of profiles) {
+    try {
+      const building = await assessBuilding(profile, config, now);
+      const propertyId = await resolveBlockPropertyId(profile.organisationId, profile.blockId);
+      eventsScheduled += await scheduleReadinessItems(profile.organisationId, building, propertyId, config, now);
+
+      const outcome = await syncReadinessAlert(profile.organisationId, building, propertyId, now);
+      if (outcome === 'RAISED' || outcome === 'UPDATED') alertsRaised++;
+      if (outcome === 'RESOLVED') alertsResolved++;
+    } catch (error) {
+      logger.error({ error, buildingSafetyProfileId: profile.id }, 'Failed to assess HRB readiness');
+    }
+  }
+
+  logger.info({ checked: profiles.length, eventsScheduled, alertsRaised, alertsResolved }, 'HRB readiness sweep completed');
+  return { checked: profiles.length, eventsScheduled, alertsRaised, alertsResolved };
+}
@@ -0,0 +1,198 @@
+import { createHmac, createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { z } from 'zod';
+import type { InboundWebhookSource } from '@shared/schema';
+import { storage } from '../storage';
+import { logger } from '../logger';
+
+export const INBOUND_WEBHOOK_HEADERS = {
+  KEY_ID: 'x-webhook-key-id',
+  TIMESTAMP: 'x-webhook-timestamp',
+  NONCE: 'x-webhook-nonce',
+  SIGNATURE: 'x-webhook-signature',
+  API_KEY: 'x-api-key',
+  AUTHORIZATION: 'authorization',
+} as const;
+
+export type InboundRejectionReason =
+  | 'MISSING_KEY_ID'
+  | 'UNKNOWN_SOURCE'
+  | 'SOURCE_DISABLED'
+  | 'SOURCE_MISMATCH'
+  | 'AUTH_NOT_CONFIGURED'
+  | 'MISSING_TIMESTAMP'
+  | 'STALE_TIMESTAMP'
+  | 'MISSING_NONCE'
+  | 'REPLAYED_NONCE'
+  | 'MISSING_SIGNATURE'
+  | 'INVALID_SIGNATURE'
+  | 'INVALID_CREDENTIALS'
+  | 'ACTION_NOT_IN_ORGANISATION';
+
+export type InboundAuthResult =
+  | { ok: true; source: InboundWebhookSource }
+  | { ok: false; status: number; reason: InboundRejectionReason; message: string; source?: InboundWebhookSource };
+
+/**
+ * Signed timestamps may drift this far from the server clock. Nonces are kept for
+ * twice the tolerance, so the upper bound also caps how long the nonce table grows.
+ */
+export const MIN_TOLERANCE_SECONDS = 30;
+export const MAX_TOLERANCE_SECONDS = 3600;
+
+const toleranceSecondsInput = z.number().int().min(MIN_TOLERANCE_SECONDS).max(MAX_TOLERANCE_SECONDS);
+
+export const inboundWebhookSourceCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  source: z.string().trim().min(1).default('HMS'),
+  authType: z.enum(['HMAC_SHA256', 'API_KEY', 'BEARER']).default('HMAC_SHA256'),
+  toleranceSeconds: toleranceSecondsInput.default(300),
+});
+
+export const inboundWebhookSourceUpdateSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  isActive: z.boolean().optional(),
+  toleranceSeconds: toleranceSecondsInput.optional(),
+});
+
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+const REDACTED_HEADERS = [
+  INBOUND_WEBHOOK_HEADERS.SIGNATURE,
+  INBOUND_WEBHOOK_HEADERS.API_KEY,
+  INBOUND_WEBHOOK_HEADERS.AUTHORIZATION,
+  'cookie',
+];
+
+function headerValue(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  return left.length > 0 && left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function hashInboundCredential(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Signs `timestamp.nonce.body` so the timestamp and nonce can't be swapped onto a
+ * captured payload. Same HMAC-SHA256 hex encoding as outbound webhook signatures.
+ */
+export function computeInboundSignature(secret: string, timestamp: string, nonce: string, rawBody: Buffer | string): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${nonce}.`)
+    .update(rawBody)
+    .digest('hex');
+}
+
+export function isTimestampWithinTolerance(timestamp: string, toleranceSeconds: number, now: Date = new Date()): boolean {
+  if (!/^\d{9,11}$/.test(timestamp)) return false;
+  return Math.abs(Math.floor(now.getTime() / 1000) - parseInt(timestamp, 10)) <= toleranceSeconds;
+}
+
+export function generateInboundWebhookCredentials(): { keyId: string; secret: string } {
+  return {
+    keyId: `whk_${randomBytes(12).toString('hex')}`,
+    secret: randomBytes(32).toString('base64url'),
+  };
+}
+
+export function redactInboundHeaders(headers: IncomingHttpHeaders): Record<string, unknown> {
+  const redacted: Record<string, unknown> = { ...headers };
+  for (const name of REDACTED_HEADERS) {
+    if (redacted[name] !== undefined) redacted[name] = '[REDACTED]';
+  }
+  return redacted;
+}
+
+/**
+ * Checks the credential carried by the request against the source's auth type.
+ * Timestamp and nonce checks are separate so they apply whichever auth type is used.
+ */
+export function verifyInboundCredentials(
+  source: Pick<InboundWebhookSource, 'authType' | 'authValue'>,
+  headers: IncomingHttpHeaders,
+  rawBody: Buffer | string
+): { reason: InboundRejectionReason; message: string } | null {
+  switch (source.authType) {
+    case 'HMAC_SHA256': {
+      const provided = headerValue(headers, INBOUND_WEBHOOK_HEADERS.SIGNATURE)?.replace(/^sha256=/, '');
+      if (!provided) {
+        return { reason: 'MISSING_SIGNATURE', message: 'Missing X-Webhook-Signature header' };
+      }
+      const timestamp = headerValue(headers, INBOUND_WEBHOOK_HEADERS.TIMESTAMP) ?? '';
+      const nonce = headerValue(headers, INBOUND_WEBHOOK_HEADERS.NONCE) ?? '';
+      const expected = computeInboundSignature(source.authValue, timestamp, nonce, rawBody);
+      return safeEqualHex(provided, expected) ? null : { reason: 'INVALID_SIGNATURE', message: 'Signature does not match payload' };
+    }
+    case 'API_KEY':
+    case 'BEARER': {
+      const provided = source.authType === 'API_KEY'
+        ? headerValue(headers, INBOUND_WEBHOOK_HEADERS.API_KEY)
+        : headerValue(headers, INBOUND_WEBHOOK_HEADERS.AUTHORIZATION)?.replace(/^Bearer\s+/i, '');
+      if (!provided || !safeEqualHex(hashInboundCredential(provided), source.authValue)) {
+        return { reason: 'INVALID_CREDENTIALS', message: 'Invalid credentials' };
+      }
+      return null;
+    }
+    default:
+      return { reason: 'AUTH_NOT_CONFIGURED', message: 'Inbound source has no authentication configured' };
+  }
+}
+
+export async function authenticateInboundWebhook(
+  expectedSource: string,
+  headers: IncomingHttpHeaders,
+  rawBody: Buffer | string,
+  now: Date = new Date()
+): Promise<InboundAuthResult> {
+  const keyId = headerValue(headers, INBOUND_WEBHOOK_HEADERS.KEY_ID);
+  if (!keyId) {
+    return { ok: false, status: 401, reason: 'MISSING_KEY_ID', message: 'Missing X-Webhook-Key-Id header' };
+  }
+
+  const source = await storage.getInboundWebhookSourceByKeyId(keyId);
+  if (!source) {
+    return { ok: false, status: 401, reason: 'UNKNOWN_SOURCE', message: 'Unknown webhook key' };
+  }
+  if (!source.isActive) {
+    return { ok: false, status: 403, reason: 'SOURCE_DISABLED', message: 'Webhook source is disabled', source };
+  }
+  if (source.source !== expectedSource) {
+    return { ok: false, status: 403, reason: 'SOURCE_MISMATCH', message: `Webhook key is not valid for ${expectedSource}`, source };
+  }
+
+  const timestamp = headerValue(headers, INBOUND_WEBHOOK_HEADERS.TIMESTAMP);
+  if (!timestamp) {
+    return { ok: false, status: 401, reason: 'MISSING_TIMESTAMP', message: 'Missing X-Webhook-Timestamp header', source };
+  }
+  if (!isTimestampWithinTolerance(timestamp, source.toleranceSeconds, now)) {
+    return { ok: false, status: 401, reason: 'STALE_TIMESTAMP', message: 'Timestamp is outside the allowed window', source };
+  }
+
+  const nonce = headerValue(headers, INBOUND_WEBHOOK_HEADERS.NONCE);
+  if (!nonce || !NONCE_PATTERN.test(nonce)) {
+    return { ok: false, status: 401, reason: 'MISSING_NONCE', message: 'Missing or malformed X-Webhook-Nonce header', source };
+  }
+
+  const credentialError = verifyInboundCredentials(source, headers, rawBody);
+  if (credentialError) {
+    return { ok: false, status: 401, ...credentialError, source };
+  }
+
+  // Only verified requests reach here, so an attacker can't burn nonces; keep them
+  // for twice the tolerance window so any still-acceptable timestamp is covered
+  const expiresAt = new Date(now.getTime() + source.toleranceSeconds * 2 * 1000);
+  const isNew = await storage.recordInboundWebhookNonce(source.id, nonce, expiresAt);
+  if (!isNew) {
+    logger.warn({ sourceId: source.id, organisationId: source.organisationId }, 'Replayed inbound webhook nonce rejected');
+    return { ok: false, status: 409, reason: 'REPLAYED_NONCE', message: 'Nonce has already been used', source };
+  }
+
+  await storage.updateInboundWebhookSource(source.id, source.organisationId, { lastReceivedAt: now });
+  return { ok: true, source };
+}
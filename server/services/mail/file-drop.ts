@@ -0,0 +1,66 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  IMailTransport,
+  MailTransportType,
+  MailMessage,
+  MailSendResult,
+  FileMailConfig,
+  MailError,
+} from "./types";
+
+/**
+ * Writes each message to its own directory (message.json plus attachments) so
+ * that outgoing mail can be inspected in development without an SMTP server.
+ */
+export class FileDropMailTransport implements IMailTransport {
+  readonly name = "File Drop";
+  readonly type = MailTransportType.FILE;
+
+  constructor(private readonly config: FileMailConfig) {}
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const messageId = `${Date.now()}-${crypto.randomUUID()}`;
+    const messageDir = path.join(this.config.directory, messageId);
+
+    try {
+      await fs.mkdir(messageDir, { recursive: true });
+
+      const attachments = [];
+      for (const attachment of message.attachments ?? []) {
+        const filename = path.basename(attachment.filename);
+        await fs.writeFile(path.join(messageDir, filename), attachment.content);
+        attachments.push({ filename, contentType: attachment.contentType, size: attachment.content.length });
+      }
+
+      await fs.writeFile(path.join(messageDir, "message.json"), JSON.stringify({
+        messageId,
+        from: message.from || this.config.defaultFrom,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments,
+        createdAt: new Date().toISOString(),
+      }, null, 2));
+
+      return { messageId, accepted: true };
+    } catch (error) {
+      throw new MailError(
+        `File drop failed: ${error instanceof Error ? error.message : String(error)}`,
+        this.name,
+        message.to
+      );
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await fs.mkdir(this.config.directory, { recursive: true });
+      await fs.access(this.config.directory);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
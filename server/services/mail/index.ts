@@ -0,0 +1,73 @@
+export * from "./types";
+
+import {
+  IMailTransport,
+  MailTransportType,
+  AnyMailConfig,
+  MailError,
+} from "./types";
+import { SmtpMailTransport } from "./smtp";
+import { FileDropMailTransport } from "./file-drop";
+import { MemoryMailTransport } from "./memory";
+
+export { SmtpMailTransport, FileDropMailTransport, MemoryMailTransport };
+
+let globalTransport: IMailTransport | null = null;
+
+export function getMailConfigFromEnv(): AnyMailConfig {
+  // MAIL_TRANSPORT options: smtp, file, memory
+  // Default: "smtp" when SMTP_HOST is set, otherwise "file" so mail is never silently dropped
+  const defaultFrom = process.env.MAIL_FROM || "ComplianceAI <no-reply@socialcomply.io>";
+  const transportType = (process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "file")).toLowerCase();
+
+  switch (transportType) {
+    case "smtp":
+      return {
+        type: MailTransportType.SMTP,
+        defaultFrom,
+        host: process.env.SMTP_HOST || "localhost",
+        port: parseInt(process.env.SMTP_PORT || "587"),
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      };
+
+    case "file":
+      return {
+        type: MailTransportType.FILE,
+        defaultFrom,
+        directory: process.env.MAIL_DROP_PATH || "./data/mail",
+      };
+
+    case "memory":
+      return { type: MailTransportType.MEMORY, defaultFrom };
+
+    default:
+      throw new MailError(
+        `Unknown mail transport: ${transportType}. Supported transports: smtp, file, memory`,
+        transportType
+      );
+  }
+}
+
+export function createMailTransport(config: AnyMailConfig): IMailTransport {
+  switch (config.type) {
+    case MailTransportType.SMTP:
+      return new SmtpMailTransport(config);
+    case MailTransportType.FILE:
+      return new FileDropMailTransport(config);
+    case MailTransportType.MEMORY:
+      return new MemoryMailTransport(config);
+  }
+}
+
+export function getMailTransport(): IMailTransport {
+  if (!globalTransport) {
+    globalTransport = createMailTransport(getMailConfigFromEnv());
+  }
+  return globalTransport;
+}
+
+export function setMailTransport(transport: IMailTransport | null): void {
+  globalTransport = transport;
+}
@@ -0,0 +1,45 @@
+import {
+  IMailTransport,
+  MailTransportType,
+  MailMessage,
+  MailSendResult,
+  MemoryMailConfig,
+  MailError,
+} from "./types";
+
+export interface SentMail extends MailMessage {
+  messageId: string;
+  sentAt: Date;
+}
+
+/**
+ * Keeps sent messages in memory for tests. Recipients listed in failRecipients
+ * are rejected so that retry handling can be exercised.
+ */
+export class MemoryMailTransport implements IMailTransport {
+  readonly name = "In-Memory";
+  readonly type = MailTransportType.MEMORY;
+
+  readonly sent: SentMail[] = [];
+  readonly failRecipients = new Set<string>();
+
+  constructor(private readonly config: MemoryMailConfig) {}
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    if (this.failRecipients.has(message.to)) {
+      throw new MailError(`Recipient rejected: ${message.to}`, this.name, message.to);
+    }
+    const messageId = `memory-${this.sent.length + 1}`;
+    this.sent.push({ ...message, from: message.from || this.config.defaultFrom, messageId, sentAt: new Date() });
+    return { messageId, accepted: true };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+    this.failRecipients.clear();
+  }
+}
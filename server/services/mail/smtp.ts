@@ -0,0 +1,58 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import {
+  IMailTransport,
+  MailTransportType,
+  MailMessage,
+  MailSendResult,
+  SmtpMailConfig,
+  MailError,
+} from "./types";
+
+export class SmtpMailTransport implements IMailTransport {
+  readonly name = "SMTP";
+  readonly type = MailTransportType.SMTP;
+
+  private transporter: Transporter;
+
+  constructor(private readonly config: SmtpMailConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    try {
+      const info = await this.transporter.sendMail({
+        from: message.from || this.config.defaultFrom,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: message.attachments?.map(attachment => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          contentType: attachment.contentType,
+        })),
+      });
+      return { messageId: info.messageId, accepted: (info.accepted?.length ?? 0) > 0 && (info.rejected?.length ?? 0) === 0 };
+    } catch (error) {
+      throw new MailError(
+        `SMTP delivery failed: ${error instanceof Error ? error.message : String(error)}`,
+        this.name,
+        message.to
+      );
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.transporter.verify();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
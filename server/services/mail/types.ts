@@ -0,0 +1,71 @@
+export enum MailTransportType {
+  SMTP = "smtp",
+  FILE = "file",
+  MEMORY = "memory",
+}
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface MailMessage {
+  to: string;
+  from?: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailSendResult {
+  messageId: string;
+  accepted: boolean;
+}
+
+export interface IMailTransport {
+  readonly name: string;
+  readonly type: MailTransportType;
+
+  send(message: MailMessage): Promise<MailSendResult>;
+
+  healthCheck(): Promise<boolean>;
+}
+
+export interface MailTransportConfig {
+  type: MailTransportType;
+  defaultFrom: string;
+}
+
+export interface SmtpMailConfig extends MailTransportConfig {
+  type: MailTransportType.SMTP;
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export interface FileMailConfig extends MailTransportConfig {
+  type: MailTransportType.FILE;
+  directory: string;
+}
+
+export interface MemoryMailConfig extends MailTransportConfig {
+  type: MailTransportType.MEMORY;
+}
+
+export type AnyMailConfig = SmtpMailConfig | FileMailConfig | MemoryMailConfig;
+
+export class MailError extends Error {
+  constructor(
+    message: string,
+    public readonly transport: string,
+    public readonly recipient?: string
+  ) {
+    super(message);
+    this.name = "MailError";
+    Object.setPrototypeOf(this, MailError.prototype);
+  }
+}
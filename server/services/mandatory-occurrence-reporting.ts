@@ -0,0 +1,554 @@
+import { db } from '../db';
+import { mandatoryOccurrenceReports, riskAlerts } from '@shared/schema';
+import type { MandatoryOccurrenceReport } from '@shared/schema';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { ValidationError } from '../errors';
+import { renderReportPdf, type ReportDocument } from './report-generator';
+
+export interface OccurrenceReportingConfig {
+  /** Hours from the occurrence to the regulator deadline, keyed by occurrence type. */
+  deadlineHours: Record<string, number>;
+  /** Used for occurrence types without their own entry. */
+  defaultDeadlineHours: number;
+  /** Hours before the deadline at which the alert escalates, one level per lead time. */
+  alertLeadHours: number[];
+}
+
+export interface OccurrenceDeadlineStage {
+  overdue: boolean;
+  hoursRemaining: number;
+  escalationLevel: number;
+}
+
+export interface OccurrenceSubmissionPack {
+  generatedAt: string;
+  organisation: { id: string; name: string | null };
+  report: {
+    id: string;
+    reportReference: string;
+    occurrenceType: string;
+    occurrenceDate: string;
+    description: string;
+    immediateActionsTaken: string | null;
+    riskToSafety: string;
+    personsAffected: number | null;
+    injuriesReported: boolean;
+    investigationStatus: string | null;
+    investigationFindings: string | null;
+    preventiveMeasures: unknown;
+    regulatorReference: string | null;
+  };
+  deadline: {
+    reportDeadline: string | null;
+    reportedToRegulatorAt: string | null;
+    wasReportedInTime: boolean | null;
+  };
+  building: {
+    propertyId: string | null;
+    address: string | null;
+    blockId: string | null;
+    blockName: string | null;
+    hrbRegistrationNumber: string | null;
+    principalAccountablePerson: string | null;
+  };
+  hazardCases: Array<{
+    id: string;
+    caseReference: string;
+    category: string;
+    severity: string;
+    status: string;
+    description: string;
+    location: string | null;
+    reportedAt: string;
+  }>;
+  certificates: Array<{
+    id: string;
+    certificateType: string;
+    certificateNumber: string | null;
+    issueDate: string | null;
+    expiryDate: string | null;
+    outcome: string | null;
+    status: string;
+  }>;
+  correctiveActions: Array<{
+    source: 'REPORT' | 'HAZARD_CASE' | 'REMEDIAL_ACTION';
+    reference: string | null;
+    description: string;
+    status: string | null;
+    dueDate: string | null;
+  }>;
+}
+
+/**
+ * Defaults give every structural and fire-spread occurrence type under the Building
+ * Safety Act 2022 mandatory occurrence reporting regime the ten-day window for
+ * reporting to the Building Safety Regulator. They can be overridden per occurrence
+ * type with the BSA_MOR_TIMEFRAMES factory setting.
+ */
+export const DEFAULT_OCCURRENCE_REPORTING_CONFIG: OccurrenceReportingConfig = {
+  deadlineHours: {
+    STRUCTURAL_FAILURE: 240,
+    FIRE_SPREAD: 240,
+    FIRE_SAFETY_SYSTEM_FAILURE: 240,
+    COMPARTMENTATION_FAILURE: 240,
+    OTHER_SAFETY_OCCURRENCE: 240,
+  },
+  defaultDeadlineHours: 240,
+  alertLeadHours: [120, 48, 24],
+};
+
+export const OCCURRENCE_DEADLINE_ALERT_TYPE = 'BSA_MOR_DEADLINE';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DATE_FIELDS = ['occurrenceDate', 'reportedToRegulatorAt', 'investigationCompletedAt', 'closedAt'] as const;
+// The regulator deadline is counted from the occurrence, so it cannot be cleared
+const REQUIRED_DATE_FIELDS: ReadonlyArray<string> = ['occurrenceDate'];
+
+let cachedConfig: OccurrenceReportingConfig | null = null;
+let configCacheTime = 0;
+const CONFIG_CACHE_TTL_MS = 60000;
+
+export function mergeOccurrenceReportingConfig(overrides: Partial<OccurrenceReportingConfig>): OccurrenceReportingConfig {
+  const leadHours = Array.isArray(overrides.alertLeadHours)
+    ? overrides.alertLeadHours.filter(hours => Number.isFinite(hours) && hours > 0)
+    : [];
+  return {
+    deadlineHours: { ...DEFAULT_OCCURRENCE_REPORTING_CONFIG.deadlineHours, ...overrides.deadlineHours },
+    defaultDeadlineHours: overrides.defaultDeadlineHours ?? DEFAULT_OCCURRENCE_REPORTING_CONFIG.defaultDeadlineHours,
+    alertLeadHours: leadHours.length > 0
+      ? Array.from(new Set(leadHours)).sort((a, b) => b - a)
+      : DEFAULT_OCCURRENCE_REPORTING_CONFIG.alertLeadHours,
+  };
+}
+
+export async function getOccurrenceReportingConfig(): Promise<OccurrenceReportingConfig> {
+  const now = Date.now();
+  if (cachedConfig && now - configCacheTime < CONFIG_CACHE_TTL_MS) {
+    return cachedConfig;
+  }
+
+  try {
+    const raw = await storage.getFactorySettingValue('BSA_MOR_TIMEFRAMES', '');
+    const overrides = raw ? JSON.parse(raw) as Partial<OccurrenceReportingConfig> : {};
+    cachedConfig = mergeOccurrenceReportingConfig(overrides);
+  } catch (error) {
+    logger.warn({ error }, 'Failed to load mandatory occurrence reporting timeframes, using defaults');
+    cachedConfig = DEFAULT_OCCURRENCE_REPORTING_CONFIG;
+  }
+  configCacheTime = now;
+  return cachedConfig;
+}
+
+export function clearOccurrenceReportingConfigCache(): void {
+  cachedConfig = null;
+  configCacheTime = 0;
+}
+
+function toDate(value: Date | string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function normaliseOccurrenceType(occurrenceType: string): string {
+  return occurrenceType.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+export function calculateReportDeadline(
+  occurrenceType: string,
+  occurrenceDate: Date,
+  config: OccurrenceReportingConfig = DEFAULT_OCCURRENCE_REPORTING_CONFIG
+): Date {
+  const hours = config.deadlineHours[normaliseOccurrenceType(occurrenceType)] ?? config.defaultDeadlineHours;
+  return new Date(occurrenceDate.getTime() + hours * HOUR_MS);
+}
+
+/**
+ * Converts the date fields of a create/update request body, which arrive as
+ * strings, into the Date values the table expects. A blank value clears the
+ * field unless it is required; anything unparseable is rejected rather than
+ * silently dropped.
+ */
+export function parseOccurrenceReportDates(body: Record<string, unknown>): Record<string, unknown> {
+  const parsed: Record<string, unknown> = { ...body };
+  const errors: Array<{ path: string; message: string }> = [];
+  for (const field of DATE_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value === null || value === '') {
+      if (REQUIRED_DATE_FIELDS.includes(field)) {
+        errors.push({ path: field, message: 'Required' });
+      }
+      parsed[field] = null;
+      continue;
+    }
+    const date = typeof value === 'string' || value instanceof Date ? toDate(value) : null;
+    if (!date) {
+      errors.push({ path: field, message: 'Invalid date' });
+    }
+    parsed[field] = date;
+  }
+  if (errors.length > 0) {
+    throw new ValidationError('Request validation failed', errors);
+  }
+  return parsed;
+}
+
+/**
+ * Returns the deadline fields to persist on a report after it is created or changed.
+ * The deadline is always derived from the occurrence, never taken from the request.
+ */
+export async function deriveOccurrenceReportFields(
+  input: Pick<MandatoryOccurrenceReport, 'occurrenceType' | 'occurrenceDate'> & { reportedToRegulatorAt?: Date | null }
+): Promise<Pick<MandatoryOccurrenceReport, 'reportDeadline' | 'wasReportedInTime'>> {
+  const config = await getOccurrenceReportingConfig();
+  const reportDeadline = calculateReportDeadline(input.occurrenceType, input.occurrenceDate, config);
+  const reportedAt = toDate(input.reportedToRegulatorAt);
+  return {
+    reportDeadline,
+    wasReportedInTime: reportedAt ? reportedAt.getTime() <= reportDeadline.getTime() : null,
+  };
+}
+
+/**
+ * Where an unreported occurrence sits against its deadline. Escalation level 0 is
+ * outside every lead time; each lead time reached adds one, and overdue is the top level.
+ */
+export function evaluateDeadlineStage(
+  reportDeadline: Date,
+  now: Date = new Date(),
+  config: OccurrenceReportingConfig = DEFAULT_OCCURRENCE_REPORTING_CONFIG
+): OccurrenceDeadlineStage {
+  const hoursRemaining = (reportDeadline.getTime() - now.getTime()) / HOUR_MS;
+  if (hoursRemaining < 0) {
+    return { overdue: true, hoursRemaining, escalationLevel: config.alertLeadHours.length + 1 };
+  }
+  const reached = config.alertLeadHours.filter(hours => hoursRemaining <= hours).length;
+  return { overdue: false, hoursRemaining, escalationLevel: reached };
+}
+
+// Risk alerts hang off a property, so block-level reports use one of the block's properties
+async function resolveAlertPropertyId(report: MandatoryOccurrenceReport): Promise<string | null> {
+  if (report.propertyId) return report.propertyId;
+  if (!report.blockId) return null;
+  const [property] = await storage.listProperties(report.organisationId, { blockId: report.blockId });
+  return property?.id ?? null;
+}
+
+async function raiseDeadlineAlert(report: MandatoryOccurrenceReport, stage: OccurrenceDeadlineStage): Promise<boolean> {
+  const [existing] = await db.select({ id: riskAlerts.id, escalationLevel: riskAlerts.escalationLevel })
+    .from(riskAlerts)
+    .where(and(
+      eq(riskAlerts.organisationId, report.organisationId),
+      eq(riskAlerts.alertType, OCCURRENCE_DEADLINE_ALERT_TYPE),
+      eq(riskAlerts.status, 'OPEN'),
+      sql`${riskAlerts.metadata}->>'mandatoryOccurrenceReportId' = ${report.id}`
+    ))
+    .limit(1);
+
+  if (existing && existing.escalationLevel >= stage.escalationLevel) return false;
+
+  const title = stage.overdue
+    ? `Mandatory occurrence report overdue - ${report.reportReference}`
+    : `Mandatory occurrence report due - ${report.reportReference}`;
+  const description = stage.overdue
+    ? `The Building Safety Regulator deadline passed on ${report.reportDeadline!.toISOString()} and the occurrence has not been reported`
+    : `Report to the Building Safety Regulator by ${report.reportDeadline!.toISOString()} (${Math.floor(stage.hoursRemaining)} hours remaining)`;
+
+  if (existing) {
+    await db.update(riskAlerts)
+      .set({ title, description, escalationLevel: stage.escalationLevel, riskTier: stage.overdue ? 'CRITICAL' : 'HIGH', updatedAt: new Date() })
+      .where(eq(riskAlerts.id, existing.id));
+    return true;
+  }
+
+  const propertyId = await resolveAlertPropertyId(report);
+  if (!propertyId) {
+    logger.warn({ reportId: report.id }, 'Mandatory occurrence report has no property to alert against');
+    return false;
+  }
+
+  await db.insert(riskAlerts).values({
+    organisationId: report.organisationId,
+    propertyId,
+    alertType: OCCURRENCE_DEADLINE_ALERT_TYPE,
+    riskTier: stage.overdue ? 'CRITICAL' : 'HIGH',
+    title,
+    description,
+    triggeringFactors: [`${report.occurrenceType} occurrence`, ...(report.injuriesReported ? ['Injuries reported'] : [])],
+    riskScore: stage.overdue ? 100 : 75,
+    dueDate: report.reportDeadline,
+    slaHours: Math.max(0, Math.floor(stage.hoursRemaining)),
+    escalationLevel: stage.escalationLevel,
+    linkedCertificateIds: report.linkedCertificateIds,
+    metadata: { mandatoryOccurrenceReportId: report.id, blockId: report.blockId },
+  });
+  return true;
+}
+
+/** Closes the deadline alert once the occurrence has been reported or the report closed. */
+export async function resolveOccurrenceDeadlineAlerts(
+  report: MandatoryOccurrenceReport,
+  resolutionNotes = 'Occurrence reported to the Building Safety Regulator'
+): Promise<void> {
+  await db.update(riskAlerts)
+    .set({ status: 'RESOLVED', resolvedAt: new Date(), resolutionNotes, updatedAt: new Date() })
+    .where(and(
+      eq(riskAlerts.organisationId, report.organisationId),
+      eq(riskAlerts.alertType, OCCURRENCE_DEADLINE_ALERT_TYPE),
+      eq(riskAlerts.status, 'OPEN'),
+      sql`${riskAlerts.metadata}->>'mandatoryOccurrenceReportId' = ${report.id}`
+    ));
+}
+
+/**
+ * Re-evaluates the deadline alert after a report's deadline moves. raiseDeadlineAlert only
+ * escalates, so the open alert is resolved and raised again at the stage of the new deadline.
+ */
+export async function refreshOccurrenceDeadlineAlert(report: MandatoryOccurrenceReport, now: Date = new Date()): Promise<void> {
+  await resolveOccurrenceDeadlineAlerts(report, 'Report deadline recalculated after the occurrence changed');
+  if (report.reportedToRegulatorAt || report.closedAt || !report.reportDeadline) return;
+
+  const stage = evaluateDeadlineStage(report.reportDeadline, now, await getOccurrenceReportingConfig());
+  if (stage.escalationLevel > 0) {
+    await raiseDeadlineAlert(report, stage);
+  }
+}
+
+/**
+ * Checks every unreported occurrence against its regulator deadline and raises or
+ * escalates an alert as each lead time is reached.
+ */
+export async function runOccurrenceDeadlineSweep(now: Date = new Date()): Promise<{ checked: number; alertsRaised: number; overdue: number }> {
+  const config = await getOccurrenceReportingConfig();
+
+  const pending = await db.select()
+    .from(mandatoryOccurrenceReports)
+    .where(and(isNull(mandatoryOccurrenceReports.reportedToRegulatorAt), isNull(mandatoryOccurrenceReports.closedAt)));
+
+  let alertsRaised = 0;
+  let overdue = 0;
+
+  for (const report of pending) {
+    try {
+      let current = report;
+      if (!report.reportDeadline) {
+        const reportDeadline = calculateReportDeadline(report.occurrenceType, report.occurrenceDate, config);
+        current = (await storage.updateMandatoryOccurrenceReport(report.id, { reportDeadline })) ?? { ...report, reportDeadline };
+      }
+
+      const stage = evaluateDeadlineStage(current.reportDeadline!, now, config);
+      if (stage.overdue) overdue++;
+      if (stage.escalationLevel > 0 && await raiseDeadlineAlert(current, stage)) {
+        alertsRaised++;
+      }
+    } catch (error) {
+      logger.error({ error, reportId: report.id }, 'Failed to evaluate mandatory occurrence report deadline');
+    }
+  }
+
+  logger.info({ checked: pending.length, alertsRaised, overdue }, 'Mandatory occurrence deadline sweep completed');
+  return { checked: pending.length, alertsRaised, overdue };
+}
+
+function iso(value: Date | null | undefined): string | null {
+  return value ? value.toISOString() : null;
+}
+
+function reportCorrectiveActions(value: unknown): OccurrenceSubmissionPack['correctiveActions'] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(item => {
+    if (typeof item === 'string') {
+      return [{ source: 'REPORT' as const, reference: null, description: item, status: null, dueDate: null }];
+    }
+    if (item && typeof item === 'object' && typeof (item as { description?: unknown }).description === 'string') {
+      const action = item as { description: string; status?: unknown; dueDate?: unknown; reference?: unknown };
+      return [{
+        source: 'REPORT' as const,
+        reference: typeof action.reference === 'string' ? action.reference : null,
+        description: action.description,
+        status: typeof action.status === 'string' ? action.status : null,
+        dueDate: typeof action.dueDate === 'string' ? action.dueDate : null,
+      }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Bundles the report with its linked hazard cases, certificates and every
+ * corrective action recorded against them, ready to send to the regulator.
+ */
+export async function buildOccurrenceSubmissionPack(
+  report: MandatoryOccurrenceReport,
+  now: Date = new Date()
+): Promise<OccurrenceSubmissionPack> {
+  const organisationId = report.organisationId;
+  const [organisation, property, block, profile] = await Promise.all([
+    storage.getOrganisation(organisationId),
+    report.propertyId ? storage.getProperty(report.propertyId) : undefined,
+    report.blockId ? storage.getBlock(report.blockId) : undefined,
+    report.buildingSafetyProfileId ? storage.getBuildingSafetyProfile(report.buildingSafetyProfileId, organisationId) : undefined,
+  ]);
+
+  const hazardCases = (await Promise.all(
+    (report.linkedHazardCaseIds ?? []).map(id => storage.getHazardCase(id, organisationId))
+  )).filter((hazard): hazard is NonNullable<typeof hazard> => Boolean(hazard));
+
+  const certificates = (await Promise.all(
+    (report.linkedCertificateIds ?? []).map(id => storage.getCertificate(id))
+  )).filter((certificate): certificate is NonNullable<typeof certificate> =>
+    Boolean(certificate) && certificate!.organisationId === organisationId);
+
+  const correctiveActions = reportCorrectiveActions(report.correctiveActions);
+  for (const hazard of hazardCases) {
+    for (const action of await storage.listHazardActions(hazard.id)) {
+      correctiveActions.push({
+        source: 'HAZARD_CASE',
+        reference: hazard.caseReference,
+        description: action.description,
+        status: action.status,
+        dueDate: action.dueDate,
+      });
+    }
+  }
+  for (const certificate of certificates) {
+    for (const action of await storage.listRemedialActions(organisationId, { certificateId: certificate.id })) {
+      correctiveActions.push({
+        source: 'REMEDIAL_ACTION',
+        reference: action.code,
+        description: action.description,
+        status: action.status,
+        dueDate: action.dueDate,
+      });
+    }
+  }
+
+  return {
+    generatedAt: now.toISOString(),
+    organisation: { id: organisationId, name: organisation?.name ?? null },
+    report: {
+      id: report.id,
+      reportReference: report.reportReference,
+      occurrenceType: report.occurrenceType,
+      occurrenceDate: report.occurrenceDate.toISOString(),
+      description: report.description,
+      immediateActionsTaken: report.immediateActionsToken,
+      riskToSafety: report.riskToSafety,
+      personsAffected: report.personsAffected,
+      injuriesReported: report.injuriesReported,
+      investigationStatus: report.investigationStatus,
+      investigationFindings: report.investigationFindings,
+      preventiveMeasures: report.preventiveMeasures ?? null,
+      regulatorReference: report.regulatorReference,
+    },
+    deadline: {
+      reportDeadline: iso(report.reportDeadline),
+      reportedToRegulatorAt: iso(report.reportedToRegulatorAt),
+      wasReportedInTime: report.wasReportedInTime,
+    },
+    building: {
+      propertyId: report.propertyId,
+      address: property ? [property.addressLine1, property.addressLine2, property.postcode].filter(Boolean).join(', ') : null,
+      blockId: report.blockId ?? profile?.blockId ?? null,
+      blockName: block?.name ?? null,
+      hrbRegistrationNumber: profile?.hrbRegistrationNumber ?? null,
+      principalAccountablePerson: profile?.principalAccountablePersonName ?? null,
+    },
+    hazardCases: hazardCases.map(hazard => ({
+      id: hazard.id,
+      caseReference: hazard.caseReference,
+      category: hazard.category,
+      severity: hazard.severity,
+      status: hazard.status,
+      description: hazard.description,
+      location: hazard.location,
+      reportedAt: hazard.reportedAt.toISOString(),
+    })),
+    certificates: certificates.map(certificate => ({
+      id: certificate.id,
+      certificateType: certificate.certificateType,
+      certificateNumber: certificate.certificateNumber,
+      issueDate: certificate.issueDate,
+      expiryDate: certificate.expiryDate,
+      outcome: certificate.outcome,
+      status: certificate.status,
+    })),
+    correctiveActions,
+  };
+}
+
+export function submissionPackToReportDocument(pack: OccurrenceSubmissionPack): ReportDocument {
+  const { report, deadline, building } = pack;
+  return {
+    title: `Mandatory Occurrence Report ${report.reportReference}`,
+    generatedAt: new Date(pack.generatedAt),
+    sections: [
+      {
+        title: 'Occurrence',
+        summary: [
+          { label: 'Organisation', value: pack.organisation.name },
+          { label: 'Occurrence type', value: report.occurrenceType },
+          { label: 'Occurred', value: report.occurrenceDate },
+          { label: 'Description', value: report.description },
+          { label: 'Immediate actions taken', value: report.immediateActionsTaken },
+          { label: 'Risk to safety', value: report.riskToSafety },
+          { label: 'Persons affected', value: report.personsAffected },
+          { label: 'Injuries reported', value: report.injuriesReported ? 'Yes' : 'No' },
+          { label: 'Investigation', value: [report.investigationStatus, report.investigationFindings].filter(Boolean).join(' - ') || null },
+        ],
+        columns: [],
+        rows: [],
+      },
+      {
+        title: 'Regulator Deadline',
+        summary: [
+          { label: 'Report deadline', value: deadline.reportDeadline },
+          { label: 'Reported to regulator', value: deadline.reportedToRegulatorAt ?? 'Not yet reported' },
+          { label: 'Reported in time', value: deadline.wasReportedInTime === null ? null : deadline.wasReportedInTime ? 'Yes' : 'No' },
+          { label: 'Regulator reference', value: report.regulatorReference },
+        ],
+        columns: [],
+        rows: [],
+      },
+      {
+        title: 'Building',
+        summary: [
+          { label: 'Property', value: building.address },
+          { label: 'Block', value: building.blockName },
+          { label: 'HRB registration number', value: building.hrbRegistrationNumber },
+          { label: 'Principal accountable person', value: building.principalAccountablePerson },
+        ],
+        columns: [],
+        rows: [],
+      },
+      {
+        title: 'Linked Hazard Cases',
+        summary: [],
+        columns: ['Reference', 'Category', 'Severity', 'Status', 'Location', 'Description'],
+        rows: pack.hazardCases.map(hazard => [hazard.caseReference, hazard.category, hazard.severity, hazard.status, hazard.location, hazard.description]),
+      },
+      {
+        title: 'Linked Certificates',
+        summary: [],
+        columns: ['Type', 'Number', 'Issued', 'Expires', 'Outcome', 'Status'],
+        rows: pack.certificates.map(certificate => [
+          certificate.certificateType, certificate.certificateNumber, certificate.issueDate,
+          certificate.expiryDate, certificate.outcome, certificate.status,
+        ]),
+      },
+      {
+        title: 'Corrective Actions',
+        summary: [],
+        columns: ['Source', 'Reference', 'Description', 'Status', 'Due'],
+        rows: pack.correctiveActions.map(action => [action.source, action.reference, action.description, action.status, action.dueDate]),
+      },
+    ],
+  };
+}
+
+export function renderSubmissionPackPdf(pack: OccurrenceSubmissionPack): Buffer {
+  return renderReportPdf(submissionPackToReportDocument(pack));
+}
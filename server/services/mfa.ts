@@ -0,0 +1,485 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import QRCode from 'qrcode';
+import type { User } from '@shared/schema';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { recordAudit, type AuditContext } from './audit';
+import { BadRequestError, ConflictError, ForbiddenError, TooManyRequestsError, UnauthorizedError } from '../errors';
+
+export const MFA_ISSUER = 'ComplianceAI';
+export const MFA_DEFAULT_REQUIRED_ROLES = ['SUPER_ADMIN', 'SYSTEM_ADMIN', 'COMPLIANCE_MANAGER'];
+
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export type MfaGateStatus = 'SATISFIED' | 'MFA_VERIFICATION_REQUIRED' | 'MFA_ENROLMENT_REQUIRED';
+export type MfaUser = Pick<User, 'id' | 'username' | 'name' | 'email' | 'role' | 'organisationId' | 'mfaEnabled'>;
+
+export interface MfaPolicy {
+  enforced: boolean;
+  requiredRoles: string[];
+}
+
+const DEFAULT_MFA_POLICY: MfaPolicy = { enforced: false, requiredRoles: MFA_DEFAULT_REQUIRED_ROLES };
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character '${char}'`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function getTotpStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * RFC 6238 TOTP (HMAC-SHA1, 6 digits, 30s period) - the defaults every
+ * authenticator app supports.
+ */
+export function generateTotpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Returns the matched time step so callers can store it and refuse the same
+ * code twice, or null when the code is wrong, outside the drift window or
+ * not newer than lastUsedStep.
+ */
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  options: { now?: Date; lastUsedStep?: number | null } = {}
+): number | null {
+  const normalised = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalised)) return null;
+
+  const currentStep = getTotpStep(options.now);
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (options.lastUsedStep != null && step <= options.lastUsedStep) continue;
+    const expected = generateTotpCode(secret, step);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalised))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function buildProvisioningUri(secret: string, accountName: string, issuer: string = MFA_ISSUER): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+function normaliseRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normaliseRecoveryCode(code)).digest('hex');
+}
+
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(randomBytes(7)).slice(0, 10);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+/**
+ * Returns the remaining hashes with the matched code removed, or null when the
+ * code doesn't match any unused recovery code.
+ */
+export function consumeRecoveryCode(hashes: string[], code: string): string[] | null {
+  const candidate = Buffer.from(hashRecoveryCode(code), 'hex');
+  const index = hashes.findIndex(hash => {
+    const stored = Buffer.from(hash, 'hex');
+    return stored.length === candidate.length && timingSafeEqual(stored, candidate);
+  });
+  if (index === -1) return null;
+  return hashes.filter((_, i) => i !== index);
+}
+
+const DEVELOPMENT_ENCRYPTION_SECRET = 'development-only-secret-change-in-production';
+
+function getEncryptionKey(): Buffer {
+  const configured = process.env.MFA_ENCRYPTION_KEY
+    || process.env.BETTER_AUTH_SECRET
+    || process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === 'production' && (!configured || configured === DEVELOPMENT_ENCRYPTION_SECRET)) {
+    throw new Error('MFA_ENCRYPTION_KEY, BETTER_AUTH_SECRET or SESSION_SECRET must be set to encrypt MFA secrets in production');
+  }
+  const secret = configured || DEVELOPMENT_ENCRYPTION_SECRET;
+  return createHash('sha256').update(`mfa:${secret}`).digest();
+}
+
+export function encryptMfaSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return ['v1', iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptMfaSecret(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== 'v1' || !iv || !tag || !ciphertext) {
+    throw new Error('Unsupported MFA secret format');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+export function isMfaRequiredForRole(policy: MfaPolicy, role: string): boolean {
+  return policy.enforced && policy.requiredRoles.map(r => r.toUpperCase()).includes(role.toUpperCase());
+}
+
+export function parseMfaPolicy(settings: unknown): MfaPolicy {
+  const mfa = (settings as { mfa?: Partial<MfaPolicy> } | null)?.mfa;
+  if (!mfa) return DEFAULT_MFA_POLICY;
+  return {
+    enforced: mfa.enforced === true,
+    requiredRoles: Array.isArray(mfa.requiredRoles) ? mfa.requiredRoles.filter((r): r is string => typeof r === 'string') : MFA_DEFAULT_REQUIRED_ROLES,
+  };
+}
+
+const policyCache = new Map<string, { policy: MfaPolicy; expiresAt: number }>();
+const POLICY_CACHE_TTL_MS = 60000;
+
+export async function getOrganisationMfaPolicy(organisationId: string): Promise<MfaPolicy> {
+  const cached = policyCache.get(organisationId);
+  if (cached && Date.now() < cached.expiresAt) {
+    return cached.policy;
+  }
+
+  try {
+    const organisation = await storage.getOrganisation(organisationId);
+    const policy = parseMfaPolicy(organisation?.settings);
+    policyCache.set(organisationId, { policy, expiresAt: Date.now() + POLICY_CACHE_TTL_MS });
+    return policy;
+  } catch (error) {
+    logger.error({ error, organisationId }, 'Failed to load MFA policy, using defaults');
+    return DEFAULT_MFA_POLICY;
+  }
+}
+
+export function clearMfaPolicyCache(): void {
+  policyCache.clear();
+}
+
+export async function updateOrganisationMfaPolicy(
+  organisationId: string,
+  policy: MfaPolicy,
+  context: AuditContext
+): Promise<MfaPolicy> {
+  const organisation = await storage.getOrganisation(organisationId);
+  const before = parseMfaPolicy(organisation?.settings);
+  const settings = (organisation?.settings as Record<string, unknown> | null) ?? {};
+
+  await storage.updateOrganisation(organisationId, { settings: { ...settings, mfa: policy } });
+  clearMfaPolicyCache();
+
+  await recordAudit({
+    organisationId,
+    eventType: 'MFA_POLICY_CHANGED',
+    entityType: 'ORGANISATION',
+    entityId: organisationId,
+    entityName: organisation?.name,
+    message: policy.enforced
+      ? `MFA required for roles: ${policy.requiredRoles.join(', ')}`
+      : 'MFA requirement disabled',
+    beforeState: { ...before },
+    afterState: { ...policy },
+    context,
+  });
+  return policy;
+}
+
+/**
+ * Decides whether a signed-in session may proceed. Enrolled users need a
+ * verified session; users whose role the organisation policy covers must
+ * enrol first.
+ */
+export async function getMfaGateStatus(user: MfaUser, sessionId: string | null): Promise<MfaGateStatus> {
+  if (user.mfaEnabled) {
+    const verifiedAt = sessionId ? await storage.getSessionMfaVerifiedAt(sessionId) : null;
+    return verifiedAt ? 'SATISFIED' : 'MFA_VERIFICATION_REQUIRED';
+  }
+
+  const policy = await getOrganisationMfaPolicy(user.organisationId);
+  return isMfaRequiredForRole(policy, user.role) ? 'MFA_ENROLMENT_REQUIRED' : 'SATISFIED';
+}
+
+function recordMfaAudit(
+  user: MfaUser,
+  eventType: 'MFA_ENROLMENT_STARTED' | 'MFA_ENABLED' | 'MFA_VERIFIED' | 'MFA_VERIFICATION_FAILED'
+    | 'MFA_RECOVERY_CODE_USED' | 'MFA_RECOVERY_CODES_REGENERATED' | 'MFA_DISABLED' | 'MFA_RESET',
+  message: string,
+  context: AuditContext,
+  metadata?: Record<string, unknown>
+) {
+  return recordAudit({
+    organisationId: user.organisationId,
+    eventType,
+    entityType: 'USER',
+    entityId: user.id,
+    entityName: user.name || user.username,
+    message,
+    metadata,
+    context,
+  });
+}
+
+export async function startMfaEnrolment(user: MfaUser, context: AuditContext) {
+  if (user.mfaEnabled) {
+    throw new ConflictError('MFA is already enabled for this account');
+  }
+
+  const secret = generateTotpSecret();
+  await storage.upsertUserMfaCredential({
+    userId: user.id,
+    organisationId: user.organisationId,
+    secretEncrypted: encryptMfaSecret(secret),
+    enabledAt: null,
+    lastUsedStep: null,
+    recoveryCodeHashes: [],
+    failedAttempts: 0,
+    lockedUntil: null,
+    lastVerifiedAt: null,
+  });
+
+  const otpauthUri = buildProvisioningUri(secret, user.email || user.username);
+  await recordMfaAudit(user, 'MFA_ENROLMENT_STARTED', `User ${user.username} started MFA enrolment`, context);
+
+  return {
+    secret,
+    otpauthUri,
+    qrCodeDataUrl: await QRCode.toDataURL(otpauthUri),
+  };
+}
+
+export async function confirmMfaEnrolment(user: MfaUser, sessionId: string | null, code: string, context: AuditContext) {
+  const credential = await storage.getUserMfaCredential(user.id);
+  if (!credential || credential.enabledAt) {
+    throw new BadRequestError('No MFA enrolment in progress');
+  }
+
+  const step = verifyTotpCode(decryptMfaSecret(credential.secretEncrypted), code);
+  if (step === null) {
+    await recordMfaAudit(user, 'MFA_VERIFICATION_FAILED', `User ${user.username} entered an invalid code while enrolling MFA`, context, { stage: 'ENROLMENT' });
+    throw new UnauthorizedError('Invalid verification code');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  const now = new Date();
+  await storage.updateUserMfaCredential(user.id, {
+    enabledAt: now,
+    lastUsedStep: step,
+    lastVerifiedAt: now,
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+  });
+  await storage.setUserMfaEnabled(user.id, true);
+  if (sessionId) {
+    await storage.markSessionMfaVerified(sessionId);
+  }
+
+  await recordMfaAudit(user, 'MFA_ENABLED', `User ${user.username} enabled MFA`, context);
+  return { recoveryCodes };
+}
+
+type MfaCheckOutcome =
+  | { verified: true; method: 'TOTP' | 'RECOVERY_CODE'; recoveryCodesRemaining: number }
+  | { verified: false; lockedOut: boolean };
+
+/**
+ * Checks a TOTP or recovery code against the user's enrolled credential,
+ * tracking failures so repeated guesses lock the factor for a short period.
+ * The check runs under the credential's row lock, so concurrent attempts
+ * cannot spend the same recovery code or lose a failed attempt.
+ */
+export async function verifyMfaCode(
+  user: MfaUser,
+  input: { code?: string; recoveryCode?: string },
+  context: AuditContext
+): Promise<{ method: 'TOTP' | 'RECOVERY_CODE'; recoveryCodesRemaining: number }> {
+  const outcome = await storage.withUserMfaCredentialLock(user.id, async (credential, update): Promise<MfaCheckOutcome> => {
+    if (!credential?.enabledAt) {
+      throw new BadRequestError('MFA is not enabled for this account');
+    }
+
+    const now = new Date();
+    if (credential.lockedUntil && credential.lockedUntil > now) {
+      const retryAfter = Math.ceil((credential.lockedUntil.getTime() - now.getTime()) / 1000);
+      throw new TooManyRequestsError('Too many failed MFA attempts. Try again later.', retryAfter);
+    }
+
+    if (input.recoveryCode) {
+      const remaining = consumeRecoveryCode(credential.recoveryCodeHashes, input.recoveryCode);
+      if (remaining) {
+        await update({
+          recoveryCodeHashes: remaining,
+          failedAttempts: 0,
+          lockedUntil: null,
+          lastVerifiedAt: now,
+        });
+        return { verified: true, method: 'RECOVERY_CODE', recoveryCodesRemaining: remaining.length };
+      }
+    } else if (input.code) {
+      const step = verifyTotpCode(decryptMfaSecret(credential.secretEncrypted), input.code, {
+        now,
+        lastUsedStep: credential.lastUsedStep,
+      });
+      if (step !== null) {
+        await update({
+          lastUsedStep: step,
+          failedAttempts: 0,
+          lockedUntil: null,
+          lastVerifiedAt: now,
+        });
+        return { verified: true, method: 'TOTP', recoveryCodesRemaining: credential.recoveryCodeHashes.length };
+      }
+    } else {
+      throw new BadRequestError('A verification code or recovery code is required');
+    }
+
+    const failedAttempts = credential.failedAttempts + 1;
+    const lockedUntil = failedAttempts >= MAX_FAILED_ATTEMPTS
+      ? new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000)
+      : null;
+    await update({
+      failedAttempts: lockedUntil ? 0 : failedAttempts,
+      lockedUntil,
+    });
+    return { verified: false, lockedOut: lockedUntil !== null };
+  });
+
+  if (outcome.verified) {
+    if (outcome.method === 'RECOVERY_CODE') {
+      await recordMfaAudit(user, 'MFA_RECOVERY_CODE_USED', `User ${user.username} signed in with a recovery code`, context, {
+        recoveryCodesRemaining: outcome.recoveryCodesRemaining,
+      });
+    } else {
+      await recordMfaAudit(user, 'MFA_VERIFIED', `User ${user.username} completed MFA verification`, context);
+    }
+    return { method: outcome.method, recoveryCodesRemaining: outcome.recoveryCodesRemaining };
+  }
+
+  await recordMfaAudit(user, 'MFA_VERIFICATION_FAILED', `User ${user.username} failed MFA verification`, context, {
+    method: input.recoveryCode ? 'RECOVERY_CODE' : 'TOTP',
+    lockedOut: outcome.lockedOut,
+  });
+  throw new UnauthorizedError(input.recoveryCode ? 'Invalid recovery code' : 'Invalid verification code');
+}
+
+export async function completeMfaChallenge(
+  user: MfaUser,
+  sessionId: string | null,
+  input: { code?: string; recoveryCode?: string },
+  context: AuditContext
+) {
+  const result = await verifyMfaCode(user, input, context);
+  if (sessionId) {
+    await storage.markSessionMfaVerified(sessionId);
+  }
+  return result;
+}
+
+export async function regenerateRecoveryCodes(user: MfaUser, code: string, context: AuditContext) {
+  await verifyMfaCode(user, { code }, context);
+
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.updateUserMfaCredential(user.id, { recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) });
+  await recordMfaAudit(user, 'MFA_RECOVERY_CODES_REGENERATED', `User ${user.username} regenerated MFA recovery codes`, context);
+  return { recoveryCodes };
+}
+
+export async function disableMfa(user: MfaUser, code: string, context: AuditContext): Promise<void> {
+  const policy = await getOrganisationMfaPolicy(user.organisationId);
+  if (isMfaRequiredForRole(policy, user.role)) {
+    throw new ForbiddenError('Your organisation requires MFA for your role');
+  }
+
+  await verifyMfaCode(user, { code }, context);
+  await storage.deleteUserMfaCredential(user.id);
+  await storage.setUserMfaEnabled(user.id, false);
+  await storage.clearUserSessionMfaVerification(user.id);
+  await recordMfaAudit(user, 'MFA_DISABLED', `User ${user.username} disabled MFA`, context);
+}
+
+/**
+ * Admin reset for a lost device: removes the credential so the user enrols
+ * again on next sign-in (if their role still requires it).
+ */
+export async function resetUserMfa(target: MfaUser, context: AuditContext): Promise<void> {
+  await storage.deleteUserMfaCredential(target.id);
+  await storage.setUserMfaEnabled(target.id, false);
+  await storage.clearUserSessionMfaVerification(target.id);
+  await recordMfaAudit(target, 'MFA_RESET', `MFA reset for user ${target.username} by ${context.actorName || 'an administrator'}`, context);
+}
+
+export async function getMfaStatus(user: MfaUser, sessionId: string | null) {
+  const [credential, policy, gate] = await Promise.all([
+    storage.getUserMfaCredential(user.id),
+    getOrganisationMfaPolicy(user.organisationId),
+    getMfaGateStatus(user, sessionId),
+  ]);
+
+  return {
+    enabled: user.mfaEnabled,
+    required: isMfaRequiredForRole(policy, user.role),
+    enrolmentPending: !!credential && !credential.enabledAt,
+    gate,
+    recoveryCodesRemaining: credential?.enabledAt ? credential.recoveryCodeHashes.length : 0,
+    lastVerifiedAt: credential?.lastVerifiedAt ?? null,
+  };
+}
@@ -0,0 +1,74 @@
+import { readFileSync } from "fs";
+import type { RegistrationType, WorkCategory } from "../contractor-competency";
+import {
+  RegisterStatus,
+  RegistrationLookupResult,
+  RegistrationVerifier,
+} from "./types";
+
+export interface RegisterFixture {
+  registrationType: RegistrationType;
+  registrationNumber: string;
+  registeredName: string;
+  status: RegisterStatus;
+  expiryDate: string | null;
+  workCategories?: WorkCategory[];
+}
+
+/** Registrations the mock registry answers with when no fixture file is configured. */
+export const DEFAULT_REGISTER_FIXTURES: RegisterFixture[] = [
+  { registrationType: "GAS_SAFE", registrationNumber: "123456", registeredName: "Acme Heating Ltd", status: "ACTIVE", expiryDate: "2030-03-31", workCategories: ["GAS_BOILER", "GAS_APPLIANCES", "GAS_FIRES"] },
+  { registrationType: "GAS_SAFE", registrationNumber: "654321", registeredName: "Northern Gas Services", status: "EXPIRED", expiryDate: "2024-01-31", workCategories: ["GAS_BOILER"] },
+  { registrationType: "NICEIC", registrationNumber: "NIC-10001", registeredName: "Bright Spark Electrical Ltd", status: "ACTIVE", expiryDate: "2030-06-30", workCategories: ["ELECTRICAL_INSTALL", "ELECTRICAL_TEST"] },
+  { registrationType: "NAPIT", registrationNumber: "NAP-20002", registeredName: "Volt Testing Services", status: "SUSPENDED", expiryDate: "2030-09-30", workCategories: ["ELECTRICAL_TEST"] },
+  { registrationType: "OFTEC", registrationNumber: "C012345", registeredName: "Oil Heat Solutions", status: "ACTIVE", expiryDate: "2030-12-31" },
+];
+
+export function loadRegisterFixtures(path: string): RegisterFixture[] {
+  return JSON.parse(readFileSync(path, "utf8")) as RegisterFixture[];
+}
+
+/**
+ * Answers lookups from fixture records for development and tests. Numbers not
+ * in the fixtures are reported as not found, as a register would.
+ */
+export class FixtureRegistrationVerifier implements RegistrationVerifier {
+  readonly name = "Mock Registry";
+  readonly lookups: string[] = [];
+
+  private readonly records: Map<string, RegisterFixture>;
+
+  constructor(readonly registrationType: RegistrationType, fixtures: RegisterFixture[] = DEFAULT_REGISTER_FIXTURES) {
+    this.records = new Map(
+      fixtures
+        .filter((fixture) => fixture.registrationType === registrationType)
+        .map((fixture) => [fixture.registrationNumber.toUpperCase(), fixture])
+    );
+  }
+
+  async lookup(registrationNumber: string): Promise<RegistrationLookupResult> {
+    this.lookups.push(registrationNumber);
+    const fixture = this.records.get(registrationNumber.trim().toUpperCase());
+    const base = { lookupUrl: null, source: this.name, checkedAt: new Date() };
+
+    if (!fixture) {
+      return { ...base, found: false, record: null };
+    }
+    return {
+      ...base,
+      found: true,
+      record: {
+        registrationNumber: fixture.registrationNumber,
+        registeredName: fixture.registeredName,
+        status: fixture.status,
+        expiryDate: fixture.expiryDate ? new Date(fixture.expiryDate) : null,
+        workCategories: fixture.workCategories ?? [],
+      },
+      raw: fixture,
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
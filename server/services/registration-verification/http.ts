@@ -0,0 +1,191 @@
+import type { RegistrationType, WorkCategory } from "../contractor-competency";
+import {
+  HttpVerifierConfig,
+  RegisterRecord,
+  RegisterStatus,
+  RegistrationLookupResult,
+  RegistrationVerificationError,
+  RegistrationVerifier,
+} from "./types";
+
+/**
+ * How one scheme's register API lays out a registration. Registers issue API
+ * access to partners individually, so endpoints come from configuration and
+ * each adapter only describes the response.
+ */
+export interface SchemeAdapter {
+  name: string;
+  publicLookupUrl: (registrationNumber: string) => string | null;
+  fields: {
+    name: string;
+    status: string;
+    expiryDate: string;
+    qualifications: string;
+  };
+  activeStatuses: string[];
+  categoryKeywords: Array<[RegExp, WorkCategory]>;
+}
+
+const ELECTRICAL_KEYWORDS: Array<[RegExp, WorkCategory]> = [
+  [/install/i, "ELECTRICAL_INSTALL"],
+  [/inspect|test|eicr|periodic/i, "ELECTRICAL_TEST"],
+  [/fire alarm|fire detection/i, "FIRE_ALARM"],
+];
+
+export const SCHEME_ADAPTERS: Partial<Record<RegistrationType, SchemeAdapter>> = {
+  GAS_SAFE: {
+    name: "Gas Safe Register",
+    publicLookupUrl: (number) => `https://www.gassaferegister.co.uk/find-an-engineer/?registrationNumber=${encodeURIComponent(number)}`,
+    fields: { name: "tradingName", status: "registrationStatus", expiryDate: "registrationExpiryDate", qualifications: "applianceCategories" },
+    activeStatuses: ["REGISTERED", "ACTIVE"],
+    categoryKeywords: [
+      [/boiler|central heating|water heater/i, "GAS_BOILER"],
+      [/fire|space heater/i, "GAS_FIRES"],
+      [/cooker|hob|oven|appliance/i, "GAS_APPLIANCES"],
+    ],
+  },
+  NICEIC: {
+    name: "NICEIC",
+    publicLookupUrl: () => "https://www.niceic.com/find-a-contractor",
+    fields: { name: "companyName", status: "status", expiryDate: "assessmentDueDate", qualifications: "scopes" },
+    activeStatuses: ["ACTIVE", "CERTIFIED"],
+    categoryKeywords: ELECTRICAL_KEYWORDS,
+  },
+  NAPIT: {
+    name: "NAPIT",
+    publicLookupUrl: () => "https://www.napit.org.uk/find-an-installer.aspx",
+    fields: { name: "businessName", status: "membershipStatus", expiryDate: "renewalDate", qualifications: "schemes" },
+    activeStatuses: ["MEMBER", "ACTIVE"],
+    categoryKeywords: ELECTRICAL_KEYWORDS,
+  },
+  ELECSA: {
+    name: "ELECSA",
+    publicLookupUrl: () => "https://www.elecsa.co.uk/find-a-contractor",
+    fields: { name: "companyName", status: "status", expiryDate: "expiryDate", qualifications: "scopes" },
+    activeStatuses: ["ACTIVE", "REGISTERED"],
+    categoryKeywords: ELECTRICAL_KEYWORDS,
+  },
+  OFTEC: {
+    name: "OFTEC",
+    publicLookupUrl: () => "https://www.oftec.org/consumers/find-a-registered-technician",
+    fields: { name: "businessName", status: "status", expiryDate: "expiryDate", qualifications: "disciplines" },
+    activeStatuses: ["REGISTERED", "ACTIVE"],
+    categoryKeywords: [],
+  },
+  HETAS: {
+    name: "HETAS",
+    publicLookupUrl: () => "https://www.hetas.co.uk/find-installer/",
+    fields: { name: "businessName", status: "status", expiryDate: "expiryDate", qualifications: "competencies" },
+    activeStatuses: ["REGISTERED", "ACTIVE"],
+    categoryKeywords: [],
+  },
+};
+
+function readField(body: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+    body
+  );
+}
+
+function toRegisterStatus(raw: unknown, activeStatuses: string[]): RegisterStatus {
+  const status = String(raw ?? "").trim().toUpperCase();
+  if (activeStatuses.includes(status)) return "ACTIVE";
+  if (/SUSPEND/.test(status)) return "SUSPENDED";
+  if (/REVOK|REMOVED|CANCEL|STRUCK/.test(status)) return "REVOKED";
+  if (/EXPIR|LAPSE/.test(status)) return "EXPIRED";
+  // A status we do not recognise says nothing about whether the registration lapsed
+  return "UNKNOWN";
+}
+
+export function mapQualifications(qualifications: unknown, keywords: Array<[RegExp, WorkCategory]>): WorkCategory[] {
+  const descriptions = Array.isArray(qualifications) ? qualifications.map(String) : [];
+  const categories = new Set<WorkCategory>();
+  for (const description of descriptions) {
+    for (const [pattern, category] of keywords) {
+      if (pattern.test(description)) categories.add(category);
+    }
+  }
+  return Array.from(categories);
+}
+
+export function parseSchemeResponse(
+  adapter: SchemeAdapter,
+  registrationNumber: string,
+  body: Record<string, unknown>
+): RegisterRecord {
+  const expiry = readField(body, adapter.fields.expiryDate);
+  const expiryDate = expiry ? new Date(String(expiry)) : null;
+  return {
+    registrationNumber,
+    registeredName: String(readField(body, adapter.fields.name) ?? ""),
+    status: toRegisterStatus(readField(body, adapter.fields.status), adapter.activeStatuses),
+    expiryDate: expiryDate && !isNaN(expiryDate.getTime()) ? expiryDate : null,
+    workCategories: mapQualifications(readField(body, adapter.fields.qualifications), adapter.categoryKeywords),
+  };
+}
+
+export class HttpRegistrationVerifier implements RegistrationVerifier {
+  readonly name: string;
+  readonly registrationType: RegistrationType;
+
+  constructor(private readonly config: HttpVerifierConfig, private readonly adapter: SchemeAdapter) {
+    this.name = adapter.name;
+    this.registrationType = config.registrationType;
+  }
+
+  async lookup(registrationNumber: string): Promise<RegistrationLookupResult> {
+    const url = this.config.url.replace("{registrationNumber}", encodeURIComponent(registrationNumber));
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    // The timeout stays armed until the body is read so a stalled response still aborts
+    try {
+      const response = await fetch(url, {
+        headers: {
+          Accept: "application/json",
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+        },
+        signal: controller.signal,
+      });
+
+      const base = {
+        lookupUrl: this.adapter.publicLookupUrl(registrationNumber),
+        source: this.name,
+        checkedAt: new Date(),
+      };
+
+      if (response.status === 404) {
+        return { ...base, found: false, record: null };
+      }
+      if (!response.ok) {
+        throw new RegistrationVerificationError(
+          `${this.name} lookup returned HTTP ${response.status}`,
+          this.registrationType,
+          registrationNumber
+        );
+      }
+
+      const body = await response.json() as Record<string, unknown>;
+      return { ...base, found: true, record: parseSchemeResponse(this.adapter, registrationNumber, body), raw: body };
+    } catch (error) {
+      if (error instanceof RegistrationVerificationError) throw error;
+      throw new RegistrationVerificationError(
+        `${this.name} lookup failed: ${error instanceof Error ? error.message : String(error)}`,
+        this.registrationType,
+        registrationNumber
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await fetch(new URL(this.config.url.replace("{registrationNumber}", "")).origin, { method: "HEAD" });
+      return response.status < 500;
+    } catch {
+      return false;
+    }
+  }
+}
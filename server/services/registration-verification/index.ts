@@ -0,0 +1,74 @@
+export * from "./types";
+
+import type { RegistrationType } from "../contractor-competency";
+import {
+  HttpVerifierConfig,
+  RegistrationVerifier,
+  RegistrationVerifierConfig,
+  RegistrationVerifierMode,
+} from "./types";
+import { HttpRegistrationVerifier, SCHEME_ADAPTERS } from "./http";
+import { DEFAULT_REGISTER_FIXTURES, FixtureRegistrationVerifier, loadRegisterFixtures } from "./fixture";
+
+export { HttpRegistrationVerifier, FixtureRegistrationVerifier, SCHEME_ADAPTERS, DEFAULT_REGISTER_FIXTURES };
+export type { RegisterFixture } from "./fixture";
+
+let globalVerifiers: Map<RegistrationType, RegistrationVerifier> | null = null;
+
+export function getRegistrationVerifierConfigFromEnv(): RegistrationVerifierConfig {
+  // REGISTRATION_VERIFIER options: http, fixture
+  // HTTP lookups are enabled per scheme by setting REGISTRATION_VERIFIER_<TYPE>_URL,
+  // e.g. REGISTRATION_VERIFIER_GAS_SAFE_URL=https://partner.example/registrations/{registrationNumber}
+  const mode = (process.env.REGISTRATION_VERIFIER || RegistrationVerifierMode.HTTP).toLowerCase();
+  const timeoutMs = parseInt(process.env.REGISTRATION_VERIFIER_TIMEOUT_MS || "10000");
+
+  const http: HttpVerifierConfig[] = [];
+  for (const registrationType of Object.keys(SCHEME_ADAPTERS) as RegistrationType[]) {
+    const url = process.env[`REGISTRATION_VERIFIER_${registrationType}_URL`];
+    if (url) {
+      http.push({ registrationType, url, apiKey: process.env[`REGISTRATION_VERIFIER_${registrationType}_API_KEY`], timeoutMs });
+    }
+  }
+
+  return {
+    mode: mode === RegistrationVerifierMode.FIXTURE ? RegistrationVerifierMode.FIXTURE : RegistrationVerifierMode.HTTP,
+    http,
+    fixturesPath: process.env.REGISTRATION_VERIFIER_FIXTURES,
+  };
+}
+
+export function createRegistrationVerifiers(config: RegistrationVerifierConfig): Map<RegistrationType, RegistrationVerifier> {
+  const verifiers = new Map<RegistrationType, RegistrationVerifier>();
+
+  if (config.mode === RegistrationVerifierMode.FIXTURE) {
+    const fixtures = config.fixturesPath ? loadRegisterFixtures(config.fixturesPath) : DEFAULT_REGISTER_FIXTURES;
+    const types = new Set<RegistrationType>([
+      ...(Object.keys(SCHEME_ADAPTERS) as RegistrationType[]),
+      ...fixtures.map((fixture) => fixture.registrationType),
+    ]);
+    for (const registrationType of Array.from(types)) {
+      verifiers.set(registrationType, new FixtureRegistrationVerifier(registrationType, fixtures));
+    }
+    return verifiers;
+  }
+
+  for (const httpConfig of config.http) {
+    const adapter = SCHEME_ADAPTERS[httpConfig.registrationType];
+    if (adapter) {
+      verifiers.set(httpConfig.registrationType, new HttpRegistrationVerifier(httpConfig, adapter));
+    }
+  }
+  return verifiers;
+}
+
+/** Returns the verifier for a scheme, or null when its register is not connected. */
+export function getRegistrationVerifier(registrationType: RegistrationType): RegistrationVerifier | null {
+  if (!globalVerifiers) {
+    globalVerifiers = createRegistrationVerifiers(getRegistrationVerifierConfigFromEnv());
+  }
+  return globalVerifiers.get(registrationType) ?? null;
+}
+
+export function setRegistrationVerifiers(verifiers: Map<RegistrationType, RegistrationVerifier> | null): void {
+  globalVerifiers = verifiers;
+}
@@ -0,0 +1,65 @@
+import type { RegistrationType, WorkCategory } from "../contractor-competency";
+
+export enum RegistrationVerifierMode {
+  HTTP = "http",
+  FIXTURE = "fixture",
+}
+
+/** UNKNOWN covers register statuses no scheme adapter recognises. */
+export type RegisterStatus = "ACTIVE" | "EXPIRED" | "SUSPENDED" | "REVOKED" | "UNKNOWN";
+
+/** A registration as the scheme's register holds it, normalised across schemes. */
+export interface RegisterRecord {
+  registrationNumber: string;
+  registeredName: string;
+  status: RegisterStatus;
+  expiryDate: Date | null;
+  /** Empty when the register does not publish the work a registration covers. */
+  workCategories: WorkCategory[];
+}
+
+export interface RegistrationLookupResult {
+  found: boolean;
+  record: RegisterRecord | null;
+  /** Public register page an officer can open to check the result by hand. */
+  lookupUrl: string | null;
+  source: string;
+  checkedAt: Date;
+  /** Register response as received, kept for the verification history snapshot. */
+  raw?: unknown;
+}
+
+export interface RegistrationVerifier {
+  readonly name: string;
+  readonly registrationType: RegistrationType;
+
+  lookup(registrationNumber: string): Promise<RegistrationLookupResult>;
+
+  healthCheck(): Promise<boolean>;
+}
+
+export interface HttpVerifierConfig {
+  registrationType: RegistrationType;
+  /** Lookup URL with a `{registrationNumber}` placeholder. */
+  url: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+export interface RegistrationVerifierConfig {
+  mode: RegistrationVerifierMode;
+  http: HttpVerifierConfig[];
+  fixturesPath?: string;
+}
+
+export class RegistrationVerificationError extends Error {
+  constructor(
+    message: string,
+    public readonly registrationType: RegistrationType,
+    public readonly registrationNumber?: string
+  ) {
+    super(message);
+    this.name = "RegistrationVerificationError";
+    Object.setPrototypeOf(this, RegistrationVerificationError.prototype);
+  }
+}
@@ -0,0 +1,256 @@
+import { db } from "../db";
+import { eq, and, count, sql, isNotNull, lt, gte, inArray } from "drizzle-orm";
+import {
+  certificates,
+  properties,
+  blocks,
+  schemes,
+  remedialActions,
+  contractors,
+} from "@shared/schema";
+
+// Report datasets shared by the /api/reports endpoints and the scheduled report generator,
+// so a generated file always matches what the reports UI shows for the same organisation.
+
+export async function getComplianceSummaryData(orgId: string) {
+  const results = await db.select({
+    stream: certificates.complianceStreamId,
+    type: certificates.certificateType,
+    total: count(),
+    compliant: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} = 'APPROVED' OR ${certificates.status} = 'EXTRACTED')`,
+    nonCompliant: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} = 'FAILED')`,
+    expired: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} = 'EXPIRED')`,
+    expiringSoon: sql<number>`COUNT(*) FILTER (WHERE ${certificates.expiryDate}::date < CURRENT_DATE + INTERVAL '30 days' AND ${certificates.expiryDate}::date >= CURRENT_DATE)`,
+  })
+  .from(certificates)
+  .where(eq(certificates.organisationId, orgId))
+  .groupBy(certificates.complianceStreamId, certificates.certificateType);
+
+  const totals = results.reduce((acc, row) => ({
+    totalCertificates: acc.totalCertificates + Number(row.total),
+    compliant: acc.compliant + Number(row.compliant),
+    nonCompliant: acc.nonCompliant + Number(row.nonCompliant),
+    expired: acc.expired + Number(row.expired),
+    expiringSoon: acc.expiringSoon + Number(row.expiringSoon),
+  }), { totalCertificates: 0, compliant: 0, nonCompliant: 0, expired: 0, expiringSoon: 0 });
+
+  const complianceRate = totals.totalCertificates > 0
+    ? Math.round((totals.compliant / totals.totalCertificates) * 100)
+    : 0;
+
+  return { totals: { ...totals, complianceRate }, byStream: results };
+}
+
+export async function getPropertyHealthData(orgId: string, options: { minScore?: number; maxScore?: number } = {}) {
+  const propertyData = await db.select({
+    id: properties.id,
+    address: properties.addressLine1,
+    blockId: properties.blockId,
+    totalCertificates: sql<number>`COUNT(DISTINCT ${certificates.id})`,
+    compliantCertificates: sql<number>`COUNT(DISTINCT ${certificates.id}) FILTER (WHERE ${certificates.status} IN ('APPROVED', 'EXTRACTED'))`,
+    openActions: sql<number>`COUNT(DISTINCT ${remedialActions.id}) FILTER (WHERE ${remedialActions.status} IN ('OPEN', 'IN_PROGRESS'))`,
+  })
+  .from(properties)
+  .innerJoin(blocks, eq(properties.blockId, blocks.id))
+  .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
+  .leftJoin(certificates, eq(certificates.propertyId, properties.id))
+  .leftJoin(remedialActions, eq(remedialActions.propertyId, properties.id))
+  .where(eq(schemes.organisationId, orgId))
+  .groupBy(properties.id, properties.addressLine1, properties.blockId);
+
+  const propertiesWithScores = propertyData.map(p => {
+    const total = Number(p.totalCertificates);
+    const compliant = Number(p.compliantCertificates);
+    const actions = Number(p.openActions);
+
+    const certScore = total > 0 ? (compliant / total) * 100 : 50;
+    const actionPenalty = actions * 5;
+    const healthScore = Math.max(0, Math.min(100, Math.round(certScore - actionPenalty)));
+
+    return {
+      ...p,
+      healthScore,
+      riskLevel: healthScore >= 80 ? 'LOW' : healthScore >= 60 ? 'MEDIUM' : healthScore >= 40 ? 'HIGH' : 'CRITICAL'
+    };
+  });
+
+  let filtered = propertiesWithScores;
+  if (options.minScore !== undefined) {
+    filtered = filtered.filter(p => p.healthScore >= options.minScore!);
+  }
+  if (options.maxScore !== undefined) {
+    filtered = filtered.filter(p => p.healthScore <= options.maxScore!);
+  }
+
+  const distribution = {
+    excellent: filtered.filter(p => p.healthScore >= 90).length,
+    good: filtered.filter(p => p.healthScore >= 70 && p.healthScore < 90).length,
+    fair: filtered.filter(p => p.healthScore >= 50 && p.healthScore < 70).length,
+    poor: filtered.filter(p => p.healthScore < 50).length,
+  };
+
+  return {
+    properties: filtered.sort((a, b) => a.healthScore - b.healthScore),
+    distribution,
+    averageScore: filtered.length > 0
+      ? Math.round(filtered.reduce((sum, p) => sum + p.healthScore, 0) / filtered.length)
+      : 0,
+  };
+}
+
+export async function getContractorPerformanceData(orgId: string) {
+  const contractorData = await db.select({
+    id: contractors.id,
+    name: contractors.companyName,
+    tradeType: contractors.tradeType,
+    status: contractors.status,
+  })
+  .from(contractors)
+  .where(eq(contractors.organisationId, orgId));
+
+  const contractorsWithMetrics = contractorData.map(c => ({
+    ...c,
+    totalJobs: 0,
+    completedOnTime: 0,
+    successRate: 0,
+    rating: 'PENDING' as const
+  }));
+
+  return { contractors: contractorsWithMetrics, averageSuccessRate: 0 };
+}
+
+export async function getMonthlyTrendsData(orgId: string, monthsBack: number) {
+  return db.select({
+    month: sql<string>`DATE_TRUNC('month', ${certificates.createdAt})::date`,
+    stream: certificates.complianceStreamId,
+    issued: count(),
+    compliant: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} IN ('APPROVED', 'EXTRACTED'))`,
+    failed: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} = 'FAILED')`,
+  })
+  .from(certificates)
+  .where(and(
+    eq(certificates.organisationId, orgId),
+    gte(certificates.createdAt, sql`CURRENT_DATE - INTERVAL '${sql.raw(monthsBack.toString())} months'`)
+  ))
+  .groupBy(sql`DATE_TRUNC('month', ${certificates.createdAt})`, certificates.complianceStreamId)
+  .orderBy(sql`DATE_TRUNC('month', ${certificates.createdAt})`);
+}
+
+export async function getCertificateExpiryData(orgId: string, daysAhead: number) {
+  const expiringCerts = await db.select({
+    id: certificates.id,
+    type: certificates.certificateType,
+    complianceStream: certificates.complianceStreamId,
+    expiryDate: certificates.expiryDate,
+    propertyId: certificates.propertyId,
+    propertyAddress: properties.addressLine1,
+  })
+  .from(certificates)
+  .innerJoin(properties, eq(certificates.propertyId, properties.id))
+  .where(and(
+    eq(certificates.organisationId, orgId),
+    isNotNull(certificates.expiryDate),
+    lt(certificates.expiryDate, sql`(CURRENT_DATE + INTERVAL '${sql.raw(daysAhead.toString())} days')::text`),
+    gte(certificates.expiryDate, sql`CURRENT_DATE::text`)
+  ))
+  .orderBy(certificates.expiryDate);
+
+  const now = new Date();
+  const daysUntil = (expiryDate: string | null) =>
+    Math.ceil((new Date(expiryDate!).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+
+  const grouped = {
+    urgent: expiringCerts.filter(c => daysUntil(c.expiryDate) <= 7),
+    soon: expiringCerts.filter(c => {
+      const days = daysUntil(c.expiryDate);
+      return days > 7 && days <= 30;
+    }),
+    upcoming: expiringCerts.filter(c => daysUntil(c.expiryDate) > 30),
+  };
+
+  return {
+    expiring: expiringCerts,
+    grouped,
+    summary: {
+      total: expiringCerts.length,
+      urgentCount: grouped.urgent.length,
+      soonCount: grouped.soon.length,
+      upcomingCount: grouped.upcoming.length,
+    },
+  };
+}
+
+/**
+ * Point-in-time board figures. Remedial actions have no organisation column, so they are
+ * scoped through their certificate; `schemeIds` narrows every figure to those schemes.
+ */
+export async function getBoardSummaryData(orgId: string, options: { schemeIds?: string[] } = {}) {
+  const schemeIds = options.schemeIds?.length ? options.schemeIds : null;
+  const schemeProperties = schemeIds
+    ? db.select({ id: properties.id })
+      .from(properties)
+      .innerJoin(blocks, eq(properties.blockId, blocks.id))
+      .where(inArray(blocks.schemeId, schemeIds))
+    : null;
+
+  const [certStats] = await db.select({
+    total: count(),
+    compliant: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} IN ('APPROVED', 'EXTRACTED'))`,
+    nonCompliant: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} = 'FAILED')`,
+    pending: sql<number>`COUNT(*) FILTER (WHERE ${certificates.status} IN ('PENDING', 'NEEDS_REVIEW'))`,
+  })
+  .from(certificates)
+  .where(and(
+    eq(certificates.organisationId, orgId),
+    schemeProperties ? inArray(certificates.propertyId, schemeProperties) : undefined
+  ));
+
+  const [propStats] = await db.select({
+    total: count(),
+  })
+  .from(properties)
+  .innerJoin(blocks, eq(properties.blockId, blocks.id))
+  .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
+  .where(and(
+    eq(schemes.organisationId, orgId),
+    schemeIds ? inArray(schemes.id, schemeIds) : undefined
+  ));
+
+  const [actionStats] = await db.select({
+    open: sql<number>`COUNT(*) FILTER (WHERE ${remedialActions.status} NOT IN ('COMPLETED', 'CANCELLED'))`,
+    critical: sql<number>`COUNT(*) FILTER (WHERE ${remedialActions.severity} = 'IMMEDIATE' AND ${remedialActions.status} NOT IN ('COMPLETED', 'CANCELLED'))`,
+    major: sql<number>`COUNT(*) FILTER (WHERE ${remedialActions.severity} IN ('URGENT', 'PRIORITY') AND ${remedialActions.status} NOT IN ('COMPLETED', 'CANCELLED'))`,
+    minor: sql<number>`COUNT(*) FILTER (WHERE ${remedialActions.severity} IN ('ROUTINE', 'ADVISORY') AND ${remedialActions.status} NOT IN ('COMPLETED', 'CANCELLED'))`,
+  })
+  .from(remedialActions)
+  .innerJoin(certificates, eq(remedialActions.certificateId, certificates.id))
+  .where(and(
+    eq(certificates.organisationId, orgId),
+    schemeProperties ? inArray(remedialActions.propertyId, schemeProperties) : undefined
+  ));
+
+  const total = Number(certStats?.total || 0);
+  const compliant = Number(certStats?.compliant || 0);
+  const overallCompliance = total > 0 ? Math.round((compliant / total) * 100) : 0;
+
+  return {
+    overview: {
+      overallCompliance,
+      totalProperties: Number(propStats?.total || 0),
+      totalCertificates: total,
+      openActions: Number(actionStats?.open || 0),
+    },
+    certificates: {
+      total,
+      compliant,
+      nonCompliant: Number(certStats?.nonCompliant || 0),
+      pending: Number(certStats?.pending || 0),
+    },
+    actions: {
+      critical: Number(actionStats?.critical || 0),
+      major: Number(actionStats?.major || 0),
+      minor: Number(actionStats?.minor || 0),
+    },
+    riskLevel: overallCompliance >= 95 ? 'LOW' : overallCompliance >= 85 ? 'MEDIUM' : overallCompliance >= 70 ? 'HIGH' : 'CRITICAL',
+  };
+}
@@ -0,0 +1,237 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { eq } from 'drizzle-orm';
+import { reportDeliveries, generatedReports, type ReportDelivery, type GeneratedReport } from '@shared/schema';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { getOrInitializeStorage } from '../storage/providers';
+import { getMailTransport, type MailMessage } from './mail';
+import { getReportDownloadFilename, REPORT_FILE_TYPES, type ReportFormat } from './report-generator';
+
+export type ReportDeliveryMethod = 'ATTACHMENT' | 'LINK';
+
+export interface ReportDeliveryConfig {
+  maxAttachmentBytes: number;
+  linkTtlHours: number;
+}
+
+const DEFAULT_DELIVERY_CONFIG: ReportDeliveryConfig = {
+  maxAttachmentBytes: 10 * 1024 * 1024,
+  linkTtlHours: 72,
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Body of a manual delivery request; without recipients the schedule's own list is used. */
+export const reportDeliveryRequestSchema = z.object({
+  recipients: z.array(z.string().trim().regex(EMAIL_PATTERN, 'Invalid email address')).min(1).max(50).optional(),
+});
+
+let configCache: { config: ReportDeliveryConfig; timestamp: number } | null = null;
+const CONFIG_CACHE_TTL_MS = 60000;
+
+export async function getReportDeliveryConfig(): Promise<ReportDeliveryConfig> {
+  if (configCache && Date.now() - configCache.timestamp < CONFIG_CACHE_TTL_MS) {
+    return configCache.config;
+  }
+
+  const [maxAttachmentMb, linkTtlHours] = await Promise.all([
+    storage.getFactorySettingValue('REPORT_EMAIL_MAX_ATTACHMENT_MB', '10'),
+    storage.getFactorySettingValue('REPORT_EMAIL_LINK_TTL_HOURS', '72'),
+  ]);
+
+  const parsedMb = parseFloat(maxAttachmentMb);
+  const parsedTtl = parseInt(linkTtlHours);
+  const config: ReportDeliveryConfig = {
+    maxAttachmentBytes: isNaN(parsedMb) || parsedMb < 0 ? DEFAULT_DELIVERY_CONFIG.maxAttachmentBytes : Math.round(parsedMb * 1024 * 1024),
+    linkTtlHours: isNaN(parsedTtl) || parsedTtl <= 0 ? DEFAULT_DELIVERY_CONFIG.linkTtlHours : parsedTtl,
+  };
+
+  configCache = { config, timestamp: Date.now() };
+  return config;
+}
+
+export function clearReportDeliveryConfigCache(): void {
+  configCache = null;
+}
+
+export function normaliseRecipients(recipients: string[] | null | undefined): { valid: string[]; invalid: string[] } {
+  const seen = new Set<string>();
+  const valid: string[] = [];
+  const invalid: string[] = [];
+  for (const raw of recipients ?? []) {
+    const recipient = raw.trim().toLowerCase();
+    if (!recipient || seen.has(recipient)) continue;
+    seen.add(recipient);
+    (EMAIL_PATTERN.test(recipient) ? valid : invalid).push(recipient);
+  }
+  return { valid, invalid };
+}
+
+export function chooseDeliveryMethod(fileSize: number | null, config: ReportDeliveryConfig): ReportDeliveryMethod {
+  return fileSize !== null && fileSize <= config.maxAttachmentBytes ? 'ATTACHMENT' : 'LINK';
+}
+
+export function buildReportEmail(
+  report: Pick<GeneratedReport, 'name' | 'format' | 'generatedAt'>,
+  recipient: string,
+  delivery: { method: 'ATTACHMENT'; file: Buffer } | { method: 'LINK'; url: string; expiresAt: Date }
+): MailMessage {
+  const format = report.format as ReportFormat;
+  const filename = getReportDownloadFilename(report.name, format, report.generatedAt);
+  const generated = report.generatedAt.toISOString().slice(0, 16).replace('T', ' ');
+  const lines = [
+    `Your scheduled report "${report.name}" was generated on ${generated} UTC.`,
+    '',
+  ];
+
+  if (delivery.method === 'ATTACHMENT') {
+    lines.push(`The report is attached as ${filename}.`);
+  } else {
+    lines.push(
+      'The report is too large to attach. Download it here:',
+      delivery.url,
+      '',
+      `This link expires on ${delivery.expiresAt.toISOString().slice(0, 16).replace('T', ' ')} UTC.`
+    );
+  }
+  lines.push('', 'You are receiving this because you are listed as a recipient of this scheduled report.');
+
+  return {
+    to: recipient,
+    subject: `Report: ${report.name} (${generated.slice(0, 10)})`,
+    text: lines.join('\n'),
+    attachments: delivery.method === 'ATTACHMENT'
+      ? [{ filename, content: delivery.file, contentType: REPORT_FILE_TYPES[format]?.contentType }]
+      : undefined,
+  };
+}
+
+/**
+ * Records one delivery row per recipient. Invalid addresses are stored as FAILED
+ * so they show up against the report; returns the ids that should be sent.
+ */
+export async function createReportDeliveries(
+  report: Pick<GeneratedReport, 'id' | 'organisationId' | 'scheduledReportId'>,
+  recipients: string[] | null | undefined
+): Promise<string[]> {
+  const { valid, invalid } = normaliseRecipients(recipients);
+  if (valid.length === 0 && invalid.length === 0) return [];
+
+  const rows = await db.insert(reportDeliveries).values([
+    ...valid.map(recipient => ({
+      organisationId: report.organisationId,
+      generatedReportId: report.id,
+      scheduledReportId: report.scheduledReportId,
+      recipient,
+    })),
+    ...invalid.map(recipient => ({
+      organisationId: report.organisationId,
+      generatedReportId: report.id,
+      scheduledReportId: report.scheduledReportId,
+      recipient,
+      status: 'FAILED' as const,
+      lastError: 'Invalid email address',
+    })),
+  ]).returning();
+
+  return rows.filter(row => row.status === 'PENDING').map(row => row.id);
+}
+
+async function readStoredFile(storageKey: string): Promise<Buffer> {
+  const provider = await getOrInitializeStorage();
+  const { data } = await provider.download(storageKey);
+  const chunks: Buffer[] = [];
+  for await (const chunk of data) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Sends a generated report to a single recipient. Failures are recorded on the delivery
+ * row and rethrown so pg-boss retries them, until maxAttempts is reached. A recipient the
+ * mail server refuses is marked FAILED straight away.
+ */
+export async function deliverReport(deliveryId: string, maxAttempts: number): Promise<ReportDelivery | undefined> {
+  const [delivery] = await db.select().from(reportDeliveries).where(eq(reportDeliveries.id, deliveryId));
+  if (!delivery) {
+    logger.warn({ deliveryId }, 'Report delivery not found, skipping');
+    return undefined;
+  }
+  if (delivery.status === 'SENT' || delivery.status === 'FAILED') {
+    return delivery;
+  }
+
+  const attempts = delivery.attempts + 1;
+
+  try {
+    const [report] = await db.select().from(generatedReports).where(eq(generatedReports.id, delivery.generatedReportId));
+    if (!report || report.status !== 'READY' || !report.storageKey) {
+      throw new Error('Generated report file is not available');
+    }
+
+    const config = await getReportDeliveryConfig();
+    const method = chooseDeliveryMethod(report.fileSize, config);
+    let message: MailMessage;
+
+    if (method === 'ATTACHMENT') {
+      message = buildReportEmail(report, delivery.recipient, { method, file: await readStoredFile(report.storageKey) });
+    } else {
+      const provider = await getOrInitializeStorage();
+      const ttlSec = config.linkTtlHours * 3600;
+      const url = await provider.getSignedUrl(report.storageKey, { method: 'GET', ttlSec });
+      message = buildReportEmail(report, delivery.recipient, { method, url, expiresAt: new Date(Date.now() + ttlSec * 1000) });
+    }
+
+    const result = await getMailTransport().send(message);
+
+    if (!result.accepted) {
+      // The server answered but refused the recipient, so retrying the same address will not help
+      const [rejected] = await db.update(reportDeliveries)
+        .set({
+          status: 'FAILED',
+          deliveryMethod: method,
+          attempts,
+          messageId: result.messageId,
+          lastError: 'Recipient rejected by the mail server',
+          updatedAt: new Date(),
+        })
+        .where(eq(reportDeliveries.id, deliveryId))
+        .returning();
+
+      logger.warn({ deliveryId, generatedReportId: delivery.generatedReportId }, 'Report delivery rejected by the mail server');
+      return rejected;
+    }
+
+    const [updated] = await db.update(reportDeliveries)
+      .set({
+        status: 'SENT',
+        deliveryMethod: method,
+        attempts,
+        messageId: result.messageId,
+        lastError: null,
+        sentAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(reportDeliveries.id, deliveryId))
+      .returning();
+
+    logger.info({ deliveryId, generatedReportId: delivery.generatedReportId, method }, 'Report delivered');
+    return updated;
+  } catch (error) {
+    const finalAttempt = attempts >= maxAttempts;
+    const lastError = error instanceof Error ? error.message : String(error);
+
+    await db.update(reportDeliveries)
+      .set({ status: finalAttempt ? 'FAILED' : 'RETRYING', attempts, lastError, updatedAt: new Date() })
+      .where(eq(reportDeliveries.id, deliveryId));
+
+    logger.warn({ deliveryId, attempts, maxAttempts, error: lastError }, 'Report delivery attempt failed');
+
+    if (!finalAttempt) {
+      throw error;
+    }
+    return undefined;
+  }
+}
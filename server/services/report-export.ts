@@ -0,0 +1,479 @@
+import { db } from '../db';
+import { eq, and, gt, gte, lte, isNull, isNotNull, sql, asc, count } from 'drizzle-orm';
+import { Transform, type Writable } from 'stream';
+import { once } from 'events';
+import ExcelJS from 'exceljs';
+import { z } from 'zod';
+import {
+  certificates,
+  properties,
+  blocks,
+  schemes,
+  remedialActions,
+  reportExports,
+  type ReportExport,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { getOrInitializeStorage } from '../storage/providers';
+import { broadcastReportExportEvent } from '../events';
+import { escapeCsvCell, REPORT_FILE_TYPES, type CellValue } from './report-generator';
+
+export const EXPORT_REPORT_TYPES = ['certificates', 'certificate-expiry', 'remedial-actions', 'properties'] as const;
+export type ExportReportType = typeof EXPORT_REPORT_TYPES[number];
+export type ExportFormat = 'CSV' | 'EXCEL';
+
+const EXPORT_BATCH_SIZE = 1000;
+const PROGRESS_BROADCAST_INTERVAL_MS = 2000;
+const DEFAULT_EXPIRY_DAYS = 90;
+
+/** Filters are stored on the job as JSON, so dates are checked here and kept as ISO strings. */
+const exportDateFilter = z.string().pipe(z.coerce.date()).transform(date => date.toISOString()).optional();
+
+export const exportFiltersSchema = z.object({
+  complianceStreamId: z.string().optional(),
+  certificateType: z.string().optional(),
+  status: z.string().optional(),
+  severity: z.string().optional(),
+  dateFrom: exportDateFilter,
+  dateTo: exportDateFilter,
+  days: z.coerce.number().int().positive().max(3650).optional(),
+}).strict().refine(
+  filters => !filters.dateFrom || !filters.dateTo || filters.dateFrom <= filters.dateTo,
+  { message: 'dateFrom must not be after dateTo', path: ['dateTo'] }
+);
+
+export type ExportFilters = z.infer<typeof exportFiltersSchema>;
+
+export const exportRequestSchema = z.object({
+  reportType: z.enum(EXPORT_REPORT_TYPES),
+  format: z.string().transform((value, ctx): ExportFormat => {
+    const normalised = value.toUpperCase();
+    if (normalised === 'CSV') return 'CSV';
+    if (normalised === 'EXCEL' || normalised === 'XLSX') return 'EXCEL';
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Format must be CSV or EXCEL' });
+    return z.NEVER;
+  }),
+  filters: exportFiltersSchema.optional().default({}),
+});
+
+interface ExportRow {
+  id: string;
+  values: CellValue[];
+}
+
+interface ExportDataset {
+  columns: string[];
+  count(organisationId: string, filters: ExportFilters): Promise<number>;
+  fetchBatch(organisationId: string, filters: ExportFilters, afterId: string | null, limit: number): Promise<ExportRow[]>;
+}
+
+function toIso(value: Date | null): string | null {
+  return value ? value.toISOString() : null;
+}
+
+function certificateConditions(organisationId: string, filters: ExportFilters) {
+  return [
+    eq(certificates.organisationId, organisationId),
+    isNull(certificates.deletedAt),
+    filters.complianceStreamId ? eq(certificates.complianceStreamId, filters.complianceStreamId) : undefined,
+    filters.certificateType ? sql`${certificates.certificateType}::text = ${filters.certificateType}` : undefined,
+    filters.status ? sql`${certificates.status}::text = ${filters.status}` : undefined,
+    filters.dateFrom ? gte(certificates.createdAt, new Date(filters.dateFrom)) : undefined,
+    filters.dateTo ? lte(certificates.createdAt, new Date(filters.dateTo)) : undefined,
+  ];
+}
+
+function expiryConditions(organisationId: string, filters: ExportFilters) {
+  const days = filters.days || DEFAULT_EXPIRY_DAYS;
+  return [
+    ...certificateConditions(organisationId, { ...filters, dateFrom: undefined, dateTo: undefined }),
+    isNotNull(certificates.expiryDate),
+    sql`${certificates.expiryDate} >= CURRENT_DATE::text`,
+    sql`${certificates.expiryDate} < (CURRENT_DATE + ${days}::int)::text`,
+  ];
+}
+
+function remedialConditions(organisationId: string, filters: ExportFilters) {
+  return [
+    eq(certificates.organisationId, organisationId),
+    isNull(remedialActions.deletedAt),
+    filters.complianceStreamId ? eq(certificates.complianceStreamId, filters.complianceStreamId) : undefined,
+    filters.status ? sql`${remedialActions.status}::text = ${filters.status}` : undefined,
+    filters.severity ? sql`${remedialActions.severity}::text = ${filters.severity}` : undefined,
+    filters.dateFrom ? gte(remedialActions.createdAt, new Date(filters.dateFrom)) : undefined,
+    filters.dateTo ? lte(remedialActions.createdAt, new Date(filters.dateTo)) : undefined,
+  ];
+}
+
+function propertyConditions(organisationId: string, filters: ExportFilters) {
+  return [
+    eq(schemes.organisationId, organisationId),
+    isNull(properties.deletedAt),
+    filters.status ? sql`${properties.complianceStatus}::text = ${filters.status}` : undefined,
+  ];
+}
+
+const certificateColumns = {
+  id: certificates.id,
+  certificateType: certificates.certificateType,
+  status: certificates.status,
+  outcome: certificates.outcome,
+  certificateNumber: certificates.certificateNumber,
+  issueDate: certificates.issueDate,
+  expiryDate: certificates.expiryDate,
+  complianceStreamId: certificates.complianceStreamId,
+  createdAt: certificates.createdAt,
+  uprn: properties.uprn,
+  addressLine1: properties.addressLine1,
+  postcode: properties.postcode,
+};
+
+const EXPORT_DATASETS: Record<ExportReportType, ExportDataset> = {
+  'certificates': {
+    columns: ['Certificate ID', 'Type', 'Status', 'Outcome', 'Certificate Number', 'Issue Date', 'Expiry Date', 'Compliance Stream', 'UPRN', 'Address', 'Postcode', 'Uploaded At'],
+    async count(organisationId, filters) {
+      const [row] = await db.select({ total: count() }).from(certificates).where(and(...certificateConditions(organisationId, filters)));
+      return Number(row?.total || 0);
+    },
+    async fetchBatch(organisationId, filters, afterId, limit) {
+      const rows = await db.select(certificateColumns)
+        .from(certificates)
+        .innerJoin(properties, eq(certificates.propertyId, properties.id))
+        .where(and(...certificateConditions(organisationId, filters), afterId ? gt(certificates.id, afterId) : undefined))
+        .orderBy(asc(certificates.id))
+        .limit(limit);
+      return rows.map(r => ({
+        id: r.id,
+        values: [r.id, r.certificateType, r.status, r.outcome, r.certificateNumber, r.issueDate, r.expiryDate,
+          r.complianceStreamId, r.uprn, r.addressLine1, r.postcode, toIso(r.createdAt)],
+      }));
+    },
+  },
+  'certificate-expiry': {
+    columns: ['Certificate ID', 'Type', 'Compliance Stream', 'Expiry Date', 'Days Until Expiry', 'UPRN', 'Address', 'Postcode'],
+    async count(organisationId, filters) {
+      const [row] = await db.select({ total: count() }).from(certificates).where(and(...expiryConditions(organisationId, filters)));
+      return Number(row?.total || 0);
+    },
+    async fetchBatch(organisationId, filters, afterId, limit) {
+      const rows = await db.select(certificateColumns)
+        .from(certificates)
+        .innerJoin(properties, eq(certificates.propertyId, properties.id))
+        .where(and(...expiryConditions(organisationId, filters), afterId ? gt(certificates.id, afterId) : undefined))
+        .orderBy(asc(certificates.id))
+        .limit(limit);
+      const now = Date.now();
+      return rows.map(r => ({
+        id: r.id,
+        values: [r.id, r.certificateType, r.complianceStreamId, r.expiryDate,
+          Math.ceil((new Date(r.expiryDate!).getTime() - now) / (1000 * 60 * 60 * 24)),
+          r.uprn, r.addressLine1, r.postcode],
+      }));
+    },
+  },
+  'remedial-actions': {
+    columns: ['Action ID', 'Code', 'Category', 'Description', 'Location', 'Severity', 'Status', 'Due Date', 'Resolved At', 'Cost Estimate', 'Certificate Type', 'UPRN', 'Address', 'Postcode'],
+    async count(organisationId, filters) {
+      const [row] = await db.select({ total: count() })
+        .from(remedialActions)
+        .innerJoin(certificates, eq(remedialActions.certificateId, certificates.id))
+        .where(and(...remedialConditions(organisationId, filters)));
+      return Number(row?.total || 0);
+    },
+    async fetchBatch(organisationId, filters, afterId, limit) {
+      const rows = await db.select({
+        id: remedialActions.id,
+        code: remedialActions.code,
+        category: remedialActions.category,
+        description: remedialActions.description,
+        location: remedialActions.location,
+        severity: remedialActions.severity,
+        status: remedialActions.status,
+        dueDate: remedialActions.dueDate,
+        resolvedAt: remedialActions.resolvedAt,
+        costEstimate: remedialActions.costEstimate,
+        certificateType: certificates.certificateType,
+        uprn: properties.uprn,
+        addressLine1: properties.addressLine1,
+        postcode: properties.postcode,
+      })
+        .from(remedialActions)
+        .innerJoin(certificates, eq(remedialActions.certificateId, certificates.id))
+        .innerJoin(properties, eq(remedialActions.propertyId, properties.id))
+        .where(and(...remedialConditions(organisationId, filters), afterId ? gt(remedialActions.id, afterId) : undefined))
+        .orderBy(asc(remedialActions.id))
+        .limit(limit);
+      return rows.map(r => ({
+        id: r.id,
+        values: [r.id, r.code, r.category, r.description, r.location, r.severity, r.status, r.dueDate,
+          toIso(r.resolvedAt), r.costEstimate, r.certificateType, r.uprn, r.addressLine1, r.postcode],
+      }));
+    },
+  },
+  'properties': {
+    columns: ['Property ID', 'UPRN', 'Address Line 1', 'Address Line 2', 'City', 'Postcode', 'Property Type', 'Tenure', 'Bedrooms', 'Compliance Status', 'Has Gas', 'Vulnerable Occupant', 'Block', 'Scheme'],
+    async count(organisationId, filters) {
+      const [row] = await db.select({ total: count() })
+        .from(properties)
+        .innerJoin(blocks, eq(properties.blockId, blocks.id))
+        .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
+        .where(and(...propertyConditions(organisationId, filters)));
+      return Number(row?.total || 0);
+    },
+    async fetchBatch(organisationId, filters, afterId, limit) {
+      const rows = await db.select({
+        id: properties.id,
+        uprn: properties.uprn,
+        addressLine1: properties.addressLine1,
+        addressLine2: properties.addressLine2,
+        city: properties.city,
+        postcode: properties.postcode,
+        propertyType: properties.propertyType,
+        tenure: properties.tenure,
+        bedrooms: properties.bedrooms,
+        complianceStatus: properties.complianceStatus,
+        hasGas: properties.hasGas,
+        vulnerableOccupant: properties.vulnerableOccupant,
+        blockName: blocks.name,
+        schemeName: schemes.name,
+      })
+        .from(properties)
+        .innerJoin(blocks, eq(properties.blockId, blocks.id))
+        .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
+        .where(and(...propertyConditions(organisationId, filters), afterId ? gt(properties.id, afterId) : undefined))
+        .orderBy(asc(properties.id))
+        .limit(limit);
+      return rows.map(r => ({
+        id: r.id,
+        values: [r.id, r.uprn, r.addressLine1, r.addressLine2, r.city, r.postcode, r.propertyType, r.tenure,
+          r.bedrooms, r.complianceStatus, r.hasGas ? 'Yes' : 'No', r.vulnerableOccupant ? 'Yes' : 'No', r.blockName, r.schemeName],
+      }));
+    },
+  },
+};
+
+export interface ExportWriter {
+  writeRow(values: CellValue[]): Promise<void>;
+  finish(): Promise<void>;
+}
+
+export function createCsvExportWriter(output: Writable, columns: string[]): ExportWriter {
+  const write = async (values: CellValue[]) => {
+    if (!output.write(values.map(escapeCsvCell).join(',') + '\r\n')) {
+      await once(output, 'drain');
+    }
+  };
+  let headerWritten = false;
+
+  return {
+    async writeRow(values) {
+      if (!headerWritten) {
+        headerWritten = true;
+        await write(columns);
+      }
+      await write(values);
+    },
+    async finish() {
+      if (!headerWritten) {
+        await write(columns);
+      }
+      output.end();
+    },
+  };
+}
+
+export function createExcelExportWriter(output: Writable, columns: string[], sheetName: string): ExportWriter {
+  // Streaming writer: rows are committed and flushed to the output as they are added
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+  const worksheet = workbook.addWorksheet(sheetName.slice(0, 31));
+  worksheet.addRow(columns).commit();
+
+  return {
+    async writeRow(values) {
+      worksheet.addRow(values).commit();
+    },
+    async finish() {
+      worksheet.commit();
+      await workbook.commit();
+    },
+  };
+}
+
+export function getExportProgress(job: Pick<ReportExport, 'status' | 'processedRows' | 'totalRows'>): number {
+  if (job.status === 'COMPLETED') return 100;
+  if (!job.totalRows) return 0;
+  return Math.min(99, Math.floor((job.processedRows / job.totalRows) * 100));
+}
+
+export function getExportFilename(job: Pick<ReportExport, 'reportType' | 'format' | 'createdAt'>): string {
+  const extension = REPORT_FILE_TYPES[job.format].extension;
+  return `${job.reportType}-export-${job.createdAt.toISOString().slice(0, 10)}.${extension}`;
+}
+
+async function getRetentionHours(): Promise<number> {
+  const value = parseInt(await storage.getFactorySettingValue('REPORT_EXPORT_RETENTION_HOURS', '24'));
+  return isNaN(value) || value <= 0 ? 24 : value;
+}
+
+async function updateExport(exportId: string, updates: Partial<ReportExport>): Promise<ReportExport> {
+  const [updated] = await db.update(reportExports)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(eq(reportExports.id, exportId))
+    .returning();
+  return updated;
+}
+
+function broadcastExport(job: ReportExport, type: 'report_export_progress' | 'report_export_complete' | 'report_export_failed') {
+  broadcastReportExportEvent(job.organisationId, {
+    type,
+    exportId: job.id,
+    status: job.status,
+    processedRows: job.processedRows,
+    totalRows: job.totalRows,
+    error: job.errorMessage ?? undefined,
+  });
+}
+
+/**
+ * Streams the export's rows in keyset-paginated batches straight into the storage
+ * provider, so memory use stays flat regardless of how many rows are exported.
+ */
+export async function runReportExport(exportId: string): Promise<ReportExport | undefined> {
+  const [job] = await db.select().from(reportExports).where(eq(reportExports.id, exportId));
+  if (!job) {
+    logger.warn({ exportId }, 'Report export not found, skipping');
+    return undefined;
+  }
+  if (job.status === 'COMPLETED' || job.status === 'EXPIRED') {
+    return job;
+  }
+
+  const dataset = EXPORT_DATASETS[job.reportType as ExportReportType];
+  const filters = (job.filters ?? {}) as ExportFilters;
+  // Set once the upload starts, so a failed export can end the stream and remove the partial file
+  let discardUpload: ((error: Error) => Promise<void>) | null = null;
+
+  try {
+    if (!dataset) {
+      throw new Error(`Unknown export report type: ${job.reportType}`);
+    }
+
+    const totalRows = await dataset.count(job.organisationId, filters);
+    let current = await updateExport(exportId, {
+      status: 'PROCESSING',
+      startedAt: new Date(),
+      totalRows,
+      processedRows: 0,
+      errorMessage: null,
+    });
+    broadcastExport(current, 'report_export_progress');
+
+    const fileType = REPORT_FILE_TYPES[job.format];
+    const storageKey = `exports/${job.organisationId}/${job.id}.${fileType.extension}`;
+    const provider = await getOrInitializeStorage();
+
+    let fileSize = 0;
+    const output = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        fileSize += chunk.length;
+        callback(null, chunk);
+      },
+    });
+    const upload = provider.upload(storageKey, output, { contentType: fileType.contentType });
+    // Fail the writer as soon as the upload fails; the rejection itself is awaited below
+    upload.catch(error => output.destroy(error));
+    discardUpload = async (error: Error) => {
+      output.destroy(error);
+      await upload.catch(() => undefined);
+      await provider.delete(storageKey).catch(deleteError => {
+        logger.warn({ exportId, storageKey, error: deleteError }, 'Failed to delete partial export file');
+      });
+    };
+
+    const writer = job.format === 'EXCEL'
+      ? createExcelExportWriter(output, dataset.columns, job.reportType)
+      : createCsvExportWriter(output, dataset.columns);
+
+    let processedRows = 0;
+    let afterId: string | null = null;
+    let lastBroadcast = Date.now();
+
+    while (true) {
+      const batch = await dataset.fetchBatch(job.organisationId, filters, afterId, EXPORT_BATCH_SIZE);
+      for (const row of batch) {
+        await writer.writeRow(row.values);
+      }
+      processedRows += batch.length;
+
+      if (batch.length > 0) {
+        afterId = batch[batch.length - 1].id;
+        current = await updateExport(exportId, { processedRows });
+        if (Date.now() - lastBroadcast >= PROGRESS_BROADCAST_INTERVAL_MS) {
+          broadcastExport(current, 'report_export_progress');
+          lastBroadcast = Date.now();
+        }
+      }
+      if (batch.length < EXPORT_BATCH_SIZE) break;
+    }
+
+    await writer.finish();
+    await upload;
+
+    const retentionHours = await getRetentionHours();
+    current = await updateExport(exportId, {
+      status: 'COMPLETED',
+      processedRows,
+      totalRows: processedRows,
+      storageKey,
+      fileSize,
+      completedAt: new Date(),
+      expiresAt: new Date(Date.now() + retentionHours * 60 * 60 * 1000),
+    });
+    broadcastExport(current, 'report_export_complete');
+
+    logger.info({ exportId, reportType: job.reportType, format: job.format, rows: processedRows, fileSize }, 'Report export completed');
+    return current;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (discardUpload) {
+      await discardUpload(error instanceof Error ? error : new Error(errorMessage));
+    }
+    const failed = await updateExport(exportId, { status: 'FAILED', errorMessage, completedAt: new Date() });
+    broadcastExport(failed, 'report_export_failed');
+    logger.error({ exportId, error: errorMessage }, 'Report export failed');
+    throw error;
+  }
+}
+
+export async function createReportExport(
+  organisationId: string,
+  requestedById: string,
+  request: z.infer<typeof exportRequestSchema>
+): Promise<ReportExport> {
+  const [created] = await db.insert(reportExports).values({
+    organisationId,
+    requestedById,
+    reportType: request.reportType,
+    format: request.format,
+    filters: request.filters,
+  }).returning();
+  return created;
+}
+
+export async function getReportExport(exportId: string, organisationId: string): Promise<ReportExport | undefined> {
+  const [job] = await db.select().from(reportExports)
+    .where(and(eq(reportExports.id, exportId), eq(reportExports.organisationId, organisationId)));
+  if (!job) return undefined;
+
+  if (job.status === 'COMPLETED' && job.expiresAt && job.expiresAt < new Date()) {
+    if (job.storageKey) {
+      const provider = await getOrInitializeStorage();
+      await provider.delete(job.storageKey).catch(error => {
+        logger.warn({ exportId, error }, 'Failed to delete expired export file');
+      });
+    }
+    return updateExport(exportId, { status: 'EXPIRED', storageKey: null });
+  }
+  return job;
+}
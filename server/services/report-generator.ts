@@ -0,0 +1,459 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+import { jsPDF } from 'jspdf';
+import * as XLSX from 'xlsx';
+import { logger } from '../logger';
+import { getOrInitializeStorage } from '../storage/providers';
+import {
+  getComplianceSummaryData,
+  getPropertyHealthData,
+  getContractorPerformanceData,
+  getMonthlyTrendsData,
+  getCertificateExpiryData,
+  getBoardSummaryData,
+} from './report-data';
+
+export type ReportFormat = 'PDF' | 'CSV' | 'EXCEL';
+
+export type CellValue = string | number | null;
+
+export interface ReportFilters {
+  dateRangeType?: string;
+  complianceStreamId?: string;
+  schemeIds?: string[];
+  expiryDays?: number;
+  trendMonths?: number;
+}
+
+export interface ReportSection {
+  title: string;
+  summary: Array<{ label: string; value: CellValue }>;
+  columns: string[];
+  rows: CellValue[][];
+}
+
+export interface ReportDocument {
+  title: string;
+  generatedAt: Date;
+  sections: ReportSection[];
+}
+
+export interface RenderedReport {
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+export type ReportSectionSource =
+  | 'BOARD_SUMMARY'
+  | 'COMPLIANCE_BY_STREAM'
+  | 'CERTIFICATE_EXPIRY'
+  | 'PROPERTY_HEALTH'
+  | 'CONTRACTOR_PERFORMANCE'
+  | 'MONTHLY_TRENDS';
+
+export const REPORT_FILE_TYPES: Record<ReportFormat, { contentType: string; extension: string }> = {
+  PDF: { contentType: 'application/pdf', extension: 'pdf' },
+  CSV: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  EXCEL: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+};
+
+// Used when a schedule has no template, or its template lists no sections
+export const DEFAULT_REPORT_SECTIONS = ['Executive Summary', 'Compliance by Stream', 'Expiring Certificates', 'Property Health'];
+
+// Template sections are free text (e.g. "LGSR Status", "Engineer Performance"), so they are
+// matched to a data source by keyword. Order matters: the first matching pattern wins.
+const SECTION_SOURCE_PATTERNS: Array<{ source: ReportSectionSource; pattern: RegExp }> = [
+  { source: 'CERTIFICATE_EXPIRY', pattern: /expir|renewal/i },
+  { source: 'MONTHLY_TRENDS', pattern: /trend/i },
+  { source: 'CONTRACTOR_PERFORMANCE', pattern: /contractor|engineer/i },
+  { source: 'PROPERTY_HEALTH', pattern: /propert|risk|health/i },
+  { source: 'BOARD_SUMMARY', pattern: /executive|kpi|board|action|remedial|recommendation/i },
+  { source: 'COMPLIANCE_BY_STREAM', pattern: /stream|coverage|status|compliance|lgsr|eicr|fra\b|unsatisfactory|equipment/i },
+];
+
+const DEFAULT_EXPIRY_DAYS = 90;
+const DEFAULT_TREND_MONTHS = 12;
+
+export function resolveSectionSource(section: string): ReportSectionSource | null {
+  const match = SECTION_SOURCE_PATTERNS.find(({ pattern }) => pattern.test(section));
+  return match ? match.source : null;
+}
+
+function matchesStream(stream: string | null, filters: ReportFilters): boolean {
+  return !filters.complianceStreamId || stream === filters.complianceStreamId;
+}
+
+async function loadSection(
+  title: string,
+  source: ReportSectionSource,
+  organisationId: string,
+  filters: ReportFilters
+): Promise<ReportSection> {
+  switch (source) {
+    case 'BOARD_SUMMARY': {
+      // The board figures describe the portfolio as it stands, so a date range cannot narrow them
+      if (filters.dateRangeType) {
+        throw new Error(`Section "${title}" is a point-in-time summary and cannot be filtered by dateRangeType`);
+      }
+      const board = await getBoardSummaryData(organisationId, { schemeIds: filters.schemeIds });
+      return {
+        title,
+        summary: [
+          { label: 'Overall Compliance', value: `${board.overview.overallCompliance}%` },
+          { label: 'Risk Level', value: board.riskLevel },
+          { label: 'Total Properties', value: board.overview.totalProperties },
+          { label: 'Total Certificates', value: board.certificates.total },
+        ],
+        columns: ['Measure', 'Value'],
+        rows: [
+          ['Compliant Certificates', board.certificates.compliant],
+          ['Non-Compliant Certificates', board.certificates.nonCompliant],
+          ['Pending Certificates', board.certificates.pending],
+          ['Critical Open Actions', board.actions.critical],
+          ['Major Open Actions', board.actions.major],
+          ['Minor Open Actions', board.actions.minor],
+        ],
+      };
+    }
+    case 'COMPLIANCE_BY_STREAM': {
+      const { totals, byStream } = await getComplianceSummaryData(organisationId);
+      return {
+        title,
+        summary: [
+          { label: 'Total Certificates', value: totals.totalCertificates },
+          { label: 'Compliance Rate', value: `${totals.complianceRate}%` },
+          { label: 'Expired', value: totals.expired },
+          { label: 'Expiring Within 30 Days', value: totals.expiringSoon },
+        ],
+        columns: ['Compliance Stream', 'Certificate Type', 'Total', 'Compliant', 'Non-Compliant', 'Expired', 'Expiring Soon'],
+        rows: byStream
+          .filter(row => matchesStream(row.stream, filters))
+          .map(row => [
+            row.stream, row.type, Number(row.total), Number(row.compliant),
+            Number(row.nonCompliant), Number(row.expired), Number(row.expiringSoon),
+          ]),
+      };
+    }
+    case 'CERTIFICATE_EXPIRY': {
+      const daysAhead = filters.expiryDays || DEFAULT_EXPIRY_DAYS;
+      const expiry = await getCertificateExpiryData(organisationId, daysAhead);
+      return {
+        title,
+        summary: [
+          { label: `Expiring Within ${daysAhead} Days`, value: expiry.summary.total },
+          { label: 'Within 7 Days', value: expiry.summary.urgentCount },
+          { label: 'Within 30 Days', value: expiry.summary.soonCount },
+        ],
+        columns: ['Certificate Type', 'Compliance Stream', 'Property', 'Expiry Date'],
+        rows: expiry.expiring
+          .filter(cert => matchesStream(cert.complianceStream, filters))
+          .map(cert => [cert.type, cert.complianceStream, cert.propertyAddress, cert.expiryDate]),
+      };
+    }
+    case 'PROPERTY_HEALTH': {
+      const health = await getPropertyHealthData(organisationId);
+      return {
+        title,
+        summary: [
+          { label: 'Average Health Score', value: health.averageScore },
+          { label: 'Excellent', value: health.distribution.excellent },
+          { label: 'Good', value: health.distribution.good },
+          { label: 'Fair', value: health.distribution.fair },
+          { label: 'Poor', value: health.distribution.poor },
+        ],
+        columns: ['Property', 'Health Score', 'Risk Level', 'Certificates', 'Compliant', 'Open Actions'],
+        rows: health.properties.map(p => [
+          p.address, p.healthScore, p.riskLevel, Number(p.totalCertificates),
+          Number(p.compliantCertificates), Number(p.openActions),
+        ]),
+      };
+    }
+    case 'CONTRACTOR_PERFORMANCE': {
+      const performance = await getContractorPerformanceData(organisationId);
+      return {
+        title,
+        summary: [
+          { label: 'Contractors', value: performance.contractors.length },
+          { label: 'Average Success Rate', value: `${performance.averageSuccessRate}%` },
+        ],
+        columns: ['Contractor', 'Trade', 'Status', 'Total Jobs', 'Completed On Time', 'Success Rate'],
+        rows: performance.contractors.map(c => [
+          c.name, c.tradeType, c.status, c.totalJobs, c.completedOnTime, c.successRate,
+        ]),
+      };
+    }
+    case 'MONTHLY_TRENDS': {
+      const monthsBack = filters.trendMonths || DEFAULT_TREND_MONTHS;
+      const trends = await getMonthlyTrendsData(organisationId, monthsBack);
+      return {
+        title,
+        summary: [{ label: 'Period', value: `${monthsBack} months` }],
+        columns: ['Month', 'Compliance Stream', 'Issued', 'Compliant', 'Failed'],
+        rows: trends
+          .filter(row => matchesStream(row.stream, filters))
+          .map(row => [String(row.month), row.stream, Number(row.issued), Number(row.compliant), Number(row.failed)]),
+      };
+    }
+  }
+}
+
+export async function buildReportSections(
+  sections: string[],
+  organisationId: string,
+  filters: ReportFilters = {}
+): Promise<ReportSection[]> {
+  const result: ReportSection[] = [];
+  for (const title of sections.length > 0 ? sections : DEFAULT_REPORT_SECTIONS) {
+    const source = resolveSectionSource(title);
+    if (!source) {
+      logger.warn({ section: title }, 'No report data source matches section, rendering it empty');
+      result.push({ title, summary: [], columns: [], rows: [] });
+      continue;
+    }
+    result.push(await loadSection(title, source, organisationId, filters));
+  }
+  return result;
+}
+
+function formatCell(value: CellValue): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+export function escapeCsvCell(value: CellValue): string {
+  let text = formatCell(value);
+  // Prevent spreadsheet formula injection from free-text fields such as addresses
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderReportCsv(report: ReportDocument): Buffer {
+  const lines: string[] = [
+    escapeCsvCell(report.title),
+    `Generated,${report.generatedAt.toISOString()}`,
+  ];
+  for (const section of report.sections) {
+    lines.push('', escapeCsvCell(section.title));
+    for (const item of section.summary) {
+      lines.push([item.label, item.value].map(escapeCsvCell).join(','));
+    }
+    if (section.columns.length > 0) {
+      lines.push(section.columns.map(escapeCsvCell).join(','));
+      for (const row of section.rows) {
+        lines.push(row.map(escapeCsvCell).join(','));
+      }
+    }
+  }
+  return Buffer.from(lines.join('\r\n') + '\r\n', 'utf-8');
+}
+
+function toSheetName(title: string, used: Set<string>): string {
+  const base = title.replace(/[\[\]:*?\/\\]/g, ' ').trim().slice(0, 31) || 'Section';
+  let name = base;
+  for (let i = 2; used.has(name.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    name = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+export function renderReportExcel(report: ReportDocument): Buffer {
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+
+  const overview: CellValue[][] = [
+    [report.title],
+    ['Generated', report.generatedAt.toISOString()],
+  ];
+  for (const section of report.sections) {
+    overview.push([], [section.title]);
+    for (const item of section.summary) {
+      overview.push([item.label, item.value]);
+    }
+  }
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(overview), toSheetName('Summary', usedNames));
+
+  for (const section of report.sections) {
+    if (section.columns.length === 0) continue;
+    const sheet = XLSX.utils.aoa_to_sheet([section.columns, ...section.rows]);
+    XLSX.utils.book_append_sheet(workbook, sheet, toSheetName(section.title, usedNames));
+  }
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
+
+export function renderReportPdf(report: ReportDocument): Buffer {
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const tableWidth = pageWidth - margin * 2;
+  let yPos = 20;
+
+  const checkPageBreak = (space: number) => {
+    if (yPos + space > pageHeight - 20) {
+      doc.addPage();
+      yPos = 20;
+    }
+  };
+
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text(report.title, pageWidth / 2, yPos, { align: 'center' });
+  yPos += 10;
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Generated: ${report.generatedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`, pageWidth / 2, yPos, { align: 'center' });
+  yPos += 15;
+
+  for (const section of report.sections) {
+    checkPageBreak(30);
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text(section.title, margin, yPos);
+    yPos += 8;
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    for (const item of section.summary) {
+      for (const line of doc.splitTextToSize(`${item.label}: ${formatCell(item.value)}`, tableWidth - 5) as string[]) {
+        checkPageBreak(6);
+        doc.text(line, margin + 5, yPos);
+        yPos += 6;
+      }
+    }
+
+    if (section.columns.length > 0) {
+      const columnWidth = tableWidth / section.columns.length;
+      const drawRow = (cells: CellValue[], bold: boolean) => {
+        checkPageBreak(6);
+        doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        cells.forEach((cell, index) => {
+          const text = doc.splitTextToSize(formatCell(cell), columnWidth - 2)[0] ?? '';
+          doc.text(text, margin + index * columnWidth, yPos);
+        });
+        yPos += 5;
+      };
+
+      yPos += 3;
+      doc.setFontSize(8);
+      drawRow(section.columns, true);
+      if (section.rows.length === 0) {
+        doc.setFont('helvetica', 'italic');
+        doc.text('No records', margin, yPos);
+        yPos += 5;
+      }
+      for (const row of section.rows) {
+        drawRow(row, false);
+      }
+    } else if (section.summary.length === 0) {
+      doc.setFontSize(10);
+      doc.text('No data available for this section.', margin + 5, yPos);
+      yPos += 6;
+    }
+    yPos += 8;
+  }
+
+  const totalPages = doc.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`ComplianceAI Report | Page ${i} of ${totalPages}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+export function renderReport(report: ReportDocument, format: ReportFormat): RenderedReport {
+  const fileType = REPORT_FILE_TYPES[format] ?? REPORT_FILE_TYPES.PDF;
+  const buffer = format === 'CSV'
+    ? renderReportCsv(report)
+    : format === 'EXCEL'
+      ? renderReportExcel(report)
+      : renderReportPdf(report);
+  return { buffer, ...fileType };
+}
+
+async function resolveTemplateSections(
+  organisationId: string,
+  templateId: string | null,
+  templateName: string | null
+): Promise<{ templateId: string | null; sections: string[] }> {
+  const result = await db.execute(sql`
+    SELECT id, sections FROM report_templates
+    WHERE is_active = true
+      AND (organisation_id IS NULL OR organisation_id = ${organisationId})
+      AND (id = ${templateId} OR (${templateId}::varchar IS NULL AND name = ${templateName}))
+    ORDER BY is_system DESC
+    LIMIT 1
+  `);
+  const template = result.rows[0] as { id: string; sections: string[] | null } | undefined;
+  return {
+    templateId: template?.id ?? templateId,
+    sections: template?.sections?.length ? template.sections : DEFAULT_REPORT_SECTIONS,
+  };
+}
+
+export interface GenerateReportOptions {
+  generatedReportId: string;
+  organisationId: string;
+  name: string;
+  format: ReportFormat;
+  templateId?: string | null;
+  templateName?: string | null;
+  filters?: ReportFilters | null;
+}
+
+export interface StoredReport {
+  templateId: string | null;
+  storageKey: string;
+  fileSize: number;
+  contentType: string;
+}
+
+/**
+ * Resolves the template's sections, queries each section's data, renders the file in the
+ * requested format and stores it through the configured storage provider.
+ */
+export async function generateAndStoreReport(options: GenerateReportOptions): Promise<StoredReport> {
+  const { templateId, sections } = await resolveTemplateSections(
+    options.organisationId,
+    options.templateId ?? null,
+    options.templateName ?? null
+  );
+
+  const report: ReportDocument = {
+    title: options.name,
+    generatedAt: new Date(),
+    sections: await buildReportSections(sections, options.organisationId, options.filters ?? {}),
+  };
+
+  const rendered = renderReport(report, options.format);
+  const storageKey = `reports/${options.organisationId}/${options.generatedReportId}.${rendered.extension}`;
+
+  const provider = await getOrInitializeStorage();
+  await provider.upload(storageKey, rendered.buffer, {
+    contentType: rendered.contentType,
+    metadata: { generatedReportId: options.generatedReportId, organisationId: options.organisationId },
+  });
+
+  logger.info({
+    generatedReportId: options.generatedReportId,
+    format: options.format,
+    sections: report.sections.length,
+    fileSize: rendered.buffer.length,
+  }, 'Report file generated');
+
+  return { templateId, storageKey, fileSize: rendered.buffer.length, contentType: rendered.contentType };
+}
+
+export function getReportDownloadFilename(name: string, format: ReportFormat, generatedAt: Date): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'report';
+  const extension = (REPORT_FILE_TYPES[format] ?? REPORT_FILE_TYPES.PDF).extension;
+  return `${slug}-${generatedAt.toISOString().slice(0, 10)}.${extension}`;
+}
@@ -0,0 +1,457 @@
+import { db } from '../db';
+import { properties, certificates, remedialActions, blocks, schemes, waterTemperatureRecords } from '@shared/schema';
+import { eq, and, gte, inArray, getTableColumns } from 'drizzle-orm';
+import { z } from 'zod';
+import { logger } from '../logger';
+import { getWaterHygienePolicy, OUTLET_HISTORY_WINDOW_DAYS } from './water-hygiene-monitoring';
+import {
+  scorePropertyRisk,
+  scoreCoverageGapRisk,
+  getTierThresholds,
+  isHighRiseBuilding,
+  OPEN_ACTION_STATUSES,
+  summariseWaterHygieneRisk,
+  type PropertyRiskInput,
+  type RiskScoringCertificate,
+  type RiskScoringAction,
+  type RiskTier,
+} from './risk-scoring';
+
+export const SCENARIO_TYPES = [
+  'advisory_as_failure',
+  'certificate_slip',
+  'dual_failure',
+  'capacity_reduction',
+  'hrb_only',
+] as const;
+
+export type ScenarioType = typeof SCENARIO_TYPES[number];
+
+export const scenarioSchema = z.object({
+  type: z.enum(SCENARIO_TYPES),
+  enabled: z.boolean(),
+  params: z.object({
+    slipPercentage: z.number().min(0).max(100).optional(),
+    capacityReduction: z.number().min(0).max(100).optional(),
+  }).default({}),
+});
+
+export const scenarioRequestSchema = z.object({
+  scenarios: z.array(scenarioSchema).max(SCENARIO_TYPES.length),
+});
+
+export type Scenario = z.infer<typeof scenarioSchema>;
+
+const DEFAULT_SLIP_PERCENTAGE = 20;
+const DEFAULT_CAPACITY_REDUCTION = 25;
+const DUE_SOON_DAYS = 30;
+const MAX_HOTSPOTS = 10;
+
+// Finding codes that are "advisory" in the EICR / gas world: C3 improvement recommended,
+// FI further investigation, NCS not to current standard
+const ADVISORY_FINDING_CODES = new Set(['C3', 'FI', 'NCS']);
+
+// Delayed work moves up one response band: routine -> urgent -> immediate
+const ESCALATED_SEVERITY: Record<string, string> = {
+  ADVISORY: 'URGENT',
+  ROUTINE: 'URGENT',
+  PRIORITY: 'IMMEDIATE',
+  URGENT: 'IMMEDIATE',
+  IMMEDIATE: 'IMMEDIATE',
+};
+
+export interface ScenarioCertificate extends RiskScoringCertificate {
+  id: string;
+}
+
+export interface ScenarioAction extends RiskScoringAction {
+  id: string;
+  code: string | null;
+  dueDate: string | null;
+}
+
+export interface PortfolioPropertyInput extends PropertyRiskInput {
+  name: string;
+  lat: number | null;
+  lng: number | null;
+  certificates: ScenarioCertificate[];
+  openActions: ScenarioAction[];
+}
+
+export interface PropertyScenarioOutcome {
+  propertyId: string;
+  name: string;
+  lat: number | null;
+  lng: number | null;
+  baselineRiskScore: number;
+  scenarioRiskScore: number;
+  baselineTier: RiskTier;
+  scenarioTier: RiskTier;
+  tierChanged: boolean;
+  becameCritical: boolean;
+}
+
+type TierCounts = Record<RiskTier, number>;
+
+/**
+ * Portfolio scores use the map's compliance scale (100 = no risk) so they can be shown
+ * alongside the other map views; per-property results also carry the raw risk score and tier.
+ */
+export interface ScenarioSimulationResult {
+  baseline: { score: number; propertiesAtRisk: number };
+  scenario: { score: number; propertiesAtRisk: number };
+  impact: {
+    scoreChange: number;
+    additionalAtRisk: number;
+    newHotspots: Array<{ id: string; name: string; baselineScore: number; scenarioScore: number }>;
+  };
+  affectedAreas: Array<{ id: string; name: string; lat: number; lng: number; baselineScore: number; scenarioScore: number }>;
+  tierCounts: { baseline: TierCounts; scenario: TierCounts };
+  properties: PropertyScenarioOutcome[];
+  propertyCount: number;
+  appliedScenarios: ScenarioType[];
+}
+
+function cloneInput(input: PortfolioPropertyInput): PortfolioPropertyInput {
+  return {
+    ...input,
+    certificates: input.certificates.map(c => ({ ...c })),
+    openActions: input.openActions.map(a => ({ ...a })),
+  };
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function percentageOf(count: number, percentage: number): number {
+  return Math.round((count * Math.min(100, Math.max(0, percentage))) / 100);
+}
+
+function compareNullableDates(a: string | null, b: string | null): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a < b ? -1 : 1;
+}
+
+function applyAdvisoryAsFailure(portfolio: PortfolioPropertyInput[]): void {
+  for (const input of portfolio) {
+    for (const action of input.openActions) {
+      const code = action.code?.trim().toUpperCase();
+      if (action.severity === 'ADVISORY' || (code && ADVISORY_FINDING_CODES.has(code))) {
+        action.severity = 'URGENT';
+      }
+    }
+  }
+}
+
+// The earliest-expiring certificates due within the window are the ones that slip first
+function applyCertificateSlip(portfolio: PortfolioPropertyInput[], slipPercentage: number, now: Date): void {
+  const windowEnd = new Date(now.getTime() + DUE_SOON_DAYS * 24 * 60 * 60 * 1000);
+  const dueSoon = portfolio
+    .flatMap(input => input.certificates)
+    .filter(cert => {
+      if (!cert.expiryDate) return false;
+      const expiry = new Date(cert.expiryDate);
+      return expiry >= now && expiry <= windowEnd;
+    })
+    .sort((a, b) => compareNullableDates(a.expiryDate, b.expiryDate) || a.id.localeCompare(b.id));
+
+  const overdueDate = toDateString(new Date(now.getTime() - 24 * 60 * 60 * 1000));
+  for (const cert of dueSoon.slice(0, percentageOf(dueSoon.length, slipPercentage))) {
+    cert.expiryDate = overdueDate;
+  }
+}
+
+// Reduced contractor capacity means the soonest-due open work misses its target and escalates
+function applyCapacityReduction(portfolio: PortfolioPropertyInput[], capacityReduction: number): void {
+  const openActions = portfolio
+    .flatMap(input => input.openActions)
+    .sort((a, b) => compareNullableDates(a.dueDate, b.dueDate) || a.id.localeCompare(b.id));
+
+  for (const action of openActions.slice(0, percentageOf(openActions.length, capacityReduction))) {
+    action.severity = ESCALATED_SEVERITY[action.severity] ?? action.severity;
+  }
+}
+
+export function getNonCompliantStreams(input: PortfolioPropertyInput, now: Date): string[] {
+  const overdueTypes = input.certificates
+    .filter(cert => cert.expiryDate && new Date(cert.expiryDate) < now)
+    .map(cert => cert.certificateType);
+  const missing = scoreCoverageGapRisk(input.property, input.certificates).missingStreams;
+  return Array.from(new Set([...overdueTypes, ...missing]));
+}
+
+// Two failing systems in one home compound each other, so treat them as a Category 1 hazard
+function applyDualFailure(portfolio: PortfolioPropertyInput[], now: Date): void {
+  for (const input of portfolio) {
+    const streams = getNonCompliantStreams(input, now);
+    if (streams.length >= 2) {
+      input.openActions.push({
+        id: `scenario-dual-failure-${input.propertyId}`,
+        code: null,
+        dueDate: null,
+        severity: 'IMMEDIATE',
+        description: `Dual system failure: ${streams.join(', ')}`,
+      });
+    }
+  }
+}
+
+/**
+ * Returns a modified copy of the portfolio with the enabled scenarios applied. HRB focus
+ * narrows the portfolio first so the other scenarios only rank and affect high-rise stock.
+ */
+export function applyScenarios(
+  portfolio: PortfolioPropertyInput[],
+  scenarios: Scenario[],
+  now: Date = new Date()
+): PortfolioPropertyInput[] {
+  const enabled = new Map(scenarios.filter(s => s.enabled).map(s => [s.type, s]));
+
+  let result = portfolio.map(cloneInput);
+
+  if (enabled.has('hrb_only')) {
+    result = result.filter(input => input.property && isHighRiseBuilding(input.property));
+  }
+  if (enabled.has('advisory_as_failure')) {
+    applyAdvisoryAsFailure(result);
+  }
+  if (enabled.has('certificate_slip')) {
+    applyCertificateSlip(result, enabled.get('certificate_slip')!.params.slipPercentage ?? DEFAULT_SLIP_PERCENTAGE, now);
+  }
+  if (enabled.has('capacity_reduction')) {
+    applyCapacityReduction(result, enabled.get('capacity_reduction')!.params.capacityReduction ?? DEFAULT_CAPACITY_REDUCTION);
+  }
+  if (enabled.has('dual_failure')) {
+    applyDualFailure(result, now);
+  }
+
+  return result;
+}
+
+function emptyTierCounts(): TierCounts {
+  return { CRITICAL: 0, HIGH: 0, MEDIUM: 0, LOW: 0 };
+}
+
+function isAtRisk(tier: RiskTier): boolean {
+  return tier === 'CRITICAL' || tier === 'HIGH';
+}
+
+function toComplianceScore(riskScore: number): number {
+  return Math.max(0, Math.min(100, 100 - riskScore));
+}
+
+export function simulateScenarios(
+  portfolio: PortfolioPropertyInput[],
+  scenarios: Scenario[],
+  options: {
+    organisationId: string;
+    thresholds?: { CRITICAL: number; HIGH: number; MEDIUM: number };
+    now?: Date;
+  }
+): ScenarioSimulationResult {
+  const now = options.now ?? new Date();
+  const scoreOptions = { thresholds: options.thresholds, now };
+  const appliedScenarios = scenarios.filter(s => s.enabled).map(s => s.type);
+
+  const hrbOnly = appliedScenarios.includes('hrb_only');
+  const baselinePortfolio = hrbOnly
+    ? portfolio.filter(input => input.property && isHighRiseBuilding(input.property))
+    : portfolio;
+  const scenarioInputs = new Map(applyScenarios(portfolio, scenarios, now).map(input => [input.propertyId, input]));
+
+  const tierCounts = { baseline: emptyTierCounts(), scenario: emptyTierCounts() };
+  const outcomes: PropertyScenarioOutcome[] = [];
+  let baselineTotal = 0;
+  let scenarioTotal = 0;
+
+  for (const input of baselinePortfolio) {
+    const baseline = scorePropertyRisk(input, options.organisationId, scoreOptions);
+    const scenario = scorePropertyRisk(scenarioInputs.get(input.propertyId) ?? input, options.organisationId, scoreOptions);
+
+    tierCounts.baseline[baseline.riskTier]++;
+    tierCounts.scenario[scenario.riskTier]++;
+    baselineTotal += baseline.overallScore;
+    scenarioTotal += scenario.overallScore;
+
+    outcomes.push({
+      propertyId: input.propertyId,
+      name: input.name,
+      lat: input.lat,
+      lng: input.lng,
+      baselineRiskScore: baseline.overallScore,
+      scenarioRiskScore: scenario.overallScore,
+      baselineTier: baseline.riskTier,
+      scenarioTier: scenario.riskTier,
+      tierChanged: baseline.riskTier !== scenario.riskTier,
+      becameCritical: baseline.riskTier !== 'CRITICAL' && scenario.riskTier === 'CRITICAL',
+    });
+  }
+
+  const propertyCount = outcomes.length;
+  const baselineScore = propertyCount > 0 ? toComplianceScore(Math.round(baselineTotal / propertyCount)) : 100;
+  const scenarioScore = propertyCount > 0 ? toComplianceScore(Math.round(scenarioTotal / propertyCount)) : 100;
+  const baselineAtRisk = tierCounts.baseline.CRITICAL + tierCounts.baseline.HIGH;
+  const scenarioAtRisk = tierCounts.scenario.CRITICAL + tierCounts.scenario.HIGH;
+
+  const newHotspots = outcomes
+    .filter(o => o.becameCritical)
+    .sort((a, b) => b.scenarioRiskScore - a.scenarioRiskScore || a.name.localeCompare(b.name))
+    .slice(0, MAX_HOTSPOTS)
+    .map(o => ({
+      id: o.propertyId,
+      name: o.name,
+      baselineScore: toComplianceScore(o.baselineRiskScore),
+      scenarioScore: toComplianceScore(o.scenarioRiskScore),
+    }));
+
+  const affectedAreas = outcomes
+    .filter(o => o.lat !== null && o.lng !== null && !isAtRisk(o.baselineTier) && isAtRisk(o.scenarioTier))
+    .map(o => ({
+      id: o.propertyId,
+      name: o.name,
+      lat: o.lat!,
+      lng: o.lng!,
+      baselineScore: toComplianceScore(o.baselineRiskScore),
+      scenarioScore: toComplianceScore(o.scenarioRiskScore),
+    }));
+
+  return {
+    baseline: { score: baselineScore, propertiesAtRisk: baselineAtRisk },
+    scenario: { score: scenarioScore, propertiesAtRisk: scenarioAtRisk },
+    impact: {
+      scoreChange: scenarioScore - baselineScore,
+      additionalAtRisk: scenarioAtRisk - baselineAtRisk,
+      newHotspots,
+    },
+    affectedAreas,
+    tierCounts,
+    properties: outcomes,
+    propertyCount,
+    appliedScenarios,
+  };
+}
+
+function groupByProperty<T extends { propertyId: string }>(rows: T[]): Map<string, Omit<T, 'propertyId'>[]> {
+  const grouped = new Map<string, Omit<T, 'propertyId'>[]>();
+  for (const { propertyId, ...rest } of rows) {
+    const list = grouped.get(propertyId);
+    if (list) {
+      list.push(rest);
+    } else {
+      grouped.set(propertyId, [rest]);
+    }
+  }
+  return grouped;
+}
+
+// Loads the same inputs calculatePropertyRiskScore reads, for the whole portfolio in four queries
+export async function loadPortfolioRiskInputs(organisationId: string, now: Date = new Date()): Promise<PortfolioPropertyInput[]> {
+  const orgScope = eq(schemes.organisationId, organisationId);
+  const waterSince = new Date(now.getTime() - OUTLET_HISTORY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const [propertyRows, certificateRows, actionRows, waterRows, waterPolicy] = await Promise.all([
+    db.select({
+      id: properties.id,
+      addressLine1: properties.addressLine1,
+      latitude: properties.latitude,
+      longitude: properties.longitude,
+      constructionYear: properties.constructionYear,
+      numberOfFloors: properties.numberOfFloors,
+      vulnerableOccupant: properties.vulnerableOccupant,
+      hasAsbestos: properties.hasAsbestos,
+      hasSprinklers: properties.hasSprinklers,
+      hasGas: properties.hasGas,
+      hasElectricity: properties.hasElectricity,
+      epcRating: properties.epcRating,
+    })
+    .from(properties)
+    .innerJoin(blocks, eq(properties.blockId, blocks.id))
+    .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
+    .where(orgScope),
+
+    db.select({
+      propertyId: certificates.propertyId,
+      id: certificates.id,
+      certificateType: certificates.certificateType,
+      expiryDate: certificates.expiryDate,
+    })
+    .from(certificates)
+    .innerJoin(properties, eq(certificates.propertyId, properties.id))
+    .innerJoin(blocks, eq(properties.blockId, blocks.id))
+    .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
+    .where(orgScope),
+
+    db.select({
+      propertyId: remedialActions.propertyId,
+      id: remedialActions.id,
+      code: remedialActions.code,
+      severity: remedialActions.severity,
+      description: remedialActions.description,
+      dueDate: remedialActions.dueDate,
+    })
+    .from(remedialActions)
+    .innerJoin(properties, eq(remedialActions.propertyId, properties.id))
+    .innerJoin(blocks, eq(properties.blockId, blocks.id))
+    .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
+    .where(and(orgScope, inArray(remedialActions.status, [...OPEN_ACTION_STATUSES]))),
+
+    db.select(getTableColumns(waterTemperatureRecords))
+    .from(waterTemperatureRecords)
+    .innerJoin(properties, eq(waterTemperatureRecords.propertyId, properties.id))
+    .innerJoin(blocks, eq(properties.blockId, blocks.id))
+    .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
+    .where(and(orgScope, gte(waterTemperatureRecords.monitoringDate, waterSince))),
+
+    getWaterHygienePolicy(organisationId),
+  ]);
+
+  const certsByProperty = groupByProperty(certificateRows);
+  const actionsByProperty = groupByProperty(actionRows);
+  const waterByProperty = new Map<string, typeof waterRows>();
+  for (const record of waterRows) {
+    const records = waterByProperty.get(record.propertyId!);
+    if (records) {
+      records.push(record);
+    } else {
+      waterByProperty.set(record.propertyId!, [record]);
+    }
+  }
+
+  return propertyRows.map(({ id, addressLine1, latitude, longitude, ...property }) => ({
+    propertyId: id,
+    name: addressLine1,
+    lat: latitude,
+    lng: longitude,
+    property,
+    certificates: certsByProperty.get(id) ?? [],
+    openActions: actionsByProperty.get(id) ?? [],
+    waterHygiene: summariseWaterHygieneRisk(waterByProperty.get(id) ?? [], waterPolicy.escalateAfterFailures),
+  }));
+}
+
+export async function runRiskScenarioSimulation(
+  organisationId: string,
+  scenarios: Scenario[]
+): Promise<ScenarioSimulationResult> {
+  const startTime = Date.now();
+  const [portfolio, thresholds] = await Promise.all([
+    loadPortfolioRiskInputs(organisationId),
+    getTierThresholds(),
+  ]);
+
+  const result = simulateScenarios(portfolio, scenarios, { organisationId, thresholds });
+
+  logger.info({
+    organisationId,
+    scenarios: result.appliedScenarios,
+    propertyCount: result.propertyCount,
+    additionalAtRisk: result.impact.additionalAtRisk,
+    newCritical: result.properties.filter(p => p.becameCritical).length,
+    durationMs: Date.now() - startTime,
+  }, 'Risk scenario simulation complete');
+
+  return result;
+}
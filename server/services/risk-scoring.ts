@@ -9,10 +9,18 @@ import {
   riskFactorDefinitions,
   riskAlerts,
   complianceStreams,
-  factorySettings
+  factorySettings,
+  waterTemperatureRecords,
+  organisations
 } from '@shared/schema';
 import { eq, and, lt, gt, gte, lte, isNull, sql, desc, inArray, count, or } from 'drizzle-orm';
 import { logger } from '../logger';
+import {
+  summariseOutlets,
+  parseWaterHygienePolicy,
+  DEFAULT_WATER_HYGIENE_POLICY,
+  OUTLET_HISTORY_WINDOW_DAYS,
+} from './water-hygiene-monitoring';
 
 export type RiskTier = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
 
@@ -113,26 +121,141 @@ export async function calculateRiskTierAsync(score: number): Promise<RiskTier> {
   return calculateRiskTier(score, thresholds);
 }
 
-export async function calculateExpiryRiskScore(propertyId: string): Promise<{
+export interface RiskScoringProperty {
+  constructionYear: number | null;
+  numberOfFloors: number | null;
+  vulnerableOccupant: boolean;
+  hasAsbestos: boolean;
+  hasSprinklers: boolean;
+  hasGas: boolean;
+  hasElectricity: boolean;
+  epcRating: string | null;
+}
+
+export interface RiskScoringCertificate {
+  certificateType: string;
+  expiryDate: string | null;
+}
+
+export interface RiskScoringAction {
+  severity: string;
+  description: string | null;
+}
+
+/** Legionella outlet monitoring: outlets whose latest reading failed, and those failing repeatedly. */
+export interface RiskScoringWaterHygiene {
+  failingOutlets: number;
+  repeatFailingOutlets: number;
+}
+
+/**
+ * Everything the risk model reads for one property. Loaded from the database by
+ * calculatePropertyRiskScore, or assembled in bulk (and modified) by the scenario simulator.
+ */
+export interface PropertyRiskInput {
+  propertyId: string;
+  property: RiskScoringProperty | null;
+  certificates: RiskScoringCertificate[];
+  openActions: RiskScoringAction[];
+  waterHygiene?: RiskScoringWaterHygiene;
+}
+
+export const OPEN_ACTION_STATUSES = ['OPEN', 'IN_PROGRESS', 'SCHEDULED'] as const;
+
+export function isHighRiseBuilding(property: Pick<RiskScoringProperty, 'numberOfFloors'>): boolean {
+  return (property.numberOfFloors || 1) >= 7;
+}
+
+async function loadRiskCertificates(propertyId: string): Promise<RiskScoringCertificate[]> {
+  return db.select({
+    certificateType: certificates.certificateType,
+    expiryDate: certificates.expiryDate,
+  })
+  .from(certificates)
+  .where(eq(certificates.propertyId, propertyId));
+}
+
+async function loadRiskOpenActions(propertyId: string): Promise<RiskScoringAction[]> {
+  return db.select({
+    severity: remedialActions.severity,
+    description: remedialActions.description,
+  })
+  .from(remedialActions)
+  .where(and(
+    eq(remedialActions.propertyId, propertyId),
+    inArray(remedialActions.status, [...OPEN_ACTION_STATUSES])
+  ));
+}
+
+export function summariseWaterHygieneRisk(
+  records: Parameters<typeof summariseOutlets>[0],
+  escalateAfterFailures: number = DEFAULT_WATER_HYGIENE_POLICY.escalateAfterFailures
+): RiskScoringWaterHygiene {
+  const failing = summariseOutlets(records).filter(outlet => outlet.latestFailed);
+  return {
+    failingOutlets: failing.length,
+    repeatFailingOutlets: failing.filter(outlet => outlet.consecutiveFailures >= escalateAfterFailures).length,
+  };
+}
+
+async function loadRiskWaterHygiene(propertyId: string, now: Date = new Date()): Promise<RiskScoringWaterHygiene> {
+  const since = new Date(now.getTime() - OUTLET_HISTORY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const [records, [organisation]] = await Promise.all([
+    db.select()
+      .from(waterTemperatureRecords)
+      .where(and(
+        eq(waterTemperatureRecords.propertyId, propertyId),
+        gte(waterTemperatureRecords.monitoringDate, since)
+      )),
+    db.select({ settings: organisations.settings })
+      .from(properties)
+      .innerJoin(blocks, eq(properties.blockId, blocks.id))
+      .innerJoin(schemes, eq(blocks.schemeId, schemes.id))
+      .innerJoin(organisations, eq(schemes.organisationId, organisations.id))
+      .where(eq(properties.id, propertyId))
+      .limit(1),
+  ]);
+  return summariseWaterHygieneRisk(records, parseWaterHygienePolicy(organisation?.settings).escalateAfterFailures);
+}
+
+async function loadRiskProperty(propertyId: string): Promise<RiskScoringProperty | null> {
+  const property = await db.select({
+    constructionYear: properties.constructionYear,
+    numberOfFloors: properties.numberOfFloors,
+    vulnerableOccupant: properties.vulnerableOccupant,
+    hasAsbestos: properties.hasAsbestos,
+    hasSprinklers: properties.hasSprinklers,
+    hasGas: properties.hasGas,
+    hasElectricity: properties.hasElectricity,
+    epcRating: properties.epcRating,
+  })
+  .from(properties)
+  .where(eq(properties.id, propertyId))
+  .limit(1);
+
+  return property[0] ?? null;
+}
+
+export async function loadPropertyRiskInput(propertyId: string): Promise<PropertyRiskInput> {
+  const [property, certs, openActions, waterHygiene] = await Promise.all([
+    loadRiskProperty(propertyId),
+    loadRiskCertificates(propertyId),
+    loadRiskOpenActions(propertyId),
+    loadRiskWaterHygiene(propertyId),
+  ]);
+  return { propertyId, property, certificates: certs, openActions, waterHygiene };
+}
+
+export function scoreExpiryRisk(certs: RiskScoringCertificate[], now: Date = new Date()): {
   score: number;
   expiringCount: number;
   overdueCount: number;
   factors: string[];
   legislation: string[];
-}> {
-  const now = new Date();
+} {
   const thirtyDaysFromNow = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
   const sevenDaysFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
 
-  const certs = await db.select({
-    id: certificates.id,
-    certificateType: certificates.certificateType,
-    expiryDate: certificates.expiryDate,
-    outcome: certificates.outcome,
-  })
-  .from(certificates)
-  .where(eq(certificates.propertyId, propertyId));
-
   let overdueCount = 0;
   let expiringWithin7Days = 0;
   let expiringWithin30Days = 0;
@@ -178,29 +301,17 @@ export async function calculateExpiryRiskScore(propertyId: string): Promise<{
   };
 }
 
-export async function calculateDefectRiskScore(propertyId: string): Promise<{
+export async function calculateExpiryRiskScore(propertyId: string): Promise<ReturnType<typeof scoreExpiryRisk>> {
+  return scoreExpiryRisk(await loadRiskCertificates(propertyId));
+}
+
+export function scoreDefectRisk(actions: RiskScoringAction[], waterHygiene?: RiskScoringWaterHygiene): {
   score: number;
   openDefects: number;
   criticalDefects: number;
   factors: string[];
   legislation: string[];
-}> {
-  const actions = await db.select({
-    id: remedialActions.id,
-    severity: remedialActions.severity,
-    status: remedialActions.status,
-    description: remedialActions.description,
-  })
-  .from(remedialActions)
-  .where(and(
-    eq(remedialActions.propertyId, propertyId),
-    or(
-      eq(remedialActions.status, 'OPEN'),
-      eq(remedialActions.status, 'IN_PROGRESS'),
-      eq(remedialActions.status, 'SCHEDULED')
-    )
-  ));
-
+} {
   let criticalCount = 0;
   let urgentCount = 0;
   let routineCount = 0;
@@ -229,10 +340,24 @@ export async function calculateDefectRiskScore(propertyId: string): Promise<{
     legislation.push('Housing Act 2004 - Category 1 Hazard');
   }
 
+  const repeatFailingOutlets = waterHygiene?.repeatFailingOutlets ?? 0;
+  const singleFailingOutlets = (waterHygiene?.failingOutlets ?? 0) - repeatFailingOutlets;
+  if (repeatFailingOutlets > 0) {
+    factors.push(`${repeatFailingOutlets} water outlet(s) repeatedly outside legionella temperature limits`);
+  }
+  if (singleFailingOutlets > 0) {
+    factors.push(`${singleFailingOutlets} water outlet(s) outside legionella temperature limits at last check`);
+  }
+  if (repeatFailingOutlets + singleFailingOutlets > 0) {
+    legislation.push('HSE ACOP L8 - Control of Legionella Bacteria in Water Systems');
+  }
+
   let score = 0;
   score += criticalCount * 35;
   score += urgentCount * 15;
   score += routineCount * 5;
+  score += repeatFailingOutlets * 20;
+  score += singleFailingOutlets * 5;
   
   score = Math.min(100, score);
 
@@ -245,36 +370,31 @@ export async function calculateDefectRiskScore(propertyId: string): Promise<{
   };
 }
 
-export async function calculateAssetProfileRiskScore(propertyId: string): Promise<{
+export async function calculateDefectRiskScore(propertyId: string): Promise<ReturnType<typeof scoreDefectRisk>> {
+  const [openActions, waterHygiene] = await Promise.all([
+    loadRiskOpenActions(propertyId),
+    loadRiskWaterHygiene(propertyId),
+  ]);
+  return scoreDefectRisk(openActions, waterHygiene);
+}
+
+export function scoreAssetProfileRisk(prop: RiskScoringProperty | null, now: Date = new Date()): {
   score: number;
   assetAge: number | null;
   isHRB: boolean;
   hasVulnerableOccupants: boolean;
   factors: string[];
   legislation: string[];
-}> {
-  const property = await db.select({
-    constructionYear: properties.constructionYear,
-    numberOfFloors: properties.numberOfFloors,
-    vulnerableOccupant: properties.vulnerableOccupant,
-    hasAsbestos: properties.hasAsbestos,
-    hasSprinklers: properties.hasSprinklers,
-    blockId: properties.blockId,
-  })
-  .from(properties)
-  .where(eq(properties.id, propertyId))
-  .limit(1);
-
-  if (property.length === 0) {
+} {
+  if (!prop) {
     return { score: 0, assetAge: null, isHRB: false, hasVulnerableOccupants: false, factors: [], legislation: [] };
   }
 
-  const prop = property[0];
   const factors: string[] = [];
   const legislation: string[] = [];
   let score = 0;
 
-  const currentYear = new Date().getFullYear();
+  const currentYear = now.getFullYear();
   const assetAge = prop.constructionYear ? currentYear - prop.constructionYear : null;
 
   if (assetAge && assetAge > 50) {
@@ -285,7 +405,7 @@ export async function calculateAssetProfileRiskScore(propertyId: string): Promis
     factors.push(`Building age: ${assetAge} years`);
   }
 
-  const isHRB = (prop.numberOfFloors || 1) >= 7;
+  const isHRB = isHighRiseBuilding(prop);
   if (isHRB) {
     score += 25;
     factors.push('High-Rise Building (7+ floors) - Building Safety Act applies');
@@ -321,35 +441,21 @@ export async function calculateAssetProfileRiskScore(propertyId: string): Promis
   };
 }
 
-export async function calculateCoverageGapRiskScore(propertyId: string): Promise<{
+export async function calculateAssetProfileRiskScore(propertyId: string): Promise<ReturnType<typeof scoreAssetProfileRisk>> {
+  return scoreAssetProfileRisk(await loadRiskProperty(propertyId));
+}
+
+export function scoreCoverageGapRisk(prop: RiskScoringProperty | null, certs: RiskScoringCertificate[]): {
   score: number;
   missingStreams: string[];
   factors: string[];
   legislation: string[];
-}> {
-  const property = await db.select({
-    hasGas: properties.hasGas,
-    hasElectricity: properties.hasElectricity,
-    hasAsbestos: properties.hasAsbestos,
-    numberOfFloors: properties.numberOfFloors,
-  })
-  .from(properties)
-  .where(eq(properties.id, propertyId))
-  .limit(1);
-
-  if (property.length === 0) {
+} {
+  if (!prop) {
     return { score: 0, missingStreams: [], factors: [], legislation: [] };
   }
 
-  const prop = property[0];
-
-  const existingCerts = await db.select({
-    certificateType: certificates.certificateType,
-  })
-  .from(certificates)
-  .where(eq(certificates.propertyId, propertyId));
-
-  const existingTypes = new Set(existingCerts.map(c => c.certificateType));
+  const existingTypes = new Set(certs.map(c => c.certificateType));
 
   const missingStreams: string[] = [];
   const factors: string[] = [];
@@ -377,7 +483,7 @@ export async function calculateCoverageGapRiskScore(propertyId: string): Promise
     score += 15;
   }
 
-  const isHRB = (prop.numberOfFloors || 1) >= 7;
+  const isHRB = isHighRiseBuilding(prop);
   if (isHRB && !existingTypes.has('FIRE_RISK_ASSESSMENT')) {
     missingStreams.push('Fire Safety');
     factors.push('Missing Fire Risk Assessment for HRB');
@@ -397,25 +503,21 @@ export async function calculateCoverageGapRiskScore(propertyId: string): Promise
   };
 }
 
-export async function calculateExternalFactorRiskScore(propertyId: string): Promise<{
+export async function calculateCoverageGapRiskScore(propertyId: string): Promise<ReturnType<typeof scoreCoverageGapRisk>> {
+  const [prop, certs] = await Promise.all([loadRiskProperty(propertyId), loadRiskCertificates(propertyId)]);
+  return scoreCoverageGapRisk(prop, certs);
+}
+
+export function scoreExternalFactorRisk(prop: RiskScoringProperty | null): {
   score: number;
   epcRating: string | null;
   factors: string[];
   legislation: string[];
-}> {
-  const property = await db.select({
-    epcRating: properties.epcRating,
-    localAuthority: properties.localAuthority,
-  })
-  .from(properties)
-  .where(eq(properties.id, propertyId))
-  .limit(1);
-
-  if (property.length === 0) {
+} {
+  if (!prop) {
     return { score: 0, epcRating: null, factors: [], legislation: [] };
   }
 
-  const prop = property[0];
   const factors: string[] = [];
   const legislation: string[] = [];
   let score = 0;
@@ -452,18 +554,31 @@ export async function calculateExternalFactorRiskScore(propertyId: string): Prom
   };
 }
 
-export async function calculatePropertyRiskScore(
-  propertyId: string,
+export async function calculateExternalFactorRiskScore(propertyId: string): Promise<ReturnType<typeof scoreExternalFactorRisk>> {
+  return scoreExternalFactorRisk(await loadRiskProperty(propertyId));
+}
+
+/**
+ * Pure form of calculatePropertyRiskScore: scores already-loaded inputs without touching
+ * the database, so callers can score many properties (or hypothetical variants) in memory.
+ */
+export function scorePropertyRisk(
+  input: PropertyRiskInput,
   organisationId: string,
-  weights: RiskFactorWeights = DEFAULT_WEIGHTS
-): Promise<PropertyRiskData> {
-  const [expiry, defect, assetProfile, coverageGap, externalFactor] = await Promise.all([
-    calculateExpiryRiskScore(propertyId),
-    calculateDefectRiskScore(propertyId),
-    calculateAssetProfileRiskScore(propertyId),
-    calculateCoverageGapRiskScore(propertyId),
-    calculateExternalFactorRiskScore(propertyId),
-  ]);
+  options: {
+    weights?: RiskFactorWeights;
+    thresholds?: { CRITICAL: number; HIGH: number; MEDIUM: number };
+    now?: Date;
+  } = {}
+): PropertyRiskData {
+  const weights = options.weights ?? DEFAULT_WEIGHTS;
+  const now = options.now ?? new Date();
+
+  const expiry = scoreExpiryRisk(input.certificates, now);
+  const defect = scoreDefectRisk(input.openActions, input.waterHygiene);
+  const assetProfile = scoreAssetProfileRisk(input.property, now);
+  const coverageGap = scoreCoverageGapRisk(input.property, input.certificates);
+  const externalFactor = scoreExternalFactorRisk(input.property);
 
   const totalWeight = weights.expiry + weights.defect + weights.assetProfile + weights.coverageGap + weights.externalFactor;
   
@@ -475,7 +590,7 @@ export async function calculatePropertyRiskScore(
      externalFactor.score * weights.externalFactor) / totalWeight
   );
 
-  const riskTier = await calculateRiskTierAsync(overallScore);
+  const riskTier = calculateRiskTier(overallScore, options.thresholds);
 
   const allFactors = [
     ...expiry.factors,
@@ -501,7 +616,7 @@ export async function calculatePropertyRiskScore(
   });
 
   return {
-    propertyId,
+    propertyId: input.propertyId,
     organisationId,
     overallScore,
     riskTier,
@@ -527,6 +642,19 @@ export async function calculatePropertyRiskScore(
   };
 }
 
+export async function calculatePropertyRiskScore(
+  propertyId: string,
+  organisationId: string,
+  weights: RiskFactorWeights = DEFAULT_WEIGHTS
+): Promise<PropertyRiskData> {
+  const [input, thresholds] = await Promise.all([
+    loadPropertyRiskInput(propertyId),
+    getTierThresholds(),
+  ]);
+
+  return scorePropertyRisk(input, organisationId, { weights, thresholds });
+}
+
 function generateRecommendedActions(
   tier: RiskTier,
   factors: {
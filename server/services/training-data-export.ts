@@ -0,0 +1,312 @@
+import { db } from '../db';
+import { eq, and, gte, lte, asc, desc, inArray, arrayContains } from 'drizzle-orm';
+import { z } from 'zod';
+import {
+  humanReviews,
+  extractionRuns,
+  extractionCorrections,
+  extractionTierAudits,
+  certificates,
+  type ExtractionCorrection,
+} from '@shared/schema';
+import { logger } from '../logger';
+import { getOrInitializeStorage, StorageError, StorageErrorCode } from '../storage/providers';
+
+const TRAINING_EXPORT_PREFIX = 'training-data';
+const DOWNLOAD_LINK_TTL_SEC = 60 * 60;
+
+export const trainingDataExportSchema = z.object({
+  dateFrom: z.coerce.date().optional(),
+  dateTo: z.coerce.date().optional(),
+  reviewerId: z.string().min(1).optional(),
+  errorTag: z.string().min(1).optional(),
+  schemaVersion: z.string().min(1).optional(),
+  certificateType: z.string().min(1).optional(),
+  redactPii: z.boolean().optional().default(true),
+}).strict();
+
+export type TrainingDataExportFilters = z.infer<typeof trainingDataExportSchema>;
+
+export interface TrainingRecord {
+  reviewId: string;
+  extractionRunId: string;
+  certificateId: string;
+  certificateType: string;
+  documentType: string;
+  modelVersion: string;
+  promptVersion: string;
+  schemaVersion: string;
+  document: {
+    fileName: string;
+    storageKey: string | null;
+    pageCount: number | null;
+    text: string | null;
+  };
+  rawOutput: unknown;
+  approvedOutput: unknown;
+  fieldChanges: unknown;
+  corrections: Array<Pick<ExtractionCorrection, 'fieldName' | 'originalValue' | 'correctedValue' | 'correctionType' | 'sourceText'>>;
+  errorTags: string[];
+  reviewerId: string;
+  reviewedAt: string;
+}
+
+export interface TrainingDataExportFile {
+  certificateType: string;
+  records: number;
+  storageKey: string;
+  fileSize: number;
+  downloadUrl: string;
+  expiresAt: string;
+}
+
+export interface TrainingDataExportResult {
+  exportId: string;
+  generatedAt: string;
+  totalRecords: number;
+  redacted: boolean;
+  files: TrainingDataExportFile[];
+}
+
+const NAME_KEY_PATTERN = /(tenant|occupant|occupier|resident(?!ial)|householder)/i;
+const PHONE_KEY_PATTERN = /(phone|mobile|telephone)/i;
+// UK landline/mobile numbers; the lookarounds keep certificate numbers such as GS-01134960000 intact
+const PHONE_PATTERN = /(?<![\w-])(?:\+44\s?(?:\(0\)\s?)?|0)\d{2,4}[\s-]?\d{3,4}[\s-]?\d{3,4}(?![\w-])/g;
+export const REDACTED_NAME = '[REDACTED_NAME]';
+export const REDACTED_PHONE = '[REDACTED_PHONE]';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isNameKey(key: string): boolean {
+  return NAME_KEY_PATTERN.test(key) && !PHONE_KEY_PATTERN.test(key);
+}
+
+/** Field change entries name the field they describe, e.g. `{ field: 'tenantName', before, after }`. */
+function describedField(value: Record<string, unknown>): string | null {
+  const field = value.field ?? value.fieldName;
+  return typeof field === 'string' ? field : null;
+}
+
+function collectTenantNames(value: unknown, names: Set<string>, key = ''): void {
+  if (typeof value === 'string') {
+    if (isNameKey(key) && value.trim().length > 1) names.add(value.trim());
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectTenantNames(item, names, key));
+  } else if (value && typeof value === 'object') {
+    const field = describedField(value as Record<string, unknown>);
+    for (const [childKey, child] of Object.entries(value)) {
+      collectTenantNames(child, names, field && child !== field ? field : childKey);
+    }
+  }
+}
+
+function redactValue(value: unknown, namePattern: RegExp | null, key = ''): unknown {
+  if (typeof value === 'string') {
+    if (PHONE_KEY_PATTERN.test(key)) return REDACTED_PHONE;
+    if (isNameKey(key)) return REDACTED_NAME;
+    const withoutNames = namePattern ? value.replace(namePattern, REDACTED_NAME) : value;
+    return withoutNames.replace(PHONE_PATTERN, REDACTED_PHONE);
+  }
+  if (Array.isArray(value)) return value.map(item => redactValue(item, namePattern, key));
+  if (value && typeof value === 'object') {
+    const field = describedField(value as Record<string, unknown>);
+    return Object.fromEntries(Object.entries(value).map(([childKey, child]) => [
+      childKey,
+      redactValue(child, namePattern, field && child !== field ? field : childKey),
+    ]));
+  }
+  return value;
+}
+
+/**
+ * Removes tenant names and phone numbers from a training record. Names are found through
+ * tenant/occupier fields in the extracted outputs, then also scrubbed from the document text,
+ * field changes and correction evidence where they appear verbatim.
+ */
+export function redactTrainingRecord(record: TrainingRecord): TrainingRecord {
+  const names = new Set<string>();
+  collectTenantNames([record.rawOutput, record.approvedOutput, record.fieldChanges], names);
+  for (const correction of record.corrections) {
+    if (isNameKey(correction.fieldName)) {
+      if (correction.originalValue) names.add(correction.originalValue.trim());
+      names.add(correction.correctedValue.trim());
+    }
+  }
+  const namePattern = names.size > 0
+    ? new RegExp(Array.from(names).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|'), 'gi')
+    : null;
+
+  return {
+    ...record,
+    document: { ...record.document, text: record.document.text === null ? null : redactValue(record.document.text, namePattern) as string },
+    rawOutput: redactValue(record.rawOutput, namePattern),
+    approvedOutput: redactValue(record.approvedOutput, namePattern),
+    fieldChanges: redactValue(record.fieldChanges, namePattern),
+    corrections: record.corrections.map(correction => {
+      const isName = isNameKey(correction.fieldName);
+      return {
+        ...correction,
+        originalValue: correction.originalValue === null ? null : isName ? REDACTED_NAME : redactValue(correction.originalValue, namePattern) as string,
+        correctedValue: isName ? REDACTED_NAME : redactValue(correction.correctedValue, namePattern) as string,
+        sourceText: correction.sourceText === null ? null : redactValue(correction.sourceText, namePattern) as string,
+      };
+    }),
+  };
+}
+
+export function toJsonl(records: TrainingRecord[]): Buffer {
+  return Buffer.from(records.map(record => JSON.stringify(record)).join('\n') + (records.length > 0 ? '\n' : ''), 'utf-8');
+}
+
+export function trainingExportStorageKey(organisationId: string, exportId: string, certificateType: string): string {
+  return `${TRAINING_EXPORT_PREFIX}/${organisationId}/${exportId}/${certificateType}.jsonl`;
+}
+
+/**
+ * Loads reviewed extraction runs matching the filters and pairs them with document text and corrections.
+ * Only approved runs are exported: a rejection's review row holds the model's own output, not a human answer.
+ */
+export async function buildTrainingRecords(organisationId: string, filters: TrainingDataExportFilters): Promise<TrainingRecord[]> {
+  const conditions = [
+    eq(humanReviews.organisationId, organisationId),
+    eq(extractionRuns.status, 'APPROVED'),
+  ];
+  if (filters.dateFrom) conditions.push(gte(humanReviews.reviewedAt, filters.dateFrom));
+  if (filters.dateTo) conditions.push(lte(humanReviews.reviewedAt, filters.dateTo));
+  if (filters.reviewerId) conditions.push(eq(humanReviews.reviewerId, filters.reviewerId));
+  if (filters.errorTag) conditions.push(arrayContains(humanReviews.errorTags, [filters.errorTag]));
+  if (filters.schemaVersion) conditions.push(eq(extractionRuns.schemaVersion, filters.schemaVersion));
+  if (filters.certificateType) conditions.push(eq(certificates.certificateType, filters.certificateType as typeof certificates.certificateType._.data));
+
+  const rows = await db.select({ review: humanReviews, run: extractionRuns, certificate: certificates })
+    .from(humanReviews)
+    .innerJoin(extractionRuns, eq(humanReviews.extractionRunId, extractionRuns.id))
+    .innerJoin(certificates, eq(extractionRuns.certificateId, certificates.id))
+    .where(and(...conditions))
+    .orderBy(asc(humanReviews.reviewedAt));
+  if (rows.length === 0) return [];
+
+  const certificateIds = Array.from(new Set(rows.map(row => row.certificate.id)));
+
+  const corrections = await db.select().from(extractionCorrections)
+    .where(and(
+      eq(extractionCorrections.organisationId, organisationId),
+      inArray(extractionCorrections.certificateId, certificateIds),
+    ))
+    .orderBy(asc(extractionCorrections.createdAt));
+  const correctionsByCertificate = new Map<string, ExtractionCorrection[]>();
+  for (const correction of corrections) {
+    const list = correctionsByCertificate.get(correction.certificateId) ?? [];
+    list.push(correction);
+    correctionsByCertificate.set(correction.certificateId, list);
+  }
+
+  // Format detection (tier 0) keeps the text layer and page count for each processed document
+  const formatAudits = await db.select().from(extractionTierAudits)
+    .where(and(
+      inArray(extractionTierAudits.certificateId, certificateIds),
+      eq(extractionTierAudits.tier, 'tier-0'),
+    ))
+    .orderBy(desc(extractionTierAudits.attemptedAt));
+  const formatByCertificate = new Map<string, { pageCount: number | null; text: string | null }>();
+  for (const audit of formatAudits) {
+    if (formatByCertificate.has(audit.certificateId)) continue;
+    const analysis = (audit.rawOutput ?? {}) as { textContent?: string | null; pageCount?: number };
+    formatByCertificate.set(audit.certificateId, {
+      pageCount: audit.pageCount ?? analysis.pageCount ?? null,
+      text: analysis.textContent ?? null,
+    });
+  }
+
+  return rows.map(({ review, run, certificate }) => {
+    const format = formatByCertificate.get(certificate.id);
+    return {
+      reviewId: review.id,
+      extractionRunId: run.id,
+      certificateId: certificate.id,
+      certificateType: certificate.certificateType,
+      documentType: run.documentType,
+      modelVersion: run.modelVersion,
+      promptVersion: run.promptVersion,
+      schemaVersion: run.schemaVersion,
+      document: {
+        fileName: certificate.fileName,
+        storageKey: certificate.storageKey,
+        pageCount: format?.pageCount ?? null,
+        text: format?.text ?? null,
+      },
+      rawOutput: run.rawOutput,
+      approvedOutput: review.approvedOutput,
+      fieldChanges: review.fieldChanges,
+      corrections: (correctionsByCertificate.get(certificate.id) ?? []).map(correction => ({
+        fieldName: correction.fieldName,
+        originalValue: correction.originalValue,
+        correctedValue: correction.correctedValue,
+        correctionType: correction.correctionType,
+        sourceText: correction.sourceText,
+      })),
+      errorTags: review.errorTags ?? [],
+      reviewerId: review.reviewerId,
+      reviewedAt: review.reviewedAt.toISOString(),
+    };
+  });
+}
+
+async function getDownloadUrl(storageKey: string, exportId: string, certificateType: string): Promise<string> {
+  const provider = await getOrInitializeStorage();
+  try {
+    return await provider.getSignedUrl(storageKey, { method: 'GET', ttlSec: DOWNLOAD_LINK_TTL_SEC });
+  } catch (error) {
+    if (error instanceof StorageError && error.code === StorageErrorCode.CONFIGURATION_ERROR) {
+      // Providers without signed URL support are served through the authenticated download route
+      return `/api/model-insights/training-data/${exportId}/${encodeURIComponent(certificateType)}`;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes one JSONL file per certificate type to the configured storage provider and returns
+ * time-limited download links for each.
+ */
+export async function exportTrainingData(organisationId: string, filters: TrainingDataExportFilters): Promise<TrainingDataExportResult> {
+  const records = await buildTrainingRecords(organisationId, filters);
+  const prepared = filters.redactPii ? records.map(redactTrainingRecord) : records;
+
+  const byType = new Map<string, TrainingRecord[]>();
+  for (const record of prepared) {
+    const list = byType.get(record.certificateType) ?? [];
+    list.push(record);
+    byType.set(record.certificateType, list);
+  }
+
+  const exportId = crypto.randomUUID();
+  const provider = await getOrInitializeStorage();
+  const expiresAt = new Date(Date.now() + DOWNLOAD_LINK_TTL_SEC * 1000).toISOString();
+  const files: TrainingDataExportFile[] = [];
+
+  for (const [certificateType, typeRecords] of Array.from(byType.entries())) {
+    const storageKey = trainingExportStorageKey(organisationId, exportId, certificateType);
+    const contents = toJsonl(typeRecords);
+    await provider.upload(storageKey, contents, { contentType: 'application/x-ndjson' });
+    files.push({
+      certificateType,
+      records: typeRecords.length,
+      storageKey,
+      fileSize: contents.length,
+      downloadUrl: await getDownloadUrl(storageKey, exportId, certificateType),
+      expiresAt,
+    });
+  }
+
+  logger.info({ organisationId, exportId, totalRecords: prepared.length, files: files.length, redacted: filters.redactPii }, 'Training data export completed');
+  return {
+    exportId,
+    generatedAt: new Date().toISOString(),
+    totalRecords: prepared.length,
+    redacted: filters.redactPii,
+    files,
+  };
+}
@@ -0,0 +1,486 @@
+import type {
+  Certificate,
+  HazardCase,
+  Household,
+  Property,
+  ServiceRequest,
+  TsmSnapshot,
+} from '@shared/schema';
+import { tenureTypeEnum } from '@shared/schema';
+import { storage } from '../storage';
+import { BadRequestError, ConflictError } from '../errors';
+import { logger } from '../logger';
+
+export type TsmTenure = typeof tenureTypeEnum.enumValues[number];
+export type TsmUnit = 'PERCENT' | 'PER_1000_HOMES';
+export type TsmTrend = 'improving' | 'stable' | 'deteriorating';
+
+export interface TsmPeriod {
+  start: Date;
+  /** Inclusive: the last millisecond of the final day. */
+  end: Date;
+}
+
+export interface TsmSourceData {
+  properties: Property[];
+  households: Household[];
+  serviceRequests: ServiceRequest[];
+  hazardCases: HazardCase[];
+  certificates: Certificate[];
+  /** Compliance stream code keyed by stream id. */
+  streamCodes: Record<string, string>;
+}
+
+export interface TsmNumeratorRecord {
+  recordType: 'SERVICE_REQUEST' | 'HAZARD_CASE' | 'PROPERTY';
+  id: string;
+  reference: string;
+  propertyId: string;
+  tenureType: TsmTenure;
+  date: string | null;
+  detail: string;
+}
+
+export interface TsmMeasureValue {
+  numerator: number;
+  denominator: number;
+  value: number | null;
+}
+
+export interface TsmMeasureResult extends TsmMeasureValue {
+  measureCode: string;
+  measureName: string;
+  unit: TsmUnit;
+  byTenure: Partial<Record<TsmTenure, TsmMeasureValue>>;
+  records: TsmNumeratorRecord[];
+}
+
+export interface TsmCalculatedMeasure extends Omit<TsmMeasureResult, 'records'> {
+  previousPeriodValue: number | null;
+  yearOnYearChange: number | null;
+  trend: TsmTrend | null;
+}
+
+interface TsmMeasureDefinition {
+  code: string;
+  name: string;
+  unit: TsmUnit;
+  higherIsBetter: boolean;
+}
+
+/**
+ * Management-information measures from the Regulator of Social Housing Tenant
+ * Satisfaction Measures that can be derived from our own records. Perception
+ * measures come from tenant surveys and are still entered as snapshots.
+ */
+export const TSM_CALCULATED_MEASURES: TsmMeasureDefinition[] = [
+  { code: 'RP02_1', name: 'Non-emergency repairs completed within target timescale', unit: 'PERCENT', higherIsBetter: true },
+  { code: 'RP02_2', name: 'Emergency repairs completed within target timescale', unit: 'PERCENT', higherIsBetter: true },
+  { code: 'CH01_1', name: 'Stage one complaints per 1,000 homes', unit: 'PER_1000_HOMES', higherIsBetter: false },
+  { code: 'CH01_2', name: 'Stage two complaints per 1,000 homes', unit: 'PER_1000_HOMES', higherIsBetter: false },
+  { code: 'BS01', name: 'Gas safety checks', unit: 'PERCENT', higherIsBetter: true },
+  { code: 'BS02', name: 'Fire safety checks', unit: 'PERCENT', higherIsBetter: true },
+  { code: 'BS03', name: 'Asbestos safety checks', unit: 'PERCENT', higherIsBetter: true },
+  { code: 'BS04', name: 'Water safety checks', unit: 'PERCENT', higherIsBetter: true },
+  { code: 'BS05', name: 'Lift safety checks', unit: 'PERCENT', higherIsBetter: true },
+];
+
+const BUILDING_SAFETY_STREAMS: Record<string, string> = {
+  BS01: 'GAS_HEATING',
+  BS02: 'FIRE_SAFETY',
+  BS03: 'ASBESTOS',
+  BS04: 'WATER_SAFETY',
+  BS05: 'LIFTING',
+};
+
+// Used for certificates uploaded before they were linked to a compliance stream
+const CERTIFICATE_TYPE_STREAMS: Partial<Record<Certificate['certificateType'], string>> = {
+  GAS_SAFETY: 'GAS_HEATING',
+  FIRE_RISK_ASSESSMENT: 'FIRE_SAFETY',
+  ASBESTOS_SURVEY: 'ASBESTOS',
+  LEGIONELLA_ASSESSMENT: 'WATER_SAFETY',
+  LIFT_LOLER: 'LIFTING',
+};
+
+const PROPERTY_TENURE: Record<Property['tenure'], TsmTenure> = {
+  SOCIAL_RENT: 'GENERAL_NEEDS',
+  AFFORDABLE_RENT: 'GENERAL_NEEDS',
+  SHARED_OWNERSHIP: 'SHARED_OWNERSHIP',
+  LEASEHOLD: 'LEASEHOLDER',
+  TEMPORARY: 'TEMPORARY_ACCOMMODATION',
+};
+
+const NON_EMERGENCY_REPAIRS: ServiceRequest['requestType'][] = ['REPAIR_ROUTINE', 'REPAIR_URGENT'];
+const STAGE_ONE_COMPLAINTS: ServiceRequest['requestType'][] = ['COMPLAINT_STAGE_1'];
+const STAGE_TWO_COMPLAINTS: ServiceRequest['requestType'][] = ['COMPLAINT_STAGE_2', 'COMPLAINT_STAGE_3'];
+const INVALID_CERTIFICATE_STATUSES: Certificate['status'][] = ['REJECTED', 'FAILED'];
+
+/** Changes smaller than this (percentage points or complaints per 1,000 homes) are stable. */
+const STABLE_TOLERANCE = 0.5;
+
+/** Parses YYYY-MM-DD period bounds into an inclusive date range. */
+export function parseTsmPeriod(periodStart: string, periodEnd: string): TsmPeriod {
+  return {
+    start: new Date(`${periodStart}T00:00:00.000Z`),
+    end: new Date(`${periodEnd}T23:59:59.999Z`),
+  };
+}
+
+export function previousYearPeriod(period: TsmPeriod): TsmPeriod {
+  const shift = (date: Date) => {
+    const shifted = new Date(date);
+    shifted.setUTCFullYear(shifted.getUTCFullYear() - 1);
+    return shifted;
+  };
+  return { start: shift(period.start), end: shift(period.end) };
+}
+
+function inPeriod(value: Date | string | null | undefined, period: TsmPeriod): boolean {
+  if (!value) return false;
+  const time = new Date(value).getTime();
+  return time >= period.start.getTime() && time <= period.end.getTime();
+}
+
+function isoOrNull(value: Date | null | undefined): string | null {
+  return value ? value.toISOString() : null;
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function measureValue(numerator: number, denominator: number, unit: TsmUnit): number | null {
+  if (denominator === 0) return null;
+  return unit === 'PERCENT'
+    ? roundTo((numerator / denominator) * 100, 1)
+    : roundTo((numerator / denominator) * 1000, 2);
+}
+
+function buildTenureResolver(data: TsmSourceData): {
+  homes: Property[];
+  propertyTenure: (propertyId: string) => TsmTenure;
+  requestTenure: (request: ServiceRequest) => TsmTenure;
+} {
+  const homes = data.properties.filter(property => !property.deletedAt);
+  const propertyById = new Map(homes.map(property => [property.id, property]));
+  const householdById = new Map(data.households.map(household => [household.id, household]));
+  const activeHouseholdByProperty = new Map(
+    data.households.filter(household => household.isActive).map(household => [household.propertyId, household])
+  );
+
+  // The current household's tenancy decides the tenure, falling back to the property record
+  const propertyTenure = (propertyId: string): TsmTenure => {
+    const household = activeHouseholdByProperty.get(propertyId);
+    if (household) return household.tenureType;
+    const property = propertyById.get(propertyId);
+    return property ? PROPERTY_TENURE[property.tenure] : 'GENERAL_NEEDS';
+  };
+  const requestTenure = (request: ServiceRequest): TsmTenure => {
+    const household = request.householdId ? householdById.get(request.householdId) : undefined;
+    return household?.tenureType ?? propertyTenure(request.propertyId);
+  };
+
+  return { homes, propertyTenure, requestTenure };
+}
+
+interface MeasureTally {
+  records: TsmNumeratorRecord[];
+  denominators: Map<TsmTenure, number>;
+}
+
+function finaliseMeasure(definition: TsmMeasureDefinition, tally: MeasureTally): TsmMeasureResult {
+  const numerators = new Map<TsmTenure, number>();
+  for (const record of tally.records) {
+    numerators.set(record.tenureType, (numerators.get(record.tenureType) ?? 0) + 1);
+  }
+
+  const byTenure: Partial<Record<TsmTenure, TsmMeasureValue>> = {};
+  let denominator = 0;
+  for (const [tenure, tenureDenominator] of Array.from(tally.denominators.entries())) {
+    const numerator = numerators.get(tenure) ?? 0;
+    byTenure[tenure] = { numerator, denominator: tenureDenominator, value: measureValue(numerator, tenureDenominator, definition.unit) };
+    denominator += tenureDenominator;
+  }
+
+  return {
+    measureCode: definition.code,
+    measureName: definition.name,
+    unit: definition.unit,
+    numerator: tally.records.length,
+    denominator,
+    value: measureValue(tally.records.length, denominator, definition.unit),
+    byTenure,
+    records: tally.records,
+  };
+}
+
+function countIn(denominators: Map<TsmTenure, number>, tenure: TsmTenure): void {
+  denominators.set(tenure, (denominators.get(tenure) ?? 0) + 1);
+}
+
+/**
+ * Repairs completed in the period. A request without a recorded completion target
+ * outcome counts against the measure rather than being left out. Hazard case works
+ * not raised through a repair request are included, judged against the works
+ * completion deadline.
+ */
+function tallyRepairs(data: TsmSourceData, period: TsmPeriod, emergency: boolean, tenures: ReturnType<typeof buildTenureResolver>): MeasureTally {
+  const tally: MeasureTally = { records: [], denominators: new Map() };
+
+  for (const request of data.serviceRequests) {
+    const isType = emergency ? request.requestType === 'REPAIR_EMERGENCY' : NON_EMERGENCY_REPAIRS.includes(request.requestType);
+    if (!isType || !inPeriod(request.completedAt, period)) continue;
+
+    const tenureType = tenures.requestTenure(request);
+    countIn(tally.denominators, tenureType);
+    if (request.metCompletionTarget === true) {
+      tally.records.push({
+        recordType: 'SERVICE_REQUEST',
+        id: request.id,
+        reference: request.requestReference,
+        propertyId: request.propertyId,
+        tenureType,
+        date: isoOrNull(request.completedAt),
+        detail: request.actualCompletionTime !== null && request.targetCompletionTime !== null
+          ? `Completed in ${request.actualCompletionTime}h against a ${request.targetCompletionTime}h target`
+          : 'Completed within target',
+      });
+    }
+  }
+
+  const linkedHazardIds = new Set(data.serviceRequests.map(request => request.linkedHazardCaseId).filter(Boolean));
+  for (const hazard of data.hazardCases) {
+    if ((hazard.severity === 'EMERGENCY') !== emergency) continue;
+    if (linkedHazardIds.has(hazard.id) || (hazard.linkedServiceRequestIds?.length ?? 0) > 0) continue;
+    if (!inPeriod(hazard.worksCompletedAt, period)) continue;
+
+    const tenureType = tenures.propertyTenure(hazard.propertyId);
+    countIn(tally.denominators, tenureType);
+    if (hazard.worksCompletionDue && hazard.worksCompletedAt! <= hazard.worksCompletionDue) {
+      tally.records.push({
+        recordType: 'HAZARD_CASE',
+        id: hazard.id,
+        reference: hazard.caseReference,
+        propertyId: hazard.propertyId,
+        tenureType,
+        date: isoOrNull(hazard.worksCompletedAt),
+        detail: `${hazard.category} works completed by ${hazard.worksCompletionDue.toISOString()}`,
+      });
+    }
+  }
+
+  return tally;
+}
+
+/** Complaints received in the period against the number of homes of each tenure. */
+function tallyComplaints(data: TsmSourceData, period: TsmPeriod, types: ServiceRequest['requestType'][], tenures: ReturnType<typeof buildTenureResolver>): MeasureTally {
+  const tally: MeasureTally = { records: [], denominators: new Map() };
+  for (const home of tenures.homes) {
+    countIn(tally.denominators, tenures.propertyTenure(home.id));
+  }
+
+  for (const request of data.serviceRequests) {
+    if (!types.includes(request.requestType) || !inPeriod(request.reportedAt, period)) continue;
+    tally.records.push({
+      recordType: 'SERVICE_REQUEST',
+      id: request.id,
+      reference: request.requestReference,
+      propertyId: request.propertyId,
+      tenureType: tenures.requestTenure(request),
+      date: isoOrNull(request.reportedAt),
+      detail: `${request.requestType}: ${request.title}`,
+    });
+  }
+  return tally;
+}
+
+function certificateStream(certificate: Certificate, streamCodes: Record<string, string>): string | undefined {
+  return (certificate.complianceStreamId && streamCodes[certificate.complianceStreamId])
+    || CERTIFICATE_TYPE_STREAMS[certificate.certificateType];
+}
+
+/**
+ * Homes needing the check at the end of the period, and those with a certificate in
+ * force on that date. A home needs the check when it has gas (BS01), recorded
+ * asbestos (BS03), or any certificate in the stream issued by the period end.
+ */
+function tallyBuildingSafety(data: TsmSourceData, period: TsmPeriod, measureCode: string, tenures: ReturnType<typeof buildTenureResolver>): MeasureTally {
+  const stream = BUILDING_SAFETY_STREAMS[measureCode];
+  const tally: MeasureTally = { records: [], denominators: new Map() };
+  const periodEndDay = period.end.toISOString().slice(0, 10);
+
+  const certificatesByProperty = new Map<string, Certificate[]>();
+  for (const certificate of data.certificates) {
+    if (certificate.deletedAt || certificateStream(certificate, data.streamCodes) !== stream) continue;
+    const issued = certificate.issueDate ?? certificate.createdAt.toISOString().slice(0, 10);
+    if (issued > periodEndDay) continue;
+    const list = certificatesByProperty.get(certificate.propertyId) ?? [];
+    list.push(certificate);
+    certificatesByProperty.set(certificate.propertyId, list);
+  }
+
+  for (const home of tenures.homes) {
+    const certificates = certificatesByProperty.get(home.id) ?? [];
+    const required = certificates.length > 0
+      || (measureCode === 'BS01' && home.hasGas)
+      || (measureCode === 'BS03' && home.hasAsbestos);
+    if (!required) continue;
+
+    const tenureType = tenures.propertyTenure(home.id);
+    countIn(tally.denominators, tenureType);
+
+    const current = certificates
+      .filter(certificate => !INVALID_CERTIFICATE_STATUSES.includes(certificate.status))
+      .filter(certificate => !certificate.expiryDate || certificate.expiryDate >= periodEndDay)
+      .sort((a, b) => (b.issueDate ?? '').localeCompare(a.issueDate ?? ''))[0];
+    if (current) {
+      tally.records.push({
+        recordType: 'PROPERTY',
+        id: home.id,
+        reference: home.uprn,
+        propertyId: home.id,
+        tenureType,
+        date: current.issueDate,
+        detail: `${current.certificateType} ${current.certificateNumber ?? current.id}${current.expiryDate ? ` valid to ${current.expiryDate}` : ''}`,
+      });
+    }
+  }
+  return tally;
+}
+
+export function calculateTsmMeasure(measureCode: string, data: TsmSourceData, period: TsmPeriod): TsmMeasureResult {
+  const definition = TSM_CALCULATED_MEASURES.find(measure => measure.code === measureCode);
+  if (!definition) {
+    throw new Error(`TSM measure ${measureCode} cannot be calculated`);
+  }
+
+  const tenures = buildTenureResolver(data);
+  switch (definition.code) {
+    case 'RP02_1':
+      return finaliseMeasure(definition, tallyRepairs(data, period, false, tenures));
+    case 'RP02_2':
+      return finaliseMeasure(definition, tallyRepairs(data, period, true, tenures));
+    case 'CH01_1':
+      return finaliseMeasure(definition, tallyComplaints(data, period, STAGE_ONE_COMPLAINTS, tenures));
+    case 'CH01_2':
+      return finaliseMeasure(definition, tallyComplaints(data, period, STAGE_TWO_COMPLAINTS, tenures));
+    default:
+      return finaliseMeasure(definition, tallyBuildingSafety(data, period, definition.code, tenures));
+  }
+}
+
+export function compareWithPreviousYear(
+  measureCode: string,
+  value: number | null,
+  previousPeriodValue: number | null
+): Pick<TsmCalculatedMeasure, 'previousPeriodValue' | 'yearOnYearChange' | 'trend'> {
+  if (value === null || previousPeriodValue === null) {
+    return { previousPeriodValue, yearOnYearChange: null, trend: null };
+  }
+  const definition = TSM_CALCULATED_MEASURES.find(measure => measure.code === measureCode);
+  const yearOnYearChange = roundTo(value - previousPeriodValue, 2);
+  if (Math.abs(yearOnYearChange) < STABLE_TOLERANCE) {
+    return { previousPeriodValue, yearOnYearChange, trend: 'stable' };
+  }
+  const better = definition?.higherIsBetter === false ? yearOnYearChange < 0 : yearOnYearChange > 0;
+  return { previousPeriodValue, yearOnYearChange, trend: better ? 'improving' : 'deteriorating' };
+}
+
+/** Derives every calculable measure for the period alongside the same period a year earlier. */
+export function calculateTsmMeasures(data: TsmSourceData, period: TsmPeriod): TsmCalculatedMeasure[] {
+  const previous = previousYearPeriod(period);
+  return TSM_CALCULATED_MEASURES.map(definition => {
+    const { records: _records, ...current } = calculateTsmMeasure(definition.code, data, period);
+    const prior = calculateTsmMeasure(definition.code, data, previous);
+    return { ...current, ...compareWithPreviousYear(definition.code, current.value, prior.value) };
+  });
+}
+
+export async function loadTsmSourceData(organisationId: string): Promise<TsmSourceData> {
+  const [properties, households, serviceRequests, hazardCases, certificates, streams] = await Promise.all([
+    storage.listProperties(organisationId),
+    storage.listHouseholds(organisationId),
+    storage.listServiceRequests(organisationId),
+    storage.listHazardCases(organisationId),
+    storage.listCertificates(organisationId),
+    storage.listComplianceStreams(),
+  ]);
+  return {
+    properties,
+    households,
+    serviceRequests,
+    hazardCases,
+    certificates,
+    streamCodes: Object.fromEntries(streams.map(stream => [stream.id, stream.code])),
+  };
+}
+
+/**
+ * Calculates the measures for a reporting period and stores them as snapshots,
+ * replacing earlier calculations for the same period. Published snapshots are
+ * left untouched.
+ */
+export async function calculateTsmSnapshots(
+  organisationId: string,
+  periodStart: string,
+  periodEnd: string
+): Promise<{ snapshots: TsmSnapshot[]; skippedPublished: string[] }> {
+  const data = await loadTsmSourceData(organisationId);
+  const measures = calculateTsmMeasures(data, parseTsmPeriod(periodStart, periodEnd));
+  const calculatedAt = new Date().toISOString();
+
+  const snapshots: TsmSnapshot[] = [];
+  const skippedPublished: string[] = [];
+
+  for (const measure of measures) {
+    const existing = (await storage.listTsmSnapshots(organisationId, { measureCode: measure.measureCode }))
+      .find(snapshot => snapshot.periodStart === periodStart && snapshot.periodEnd === periodEnd);
+    if (existing?.isPublished) {
+      skippedPublished.push(measure.measureCode);
+      snapshots.push(existing);
+      continue;
+    }
+
+    const values = {
+      numerator: measure.numerator,
+      denominator: measure.denominator,
+      percentageValue: measure.unit === 'PERCENT' ? measure.value : null,
+      absoluteValue: measure.unit === 'PER_1000_HOMES' ? measure.value : null,
+      previousPeriodValue: measure.previousPeriodValue,
+      yearOnYearChange: measure.yearOnYearChange,
+      trend: measure.trend,
+      metadata: { calculated: true, calculatedAt, measureName: measure.measureName, unit: measure.unit, byTenure: measure.byTenure },
+    };
+    const saved = existing
+      ? await storage.updateTsmSnapshot(existing.id, values)
+      : await storage.createTsmSnapshot({ organisationId, periodStart, periodEnd, measureCode: measure.measureCode, ...values });
+    if (saved) snapshots.push(saved);
+  }
+
+  logger.info({ organisationId, periodStart, periodEnd, measures: snapshots.length, skippedPublished }, 'TSM measures calculated');
+  return { snapshots, skippedPublished };
+}
+
+/**
+ * The records counted in a calculated snapshot's numerator, optionally for one tenure. The
+ * records are recomputed from current data, so a snapshot whose stored numerator no longer
+ * matches them is refused rather than shown with records that do not add up to it.
+ */
+export async function getTsmNumeratorRecords(snapshot: TsmSnapshot, tenureType?: TsmTenure): Promise<TsmNumeratorRecord[]> {
+  const metadata = snapshot.metadata as { calculated?: boolean } | null;
+  if (!metadata?.calculated) {
+    throw new BadRequestError(`${snapshot.measureCode} snapshot was not calculated from records`);
+  }
+
+  const data = await loadTsmSourceData(snapshot.organisationId);
+  const { records } = calculateTsmMeasure(snapshot.measureCode, data, parseTsmPeriod(snapshot.periodStart, snapshot.periodEnd));
+  if (records.length !== snapshot.numerator) {
+    throw new ConflictError(`${snapshot.measureCode} records have changed since the snapshot was calculated (${snapshot.numerator} counted, ${records.length} now); recalculate the period to see its records`);
+  }
+  return tenureType ? records.filter(record => record.tenureType === tenureType) : records;
+}
+
+export function isCalculatedTsmMeasure(measureCode: string): boolean {
+  return TSM_CALCULATED_MEASURES.some(measure => measure.code === measureCode);
+}
@@ -0,0 +1,542 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { complianceCalendarEvents } from '@shared/schema';
+import type { WaterTemperatureRecord } from '@shared/schema';
+import { and, eq, gte, isNull } from 'drizzle-orm';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { recordAudit, type AuditContext } from './audit';
+import { parseCSV } from '../import-parser';
+import { isScopeInOrganisation } from './asbestos-register';
+
+export interface WaterHygienePolicy {
+  /** Cold outlets must be below this temperature (°C) after two minutes' running. */
+  coldMaxTemp: number;
+  /** Hot outlets must reach at least this temperature (°C) within one minute. */
+  hotMinTemp: number;
+  hotFlowMinTemp: number;
+  hotReturnMinTemp: number;
+  calorifierMinTemp: number;
+  /** Consecutive out-of-range readings on one outlet before flushing is escalated. */
+  escalateAfterFailures: number;
+}
+
+export type OutletMeasure = 'COLD' | 'HOT' | 'HOT_FLOW' | 'HOT_RETURN' | 'CALORIFIER';
+
+export interface OutletLimitFailure {
+  measure: OutletMeasure;
+  temperature: number;
+  limit: number;
+}
+
+export interface OutletEvaluation {
+  coldWithinLimit: boolean | null;
+  hotWithinLimit: boolean | null;
+  failures: OutletLimitFailure[];
+  withinLimits: boolean;
+}
+
+export interface OutletStatus {
+  outletKey: string;
+  outletLocation: string;
+  outletReference: string | null;
+  propertyId: string | null;
+  blockId: string | null;
+  lastMonitored: string;
+  latestFailed: boolean;
+  consecutiveFailures: number;
+  readings: number;
+}
+
+export interface OutletEscalation {
+  flushingTaskCreated: boolean;
+  remedialActionCreated: boolean;
+}
+
+export interface OutletReadingResult {
+  record: WaterTemperatureRecord;
+  evaluation: OutletEvaluation;
+  consecutiveFailures: number;
+  escalation: OutletEscalation | null;
+}
+
+export interface BulkOutletReadingResult {
+  submitted: number;
+  recorded: number;
+  outOfRange: number;
+  escalated: number;
+  errors: Array<{ row: number; message: string }>;
+}
+
+export const DEFAULT_WATER_HYGIENE_POLICY: WaterHygienePolicy = {
+  coldMaxTemp: 20,
+  hotMinTemp: 50,
+  hotFlowMinTemp: 60,
+  hotReturnMinTemp: 50,
+  calorifierMinTemp: 60,
+  escalateAfterFailures: 2,
+};
+
+export const FLUSHING_REMEDIAL_CODE = 'LEGIONELLA-FLUSHING';
+
+const FLUSHING_DUE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** How far back an outlet's readings count towards its failure streak and risk. */
+export const OUTLET_HISTORY_WINDOW_DAYS = 365;
+const OUTLET_HISTORY_LIMIT = 50;
+const LEGISLATION_REFERENCE = 'HSE ACOP L8 / HSG274 Part 2';
+const TEMPERATURE_KEYS = ['coldMaxTemp', 'hotMinTemp', 'hotFlowMinTemp', 'hotReturnMinTemp', 'calorifierMinTemp'] as const;
+const OPEN_ACTION_STATUSES = ['OPEN', 'IN_PROGRESS', 'SCHEDULED'];
+
+const temperature = z.coerce.number().min(-10).max(100).nullable().optional();
+
+export const outletReadingSchema = z.object({
+  propertyId: z.string().min(1).optional(),
+  blockId: z.string().min(1).optional(),
+  certificateId: z.string().min(1).optional(),
+  componentId: z.string().min(1).optional(),
+  monitoringDate: z.coerce.date(),
+  outletLocation: z.string().trim().min(1),
+  outletType: z.string().trim().min(1).default('Outlet'),
+  outletReference: z.string().trim().min(1).optional(),
+  coldWaterTemp: temperature,
+  hotWaterTemp: temperature,
+  hotWaterFlowTemp: temperature,
+  hotWaterReturnTemp: temperature,
+  calorifierTemp: temperature,
+  flushingCompleted: z.boolean().optional(),
+  notes: z.string().optional(),
+}).refine(reading => reading.propertyId || reading.blockId, {
+  message: 'propertyId or blockId is required',
+  path: ['propertyId'],
+}).refine(reading => [reading.coldWaterTemp, reading.hotWaterTemp, reading.hotWaterFlowTemp, reading.hotWaterReturnTemp, reading.calorifierTemp]
+  .some(value => typeof value === 'number'), {
+  message: 'At least one temperature is required',
+  path: ['coldWaterTemp'],
+});
+
+export type OutletReadingInput = z.infer<typeof outletReadingSchema>;
+
+export type ReadingReference = 'Property' | 'Block' | 'Certificate' | 'Component';
+
+/** Recent readings per outlet, carried across the rows of one import. */
+export type OutletHistoryCache = Map<string, WaterTemperatureRecord[]>;
+
+function normaliseKey(value: string | null | undefined): string {
+  return (value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function validTemperature(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+}
+
+/**
+ * Reads the organisation's thresholds from `settings.waterHygiene`, falling back
+ * to the ACoP L8 defaults for anything missing or invalid.
+ */
+export function parseWaterHygienePolicy(settings: unknown): WaterHygienePolicy {
+  const raw = (settings as { waterHygiene?: Partial<WaterHygienePolicy> } | null)?.waterHygiene;
+  const policy = { ...DEFAULT_WATER_HYGIENE_POLICY };
+  for (const key of TEMPERATURE_KEYS) {
+    if (validTemperature(raw?.[key])) policy[key] = raw![key]!;
+  }
+  if (Number.isInteger(raw?.escalateAfterFailures) && raw!.escalateAfterFailures! >= 1) {
+    policy.escalateAfterFailures = raw!.escalateAfterFailures!;
+  }
+  return policy;
+}
+
+export async function getWaterHygienePolicy(organisationId: string): Promise<WaterHygienePolicy> {
+  try {
+    const organisation = await storage.getOrganisation(organisationId);
+    return parseWaterHygienePolicy(organisation?.settings);
+  } catch (error) {
+    logger.error({ error, organisationId }, 'Failed to load water hygiene policy, using defaults');
+    return { ...DEFAULT_WATER_HYGIENE_POLICY };
+  }
+}
+
+export async function updateWaterHygienePolicy(
+  organisationId: string,
+  updates: Partial<WaterHygienePolicy>,
+  context: AuditContext
+): Promise<WaterHygienePolicy> {
+  const organisation = await storage.getOrganisation(organisationId);
+  const before = parseWaterHygienePolicy(organisation?.settings);
+  const settings = (organisation?.settings as Record<string, unknown> | null) ?? {};
+
+  const waterHygiene = { ...before, ...updates };
+  await storage.updateOrganisation(organisationId, { settings: { ...settings, waterHygiene } });
+  const after = parseWaterHygienePolicy({ waterHygiene });
+
+  await recordAudit({
+    organisationId,
+    eventType: 'SETTINGS_CHANGED',
+    entityType: 'ORGANISATION',
+    entityId: organisationId,
+    entityName: organisation?.name,
+    message: 'Water hygiene monitoring thresholds updated',
+    beforeState: { ...before },
+    afterState: { ...after },
+    context,
+  });
+  return after;
+}
+
+type OutletTemperatures = Partial<Pick<WaterTemperatureRecord,
+  'coldWaterTemp' | 'hotWaterTemp' | 'hotWaterFlowTemp' | 'hotWaterReturnTemp' | 'calorifierTemp'>>;
+
+export function evaluateOutletReading(
+  reading: OutletTemperatures,
+  policy: Omit<WaterHygienePolicy, 'escalateAfterFailures'> = DEFAULT_WATER_HYGIENE_POLICY
+): OutletEvaluation {
+  const failures: OutletLimitFailure[] = [];
+  const check = (measure: OutletMeasure, value: number | null | undefined, limit: number, withinLimit: (value: number) => boolean) => {
+    if (typeof value !== 'number') return null;
+    const ok = withinLimit(value);
+    if (!ok) failures.push({ measure, temperature: value, limit });
+    return ok;
+  };
+
+  const coldWithinLimit = check('COLD', reading.coldWaterTemp, policy.coldMaxTemp, value => value < policy.coldMaxTemp);
+  const hotWithinLimit = check('HOT', reading.hotWaterTemp, policy.hotMinTemp, value => value >= policy.hotMinTemp);
+  check('HOT_FLOW', reading.hotWaterFlowTemp, policy.hotFlowMinTemp, value => value >= policy.hotFlowMinTemp);
+  check('HOT_RETURN', reading.hotWaterReturnTemp, policy.hotReturnMinTemp, value => value >= policy.hotReturnMinTemp);
+  check('CALORIFIER', reading.calorifierTemp, policy.calorifierMinTemp, value => value >= policy.calorifierMinTemp);
+
+  return { coldWithinLimit, hotWithinLimit, failures, withinLimits: failures.length === 0 };
+}
+
+export function describeFailures(failures: OutletLimitFailure[]): string {
+  return failures.map(failure => failure.measure === 'COLD'
+    ? `cold ${failure.temperature}°C (must be below ${failure.limit}°C)`
+    : `${failure.measure.toLowerCase().replace('_', ' ')} ${failure.temperature}°C (must be at least ${failure.limit}°C)`
+  ).join(', ');
+}
+
+/** Readings from monitoring carry their own failures; extracted ones only have the cold/hot flags. */
+export function readingFailed(record: Pick<WaterTemperatureRecord, 'coldWithinLimit' | 'hotWithinLimit' | 'metadata'>): boolean {
+  const failures = (record.metadata as { failures?: unknown[] } | null)?.failures;
+  return record.coldWithinLimit === false
+    || record.hotWithinLimit === false
+    || (Array.isArray(failures) && failures.length > 0);
+}
+
+export function outletKey(record: Pick<WaterTemperatureRecord, 'outletReference' | 'outletLocation'>): string {
+  return normaliseKey(record.outletReference) || normaliseKey(record.outletLocation);
+}
+
+/**
+ * Groups readings into one status per outlet, counting how many of the most
+ * recent readings in a row were out of range.
+ */
+export function summariseOutlets(records: WaterTemperatureRecord[]): OutletStatus[] {
+  const byOutlet = new Map<string, WaterTemperatureRecord[]>();
+  for (const record of records) {
+    const key = `${record.propertyId ?? ''}|${record.blockId ?? ''}|${outletKey(record)}`;
+    const readings = byOutlet.get(key);
+    if (readings) {
+      readings.push(record);
+    } else {
+      byOutlet.set(key, [record]);
+    }
+  }
+
+  return Array.from(byOutlet.values()).map(readings => {
+    const sorted = [...readings].sort((a, b) => b.monitoringDate.getTime() - a.monitoringDate.getTime());
+    const latest = sorted[0];
+    const firstPass = sorted.findIndex(record => !readingFailed(record));
+    return {
+      outletKey: outletKey(latest),
+      outletLocation: latest.outletLocation,
+      outletReference: latest.outletReference,
+      propertyId: latest.propertyId,
+      blockId: latest.blockId,
+      lastMonitored: latest.monitoringDate.toISOString(),
+      latestFailed: readingFailed(latest),
+      consecutiveFailures: firstPass === -1 ? sorted.length : firstPass,
+      readings: sorted.length,
+    };
+  });
+}
+
+export async function listOutletStatuses(scope: { propertyId?: string; blockId?: string }): Promise<OutletStatus[]> {
+  return summariseOutlets(await storage.listWaterTemperatureRecords(scope));
+}
+
+export async function getOutletHistory(
+  scope: { propertyId?: string; blockId?: string },
+  outlet: string
+): Promise<WaterTemperatureRecord[]> {
+  return storage.listOutletTemperatureRecords(scope, normaliseKey(outlet));
+}
+
+/**
+ * Returns the first id on the reading that does not belong to the organisation,
+ * or null when they all do. A certificate or component must also belong to the
+ * reading's property when one is given. Results are kept in `cache` so an import
+ * checks each id once.
+ */
+export async function findForeignReference(
+  organisationId: string,
+  reading: Pick<OutletReadingInput, 'propertyId' | 'blockId' | 'certificateId' | 'componentId'>,
+  cache: Map<string, boolean> = new Map()
+): Promise<ReadingReference | null> {
+  const owned = async (key: string, check: () => Promise<boolean>): Promise<boolean> => {
+    if (!cache.has(key)) cache.set(key, await check());
+    return cache.get(key)!;
+  };
+  const { propertyId, blockId, certificateId, componentId } = reading;
+
+  if (propertyId && !await owned(`property:${propertyId}`, () => isScopeInOrganisation(organisationId, { propertyId }))) {
+    return 'Property';
+  }
+  if (blockId && !await owned(`block:${blockId}`, () => isScopeInOrganisation(organisationId, { blockId }))) {
+    return 'Block';
+  }
+  if (certificateId && !await owned(`certificate:${certificateId}|${propertyId ?? ''}`, async () => {
+    const certificate = await storage.getCertificate(certificateId);
+    return certificate?.organisationId === organisationId && (!propertyId || certificate.propertyId === propertyId);
+  })) {
+    return 'Certificate';
+  }
+  if (componentId && !await owned(`component:${componentId}|${propertyId ?? ''}`, async () => {
+    const component = await storage.getComponent(componentId);
+    if (!component || (propertyId && component.propertyId && component.propertyId !== propertyId)) return false;
+    if (component.propertyId) return isScopeInOrganisation(organisationId, { propertyId: component.propertyId });
+    return component.blockId ? isScopeInOrganisation(organisationId, { blockId: component.blockId }) : false;
+  })) {
+    return 'Component';
+  }
+  return null;
+}
+
+/**
+ * Loads the outlet's recent readings, newest first, including `record`. With a
+ * cache the outlet is read from the database once and later readings from the
+ * same import are added in memory.
+ */
+async function loadRecentOutletHistory(
+  record: WaterTemperatureRecord,
+  cache?: OutletHistoryCache
+): Promise<WaterTemperatureRecord[]> {
+  const scope = record.propertyId ? { propertyId: record.propertyId } : { blockId: record.blockId! };
+  const key = outletKey(record);
+  const cacheKey = `${scope.propertyId ?? ''}|${scope.blockId ?? ''}|${key}`;
+  const cached = cache?.get(cacheKey);
+
+  const history = cached
+    ? [record, ...cached]
+      .sort((a, b) => b.monitoringDate.getTime() - a.monitoringDate.getTime())
+      .slice(0, OUTLET_HISTORY_LIMIT)
+    : await storage.listOutletTemperatureRecords(scope, key, {
+      since: new Date(record.monitoringDate.getTime() - OUTLET_HISTORY_WINDOW_DAYS * DAY_MS),
+      limit: OUTLET_HISTORY_LIMIT,
+    });
+  cache?.set(cacheKey, history);
+  return history;
+}
+
+function outletLabel(record: Pick<WaterTemperatureRecord, 'outletReference' | 'outletLocation'>): string {
+  return record.outletReference ? `${record.outletLocation} (${record.outletReference})` : record.outletLocation;
+}
+
+// Remedial actions must hang off a certificate, so use the one the reading came
+// with or the property's most recent legionella risk assessment
+async function findLegionellaCertificateId(organisationId: string, record: WaterTemperatureRecord): Promise<string | null> {
+  if (record.certificateId) return record.certificateId;
+  if (!record.propertyId) return null;
+
+  const certificates = await storage.listCertificates(organisationId, { propertyId: record.propertyId });
+  const latest = certificates
+    .filter(certificate => certificate.certificateType === 'LEGIONELLA_ASSESSMENT')
+    .sort((a, b) => (b.issueDate ?? '').localeCompare(a.issueDate ?? ''))[0];
+  return latest?.id ?? null;
+}
+
+async function scheduleFlushingTask(
+  organisationId: string,
+  record: WaterTemperatureRecord,
+  streakStart: Date,
+  failures: OutletLimitFailure[],
+  now: Date
+): Promise<boolean> {
+  const title = `Legionella flushing: ${outletLabel(record)}`;
+  const existing = await db.select({ id: complianceCalendarEvents.id }).from(complianceCalendarEvents).where(and(
+    eq(complianceCalendarEvents.organisationId, organisationId),
+    eq(complianceCalendarEvents.eventType, 'STREAM_TASK'),
+    eq(complianceCalendarEvents.isSystemGenerated, true),
+    eq(complianceCalendarEvents.title, title),
+    record.propertyId ? eq(complianceCalendarEvents.propertyId, record.propertyId) : isNull(complianceCalendarEvents.propertyId),
+    gte(complianceCalendarEvents.createdAt, streakStart)
+  )).limit(1);
+  if (existing.length > 0) return false;
+
+  const stream = await storage.getComplianceStreamByCode('WATER_SAFETY');
+  await storage.createCalendarEvent({
+    organisationId,
+    title,
+    description: `Flush ${outletLabel(record)} and re-test: ${describeFailures(failures)}.`,
+    eventType: 'STREAM_TASK',
+    complianceStreamId: stream?.id ?? null,
+    startDate: new Date(now.getTime() + FLUSHING_DUE_DAYS * DAY_MS),
+    propertyId: record.propertyId,
+    certificateId: record.certificateId,
+    reminderDaysBefore: 2,
+    legislationReference: LEGISLATION_REFERENCE,
+    priority: 'HIGH',
+    isSystemGenerated: true,
+  });
+  return true;
+}
+
+async function raiseFlushingAction(
+  organisationId: string,
+  record: WaterTemperatureRecord,
+  consecutiveFailures: number,
+  failures: OutletLimitFailure[],
+  now: Date
+): Promise<boolean> {
+  if (!record.propertyId) return false;
+
+  const existing = await storage.listRemedialActions(organisationId, { propertyId: record.propertyId });
+  const alreadyRaised = existing.some(action =>
+    action.code === FLUSHING_REMEDIAL_CODE
+    && normaliseKey(action.location) === normaliseKey(outletLabel(record))
+    && OPEN_ACTION_STATUSES.includes(action.status)
+  );
+  if (alreadyRaised) return false;
+
+  const certificateId = await findLegionellaCertificateId(organisationId, record);
+  if (!certificateId) {
+    logger.warn({ organisationId, propertyId: record.propertyId, outlet: outletLabel(record) },
+      'No legionella certificate to attach outlet remedial action to, flushing task only');
+    return false;
+  }
+
+  await storage.createRemedialAction({
+    certificateId,
+    propertyId: record.propertyId,
+    code: FLUSHING_REMEDIAL_CODE,
+    category: 'WATER_SAFETY',
+    description: `Outlet out of temperature range on ${consecutiveFailures} consecutive checks (${describeFailures(failures)}): `
+      + 'flush, investigate the cause and re-test',
+    location: outletLabel(record),
+    severity: 'URGENT',
+    status: 'OPEN',
+    dueDate: new Date(now.getTime() + FLUSHING_DUE_DAYS * DAY_MS).toISOString().split('T')[0],
+  });
+  return true;
+}
+
+/**
+ * Records one outlet reading against the organisation's thresholds and, once the
+ * outlet has failed enough consecutive checks, raises a flushing task and a
+ * remedial action. Both are deduplicated per outlet. Callers must have checked
+ * the reading's ids with findForeignReference.
+ */
+export async function recordOutletReading(
+  organisationId: string,
+  reading: OutletReadingInput,
+  policy: WaterHygienePolicy,
+  monitoredById: string | null = null,
+  now: Date = new Date(),
+  historyCache?: OutletHistoryCache
+): Promise<OutletReadingResult> {
+  const evaluation = evaluateOutletReading(reading, policy);
+  const record = await storage.createWaterTemperatureRecord({
+    certificateId: reading.certificateId ?? null,
+    propertyId: reading.propertyId ?? null,
+    blockId: reading.blockId ?? null,
+    componentId: reading.componentId ?? null,
+    monitoringDate: reading.monitoringDate,
+    monitoredById,
+    outletLocation: reading.outletLocation,
+    outletType: reading.outletType,
+    outletReference: reading.outletReference ?? null,
+    coldWaterTemp: reading.coldWaterTemp ?? null,
+    hotWaterTemp: reading.hotWaterTemp ?? null,
+    hotWaterFlowTemp: reading.hotWaterFlowTemp ?? null,
+    hotWaterReturnTemp: reading.hotWaterReturnTemp ?? null,
+    calorifierTemp: reading.calorifierTemp ?? null,
+    coldWithinLimit: evaluation.coldWithinLimit,
+    hotWithinLimit: evaluation.hotWithinLimit,
+    flushingRequired: !evaluation.withinLimits,
+    flushingCompleted: reading.flushingCompleted ?? null,
+    actionRequired: evaluation.withinLimits ? null : `Out of range: ${describeFailures(evaluation.failures)}`,
+    notes: reading.notes ?? null,
+    metadata: { source: 'MONITORING', failures: evaluation.failures },
+  });
+
+  const history = await loadRecentOutletHistory(record, historyCache);
+  const firstPass = history.findIndex(item => !readingFailed(item));
+  const streak = firstPass === -1 ? history : history.slice(0, firstPass);
+  const consecutiveFailures = streak.length;
+
+  if (evaluation.withinLimits || consecutiveFailures < policy.escalateAfterFailures) {
+    return { record, evaluation, consecutiveFailures, escalation: null };
+  }
+
+  const streakStart = streak[streak.length - 1]?.createdAt ?? record.createdAt;
+  const escalation: OutletEscalation = {
+    flushingTaskCreated: await scheduleFlushingTask(organisationId, record, streakStart, evaluation.failures, now),
+    remedialActionCreated: await raiseFlushingAction(organisationId, record, consecutiveFailures, evaluation.failures, now),
+  };
+  logger.info({ organisationId, recordId: record.id, consecutiveFailures, ...escalation }, 'Outlet temperature failure escalated');
+  return { record, evaluation, consecutiveFailures, escalation };
+}
+
+function csvRowToReading(row: Record<string, string>): Record<string, unknown> {
+  const values = Object.fromEntries(
+    Object.entries(row)
+      .map(([key, value]) => [key.trim(), value.trim()])
+      .filter(([, value]) => value !== '')
+  );
+  if (values.flushingCompleted !== undefined) {
+    values.flushingCompleted = ['true', 'yes', 'y', '1'].includes(String(values.flushingCompleted).toLowerCase());
+  }
+  return values;
+}
+
+/**
+ * Validates every row of a monitoring CSV up front, then records the valid ones
+ * in order so repeat failures within the same file escalate as they would singly.
+ */
+export async function recordOutletReadingsFromCsv(
+  organisationId: string,
+  csvContent: string,
+  monitoredById: string | null = null,
+  now: Date = new Date()
+): Promise<BulkOutletReadingResult> {
+  const rows = parseCSV(csvContent);
+  const policy = await getWaterHygienePolicy(organisationId);
+  const result: BulkOutletReadingResult = { submitted: rows.length, recorded: 0, outOfRange: 0, escalated: 0, errors: [] };
+  const ownership = new Map<string, boolean>();
+  const historyCache: OutletHistoryCache = new Map();
+
+  const readings: Array<{ row: number; reading: OutletReadingInput }> = [];
+  for (const [index, row] of Array.from(rows.entries())) {
+    const parsed = outletReadingSchema.safeParse(csvRowToReading(row));
+    if (!parsed.success) {
+      result.errors.push({ row: index + 2, message: parsed.error.errors.map(error => `${error.path.join('.')}: ${error.message}`).join('; ') });
+      continue;
+    }
+    const foreign = await findForeignReference(organisationId, parsed.data, ownership);
+    if (foreign) {
+      result.errors.push({ row: index + 2, message: `${foreign} not found` });
+      continue;
+    }
+    readings.push({ row: index + 2, reading: parsed.data });
+  }
+
+  readings.sort((a, b) => a.reading.monitoringDate.getTime() - b.reading.monitoringDate.getTime());
+  for (const { reading } of readings) {
+    const recorded = await recordOutletReading(organisationId, reading, policy, monitoredById, now, historyCache);
+    result.recorded++;
+    if (!recorded.evaluation.withinLimits) result.outOfRange++;
+    if (recorded.escalation) result.escalated++;
+  }
+
+  logger.info({ organisationId, ...result, errors: result.errors.length }, 'Outlet temperature CSV processed');
+  return result;
+}
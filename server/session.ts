@@ -1,9 +1,10 @@
 import type { Request, Response, NextFunction } from 'express';
 import { db } from './db';
-import { users } from '@shared/schema';
+import { users, type User } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { auth } from './auth';
 import { fromNodeHeaders } from 'better-auth/node';
+import { getMfaGateStatus, type MfaGateStatus } from './services/mfa';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -16,13 +17,17 @@ export interface AuthenticatedRequest extends Request {
   };
 }
 
-async function getBetterAuthSession(req: Request): Promise<{ userId: string } | null> {
+export interface PendingMfaRequest extends AuthenticatedRequest {
+  mfaSessionId?: string | null;
+}
+
+async function getBetterAuthSession(req: Request): Promise<{ userId: string; sessionId: string | null } | null> {
   try {
     const session = await auth.api.getSession({
       headers: fromNodeHeaders(req.headers),
     });
     if (session?.user?.id) {
-      return { userId: session.user.id };
+      return { userId: session.user.id, sessionId: session.session?.id ?? null };
     }
     return null;
   } catch (error) {
@@ -31,34 +36,95 @@ async function getBetterAuthSession(req: Request): Promise<{ userId: string } |
   }
 }
 
+async function loadSessionUser(req: Request): Promise<{ user: User; sessionId: string | null } | null> {
+  const betterAuthSession = await getBetterAuthSession(req);
+  if (!betterAuthSession?.userId) return null;
+
+  const [user] = await db.select().from(users).where(eq(users.id, betterAuthSession.userId));
+  return user ? { user, sessionId: betterAuthSession.sessionId } : null;
+}
+
+/**
+ * Session lookup for handlers that check auth themselves rather than through requireAuth.
+ * Sessions still owing MFA resolve to null, so only the MFA endpoints can see them.
+ */
+export async function getVerifiedSession(req: Request): Promise<{ user: User; sessionId: string | null } | null> {
+  const sessionUser = await loadSessionUser(req);
+  if (!sessionUser) return null;
+
+  const gate = await getMfaGateStatus(sessionUser.user, sessionUser.sessionId);
+  return gate === 'SATISFIED' ? sessionUser : null;
+}
+
+// Resolves the signed-in user's organisation without rejecting anonymous requests
+export async function getSessionOrganisationId(req: Request): Promise<string | null> {
+  try {
+    const session = await getVerifiedSession(req);
+    return session?.user.organisationId ?? null;
+  } catch (error) {
+    console.error('Session organisation lookup error:', error);
+    return null;
+  }
+}
+
+function toRequestUser(user: User): NonNullable<AuthenticatedRequest['user']> {
+  return {
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    organisationId: user.organisationId,
+  };
+}
+
+const MFA_GATE_ERRORS: Record<Exclude<MfaGateStatus, 'SATISFIED'>, string> = {
+  MFA_VERIFICATION_REQUIRED: 'Multi-factor verification required',
+  MFA_ENROLMENT_REQUIRED: 'Your organisation requires multi-factor authentication. Please enrol to continue.',
+};
+
 export async function requireAuth(
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ) {
-  const betterAuthSession = await getBetterAuthSession(req);
-  
-  if (!betterAuthSession?.userId) {
-    return res.status(401).json({ error: 'Authentication required' });
+  try {
+    const sessionUser = await loadSessionUser(req);
+    if (sessionUser) {
+      const gate = await getMfaGateStatus(sessionUser.user, sessionUser.sessionId);
+      if (gate !== 'SATISFIED') {
+        return res.status(403).json({ error: MFA_GATE_ERRORS[gate], code: gate });
+      }
+      req.user = toRequestUser(sessionUser.user);
+      return next();
+    }
+  } catch (error) {
+    console.error('Session auth error:', error);
   }
+  
+  return res.status(401).json({ error: 'Authentication required' });
+}
 
+/**
+ * Like requireAuth but lets through sessions still waiting on MFA, for the
+ * enrolment and verification endpoints themselves.
+ */
+export async function requirePendingMfaAuth(
+  req: PendingMfaRequest,
+  res: Response,
+  next: NextFunction
+) {
   try {
-    const [user] = await db.select().from(users).where(eq(users.id, betterAuthSession.userId));
-    if (user) {
-      req.user = {
-        id: user.id,
-        username: user.username,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        organisationId: user.organisationId,
-      };
+    const sessionUser = await loadSessionUser(req);
+    if (sessionUser) {
+      req.user = toRequestUser(sessionUser.user);
+      req.mfaSessionId = sessionUser.sessionId;
       return next();
     }
   } catch (error) {
     console.error('Session auth error:', error);
   }
-  
+
   return res.status(401).json({ error: 'Authentication required' });
 }
 
@@ -67,24 +133,13 @@ export async function optionalAuth(
   res: Response,
   next: NextFunction
 ) {
-  const betterAuthSession = await getBetterAuthSession(req);
-
-  if (betterAuthSession?.userId) {
-    try {
-      const [user] = await db.select().from(users).where(eq(users.id, betterAuthSession.userId));
-      if (user) {
-        req.user = {
-          id: user.id,
-          username: user.username,
-          name: user.name,
-          email: user.email,
-          role: user.role,
-          organisationId: user.organisationId,
-        };
-      }
-    } catch (error) {
-      console.error('Optional session auth error:', error);
+  try {
+    const sessionUser = await loadSessionUser(req);
+    if (sessionUser && await getMfaGateStatus(sessionUser.user, sessionUser.sessionId) === 'SATISFIED') {
+      req.user = toRequestUser(sessionUser.user);
     }
+  } catch (error) {
+    console.error('Optional session auth error:', error);
   }
   
   return next();
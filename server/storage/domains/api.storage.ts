@@ -1,7 +1,7 @@
 import { 
   apiLogs, apiMetrics, webhookEndpoints, webhookEvents, webhookDeliveries, 
-  incomingWebhookLogs, apiKeys, apiClients, uploadSessions, ingestionJobs, 
-  rateLimitEntries, videos, aiSuggestions
+  incomingWebhookLogs, inboundWebhookSources, inboundWebhookNonces, apiKeys, apiClients,
+  uploadSessions, ingestionJobs, rateLimitEntries, videos, aiSuggestions
 } from "@shared/schema";
 import type { 
   ApiLog, InsertApiLog,
@@ -10,6 +10,7 @@ import type {
   WebhookEvent, InsertWebhookEvent,
   WebhookDelivery, InsertWebhookDelivery,
   IncomingWebhookLog, InsertIncomingWebhookLog,
+  InboundWebhookSource, InsertInboundWebhookSource,
   ApiKey, InsertApiKey,
   ApiClient, InsertApiClient,
   UploadSession, InsertUploadSession,
@@ -190,6 +191,52 @@ export class ApiStorage implements IApiStorage {
     return updated || undefined;
   }
   
+  async listInboundWebhookSources(organisationId: string): Promise<InboundWebhookSource[]> {
+    return db.select().from(inboundWebhookSources)
+      .where(eq(inboundWebhookSources.organisationId, organisationId))
+      .orderBy(desc(inboundWebhookSources.createdAt));
+  }
+  
+  async getInboundWebhookSourceByKeyId(keyId: string): Promise<InboundWebhookSource | undefined> {
+    const [source] = await db.select().from(inboundWebhookSources).where(eq(inboundWebhookSources.keyId, keyId));
+    return source || undefined;
+  }
+  
+  async createInboundWebhookSource(source: InsertInboundWebhookSource): Promise<InboundWebhookSource> {
+    const [created] = await db.insert(inboundWebhookSources).values(source).returning();
+    return created;
+  }
+  
+  async updateInboundWebhookSource(id: string, organisationId: string, updates: Partial<InboundWebhookSource>): Promise<InboundWebhookSource | undefined> {
+    const [updated] = await db.update(inboundWebhookSources)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(inboundWebhookSources.id, id), eq(inboundWebhookSources.organisationId, organisationId)))
+      .returning();
+    return updated || undefined;
+  }
+  
+  async deleteInboundWebhookSource(id: string, organisationId: string): Promise<boolean> {
+    const result = await db.delete(inboundWebhookSources)
+      .where(and(eq(inboundWebhookSources.id, id), eq(inboundWebhookSources.organisationId, organisationId)))
+      .returning();
+    return result.length > 0;
+  }
+  
+  async recordInboundWebhookNonce(sourceId: string, nonce: string, expiresAt: Date): Promise<boolean> {
+    const inserted = await db.insert(inboundWebhookNonces)
+      .values({ sourceId, nonceKey: `${sourceId}:${nonce}`, expiresAt })
+      .onConflictDoNothing({ target: inboundWebhookNonces.nonceKey })
+      .returning();
+    return inserted.length > 0;
+  }
+  
+  async cleanupExpiredInboundWebhookNonces(): Promise<number> {
+    const result = await db.delete(inboundWebhookNonces)
+      .where(lte(inboundWebhookNonces.expiresAt, new Date()))
+      .returning();
+    return result.length;
+  }
+  
   async listApiKeys(organisationId: string): Promise<ApiKey[]> {
     return db.select().from(apiKeys)
       .where(eq(apiKeys.organisationId, organisationId))
@@ -21,7 +21,7 @@ import type {
   WaterTemperatureRecord, InsertWaterTemperatureRecord
 } from "@shared/schema";
 import { db, eq, and, or, desc, sql, inArray, gte, lte, lt, ilike } from "../base";
-import type { ICertificatesStorage } from "../interfaces";
+import type { ICertificatesStorage, CertificateDetailRecordSet, CertificateDetailRecordCounts } from "../interfaces";
 
 export class CertificatesStorage implements ICertificatesStorage {
   async listCertificates(organisationId: string, filters?: { propertyId?: string; status?: string }): Promise<Certificate[]> {
@@ -495,6 +495,29 @@ export class CertificatesStorage implements ICertificatesStorage {
     return db.select().from(waterTemperatureRecords);
   }
 
+  async listOutletTemperatureRecords(
+    scope: { propertyId?: string; blockId?: string },
+    outletKey: string,
+    options: { since?: Date; limit?: number } = {}
+  ): Promise<WaterTemperatureRecord[]> {
+    // Matches the outlet key the monitoring service derives: the reference, or the location
+    // when there is none, lowercased with everything but letters and digits removed
+    const normalised = (column: typeof waterTemperatureRecords.outletReference | typeof waterTemperatureRecords.outletLocation) =>
+      sql`regexp_replace(lower(coalesce(${column}, '')), '[^a-z0-9]', '', 'g')`;
+    const conditions: any[] = [
+      scope.propertyId
+        ? eq(waterTemperatureRecords.propertyId, scope.propertyId)
+        : eq(waterTemperatureRecords.blockId, scope.blockId ?? ''),
+      sql`coalesce(nullif(${normalised(waterTemperatureRecords.outletReference)}, ''), ${normalised(waterTemperatureRecords.outletLocation)}) = ${outletKey}`,
+    ];
+    if (options.since) conditions.push(gte(waterTemperatureRecords.monitoringDate, options.since));
+
+    const query = db.select().from(waterTemperatureRecords)
+      .where(and(...conditions))
+      .orderBy(desc(waterTemperatureRecords.monitoringDate));
+    return options.limit ? query.limit(options.limit) : query;
+  }
+
   async createWaterTemperatureRecord(record: InsertWaterTemperatureRecord): Promise<WaterTemperatureRecord> {
     const [created] = await db.insert(waterTemperatureRecords).values(record).returning();
     return created;
@@ -504,6 +527,30 @@ export class CertificatesStorage implements ICertificatesStorage {
     if (records.length === 0) return [];
     return db.insert(waterTemperatureRecords).values(records).returning();
   }
+
+  async replaceCertificateDetailRecords(certificateId: string, records: CertificateDetailRecordSet): Promise<CertificateDetailRecordCounts> {
+    return db.transaction(async (tx) => {
+      await tx.delete(gasApplianceRecords).where(eq(gasApplianceRecords.certificateId, certificateId));
+      await tx.delete(electricalCircuitRecords).where(eq(electricalCircuitRecords.certificateId, certificateId));
+      await tx.delete(fireSystemRecords).where(eq(fireSystemRecords.certificateId, certificateId));
+      await tx.delete(asbestosSurveyRecords).where(eq(asbestosSurveyRecords.certificateId, certificateId));
+      await tx.delete(waterTemperatureRecords).where(eq(waterTemperatureRecords.certificateId, certificateId));
+
+      if (records.gasAppliances.length > 0) await tx.insert(gasApplianceRecords).values(records.gasAppliances);
+      if (records.electricalCircuits.length > 0) await tx.insert(electricalCircuitRecords).values(records.electricalCircuits);
+      if (records.fireSystems.length > 0) await tx.insert(fireSystemRecords).values(records.fireSystems);
+      if (records.asbestosItems.length > 0) await tx.insert(asbestosSurveyRecords).values(records.asbestosItems);
+      if (records.waterTemperatures.length > 0) await tx.insert(waterTemperatureRecords).values(records.waterTemperatures);
+
+      return {
+        gasAppliances: records.gasAppliances.length,
+        electricalCircuits: records.electricalCircuits.length,
+        fireSystems: records.fireSystems.length,
+        asbestosItems: records.asbestosItems.length,
+        waterTemperatures: records.waterTemperatures.length,
+      };
+    });
+  }
 }
 
 export const certificatesStorage = new CertificatesStorage();
@@ -445,11 +445,21 @@ export class SystemStorage implements ISystemStorage {
     return db.select().from(tsmSnapshots).where(and(...conditions)).orderBy(desc(tsmSnapshots.periodEnd));
   }
 
+  async getTsmSnapshot(id: string, organisationId: string): Promise<TsmSnapshot | undefined> {
+    const [snapshot] = await db.select().from(tsmSnapshots).where(and(eq(tsmSnapshots.id, id), eq(tsmSnapshots.organisationId, organisationId)));
+    return snapshot || undefined;
+  }
+
   async createTsmSnapshot(snapshot: InsertTsmSnapshot): Promise<TsmSnapshot> {
     const [created] = await db.insert(tsmSnapshots).values(snapshot).returning();
     return created;
   }
 
+  async updateTsmSnapshot(id: string, updates: Partial<InsertTsmSnapshot>): Promise<TsmSnapshot | undefined> {
+    const [updated] = await db.update(tsmSnapshots).set(updates).where(eq(tsmSnapshots.id, id)).returning();
+    return updated || undefined;
+  }
+
   async listBuildingSafetyProfiles(organisationId: string, filters?: { isHrb?: boolean }): Promise<BuildingSafetyProfile[]> {
     const conditions = [eq(buildingSafetyProfiles.organisationId, organisationId)];
     if (filters?.isHrb !== undefined) conditions.push(eq(buildingSafetyProfiles.isHRB, filters.isHrb));
@@ -1,5 +1,5 @@
-import { users } from "@shared/schema";
-import type { User, InsertUser } from "@shared/schema";
+import { users, sessions, userMfaCredentials } from "@shared/schema";
+import type { User, InsertUser, UserMfaCredential, InsertUserMfaCredential } from "@shared/schema";
 import { db, eq, and } from "../base";
 import type { IUsersStorage } from "../interfaces";
 
@@ -63,6 +63,68 @@ export class UsersStorage implements IUsersStorage {
       .where(and(eq(users.organisationId, organisationId), eq(users.role, 'SUPER_ADMIN')));
     return superAdmin || undefined;
   }
+
+  async getUserMfaCredential(userId: string): Promise<UserMfaCredential | undefined> {
+    const [credential] = await db.select().from(userMfaCredentials).where(eq(userMfaCredentials.userId, userId));
+    return credential || undefined;
+  }
+
+  // Restarting enrolment replaces any previous secret and recovery codes
+  async upsertUserMfaCredential(credential: InsertUserMfaCredential): Promise<UserMfaCredential> {
+    const [saved] = await db.insert(userMfaCredentials)
+      .values(credential)
+      .onConflictDoUpdate({
+        target: userMfaCredentials.userId,
+        set: { ...credential, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async updateUserMfaCredential(userId: string, updates: Partial<InsertUserMfaCredential>): Promise<UserMfaCredential | undefined> {
+    const [updated] = await db.update(userMfaCredentials)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(userMfaCredentials.userId, userId))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Holds the credential row lock while work reads and rewrites it, so concurrent checks cannot spend the same code
+  async withUserMfaCredentialLock<T>(
+    userId: string,
+    work: (credential: UserMfaCredential | undefined, update: (updates: Partial<InsertUserMfaCredential>) => Promise<void>) => Promise<T>
+  ): Promise<T> {
+    return db.transaction(async (tx) => {
+      const [credential] = await tx.select().from(userMfaCredentials).where(eq(userMfaCredentials.userId, userId)).for('update');
+      return work(credential || undefined, async (updates) => {
+        await tx.update(userMfaCredentials)
+          .set({ ...updates, updatedAt: new Date() })
+          .where(eq(userMfaCredentials.userId, userId));
+      });
+    });
+  }
+
+  async deleteUserMfaCredential(userId: string): Promise<boolean> {
+    const result = await db.delete(userMfaCredentials).where(eq(userMfaCredentials.userId, userId)).returning();
+    return result.length > 0;
+  }
+
+  async setUserMfaEnabled(userId: string, enabled: boolean): Promise<void> {
+    await db.update(users).set({ mfaEnabled: enabled, updatedAt: new Date() }).where(eq(users.id, userId));
+  }
+
+  async getSessionMfaVerifiedAt(sessionId: string): Promise<Date | null> {
+    const [session] = await db.select({ mfaVerifiedAt: sessions.mfaVerifiedAt }).from(sessions).where(eq(sessions.id, sessionId));
+    return session?.mfaVerifiedAt ?? null;
+  }
+
+  async markSessionMfaVerified(sessionId: string): Promise<void> {
+    await db.update(sessions).set({ mfaVerifiedAt: new Date() }).where(eq(sessions.id, sessionId));
+  }
+
+  async clearUserSessionMfaVerification(userId: string): Promise<void> {
+    await db.update(sessions).set({ mfaVerifiedAt: null }).where(eq(sessions.userId, userId));
+  }
 }
 
 export const usersStorage = new UsersStorage();
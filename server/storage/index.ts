@@ -26,6 +26,15 @@ export class DatabaseStorage implements IStorage {
   listUsers = this.users.listUsers.bind(this.users);
   updateUserRole = this.users.updateUserRole.bind(this.users);
   getSuperAdmin = this.users.getSuperAdmin.bind(this.users);
+  getUserMfaCredential = this.users.getUserMfaCredential.bind(this.users);
+  upsertUserMfaCredential = this.users.upsertUserMfaCredential.bind(this.users);
+  updateUserMfaCredential = this.users.updateUserMfaCredential.bind(this.users);
+  withUserMfaCredentialLock = this.users.withUserMfaCredentialLock.bind(this.users);
+  deleteUserMfaCredential = this.users.deleteUserMfaCredential.bind(this.users);
+  setUserMfaEnabled = this.users.setUserMfaEnabled.bind(this.users);
+  getSessionMfaVerifiedAt = this.users.getSessionMfaVerifiedAt.bind(this.users);
+  markSessionMfaVerified = this.users.markSessionMfaVerified.bind(this.users);
+  clearUserSessionMfaVerification = this.users.clearUserSessionMfaVerification.bind(this.users);
 
   getOrganisation = this.properties.getOrganisation.bind(this.properties);
   createOrganisation = this.properties.createOrganisation.bind(this.properties);
@@ -111,8 +120,10 @@ export class DatabaseStorage implements IStorage {
   createAsbestosSurveyRecord = this.certificates.createAsbestosSurveyRecord.bind(this.certificates);
   bulkCreateAsbestosSurveyRecords = this.certificates.bulkCreateAsbestosSurveyRecords.bind(this.certificates);
   listWaterTemperatureRecords = this.certificates.listWaterTemperatureRecords.bind(this.certificates);
+  listOutletTemperatureRecords = this.certificates.listOutletTemperatureRecords.bind(this.certificates);
   createWaterTemperatureRecord = this.certificates.createWaterTemperatureRecord.bind(this.certificates);
   bulkCreateWaterTemperatureRecords = this.certificates.bulkCreateWaterTemperatureRecords.bind(this.certificates);
+  replaceCertificateDetailRecords = this.certificates.replaceCertificateDetailRecords.bind(this.certificates);
 
   listRemedialActions = this.remedials.listRemedialActions.bind(this.remedials);
   listRemedialActionsPaginated = this.remedials.listRemedialActionsPaginated.bind(this.remedials);
@@ -235,6 +246,13 @@ export class DatabaseStorage implements IStorage {
   listIncomingWebhookLogs = this.api.listIncomingWebhookLogs.bind(this.api);
   createIncomingWebhookLog = this.api.createIncomingWebhookLog.bind(this.api);
   updateIncomingWebhookLog = this.api.updateIncomingWebhookLog.bind(this.api);
+  listInboundWebhookSources = this.api.listInboundWebhookSources.bind(this.api);
+  getInboundWebhookSourceByKeyId = this.api.getInboundWebhookSourceByKeyId.bind(this.api);
+  createInboundWebhookSource = this.api.createInboundWebhookSource.bind(this.api);
+  updateInboundWebhookSource = this.api.updateInboundWebhookSource.bind(this.api);
+  deleteInboundWebhookSource = this.api.deleteInboundWebhookSource.bind(this.api);
+  recordInboundWebhookNonce = this.api.recordInboundWebhookNonce.bind(this.api);
+  cleanupExpiredInboundWebhookNonces = this.api.cleanupExpiredInboundWebhookNonces.bind(this.api);
   listApiKeys = this.api.listApiKeys.bind(this.api);
   getApiKey = this.api.getApiKey.bind(this.api);
   getApiKeyByPrefix = this.api.getApiKeyByPrefix.bind(this.api);
@@ -334,7 +352,9 @@ export class DatabaseStorage implements IStorage {
   getTsmMeasure = this.system.getTsmMeasure.bind(this.system);
   createTsmMeasure = this.system.createTsmMeasure.bind(this.system);
   listTsmSnapshots = this.system.listTsmSnapshots.bind(this.system);
+  getTsmSnapshot = this.system.getTsmSnapshot.bind(this.system);
   createTsmSnapshot = this.system.createTsmSnapshot.bind(this.system);
+  updateTsmSnapshot = this.system.updateTsmSnapshot.bind(this.system);
   listBuildingSafetyProfiles = this.system.listBuildingSafetyProfiles.bind(this.system);
   getBuildingSafetyProfile = this.system.getBuildingSafetyProfile.bind(this.system);
   getBuildingSafetyProfileByBlockId = this.system.getBuildingSafetyProfileByBlockId.bind(this.system);
@@ -1,5 +1,6 @@
 import {
   type User, type InsertUser,
+  type UserMfaCredential, type InsertUserMfaCredential,
   type Organisation, type InsertOrganisation,
   type Scheme, type InsertScheme,
   type Block, type InsertBlock,
@@ -30,6 +31,7 @@ import {
   type WebhookEvent, type InsertWebhookEvent,
   type WebhookDelivery, type InsertWebhookDelivery,
   type IncomingWebhookLog, type InsertIncomingWebhookLog,
+  type InboundWebhookSource, type InsertInboundWebhookSource,
   type ApiKey, type InsertApiKey,
   type Video, type InsertVideo,
   type AiSuggestion, type InsertAiSuggestion,
@@ -76,6 +78,18 @@ export interface IUsersStorage {
   listUsers(organisationId: string): Promise<User[]>;
   updateUserRole(userId: string, newRole: string, requesterId: string): Promise<User | undefined>;
   getSuperAdmin(organisationId: string): Promise<User | undefined>;
+  getUserMfaCredential(userId: string): Promise<UserMfaCredential | undefined>;
+  upsertUserMfaCredential(credential: InsertUserMfaCredential): Promise<UserMfaCredential>;
+  updateUserMfaCredential(userId: string, updates: Partial<InsertUserMfaCredential>): Promise<UserMfaCredential | undefined>;
+  withUserMfaCredentialLock<T>(
+    userId: string,
+    work: (credential: UserMfaCredential | undefined, update: (updates: Partial<InsertUserMfaCredential>) => Promise<void>) => Promise<T>
+  ): Promise<T>;
+  deleteUserMfaCredential(userId: string): Promise<boolean>;
+  setUserMfaEnabled(userId: string, enabled: boolean): Promise<void>;
+  getSessionMfaVerifiedAt(sessionId: string): Promise<Date | null>;
+  markSessionMfaVerified(sessionId: string): Promise<void>;
+  clearUserSessionMfaVerification(userId: string): Promise<void>;
 }
 
 export interface IPropertiesStorage {
@@ -132,6 +146,16 @@ export interface IPropertiesStorage {
   }>>;
 }
 
+export interface CertificateDetailRecordSet {
+  gasAppliances: InsertGasApplianceRecord[];
+  electricalCircuits: InsertElectricalCircuitRecord[];
+  fireSystems: InsertFireSystemRecord[];
+  asbestosItems: InsertAsbestosSurveyRecord[];
+  waterTemperatures: InsertWaterTemperatureRecord[];
+}
+
+export type CertificateDetailRecordCounts = Record<keyof CertificateDetailRecordSet, number>;
+
 export interface ICertificatesStorage {
   listCertificates(organisationId: string, filters?: { propertyId?: string; status?: string }): Promise<Certificate[]>;
   listCertificatesCursor(organisationId: string, options: { propertyId?: string; status?: string | string[]; search?: string; limit: number; cursor?: string }): Promise<{ data: (Certificate & { property?: Property; extraction?: Extraction })[]; nextCursor: string | null; hasMore: boolean }>;
@@ -195,8 +219,11 @@ export interface ICertificatesStorage {
   bulkCreateAsbestosSurveyRecords(records: InsertAsbestosSurveyRecord[]): Promise<AsbestosSurveyRecord[]>;
   
   listWaterTemperatureRecords(filters?: { propertyId?: string; blockId?: string; certificateId?: string }): Promise<WaterTemperatureRecord[]>;
+  listOutletTemperatureRecords(scope: { propertyId?: string; blockId?: string }, outletKey: string, options?: { since?: Date; limit?: number }): Promise<WaterTemperatureRecord[]>;
   createWaterTemperatureRecord(record: InsertWaterTemperatureRecord): Promise<WaterTemperatureRecord>;
   bulkCreateWaterTemperatureRecords(records: InsertWaterTemperatureRecord[]): Promise<WaterTemperatureRecord[]>;
+
+  replaceCertificateDetailRecords(certificateId: string, records: CertificateDetailRecordSet): Promise<CertificateDetailRecordCounts>;
 }
 
 export interface IRemedialsStorage {
@@ -362,6 +389,14 @@ export interface IApiStorage {
   createIncomingWebhookLog(log: InsertIncomingWebhookLog): Promise<IncomingWebhookLog>;
   updateIncomingWebhookLog(id: string, updates: Partial<IncomingWebhookLog>): Promise<IncomingWebhookLog | undefined>;
   
+  listInboundWebhookSources(organisationId: string): Promise<InboundWebhookSource[]>;
+  getInboundWebhookSourceByKeyId(keyId: string): Promise<InboundWebhookSource | undefined>;
+  createInboundWebhookSource(source: InsertInboundWebhookSource): Promise<InboundWebhookSource>;
+  updateInboundWebhookSource(id: string, organisationId: string, updates: Partial<InboundWebhookSource>): Promise<InboundWebhookSource | undefined>;
+  deleteInboundWebhookSource(id: string, organisationId: string): Promise<boolean>;
+  recordInboundWebhookNonce(sourceId: string, nonce: string, expiresAt: Date): Promise<boolean>;
+  cleanupExpiredInboundWebhookNonces(): Promise<number>;
+  
   listApiKeys(organisationId: string): Promise<ApiKey[]>;
   getApiKey(id: string): Promise<ApiKey | undefined>;
   getApiKeyByPrefix(prefix: string): Promise<ApiKey | undefined>;
@@ -500,7 +535,9 @@ export interface ISystemStorage {
   createTsmMeasure(measure: InsertTsmMeasure): Promise<TsmMeasure>;
   
   listTsmSnapshots(organisationId: string, filters?: { measureCode?: string; periodStart?: Date }): Promise<TsmSnapshot[]>;
+  getTsmSnapshot(id: string, organisationId: string): Promise<TsmSnapshot | undefined>;
   createTsmSnapshot(snapshot: InsertTsmSnapshot): Promise<TsmSnapshot>;
+  updateTsmSnapshot(id: string, updates: Partial<InsertTsmSnapshot>): Promise<TsmSnapshot | undefined>;
   
   listBuildingSafetyProfiles(organisationId: string, filters?: { isHrb?: boolean }): Promise<BuildingSafetyProfile[]>;
   getBuildingSafetyProfile(id: string, organisationId?: string): Promise<BuildingSafetyProfile | undefined>;
@@ -94,6 +94,7 @@ export function getStorageConfigFromEnv(): AnyStorageConfig {
         keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS,
         publicBucket: process.env.GCS_PUBLIC_BUCKET,
         privateBucket: process.env.GCS_PRIVATE_BUCKET,
+        apiEndpoint: process.env.GCS_API_ENDPOINT || process.env.STORAGE_EMULATOR_HOST,
       };
       
     case "local":
@@ -136,3 +137,7 @@ export function getStorage(): IStorageProvider {
 export function hasStorage(): boolean {
   return globalProvider !== null;
 }
+
+export async function getOrInitializeStorage(): Promise<IStorageProvider> {
+  return globalProvider ?? initializeGlobalStorage();
+}
@@ -0,0 +1,421 @@
+import { Storage, Bucket, File, type GetSignedUrlConfig, type StorageOptions } from "@google-cloud/storage";
+import type { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { Response } from "express";
+import { v4 as uuidv4 } from "uuid";
+import {
+  IStorageProvider,
+  StorageProviderType,
+  GCSStorageConfig,
+  StorageMetadata,
+  StorageObject,
+  UploadOptions,
+  DownloadOptions,
+  SignedUrlOptions,
+  ListOptions,
+  ListResult,
+  ObjectVisibility,
+  ObjectAclPolicy,
+  ObjectPermission,
+  StorageError,
+  StorageErrorCode,
+} from "./types";
+
+const GCS_PUBLIC_HOST = "https://storage.googleapis.com";
+const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
+// V4 signatures are capped at seven days
+const MAX_SIGNED_URL_TTL_SEC = 7 * 24 * 60 * 60;
+
+// V4 signatures cover the HTTP verb and the client library cannot sign HEAD,
+// so a HEAD request is refused rather than handed a GET URL that would 403
+const SIGNED_URL_ACTIONS: Record<Exclude<SignedUrlOptions["method"], "HEAD">, GetSignedUrlConfig["action"]> = {
+  GET: "read",
+  PUT: "write",
+  DELETE: "delete",
+};
+
+type GcsFileMetadata = File["metadata"];
+
+function getErrorStatus(error: unknown): number | undefined {
+  const code = (error as { code?: unknown })?.code;
+  return typeof code === "number" ? code : undefined;
+}
+
+export class GCSStorageProvider implements IStorageProvider {
+  readonly name = "Google Cloud Storage";
+  readonly type = StorageProviderType.GCS;
+  readonly supportsInPlaceVisibilityChange = true;
+
+  private client: Storage | null = null;
+  private config: GCSStorageConfig;
+  private publicBucketName: string;
+  private privateBucketName: string;
+
+  constructor(config: GCSStorageConfig) {
+    this.config = config;
+    this.publicBucketName = config.publicBucket || "public";
+    this.privateBucketName = config.privateBucket || "private";
+  }
+
+  async initialize(): Promise<void> {
+    const options: StorageOptions = {};
+    if (this.config.projectId) options.projectId = this.config.projectId;
+    if (this.config.keyFilename) options.keyFilename = this.config.keyFilename;
+    if (this.config.credentials) options.credentials = this.config.credentials;
+    if (this.config.apiEndpoint) options.apiEndpoint = this.config.apiEndpoint;
+
+    this.client = new Storage(options);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.client) return false;
+
+    try {
+      const [[publicExists], [privateExists]] = await Promise.all([
+        this.client.bucket(this.publicBucketName).exists(),
+        this.client.bucket(this.privateBucketName).exists(),
+      ]);
+      return publicExists && privateExists;
+    } catch {
+      return false;
+    }
+  }
+
+  private getClient(key?: string): Storage {
+    if (!this.client) {
+      throw new StorageError("GCS client not initialized", StorageErrorCode.CONFIGURATION_ERROR, key, this.name);
+    }
+    return this.client;
+  }
+
+  private isPrivateKey(key: string): boolean {
+    return key.startsWith(".private/");
+  }
+
+  private getBucket(key: string): Bucket {
+    return this.getClient(key).bucket(this.isPrivateKey(key) ? this.privateBucketName : this.publicBucketName);
+  }
+
+  private getObjectKey(key: string): string {
+    if (key.startsWith(".private/")) {
+      return key.substring(9);
+    }
+    if (key.startsWith("public/")) {
+      return key.substring(7);
+    }
+    return key;
+  }
+
+  private getFile(key: string): File {
+    const objectKey = this.getObjectKey(key);
+    if (!objectKey) {
+      throw new StorageError("Object key is empty", StorageErrorCode.INVALID_KEY, key, this.name);
+    }
+    return this.getBucket(key).file(objectKey);
+  }
+
+  private toStorageError(error: unknown, fallback: StorageErrorCode, action: string, key?: string): StorageError {
+    if (error instanceof StorageError) return error;
+
+    const status = getErrorStatus(error);
+    const code = status === 404
+      ? StorageErrorCode.NOT_FOUND
+      : status === 401 || status === 403
+        ? StorageErrorCode.PERMISSION_DENIED
+        : fallback;
+
+    return new StorageError(
+      `Failed to ${action}${key ? ` ${key}` : ""}: ${error instanceof Error ? error.message : String(error)}`,
+      code,
+      key,
+      this.name
+    );
+  }
+
+  private toStorageMetadata(metadata: GcsFileMetadata): StorageMetadata {
+    const customMetadata: Record<string, string> = {};
+    for (const [name, value] of Object.entries(metadata.metadata || {})) {
+      if (name !== ACL_POLICY_METADATA_KEY && value != null) {
+        customMetadata[name] = String(value);
+      }
+    }
+
+    return {
+      contentType: metadata.contentType,
+      size: metadata.size !== undefined ? Number(metadata.size) : undefined,
+      lastModified: metadata.updated ? new Date(metadata.updated) : undefined,
+      etag: metadata.etag,
+      customMetadata: Object.keys(customMetadata).length > 0 ? customMetadata : undefined,
+    };
+  }
+
+  async upload(key: string, data: Buffer | Readable, options?: UploadOptions): Promise<string> {
+    const file = this.getFile(key);
+
+    try {
+      const writeStream = file.createWriteStream({
+        resumable: false,
+        contentType: options?.contentType || "application/octet-stream",
+        metadata: options?.metadata ? { metadata: options.metadata } : undefined,
+        predefinedAcl: options?.isPublic ? "publicRead" : undefined,
+      });
+
+      if (Buffer.isBuffer(data)) {
+        await new Promise<void>((resolve, reject) => {
+          writeStream.on("error", reject);
+          writeStream.on("finish", resolve);
+          writeStream.end(data);
+        });
+      } else {
+        await pipeline(data, writeStream);
+      }
+
+      return key;
+    } catch (error) {
+      throw this.toStorageError(error, StorageErrorCode.UPLOAD_FAILED, "upload", key);
+    }
+  }
+
+  async download(key: string): Promise<{ data: Readable; metadata: StorageMetadata }> {
+    const file = this.getFile(key);
+
+    try {
+      const [metadata] = await file.getMetadata();
+      return {
+        data: file.createReadStream(),
+        metadata: this.toStorageMetadata(metadata),
+      };
+    } catch (error) {
+      throw this.toStorageError(error, StorageErrorCode.DOWNLOAD_FAILED, "download", key);
+    }
+  }
+
+  async streamToResponse(key: string, res: Response, options?: DownloadOptions): Promise<void> {
+    const { data, metadata } = await this.download(key);
+    const cacheTtl = options?.cacheTtlSec ?? 3600;
+
+    res.set({
+      "Content-Type": metadata.contentType || "application/octet-stream",
+      "Cache-Control": `${this.isPrivateKey(key) ? "private" : "public"}, max-age=${cacheTtl}`,
+    });
+    if (metadata.size !== undefined) {
+      res.setHeader("Content-Length", String(metadata.size));
+    }
+
+    data.on("error", (err) => {
+      console.error("[GCSStorage] Stream error:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Error streaming file" });
+      } else {
+        res.destroy(err);
+      }
+    });
+    data.pipe(res);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.getFile(key).delete({ ignoreNotFound: true });
+    } catch (error) {
+      throw this.toStorageError(error, StorageErrorCode.DELETE_FAILED, "delete", key);
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    if (!this.client) return false;
+
+    try {
+      const [exists] = await this.getFile(key).exists();
+      return exists;
+    } catch {
+      return false;
+    }
+  }
+
+  async getMetadata(key: string): Promise<StorageMetadata> {
+    try {
+      const [metadata] = await this.getFile(key).getMetadata();
+      return this.toStorageMetadata(metadata);
+    } catch (error) {
+      throw this.toStorageError(error, StorageErrorCode.CONNECTION_ERROR, "read metadata for", key);
+    }
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const file = this.getFile(key);
+    if (options.method === "HEAD") {
+      throw new StorageError("GCS cannot sign URLs for HEAD requests", StorageErrorCode.CONFIGURATION_ERROR, key, this.name);
+    }
+
+    try {
+      const [url] = await file.getSignedUrl({
+        version: "v4",
+        action: SIGNED_URL_ACTIONS[options.method],
+        expires: Date.now() + Math.min(options.ttlSec, MAX_SIGNED_URL_TTL_SEC) * 1000,
+        contentType: options.method === "PUT" ? options.contentType : undefined,
+      });
+      return url;
+    } catch (error) {
+      throw this.toStorageError(error, StorageErrorCode.CONFIGURATION_ERROR, "sign URL for", key);
+    }
+  }
+
+  async getUploadUrl(prefix?: string, ttlSec: number = 900): Promise<{ uploadUrl: string; objectKey: string }> {
+    const objectKey = `.private/${prefix ? `${prefix}/${uuidv4()}` : `uploads/${uuidv4()}`}`;
+    const uploadUrl = await this.getSignedUrl(objectKey, { method: "PUT", ttlSec });
+    return { uploadUrl, objectKey };
+  }
+
+  async list(options?: ListOptions): Promise<ListResult> {
+    const prefix = options?.prefix || "";
+    const isPublic = prefix.startsWith("public/");
+    const keyPrefix = isPublic ? "public/" : ".private/";
+    const bucketKey = isPublic ? prefix : `.private/${this.getObjectKey(prefix)}`;
+
+    try {
+      const [files, nextQuery] = await this.getBucket(bucketKey).getFiles({
+        prefix: this.getObjectKey(prefix) || undefined,
+        maxResults: options?.maxResults,
+        pageToken: options?.cursor,
+        autoPaginate: false,
+      });
+
+      const objects: StorageObject[] = files.map((file) => ({
+        key: `${keyPrefix}${file.name}`,
+        metadata: this.toStorageMetadata(file.metadata),
+      }));
+
+      return {
+        objects,
+        nextCursor: (nextQuery as { pageToken?: string } | null)?.pageToken,
+      };
+    } catch (error) {
+      throw this.toStorageError(error, StorageErrorCode.CONNECTION_ERROR, "list");
+    }
+  }
+
+  async copy(sourceKey: string, destinationKey: string): Promise<void> {
+    try {
+      // Custom metadata (including the ACL policy) travels with the copy
+      await this.getFile(sourceKey).copy(this.getFile(destinationKey));
+
+      const policy = await this.getAclPolicy(destinationKey);
+      const visibility = policy?.visibility
+        ?? (this.isPrivateKey(destinationKey) ? ObjectVisibility.PRIVATE : ObjectVisibility.PUBLIC);
+      await this.setVisibility(destinationKey, visibility);
+    } catch (error) {
+      throw this.toStorageError(error, StorageErrorCode.UPLOAD_FAILED, "copy", sourceKey);
+    }
+  }
+
+  async setVisibility(key: string, visibility: ObjectVisibility): Promise<void> {
+    const file = this.getFile(key);
+
+    try {
+      if (visibility === ObjectVisibility.PUBLIC) {
+        await file.makePublic();
+      } else {
+        await file.makePrivate({ strict: false });
+      }
+    } catch (error) {
+      // Buckets with uniform bucket-level access reject object ACLs; visibility
+      // is then governed by the bucket IAM policy and the stored ACL policy
+      if (getErrorStatus(error) === 400) {
+        return;
+      }
+      throw this.toStorageError(error, StorageErrorCode.PERMISSION_DENIED, "set visibility for", key);
+    }
+  }
+
+  getPublicUrl(key: string): string | null {
+    if (this.isPrivateKey(key)) {
+      return null;
+    }
+
+    const host = (this.config.apiEndpoint || GCS_PUBLIC_HOST).replace(/\/$/, "");
+    const objectPath = this.getObjectKey(key).split("/").map(encodeURIComponent).join("/");
+    return `${host}/${this.publicBucketName}/${objectPath}`;
+  }
+
+  async getAclPolicy(key: string): Promise<ObjectAclPolicy | null> {
+    let metadata: GcsFileMetadata;
+    try {
+      [metadata] = await this.getFile(key).getMetadata();
+    } catch (error) {
+      if (getErrorStatus(error) === 404) return null;
+      throw this.toStorageError(error, StorageErrorCode.CONNECTION_ERROR, "read ACL policy for", key);
+    }
+
+    const raw = metadata.metadata?.[ACL_POLICY_METADATA_KEY];
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(String(raw));
+      return {
+        visibility: parsed.visibility === ObjectVisibility.PUBLIC ? ObjectVisibility.PUBLIC : ObjectVisibility.PRIVATE,
+        allowedUsers: Array.isArray(parsed.allowedUsers) ? parsed.allowedUsers : undefined,
+        allowedRoles: Array.isArray(parsed.allowedRoles) ? parsed.allowedRoles : undefined,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async setAclPolicy(key: string, policy: ObjectAclPolicy): Promise<void> {
+    const file = this.getFile(key);
+
+    try {
+      await file.setMetadata({
+        metadata: {
+          [ACL_POLICY_METADATA_KEY]: JSON.stringify({
+            visibility: policy.visibility,
+            allowedUsers: policy.allowedUsers,
+            allowedRoles: policy.allowedRoles,
+          }),
+        },
+      });
+    } catch (error) {
+      throw this.toStorageError(error, StorageErrorCode.PERMISSION_DENIED, "set ACL policy for", key);
+    }
+
+    await this.setVisibility(key, policy.visibility);
+  }
+
+  async canAccess(key: string, userId: string | undefined, permission: ObjectPermission): Promise<boolean> {
+    const policy = await this.getAclPolicy(key);
+
+    if (!policy) {
+      return key.startsWith("public/") && permission === ObjectPermission.READ;
+    }
+
+    if (policy.visibility === ObjectVisibility.PUBLIC && permission === ObjectPermission.READ) {
+      return true;
+    }
+
+    if (!userId) {
+      return false;
+    }
+
+    return policy.allowedUsers?.includes(userId) ?? false;
+  }
+
+  normalizeEntityPath(rawPath: string): string {
+    return rawPath
+      .toLowerCase()
+      .replace(/[^a-z0-9\-_\/\.]/g, "-")
+      .replace(/\/+/g, "/")
+      .replace(/^\/|\/$/g, "");
+  }
+
+  async searchPublicObject(filePath: string): Promise<{ key: string; metadata: StorageMetadata } | null> {
+    const publicKey = `public/${this.normalizeEntityPath(filePath)}`;
+
+    if (await this.exists(publicKey)) {
+      return { key: publicKey, metadata: await this.getMetadata(publicKey) };
+    }
+
+    return null;
+  }
+}
@@ -2,7 +2,7 @@ export * from "./types";
 export * from "./factory";
 
 import { registerStorageProvider } from "./factory";
-import { StorageProviderType, AnyStorageConfig, S3StorageConfig, AzureBlobStorageConfig, LocalStorageConfig } from "./types";
+import { StorageProviderType, AnyStorageConfig, S3StorageConfig, AzureBlobStorageConfig, GCSStorageConfig, LocalStorageConfig } from "./types";
 
 export function registerAllStorageProviders(): void {
   registerStorageProvider(StorageProviderType.REPLIT, async () => {
@@ -25,6 +25,11 @@ export function registerAllStorageProviders(): void {
     const { AzureBlobStorageProvider } = await import("./azure-blob");
     return new AzureBlobStorageProvider(config as AzureBlobStorageConfig);
   });
+
+  registerStorageProvider(StorageProviderType.GCS, async (config: AnyStorageConfig) => {
+    const { GCSStorageProvider } = await import("./gcs");
+    return new GCSStorageProvider(config as GCSStorageConfig);
+  });
 }
 
 registerAllStorageProviders();
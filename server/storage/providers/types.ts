@@ -141,6 +141,8 @@ export interface GCSStorageConfig extends StorageProviderConfig {
   projectId: string;
   keyFilename?: string;
   credentials?: object;
+  /** Overrides the JSON API host, e.g. a local fake-gcs-server emulator */
+  apiEndpoint?: string;
 }
 
 export interface LocalStorageConfig extends StorageProviderConfig {
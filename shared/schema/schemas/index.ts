@@ -4,6 +4,7 @@ import { z } from "zod";
 import {
   organisations,
   users,
+  userMfaCredentials,
   staffMembers,
   schemes,
   blocks,
@@ -48,6 +49,7 @@ import {
   webhookEvents,
   webhookDeliveries,
   incomingWebhookLogs,
+  inboundWebhookSources,
   apiKeys,
   auditEvents,
   propertyRiskSnapshots,
@@ -67,6 +69,8 @@ import {
   scheduledReports,
   reportTemplates,
   generatedReports,
+  reportDeliveries,
+  reportExports,
   reportCanvases,
   canvasWidgets,
   mlModels,
@@ -109,6 +113,7 @@ import {
 
 export const insertOrganisationSchema = createInsertSchema(organisations).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
+export const insertUserMfaCredentialSchema = createInsertSchema(userMfaCredentials).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertStaffMemberSchema = createInsertSchema(staffMembers).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertSchemeSchema = createInsertSchema(schemes).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertBlockSchema = createInsertSchema(blocks).omit({ id: true, createdAt: true, updatedAt: true });
@@ -119,7 +124,7 @@ export const insertExtractionSchema = createInsertSchema(extractions).omit({ id:
 export const insertRemedialActionSchema = createInsertSchema(remedialActions).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertContractorSchema = createInsertSchema(contractors).omit({ id: true, createdAt: true, updatedAt: true });
 
-export const insertExtractionSchemaSchema = createInsertSchema(extractionSchemas).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertExtractionSchemaSchema = createInsertSchema(extractionSchemas).omit({ id: true, createdAt: true, updatedAt: true, shadowPercentage: true, shadowStartedAt: true, promotedAt: true, promotedById: true, previousSchemaId: true });
 export const insertExtractionRunSchema = createInsertSchema(extractionRuns).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertExtractionTierAuditSchema = createInsertSchema(extractionTierAudits).omit({ id: true, createdAt: true });
 export const insertHumanReviewSchema = createInsertSchema(humanReviews).omit({ id: true, reviewedAt: true });
@@ -167,6 +172,7 @@ export const insertWebhookEndpointSchema = createInsertSchema(webhookEndpoints).
 export const insertWebhookEventSchema = createInsertSchema(webhookEvents).omit({ id: true, createdAt: true, processed: true });
 export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertIncomingWebhookLogSchema = createInsertSchema(incomingWebhookLogs).omit({ id: true, createdAt: true });
+export const insertInboundWebhookSourceSchema = createInsertSchema(inboundWebhookSources).omit({ id: true, createdAt: true, updatedAt: true, lastReceivedAt: true });
 export const insertApiKeySchema = createInsertSchema(apiKeys).omit({ id: true, createdAt: true, lastUsedAt: true });
 
 export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({ id: true, createdAt: true });
@@ -191,6 +197,8 @@ export const insertComplianceCalendarEventSchema = createInsertSchema(compliance
 export const insertScheduledReportSchema = createInsertSchema(scheduledReports).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertReportTemplateSchema = createInsertSchema(reportTemplates).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertGeneratedReportSchema = createInsertSchema(generatedReports).omit({ id: true, createdAt: true });
+export const insertReportDeliverySchema = createInsertSchema(reportDeliveries).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertReportExportSchema = createInsertSchema(reportExports).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertReportCanvasSchema = createInsertSchema(reportCanvases).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertCanvasWidgetSchema = createInsertSchema(canvasWidgets).omit({ id: true, createdAt: true, updatedAt: true });
 
@@ -221,6 +229,7 @@ export const insertCacheClearAuditSchema = createInsertSchema(cacheClearAudit).o
 
 export type InsertOrganisation = z.infer<typeof insertOrganisationSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertUserMfaCredential = z.infer<typeof insertUserMfaCredentialSchema>;
 export type InsertStaffMember = z.infer<typeof insertStaffMemberSchema>;
 export type InsertScheme = z.infer<typeof insertSchemeSchema>;
 export type InsertBlock = z.infer<typeof insertBlockSchema>;
@@ -265,6 +274,7 @@ export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
 export type InsertWebhookEvent = z.infer<typeof insertWebhookEventSchema>;
 export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
 export type InsertIncomingWebhookLog = z.infer<typeof insertIncomingWebhookLogSchema>;
+export type InsertInboundWebhookSource = z.infer<typeof insertInboundWebhookSourceSchema>;
 export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
 export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
 export type InsertPropertyRiskSnapshot = z.infer<typeof insertPropertyRiskSnapshotSchema>;
@@ -284,6 +294,8 @@ export type InsertComplianceCalendarEvent = z.infer<typeof insertComplianceCalen
 export type InsertScheduledReport = z.infer<typeof insertScheduledReportSchema>;
 export type InsertReportTemplate = z.infer<typeof insertReportTemplateSchema>;
 export type InsertGeneratedReport = z.infer<typeof insertGeneratedReportSchema>;
+export type InsertReportDelivery = z.infer<typeof insertReportDeliverySchema>;
+export type InsertReportExport = z.infer<typeof insertReportExportSchema>;
 export type InsertMlModel = z.infer<typeof insertMlModelSchema>;
 export type InsertMlPrediction = z.infer<typeof insertMlPredictionSchema>;
 export type InsertMlFeedback = z.infer<typeof insertMlFeedbackSchema>;
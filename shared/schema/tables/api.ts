@@ -162,12 +162,41 @@ export const webhookDeliveries = pgTable("webhook_deliveries", {
 export const incomingWebhookLogs = pgTable("incoming_webhook_logs", {
   id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   source: text("source").notNull(),
+  organisationId: varchar("organisation_id"),
+  inboundSourceId: varchar("inbound_source_id"),
   eventType: text("event_type"),
   payload: json("payload").notNull(),
   headers: json("headers"),
   processed: boolean("processed").notNull().default(false),
   processedAt: timestamp("processed_at"),
   errorMessage: text("error_message"),
+  rejectionReason: text("rejection_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Per-organisation credentials for systems that call our inbound webhooks (e.g. an HMS).
+// authValue holds the HMAC shared secret, or a SHA-256 hash for API_KEY / BEARER sources.
+export const inboundWebhookSources = pgTable("inbound_webhook_sources", {
+  id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  organisationId: varchar("organisation_id").notNull(),
+  source: text("source").notNull(),
+  name: text("name").notNull(),
+  keyId: text("key_id").notNull().unique(),
+  authType: webhookAuthTypeEnum("auth_type").notNull().default('HMAC_SHA256'),
+  authValue: text("auth_value").notNull(),
+  toleranceSeconds: integer("tolerance_seconds").notNull().default(300),
+  isActive: boolean("is_active").notNull().default(true),
+  lastReceivedAt: timestamp("last_received_at"),
+  createdById: varchar("created_by_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const inboundWebhookNonces = pgTable("inbound_webhook_nonces", {
+  id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  sourceId: varchar("source_id").notNull(),
+  nonceKey: text("nonce_key").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
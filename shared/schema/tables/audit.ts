@@ -29,14 +29,32 @@ export const auditEventTypeEnum = pgEnum('audit_event_type', [
   'API_KEY_CREATED',
   'API_KEY_REVOKED',
   'BULK_IMPORT_COMPLETED',
+  'HAZARD_CASE_STATUS_CHANGED',
+  'HAZARD_ACTION_STATUS_CHANGED',
+  'MFA_ENROLMENT_STARTED',
+  'MFA_ENABLED',
+  'MFA_VERIFIED',
+  'MFA_VERIFICATION_FAILED',
+  'MFA_RECOVERY_CODE_USED',
+  'MFA_RECOVERY_CODES_REGENERATED',
+  'MFA_DISABLED',
+  'MFA_RESET',
+  'MFA_POLICY_CHANGED',
+  'CONTRACTOR_COMPETENCY_OVERRIDDEN',
+  'CONTRACTOR_COMPETENCY_MATRIX_CHANGED',
+  'CONTRACTOR_SUSPENDED',
+  'EXTRACTION_SCHEMA_SHADOW_STARTED',
+  'EXTRACTION_SCHEMA_SHADOW_STOPPED',
+  'EXTRACTION_SCHEMA_PROMOTED',
+  'EXTRACTION_SCHEMA_ROLLED_BACK',
 ]);
 export const auditEntityTypeEnum = pgEnum('audit_entity_type', [
   'CERTIFICATE', 'PROPERTY', 'COMPONENT', 'REMEDIAL_ACTION', 
-  'USER', 'ORGANISATION', 'API_KEY', 'SETTINGS'
+  'USER', 'ORGANISATION', 'API_KEY', 'SETTINGS', 'HAZARD_CASE', 'CONTRACTOR'
 ]);
 export const changeScopeEnum = pgEnum('change_scope', [
   'PROPERTY', 'COMPONENT', 'BUILDING_FABRIC', 'CERTIFICATE', 
-  'REMEDIAL_ACTION', 'CONTRACTOR', 'USER', 'SETTINGS', 'SCHEME', 'BLOCK'
+  'REMEDIAL_ACTION', 'CONTRACTOR', 'USER', 'SETTINGS', 'SCHEME', 'BLOCK', 'HAZARD_CASE'
 ]);
 
 export const auditEvents = pgTable("audit_events", {
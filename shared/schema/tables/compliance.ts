@@ -9,6 +9,8 @@ export const extractionTierStatusEnum = pgEnum('extraction_tier_status', [
   'pending'
 ]);
 
+export const evalRunStatusEnum = pgEnum('eval_run_status', ['QUEUED', 'RUNNING', 'COMPLETED', 'FAILED']);
+
 export const certificates = pgTable("certificates", {
   id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   organisationId: varchar("organisation_id").notNull(),
@@ -76,6 +78,12 @@ export const extractionSchemas = pgTable("extraction_schemas", {
   promptTemplate: text("prompt_template"),
   isActive: boolean("is_active").notNull().default(false),
   isDeprecated: boolean("is_deprecated").notNull().default(false),
+  // Staged rollout: a non-active candidate with shadowPercentage > 0 runs alongside the active schema
+  shadowPercentage: integer("shadow_percentage").notNull().default(0),
+  shadowStartedAt: timestamp("shadow_started_at"),
+  promotedAt: timestamp("promoted_at"),
+  promotedById: varchar("promoted_by_id"),
+  previousSchemaId: varchar("previous_schema_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -103,6 +111,12 @@ export const extractionRuns = pgTable("extraction_runs", {
   validationPassed: boolean("validation_passed").notNull().default(false),
   repairAttempts: integer("repair_attempts").notNull().default(0),
   status: extractionStatusEnum("status").notNull().default('PENDING'),
+  shadowSchemaId: varchar("shadow_schema_id"),
+  shadowOutput: json("shadow_output"),
+  shadowDisagreements: json("shadow_disagreements"),
+  shadowDisagreementRate: real("shadow_disagreement_rate"),
+  autoApproved: boolean("auto_approved").notNull().default(false),
+  auditSampled: boolean("audit_sampled").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -229,6 +243,9 @@ export const evalRuns = pgTable("eval_runs", {
   scoreDelta: real("score_delta"),
   passedGating: boolean("passed_gating"),
   gatingNotes: text("gating_notes"),
+  status: evalRunStatusEnum("status").notNull().default('COMPLETED'),
+  errorMessage: text("error_message"),
+  completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -158,6 +158,7 @@ export const contractorAssignments = pgTable("contractor_assignments", {
   propertyId: varchar("property_id"),
   remedialActionId: varchar("remedial_action_id"),
   workCategory: contractorWorkCategoryEnum("work_category").notNull(),
+  priority: slaPriorityEnum("priority").notNull().default('STANDARD'),
   description: text("description"),
   scheduledDate: timestamp("scheduled_date"),
   completedDate: timestamp("completed_date"),
@@ -1,4 +1,4 @@
-import { pgTable, text, varchar, timestamp, boolean, json } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, json, integer } from "drizzle-orm/pg-core";
 import { userRoleEnum, staffStatusEnum } from './base';
 
 export const organisations = pgTable("organisations", {
@@ -21,6 +21,7 @@ export const users = pgTable("users", {
   organisationId: varchar("organisation_id").notNull(),
   emailVerified: boolean("email_verified").notNull().default(false),
   image: text("image"),
+  mfaEnabled: boolean("mfa_enabled").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -52,6 +53,23 @@ export const sessions = pgTable("sessions", {
   expiresAt: timestamp("expires_at").notNull(),
   ipAddress: text("ip_address"),
   userAgent: text("user_agent"),
+  mfaVerifiedAt: timestamp("mfa_verified_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// TOTP second factor; enabledAt stays null until the first code is confirmed
+export const userMfaCredentials = pgTable("user_mfa_credentials", {
+  id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: varchar("user_id").notNull().unique(),
+  organisationId: varchar("organisation_id").notNull(),
+  secretEncrypted: text("secret_encrypted").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  lastUsedStep: integer("last_used_step"),
+  recoveryCodeHashes: text("recovery_code_hashes").array().notNull().default([]),
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  lastVerifiedAt: timestamp("last_verified_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
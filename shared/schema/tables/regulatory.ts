@@ -533,6 +533,7 @@ export const gasApplianceRecords = pgTable("gas_appliance_records", {
   id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   certificateId: varchar("certificate_id").notNull(),
   propertyId: varchar("property_id").notNull(),
+  componentId: varchar("component_id"),
   
   applianceType: text("appliance_type").notNull(),
   manufacturer: text("manufacturer"),
@@ -563,6 +564,7 @@ export const electricalCircuitRecords = pgTable("electrical_circuit_records", {
   id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   certificateId: varchar("certificate_id").notNull(),
   propertyId: varchar("property_id").notNull(),
+  componentId: varchar("component_id"),
   
   circuitNumber: integer("circuit_number").notNull(),
   circuitDescription: text("circuit_description").notNull(),
@@ -596,6 +598,7 @@ export const fireSystemRecords = pgTable("fire_system_records", {
   certificateId: varchar("certificate_id").notNull(),
   propertyId: varchar("property_id"),
   blockId: varchar("block_id"),
+  componentId: varchar("component_id"),
   
   systemType: text("system_type").notNull(),
   systemCategory: text("system_category"),
@@ -632,6 +635,7 @@ export const asbestosSurveyRecords = pgTable("asbestos_survey_records", {
   certificateId: varchar("certificate_id").notNull(),
   propertyId: varchar("property_id"),
   blockId: varchar("block_id"),
+  componentId: varchar("component_id"),
   
   surveyType: text("survey_type").notNull(),
   surveyDate: date("survey_date").notNull(),
@@ -673,6 +677,7 @@ export const waterTemperatureRecords = pgTable("water_temperature_records", {
   certificateId: varchar("certificate_id"),
   propertyId: varchar("property_id"),
   blockId: varchar("block_id"),
+  componentId: varchar("component_id"),
   
   monitoringDate: timestamp("monitoring_date").notNull(),
   monitoredById: varchar("monitored_by_id"),
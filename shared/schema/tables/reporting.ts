@@ -14,6 +14,10 @@ export const calendarEventRecurrenceEnum = pgEnum('calendar_event_recurrence', [
 
 export const reportFrequencyEnum = pgEnum('report_frequency', ['DAILY', 'WEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY']);
 export const reportFormatEnum = pgEnum('report_format', ['PDF', 'CSV', 'EXCEL']);
+export const reportDeliveryStatusEnum = pgEnum('report_delivery_status', ['PENDING', 'SENT', 'RETRYING', 'FAILED']);
+export const reportDeliveryMethodEnum = pgEnum('report_delivery_method', ['ATTACHMENT', 'LINK']);
+export const reportExportStatusEnum = pgEnum('report_export_status', ['QUEUED', 'PROCESSING', 'COMPLETED', 'FAILED', 'EXPIRED']);
+export const reportExportFormatEnum = pgEnum('report_export_format', ['CSV', 'EXCEL']);
 
 export const ukhdsExports = pgTable("ukhds_exports", {
   id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -126,6 +130,42 @@ export const generatedReports = pgTable("generated_reports", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const reportDeliveries = pgTable("report_deliveries", {
+  id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  organisationId: varchar("organisation_id").notNull(),
+  generatedReportId: varchar("generated_report_id").notNull(),
+  scheduledReportId: varchar("scheduled_report_id"),
+  recipient: text("recipient").notNull(),
+  status: reportDeliveryStatusEnum("status").notNull().default('PENDING'),
+  deliveryMethod: reportDeliveryMethodEnum("delivery_method"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  messageId: text("message_id"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const reportExports = pgTable("report_exports", {
+  id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  organisationId: varchar("organisation_id").notNull(),
+  requestedById: varchar("requested_by_id"),
+  reportType: text("report_type").notNull(),
+  format: reportExportFormatEnum("format").notNull(),
+  filters: json("filters").$type<Record<string, unknown>>(),
+  status: reportExportStatusEnum("status").notNull().default('QUEUED'),
+  totalRows: integer("total_rows"),
+  processedRows: integer("processed_rows").notNull().default(0),
+  storageKey: text("storage_key"),
+  fileSize: integer("file_size"),
+  errorMessage: text("error_message"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const widgetTypeEnum = pgEnum('widget_type', [
   'BAR_CHART', 'LINE_CHART', 'PIE_CHART', 'TREEMAP', 'TABLE', 'STAT_CARD', 'GAUGE', 'HEATMAP', 'TIMELINE'
 ]);
@@ -1,6 +1,7 @@
 import {
   organisations,
   users,
+  userMfaCredentials,
   staffMembers,
   sessions,
   accounts,
@@ -48,6 +49,7 @@ import {
   webhookEvents,
   webhookDeliveries,
   incomingWebhookLogs,
+  inboundWebhookSources,
   apiKeys,
   auditEvents,
   propertyRiskSnapshots,
@@ -67,6 +69,8 @@ import {
   scheduledReports,
   reportTemplates,
   generatedReports,
+  reportDeliveries,
+  reportExports,
   reportCanvases,
   canvasWidgets,
   mlModels,
@@ -109,6 +113,7 @@ import {
 
 export type Organisation = typeof organisations.$inferSelect;
 export type User = typeof users.$inferSelect;
+export type UserMfaCredential = typeof userMfaCredentials.$inferSelect;
 export type StaffMember = typeof staffMembers.$inferSelect;
 export type Session = typeof sessions.$inferSelect;
 export type Account = typeof accounts.$inferSelect;
@@ -156,6 +161,7 @@ export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
 export type WebhookEvent = typeof webhookEvents.$inferSelect;
 export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
 export type IncomingWebhookLog = typeof incomingWebhookLogs.$inferSelect;
+export type InboundWebhookSource = typeof inboundWebhookSources.$inferSelect;
 export type ApiKey = typeof apiKeys.$inferSelect;
 export type AuditEvent = typeof auditEvents.$inferSelect;
 export type PropertyRiskSnapshot = typeof propertyRiskSnapshots.$inferSelect;
@@ -175,6 +181,8 @@ export type ComplianceCalendarEvent = typeof complianceCalendarEvents.$inferSele
 export type ScheduledReport = typeof scheduledReports.$inferSelect;
 export type ReportTemplate = typeof reportTemplates.$inferSelect;
 export type GeneratedReport = typeof generatedReports.$inferSelect;
+export type ReportDelivery = typeof reportDeliveries.$inferSelect;
+export type ReportExport = typeof reportExports.$inferSelect;
 export type ReportCanvas = typeof reportCanvases.$inferSelect;
 export type CanvasWidget = typeof canvasWidgets.$inferSelect;
 export type MlModel = typeof mlModels.$inferSelect;
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// A two-tenant fake database. Each query returns one row per organisation it is
+// scoped to - an unscoped query sees both tenants, exactly like a real table.
+const fakeDb = vi.hoisted(() => {
+  const TENANTS: Record<string, { address: string; postcode: string }> = {
+    'org-a': { address: '1 Alpha Street', postcode: 'AA1 1AA' },
+    'org-b': { address: '9 Bravo Road', postcode: 'BB9 9BB' },
+  };
+  const queries: Array<{ sql: string; params: unknown[] }> = [];
+
+  function tenantsFor(params: unknown[]): string[] {
+    const scoped = Object.keys(TENANTS).filter((org) =>
+      params.some((p) => typeof p === 'string' && (p === org || p.endsWith(`-${org}`)))
+    );
+    return scoped.length > 0 ? scoped : Object.keys(TENANTS);
+  }
+
+  function columnValue(table: string, column: string, org: string): unknown {
+    const tenant = TENANTS[org];
+    switch (column) {
+      case 'id': return `${table}-${org}`;
+      case 'property_id': return `properties-${org}`;
+      case 'address_line1': return tenant.address;
+      case 'postcode': return tenant.postcode;
+      case 'city': return 'Leeds';
+      case 'name': return table === 'component_types' ? 'Boiler' : `${tenant.address} Block`;
+      case 'certificate_type': return 'GAS_SAFETY';
+      case 'status': return 'OPEN';
+      case 'compliance_status': return 'NON_COMPLIANT';
+      case 'severity': return 'URGENT';
+      case 'description': return `Replace flue at ${tenant.address}`;
+      case 'expiry_date':
+      case 'due_date':
+      case 'next_inspection_due': return '2020-01-01';
+      default: return null;
+    }
+  }
+
+  function rawRow(org: string) {
+    const tenant = TENANTS[org];
+    return {
+      id: `row-${org}`,
+      certificateType: 'GAS_SAFETY',
+      expiryDate: '2020-01-01',
+      dueDate: '2020-01-01',
+      propertyId: `properties-${org}`,
+      propertyAddress: tenant.address,
+      propertyPostcode: tenant.postcode,
+      description: `Replace flue at ${tenant.address}`,
+      severity: 'URGENT',
+    };
+  }
+
+  async function client(sql: string, params: unknown[], method: 'all' | 'execute') {
+    queries.push({ sql, params });
+    const orgs = tenantsFor(params);
+
+    if (method === 'execute') {
+      const rows = /^\s*select/i.test(sql) ? orgs.map(rawRow) : [];
+      // db.execute() callers read `.rows` as they would from node-postgres
+      return { rows: { rows } as unknown as unknown[] };
+    }
+
+    const selectList = sql.slice(sql.indexOf('select ') + 7, sql.indexOf(' from "'));
+    const fromTable = sql.match(/ from "([^"]+)"/)?.[1] ?? '';
+    const fields = selectList.split(/,\s*(?=["a-z])/i);
+    return {
+      rows: orgs.map((org) => fields.map((field) => {
+        if (/^count\(/i.test(field)) return 1;
+        // Single-table selects leave columns unqualified
+        const match = field.match(/^"([^"]+)"\."([^"]+)"/) ?? field.match(/^()"([^"]+)"$/);
+        return match ? columnValue(match[1] || fromTable, match[2], org) : null;
+      })),
+    };
+  }
+
+  return { client, queries };
+});
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', async () => {
+  const { drizzle } = await import('drizzle-orm/pg-proxy');
+  return { db: drizzle(fakeDb.client as any) };
+});
+
+vi.mock('../server/services/cache-admin', () => ({
+  memoryCache: { getStats: () => ({ size: 0, hits: 0, misses: 0, evictions: 0 }) },
+}));
+
+vi.mock('../server/job-queue', () => ({
+  getQueueStats: vi.fn().mockResolvedValue({ ingestion: { queued: 3, active: 1 }, webhook: { queued: 0, active: 0 } }),
+  getScheduledJobsStatus: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = {
+      create: vi.fn().mockResolvedValue({
+        content: [{ type: 'text', text: 'LLM answer' }],
+        usage: { input_tokens: 1, output_tokens: 1 },
+      }),
+    };
+  },
+}));
+
+import { getQueueStats } from '../server/job-queue';
+import { chatWithAssistant, type AssistantUserContext } from '../server/services/ai-assistant';
+
+const ORG_A_MANAGER: AssistantUserContext = { organisationId: 'org-a', role: 'COMPLIANCE_MANAGER' };
+
+async function ask(question: string, context: AssistantUserContext = ORG_A_MANAGER) {
+  return chatWithAssistant([{ role: 'user', content: question }], context);
+}
+
+describe('AI assistant organisation scoping', () => {
+  beforeEach(() => {
+    fakeDb.queries.length = 0;
+    vi.clearAllMocks();
+  });
+
+  it.each([
+    ['show my certificates pending review', 'Pending Review: 1'],
+    ['show certificates expiring soon', 'Alpha'],
+    ['show certificates that have expired', 'Alpha'],
+    ['show overdue remedial actions', 'Alpha'],
+    ['which properties have issues', 'Alpha'],
+    ['show components needing inspection', 'AA1 1AA'],
+    ["what's due this week", 'Alpha'],
+    ['search for Alpha Street', 'Alpha'],
+  ])('should only answer "%s" from the user\'s organisation', async (question, expected) => {
+    const result = await ask(question);
+
+    expect(result.success).toBe(true);
+    expect(result.message).toContain(expected);
+    expect(result.message).not.toMatch(/Bravo|BB9|org-b/);
+  });
+
+  it('should scope every data query it issues', async () => {
+    await ask('which properties have issues');
+
+    const dataQueries = fakeDb.queries.filter((q) => / from "(properties|certificates|remedial_actions|components)"/.test(q.sql));
+    expect(dataQueries.length).toBeGreaterThan(0);
+    for (const query of dataQueries) {
+      expect(query.params.some((p) => typeof p === 'string' && p.endsWith('org-a'))).toBe(true);
+    }
+  });
+
+  it('should give each organisation its own answer to the same question', async () => {
+    const result = await ask('show overdue remedial actions', { organisationId: 'org-b', role: 'VIEWER' });
+
+    expect(result.message).toContain('Bravo');
+    expect(result.message).not.toContain('Alpha');
+  });
+
+  it('should limit system health answers to admin roles', async () => {
+    const denied = await ask('system health check');
+    expect(denied.message).toContain('only available to administrators');
+    expect(getQueueStats).not.toHaveBeenCalled();
+
+    const allowed = await ask('system health check', { organisationId: 'org-a', role: 'SYSTEM_ADMIN' });
+    expect(allowed.message).toContain('System Status');
+    expect(getQueueStats).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const dbState = vi.hoisted(() => ({
+  records: [] as unknown[],
+  events: [] as unknown[],
+}));
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', async () => {
+  const schema = await import('@shared/schema');
+  return {
+    db: {
+      select: () => ({
+        from: (table: unknown) => ({
+          where: () => Promise.resolve(table === schema.complianceCalendarEvents ? dbState.events : dbState.records),
+        }),
+      }),
+    },
+  };
+});
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    createCalendarEvent: vi.fn(async (event) => ({ id: 'event-1', ...event })),
+    listRemedialActions: vi.fn(),
+    createRemedialAction: vi.fn(async (action) => ({ id: 'action-1', ...action })),
+    getRemedialAction: vi.fn(),
+  },
+}));
+
+import { storage } from '../server/storage';
+import {
+  HIGH_RISK_REMEDIAL_CODE,
+  assessAsbestosRecord,
+  buildAsbestosRegisterEntries,
+  checkRefurbishmentSurveyRequired,
+  findRefurbishmentSurveyGaps,
+  getAssignmentRooms,
+  syncAsbestosRegister,
+} from '../server/services/asbestos-register';
+import type { AsbestosSurveyRecord } from '@shared/schema';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+function makeRecord(overrides: Partial<AsbestosSurveyRecord> = {}): AsbestosSurveyRecord {
+  return {
+    id: 'record-1',
+    certificateId: 'cert-1',
+    propertyId: 'property-1',
+    blockId: null,
+    componentId: null,
+    surveyType: 'Management Survey',
+    surveyDate: '2025-01-20',
+    surveyorName: 'Jo Surveyor',
+    surveyorQualification: null,
+    surveyCompany: null,
+    accreditationNumber: null,
+    location: 'Kitchen',
+    roomDescription: null,
+    materialType: 'Textured coating',
+    materialDescription: null,
+    asbestosType: 'chrysotile',
+    sampleTaken: true,
+    sampleReference: 'S01',
+    labResult: null,
+    condition: 'GOOD',
+    surfaceTreatment: null,
+    accessibilityScore: null,
+    damageScore: null,
+    materialScore: 5,
+    totalRiskScore: null,
+    riskCategory: null,
+    recommendedAction: 'Manage in situ',
+    managementPlan: null,
+    reinspectionDate: null,
+    metadata: null,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('Asbestos register', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dbState.records = [];
+    dbState.events = [];
+    mockStorage.listRemedialActions.mockResolvedValue([]);
+  });
+
+  describe('assessAsbestosRecord', () => {
+    it('should total the HSG264 material and priority breakdowns', () => {
+      const assessment = assessAsbestosRecord(makeRecord({
+        materialScore: 4,
+        metadata: {
+          materialAssessment: { productType: 3, damage: 2, surfaceTreatment: 3, asbestosType: 3 },
+          priorityAssessment: { occupantActivity: 2, likelihoodOfDisturbance: 3, humanExposurePotential: 2, maintenanceActivity: 1 },
+        },
+      }));
+
+      expect(assessment).toEqual({ materialScore: 11, priorityScore: 8, totalRiskScore: 19, riskBand: 'HIGH' });
+    });
+
+    it('should band on material alone without a priority assessment', () => {
+      expect(assessAsbestosRecord(makeRecord({ materialScore: 7 }))).toMatchObject({ totalRiskScore: null, riskBand: 'MEDIUM' });
+      expect(assessAsbestosRecord(makeRecord({ materialScore: 11, accessibilityScore: 1, totalRiskScore: 12 })))
+        .toEqual({ materialScore: 11, priorityScore: null, totalRiskScore: 12, riskBand: 'HIGH' });
+    });
+  });
+
+  describe('buildAsbestosRegisterEntries', () => {
+    it('should keep the latest survey per location and material with history', () => {
+      const entries = buildAsbestosRegisterEntries([
+        makeRecord({ id: 'old', surveyDate: '2023-01-10', condition: 'GOOD' }),
+        makeRecord({ id: 'new', surveyDate: '2025-01-20', condition: 'POOR', location: 'kitchen ' }),
+        makeRecord({ id: 'loft', location: 'Loft', materialType: 'Pipe lagging', labResult: 'NADIS' }),
+      ]);
+
+      expect(entries).toHaveLength(2);
+      const kitchen = entries.find(entry => entry.materialType === 'Textured coating')!;
+      expect(kitchen).toMatchObject({ latestRecordId: 'new', condition: 'POOR', reinspectionDate: '2026-01-20', containsAsbestos: true });
+      expect(kitchen.history.map(item => item.recordId)).toEqual(['new', 'old']);
+      expect(entries.find(entry => entry.location === 'Loft')).toMatchObject({ containsAsbestos: false, reinspectionDate: null });
+    });
+
+    it('should flag rooms without a refurbishment survey', () => {
+      const entries = buildAsbestosRegisterEntries([
+        makeRecord({ id: 'kitchen' }),
+        makeRecord({ id: 'bathroom', location: 'Bathroom' }),
+        makeRecord({ id: 'bathroom-rd', location: 'Bathroom', materialType: 'Floor tiles', surveyType: 'Refurbishment Survey' }),
+      ]);
+
+      const gaps = findRefurbishmentSurveyGaps(entries, ['Kitchen ceiling', 'Bathroom']);
+      expect(gaps.map(entry => entry.latestRecordId)).toEqual(['kitchen']);
+    });
+  });
+
+  describe('syncAsbestosRegister', () => {
+    it('should schedule reinspections and raise actions for high-risk items once', async () => {
+      dbState.records = [
+        makeRecord({ id: 'high', location: 'Boiler cupboard', materialType: 'AIB panel', materialScore: 11, reinspectionDate: '2025-07-01' }),
+        makeRecord({ id: 'low', location: 'Hall', materialScore: 4 }),
+      ];
+      dbState.events = [
+        { title: 'Asbestos reinspection: Textured coating - Hall', propertyId: 'property-1', startDate: new Date('2026-01-20T00:00:00Z') },
+      ];
+
+      const result = await syncAsbestosRegister('org-1', { propertyId: 'property-1' }, NOW);
+
+      expect(result).toEqual({ entries: 2, reinspectionsScheduled: 1, remedialActionsCreated: 1 });
+      expect(mockStorage.createCalendarEvent).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Asbestos reinspection: AIB panel - Boiler cupboard',
+        eventType: 'INSPECTION',
+        startDate: new Date('2025-07-01T00:00:00Z'),
+        priority: 'HIGH',
+        isSystemGenerated: true,
+      }));
+      expect(mockStorage.createRemedialAction).toHaveBeenCalledWith(expect.objectContaining({
+        code: HIGH_RISK_REMEDIAL_CODE,
+        location: 'Boiler cupboard',
+        severity: 'URGENT',
+        dueDate: '2025-06-08',
+      }));
+    });
+
+    it('should not raise a second action for an item already being dealt with', async () => {
+      dbState.records = [makeRecord({ location: 'Boiler cupboard', materialScore: 11, certificateId: 'cert-resurvey' })];
+      mockStorage.listRemedialActions.mockResolvedValue([{
+        code: HIGH_RISK_REMEDIAL_CODE,
+        location: 'Boiler Cupboard',
+        description: 'High-risk asbestos (Textured coating) at Boiler cupboard: remove',
+        status: 'IN_PROGRESS',
+        createdAt: new Date('2024-03-01'),
+      }]);
+
+      const result = await syncAsbestosRegister('org-1', { propertyId: 'property-1' }, NOW);
+
+      expect(result.remedialActionsCreated).toBe(0);
+      expect(mockStorage.listRemedialActions).toHaveBeenCalledWith('org-1', { propertyId: 'property-1' });
+    });
+
+    it('should raise an action per item and again after a resurvey of a completed item', async () => {
+      dbState.records = [
+        makeRecord({ id: 'coating', location: 'Boiler cupboard', materialScore: 11 }),
+        makeRecord({ id: 'panel', location: 'Boiler cupboard', materialType: 'AIB panel', materialScore: 11 }),
+      ];
+      mockStorage.listRemedialActions.mockResolvedValue([{
+        code: HIGH_RISK_REMEDIAL_CODE,
+        location: 'Boiler cupboard',
+        description: 'High-risk asbestos (Textured coating) at Boiler cupboard: remove',
+        status: 'COMPLETED',
+        createdAt: new Date('2024-03-01'),
+      }]);
+
+      const result = await syncAsbestosRegister('org-1', { propertyId: 'property-1' }, NOW);
+
+      expect(result.remedialActionsCreated).toBe(2);
+    });
+  });
+
+  describe('checkRefurbishmentSurveyRequired', () => {
+    it('should warn about work in rooms with unsurveyed asbestos', async () => {
+      dbState.records = [makeRecord()];
+      mockStorage.getRemedialAction.mockResolvedValue({ location: 'Kitchen' });
+
+      const rooms = await getAssignmentRooms({ remedialActionId: 'action-1', metadata: null });
+      const warning = await checkRefurbishmentSurveyRequired({ propertyId: 'property-1' }, rooms);
+
+      expect(warning).toMatchObject({ code: 'REFURBISHMENT_SURVEY_REQUIRED', locations: ['Kitchen'] });
+      expect(await checkRefurbishmentSurveyRequired({ propertyId: 'property-1' }, ['Garden'])).toBeNull();
+      expect(await checkRefurbishmentSurveyRequired({ propertyId: 'property-1' }, [])).toBeNull();
+    });
+  });
+});
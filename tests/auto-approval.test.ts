@@ -0,0 +1,276 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const dbState = vi.hoisted(() => ({
+  thresholds: [] as any[],
+  fieldRows: [] as any[],
+  reviewRows: [] as any[],
+  scores: [] as any[],
+  inserts: [] as Array<{ table: string; values: any }>,
+  updates: [] as Array<{ table: string; values: any }>,
+}));
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/services/certificate-detail-records', () => ({
+  populateCertificateDetailRecords: vi.fn(async () => ({ asbestosItems: 0 })),
+}));
+
+vi.mock('../server/services/asbestos-register', () => ({
+  syncAsbestosRegister: vi.fn(),
+}));
+
+vi.mock('../server/services/compliance-rules-engine', () => ({
+  evaluatePropertyComplianceRules: vi.fn(async () => null),
+}));
+
+vi.mock('../server/db', async () => {
+  const { getTableName } = await import('drizzle-orm');
+  const chain = (rows: () => any[]): any => ({
+    then: (resolve: any, reject: any) => Promise.resolve().then(rows).then(resolve, reject),
+    where: () => chain(rows),
+  });
+  const rowsFor = (table: any) => {
+    const name = getTableName(table);
+    if (name === 'auto_approval_thresholds') return dbState.thresholds;
+    if (name === 'field_confidence_scores') return dbState.scores;
+    return [];
+  };
+  return {
+    db: {
+      select: () => ({
+        from: (table: any) => ({
+          ...chain(() => rowsFor(table)),
+          innerJoin: () => chain(() => getTableName(table) === 'field_confidence_scores' ? dbState.fieldRows : dbState.reviewRows),
+        }),
+      }),
+      insert: (table: any) => ({
+        values: (values: any) => {
+          dbState.inserts.push({ table: getTableName(table), values });
+          return Object.assign(Promise.resolve(), {
+            returning: () => Promise.resolve([{ id: `new-${dbState.inserts.length}`, requiredSampleSize: 100, isEnabled: false, ...values }]),
+          });
+        },
+      }),
+      update: (table: any) => ({
+        set: (values: any) => ({
+          where: () => {
+            dbState.updates.push({ table: getTableName(table), values });
+            return Promise.resolve();
+          },
+        }),
+      }),
+    },
+  };
+});
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getFactorySettingValue: vi.fn(async () => ''),
+    getCertificate: vi.fn(),
+  },
+}));
+
+import { storage } from '../server/storage';
+import {
+  clearAutoApprovalPolicyCache,
+  deriveFieldConfidences,
+  evaluateRunForAutoApproval,
+  recomputeAutoApprovalThresholds,
+  recordReviewCorrections,
+} from '../server/services/auto-approval';
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+function threshold(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'threshold-gas',
+    organisationId: null,
+    certificateType: 'GAS',
+    fieldName: null,
+    minConfidenceThreshold: 0.9,
+    requiredSampleSize: 100,
+    currentSampleSize: 0,
+    currentAccuracy: null,
+    isEnabled: true,
+    lastEvaluatedAt: null,
+    ...overrides,
+  };
+}
+
+function normalisedOutput(overrides: Record<string, unknown> = {}) {
+  return {
+    property: { address_line_1: '1 High Street', city: 'Leeds', postcode: 'LS1 1AA' },
+    inspection: { date: '2025-03-01', next_due_date: '2026-03-01', outcome: 'PASS', certificate_number: 'GS-1', ...overrides },
+  };
+}
+
+function runParams(output = normalisedOutput(), confidence = 0.95) {
+  return {
+    extractionRunId: 'run-1',
+    organisationId: 'org-1',
+    documentType: 'GAS',
+    normalisedOutput: output,
+    confidence,
+  };
+}
+
+function reviewedFields(count: number, corrected: number, fieldName = 'inspection.date') {
+  return Array.from({ length: count }, (_, i) => ({
+    organisationId: 'org-1',
+    extractionRunId: `run-${i}`,
+    certificateType: 'GAS',
+    fieldName,
+    wasCorrected: i < corrected,
+  }));
+}
+
+function reviewedRuns(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    organisationId: 'org-1',
+    extractionRunId: `run-${i}`,
+    certificateType: 'GAS',
+    wasCorrect: true,
+  }));
+}
+
+describe('Auto-approval', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearAutoApprovalPolicyCache();
+    mockStorage.getFactorySettingValue.mockResolvedValue('');
+    dbState.thresholds = [];
+    dbState.fieldRows = [];
+    dbState.reviewRows = [];
+    dbState.scores = [];
+    dbState.inserts = [];
+    dbState.updates = [];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('scores missing fields at zero and present fields at the run confidence', () => {
+    const fields = deriveFieldConfidences(normalisedOutput({ outcome: '' }), 0.92, ['inspection.outcome', 'inspection.certificate_number']);
+
+    expect(fields).toEqual([
+      { fieldName: 'inspection.outcome', confidence: 0, extractedValue: null },
+      { fieldName: 'inspection.certificate_number', confidence: 0.92, extractedValue: 'GS-1' },
+    ]);
+  });
+
+  it('approves a run when every required field clears an enabled threshold', async () => {
+    dbState.thresholds = [threshold()];
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    const decision = await evaluateRunForAutoApproval(runParams());
+
+    expect(decision).toMatchObject({ autoApproved: true, auditSampled: false });
+    expect(dbState.inserts[0]).toMatchObject({ table: 'field_confidence_scores' });
+    expect(dbState.inserts[0].values).toHaveLength(5);
+    expect(dbState.updates).toEqual([{
+      table: 'extraction_runs',
+      values: expect.objectContaining({ status: 'APPROVED', autoApproved: true, finalOutput: runParams().normalisedOutput }),
+    }]);
+  });
+
+  it('holds a random audit sample of eligible runs for human review', async () => {
+    dbState.thresholds = [threshold()];
+    vi.spyOn(Math, 'random').mockReturnValue(0.05);
+
+    const decision = await evaluateRunForAutoApproval(runParams());
+
+    expect(decision).toMatchObject({ autoApproved: false, auditSampled: true });
+    expect(dbState.updates[0].values).toMatchObject({ auditSampled: true });
+    expect(dbState.updates[0].values.status).toBeUndefined();
+  });
+
+  it('leaves runs for review while the certificate type threshold is not yet enabled', async () => {
+    dbState.thresholds = [threshold({ isEnabled: false, currentSampleSize: 40 })];
+
+    const decision = await evaluateRunForAutoApproval(runParams());
+
+    expect(decision.autoApproved).toBe(false);
+    expect(decision.eligibility.reason).toContain('40/100');
+    expect(dbState.updates).toHaveLength(0);
+  });
+
+  it('blocks approval when a required field is missing or its own threshold is disabled or stricter', async () => {
+    dbState.thresholds = [
+      threshold(),
+      threshold({ id: 't-outcome', fieldName: 'inspection.outcome', isEnabled: false }),
+      threshold({ id: 't-date', fieldName: 'inspection.date', minConfidenceThreshold: 0.97 }),
+    ];
+
+    const decision = await evaluateRunForAutoApproval(runParams(normalisedOutput({ certificate_number: '' })));
+
+    expect(decision.autoApproved).toBe(false);
+    expect(decision.eligibility.fieldsBelowThreshold.sort()).toEqual([
+      'inspection.certificate_number',
+      'inspection.date',
+      'inspection.outcome',
+    ]);
+  });
+
+  it('prefers an organisation threshold over the global one', async () => {
+    dbState.thresholds = [threshold(), threshold({ id: 'threshold-org', organisationId: 'org-1', isEnabled: false })];
+
+    const decision = await evaluateRunForAutoApproval(runParams());
+
+    expect(decision.autoApproved).toBe(false);
+  });
+
+  it('enables thresholds that reach their sample size at the required accuracy', async () => {
+    dbState.fieldRows = reviewedFields(100, 1);
+    dbState.reviewRows = reviewedRuns(100);
+    dbState.thresholds = [threshold({ isEnabled: false })];
+
+    const result = await recomputeAutoApprovalThresholds(new Date('2025-06-01'));
+
+    expect(result).toEqual({ evaluated: 2, created: 1, enabled: 2, disabled: 0 });
+    expect(dbState.inserts[0].values).toEqual({ organisationId: null, certificateType: 'GAS', fieldName: 'inspection.date' });
+    expect(dbState.updates[0].values).toMatchObject({ currentSampleSize: 100, currentAccuracy: 0.99, isEnabled: true });
+    expect(dbState.updates[1].values).toMatchObject({ currentSampleSize: 100, currentAccuracy: 0.99, isEnabled: true });
+  });
+
+  it('disables thresholds whose accuracy drops or that have too few samples', async () => {
+    dbState.fieldRows = reviewedFields(150, 15);
+    dbState.reviewRows = reviewedRuns(150);
+    dbState.thresholds = [
+      threshold(),
+      threshold({ id: 't-date', fieldName: 'inspection.date' }),
+      threshold({ id: 't-org', organisationId: 'org-2' }),
+    ];
+
+    const result = await recomputeAutoApprovalThresholds(new Date('2025-06-01'));
+
+    expect(result).toEqual({ evaluated: 3, created: 0, enabled: 0, disabled: 3 });
+    expect(dbState.updates.map(u => [u.values.currentSampleSize, u.values.currentAccuracy, u.values.isEnabled])).toEqual([
+      [150, 0.9, false],
+      [150, 0.9, false],
+      [0, null, false],
+    ]);
+  });
+
+  it('marks fields changed during review as corrected', async () => {
+    dbState.scores = [
+      { fieldName: 'inspection.outcome', extractedValue: 'PASS' },
+      { fieldName: 'inspection.date', extractedValue: '2025-03-01' },
+    ];
+
+    const corrections = await recordReviewCorrections('run-1', normalisedOutput({ outcome: 'FAIL' }));
+
+    expect(corrections).toBe(1);
+    expect(dbState.updates).toEqual([{
+      table: 'field_confidence_scores',
+      values: expect.objectContaining({ wasCorrected: true, correctedValue: 'FAIL' }),
+    }]);
+  });
+});
@@ -0,0 +1,278 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const dbState = vi.hoisted(() => ({
+  hazards: [] as any[],
+  alertLookups: [] as any[],
+  inserts: [] as any[],
+  updates: [] as Array<{ values: any; where: any }>,
+}));
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', async () => {
+  const { getTableName } = await import('drizzle-orm');
+  return {
+    db: {
+      select: () => ({
+        from: (table: any) => ({
+          where: (where: any) => {
+            if (getTableName(table) === 'hazard_cases') return Promise.resolve(dbState.hazards);
+            dbState.alertLookups.push(where);
+            return { limit: () => Promise.resolve([]) };
+          },
+        }),
+      }),
+      insert: () => ({
+        values: (values: any) => {
+          dbState.inserts.push(values);
+          return Promise.resolve();
+        },
+      }),
+      update: () => ({
+        set: (values: any) => ({
+          where: (where: any) => {
+            dbState.updates.push({ values, where });
+            return Promise.resolve();
+          },
+        }),
+      }),
+    },
+  };
+});
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getFactorySettingValue: vi.fn().mockResolvedValue(''),
+    updateHazardCase: vi.fn(async (id: string, updates: Record<string, unknown>) => ({ id, ...updates })),
+  },
+}));
+
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { storage } from '../server/storage';
+
+import {
+  addWorkingDays,
+  calculateHazardDeadlines,
+  determineRegime,
+  evaluateHazardBreach,
+  mergeClockConfig,
+  reconcileHazardBreach,
+  runHazardClockSweep,
+  DEFAULT_AWAABS_CLOCK_CONFIG,
+} from '../server/services/awaabs-law-clock';
+
+describe("Awaab's Law Clock Engine", () => {
+  // Monday 3 November 2025, 09:00 UTC
+  const reportedAt = new Date('2025-11-03T09:00:00Z');
+
+  describe('addWorkingDays', () => {
+    it('should skip weekends', () => {
+      const friday = new Date('2025-11-07T09:00:00Z');
+      expect(addWorkingDays(friday, 1).toISOString()).toBe('2025-11-10T09:00:00.000Z');
+    });
+
+    it('should count ten working days as two calendar weeks', () => {
+      expect(addWorkingDays(reportedAt, 10).toISOString()).toBe('2025-11-17T09:00:00.000Z');
+    });
+  });
+
+  describe('determineRegime', () => {
+    it('should treat emergency severity as emergency regardless of category', () => {
+      expect(determineRegime({ reportedAt, severity: 'EMERGENCY', category: 'OTHER' })).toBe('EMERGENCY');
+    });
+
+    it('should treat serious damp as a significant hazard', () => {
+      expect(determineRegime({ reportedAt, severity: 'SERIOUS', category: 'DAMP' })).toBe('SIGNIFICANT');
+    });
+
+    it('should uplift moderate mould to significant when occupants are vulnerable', () => {
+      expect(determineRegime({ reportedAt, severity: 'MODERATE', category: 'MOULD', hasVulnerableOccupants: true })).toBe('SIGNIFICANT');
+      expect(determineRegime({ reportedAt, severity: 'MODERATE', category: 'MOULD', hasVulnerableOccupants: false })).toBe('STANDARD');
+    });
+
+    it('should not uplift when the uplift is disabled', () => {
+      const config = mergeClockConfig({ vulnerableOccupantUplift: false });
+      expect(determineRegime({ reportedAt, severity: 'MODERATE', category: 'MOULD', hasVulnerableOccupants: true }, config)).toBe('STANDARD');
+    });
+
+    it('should treat serious hazards outside statutory categories as standard', () => {
+      expect(determineRegime({ reportedAt, severity: 'SERIOUS', category: 'OTHER' })).toBe('STANDARD');
+    });
+  });
+
+  describe('calculateHazardDeadlines', () => {
+    it('should give emergency hazards 24 hour clocks', () => {
+      const deadlines = calculateHazardDeadlines({ reportedAt, severity: 'EMERGENCY', category: 'DAMP' });
+      expect(deadlines.initialInspectionDue.toISOString()).toBe('2025-11-04T09:00:00.000Z');
+      expect(deadlines.worksStartDue.toISOString()).toBe('2025-11-04T09:00:00.000Z');
+      expect(deadlines.worksCompletionDue.toISOString()).toBe('2025-11-04T09:00:00.000Z');
+    });
+
+    it('should chain significant hazard clocks from the inspection due date', () => {
+      const deadlines = calculateHazardDeadlines({ reportedAt, severity: 'SERIOUS', category: 'MOULD' });
+      expect(deadlines.initialInspectionDue.toISOString()).toBe('2025-11-17T09:00:00.000Z');
+      expect(deadlines.worksStartDue.toISOString()).toBe('2025-11-27T09:00:00.000Z');
+    });
+
+    it('should re-anchor the works clock on the actual inspection date', () => {
+      const deadlines = calculateHazardDeadlines({
+        reportedAt,
+        severity: 'SERIOUS',
+        category: 'MOULD',
+        initialInspectionAt: '2025-11-05T09:00:00Z',
+      });
+      expect(deadlines.worksStartDue.toISOString()).toBe('2025-11-17T09:00:00.000Z');
+    });
+
+    it('should apply configured overrides', () => {
+      const config = mergeClockConfig({ significant: { initialInspectionWorkingDays: 5 } });
+      const deadlines = calculateHazardDeadlines({ reportedAt, severity: 'SERIOUS', category: 'DAMP' }, config);
+      expect(deadlines.initialInspectionDue.toISOString()).toBe('2025-11-10T09:00:00.000Z');
+      expect(config.significant.worksStartWorkingDays).toBe(DEFAULT_AWAABS_CLOCK_CONFIG.significant.worksStartWorkingDays);
+    });
+  });
+
+  describe('evaluateHazardBreach', () => {
+    const deadlines = {
+      initialInspectionDue: new Date('2025-11-17T09:00:00Z'),
+      initialInspectionAt: null,
+      worksStartDue: new Date('2025-11-27T09:00:00Z'),
+      worksStartedAt: null,
+      worksCompletionDue: new Date('2026-02-19T09:00:00Z'),
+      worksCompletedAt: null,
+    };
+
+    it('should report no breach before the first deadline', () => {
+      const result = evaluateHazardBreach(deadlines, new Date('2025-11-10T09:00:00Z'));
+      expect(result.breached).toBe(false);
+      expect(result.escalationLevel).toBe(0);
+    });
+
+    it('should flag a missed initial inspection', () => {
+      const result = evaluateHazardBreach(deadlines, new Date('2025-11-17T10:00:00Z'));
+      expect(result.breached).toBe(true);
+      expect(result.breachType).toBe('INITIAL_INSPECTION');
+      expect(result.escalationLevel).toBe(1);
+    });
+
+    it('should escalate the longer a clock stays overdue', () => {
+      const result = evaluateHazardBreach(deadlines, new Date('2025-11-21T10:00:00Z'));
+      expect(result.escalationLevel).toBe(3);
+    });
+
+    it('should prefer an outstanding breach over a historical one', () => {
+      const result = evaluateHazardBreach(
+        { ...deadlines, initialInspectionAt: new Date('2025-11-18T09:00:00Z') },
+        new Date('2025-11-28T09:00:00Z')
+      );
+      expect(result.breachType).toBe('WORKS_START');
+    });
+
+    it('should keep a clock that was met late as a breach', () => {
+      const result = evaluateHazardBreach(
+        { ...deadlines, initialInspectionAt: new Date('2025-11-18T09:00:00Z') },
+        new Date('2025-11-19T09:00:00Z')
+      );
+      expect(result.breached).toBe(true);
+      expect(result.breachType).toBe('INITIAL_INSPECTION');
+      expect(result.escalationLevel).toBe(1);
+    });
+  });
+
+  describe('breach state', () => {
+    const dialect = new PgDialect();
+    const toSql = (where: any) => dialect.sqlToQuery(where).sql;
+
+    const breachedCase = {
+      id: 'case-1',
+      caseReference: 'HZ-001',
+      organisationId: 'org-1',
+      propertyId: 'property-1',
+      status: 'INVESTIGATING',
+      severity: 'SERIOUS',
+      category: 'DAMP',
+      hasVulnerableOccupants: false,
+      reportedAt,
+      initialInspectionDue: new Date('2025-11-17T09:00:00Z'),
+      initialInspectionAt: null,
+      worksStartDue: new Date('2025-11-27T09:00:00Z'),
+      worksStartedAt: null,
+      worksCompletionDue: new Date('2026-02-19T09:00:00Z'),
+      worksCompletedAt: null,
+      slaBreach: true,
+      slaBreachType: 'INITIAL_INSPECTION',
+      slaBreachAt: new Date('2025-11-17T09:00:00Z'),
+      escalationLevel: 1,
+    } as any;
+
+    beforeEach(() => {
+      vi.mocked(storage.updateHazardCase).mockClear();
+      dbState.hazards = [];
+      dbState.alertLookups = [];
+      dbState.inserts = [];
+      dbState.updates = [];
+    });
+
+    it('should look up open breach alerts by hazard case rather than property', async () => {
+      dbState.hazards = [{ ...breachedCase, slaBreach: false, slaBreachType: null, slaBreachAt: null, escalationLevel: 0 }];
+
+      const result = await runHazardClockSweep(new Date('2025-11-18T09:00:00Z'));
+
+      expect(result).toEqual({ checked: 1, newlyBreached: 1, escalated: 0 });
+      expect(toSql(dbState.alertLookups[0])).toContain(`->>'hazardCaseId'`);
+      expect(toSql(dbState.alertLookups[0])).not.toContain('property_id');
+      expect(dbState.inserts[0]).toMatchObject({ alertType: 'AWAABS_LAW_INITIAL_INSPECTION_BREACH', metadata: { hazardCaseId: 'case-1' } });
+    });
+
+    it('should keep the breach record and resolve its alerts when the case is closed', async () => {
+      const closed = { ...breachedCase, status: 'CLOSED' };
+
+      const result = await reconcileHazardBreach(closed, new Date('2025-11-18T09:00:00Z'));
+
+      expect(result).toBe(closed);
+      expect(storage.updateHazardCase).not.toHaveBeenCalled();
+      expect(dbState.updates).toHaveLength(1);
+      expect(dbState.updates[0].values).toMatchObject({ status: 'RESOLVED', resolutionNotes: 'Hazard case HZ-001 closed' });
+      expect(toSql(dbState.updates[0].where)).toContain(`->>'hazardCaseId'`);
+    });
+
+    it('should keep the breach record when the deadlines are re-timed past now', async () => {
+      const retimed = { ...breachedCase, initialInspectionDue: new Date('2025-12-01T09:00:00Z') };
+
+      await reconcileHazardBreach(retimed, new Date('2025-11-18T09:00:00Z'));
+
+      expect(storage.updateHazardCase).not.toHaveBeenCalled();
+      expect(dbState.updates).toHaveLength(1);
+      expect(dbState.updates[0].values).toMatchObject({ resolutionNotes: 'Hazard case HZ-001 deadlines are no longer missed' });
+    });
+
+    it('should raise a fresh alert when a re-timed clock is missed again', async () => {
+      dbState.hazards = [{ ...breachedCase, initialInspectionDue: new Date('2025-12-01T09:00:00Z') }];
+
+      const result = await runHazardClockSweep(new Date('2025-12-02T09:00:00Z'));
+
+      expect(result.newlyBreached).toBe(1);
+      expect(storage.updateHazardCase).toHaveBeenCalledWith('case-1', expect.objectContaining({
+        slaBreach: true,
+        slaBreachType: 'INITIAL_INSPECTION',
+        slaBreachAt: new Date('2025-12-01T09:00:00Z'),
+      }));
+      expect(dbState.inserts[0]).toMatchObject({ alertType: 'AWAABS_LAW_INITIAL_INSPECTION_BREACH' });
+    });
+
+    it('should leave a case that is still breached alone', async () => {
+      const result = await reconcileHazardBreach(breachedCase, new Date('2025-11-18T09:00:00Z'));
+
+      expect(result).toBe(breachedCase);
+      expect(storage.updateHazardCase).not.toHaveBeenCalled();
+      expect(dbState.updates).toHaveLength(0);
+    });
+  });
+});
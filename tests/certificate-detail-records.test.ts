@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', () => ({
+  db: {},
+}));
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    listComponents: vi.fn(),
+    replaceCertificateDetailRecords: vi.fn(async (_certificateId, records) => ({
+      gasAppliances: records.gasAppliances.length,
+      electricalCircuits: records.electricalCircuits.length,
+      fireSystems: records.fireSystems.length,
+      asbestosItems: records.asbestosItems.length,
+      waterTemperatures: records.waterTemperatures.length,
+    })),
+  },
+}));
+
+import { storage } from '../server/storage';
+import {
+  buildCertificateDetailRecords,
+  matchComponent,
+  normaliseResult,
+  populateCertificateDetailRecords,
+  toIsoDate,
+} from '../server/services/certificate-detail-records';
+import type { Certificate, Component } from '@shared/schema';
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+function makeComponent(overrides: Partial<Component> = {}): Component {
+  return {
+    id: 'component-1',
+    propertyId: 'property-1',
+    spaceId: null,
+    blockId: null,
+    componentTypeId: 'type-boiler',
+    assetTag: null,
+    serialNumber: null,
+    manufacturer: null,
+    model: null,
+    location: null,
+    accessNotes: null,
+    installDate: null,
+    expectedReplacementDate: null,
+    warrantyExpiry: null,
+    condition: null,
+    isActive: true,
+    source: 'MANUAL',
+    needsVerification: false,
+    lastInspectionDate: null,
+    nextInspectionDue: null,
+    complianceStatus: 'UNKNOWN',
+    certificateRequired: null,
+    riskLevel: null,
+    lastServiceDate: null,
+    nextServiceDue: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function makeCertificate(overrides: Partial<Certificate> = {}): Certificate {
+  return {
+    id: 'cert-1',
+    propertyId: 'property-1',
+    blockId: null,
+    certificateType: 'GAS_SAFETY',
+    issueDate: '2025-03-14',
+    ...overrides,
+  } as Certificate;
+}
+
+describe('Certificate detail records', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('normaliseResult', () => {
+    it('should map certificate vocabularies onto one set of results', () => {
+      expect(normaliseResult(true)).toBe('PASS');
+      expect(normaliseResult('Unsatisfactory')).toBe('FAIL');
+      expect(normaliseResult('UNSAFE')).toBe('FAIL');
+      expect(normaliseResult('Satisfactory')).toBe('PASS');
+      expect(normaliseResult('AT RISK')).toBe('AT_RISK');
+      expect(normaliseResult('ID')).toBe('IMMEDIATELY_DANGEROUS');
+      expect(normaliseResult('n/a')).toBe('N/A');
+      expect(normaliseResult(null)).toBeNull();
+    });
+
+    it('should read ISO and UK dates', () => {
+      expect(toIsoDate('2025-03-14T00:00:00Z')).toBe('2025-03-14');
+      expect(toIsoDate('4/3/2025')).toBe('2025-03-04');
+      expect(toIsoDate('next spring')).toBeNull();
+    });
+  });
+
+  describe('matchComponent', () => {
+    const boiler = makeComponent({ id: 'boiler', serialNumber: 'WB-123/45', location: 'Kitchen' });
+    const cooker = makeComponent({ id: 'cooker', location: 'Kitchen' });
+    const fire = makeComponent({ id: 'fire', location: 'Living Room' });
+
+    it('should prefer a serial number match', () => {
+      expect(matchComponent({ serialNumber: 'wb 12345', location: 'Loft' }, [boiler, cooker, fire]))
+        .toEqual({ componentId: 'boiler', matchedBy: 'SERIAL_NUMBER' });
+    });
+
+    it('should only match on location when it is unambiguous', () => {
+      expect(matchComponent({ location: 'living room' }, [boiler, cooker, fire]))
+        .toEqual({ componentId: 'fire', matchedBy: 'LOCATION' });
+      expect(matchComponent({ location: 'Kitchen' }, [boiler, cooker, fire])).toBeNull();
+    });
+  });
+
+  describe('buildCertificateDetailRecords', () => {
+    it('should map gas appliances from the raw extraction and link components', () => {
+      const boiler = makeComponent({ id: 'boiler', serialNumber: 'SN-1' });
+      const approvedOutput = {
+        inspection: { date: '2025-03-14' },
+        _raw: {
+          appliances: [
+            { location: 'Kitchen', type: 'Boiler', make: 'Worcester', model: 'Greenstar', serialNumber: 'SN-1', safetyDeviceCorrect: true, flueFlowSatisfactory: true, spillageTest: 'Fail', safetyStatus: 'AT RISK' },
+            { location: 'Lounge', type: 'Fire', applianceSafe: true },
+          ],
+        },
+      };
+
+      const records = buildCertificateDetailRecords(approvedOutput, makeCertificate(), [boiler], 'run-1');
+
+      expect(records.gasAppliances).toHaveLength(2);
+      expect(records.gasAppliances[0]).toMatchObject({
+        certificateId: 'cert-1',
+        propertyId: 'property-1',
+        componentId: 'boiler',
+        applianceType: 'Boiler',
+        manufacturer: 'Worcester',
+        safetyDeviceChecked: true,
+        flueFowTest: 'PASS',
+        spillageTest: 'FAIL',
+        applianceResult: 'AT_RISK',
+        metadata: { source: 'EXTRACTION', extractionRunId: 'run-1', componentMatchedBy: 'SERIAL_NUMBER' },
+      });
+      expect(records.gasAppliances[1]).toMatchObject({ componentId: null, applianceResult: 'PASS' });
+    });
+
+    it('should read orchestrator-shaped appliances with defects', () => {
+      const approvedOutput = {
+        appliances: [{ type: 'Cooker', make: null, model: null, serialNumber: null, location: 'Kitchen', outcome: 'FAIL', defects: ['No FSD', 'Loose hob'] }],
+      };
+
+      const [record] = buildCertificateDetailRecords(approvedOutput, makeCertificate(), []).gasAppliances;
+
+      expect(record).toMatchObject({ applianceResult: 'FAIL', defectsFound: 'No FSD; Loose hob' });
+    });
+
+    it('should not treat appliances on other certificate types as gas appliances', () => {
+      const records = buildCertificateDetailRecords({ appliances: [{ type: 'Kettle' }] }, makeCertificate({ certificateType: 'OTHER' }), []);
+
+      expect(records.gasAppliances).toEqual([]);
+    });
+
+    it('should map EICR circuit schedules and fail circuits carrying danger codes', () => {
+      const approvedOutput = {
+        _raw: {
+          circuitSchedule: [
+            { circuitNumber: '1', description: 'Ring final - sockets', ocpdRating: '32A', zs: '0.62', codes: ['c2'] },
+            { description: 'Lighting', result: 'Satisfactory' },
+          ],
+        },
+      };
+
+      const records = buildCertificateDetailRecords(approvedOutput, makeCertificate({ certificateType: 'EICR' }), []);
+
+      expect(records.electricalCircuits).toEqual([
+        expect.objectContaining({ circuitNumber: 1, fuseRating: '32A', earthFaultLoopImpedance: '0.62', observationCodes: ['C2'], result: 'FAIL' }),
+        expect.objectContaining({ circuitNumber: 2, circuitDescription: 'Lighting', result: 'PASS' }),
+      ]);
+    });
+
+    it('should map asbestos register items with survey details and risk bands', () => {
+      const approvedOutput = {
+        _raw: {
+          surveyType: 'Management Survey',
+          surveyDate: '2025-01-20',
+          surveyor: { name: 'Jo Surveyor', qualifications: 'P402' },
+          acmItems: [
+            { itemId: 'S01', location: 'Loft', material: 'Pipe lagging', asbestosType: 'amosite', condition: 'POOR', riskScore: 11, recommendation: 'remove' },
+          ],
+        },
+      };
+
+      const [record] = buildCertificateDetailRecords(approvedOutput, makeCertificate({ certificateType: 'ASBESTOS_SURVEY' }), []).asbestosItems;
+
+      expect(record).toMatchObject({
+        surveyType: 'Management Survey',
+        surveyDate: '2025-01-20',
+        surveyorName: 'Jo Surveyor',
+        materialType: 'Pipe lagging',
+        sampleTaken: true,
+        sampleReference: 'S01',
+        materialScore: 11,
+        riskCategory: 'HIGH',
+        recommendedAction: 'remove',
+      });
+    });
+
+    it('should check water temperatures against L8 limits', () => {
+      const approvedOutput = {
+        inspection: { date: '2025-02-01' },
+        _raw: {
+          temperatureReadings: [
+            { location: 'Bathroom basin', outletType: 'Sentinel', hotTemp: '46.5°C', coldTemp: 18 },
+            { location: 'Kitchen sink', hotTemp: 55, coldTemp: 12 },
+          ],
+        },
+      };
+
+      const records = buildCertificateDetailRecords(approvedOutput, makeCertificate({ certificateType: 'LEGIONELLA_ASSESSMENT' }), []).waterTemperatures;
+
+      expect(records[0]).toMatchObject({ hotWaterTemp: 46.5, hotWithinLimit: false, coldWithinLimit: true, flushingRequired: true });
+      expect(records[0].monitoringDate).toEqual(new Date('2025-02-01'));
+      expect(records[1]).toMatchObject({ outletType: 'Outlet', hotWithinLimit: true, flushingRequired: false });
+    });
+  });
+
+  describe('populateCertificateDetailRecords', () => {
+    it('should replace the certificate rows using property and block components', async () => {
+      mockStorage.listComponents
+        .mockResolvedValueOnce([makeComponent({ id: 'boiler', serialNumber: 'SN-1' })])
+        .mockResolvedValueOnce([makeComponent({ id: 'boiler', serialNumber: 'SN-1' })]);
+      const certificate = makeCertificate({ blockId: 'block-1' });
+
+      const counts = await populateCertificateDetailRecords(certificate, { appliances: [{ type: 'Boiler', serialNumber: 'SN-1' }] }, 'run-2');
+
+      expect(mockStorage.listComponents).toHaveBeenCalledWith({ blockId: 'block-1' });
+      expect(mockStorage.replaceCertificateDetailRecords).toHaveBeenCalledWith('cert-1', expect.objectContaining({
+        gasAppliances: [expect.objectContaining({ componentId: 'boiler' })],
+      }));
+      expect(counts.gasAppliances).toBe(1);
+    });
+  });
+});
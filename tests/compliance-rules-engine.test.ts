@@ -0,0 +1,412 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const dbState = vi.hoisted(() => ({
+  rules: [] as any[],
+  runs: [] as any[],
+  alerts: [] as any[],
+  events: [] as any[],
+  inserted: [] as any[],
+  updated: [] as any[],
+}));
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/webhook-worker', () => ({
+  enqueueWebhookEvent: vi.fn(),
+}));
+
+vi.mock('../server/db', async () => {
+  const { getTableName } = await import('drizzle-orm');
+  const rowsFor = (table: any) => {
+    const name = getTableName(table);
+    if (name === 'compliance_rules') return dbState.rules;
+    if (name === 'extraction_runs') return dbState.runs;
+    if (name === 'compliance_calendar_events') return dbState.events;
+    return dbState.alerts;
+  };
+  return {
+    db: {
+      select: () => ({
+        from: (table: any) => ({
+          where: () => {
+            const rows = Promise.resolve(rowsFor(table));
+            return Object.assign(rows, {
+              limit: () => Promise.resolve(rowsFor(table)),
+              orderBy: () => Promise.resolve(rowsFor(table)),
+            });
+          },
+        }),
+      }),
+      insert: () => ({
+        values: (values: any) => {
+          dbState.inserted.push(values);
+          return Promise.resolve();
+        },
+      }),
+      update: () => ({
+        set: (values: any) => ({
+          where: () => {
+            dbState.updated.push(values);
+            return Promise.resolve();
+          },
+        }),
+      }),
+    },
+  };
+});
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    listComponentTypes: vi.fn(async () => [
+      { id: 'type-boiler', code: 'GAS_BOILER' },
+      { id: 'type-alarm', code: 'FIRE_ALARM_PANEL' },
+    ]),
+    listCertificateTypes: vi.fn(async () => [{ code: 'FRAEW', name: 'External Wall Fire Risk Appraisal', shortName: 'FRAEW/EWS1' }]),
+    listOrganisations: vi.fn(async () => [{ id: 'org-1' }]),
+    listProperties: vi.fn(async () => []),
+    getProperty: vi.fn(),
+    getBlock: vi.fn(async (id: string) => ({ id, name: 'Tower A', hasLift: true, hasCommunalBoiler: false })),
+    getBuildingSafetyProfileByBlockId: vi.fn(async () => ({ isHRB: true, buildingHeight: 32, numberOfStoreys: 11, hasACM: false, hasHPL: false })),
+    listComponents: vi.fn(async () => []),
+    listCertificates: vi.fn(async () => []),
+    listRemedialActions: vi.fn(async () => []),
+    createRemedialAction: vi.fn(async (action) => ({ id: 'action-1', ...action })),
+    createCalendarEvent: vi.fn(async (event) => ({ id: 'event-1', ...event })),
+  },
+}));
+
+import { storage } from '../server/storage';
+import { logger } from '../server/logger';
+import {
+  COMPLIANCE_RULE_ALERT_TYPE,
+  buildAssetFacts,
+  dryRunComplianceRule,
+  evaluatePropertyComplianceRules,
+  evaluateRule,
+  resolveCertificateDocumentType,
+  runComplianceRulesSweep,
+  type ComplianceRuleDefinition,
+  type RuleCertificate,
+  type RuleContext,
+} from '../server/services/compliance-rules-engine';
+import type { Property } from '@shared/schema';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+function makeProperty(overrides: Partial<Property> = {}): Property {
+  return {
+    id: 'property-1',
+    blockId: null,
+    uprn: '100000001',
+    addressLine1: '1 High Street',
+    addressLine2: null,
+    city: 'Leeds',
+    postcode: 'LS1 1AA',
+    propertyType: 'FLAT',
+    tenure: 'SOCIAL_RENT',
+    bedrooms: 2,
+    hasGas: true,
+    complianceStatus: 'UNKNOWN',
+    source: 'MANUAL',
+    needsVerification: false,
+    linkStatus: 'VERIFIED',
+    extractedMetadata: null,
+    vulnerableOccupant: false,
+    epcRating: null,
+    constructionYear: null,
+    numberOfFloors: 1,
+    hasElectricity: true,
+    hasAsbestos: false,
+    hasSprinklers: false,
+    localAuthority: null,
+    latitude: null,
+    longitude: null,
+    ward: null,
+    wardCode: null,
+    lsoa: null,
+    msoa: null,
+    geocodedAt: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    deletedAt: null,
+    ...overrides,
+  } as Property;
+}
+
+function makeCertificate(overrides: Partial<RuleCertificate> = {}): RuleCertificate {
+  return {
+    id: 'cert-1',
+    documentType: 'GAS',
+    status: 'APPROVED',
+    issueDate: '2025-01-10',
+    expiryDate: '2026-01-10',
+    createdAt: NOW,
+    outcome: 'SATISFACTORY',
+    data: null,
+    ...overrides,
+  };
+}
+
+function makeRule(overrides: Partial<ComplianceRuleDefinition> = {}): ComplianceRuleDefinition {
+  return {
+    ruleCode: 'GAS_ANNUAL_CHECK',
+    ruleName: 'Gas Safety Annual Check Required',
+    documentType: 'GAS',
+    conditions: [
+      { field: 'hasGas', operator: 'equals', value: true },
+      { field: 'certificates.GAS', operator: 'missing', withinMonths: 12 },
+    ],
+    conditionLogic: 'AND',
+    action: 'FLAG_URGENT',
+    priority: 'P1',
+    ...overrides,
+  };
+}
+
+function makeContext(certificates: RuleCertificate[] = [], property = makeProperty()): RuleContext {
+  return { property, facts: buildAssetFacts(property, null, null, []), certificates };
+}
+
+describe('Compliance rules engine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dbState.rules = [];
+    dbState.runs = [];
+    dbState.alerts = [];
+    dbState.events = [];
+    dbState.inserted = [];
+    dbState.updated = [];
+    mockStorage.listCertificates.mockResolvedValue([]);
+    mockStorage.listRemedialActions.mockResolvedValue([]);
+  });
+
+  describe('evaluateRule', () => {
+    it('should match a gas property without a valid gas certificate in the last 12 months', () => {
+      const expired = makeCertificate({ issueDate: '2024-01-10', expiryDate: '2025-01-10' });
+
+      const evaluation = evaluateRule(makeRule(), makeContext([expired]), NOW);
+
+      expect(evaluation).toEqual({
+        matched: true,
+        matchedConditions: ['hasGas equals true (actual: true)', 'No valid GAS certificate within 12 months'],
+        subjectCertificateId: 'cert-1',
+      });
+      expect(evaluateRule(makeRule(), makeContext([makeCertificate()]), NOW).matched).toBe(false);
+      expect(evaluateRule(makeRule(), makeContext([], makeProperty({ hasGas: false })), NOW).matched).toBe(false);
+    });
+
+    it('should ignore rejected certificates when checking coverage', () => {
+      const rejected = makeCertificate({ status: 'REJECTED' });
+
+      expect(evaluateRule(makeRule(), makeContext([rejected]), NOW).matched).toBe(true);
+    });
+
+    it('should read certificate fields from the latest extraction output', () => {
+      const rule = makeRule({
+        ruleCode: 'EICR_C1_IMMEDIATE',
+        documentType: 'EICR',
+        conditions: [{ field: 'c1Count', operator: 'greater_than', value: 0 }, { field: 'expiryDays', operator: 'less_than', value: 90 }],
+        conditionLogic: 'OR',
+      });
+      const older = makeCertificate({ id: 'old', documentType: 'EICR', issueDate: '2020-01-01', data: { findings: { c1Count: 3 } } });
+      const latest = makeCertificate({ id: 'latest', documentType: 'EICR', issueDate: '2025-03-01', expiryDate: '2030-03-01', data: { findings: { c1Count: 0 } } });
+
+      expect(evaluateRule(rule, makeContext([older, latest]), NOW)).toMatchObject({ matched: false, subjectCertificateId: 'latest' });
+
+      latest.data = { findings: { c1Count: 2 } };
+      expect(evaluateRule(rule, makeContext([older, latest]), NOW).matchedConditions).toEqual(['c1Count greater than 0 (actual: 2)']);
+    });
+
+    it('should flag blocks over 18m without an external wall appraisal', () => {
+      const property = makeProperty({ blockId: 'block-1' });
+      const facts = buildAssetFacts(property, { hasLift: false, hasCommunalBoiler: false } as any, { isHRB: true, buildingHeight: 24 } as any, ['FIRE_ALARM_PANEL']);
+      const rule = makeRule({
+        ruleCode: 'FRAEW_HRB_REQUIRED',
+        documentType: 'FRAEW',
+        conditions: [{ field: 'buildingHeight', operator: 'greater_than', value: 18 }, { field: 'certificates.FRAEW', operator: 'missing' }],
+      });
+
+      expect(facts).toMatchObject({ hasFireAlarm: true, hasCommunalAreas: true, isHRB: true, hasLift: false });
+      expect(evaluateRule(rule, { property, facts, certificates: [] }, NOW).matched).toBe(true);
+      expect(evaluateRule(rule, { property, facts, certificates: [makeCertificate({ documentType: 'FRAEW', expiryDate: null })] }, NOW).matched).toBe(false);
+    });
+
+    it('should never match a rule without usable conditions', () => {
+      expect(evaluateRule(makeRule({ conditions: [{ field: 'hasGas', operator: 'bogus' }] }), makeContext(), NOW).matched).toBe(false);
+      expect(evaluateRule(makeRule({ conditions: [] }), makeContext(), NOW).matched).toBe(false);
+    });
+
+    it('should not match a rule when any one of its conditions is invalid', () => {
+      const rule = makeRule({
+        conditions: [{ field: 'hasGas', operator: 'equals', value: true }, { field: 'hasGas', operator: 'bogus' }],
+        conditionLogic: 'OR',
+      });
+
+      expect(evaluateRule(rule, makeContext(), NOW).matched).toBe(false);
+    });
+
+    it('should read gas defect codes from a normalised extraction payload', () => {
+      const gasRule = (ruleCode: string, value: string) => makeRule({ ruleCode, conditions: [{ field: 'defectCode', operator: 'equals', value }] });
+      const certificate = makeCertificate({
+        data: {
+          property: { address_line_1: '1 High Street', address_line_2: '', city: 'Leeds', postcode: 'LS1 1AA' },
+          inspection: { date: '2025-01-10', next_due_date: '2026-01-10', outcome: 'UNSATISFACTORY', certificate_number: 'GS-1' },
+          engineer: { name: 'A Engineer', company: 'Heat Co', registration_id: '1234567', registration_type: '' },
+          findings: {
+            observations: [
+              { description: 'Boiler flue spillage', code: 'ID', location: 'Kitchen' },
+              { description: 'No bonding to gas meter', code: 'NCS', location: 'Hall' },
+            ],
+            remedial_actions: [],
+          },
+          _raw: {
+            appliances: [{ type: 'Boiler', location: 'Kitchen', status: 'FAIL' }],
+            defects: [{ code: 'ID', description: 'Boiler flue spillage' }, { code: 'NCS', description: 'No bonding to gas meter' }],
+          },
+        },
+      });
+      const context = makeContext([certificate]);
+
+      expect(evaluateRule(gasRule('GAS_ID_IMMEDIATE', 'ID'), context, NOW)).toMatchObject({
+        matched: true,
+        matchedConditions: ['defectCode equals "ID" (actual: ["ID","NCS"])'],
+      });
+      expect(evaluateRule(gasRule('GAS_AR_28DAY', 'AR'), context, NOW).matched).toBe(false);
+      expect(evaluateRule(gasRule('GAS_NCS_REMEDIATE', 'NCS'), context, NOW).matched).toBe(true);
+    });
+
+    it('should find keys inside lists of the raw extraction output', () => {
+      const rule = makeRule({ conditions: [{ field: 'status', operator: 'equals', value: 'AT_RISK' }] });
+      const certificate = makeCertificate({ data: { appliances: [{ type: 'Boiler', status: 'PASS' }, { type: 'Fire', status: 'AT_RISK' }] } });
+
+      expect(evaluateRule(rule, makeContext([certificate]), NOW).matched).toBe(true);
+      expect(evaluateRule({ ...rule, conditions: [{ field: 'status', operator: 'not_equals', value: 'AT_RISK' }] }, makeContext([certificate]), NOW).matched).toBe(false);
+    });
+  });
+
+  describe('resolveCertificateDocumentType', () => {
+    it('should map certificate types and extracted document names to rule codes', () => {
+      const codes = new Map([['EXTERNAL WALL FIRE RISK APPRAISAL', 'FRAEW']]);
+
+      expect(resolveCertificateDocumentType('GAS_SAFETY')).toBe('GAS');
+      expect(resolveCertificateDocumentType('OTHER', 'External Wall Fire Risk Appraisal', codes)).toBe('FRAEW');
+      expect(resolveCertificateDocumentType('OTHER', null, codes)).toBe('OTHER');
+    });
+  });
+
+  describe('evaluatePropertyComplianceRules', () => {
+    it('should raise a rule alert and a remedial action for an auto-fail finding', async () => {
+      mockStorage.getProperty.mockResolvedValue(makeProperty());
+      mockStorage.listCertificates.mockResolvedValue([{
+        id: 'cert-eicr', certificateType: 'EICR', status: 'APPROVED', issueDate: '2025-05-01', expiryDate: '2030-05-01', createdAt: NOW, outcome: 'UNSATISFACTORY', deletedAt: null,
+      }]);
+      dbState.runs = [{ certificateId: 'cert-eicr', documentType: 'EICR', finalOutput: { c1Count: 1 } }];
+      dbState.rules = [
+        { ...makeRule(), id: 'rule-gas', description: 'Annual CP12 required', legislation: 'GSIUR 1998', complianceStreamId: null },
+        { ...makeRule({ ruleCode: 'EICR_C1_IMMEDIATE', ruleName: 'C1 - Danger Present', documentType: 'EICR', conditions: [{ field: 'c1Count', operator: 'greater_than', value: 0 }], action: 'AUTO_FAIL' }), id: 'rule-c1', description: null, legislation: null, complianceStreamId: null },
+      ];
+
+      const result = await evaluatePropertyComplianceRules('org-1', 'property-1', NOW);
+
+      expect(result).toMatchObject({ evaluated: 2, matched: 2, alertsRaised: 1, remedialActionsCreated: 1 });
+      expect(dbState.inserted[0]).toMatchObject({
+        alertType: COMPLIANCE_RULE_ALERT_TYPE,
+        propertyId: 'property-1',
+        riskTier: 'CRITICAL',
+        title: 'Gas Safety Annual Check Required - 1 High Street',
+        triggeringFactors: ['hasGas equals true (actual: true)', 'No valid GAS certificate within 12 months'],
+        metadata: { ruleId: 'rule-gas', ruleCode: 'GAS_ANNUAL_CHECK', legislation: 'GSIUR 1998' },
+      });
+      expect(mockStorage.createRemedialAction).toHaveBeenCalledWith(expect.objectContaining({
+        certificateId: 'cert-eicr',
+        code: 'EICR_C1_IMMEDIATE',
+        severity: 'IMMEDIATE',
+        dueDate: '2025-06-02',
+      }));
+    });
+
+    it('should resolve the open alert once the rule stops matching and skip duplicate actions', async () => {
+      mockStorage.getProperty.mockResolvedValue(makeProperty());
+      mockStorage.listCertificates.mockResolvedValue([{
+        id: 'cert-gas', certificateType: 'GAS_SAFETY', status: 'APPROVED', issueDate: '2025-05-20', expiryDate: '2026-05-20', createdAt: NOW, outcome: 'SATISFACTORY', deletedAt: null,
+      }]);
+      dbState.runs = [{ certificateId: 'cert-gas', documentType: 'GAS', finalOutput: { defectCode: 'ID' } }];
+      dbState.alerts = [{ id: 'alert-1', propertyId: 'property-1', ruleCode: 'GAS_ANNUAL_CHECK' }];
+      mockStorage.listRemedialActions.mockResolvedValue([{ propertyId: 'property-1', code: 'GAS_ID_IMMEDIATE', status: 'OPEN' }]);
+      dbState.rules = [
+        { ...makeRule(), id: 'rule-gas' },
+        { ...makeRule({ ruleCode: 'GAS_ID_IMMEDIATE', conditions: [{ field: 'defectCode', operator: 'equals', value: 'id' }], action: 'AUTO_FAIL' }), id: 'rule-id' },
+      ];
+
+      const result = await evaluatePropertyComplianceRules('org-1', 'property-1', NOW);
+
+      expect(result).toMatchObject({ matched: 1, alertsResolved: 1, remedialActionsCreated: 0 });
+      expect(dbState.updated[0]).toMatchObject({ status: 'RESOLVED', resolutionNotes: 'Compliance rule GAS_ANNUAL_CHECK no longer applies' });
+    });
+
+    it('should resolve the open alert once the rule raises a remedial action instead', async () => {
+      mockStorage.getProperty.mockResolvedValue(makeProperty());
+      mockStorage.listCertificates.mockResolvedValue([{
+        id: 'cert-gas', certificateType: 'GAS_SAFETY', status: 'APPROVED', issueDate: '2025-05-20', expiryDate: '2026-05-20', createdAt: NOW, outcome: 'SATISFACTORY', deletedAt: null,
+      }]);
+      dbState.runs = [{ certificateId: 'cert-gas', documentType: 'GAS', finalOutput: { defectCode: 'ID' } }];
+      dbState.alerts = [{ id: 'alert-1', propertyId: 'property-1', ruleCode: 'GAS_ID_IMMEDIATE' }];
+      dbState.rules = [
+        { ...makeRule({ ruleCode: 'GAS_ID_IMMEDIATE', conditions: [{ field: 'defectCode', operator: 'equals', value: 'id' }], action: 'AUTO_FAIL' }), id: 'rule-id' },
+      ];
+
+      const result = await evaluatePropertyComplianceRules('org-1', 'property-1', NOW);
+
+      expect(result).toMatchObject({ matched: 1, alertsResolved: 1, alertsRaised: 0, remedialActionsCreated: 1 });
+      expect(dbState.updated).toEqual([expect.objectContaining({ status: 'RESOLVED', resolutionNotes: 'Compliance rule GAS_ID_IMMEDIATE now produces a remedial action' })]);
+    });
+  });
+
+  describe('runComplianceRulesSweep', () => {
+    it('should load open rule outcomes once per organisation and resolve alerts from retired rules', async () => {
+      mockStorage.listProperties.mockResolvedValue([makeProperty(), makeProperty({ id: 'property-2', uprn: '100000002', addressLine1: '2 High Street' })]);
+      dbState.alerts = [
+        { id: 'alert-gas', propertyId: 'property-1', ruleCode: 'GAS_ANNUAL_CHECK' },
+        { id: 'alert-retired', propertyId: 'property-2', ruleCode: 'OLD_RULE' },
+      ];
+      dbState.rules = [
+        { ...makeRule(), id: 'rule-gas' },
+        { ...makeRule({ ruleCode: 'BROKEN_RULE', conditions: [{ field: 'hasGas', operator: 'bogus' }] }), id: 'rule-broken' },
+      ];
+
+      const result = await runComplianceRulesSweep(NOW);
+
+      expect(result).toMatchObject({ properties: 2, matched: 2, alertsRaised: 1, alertsResolved: 1 });
+      expect(mockStorage.listRemedialActions).toHaveBeenCalledTimes(1);
+      expect(mockStorage.listRemedialActions).toHaveBeenCalledWith('org-1', undefined);
+      expect(dbState.updated).toEqual([expect.objectContaining({ status: 'RESOLVED', resolutionNotes: 'Compliance rule is no longer active' })]);
+      expect(dbState.inserted).toEqual([expect.objectContaining({ propertyId: 'property-2', metadata: expect.objectContaining({ ruleCode: 'GAS_ANNUAL_CHECK' }) })]);
+      expect(logger.warn).toHaveBeenCalledWith(expect.objectContaining({ ruleCode: 'BROKEN_RULE' }), expect.any(String));
+    });
+  });
+
+  describe('dryRunComplianceRule', () => {
+    it('should list matching properties without creating anything', async () => {
+      mockStorage.listProperties.mockResolvedValue([
+        makeProperty(),
+        makeProperty({ id: 'property-2', uprn: '100000002', addressLine1: '2 High Street', hasGas: false }),
+      ]);
+
+      const result = await dryRunComplianceRule('org-1', makeRule(), NOW);
+
+      expect(result).toMatchObject({ ruleCode: 'GAS_ANNUAL_CHECK', outcome: 'RISK_ALERT', evaluated: 2, matched: 1 });
+      expect(result.properties.map(property => property.propertyId)).toEqual(['property-1']);
+      expect(dbState.inserted).toEqual([]);
+      expect(mockStorage.createRemedialAction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const candidates = vi.hoisted(() => ({ rows: [] as unknown[] }));
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: () => Promise.resolve(candidates.rows) }) }),
+  },
+}));
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getOrganisation: vi.fn(),
+    getContractor: vi.fn(),
+    updateContractorStatus: vi.fn(),
+    listContractorCertifications: vi.fn(),
+    updateContractorCertification: vi.fn(),
+    createContractorVerificationHistory: vi.fn(),
+    listContractorAlerts: vi.fn(),
+    createContractorAlert: vi.fn(),
+    listContractorAssignments: vi.fn(),
+    updateContractorAssignment: vi.fn(),
+    recordAuditEvent: vi.fn(),
+  },
+}));
+
+import { storage } from '../server/storage';
+import {
+  DEFAULT_CERTIFICATION_MONITOR_POLICY,
+  findLapsedCategories,
+  parseCertificationMonitorPolicy,
+  runContractorCertificationMonitor,
+  selectExpiryStage,
+} from '../server/services/contractor-certification-monitor';
+import { DEFAULT_COMPETENCY_MATRIX } from '../server/services/contractor-competency';
+import { checkCertificationAgainstRegister } from '../server/services/contractor-registration-verification';
+import { setRegistrationVerifiers, type RegisterRecord } from '../server/services/registration-verification';
+import type { ContractorCertification } from '@shared/schema';
+
+const NOW = new Date('2025-06-01T06:00:00Z');
+const daysFromNow = (days: number) => new Date(NOW.getTime() + days * 24 * 60 * 60 * 1000);
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+function makeCertification(overrides: Partial<ContractorCertification> = {}): ContractorCertification {
+  return {
+    id: 'cert-1',
+    contractorId: 'contractor-1',
+    organisationId: 'org-1',
+    registrationType: 'GAS_SAFE',
+    registrationNumber: '123456',
+    registrationName: null,
+    issueDate: null,
+    expiryDate: daysFromNow(100),
+    verificationStatus: 'VERIFIED',
+    verifiedAt: NOW,
+    verifiedById: 'user-1',
+    verificationMethod: 'REGISTER_LOOKUP',
+    verificationNotes: null,
+    workCategories: null,
+    documentUrl: null,
+    documentId: null,
+    isActive: true,
+    metadata: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('Contractor certification monitor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    candidates.rows = [];
+  });
+
+  describe('policy', () => {
+    it('should default to 60/30/7 day warnings without suspension', () => {
+      expect(parseCertificationMonitorPolicy(null)).toEqual(DEFAULT_CERTIFICATION_MONITOR_POLICY);
+    });
+
+    it('should keep valid organisation lead times, sorted and de-duplicated', () => {
+      const policy = parseCertificationMonitorPolicy({
+        contractorCertificationMonitor: { leadTimeDays: [14, 90, 14, 0, 'soon'], suspendOnMandatoryLapse: true },
+      });
+
+      expect(policy).toEqual({ leadTimeDays: [90, 14], suspendOnMandatoryLapse: true });
+    });
+  });
+
+  describe('selectExpiryStage', () => {
+    it.each([
+      [61, null],
+      [60, 60],
+      [31, 60],
+      [30, 30],
+      [8, 30],
+      [1, 7],
+    ])('should place a certification %i days from expiry at the %s day stage', (days, stage) => {
+      expect(selectExpiryStage(days, [60, 30, 7])).toBe(stage);
+    });
+  });
+
+  describe('findLapsedCategories', () => {
+    it('should report gas categories once the only Gas Safe registration lapses', () => {
+      const lapsed = [makeCertification({ expiryDate: NOW })];
+
+      expect(findLapsedCategories(lapsed, [], DEFAULT_COMPETENCY_MATRIX, NOW))
+        .toEqual(['GAS_BOILER', 'GAS_APPLIANCES', 'GAS_FIRES']);
+    });
+
+    it('should ignore categories still covered by another registration', () => {
+      const lapsed = [makeCertification({ registrationType: 'NICEIC', expiryDate: NOW })];
+      const remaining = [makeCertification({ id: 'napit', registrationType: 'NAPIT' })];
+
+      expect(findLapsedCategories(lapsed, remaining, DEFAULT_COMPETENCY_MATRIX, NOW)).toEqual([]);
+    });
+
+    it('should only count categories a scoped certification covered', () => {
+      const lapsed = [makeCertification({ expiryDate: NOW, workCategories: ['GAS_FIRES'] })];
+
+      expect(findLapsedCategories(lapsed, [], DEFAULT_COMPETENCY_MATRIX, NOW)).toEqual(['GAS_FIRES']);
+    });
+  });
+
+  describe('runContractorCertificationMonitor', () => {
+    beforeEach(() => {
+      mockStorage.getOrganisation.mockResolvedValue({
+        id: 'org-1',
+        settings: { contractorCertificationMonitor: { suspendOnMandatoryLapse: true } },
+      });
+      mockStorage.listContractorAlerts.mockResolvedValue([]);
+      mockStorage.listContractorCertifications.mockResolvedValue([]);
+      mockStorage.getContractor.mockResolvedValue({ id: 'contractor-1', organisationId: 'org-1', companyName: 'Acme Heating', status: 'APPROVED' });
+    });
+
+    it('should raise a single warning per lead time', async () => {
+      const cert = makeCertification({ expiryDate: daysFromNow(20) });
+      candidates.rows = [cert];
+
+      const first = await runContractorCertificationMonitor(NOW);
+      expect(first.warningsRaised).toBe(1);
+      expect(mockStorage.createContractorAlert).toHaveBeenCalledWith(expect.objectContaining({
+        alertType: 'CERTIFICATION_EXPIRING',
+        certificationId: 'cert-1',
+        severity: 'PRIORITY',
+        metadata: { leadTimeDays: 30, expiryDate: cert.expiryDate!.toISOString() },
+      }));
+
+      mockStorage.listContractorAlerts.mockResolvedValue([
+        { certificationId: 'cert-1', alertType: 'CERTIFICATION_EXPIRING', status: 'RESOLVED', metadata: { leadTimeDays: 30, expiryDate: cert.expiryDate!.toISOString() } },
+      ]);
+      const second = await runContractorCertificationMonitor(NOW);
+      expect(second.warningsRaised).toBe(0);
+    });
+
+    it('should expire lapsed registrations, flag open work and suspend when the policy asks', async () => {
+      candidates.rows = [makeCertification({ expiryDate: daysFromNow(-1) })];
+      mockStorage.listContractorAssignments.mockResolvedValue([
+        { id: 'open-gas', status: 'SCHEDULED', workCategory: 'GAS_BOILER', metadata: { source: 'repairs' } },
+        { id: 'done-gas', status: 'COMPLETED', workCategory: 'GAS_BOILER', metadata: null },
+        { id: 'open-roof', status: 'OPEN', workCategory: 'ROOFING', metadata: null },
+      ]);
+
+      const result = await runContractorCertificationMonitor(NOW);
+
+      expect(result).toEqual({ checked: 1, warningsRaised: 0, expired: 1, assignmentsFlagged: 1, contractorsSuspended: 1 });
+      expect(mockStorage.updateContractorCertification).toHaveBeenCalledWith('cert-1', { verificationStatus: 'EXPIRED' });
+      expect(mockStorage.createContractorVerificationHistory).toHaveBeenCalledWith(expect.objectContaining({
+        certificationId: 'cert-1',
+        previousStatus: 'VERIFIED',
+        newStatus: 'EXPIRED',
+      }));
+      expect(mockStorage.updateContractorAssignment).toHaveBeenCalledTimes(1);
+      expect(mockStorage.updateContractorAssignment).toHaveBeenCalledWith('open-gas', {
+        metadata: expect.objectContaining({ source: 'repairs', competencyLapse: expect.objectContaining({ certificationIds: ['cert-1'] }) }),
+      });
+      expect(mockStorage.updateContractorStatus).toHaveBeenCalledWith('contractor-1', 'SUSPENDED');
+      expect(mockStorage.recordAuditEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'CONTRACTOR_SUSPENDED' }));
+    });
+
+    it('should leave the contractor active when suspension is not enabled', async () => {
+      mockStorage.getOrganisation.mockResolvedValue({ id: 'org-1', settings: {} });
+      candidates.rows = [makeCertification({ expiryDate: daysFromNow(-1) })];
+      mockStorage.listContractorAssignments.mockResolvedValue([]);
+
+      const result = await runContractorCertificationMonitor(NOW);
+
+      expect(result.expired).toBe(1);
+      expect(result.contractorsSuspended).toBe(0);
+      expect(mockStorage.updateContractorStatus).not.toHaveBeenCalled();
+      expect(mockStorage.createContractorAlert).toHaveBeenCalledWith(expect.objectContaining({ alertType: 'COMPETENCY_LAPSED' }));
+    });
+
+    describe('alongside the weekly register re-verification', () => {
+      let held: ContractorCertification;
+
+      function registerShows(record: Partial<RegisterRecord>) {
+        setRegistrationVerifiers(new Map([['GAS_SAFE', {
+          name: 'Test Register',
+          registrationType: 'GAS_SAFE' as const,
+          lookup: async (registrationNumber: string) => ({
+            found: true,
+            lookupUrl: null,
+            source: 'Test Register',
+            checkedAt: NOW,
+            record: { registrationNumber, registeredName: 'Acme Heating', status: 'ACTIVE' as const, expiryDate: null, workCategories: [], ...record },
+          }),
+          healthCheck: async () => true,
+        }]]));
+      }
+
+      // Mirrors the monitor query: active, not already closed, expiring within the lead time window
+      async function runBothJobs() {
+        await checkCertificationAgainstRegister(held, { companyName: 'Acme Heating' }, {}, NOW);
+        candidates.rows = ['EXPIRED', 'REVOKED'].includes(held.verificationStatus) || held.expiryDate! > daysFromNow(60) ? [] : [held];
+        return runContractorCertificationMonitor(NOW);
+      }
+
+      beforeEach(() => {
+        held = makeCertification({ expiryDate: daysFromNow(-10), verificationStatus: 'EXPIRED' });
+        mockStorage.updateContractorCertification.mockImplementation(async (_id: string, updates: Partial<ContractorCertification>) => {
+          held = { ...held, ...updates };
+          return held;
+        });
+      });
+
+      it('should keep a lapsed registration expired when the register publishes no expiry', async () => {
+        registerShows({ expiryDate: null });
+
+        const result = await runBothJobs();
+
+        expect(held.verificationStatus).toBe('EXPIRED');
+        expect(result.expired).toBe(0);
+        expect(mockStorage.createContractorAlert).not.toHaveBeenCalledWith(expect.objectContaining({ alertType: 'CERTIFICATION_EXPIRED' }));
+        expect(mockStorage.updateContractorStatus).not.toHaveBeenCalled();
+      });
+
+      it('should take the renewed expiry from the register so the monitor does not expire it again', async () => {
+        registerShows({ expiryDate: daysFromNow(365) });
+
+        const result = await runBothJobs();
+
+        expect(held.verificationStatus).toBe('VERIFIED');
+        expect(held.expiryDate).toEqual(daysFromNow(365));
+        expect(result.expired).toBe(0);
+        expect(mockStorage.updateContractorStatus).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', () => ({
+  db: {},
+}));
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getOrganisation: vi.fn(),
+    updateOrganisation: vi.fn(),
+    listContractorCertifications: vi.fn(),
+    recordAuditEvent: vi.fn(),
+  },
+}));
+
+import { storage } from '../server/storage';
+import {
+  DEFAULT_COMPETENCY_MATRIX,
+  checkContractorCompetency,
+  evaluateCompetency,
+  parseCompetencyMatrix,
+  updateOrganisationCompetencyMatrix,
+} from '../server/services/contractor-competency';
+import type { ContractorCertification } from '@shared/schema';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+function makeCertification(overrides: Partial<ContractorCertification> = {}): ContractorCertification {
+  return {
+    id: 'cert-1',
+    contractorId: 'contractor-1',
+    organisationId: 'org-1',
+    registrationType: 'GAS_SAFE',
+    registrationNumber: '123456',
+    registrationName: null,
+    issueDate: null,
+    expiryDate: new Date('2026-01-01'),
+    verificationStatus: 'VERIFIED',
+    verifiedAt: NOW,
+    verifiedById: 'user-1',
+    verificationMethod: 'REGISTER_LOOKUP',
+    verificationNotes: null,
+    workCategories: null,
+    documentUrl: null,
+    documentId: null,
+    isActive: true,
+    metadata: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('Contractor competency', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('evaluateCompetency', () => {
+    it('should accept a verified, current Gas Safe registration for boiler work', () => {
+      const result = evaluateCompetency('GAS_BOILER', [makeCertification()], DEFAULT_COMPETENCY_MATRIX, NOW);
+
+      expect(result).toEqual({
+        workCategory: 'GAS_BOILER',
+        requiredRegistrationTypes: ['GAS_SAFE'],
+        satisfied: true,
+        matchingCertificationIds: ['cert-1'],
+      });
+    });
+
+    it('should accept any of the electrical schemes for electrical testing', () => {
+      const certs = [
+        makeCertification({ id: 'napit', registrationType: 'NAPIT' }),
+        makeCertification({ id: 'gas', registrationType: 'GAS_SAFE' }),
+      ];
+
+      const result = evaluateCompetency('ELECTRICAL_TEST', certs, DEFAULT_COMPETENCY_MATRIX, NOW);
+      expect(result.satisfied).toBe(true);
+      expect(result.matchingCertificationIds).toEqual(['napit']);
+    });
+
+    it.each([
+      ['unverified', { verificationStatus: 'PENDING' as const }],
+      ['expired', { expiryDate: new Date('2025-05-31') }],
+      ['inactive', { isActive: false }],
+      ['scoped to other work', { workCategories: ['GAS_APPLIANCES'] }],
+    ])('should reject %s certifications', (_label, overrides) => {
+      const result = evaluateCompetency('GAS_BOILER', [makeCertification(overrides)], DEFAULT_COMPETENCY_MATRIX, NOW);
+
+      expect(result.satisfied).toBe(false);
+      expect(result.matchingCertificationIds).toEqual([]);
+    });
+
+    it('should not require a registration for unregulated work', () => {
+      const result = evaluateCompetency('ROOFING', [], DEFAULT_COMPETENCY_MATRIX, NOW);
+
+      expect(result.satisfied).toBe(true);
+      expect(result.requiredRegistrationTypes).toEqual([]);
+    });
+  });
+
+  describe('matrix configuration', () => {
+    it('should layer organisation overrides over the defaults and drop unknown values', () => {
+      const matrix = parseCompetencyMatrix({
+        contractorCompetency: { ROOFING: ['CHAS', 'NOT_A_SCHEME'], UNKNOWN_CATEGORY: ['GAS_SAFE'] },
+      });
+
+      expect(matrix.ROOFING).toEqual(['CHAS']);
+      expect(matrix.GAS_BOILER).toEqual(['GAS_SAFE']);
+      expect(matrix).not.toHaveProperty('UNKNOWN_CATEGORY');
+    });
+
+    it('should check a contractor against the organisation matrix', async () => {
+      mockStorage.getOrganisation.mockResolvedValue({ id: 'org-1', settings: { contractorCompetency: { ROOFING: ['CHAS'] } } });
+      mockStorage.listContractorCertifications.mockResolvedValue([makeCertification()]);
+
+      const result = await checkContractorCompetency('org-1', 'contractor-1', 'ROOFING', NOW);
+
+      expect(mockStorage.listContractorCertifications).toHaveBeenCalledWith('org-1', 'contractor-1');
+      expect(result.satisfied).toBe(false);
+      expect(result.requiredRegistrationTypes).toEqual(['CHAS']);
+    });
+
+    it('should save and audit matrix changes without losing other settings', async () => {
+      mockStorage.getOrganisation.mockResolvedValue({ id: 'org-1', name: 'Org', settings: { mfa: { enforced: true } } });
+
+      const matrix = await updateOrganisationCompetencyMatrix('org-1', { WATER_HYGIENE: ['SAFE_CONTRACTOR'] }, {});
+
+      expect(matrix.WATER_HYGIENE).toEqual(['SAFE_CONTRACTOR']);
+      expect(mockStorage.updateOrganisation).toHaveBeenCalledWith('org-1', {
+        settings: { mfa: { enforced: true }, contractorCompetency: { WATER_HYGIENE: ['SAFE_CONTRACTOR'] } },
+      });
+      expect(mockStorage.recordAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'CONTRACTOR_COMPETENCY_MATRIX_CHANGED' })
+      );
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', () => ({
+  db: {},
+}));
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    listContractorAlerts: vi.fn(),
+    createContractorAlert: vi.fn(),
+  },
+}));
+
+import {
+  buildMonthlySlaStatement,
+  calculateSlaDeadlines,
+  deriveStatusChangeUpdates,
+  evaluateSlaStatus,
+  parseStatementMonth,
+  type SlaClockFields,
+  type SlaStatementJob,
+} from '../server/services/contractor-sla';
+
+describe('Contractor SLA tracking', () => {
+  const assignedAt = new Date('2025-06-02T09:00:00Z');
+  const profile = { responseTimeHours: 4, completionTimeHours: 48 };
+  const clock: SlaClockFields = {
+    assignedAt,
+    acknowledgedAt: null,
+    startedAt: null,
+    completedAt: null,
+    ...calculateSlaDeadlines(assignedAt, profile),
+  };
+
+  const hoursAfter = (hours: number) => new Date(assignedAt.getTime() + hours * 60 * 60 * 1000);
+
+  describe('calculateSlaDeadlines', () => {
+    it('should offset both deadlines from the assignment time', () => {
+      expect(clock.responseDeadline?.toISOString()).toBe('2025-06-02T13:00:00.000Z');
+      expect(clock.slaDeadline.toISOString()).toBe('2025-06-04T09:00:00.000Z');
+    });
+  });
+
+  describe('evaluateSlaStatus', () => {
+    it('should be on track early in the window', () => {
+      expect(evaluateSlaStatus(clock, hoursAfter(2))).toBe('ON_TRACK');
+    });
+
+    it('should be at risk once the response window closes unanswered', () => {
+      expect(evaluateSlaStatus(clock, hoursAfter(5))).toBe('AT_RISK');
+      expect(evaluateSlaStatus({ ...clock, acknowledgedAt: hoursAfter(1) }, hoursAfter(5))).toBe('ON_TRACK');
+    });
+
+    it('should be at risk when little of the completion window remains', () => {
+      expect(evaluateSlaStatus({ ...clock, acknowledgedAt: hoursAfter(1) }, hoursAfter(37))).toBe('AT_RISK');
+    });
+
+    it('should be breached after the completion deadline', () => {
+      expect(evaluateSlaStatus(clock, hoursAfter(49))).toBe('BREACHED');
+    });
+
+    it('should judge completed jobs by their completion time', () => {
+      expect(evaluateSlaStatus({ ...clock, completedAt: hoursAfter(47) }, hoursAfter(100))).toBe('COMPLETED');
+      expect(evaluateSlaStatus({ ...clock, completedAt: hoursAfter(50) }, hoursAfter(100))).toBe('COMPLETED_LATE');
+    });
+  });
+
+  describe('deriveStatusChangeUpdates', () => {
+    it('should record the response when the job leaves OPEN', () => {
+      const updates = deriveStatusChangeUpdates(clock, { status: 'SCHEDULED', completedDate: null }, hoursAfter(3));
+
+      expect(updates).toEqual({ acknowledgedAt: hoursAfter(3), responseTimeMinutes: 180 });
+    });
+
+    it('should record the start of work without overwriting the response', () => {
+      const acknowledged = { ...clock, acknowledgedAt: hoursAfter(1) };
+      const updates = deriveStatusChangeUpdates(acknowledged, { status: 'IN_PROGRESS', completedDate: null }, hoursAfter(6));
+
+      expect(updates).toEqual({ startedAt: hoursAfter(6) });
+    });
+
+    it('should close the clock late using the recorded completion date', () => {
+      const acknowledged = { ...clock, acknowledgedAt: hoursAfter(1) };
+      const updates = deriveStatusChangeUpdates(acknowledged, { status: 'COMPLETED', completedDate: hoursAfter(50) }, hoursAfter(52));
+
+      expect(updates).toMatchObject({
+        completedAt: hoursAfter(50),
+        completionTimeMinutes: 3000,
+        slaStatus: 'COMPLETED_LATE',
+        slaBreachMinutes: 120,
+      });
+    });
+
+    it('should restart the clock when a completed job is reopened', () => {
+      const completed = { ...clock, acknowledgedAt: hoursAfter(1), completedAt: hoursAfter(10) };
+      const updates = deriveStatusChangeUpdates(completed, { status: 'IN_PROGRESS', completedDate: null }, hoursAfter(12));
+
+      expect(updates).toMatchObject({ completedAt: null, slaStatus: 'ON_TRACK', startedAt: hoursAfter(12) });
+    });
+
+    it('should not treat cancellation as a response', () => {
+      expect(deriveStatusChangeUpdates(clock, { status: 'CANCELLED', completedDate: null }, hoursAfter(1))).toEqual({});
+    });
+  });
+
+  describe('buildMonthlySlaStatement', () => {
+    const gas = { slaProfileId: 'gas', profileName: 'Gas emergency', penaltyPercentage: 10, bonusPercentage: 5 };
+    const roofing = { slaProfileId: 'roof', profileName: 'Roofing standard', penaltyPercentage: 4, bonusPercentage: 2 };
+    const jobs: SlaStatementJob[] = [
+      { ...gas, slaStatus: 'COMPLETED' },
+      { ...gas, slaStatus: 'COMPLETED' },
+      { ...gas, slaStatus: 'BREACHED' },
+      { ...roofing, slaStatus: 'COMPLETED_LATE' },
+      { ...roofing, slaStatus: 'AT_RISK' },
+    ];
+
+    it('should roll bonuses and penalties up per profile and overall', () => {
+      const statement = buildMonthlySlaStatement('contractor-1', '2025-06', jobs);
+
+      expect(statement).toMatchObject({
+        totalJobs: 5,
+        metCount: 2,
+        missedCount: 2,
+        openCount: 1,
+        slaComplianceRate: 50,
+        // (5 + 5 - 10 - 4) / 4 decided jobs
+        netAdjustmentPercentage: -1,
+      });
+      expect(statement.periodStart.toISOString()).toBe('2025-06-01T00:00:00.000Z');
+      expect(statement.periodEnd.toISOString()).toBe('2025-07-01T00:00:00.000Z');
+      expect(statement.lines).toEqual([
+        expect.objectContaining({ slaProfileId: 'gas', jobs: 3, met: 2, missed: 1, adjustmentPercentage: 0 }),
+        expect.objectContaining({ slaProfileId: 'roof', jobs: 2, missed: 1, open: 1, adjustmentPercentage: -4 }),
+      ]);
+    });
+
+    it('should report no adjustment for a month with no decided jobs', () => {
+      const statement = buildMonthlySlaStatement('contractor-1', '2025-06', [{ ...gas, slaStatus: 'ON_TRACK' }]);
+
+      expect(statement.netAdjustmentPercentage).toBe(0);
+      expect(statement.slaComplianceRate).toBe(0);
+    });
+
+    it('should reject malformed months', () => {
+      expect(parseStatementMonth('2025-13')).toBeNull();
+      expect(() => buildMonthlySlaStatement('contractor-1', 'June', [])).toThrow();
+    });
+  });
+});
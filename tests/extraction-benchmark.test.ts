@@ -0,0 +1,357 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const dbState = vi.hoisted(() => ({
+  sets: [] as any[],
+  items: [] as any[],
+  schemas: [] as any[],
+  runs: [] as any[],
+  joinedRuns: [] as any[],
+  inserted: [] as any[],
+  updated: [] as any[],
+  runFilters: [] as any[],
+}));
+
+vi.mock('../server/logger', () => {
+  const logger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: () => logger,
+  };
+  return { logger };
+});
+
+vi.mock('../server/replit_integrations/object_storage', () => ({
+  ObjectStorageService: class {},
+}));
+
+vi.mock('../server/db', async () => {
+  const { getTableName } = await import('drizzle-orm');
+  const rowsFor = (table: any) => {
+    const name = getTableName(table);
+    if (name === 'benchmark_sets') return dbState.sets;
+    if (name === 'benchmark_items') return dbState.items;
+    if (name === 'extraction_schemas') return dbState.schemas;
+    return dbState.runs;
+  };
+  const chain = (rows: () => any[], table?: any): any => Object.assign(Promise.resolve().then(rows), {
+    where: (condition: any) => {
+      if (table && getTableName(table) === 'eval_runs') dbState.runFilters.push(condition);
+      return chain(rows);
+    },
+    orderBy: () => chain(rows),
+    limit: () => chain(rows),
+    innerJoin: () => chain(() => dbState.joinedRuns),
+  });
+  return {
+    db: {
+      select: () => ({
+        from: (table: any) => chain(() => rowsFor(table), table),
+      }),
+      insert: () => ({
+        values: (values: any) => {
+          dbState.inserted.push(values);
+          return { returning: () => Promise.resolve([{ id: 'run-new', ...values }]) };
+        },
+      }),
+      update: () => ({
+        set: (values: any) => ({
+          where: () => {
+            dbState.updated.push(values);
+            return Object.assign(Promise.resolve(), {
+              returning: () => Promise.resolve([{ id: 'run-new', ...dbState.inserted[dbState.inserted.length - 1], ...values }]),
+            });
+          },
+        }),
+      }),
+    },
+  };
+});
+
+vi.mock('../server/services/extraction/dependencies', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../server/services/extraction/dependencies')>();
+  return { ...actual, createProductionDependencies: vi.fn(actual.createProductionDependencies) };
+});
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getFactorySettingValue: vi.fn(async () => ''),
+    getCertificate: vi.fn(async (id: string) => ({
+      id,
+      certificateType: 'GAS_SAFETY',
+      fileType: 'application/pdf',
+      fileName: `${id}.pdf`,
+      storageKey: `uploads/${id}.pdf`,
+    })),
+  },
+}));
+
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { storage } from '../server/storage';
+import { BadRequestError } from '../server/errors';
+import { createProductionDependencies, createTestDependencies } from '../server/services/extraction/dependencies';
+import {
+  DEFAULT_BENCHMARK_GATING_CONFIG,
+  DEFAULT_BENCHMARK_MODEL_VERSION,
+  checkSchemaActivationGate,
+  clearBenchmarkGatingConfigCache,
+  compareItemResults,
+  evaluateGating,
+  executeBenchmarkRun,
+  runExtractionBenchmark,
+  scoreBenchmarkItem,
+  scoreFields,
+  summariseBenchmark,
+  validateAgainstSchema,
+} from '../server/services/extraction-benchmark';
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const GAS_SCHEMA = {
+  certificateNumber: { type: 'string', required: true },
+  inspectionDate: { type: 'string', required: true },
+  outcome: { type: 'string', required: true, enum: ['PASS', 'FAIL'] },
+};
+
+const EXPECTED = {
+  certificateNumber: 'CERT-001',
+  inspectionDate: '15/01/2024',
+  outcome: 'PASS',
+  engineerName: 'John Smith',
+};
+
+function templateDependencies(data: Record<string, unknown>) {
+  return createTestDependencies({
+    analyseDocument: async () => ({
+      format: 'pdf-native' as const,
+      classification: 'structured_certificate' as const,
+      pageCount: 1,
+      hasTextLayer: true,
+      isScanned: false,
+      isHybrid: false,
+      textQuality: 0.9,
+      avgCharsPerPage: 2000,
+      textContent: 'Gas safety record',
+      detectedCertificateType: 'GAS' as const,
+    }),
+    extractWithTemplate: () => ({
+      success: true,
+      data: {
+        certificateType: 'GAS' as const,
+        certificateNumber: null,
+        propertyAddress: null,
+        uprn: null,
+        inspectionDate: null,
+        expiryDate: null,
+        nextInspectionDate: null,
+        outcome: null,
+        engineerName: null,
+        engineerRegistration: null,
+        contractorName: null,
+        contractorRegistration: null,
+        appliances: [],
+        defects: [],
+        additionalFields: {},
+        ...data,
+      },
+      confidence: 0.95,
+      matchedFields: 10,
+      totalExpectedFields: 10,
+    }),
+  });
+}
+
+describe('Extraction benchmark', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearBenchmarkGatingConfigCache();
+    mockStorage.getFactorySettingValue.mockResolvedValue('');
+    dbState.sets = [{ id: 'set-1', name: 'Gas v1', isLocked: true, lockedAt: new Date('2025-01-01'), documentTypes: ['GAS'] }];
+    dbState.items = [
+      { id: 'item-1', benchmarkSetId: 'set-1', certificateId: 'cert-1', expectedOutput: EXPECTED },
+    ];
+    dbState.schemas = [{ id: 'schema-1', version: 'v1.0', documentType: 'GAS', isActive: true, schemaJson: GAS_SCHEMA }];
+    dbState.runs = [];
+    dbState.joinedRuns = [];
+    dbState.inserted = [];
+    dbState.updated = [];
+    dbState.runFilters = [];
+  });
+
+  describe('scoring', () => {
+    it('matches dates and casing after normalisation but not exactly', () => {
+      const scores = scoreFields(
+        { inspectionDate: '15/01/2024', engineerName: 'John Smith', outcome: 'PASS' },
+        { inspectionDate: '2024-01-15', engineerName: 'JOHN  SMITH', outcome: 'FAIL' }
+      );
+
+      expect(scores.find(score => score.field === 'inspectionDate')).toMatchObject({ exactMatch: false, normalisedMatch: true });
+      expect(scores.find(score => score.field === 'engineerName')).toMatchObject({ exactMatch: false, normalisedMatch: true });
+      expect(scores.find(score => score.field === 'outcome')).toMatchObject({ exactMatch: false, normalisedMatch: false });
+    });
+
+    it('reports missing required fields and enum violations', () => {
+      const errors = validateAgainstSchema({ certificateNumber: 'CERT-001', outcome: 'MAYBE' }, GAS_SCHEMA);
+
+      expect(errors).toHaveLength(2);
+      expect(errors.some(error => error.includes('inspectionDate'))).toBe(true);
+      expect(errors.some(error => error.includes('outcome'))).toBe(true);
+    });
+
+    it('summarises item results into run-level rates', () => {
+      const good = scoreBenchmarkItem({ id: 'item-1', certificateId: 'cert-1', expectedOutput: EXPECTED }, 'GAS', { ...EXPECTED }, GAS_SCHEMA);
+      const failed = scoreBenchmarkItem({ id: 'item-2', certificateId: 'cert-2', expectedOutput: EXPECTED }, 'GAS', null, GAS_SCHEMA, 'Source document not available');
+
+      const summary = summariseBenchmark([good, failed]);
+
+      expect(good.normalisedMatchRate).toBe(1);
+      expect(failed.success).toBe(false);
+      expect(summary.overallScore).toBe(0.5);
+      expect(summary.schemaValidRate).toBe(0.5);
+      expect(summary.byField.certificateNumber).toEqual({ total: 2, exact: 1, normalised: 1 });
+    });
+  });
+
+  describe('regressions and gating', () => {
+    it('detects field-level regressions and improvements between runs', () => {
+      const item = { id: 'item-1', certificateId: 'cert-1', expectedOutput: EXPECTED };
+      const previous = scoreBenchmarkItem(item, 'GAS', { ...EXPECTED, outcome: 'FAIL' }, GAS_SCHEMA);
+      const current = scoreBenchmarkItem(item, 'GAS', { ...EXPECTED, engineerName: 'Someone Else' }, GAS_SCHEMA);
+
+      const { regressions, improvements } = compareItemResults([previous], [current]);
+
+      expect(regressions).toEqual([expect.objectContaining({ itemId: 'item-1', field: 'engineerName', current: 'Someone Else' })]);
+      expect(improvements).toEqual([expect.objectContaining({ itemId: 'item-1', field: 'outcome', current: 'PASS' })]);
+    });
+
+    it('fails gating on low score, score drop or regressions', () => {
+      expect(evaluateGating({ overallScore: 0.95, schemaValidRate: 1 }, { overallScore: 0.94 }, 0).passed).toBe(true);
+
+      const result = evaluateGating({ overallScore: 0.7, schemaValidRate: 0.5 }, { overallScore: 0.9 }, 2, DEFAULT_BENCHMARK_GATING_CONFIG);
+
+      expect(result.passed).toBe(false);
+      expect(result.notes).toHaveLength(4);
+    });
+  });
+
+  describe('runExtractionBenchmark', () => {
+    it('replays items through tiered extraction and stores the scored run', async () => {
+      const extraction = templateDependencies({ certificateNumber: 'CERT-001', inspectionDate: '2024-01-15', outcome: 'PASS', engineerName: 'John Smith' });
+      const loadDocument = vi.fn(async () => Buffer.from('pdf'));
+
+      const run = await runExtractionBenchmark({ benchmarkSetId: 'set-1' }, { extraction, loadDocument });
+
+      expect(loadDocument).toHaveBeenCalledTimes(1);
+      expect(run.id).toBe('run-new');
+      expect(run.schemaVersion).toBe('v1.0');
+      expect(run.overallScore).toBe(1);
+      expect(run.exactMatchRate).toBe(0.75);
+      expect(run.schemaValidRate).toBe(1);
+      expect(run.previousRunId).toBeNull();
+      expect(run.passedGating).toBe(true);
+      expect(run.status).toBe('COMPLETED');
+      expect(dbState.inserted[0]).toMatchObject({ benchmarkSetId: 'set-1', status: 'QUEUED' });
+    });
+
+    it('extracts with the prompt template of the schema version under test', async () => {
+      dbState.schemas = [{ ...dbState.schemas[0], version: 'v2.0', promptTemplate: 'Extract every appliance.' }];
+      vi.mocked(createProductionDependencies).mockReturnValue(templateDependencies({ certificateNumber: 'CERT-001' }));
+
+      await runExtractionBenchmark({ benchmarkSetId: 'set-1', schemaVersion: 'v2.0' }, { loadDocument: async () => Buffer.from('pdf') });
+
+      expect(createProductionDependencies).toHaveBeenCalledWith({
+        model: DEFAULT_BENCHMARK_MODEL_VERSION,
+        promptTemplate: 'Extract every appliance.',
+      });
+    });
+
+    it('compares against the previous run and fails gating on regressions', async () => {
+      const previousItem = scoreBenchmarkItem(dbState.items[0], 'GAS', { ...EXPECTED }, GAS_SCHEMA);
+      dbState.runs = [{ id: 'run-old', benchmarkSetId: 'set-1', schemaVersion: 'v1.0', overallScore: 1, itemResults: [previousItem] }];
+      const extraction = templateDependencies({ certificateNumber: 'CERT-001', inspectionDate: '2024-01-15', outcome: 'PASS', engineerName: 'Jane Doe' });
+
+      const run = await runExtractionBenchmark({ benchmarkSetId: 'set-1' }, { extraction, loadDocument: async () => Buffer.from('pdf') });
+
+      expect(run.previousRunId).toBe('run-old');
+      expect(run.regressions).toEqual([expect.objectContaining({ field: 'engineerName', previous: 'John Smith', current: 'Jane Doe' })]);
+      expect(run.scoreDelta).toBeCloseTo(-0.25);
+      expect(run.passedGating).toBe(false);
+    });
+
+    it('baselines a candidate schema version on the latest run of the active version', async () => {
+      dbState.runs = [{ id: 'run-active', benchmarkSetId: 'set-1', schemaVersion: 'v1.0', overallScore: 1, itemResults: [] }];
+
+      await runExtractionBenchmark({ benchmarkSetId: 'set-1', schemaVersion: 'v2.0' }, {
+        extraction: templateDependencies({ certificateNumber: 'CERT-001' }),
+        loadDocument: async () => Buffer.from('pdf'),
+      });
+
+      const baseline = new PgDialect().sqlToQuery(dbState.runFilters[dbState.runFilters.length - 1]);
+      expect(baseline.sql).toContain('"eval_runs"."schema_version" = $');
+      expect(baseline.params).toContain('v1.0');
+      expect(baseline.params).not.toContain('v2.0');
+    });
+
+    it('records items whose document cannot be loaded as failures', async () => {
+      const run = await runExtractionBenchmark({ benchmarkSetId: 'set-1' }, {
+        extraction: templateDependencies({}),
+        loadDocument: async () => null,
+      });
+
+      expect(run.itemResults).toEqual([expect.objectContaining({ success: false, error: 'Source document not available' })]);
+      expect(run.overallScore).toBe(0);
+    });
+
+    it('rejects benchmark sets that are not locked', async () => {
+      dbState.sets = [{ ...dbState.sets[0], isLocked: false }];
+
+      await expect(runExtractionBenchmark({ benchmarkSetId: 'set-1' }, { extraction: templateDependencies({}) }))
+        .rejects.toBeInstanceOf(BadRequestError);
+      expect(dbState.inserted).toHaveLength(0);
+    });
+  });
+
+  describe('executeBenchmarkRun', () => {
+    it('marks a queued run failed when the benchmark cannot complete', async () => {
+      dbState.runs = [{ id: 'run-queued', benchmarkSetId: 'set-1', modelVersion: 'model', schemaVersion: 'v1.0', status: 'QUEUED' }];
+      mockStorage.getCertificate.mockRejectedValueOnce(new Error('Database unavailable'));
+
+      await expect(executeBenchmarkRun('run-queued', { extraction: templateDependencies({}) })).rejects.toThrow('Database unavailable');
+      expect(dbState.updated).toEqual([
+        { status: 'RUNNING', errorMessage: null },
+        { status: 'FAILED', errorMessage: 'Database unavailable' },
+      ]);
+    });
+
+    it('leaves completed runs alone', async () => {
+      dbState.runs = [{ id: 'run-done', status: 'COMPLETED' }];
+
+      expect(await executeBenchmarkRun('run-done')).toEqual(dbState.runs[0]);
+      expect(dbState.updated).toHaveLength(0);
+    });
+  });
+
+  describe('checkSchemaActivationGate', () => {
+    it('blocks activation when the latest matching run failed gating', async () => {
+      dbState.joinedRuns = [
+        { run: { id: 'run-fra', passedGating: true }, documentTypes: ['FRA'] },
+        { run: { id: 'run-gas', passedGating: false, gatingNotes: 'Overall score 70.0% below minimum 80.0%' }, documentTypes: ['GAS'] },
+      ];
+
+      const result = await checkSchemaActivationGate({ version: 'v2.0', documentType: 'GAS' });
+
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('run-gas');
+    });
+
+    it('requires a benchmark run only when configured to', async () => {
+      expect((await checkSchemaActivationGate({ version: 'v2.0', documentType: 'GAS' })).allowed).toBe(true);
+
+      clearBenchmarkGatingConfigCache();
+      mockStorage.getFactorySettingValue.mockResolvedValue(JSON.stringify({ requireBenchmarkForActivation: true }));
+
+      expect((await checkSchemaActivationGate({ version: 'v2.0', documentType: 'GAS' })).allowed).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, beforeAll } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+
+const state = vi.hoisted(() => ({
+  schema: null as Record<string, unknown> | null,
+}));
+
+vi.mock('../server/logger', () => {
+  const logger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: () => logger,
+  };
+  return { logger, jobLogger: logger, default: logger };
+});
+
+vi.mock('../server/session', () => ({
+  requireAuth: (req: any, _res: any, next: () => void) => {
+    req.user = { id: 'user-1', role: 'ORG_ADMIN', organisationId: 'org-1' };
+    next();
+  },
+  requireRole: () => (req: any, _res: any, next: () => void) => {
+    req.user = { id: 'user-1', role: 'ORG_ADMIN', organisationId: 'org-1' };
+    next();
+  },
+}));
+
+vi.mock('../server/db', () => ({ db: {}, pool: {} }));
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getExtractionSchema: vi.fn(async () => state.schema),
+    updateExtractionSchema: vi.fn(async (_id: string, data: Record<string, unknown>) => ({ ...state.schema, ...data })),
+  },
+}));
+
+vi.mock('../server/services/extraction-benchmark', () => ({
+  checkSchemaActivationGate: vi.fn(async () => ({ allowed: true })),
+}));
+
+vi.mock('../server/services/extraction-shadow', () => ({
+  evaluatePromotionGate: vi.fn(),
+  promoteShadowSchema: vi.fn(),
+  rollbackSchemaPromotion: vi.fn(),
+  startShadowRollout: vi.fn(),
+  stopShadowRollout: vi.fn(),
+}));
+
+import { storage } from '../server/storage';
+
+describe('Extraction schema config routes', () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    const { configRouter } = await import('../server/routes/config.routes');
+    app = express();
+    app.use(express.json());
+    app.use('/api', configRouter);
+  }, 60000);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.schema = { id: 'schema-2', version: 'v2.0', documentType: 'GAS', isActive: false, shadowPercentage: 10 };
+  });
+
+  it('refuses to activate a schema outside shadow promotion', async () => {
+    const response = await request(app).patch('/api/config/extraction-schemas/schema-2').send({ isActive: true });
+
+    expect(response.status).toBe(400);
+    expect(storage.updateExtractionSchema).not.toHaveBeenCalled();
+  });
+
+  it('refuses to deactivate the active schema outside rollback', async () => {
+    state.schema = { ...state.schema, isActive: true };
+
+    const response = await request(app).patch('/api/config/extraction-schemas/schema-2').send({ isActive: false });
+
+    expect(response.status).toBe(400);
+    expect(storage.updateExtractionSchema).not.toHaveBeenCalled();
+  });
+
+  it('still saves edits that leave the activation state unchanged', async () => {
+    const response = await request(app)
+      .patch('/api/config/extraction-schemas/schema-2')
+      .send({ isActive: false, promptTemplate: 'Extract every appliance.' });
+
+    expect(response.status).toBe(200);
+    expect(storage.updateExtractionSchema).toHaveBeenCalledWith('schema-2', expect.objectContaining({ promptTemplate: 'Extract every appliance.' }));
+  });
+});
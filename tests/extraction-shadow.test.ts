@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const dbState = vi.hoisted(() => ({
+  schemaResults: [] as any[][],
+  shadowRuns: [] as any[],
+  benchmarkRuns: [] as any[],
+  updates: [] as Array<{ table: string; values: any }>,
+}));
+
+vi.mock('../server/logger', () => {
+  const logger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: () => logger,
+  };
+  return { logger };
+});
+
+vi.mock('../server/replit_integrations/object_storage', () => ({
+  ObjectStorageService: class {},
+}));
+
+vi.mock('../server/services/audit', () => ({
+  recordAudit: vi.fn(async () => null),
+}));
+
+vi.mock('../server/db', async () => {
+  const { getTableName } = await import('drizzle-orm');
+  const rowsFor = (table: any) => {
+    const name = getTableName(table);
+    if (name === 'extraction_schemas') return dbState.schemaResults.shift() ?? [];
+    if (name === 'extraction_runs') return dbState.shadowRuns;
+    return [];
+  };
+  const chain = (rows: () => any[]): any => ({
+    then: (resolve: any, reject: any) => Promise.resolve().then(rows).then(resolve, reject),
+    where: () => chain(rows),
+    orderBy: () => chain(rows),
+    limit: () => chain(rows),
+    innerJoin: () => chain(() => dbState.benchmarkRuns),
+  });
+  const db: any = {
+    select: () => ({
+      from: (table: any) => chain(() => rowsFor(table)),
+    }),
+    update: (table: any) => ({
+      set: (values: any) => ({
+        where: () => {
+          dbState.updates.push({ table: getTableName(table), values });
+          return Object.assign(Promise.resolve(), {
+            returning: () => Promise.resolve([{ id: 'updated', ...values }]),
+          });
+        },
+      }),
+    }),
+    transaction: async (callback: (tx: any) => Promise<any>) => callback(db),
+  };
+  return { db };
+});
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getFactorySettingValue: vi.fn(async () => ''),
+    getExtractionSchema: vi.fn(),
+  },
+}));
+
+import { storage } from '../server/storage';
+import { recordAudit } from '../server/services/audit';
+import { BadRequestError, ConflictError } from '../server/errors';
+import { createTestDependencies } from '../server/services/extraction/dependencies';
+import {
+  clearShadowRolloutConfigCache,
+  compareShadowOutput,
+  evaluatePromotionGate,
+  isInShadowSample,
+  promoteShadowSchema,
+  rollbackSchemaPromotion,
+  runShadowExtraction,
+  startShadowRollout,
+} from '../server/services/extraction-shadow';
+import type { ExtractionSchema } from '@shared/schema';
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+function makeSchema(overrides: Partial<ExtractionSchema> = {}): ExtractionSchema {
+  return {
+    id: 'schema-v3',
+    version: '3.0',
+    documentType: 'GAS',
+    complianceStreamId: null,
+    schemaJson: {},
+    promptTemplate: 'Extract the gas safety record as JSON.',
+    isActive: false,
+    isDeprecated: false,
+    shadowPercentage: 100,
+    shadowStartedAt: new Date('2025-05-01'),
+    promotedAt: null,
+    promotedById: null,
+    previousSchemaId: null,
+    createdAt: new Date('2025-04-01'),
+    updatedAt: new Date('2025-04-01'),
+    ...overrides,
+  };
+}
+
+function gasOutput(overrides: Record<string, unknown> = {}) {
+  return {
+    certificateType: 'GAS' as const,
+    certificateNumber: 'GS-1',
+    propertyAddress: null,
+    uprn: null,
+    inspectionDate: '2024-01-15',
+    expiryDate: null,
+    nextInspectionDate: null,
+    outcome: 'PASS',
+    engineerName: null,
+    engineerRegistration: null,
+    contractorName: null,
+    contractorRegistration: null,
+    appliances: [],
+    defects: [],
+    additionalFields: {},
+    ...overrides,
+  };
+}
+
+function shadowRuns(count: number, disagreementRate: number) {
+  return Array.from({ length: count }, () => ({
+    disagreementRate,
+    disagreements: disagreementRate > 0 ? [{ field: 'engineerName', primary: 'A', shadow: 'B' }] : [],
+  }));
+}
+
+describe('Extraction schema shadow rollout', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearShadowRolloutConfigCache();
+    mockStorage.getFactorySettingValue.mockResolvedValue('');
+    dbState.schemaResults = [];
+    dbState.shadowRuns = [];
+    dbState.benchmarkRuns = [];
+    dbState.updates = [];
+  });
+
+  it('samples certificates deterministically by percentage', () => {
+    const ids = Array.from({ length: 400 }, (_, i) => `cert-${i}`);
+    const sampled = ids.filter(id => isInShadowSample(id, 25));
+
+    expect(sampled.length).toBeGreaterThan(60);
+    expect(sampled.length).toBeLessThan(140);
+    expect(ids.filter(id => isInShadowSample(id, 25))).toEqual(sampled);
+    expect(isInShadowSample('cert-1', 0)).toBe(false);
+    expect(isInShadowSample('cert-1', 100)).toBe(true);
+  });
+
+  it('reports field-level disagreement ignoring formatting and internal fields', () => {
+    const comparison = compareShadowOutput(
+      { certificateNumber: 'GS-1', inspectionDate: '15/01/2024', engineerName: 'John Smith', _tierHistory: [] },
+      { certificateNumber: 'gs 1', inspectionDate: '2024-01-15', engineerName: 'Jane Doe', outcome: 'PASS' }
+    );
+
+    expect(comparison.disagreements).toEqual([
+      { field: 'engineerName', primary: 'John Smith', shadow: 'Jane Doe' },
+      { field: 'outcome', primary: null, shadow: 'PASS' },
+    ]);
+    expect(comparison.disagreementRate).toBe(0.5);
+  });
+
+  it('stores the candidate output and disagreements on the primary run', async () => {
+    dbState.schemaResults = [[makeSchema()]];
+    const deps = createTestDependencies({
+      extractWithClaudeText: async () => ({
+        success: true,
+        data: gasOutput({ engineerName: 'Jane Doe' }),
+        confidence: 0.95,
+        cost: 0.003,
+      }),
+    });
+
+    const comparison = await runShadowExtraction({
+      extractionRunId: 'run-1',
+      certificateId: 'cert-1',
+      documentType: 'GAS',
+      buffer: Buffer.from('pdf'),
+      mimeType: 'application/pdf',
+      fileName: 'gas.pdf',
+      primaryOutput: gasOutput({ engineerName: 'John Smith' }),
+      primaryTier: 'tier-1.5',
+    }, deps);
+
+    expect(comparison?.disagreements.map(d => d.field)).toEqual(['engineerName']);
+    const update = dbState.updates.find(u => u.table === 'extraction_runs');
+    expect(update?.values).toMatchObject({
+      shadowSchemaId: 'schema-v3',
+      shadowOutput: expect.objectContaining({ engineerName: 'Jane Doe' }),
+      shadowDisagreements: [{ field: 'engineerName', primary: 'John Smith', shadow: 'Jane Doe' }],
+    });
+  });
+
+  it('skips certificates when no candidate is in shadow mode', async () => {
+    const comparison = await runShadowExtraction({
+      extractionRunId: 'run-1',
+      certificateId: 'cert-1',
+      documentType: 'GAS',
+      buffer: Buffer.from('pdf'),
+      mimeType: 'application/pdf',
+      fileName: 'gas.pdf',
+      primaryOutput: {},
+      primaryTier: 'tier-3',
+    });
+
+    expect(comparison).toBeNull();
+    expect(dbState.updates).toHaveLength(0);
+  });
+
+  it('only compares shadows that answer from the same prompt-driven tier as the primary', async () => {
+    const params = {
+      extractionRunId: 'run-1',
+      certificateId: 'cert-1',
+      documentType: 'GAS',
+      buffer: Buffer.from('pdf'),
+      mimeType: 'application/pdf',
+      fileName: 'gas.pdf',
+      primaryOutput: gasOutput(),
+    };
+    const templateDeps = createTestDependencies({
+      extractWithTemplate: () => ({
+        success: true,
+        data: gasOutput({ engineerName: 'Jane Doe' }),
+        confidence: 0.95,
+        matchedFields: 10,
+        totalExpectedFields: 10,
+      }),
+    });
+
+    dbState.schemaResults = [[makeSchema()]];
+    expect(await runShadowExtraction({ ...params, primaryTier: 'tier-1' }, templateDeps)).toBeNull();
+    dbState.schemaResults = [[makeSchema()]];
+    expect(await runShadowExtraction({ ...params, primaryTier: 'tier-1.5' }, templateDeps)).toBeNull();
+    expect(dbState.updates).toHaveLength(0);
+  });
+
+  it('refuses a second shadow candidate for the same document type', async () => {
+    mockStorage.getExtractionSchema.mockResolvedValue(makeSchema({ shadowPercentage: 0 }));
+    dbState.schemaResults = [[makeSchema({ id: 'schema-other', version: '2.5' })]];
+
+    await expect(startShadowRollout('schema-v3', 20, 'org-1')).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('gates promotion on sample size, disagreement rate and benchmark result', async () => {
+    dbState.shadowRuns = shadowRuns(5, 0.3);
+    dbState.benchmarkRuns = [{ run: { id: 'eval-1', overallScore: 0.7, passedGating: false, createdAt: new Date() }, documentTypes: ['GAS'] }];
+
+    const gate = await evaluatePromotionGate(makeSchema());
+
+    expect(gate.allowed).toBe(false);
+    expect(gate.reasons).toHaveLength(3);
+    expect(gate.stats).toEqual({ samples: 5, disagreementRate: 0.3, fieldDisagreements: { engineerName: 5 } });
+  });
+
+  it('promotes a candidate that passes the gate and records who promoted it', async () => {
+    mockStorage.getExtractionSchema.mockResolvedValue(makeSchema());
+    dbState.shadowRuns = shadowRuns(25, 0.02);
+    dbState.benchmarkRuns = [{ run: { id: 'eval-2', overallScore: 0.93, passedGating: true, createdAt: new Date() }, documentTypes: [] }];
+    dbState.schemaResults = [[makeSchema({ id: 'schema-v2', version: '2.0', isActive: true, shadowPercentage: 0 })]];
+
+    const { schema } = await promoteShadowSchema('schema-v3', 'org-1', { actorId: 'user-7', actorName: 'Alex' });
+
+    expect(schema).toMatchObject({ isActive: true, shadowPercentage: 0, promotedById: 'user-7', previousSchemaId: 'schema-v2' });
+    expect(dbState.updates[0].values).toMatchObject({ isActive: false });
+    expect(recordAudit).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: 'EXTRACTION_SCHEMA_PROMOTED',
+      entityId: 'schema-v3',
+      afterState: { activeSchemaId: 'schema-v3', activeVersion: '3.0' },
+      metadata: expect.objectContaining({ benchmarkRunId: 'eval-2', shadowSamples: 25 }),
+      context: { actorId: 'user-7', actorName: 'Alex' },
+    }));
+  });
+
+  it('blocks promotion when the gate fails', async () => {
+    mockStorage.getExtractionSchema.mockResolvedValue(makeSchema());
+    dbState.shadowRuns = shadowRuns(2, 0);
+
+    await expect(promoteShadowSchema('schema-v3', 'org-1')).rejects.toBeInstanceOf(ConflictError);
+    expect(dbState.updates).toHaveLength(0);
+  });
+
+  it('rolls back to the schema a promotion replaced', async () => {
+    mockStorage.getExtractionSchema.mockImplementation(async (id: string) => id === 'schema-v3'
+      ? makeSchema({ isActive: true, shadowPercentage: 0, previousSchemaId: 'schema-v2', promotedById: 'user-7' })
+      : makeSchema({ id: 'schema-v2', version: '2.0', shadowPercentage: 0 }));
+
+    const restored = await rollbackSchemaPromotion('schema-v3', 'org-1');
+
+    expect(restored).toMatchObject({ isActive: true });
+    expect(dbState.updates.map(u => u.values.isActive)).toEqual([false, true]);
+    expect(recordAudit).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: 'EXTRACTION_SCHEMA_ROLLED_BACK',
+      afterState: { activeSchemaId: 'schema-v2', activeVersion: '2.0' },
+    }));
+  });
+
+  it('rejects rollback of a schema that was never promoted', async () => {
+    mockStorage.getExtractionSchema.mockResolvedValue(makeSchema({ isActive: true, shadowPercentage: 0 }));
+
+    await expect(rollbackSchemaPromotion('schema-v3', 'org-1')).rejects.toBeInstanceOf(BadRequestError);
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+import {
+  applyHazardCaseTransition,
+  applyHazardActionTransition,
+  getAllowedHazardCaseTransitions,
+  parseHazardActionUpdate,
+  parseHazardCaseCreate,
+  parseHazardCaseUpdate,
+} from '../server/services/hazard-workflow';
+import { ZodError } from 'zod';
+import { InvalidStateTransitionError } from '../server/errors';
+import type { HazardCase, HazardAction } from '../shared/schema';
+
+describe('Hazard Workflow', () => {
+  const now = new Date('2025-11-10T12:00:00Z');
+
+  const baseCase = {
+    id: 'case-1',
+    status: 'REPORTED',
+    reportedAt: new Date('2025-11-03T09:00:00Z'),
+    acknowledgedAt: null,
+    initialInspectionAt: null,
+    worksStartedAt: null,
+    worksCompletedAt: null,
+    resolvedAt: null,
+    completionPhotos: null,
+    closureReason: null,
+    closedById: null,
+    closedAt: null,
+  } as unknown as HazardCase;
+
+  const baseAction = {
+    id: 'action-1',
+    status: 'PENDING',
+    scheduledDate: null,
+    outcome: null,
+    completedAt: null,
+  } as unknown as HazardAction;
+
+  describe('applyHazardCaseTransition', () => {
+    it('should pass through updates that do not change status', () => {
+      const updates = { description: 'Updated' } as Partial<HazardCase>;
+      expect(applyHazardCaseTransition(baseCase, updates, now)).toEqual(updates);
+    });
+
+    it('should reject skipping straight from reported to closed', () => {
+      expect(() => applyHazardCaseTransition(baseCase, { status: 'CLOSED' }, now))
+        .toThrow(InvalidStateTransitionError);
+    });
+
+    it('should stamp acknowledgedAt when a case is acknowledged', () => {
+      const result = applyHazardCaseTransition(baseCase, { status: 'ACKNOWLEDGED' }, now);
+      expect(result.acknowledgedAt).toEqual(now);
+    });
+
+    it('should require an inspection before works are scheduled', () => {
+      const investigating = { ...baseCase, status: 'INVESTIGATING' } as HazardCase;
+      try {
+        applyHazardCaseTransition(investigating, { status: 'WORKS_SCHEDULED' }, now);
+        expect.fail('expected transition to be rejected');
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidStateTransitionError);
+        expect((error as InvalidStateTransitionError).errors?.[0].path).toBe('initialInspectionAt');
+      }
+    });
+
+    it('should accept the inspection date supplied with the transition', () => {
+      const investigating = { ...baseCase, status: 'INVESTIGATING' } as HazardCase;
+      const result = applyHazardCaseTransition(
+        investigating,
+        { status: 'WORKS_SCHEDULED', initialInspectionAt: new Date('2025-11-05T10:00:00Z') },
+        now
+      );
+      expect(result.status).toBe('WORKS_SCHEDULED');
+    });
+
+    it('should require completion photos before works are completed', () => {
+      const inProgress = {
+        ...baseCase,
+        status: 'WORKS_IN_PROGRESS',
+        initialInspectionAt: new Date('2025-11-05T10:00:00Z'),
+        worksStartedAt: new Date('2025-11-07T10:00:00Z'),
+        completionPhotos: [],
+      } as unknown as HazardCase;
+      expect(() => applyHazardCaseTransition(inProgress, { status: 'WORKS_COMPLETED' }, now))
+        .toThrow(InvalidStateTransitionError);
+
+      const result = applyHazardCaseTransition(
+        inProgress,
+        { status: 'WORKS_COMPLETED', completionPhotos: ['photo-1.jpg'] } as Partial<HazardCase>,
+        now
+      );
+      expect(result.worksCompletedAt).toEqual(now);
+    });
+
+    it('should not overwrite a timestamp that was supplied', () => {
+      const scheduled = {
+        ...baseCase,
+        status: 'WORKS_SCHEDULED',
+        initialInspectionAt: new Date('2025-11-05T10:00:00Z'),
+      } as HazardCase;
+      const startedAt = new Date('2025-11-08T08:00:00Z');
+      const result = applyHazardCaseTransition(scheduled, { status: 'WORKS_IN_PROGRESS', worksStartedAt: startedAt }, now);
+      expect(result.worksStartedAt).toEqual(startedAt);
+    });
+
+    it('should require a closure reason and closer before closing', () => {
+      const resolved = { ...baseCase, status: 'RESOLVED' } as HazardCase;
+      expect(() => applyHazardCaseTransition(resolved, { status: 'CLOSED', closedById: 'user-1' }, now))
+        .toThrow(InvalidStateTransitionError);
+
+      const result = applyHazardCaseTransition(
+        resolved,
+        { status: 'CLOSED', closedById: 'user-1', closureReason: 'Works verified' },
+        now
+      );
+      expect(result.closedAt).toEqual(now);
+    });
+
+    it('should treat closed as terminal', () => {
+      const closed = { ...baseCase, status: 'CLOSED' } as HazardCase;
+      expect(getAllowedHazardCaseTransitions('CLOSED')).toEqual([]);
+      expect(() => applyHazardCaseTransition(closed, { status: 'INVESTIGATING' }, now))
+        .toThrow(InvalidStateTransitionError);
+    });
+  });
+
+  describe('applyHazardActionTransition', () => {
+    it('should require a scheduled date before scheduling', () => {
+      expect(() => applyHazardActionTransition(baseAction, { status: 'SCHEDULED' }, now))
+        .toThrow(InvalidStateTransitionError);
+      expect(applyHazardActionTransition(baseAction, { status: 'SCHEDULED', scheduledDate: '2025-11-12' }, now).status)
+        .toBe('SCHEDULED');
+    });
+
+    it('should require an outcome and stamp completedAt on completion', () => {
+      const inProgress = { ...baseAction, status: 'IN_PROGRESS' } as HazardAction;
+      expect(() => applyHazardActionTransition(inProgress, { status: 'COMPLETED' }, now))
+        .toThrow(InvalidStateTransitionError);
+
+      const result = applyHazardActionTransition(inProgress, { status: 'COMPLETED', outcome: 'Extractor fan fitted' }, now);
+      expect(result.completedAt).toEqual(now);
+    });
+
+    it('should not reopen a cancelled action', () => {
+      const cancelled = { ...baseAction, status: 'CANCELLED' } as HazardAction;
+      expect(() => applyHazardActionTransition(cancelled, { status: 'PENDING' }, now))
+        .toThrow(InvalidStateTransitionError);
+    });
+  });
+
+  describe('parseHazardCaseUpdate', () => {
+    it('should convert ISO strings on timestamp fields only', () => {
+      const parsed = parseHazardCaseUpdate({ initialInspectionAt: '2025-11-05T10:00:00Z', description: 'Mould' });
+      expect(parsed.initialInspectionAt).toBeInstanceOf(Date);
+      expect(parsed.description).toBe('Mould');
+    });
+
+    it('should reject unparseable dates and drop server-derived deadlines', () => {
+      expect(() => parseHazardCaseUpdate({ initialInspectionAt: 'next tuesday' })).toThrow(ZodError);
+      expect(() => parseHazardCaseUpdate({ status: 'SORTED' })).toThrow(ZodError);
+
+      const parsed = parseHazardCaseUpdate({ worksStartDue: '2030-01-01', organisationId: 'org-2', acknowledgedAt: '' });
+      expect(parsed).toEqual({ acknowledgedAt: null });
+    });
+
+    it('should drop the breach record, closer and property from client updates', () => {
+      const parsed = parseHazardCaseUpdate({
+        slaBreach: false,
+        slaBreachType: null,
+        slaBreachAt: '',
+        escalationLevel: 0,
+        closedById: 'user-2',
+        propertyId: 'property-2',
+        closureReason: 'Works verified',
+      });
+      expect(parsed).toEqual({ closureReason: 'Works verified' });
+    });
+  });
+
+  describe('parseHazardCaseCreate', () => {
+    const report = {
+      propertyId: 'property-1',
+      caseReference: 'HZ-002',
+      category: 'MOULD',
+      severity: 'SERIOUS',
+      description: 'Black mould in bedroom',
+    };
+
+    it('should accept a new report and drop server-owned fields', () => {
+      const parsed = parseHazardCaseCreate({
+        ...report,
+        status: 'CLOSED',
+        slaBreach: true,
+        escalationLevel: 3,
+        worksStartDue: '2030-01-01',
+        organisationId: 'org-2',
+        reportedAt: '2025-11-03T09:00:00Z',
+      });
+      expect(parsed).toEqual({ ...report, reportedAt: new Date('2025-11-03T09:00:00Z') });
+    });
+
+    it('should reject reports missing a property or with unparseable dates', () => {
+      const { propertyId: _propertyId, ...withoutProperty } = report;
+      expect(() => parseHazardCaseCreate(withoutProperty)).toThrow(ZodError);
+      expect(() => parseHazardCaseCreate({ ...report, reportedAt: 'this morning' })).toThrow(ZodError);
+    });
+  });
+
+  describe('parseHazardActionUpdate', () => {
+    it('should store scheduled dates as calendar dates and completion as a timestamp', () => {
+      const parsed = parseHazardActionUpdate({ scheduledDate: '2025-11-12T09:30:00Z', completedAt: '2025-11-14T16:00:00Z', hazardCaseId: 'case-2' });
+      expect(parsed).toEqual({ scheduledDate: '2025-11-12', completedAt: new Date('2025-11-14T16:00:00Z') });
+    });
+
+    it('should reject unparseable dates', () => {
+      expect(() => parseHazardActionUpdate({ scheduledDate: 'soon' })).toThrow(ZodError);
+      expect(() => parseHazardActionUpdate({ completedAt: 'yesterday' })).toThrow(ZodError);
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const dbState = vi.hoisted(() => ({
+  profiles: [] as any[],
+  events: [] as any[],
+  alerts: [] as any[],
+  inserted: [] as any[],
+  updated: [] as any[],
+}));
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', async () => {
+  const { getTableName } = await import('drizzle-orm');
+  const rowsFor = (table: any) => {
+    const name = getTableName(table);
+    if (name === 'building_safety_profiles') return dbState.profiles;
+    if (name === 'compliance_calendar_events') return dbState.events;
+    return dbState.alerts;
+  };
+  return {
+    db: {
+      select: () => ({
+        from: (table: any) => ({
+          where: () => {
+            const rows = Promise.resolve(rowsFor(table));
+            return Object.assign(rows, { limit: () => Promise.resolve(rowsFor(table)) });
+          },
+        }),
+      }),
+      insert: () => ({
+        values: (values: any) => {
+          dbState.inserted.push(values);
+          return Promise.resolve();
+        },
+      }),
+      update: () => ({
+        set: (values: any) => ({
+          where: () => {
+            dbState.updated.push(values);
+            return Promise.resolve();
+          },
+        }),
+      }),
+    },
+  };
+});
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getFactorySettingValue: vi.fn().mockResolvedValue(''),
+    listBuildingSafetyProfiles: vi.fn(async () => dbState.profiles),
+    listSafetyCaseReviews: vi.fn(async () => []),
+    getBlock: vi.fn(async (id: string) => ({ id, name: id === 'block-1' ? 'Tower A' : 'Tower B' })),
+    listProperties: vi.fn(async () => [{ id: 'property-1' }]),
+    getComplianceStreamByCode: vi.fn(async () => ({ id: 'stream-building' })),
+    createCalendarEvent: vi.fn(async (event) => ({ id: 'event-1', ...event })),
+  },
+}));
+
+import { storage } from '../server/storage';
+import {
+  DEFAULT_HRB_READINESS_CONFIG,
+  HRB_READINESS_ALERT_TYPE,
+  clearHrbReadinessConfigCache,
+  getHrbReadinessPortfolio,
+  mergeHrbReadinessConfig,
+  runHrbReadinessSweep,
+  scoreHrbReadiness,
+} from '../server/services/hrb-readiness';
+import type { BuildingSafetyProfile, SafetyCaseReview } from '@shared/schema';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+function makeProfile(overrides: Partial<BuildingSafetyProfile> = {}): BuildingSafetyProfile {
+  return {
+    id: 'profile-1',
+    organisationId: 'org-1',
+    blockId: 'block-1',
+    isHRB: true,
+    hrbRegistrationNumber: 'HRB-123',
+    hrbRegistrationDate: '2023-10-01',
+    hrbStatusConfirmedAt: null,
+    buildingHeight: 32,
+    numberOfStoreys: 11,
+    numberOfResidentialUnits: 88,
+    buildingFootprint: null,
+    constructionType: null,
+    yearBuilt: 1972,
+    externalWallSystem: null,
+    claddingType: null,
+    hasACM: false,
+    hasHPL: false,
+    evacuationStrategy: 'STAY_PUT' as BuildingSafetyProfile['evacuationStrategy'],
+    evacuationStrategyLastReviewed: '2025-01-15',
+    principalAccountablePersonName: 'Sam Patel',
+    principalAccountablePersonContact: null,
+    accountablePersonOrg: null,
+    buildingSafetyManagerName: null,
+    buildingSafetyManagerContact: null,
+    buildingSafetyManagerAppointedAt: null,
+    safetyCaseStatus: 'CURRENT',
+    safetyCaseLastReviewedAt: '2024-12-01',
+    safetyCaseNextReviewDue: '2025-12-01',
+    goldenThreadRepositoryUrl: null,
+    goldenThreadLastUpdated: null,
+    residentEngagementStrategy: 'Quarterly resident panel',
+    residentEngagementLastReviewed: '2024-09-01',
+    buildingAssuranceCertificateRef: null,
+    buildingAssuranceCertificateDate: null,
+    buildingAssuranceCertificateExpiry: null,
+    keyBuildingInfoSubmitted: true,
+    keyBuildingInfoSubmittedAt: null,
+    competentPersonAssessments: null,
+    metadata: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function makeReview(overrides: Partial<SafetyCaseReview> = {}): SafetyCaseReview {
+  return {
+    id: 'review-1',
+    buildingSafetyProfileId: 'profile-1',
+    reviewDate: '2024-06-01',
+    reviewType: 'ANNUAL',
+    reviewedByName: 'Jo Smith',
+    reviewedByRole: null,
+    overallAssessment: 'SATISFACTORY',
+    riskLevel: null,
+    findingsSummary: null,
+    actionsRequired: null,
+    documentRef: null,
+    storageKey: null,
+    nextReviewDue: '2025-06-01',
+    metadata: null,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('HRB readiness', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearHrbReadinessConfigCache();
+    dbState.profiles = [];
+    dbState.events = [];
+    dbState.alerts = [];
+    dbState.inserted = [];
+    dbState.updated = [];
+    mockStorage.getFactorySettingValue.mockResolvedValue('');
+    mockStorage.listSafetyCaseReviews.mockResolvedValue([]);
+  });
+
+  describe('mergeHrbReadinessConfig', () => {
+    it('should keep known checks and fall back to defaults for invalid values', () => {
+      const config = mergeHrbReadinessConfig({
+        checks: ['SAFETY_CASE', 'UNKNOWN' as never, 'ACCOUNTABLE_PERSON'],
+        dueSoonDays: -5,
+        evacuationStrategyReviewMonths: 6,
+      });
+
+      expect(config).toEqual({
+        ...DEFAULT_HRB_READINESS_CONFIG,
+        checks: ['ACCOUNTABLE_PERSON', 'SAFETY_CASE'],
+        evacuationStrategyReviewMonths: 6,
+      });
+      expect(mergeHrbReadinessConfig({ checks: [] }).checks).toEqual(DEFAULT_HRB_READINESS_CONFIG.checks);
+    });
+  });
+
+  describe('scoreHrbReadiness', () => {
+    it('should score a building meeting every duty as fully ready', () => {
+      const readiness = scoreHrbReadiness(makeProfile(), [], DEFAULT_HRB_READINESS_CONFIG, NOW);
+
+      expect(readiness.score).toBe(100);
+      expect(readiness.outstandingItems).toEqual([]);
+      expect(readiness.items.find(item => item.check === 'BUILDING_ASSURANCE_CERTIFICATE')!.status).toBe('NOT_APPLICABLE');
+    });
+
+    it('should take the safety case due date from the latest review', () => {
+      const reviews = [
+        makeReview({ id: 'older', reviewDate: '2023-06-01', nextReviewDue: '2026-01-01' }),
+        makeReview({ id: 'latest', reviewDate: '2024-06-01', nextReviewDue: '2025-05-20' }),
+      ];
+
+      const safetyCase = scoreHrbReadiness(makeProfile(), reviews, DEFAULT_HRB_READINESS_CONFIG, NOW)
+        .items.find(item => item.check === 'SAFETY_CASE')!;
+
+      expect(safetyCase).toMatchObject({ status: 'OVERDUE', dueDate: '2025-05-20', detail: 'Overdue since 2025-05-20' });
+    });
+
+    it('should flag gaps, unmitigated cladding and reviews falling due', () => {
+      const readiness = scoreHrbReadiness(makeProfile({
+        principalAccountablePersonName: ' ',
+        keyBuildingInfoSubmitted: false,
+        hasACM: true,
+        evacuationStrategyLastReviewed: '2024-06-20',
+      }), [], DEFAULT_HRB_READINESS_CONFIG, NOW);
+
+      const statuses = Object.fromEntries(readiness.items.map(item => [item.check, item.status]));
+      expect(statuses).toMatchObject({
+        ACCOUNTABLE_PERSON: 'NOT_MET',
+        KEY_BUILDING_INFO: 'NOT_MET',
+        CLADDING_MITIGATION: 'NOT_MET',
+        EVACUATION_STRATEGY: 'DUE_SOON',
+        SAFETY_CASE: 'MET',
+      });
+      expect(readiness.score).toBe(50);
+      expect(readiness.outstandingItems.map(item => item.check)).toEqual(['ACCOUNTABLE_PERSON', 'KEY_BUILDING_INFO', 'CLADDING_MITIGATION']);
+    });
+
+    it('should accept recorded cladding mitigation', () => {
+      const readiness = scoreHrbReadiness(makeProfile({ hasHPL: true, metadata: { claddingMitigation: 'Waking watch and common alarm' } }), [], DEFAULT_HRB_READINESS_CONFIG, NOW);
+
+      expect(readiness.items.find(item => item.check === 'CLADDING_MITIGATION')).toMatchObject({ status: 'MET', detail: 'HPL cladding with mitigation in place' });
+    });
+  });
+
+  describe('getHrbReadinessPortfolio', () => {
+    it('should list the least ready buildings first with a portfolio summary', async () => {
+      dbState.profiles = [
+        makeProfile(),
+        makeProfile({ id: 'profile-2', blockId: 'block-2', safetyCaseNextReviewDue: '2025-03-01', keyBuildingInfoSubmitted: false }),
+      ];
+
+      const portfolio = await getHrbReadinessPortfolio('org-1', NOW);
+
+      expect(mockStorage.listBuildingSafetyProfiles).toHaveBeenCalledWith('org-1', { isHrb: true });
+      expect(portfolio.buildings.map(building => [building.blockName, building.score])).toEqual([['Tower B', 67], ['Tower A', 100]]);
+      expect(portfolio.summary).toEqual({ buildings: 2, averageScore: 84, fullyReady: 1, withOutstandingItems: 1, overdueItems: 1 });
+    });
+  });
+
+  describe('runHrbReadinessSweep', () => {
+    it('should schedule overdue items and raise one alert per building', async () => {
+      dbState.profiles = [makeProfile({ safetyCaseNextReviewDue: '2025-05-01', keyBuildingInfoSubmitted: false })];
+
+      const result = await runHrbReadinessSweep(NOW);
+
+      expect(result).toEqual({ checked: 1, eventsScheduled: 1, alertsRaised: 1, alertsResolved: 0 });
+      expect(mockStorage.createCalendarEvent).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Safety case review: Tower A',
+        eventType: 'INSPECTION',
+        complianceStreamId: 'stream-building',
+        startDate: NOW,
+        propertyId: 'property-1',
+        priority: 'HIGH',
+        isSystemGenerated: true,
+      }));
+      expect(dbState.inserted[0]).toMatchObject({
+        alertType: HRB_READINESS_ALERT_TYPE,
+        propertyId: 'property-1',
+        riskTier: 'CRITICAL',
+        triggeringFactors: ['Safety case review: Overdue since 2025-05-01', 'Key building information submitted: Key building information not submitted'],
+        metadata: { buildingSafetyProfileId: 'profile-1', blockId: 'block-1' },
+      });
+    });
+
+    it('should not reschedule an item already in the calendar and resolve the alert once ready', async () => {
+      dbState.profiles = [makeProfile({ safetyCaseNextReviewDue: '2025-06-20' })];
+      dbState.events = [{ title: 'Safety case review: Tower A', startDate: new Date('2025-06-20') }];
+      dbState.alerts = [{ id: 'alert-1', triggeringFactors: ['Key building information submitted: Key building information not submitted'] }];
+
+      const result = await runHrbReadinessSweep(NOW);
+
+      expect(result).toEqual({ checked: 1, eventsScheduled: 0, alertsRaised: 0, alertsResolved: 1 });
+      expect(mockStorage.createCalendarEvent).not.toHaveBeenCalled();
+      expect(dbState.updated[0]).toMatchObject({ status: 'RESOLVED', resolutionNotes: 'All HRB readiness checks met' });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', () => ({
+  db: {},
+}));
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getInboundWebhookSourceByKeyId: vi.fn(),
+    recordInboundWebhookNonce: vi.fn(),
+    updateInboundWebhookSource: vi.fn(),
+  },
+}));
+
+import { storage } from '../server/storage';
+import {
+  authenticateInboundWebhook,
+  computeInboundSignature,
+  hashInboundCredential,
+  inboundWebhookSourceCreateSchema,
+  inboundWebhookSourceUpdateSchema,
+  isTimestampWithinTolerance,
+  redactInboundHeaders,
+} from '../server/services/inbound-webhook-auth';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+const TIMESTAMP = String(Math.floor(NOW.getTime() / 1000));
+const NONCE = 'nonce-0123456789abcdef';
+const SECRET = 'test-secret';
+const BODY = Buffer.from(JSON.stringify({ actionId: 'action-1', status: 'COMPLETED' }));
+
+const mockStorage = storage as unknown as {
+  getInboundWebhookSourceByKeyId: ReturnType<typeof vi.fn>;
+  recordInboundWebhookNonce: ReturnType<typeof vi.fn>;
+  updateInboundWebhookSource: ReturnType<typeof vi.fn>;
+};
+
+function makeSource(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'source-1',
+    organisationId: 'org-1',
+    source: 'HMS',
+    name: 'Housing system',
+    keyId: 'whk_test',
+    authType: 'HMAC_SHA256',
+    authValue: SECRET,
+    toleranceSeconds: 300,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+function signedHeaders(overrides: Record<string, string> = {}) {
+  return {
+    'x-webhook-key-id': 'whk_test',
+    'x-webhook-timestamp': TIMESTAMP,
+    'x-webhook-nonce': NONCE,
+    'x-webhook-signature': `sha256=${computeInboundSignature(SECRET, TIMESTAMP, NONCE, BODY)}`,
+    ...overrides,
+  };
+}
+
+describe('Inbound Webhook Auth', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage.getInboundWebhookSourceByKeyId.mockResolvedValue(makeSource());
+    mockStorage.recordInboundWebhookNonce.mockResolvedValue(true);
+  });
+
+  it('should accept a correctly signed request and record its nonce', async () => {
+    const result = await authenticateInboundWebhook('HMS', signedHeaders(), BODY, NOW);
+
+    expect(result.ok).toBe(true);
+    expect(mockStorage.recordInboundWebhookNonce).toHaveBeenCalledWith('source-1', NONCE, new Date(NOW.getTime() + 600_000));
+    expect(mockStorage.updateInboundWebhookSource).toHaveBeenCalledWith('source-1', 'org-1', { lastReceivedAt: NOW });
+  });
+
+  it('should reject a tampered body', async () => {
+    const result = await authenticateInboundWebhook('HMS', signedHeaders(), Buffer.from('{"actionId":"other"}'), NOW);
+
+    expect(result).toMatchObject({ ok: false, status: 401, reason: 'INVALID_SIGNATURE' });
+    expect(mockStorage.recordInboundWebhookNonce).not.toHaveBeenCalled();
+  });
+
+  it('should reject a stale timestamp', async () => {
+    const later = new Date(NOW.getTime() + 301_000);
+    const result = await authenticateInboundWebhook('HMS', signedHeaders(), BODY, later);
+
+    expect(result).toMatchObject({ ok: false, reason: 'STALE_TIMESTAMP' });
+  });
+
+  it('should reject a replayed nonce', async () => {
+    mockStorage.recordInboundWebhookNonce.mockResolvedValue(false);
+    const result = await authenticateInboundWebhook('HMS', signedHeaders(), BODY, NOW);
+
+    expect(result).toMatchObject({ ok: false, status: 409, reason: 'REPLAYED_NONCE' });
+    expect(mockStorage.updateInboundWebhookSource).not.toHaveBeenCalled();
+  });
+
+  it('should reject missing keys, unknown, disabled and mismatched sources', async () => {
+    const { 'x-webhook-key-id': _, ...withoutKey } = signedHeaders();
+    expect(await authenticateInboundWebhook('HMS', withoutKey, BODY, NOW)).toMatchObject({ reason: 'MISSING_KEY_ID' });
+
+    mockStorage.getInboundWebhookSourceByKeyId.mockResolvedValueOnce(undefined);
+    expect(await authenticateInboundWebhook('HMS', signedHeaders(), BODY, NOW)).toMatchObject({ status: 401, reason: 'UNKNOWN_SOURCE' });
+
+    mockStorage.getInboundWebhookSourceByKeyId.mockResolvedValueOnce(makeSource({ isActive: false }));
+    expect(await authenticateInboundWebhook('HMS', signedHeaders(), BODY, NOW)).toMatchObject({ status: 403, reason: 'SOURCE_DISABLED' });
+
+    mockStorage.getInboundWebhookSourceByKeyId.mockResolvedValueOnce(makeSource({ source: 'CRM' }));
+    expect(await authenticateInboundWebhook('HMS', signedHeaders(), BODY, NOW)).toMatchObject({ status: 403, reason: 'SOURCE_MISMATCH' });
+  });
+
+  it('should reject malformed nonces', async () => {
+    const result = await authenticateInboundWebhook('HMS', signedHeaders({ 'x-webhook-nonce': 'short' }), BODY, NOW);
+
+    expect(result).toMatchObject({ ok: false, reason: 'MISSING_NONCE' });
+  });
+
+  it('should compare API keys against their stored hash', async () => {
+    mockStorage.getInboundWebhookSourceByKeyId.mockResolvedValue(
+      makeSource({ authType: 'API_KEY', authValue: hashInboundCredential('plain-key') })
+    );
+    const base = { 'x-webhook-key-id': 'whk_test', 'x-webhook-timestamp': TIMESTAMP, 'x-webhook-nonce': NONCE };
+
+    expect((await authenticateInboundWebhook('HMS', { ...base, 'x-api-key': 'plain-key' }, BODY, NOW)).ok).toBe(true);
+    expect(await authenticateInboundWebhook('HMS', { ...base, 'x-api-key': 'wrong-key' }, BODY, NOW))
+      .toMatchObject({ reason: 'INVALID_CREDENTIALS' });
+  });
+
+  it('should only allow timestamps inside the tolerance window', () => {
+    expect(isTimestampWithinTolerance(TIMESTAMP, 300, NOW)).toBe(true);
+    expect(isTimestampWithinTolerance(String(Number(TIMESTAMP) - 301), 300, NOW)).toBe(false);
+    expect(isTimestampWithinTolerance('not-a-number', 300, NOW)).toBe(false);
+  });
+
+  it('should redact credentials from logged headers', () => {
+    const redacted = redactInboundHeaders({ ...signedHeaders(), 'x-api-key': 'k', authorization: 'Bearer t' });
+
+    expect(redacted['x-webhook-signature']).toBe('[REDACTED]');
+    expect(redacted['x-api-key']).toBe('[REDACTED]');
+    expect(redacted.authorization).toBe('[REDACTED]');
+    expect(redacted['x-webhook-key-id']).toBe('whk_test');
+  });
+
+  it('should bound the timestamp tolerance a source can be given', () => {
+    expect(inboundWebhookSourceCreateSchema.parse({ name: 'HMS' })).toMatchObject({ authType: 'HMAC_SHA256', toleranceSeconds: 300 });
+    expect(inboundWebhookSourceCreateSchema.safeParse({ name: 'HMS', toleranceSeconds: 0 }).success).toBe(false);
+    expect(inboundWebhookSourceCreateSchema.safeParse({ name: 'HMS', toleranceSeconds: 86400 * 365 }).success).toBe(false);
+    expect(inboundWebhookSourceUpdateSchema.safeParse({ toleranceSeconds: '600' }).success).toBe(false);
+    expect(inboundWebhookSourceUpdateSchema.parse({ toleranceSeconds: 600 })).toEqual({ toleranceSeconds: 600 });
+  });
+});
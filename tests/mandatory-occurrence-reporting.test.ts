@@ -0,0 +1,274 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const dbState = vi.hoisted(() => ({
+  openAlerts: [] as any[],
+  updates: [] as any[],
+  inserts: [] as any[],
+}));
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', () => ({
+  db: {
+    select: () => ({
+      from: () => ({
+        where: () => ({ limit: () => Promise.resolve(dbState.openAlerts) }),
+      }),
+    }),
+    update: () => ({
+      set: (values: any) => ({
+        where: () => {
+          dbState.updates.push(values);
+          if (values.status === 'RESOLVED') dbState.openAlerts = [];
+          return Promise.resolve();
+        },
+      }),
+    }),
+    insert: () => ({
+      values: (values: any) => {
+        dbState.inserts.push(values);
+        return Promise.resolve();
+      },
+    }),
+  },
+}));
+
+vi.mock('../server/storage/providers', () => ({
+  getOrInitializeStorage: vi.fn(),
+}));
+
+vi.mock('../server/services/report-data', () => ({}));
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getFactorySettingValue: vi.fn().mockResolvedValue(''),
+    getOrganisation: vi.fn(),
+    getProperty: vi.fn(),
+    getBlock: vi.fn(),
+    getBuildingSafetyProfile: vi.fn(),
+    getHazardCase: vi.fn(),
+    getCertificate: vi.fn(),
+    listHazardActions: vi.fn(),
+    listRemedialActions: vi.fn(),
+  },
+}));
+
+import { storage } from '../server/storage';
+import {
+  DEFAULT_OCCURRENCE_REPORTING_CONFIG,
+  buildOccurrenceSubmissionPack,
+  calculateReportDeadline,
+  clearOccurrenceReportingConfigCache,
+  deriveOccurrenceReportFields,
+  evaluateDeadlineStage,
+  mergeOccurrenceReportingConfig,
+  parseOccurrenceReportDates,
+  refreshOccurrenceDeadlineAlert,
+  renderSubmissionPackPdf,
+  submissionPackToReportDocument,
+} from '../server/services/mandatory-occurrence-reporting';
+import type { MandatoryOccurrenceReport } from '@shared/schema';
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const occurrenceDate = new Date('2025-09-01T08:00:00Z');
+
+function makeReport(overrides: Partial<MandatoryOccurrenceReport> = {}): MandatoryOccurrenceReport {
+  return {
+    id: 'mor-1',
+    organisationId: 'org-1',
+    buildingSafetyProfileId: 'profile-1',
+    propertyId: null,
+    blockId: 'block-1',
+    reportReference: 'MOR-2025-001',
+    occurrenceType: 'FIRE_SPREAD',
+    occurrenceDate,
+    reportedToRegulatorAt: null,
+    reportDeadline: new Date('2025-09-11T08:00:00Z'),
+    wasReportedInTime: null,
+    description: 'Fire spread through a riser between floors 4 and 6',
+    immediateActionsToken: 'Waking watch in place',
+    riskToSafety: 'HIGH',
+    personsAffected: 40,
+    injuriesReported: false,
+    investigationStatus: 'IN_PROGRESS',
+    investigationFindings: null,
+    investigationCompletedAt: null,
+    correctiveActions: [{ description: 'Reinstate fire stopping in riser', status: 'OPEN' }, 'Review riser inspection regime'],
+    preventiveMeasures: null,
+    regulatorReference: null,
+    regulatorResponse: null,
+    linkedHazardCaseIds: ['hazard-1', 'hazard-other-org'],
+    linkedCertificateIds: ['cert-1', 'cert-other-org'],
+    closedAt: null,
+    closedById: null,
+    metadata: null,
+    createdAt: occurrenceDate,
+    updatedAt: occurrenceDate,
+    ...overrides,
+  };
+}
+
+describe('Mandatory occurrence reporting', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearOccurrenceReportingConfigCache();
+    mockStorage.getFactorySettingValue.mockResolvedValue('');
+  });
+
+  describe('calculateReportDeadline', () => {
+    it('should give safety occurrences the ten-day regulator window by default', () => {
+      expect(calculateReportDeadline('Fire spread', occurrenceDate).toISOString()).toBe('2025-09-11T08:00:00.000Z');
+      expect(calculateReportDeadline('UNLISTED', occurrenceDate).toISOString()).toBe('2025-09-11T08:00:00.000Z');
+    });
+
+    it('should use configured hours per occurrence type', () => {
+      const config = mergeOccurrenceReportingConfig({ deadlineHours: { STRUCTURAL_FAILURE: 72 }, alertLeadHours: [12, 48, -1] });
+
+      expect(calculateReportDeadline('structural failure', occurrenceDate, config).toISOString()).toBe('2025-09-04T08:00:00.000Z');
+      expect(config.deadlineHours.FIRE_SPREAD).toBe(240);
+      expect(config.alertLeadHours).toEqual([48, 12]);
+    });
+  });
+
+  describe('deriveOccurrenceReportFields', () => {
+    it('should set wasReportedInTime once the report to the regulator is recorded', async () => {
+      mockStorage.getFactorySettingValue.mockResolvedValue(JSON.stringify({ deadlineHours: { FIRE_SPREAD: 48 } }));
+
+      const onTime = await deriveOccurrenceReportFields({
+        occurrenceType: 'FIRE_SPREAD',
+        occurrenceDate,
+        reportedToRegulatorAt: new Date('2025-09-03T07:59:00Z'),
+      });
+      const late = await deriveOccurrenceReportFields({
+        occurrenceType: 'FIRE_SPREAD',
+        occurrenceDate,
+        reportedToRegulatorAt: new Date('2025-09-03T08:01:00Z'),
+      });
+      const pending = await deriveOccurrenceReportFields({ occurrenceType: 'FIRE_SPREAD', occurrenceDate });
+
+      expect(onTime).toEqual({ reportDeadline: new Date('2025-09-03T08:00:00Z'), wasReportedInTime: true });
+      expect(late.wasReportedInTime).toBe(false);
+      expect(pending.wasReportedInTime).toBeNull();
+    });
+
+    it('should parse request dates into Date values', () => {
+      const parsed = parseOccurrenceReportDates({ occurrenceDate: '2025-09-01T08:00:00Z', reportedToRegulatorAt: null, description: 'x' });
+
+      expect(parsed).toEqual({ occurrenceDate, reportedToRegulatorAt: null, description: 'x' });
+    });
+
+    it('should reject dates it cannot parse instead of dropping them', () => {
+      expect(() => parseOccurrenceReportDates({ occurrenceDate: 'next tuesday', closedAt: '' }))
+        .toThrow(expect.objectContaining({ status: 400, errors: [{ path: 'occurrenceDate', message: 'Invalid date' }] }));
+      expect(parseOccurrenceReportDates({ closedAt: '' })).toEqual({ closedAt: null });
+    });
+
+    it('should reject a blank occurrence date rather than clearing it', () => {
+      expect(() => parseOccurrenceReportDates({ occurrenceDate: '' }))
+        .toThrow(expect.objectContaining({ status: 400, errors: [{ path: 'occurrenceDate', message: 'Required' }] }));
+    });
+  });
+
+  describe('refreshOccurrenceDeadlineAlert', () => {
+    beforeEach(() => {
+      dbState.openAlerts = [{ id: 'alert-1', escalationLevel: 4 }];
+      dbState.updates = [];
+      dbState.inserts = [];
+    });
+
+    it('should resolve an overdue alert and raise it again at the stage of a later deadline', async () => {
+      const report = makeReport({ propertyId: 'property-1', reportDeadline: new Date('2025-09-12T08:00:00Z') });
+
+      await refreshOccurrenceDeadlineAlert(report, new Date('2025-09-11T20:00:00Z'));
+
+      expect(dbState.updates[0]).toMatchObject({ status: 'RESOLVED' });
+      expect(dbState.inserts).toEqual([expect.objectContaining({
+        alertType: 'BSA_MOR_DEADLINE',
+        riskTier: 'HIGH',
+        escalationLevel: 3,
+        dueDate: new Date('2025-09-12T08:00:00Z'),
+      })]);
+    });
+
+    it('should only resolve the alert while the new deadline is outside every lead time', async () => {
+      const report = makeReport({ propertyId: 'property-1', reportDeadline: new Date('2025-10-01T08:00:00Z') });
+
+      await refreshOccurrenceDeadlineAlert(report, new Date('2025-09-11T20:00:00Z'));
+
+      expect(dbState.updates).toEqual([expect.objectContaining({ status: 'RESOLVED' })]);
+      expect(dbState.inserts).toHaveLength(0);
+    });
+  });
+
+  describe('evaluateDeadlineStage', () => {
+    const deadline = new Date('2025-09-11T08:00:00Z');
+
+    it('should escalate one level per lead time reached', () => {
+      expect(evaluateDeadlineStage(deadline, new Date('2025-09-05T08:00:00Z')).escalationLevel).toBe(0);
+      expect(evaluateDeadlineStage(deadline, new Date('2025-09-07T08:00:00Z')).escalationLevel).toBe(1);
+      expect(evaluateDeadlineStage(deadline, new Date('2025-09-10T09:00:00Z')).escalationLevel).toBe(3);
+    });
+
+    it('should put overdue reports at the top level', () => {
+      const stage = evaluateDeadlineStage(deadline, new Date('2025-09-11T10:00:00Z'));
+
+      expect(stage).toMatchObject({ overdue: true, escalationLevel: DEFAULT_OCCURRENCE_REPORTING_CONFIG.alertLeadHours.length + 1 });
+    });
+  });
+
+  describe('buildOccurrenceSubmissionPack', () => {
+    beforeEach(() => {
+      mockStorage.getOrganisation.mockResolvedValue({ id: 'org-1', name: 'Riverside Homes' });
+      mockStorage.getBlock.mockResolvedValue({ id: 'block-1', name: 'Tower A' });
+      mockStorage.getBuildingSafetyProfile.mockResolvedValue({ blockId: 'block-1', hrbRegistrationNumber: 'HRB-123', principalAccountablePersonName: 'Sam Patel' });
+      mockStorage.getHazardCase.mockImplementation(async (id: string) => id === 'hazard-1'
+        ? { id, caseReference: 'HC-9', category: 'FIRE', severity: 'EMERGENCY', status: 'WORKS_IN_PROGRESS', description: 'Riser fire', location: 'Riser 2', reportedAt: occurrenceDate }
+        : undefined);
+      mockStorage.getCertificate.mockImplementation(async (id: string) => ({
+        id,
+        organisationId: id === 'cert-1' ? 'org-1' : 'org-2',
+        certificateType: 'FIRE_RISK_ASSESSMENT',
+        certificateNumber: 'FRA-1',
+        issueDate: '2025-01-10',
+        expiryDate: '2026-01-10',
+        outcome: 'UNSATISFACTORY',
+        status: 'APPROVED',
+      }));
+      mockStorage.listHazardActions.mockResolvedValue([{ description: 'Install temporary fire stopping', status: 'COMPLETED', dueDate: '2025-09-02' }]);
+      mockStorage.listRemedialActions.mockResolvedValue([{ code: 'FRA-12', description: 'Replace riser doors', status: 'OPEN', dueDate: '2025-10-01' }]);
+    });
+
+    it('should bundle linked cases, certificates and corrective actions from the organisation', async () => {
+      const pack = await buildOccurrenceSubmissionPack(makeReport(), new Date('2025-09-05T12:00:00Z'));
+
+      expect(pack.building).toMatchObject({ blockName: 'Tower A', hrbRegistrationNumber: 'HRB-123', principalAccountablePerson: 'Sam Patel' });
+      expect(pack.hazardCases.map(hazard => hazard.caseReference)).toEqual(['HC-9']);
+      expect(pack.certificates.map(certificate => certificate.id)).toEqual(['cert-1']);
+      expect(mockStorage.listRemedialActions).toHaveBeenCalledWith('org-1', { certificateId: 'cert-1' });
+      expect(pack.correctiveActions.map(action => [action.source, action.description])).toEqual([
+        ['REPORT', 'Reinstate fire stopping in riser'],
+        ['REPORT', 'Review riser inspection regime'],
+        ['HAZARD_CASE', 'Install temporary fire stopping'],
+        ['REMEDIAL_ACTION', 'Replace riser doors'],
+      ]);
+      expect(pack.deadline).toEqual({ reportDeadline: '2025-09-11T08:00:00.000Z', reportedToRegulatorAt: null, wasReportedInTime: null });
+    });
+
+    it('should render the pack as a PDF', async () => {
+      const pack = await buildOccurrenceSubmissionPack(makeReport());
+
+      const document = submissionPackToReportDocument(pack);
+      expect(document.title).toBe('Mandatory Occurrence Report MOR-2025-001');
+      expect(document.sections.find(section => section.title === 'Corrective Actions')!.rows).toHaveLength(4);
+      expect(renderSubmissionPackPdf(pack).subarray(0, 5).toString()).toBe('%PDF-');
+    });
+  });
+});
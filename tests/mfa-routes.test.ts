@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, beforeAll } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+
+const sessionState = vi.hoisted(() => ({
+  user: null as Record<string, unknown> | null,
+  gate: 'SATISFIED' as string,
+}));
+
+vi.mock('../server/logger', () => {
+  const logger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: () => logger,
+  };
+  return { logger, jobLogger: logger, default: logger };
+});
+
+vi.mock('../server/auth', () => ({
+  auth: {
+    api: {
+      getSession: vi.fn(async () => sessionState.user ? { user: { id: sessionState.user.id }, session: { id: 'session-1' } } : null),
+    },
+    handler: vi.fn(),
+  },
+  getConfiguredProviders: () => [],
+}));
+
+vi.mock('better-auth/node', () => ({
+  fromNodeHeaders: (headers: unknown) => headers,
+  toNodeHandler: () => (_req: unknown, res: { status: (code: number) => { end: () => void } }) => res.status(404).end(),
+}));
+
+vi.mock('../server/db', () => {
+  const rows = () => sessionState.user ? [sessionState.user] : [];
+  const chain = (): any => new Proxy(() => undefined, {
+    get: (_target, prop) => prop === 'then'
+      ? (resolve: any, reject: any) => Promise.resolve().then(rows).then(resolve, reject)
+      : () => chain(),
+    apply: () => chain(),
+  });
+  return { db: chain(), pool: {} };
+});
+
+vi.mock('../server/storage', () => ({
+  storage: new Proxy({} as Record<string, unknown>, {
+    get: (target, prop: string) => {
+      if (prop === 'then') return undefined;
+      if (prop === 'getUser') return vi.fn(async () => sessionState.user);
+      if (prop === 'getFactorySettingValue') return vi.fn(async (_key: string, fallback: string) => fallback);
+      target[prop] ??= vi.fn(async () => null);
+      return target[prop];
+    },
+  }),
+}));
+
+vi.mock('../server/replit_integrations/object_storage', () => ({
+  ObjectStorageService: class {},
+  registerObjectStorageRoutes: vi.fn(),
+}));
+
+vi.mock('../server/services/mfa', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../server/services/mfa')>()),
+  getMfaGateStatus: vi.fn(async () => sessionState.gate),
+  completeMfaChallenge: vi.fn(async () => ({ method: 'TOTP' })),
+}));
+
+vi.mock('../server/services/password-policy', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../server/services/password-policy')>()),
+  checkLoginLockout: vi.fn(async () => ({ isLocked: false })),
+  recordFailedLogin: vi.fn(async () => ({ isLocked: false })),
+  clearLoginAttempts: vi.fn(async () => undefined),
+}));
+
+import bcrypt from 'bcrypt';
+import { storage } from '../server/storage';
+import { clearMfaPolicyCache, completeMfaChallenge } from '../server/services/mfa';
+
+const pendingUser = {
+  id: 'user-1',
+  username: 'jane',
+  name: 'Jane',
+  email: 'jane@example.com',
+  role: 'ADMIN',
+  organisationId: 'org-1',
+  mfaEnabled: true,
+};
+
+describe('MFA route gating', () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    const { mountDomainRouters } = await import('../server/routes');
+    app = express();
+    app.use(express.json());
+    mountDomainRouters(app);
+  }, 60000);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sessionState.user = pendingUser;
+    sessionState.gate = 'MFA_VERIFICATION_REQUIRED';
+  });
+
+  it('lets a session waiting on MFA reach the verification endpoint', async () => {
+    const response = await request(app).post('/api/auth/mfa/verify').send({ code: '123456' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ success: true, method: 'TOTP' });
+    expect(completeMfaChallenge).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'user-1' }),
+      'session-1',
+      { code: '123456', recoveryCode: undefined },
+      expect.any(Object)
+    );
+  });
+
+  it('blocks the same session from the rest of the API', async () => {
+    const response = await request(app).get('/api/properties');
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('MFA_VERIFICATION_REQUIRED');
+  });
+
+  it('blocks the session from handlers that check the session themselves', async () => {
+    const { requireAdminRole } = await import('../server/routes/system/utils');
+    const adminApp = express();
+    adminApp.get('/admin-only', async (req, res) => {
+      if (await requireAdminRole(req, res)) res.json({ ok: true });
+    });
+
+    expect((await request(adminApp).get('/admin-only')).status).toBe(401);
+
+    sessionState.gate = 'SATISFIED';
+    expect((await request(adminApp).get('/admin-only')).status).toBe(200);
+  });
+});
+
+describe('Legacy password login', () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    const { authRouter } = await import('../server/routes/auth.routes');
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      (req as any).session = {};
+      next();
+    });
+    app.use('/api/auth', authRouter);
+  }, 60000);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearMfaPolicyCache();
+    sessionState.user = { ...pendingUser, mfaEnabled: false, password: bcrypt.hashSync('correct-horse', 4) };
+  });
+
+  it('refuses users the organisation policy requires to enrol in MFA', async () => {
+    vi.mocked(storage.getOrganisation).mockResolvedValue({ id: 'org-1', settings: { mfa: { enforced: true, requiredRoles: ['ADMIN'] } } } as any);
+
+    const response = await request(app).post('/api/auth/login').send({ username: 'jane', password: 'correct-horse' });
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('MFA_ENROLMENT_REQUIRED');
+  });
+
+  it('signs in users the policy does not cover', async () => {
+    vi.mocked(storage.getOrganisation).mockResolvedValue({ id: 'org-1', settings: { mfa: { enforced: true, requiredRoles: ['SUPER_ADMIN'] } } } as any);
+
+    const response = await request(app).post('/api/auth/login').send({ username: 'jane', password: 'correct-horse' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.user).toMatchObject({ id: 'user-1' });
+  });
+});
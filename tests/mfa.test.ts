@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', () => ({
+  db: {},
+}));
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getOrganisation: vi.fn(),
+    getUserMfaCredential: vi.fn(),
+    updateUserMfaCredential: vi.fn(),
+    withUserMfaCredentialLock: vi.fn(),
+    getSessionMfaVerifiedAt: vi.fn(),
+    markSessionMfaVerified: vi.fn(),
+    recordAuditEvent: vi.fn(),
+  },
+}));
+
+import { storage } from '../server/storage';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpCode,
+  getTotpStep,
+  verifyTotpCode,
+  buildProvisioningUri,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  consumeRecoveryCode,
+  encryptMfaSecret,
+  decryptMfaSecret,
+  parseMfaPolicy,
+  isMfaRequiredForRole,
+  getMfaGateStatus,
+  clearMfaPolicyCache,
+  verifyMfaCode,
+  type MfaUser,
+} from '../server/services/mfa';
+
+// RFC 6238 appendix B SHA1 seed "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+function makeUser(overrides: Partial<MfaUser> = {}): MfaUser {
+  return {
+    id: 'user-1',
+    username: 'jane',
+    name: 'Jane',
+    email: 'jane@example.com',
+    role: 'COMPLIANCE_MANAGER',
+    organisationId: 'org-1',
+    mfaEnabled: false,
+    ...overrides,
+  };
+}
+
+describe('MFA', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearMfaPolicyCache();
+  });
+
+  describe('TOTP', () => {
+    it('should round-trip base32', () => {
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+      expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+    });
+
+    it('should match the RFC 6238 test vectors', () => {
+      expect(generateTotpCode(RFC_SECRET, getTotpStep(new Date(59 * 1000)))).toBe('287082');
+      expect(generateTotpCode(RFC_SECRET, getTotpStep(new Date(1111111109 * 1000)))).toBe('081804');
+      expect(generateTotpCode(RFC_SECRET, getTotpStep(new Date(2000000000 * 1000)))).toBe('279037');
+    });
+
+    it('should accept codes within one step of drift and reject older ones', () => {
+      const step = getTotpStep(NOW);
+      expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 1), { now: NOW })).toBe(step - 1);
+      expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 1), { now: NOW })).toBe(step + 1);
+      expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 3), { now: NOW })).toBeNull();
+      expect(verifyTotpCode(RFC_SECRET, 'abcdef', { now: NOW })).toBeNull();
+    });
+
+    it('should refuse a code that was already used', () => {
+      const step = getTotpStep(NOW);
+      const code = generateTotpCode(RFC_SECRET, step);
+      expect(verifyTotpCode(RFC_SECRET, code, { now: NOW, lastUsedStep: step })).toBeNull();
+    });
+
+    it('should build an authenticator provisioning URI', () => {
+      const uri = new URL(buildProvisioningUri(RFC_SECRET, 'jane@example.com'));
+      expect(uri.protocol).toBe('otpauth:');
+      expect(uri.host).toBe('totp');
+      expect(decodeURIComponent(uri.pathname)).toBe('/ComplianceAI:jane@example.com');
+      expect(uri.searchParams.get('secret')).toBe(RFC_SECRET);
+      expect(uri.searchParams.get('issuer')).toBe('ComplianceAI');
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should consume a code once, ignoring case and formatting', () => {
+      const codes = generateRecoveryCodes();
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+
+      const hashes = codes.map(hashRecoveryCode);
+      const remaining = consumeRecoveryCode(hashes, codes[3].toLowerCase().replace('-', ' '));
+      expect(remaining).toHaveLength(9);
+      expect(consumeRecoveryCode(remaining!, codes[3])).toBeNull();
+    });
+  });
+
+  it('should encrypt secrets so they round-trip but are not stored in plain text', () => {
+    const encrypted = encryptMfaSecret(RFC_SECRET);
+    expect(encrypted).not.toContain(RFC_SECRET);
+    expect(encrypted).not.toBe(encryptMfaSecret(RFC_SECRET));
+    expect(decryptMfaSecret(encrypted)).toBe(RFC_SECRET);
+  });
+
+  it('should refuse to encrypt with the built-in key in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('MFA_ENCRYPTION_KEY', '');
+    vi.stubEnv('BETTER_AUTH_SECRET', '');
+    vi.stubEnv('SESSION_SECRET', '');
+    try {
+      expect(() => encryptMfaSecret(RFC_SECRET)).toThrow(/must be set/);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  describe('policy', () => {
+    it('should default to not enforced with the privileged roles listed', () => {
+      const policy = parseMfaPolicy(null);
+      expect(policy.enforced).toBe(false);
+      expect(policy.requiredRoles).toEqual(['SUPER_ADMIN', 'SYSTEM_ADMIN', 'COMPLIANCE_MANAGER']);
+      expect(isMfaRequiredForRole(policy, 'SUPER_ADMIN')).toBe(false);
+    });
+
+    it('should require MFA only for the listed roles when enforced', () => {
+      const policy = parseMfaPolicy({ mfa: { enforced: true, requiredRoles: ['SUPER_ADMIN'] } });
+      expect(isMfaRequiredForRole(policy, 'super_admin')).toBe(true);
+      expect(isMfaRequiredForRole(policy, 'VIEWER')).toBe(false);
+    });
+  });
+
+  describe('getMfaGateStatus', () => {
+    it('should require verification for enrolled users until the session is verified', async () => {
+      const user = makeUser({ mfaEnabled: true });
+      mockStorage.getSessionMfaVerifiedAt.mockResolvedValueOnce(null);
+      expect(await getMfaGateStatus(user, 'session-1')).toBe('MFA_VERIFICATION_REQUIRED');
+
+      mockStorage.getSessionMfaVerifiedAt.mockResolvedValueOnce(NOW);
+      expect(await getMfaGateStatus(user, 'session-1')).toBe('SATISFIED');
+    });
+
+    it('should require enrolment when the organisation policy covers the role', async () => {
+      mockStorage.getOrganisation.mockResolvedValue({ id: 'org-1', settings: { mfa: { enforced: true, requiredRoles: ['COMPLIANCE_MANAGER'] } } });
+      expect(await getMfaGateStatus(makeUser(), 'session-1')).toBe('MFA_ENROLMENT_REQUIRED');
+      expect(await getMfaGateStatus(makeUser({ role: 'VIEWER' }), 'session-1')).toBe('SATISFIED');
+    });
+  });
+
+  describe('verifyMfaCode', () => {
+    beforeEach(() => {
+      // Runs callers one at a time, as the credential row lock does
+      let held = Promise.resolve();
+      mockStorage.withUserMfaCredentialLock.mockImplementation((userId: string, work: (...args: any[]) => Promise<unknown>) => {
+        const run = held.then(async () => work(
+          await mockStorage.getUserMfaCredential(userId),
+          (updates: Record<string, unknown>) => mockStorage.updateUserMfaCredential(userId, updates)
+        ));
+        held = run.then(() => undefined, () => undefined);
+        return run;
+      });
+    });
+
+    function enrolledCredential(overrides: Record<string, unknown> = {}) {
+      return {
+        userId: 'user-1',
+        secretEncrypted: encryptMfaSecret(RFC_SECRET),
+        enabledAt: NOW,
+        lastUsedStep: null,
+        recoveryCodeHashes: [hashRecoveryCode('ABCDE-FGHIJ')],
+        failedAttempts: 0,
+        lockedUntil: null,
+        ...overrides,
+      };
+    }
+
+    it('should accept a current code and record the used step', async () => {
+      mockStorage.getUserMfaCredential.mockResolvedValue(enrolledCredential());
+      const code = generateTotpCode(RFC_SECRET, getTotpStep());
+
+      const result = await verifyMfaCode(makeUser({ mfaEnabled: true }), { code }, {});
+
+      expect(result.method).toBe('TOTP');
+      expect(mockStorage.updateUserMfaCredential).toHaveBeenCalledWith('user-1', expect.objectContaining({ failedAttempts: 0 }));
+      expect(mockStorage.recordAuditEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'MFA_VERIFIED' }));
+    });
+
+    it('should spend a recovery code', async () => {
+      mockStorage.getUserMfaCredential.mockResolvedValue(enrolledCredential());
+
+      const result = await verifyMfaCode(makeUser({ mfaEnabled: true }), { recoveryCode: 'abcde-fghij' }, {});
+
+      expect(result).toEqual({ method: 'RECOVERY_CODE', recoveryCodesRemaining: 0 });
+      expect(mockStorage.recordAuditEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'MFA_RECOVERY_CODE_USED' }));
+    });
+
+    it('should let only one of two concurrent attempts spend a recovery code', async () => {
+      let credential: Record<string, unknown> = enrolledCredential();
+      mockStorage.getUserMfaCredential.mockImplementation(async () => credential);
+      mockStorage.updateUserMfaCredential.mockImplementation(async (_userId: string, updates: Record<string, unknown>) => {
+        credential = { ...credential, ...updates };
+      });
+
+      const results = await Promise.allSettled([
+        verifyMfaCode(makeUser({ mfaEnabled: true }), { recoveryCode: 'ABCDE-FGHIJ' }, {}),
+        verifyMfaCode(makeUser({ mfaEnabled: true }), { recoveryCode: 'ABCDE-FGHIJ' }, {}),
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect(credential).toMatchObject({ recoveryCodeHashes: [], failedAttempts: 1 });
+    });
+
+    it('should lock the factor after repeated failures', async () => {
+      mockStorage.getUserMfaCredential.mockResolvedValue(enrolledCredential({ failedAttempts: 4 }));
+
+      await expect(verifyMfaCode(makeUser({ mfaEnabled: true }), { code: '000000' }, {})).rejects.toThrow();
+      const [, updates] = mockStorage.updateUserMfaCredential.mock.calls[0];
+      expect(updates.lockedUntil).toBeInstanceOf(Date);
+      expect(mockStorage.recordAuditEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'MFA_VERIFICATION_FAILED' }));
+    });
+
+    it('should refuse attempts while locked', async () => {
+      mockStorage.getUserMfaCredential.mockResolvedValue(enrolledCredential({ lockedUntil: new Date(Date.now() + 60_000) }));
+
+      await expect(verifyMfaCode(makeUser({ mfaEnabled: true }), { code: '000000' }, {})).rejects.toMatchObject({ status: 429 });
+      expect(mockStorage.updateUserMfaCredential).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', () => ({
+  db: {},
+}));
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    createContractorVerificationHistory: vi.fn(async (entry) => ({ id: 'history-1', ...entry })),
+    updateContractorCertification: vi.fn(),
+    listContractorAlerts: vi.fn(),
+    createContractorAlert: vi.fn(),
+  },
+}));
+
+import { storage } from '../server/storage';
+import {
+  FixtureRegistrationVerifier,
+  HttpRegistrationVerifier,
+  RegistrationVerificationError,
+  RegistrationVerifierMode,
+  SCHEME_ADAPTERS,
+  createRegistrationVerifiers,
+  setRegistrationVerifiers,
+  type RegistrationLookupResult,
+} from '../server/services/registration-verification';
+import { parseSchemeResponse } from '../server/services/registration-verification/http';
+import {
+  checkCertificationAgainstRegister,
+  compareRegistration,
+  normaliseRegisteredName,
+  resolveVerificationStatus,
+} from '../server/services/contractor-registration-verification';
+import type { ContractorCertification } from '@shared/schema';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+function makeCertification(overrides: Partial<ContractorCertification> = {}): ContractorCertification {
+  return {
+    id: 'cert-1',
+    contractorId: 'contractor-1',
+    organisationId: 'org-1',
+    registrationType: 'GAS_SAFE',
+    registrationNumber: '123456',
+    registrationName: null,
+    issueDate: null,
+    expiryDate: new Date('2030-03-31'),
+    verificationStatus: 'PENDING',
+    verifiedAt: null,
+    verifiedById: null,
+    verificationMethod: null,
+    verificationNotes: null,
+    workCategories: ['GAS_BOILER'],
+    documentUrl: null,
+    documentId: null,
+    isActive: true,
+    metadata: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function lookupResult(overrides: Partial<NonNullable<RegistrationLookupResult['record']>> = {}): RegistrationLookupResult {
+  return {
+    found: true,
+    lookupUrl: null,
+    source: 'Test Register',
+    checkedAt: NOW,
+    record: {
+      registrationNumber: '123456',
+      registeredName: 'Acme Heating Ltd',
+      status: 'ACTIVE',
+      expiryDate: new Date('2030-03-31'),
+      workCategories: ['GAS_BOILER', 'GAS_FIRES'],
+      ...overrides,
+    },
+  };
+}
+
+describe('Registration verification', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage.listContractorAlerts.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    setRegistrationVerifiers(null);
+    vi.unstubAllGlobals();
+  });
+
+  describe('FixtureRegistrationVerifier', () => {
+    it('should answer from fixtures and report unknown numbers as not found', async () => {
+      const verifier = new FixtureRegistrationVerifier('GAS_SAFE');
+
+      const found = await verifier.lookup(' 123456 ');
+      expect(found.found).toBe(true);
+      expect(found.record?.registeredName).toBe('Acme Heating Ltd');
+
+      const missing = await verifier.lookup('999999');
+      expect(missing).toMatchObject({ found: false, record: null });
+    });
+
+    it('should register a fixture verifier for every supported scheme in fixture mode', () => {
+      const verifiers = createRegistrationVerifiers({ mode: RegistrationVerifierMode.FIXTURE, http: [] });
+
+      expect(Array.from(verifiers.keys())).toEqual(expect.arrayContaining(Object.keys(SCHEME_ADAPTERS)));
+    });
+
+    it('should only connect configured schemes in http mode', () => {
+      const verifiers = createRegistrationVerifiers({
+        mode: RegistrationVerifierMode.HTTP,
+        http: [{ registrationType: 'NICEIC', url: 'https://registers.test/niceic/{registrationNumber}', timeoutMs: 1000 }],
+      });
+
+      expect(Array.from(verifiers.keys())).toEqual(['NICEIC']);
+    });
+  });
+
+  describe('HttpRegistrationVerifier', () => {
+    const config = { registrationType: 'GAS_SAFE' as const, url: 'https://registers.test/gas/{registrationNumber}', apiKey: 'key', timeoutMs: 1000 };
+
+    it('should map a scheme response onto a register record', () => {
+      const record = parseSchemeResponse(SCHEME_ADAPTERS.GAS_SAFE!, '123456', {
+        tradingName: 'Acme Heating Ltd',
+        registrationStatus: 'Registered',
+        registrationExpiryDate: '2030-03-31',
+        applianceCategories: ['Central heating boilers', 'Gas fires and space heaters'],
+      });
+
+      expect(record).toEqual({
+        registrationNumber: '123456',
+        registeredName: 'Acme Heating Ltd',
+        status: 'ACTIVE',
+        expiryDate: new Date('2030-03-31'),
+        workCategories: ['GAS_BOILER', 'GAS_FIRES'],
+      });
+    });
+
+    it('should call the configured endpoint with the API key', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ tradingName: 'Acme', registrationStatus: 'Suspended' }), { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await new HttpRegistrationVerifier(config, SCHEME_ADAPTERS.GAS_SAFE!).lookup('12 34');
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://registers.test/gas/12%2034');
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer key');
+      expect(result.record?.status).toBe('SUSPENDED');
+      expect(result.lookupUrl).toContain('gassaferegister.co.uk');
+    });
+
+    it('should treat 404 as not found and other failures as errors', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 404 })));
+      const verifier = new HttpRegistrationVerifier(config, SCHEME_ADAPTERS.GAS_SAFE!);
+      expect((await verifier.lookup('1')).found).toBe(false);
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 503 })));
+      await expect(verifier.lookup('1')).rejects.toBeInstanceOf(RegistrationVerificationError);
+    });
+
+    it('should abort a response whose body stalls past the timeout', async () => {
+      vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => ({
+        status: 200,
+        ok: true,
+        json: () => new Promise((_resolve, reject) => init.signal!.addEventListener('abort', () => reject(new Error('aborted')))),
+      })));
+
+      const verifier = new HttpRegistrationVerifier({ ...config, timeoutMs: 10 }, SCHEME_ADAPTERS.GAS_SAFE!);
+      await expect(verifier.lookup('1')).rejects.toBeInstanceOf(RegistrationVerificationError);
+    });
+
+    it('should not read a status it does not recognise as expired', () => {
+      const record = parseSchemeResponse(SCHEME_ADAPTERS.GAS_SAFE!, '123456', { tradingName: 'Acme', registrationStatus: 'Under review' });
+
+      expect(record.status).toBe('UNKNOWN');
+      expect(parseSchemeResponse(SCHEME_ADAPTERS.GAS_SAFE!, '123456', { registrationStatus: 'Lapsed' }).status).toBe('EXPIRED');
+      expect(resolveVerificationStatus(lookupResult({ status: 'UNKNOWN' }), NOW)).toBe('UNVERIFIED');
+      expect(compareRegistration(makeCertification(), { companyName: 'ACME HEATING LIMITED' }, lookupResult({ status: 'UNKNOWN' }), NOW)).toEqual([]);
+    });
+  });
+
+  describe('compareRegistration', () => {
+    const contractor = { companyName: 'ACME HEATING LIMITED' };
+
+    it('should find nothing to report when the register agrees', () => {
+      expect(compareRegistration(makeCertification(), contractor, lookupResult(), NOW)).toEqual([]);
+    });
+
+    it('should match names regardless of case and company suffix', () => {
+      expect(normaliseRegisteredName('Acme Heating Ltd.')).toBe(normaliseRegisteredName('ACME HEATING LIMITED'));
+    });
+
+    it('should flag a changed name, lapsed registration and missing category', () => {
+      const result = lookupResult({ registeredName: 'Zenith Boilers', status: 'EXPIRED', workCategories: ['GAS_FIRES'] });
+
+      const types = compareRegistration(makeCertification(), contractor, result, NOW).map(mismatch => mismatch.type);
+      expect(types).toEqual(['REGISTRATION_LAPSED', 'NAME_CHANGED', 'WORK_CATEGORY_MISSING']);
+      expect(resolveVerificationStatus(result, NOW)).toBe('EXPIRED');
+    });
+
+    it('should flag registrations missing from the register', () => {
+      const result: RegistrationLookupResult = { found: false, record: null, lookupUrl: null, source: 'Test', checkedAt: NOW };
+
+      expect(compareRegistration(makeCertification(), contractor, result, NOW)).toEqual([
+        expect.objectContaining({ type: 'NOT_ON_REGISTER' }),
+      ]);
+      expect(resolveVerificationStatus(result, NOW)).toBe('FAILED');
+    });
+  });
+
+  describe('checkCertificationAgainstRegister', () => {
+    it('should snapshot the register data and verify a matching certification', async () => {
+      setRegistrationVerifiers(new Map([['GAS_SAFE', new FixtureRegistrationVerifier('GAS_SAFE')]]));
+
+      const outcome = await checkCertificationAgainstRegister(makeCertification(), { companyName: 'Acme Heating Ltd' }, { verifiedById: 'user-1' }, NOW);
+
+      expect(outcome?.status).toBe('VERIFIED');
+      expect(mockStorage.createContractorVerificationHistory).toHaveBeenCalledWith(expect.objectContaining({
+        verificationType: 'REGISTER_LOOKUP',
+        previousStatus: 'PENDING',
+        newStatus: 'VERIFIED',
+        registrationDataSnapshot: expect.objectContaining({
+          found: true,
+          record: expect.objectContaining({ registeredName: 'Acme Heating Ltd', expiryDate: '2030-03-31T00:00:00.000Z' }),
+        }),
+      }));
+      expect(mockStorage.updateContractorCertification).toHaveBeenCalledWith('cert-1', expect.objectContaining({
+        verificationStatus: 'VERIFIED',
+        verifiedById: 'user-1',
+      }));
+      expect(mockStorage.createContractorAlert).not.toHaveBeenCalled();
+    });
+
+    it('should raise one alert per new mismatch', async () => {
+      setRegistrationVerifiers(new Map([['GAS_SAFE', new FixtureRegistrationVerifier('GAS_SAFE')]]));
+      mockStorage.listContractorAlerts.mockResolvedValue([
+        { certificationId: 'cert-2', alertType: 'REGISTRATION_MISMATCH', metadata: { mismatchType: 'NAME_CHANGED' } },
+      ]);
+      const cert = makeCertification({ id: 'cert-2', registrationNumber: '654321', expiryDate: new Date('2024-01-31') });
+
+      const outcome = await checkCertificationAgainstRegister(cert, { companyName: 'Somebody Else' }, {}, NOW);
+
+      expect(outcome?.status).toBe('EXPIRED');
+      expect(outcome?.mismatches.map(mismatch => mismatch.type)).toEqual(['REGISTRATION_LAPSED', 'NAME_CHANGED']);
+      expect(mockStorage.createContractorAlert).toHaveBeenCalledTimes(1);
+      expect(mockStorage.createContractorAlert).toHaveBeenCalledWith(expect.objectContaining({
+        severity: 'URGENT',
+        metadata: expect.objectContaining({ mismatchType: 'REGISTRATION_LAPSED' }),
+      }));
+    });
+
+    it('should return null when the scheme has no register connection', async () => {
+      setRegistrationVerifiers(new Map());
+
+      expect(await checkCertificationAgainstRegister(makeCertification(), { companyName: 'Acme' }, {}, NOW)).toBeNull();
+    });
+  });
+});
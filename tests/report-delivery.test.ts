@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const dbState = vi.hoisted(() => ({
+  delivery: null as any,
+  report: null as any,
+  updates: [] as any[],
+}));
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', async () => {
+  const { getTableName } = await import('drizzle-orm');
+  return {
+    db: {
+      select: () => ({
+        from: (table: any) => ({
+          where: () => Promise.resolve([getTableName(table) === 'report_deliveries' ? dbState.delivery : dbState.report]),
+        }),
+      }),
+      update: () => ({
+        set: (values: any) => ({
+          where: () => {
+            dbState.updates.push(values);
+            return Object.assign(Promise.resolve(), {
+              returning: () => Promise.resolve([{ ...dbState.delivery, ...values }]),
+            });
+          },
+        }),
+      }),
+    },
+  };
+});
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getFactorySettingValue: vi.fn().mockResolvedValue(''),
+  },
+}));
+
+vi.mock('../server/storage/providers', () => ({
+  getOrInitializeStorage: vi.fn(),
+}));
+
+import {
+  normaliseRecipients,
+  chooseDeliveryMethod,
+  buildReportEmail,
+  deliverReport,
+  reportDeliveryRequestSchema,
+} from '../server/services/report-delivery';
+import {
+  MemoryMailTransport,
+  FileDropMailTransport,
+  MailTransportType,
+  MailError,
+  getMailConfigFromEnv,
+  setMailTransport,
+} from '../server/services/mail';
+import { getOrInitializeStorage } from '../server/storage/providers';
+
+describe('Report Delivery', () => {
+  const report = {
+    name: 'Monthly Board Pack',
+    format: 'PDF' as const,
+    generatedAt: new Date('2025-11-03T06:00:00Z'),
+  };
+
+  describe('normaliseRecipients', () => {
+    it('should trim, lowercase and de-duplicate recipients', () => {
+      const result = normaliseRecipients([' Board@Example.org ', 'board@example.org', 'ops@example.org']);
+      expect(result.valid).toEqual(['board@example.org', 'ops@example.org']);
+      expect(result.invalid).toEqual([]);
+    });
+
+    it('should separate invalid addresses', () => {
+      const result = normaliseRecipients(['not-an-email', '', 'ok@example.org']);
+      expect(result.valid).toEqual(['ok@example.org']);
+      expect(result.invalid).toEqual(['not-an-email']);
+    });
+  });
+
+  describe('chooseDeliveryMethod', () => {
+    const config = { maxAttachmentBytes: 1024, linkTtlHours: 72 };
+
+    it('should attach files within the size limit', () => {
+      expect(chooseDeliveryMethod(1024, config)).toBe('ATTACHMENT');
+    });
+
+    it('should send a link for large or unknown-size files', () => {
+      expect(chooseDeliveryMethod(1025, config)).toBe('LINK');
+      expect(chooseDeliveryMethod(null, config)).toBe('LINK');
+    });
+  });
+
+  describe('buildReportEmail', () => {
+    it('should attach the report with a download filename', () => {
+      const message = buildReportEmail(report, 'board@example.org', { method: 'ATTACHMENT', file: Buffer.from('%PDF-') });
+      expect(message.to).toBe('board@example.org');
+      expect(message.subject).toBe('Report: Monthly Board Pack (2025-11-03)');
+      expect(message.attachments).toHaveLength(1);
+      expect(message.attachments![0].filename).toBe('monthly-board-pack-2025-11-03.pdf');
+      expect(message.attachments![0].contentType).toBe('application/pdf');
+    });
+
+    it('should include the signed link and its expiry when not attaching', () => {
+      const message = buildReportEmail(report, 'board@example.org', {
+        method: 'LINK',
+        url: 'https://files.example.org/reports/abc?sig=1',
+        expiresAt: new Date('2025-11-06T06:00:00Z'),
+      });
+      expect(message.attachments).toBeUndefined();
+      expect(message.text).toContain('https://files.example.org/reports/abc?sig=1');
+      expect(message.text).toContain('2025-11-06 06:00 UTC');
+    });
+  });
+
+  describe('reportDeliveryRequestSchema', () => {
+    it('should accept an optional list of valid addresses', () => {
+      expect(reportDeliveryRequestSchema.safeParse({}).success).toBe(true);
+      expect(reportDeliveryRequestSchema.parse({ recipients: [' board@example.org '] })).toEqual({ recipients: ['board@example.org'] });
+    });
+
+    it('should reject invalid, empty or non-string recipients', () => {
+      expect(reportDeliveryRequestSchema.safeParse({ recipients: ['not-an-email'] }).success).toBe(false);
+      expect(reportDeliveryRequestSchema.safeParse({ recipients: [] }).success).toBe(false);
+      expect(reportDeliveryRequestSchema.safeParse({ recipients: [42] }).success).toBe(false);
+      expect(reportDeliveryRequestSchema.safeParse({ recipients: 'board@example.org' }).success).toBe(false);
+    });
+  });
+
+  describe('deliverReport', () => {
+    afterEach(() => {
+      setMailTransport(null);
+      dbState.updates = [];
+    });
+
+    it('should fail the delivery without retrying when the mail server accepts no recipients', async () => {
+      dbState.delivery = { id: 'delivery-1', generatedReportId: 'report-1', recipient: 'gone@example.org', status: 'PENDING', attempts: 0 };
+      dbState.report = { id: 'report-1', ...report, status: 'READY', storageKey: 'reports/report-1.pdf', fileSize: null };
+      vi.mocked(getOrInitializeStorage).mockResolvedValue({ getSignedUrl: vi.fn(async () => 'https://files.example.org/r1') } as any);
+      setMailTransport({
+        name: 'Stub',
+        type: MailTransportType.MEMORY,
+        send: vi.fn(async () => ({ messageId: 'msg-1', accepted: false })),
+        healthCheck: vi.fn(async () => true),
+      });
+
+      const result = await deliverReport('delivery-1', 3);
+
+      expect(result).toMatchObject({ status: 'FAILED', attempts: 1, lastError: 'Recipient rejected by the mail server' });
+      expect(dbState.updates).toHaveLength(1);
+    });
+  });
+
+  describe('mail transports', () => {
+    it('should record messages and reject configured recipients in memory', async () => {
+      const transport = new MemoryMailTransport({ type: MailTransportType.MEMORY, defaultFrom: 'reports@example.org' });
+      transport.failRecipients.add('bounce@example.org');
+
+      await transport.send({ to: 'ok@example.org', subject: 'Hi', text: 'Body' });
+      await expect(transport.send({ to: 'bounce@example.org', subject: 'Hi', text: 'Body' })).rejects.toBeInstanceOf(MailError);
+
+      expect(transport.sent).toHaveLength(1);
+      expect(transport.sent[0].from).toBe('reports@example.org');
+    });
+
+    it('should write messages and attachments to the drop directory', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-drop-'));
+      try {
+        const transport = new FileDropMailTransport({ type: MailTransportType.FILE, defaultFrom: 'reports@example.org', directory });
+        const result = await transport.send({
+          to: 'ok@example.org',
+          subject: 'Report',
+          text: 'Attached',
+          attachments: [{ filename: '../report.csv', content: Buffer.from('a,b\n') }],
+        });
+
+        const messageDir = path.join(directory, result.messageId);
+        const saved = JSON.parse(await fs.readFile(path.join(messageDir, 'message.json'), 'utf-8'));
+        expect(saved.to).toBe('ok@example.org');
+        expect(saved.attachments).toEqual([{ filename: 'report.csv', size: 4 }]);
+        expect((await fs.readFile(path.join(messageDir, 'report.csv'))).toString()).toBe('a,b\n');
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should default to the file transport when SMTP is not configured', () => {
+      const previous = { transport: process.env.MAIL_TRANSPORT, host: process.env.SMTP_HOST };
+      delete process.env.MAIL_TRANSPORT;
+      delete process.env.SMTP_HOST;
+      try {
+        expect(getMailConfigFromEnv().type).toBe(MailTransportType.FILE);
+      } finally {
+        if (previous.transport !== undefined) process.env.MAIL_TRANSPORT = previous.transport;
+        if (previous.host !== undefined) process.env.SMTP_HOST = previous.host;
+      }
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PassThrough, type Readable } from 'stream';
+import ExcelJS from 'exceljs';
+
+const dbState = vi.hoisted(() => ({
+  selects: [] as Array<() => Promise<any[]>>,
+  updates: [] as any[],
+}));
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', () => {
+  // Each select resolves with the next queued result, however the query is chained
+  const chain = (result: () => Promise<any[]>): any => {
+    const query: any = {
+      then: (resolve: any, reject: any) => result().then(resolve, reject),
+    };
+    for (const method of ['from', 'innerJoin', 'where', 'orderBy', 'limit']) query[method] = () => query;
+    return query;
+  };
+  return {
+    db: {
+      select: () => chain(dbState.selects.shift() ?? (async () => [])),
+      update: () => ({
+        set: (values: any) => ({
+          where: () => ({
+            returning: async () => {
+              dbState.updates.push(values);
+              return [{ id: 'export-1', organisationId: 'org-1', ...values }];
+            },
+          }),
+        }),
+      }),
+    },
+  };
+});
+
+vi.mock('../server/events', () => ({
+  broadcastReportExportEvent: vi.fn(),
+}));
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getFactorySettingValue: vi.fn().mockResolvedValue(''),
+  },
+}));
+
+vi.mock('../server/storage/providers', () => ({
+  getOrInitializeStorage: vi.fn(),
+}));
+
+import { getOrInitializeStorage } from '../server/storage/providers';
+import {
+  exportRequestSchema,
+  createCsvExportWriter,
+  createExcelExportWriter,
+  getExportProgress,
+  getExportFilename,
+  runReportExport,
+} from '../server/services/report-export';
+
+async function collect(stream: PassThrough): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  stream.on('data', chunk => chunks.push(chunk));
+  await new Promise(resolve => stream.on('end', resolve));
+  return Buffer.concat(chunks);
+}
+
+describe('Report Export', () => {
+  describe('exportRequestSchema', () => {
+    it('should normalise format aliases', () => {
+      expect(exportRequestSchema.parse({ reportType: 'certificates', format: 'csv' }).format).toBe('CSV');
+      expect(exportRequestSchema.parse({ reportType: 'certificates', format: 'xlsx' }).format).toBe('EXCEL');
+      expect(exportRequestSchema.parse({ reportType: 'properties', format: 'Excel' }).format).toBe('EXCEL');
+    });
+
+    it('should default filters to an empty object', () => {
+      expect(exportRequestSchema.parse({ reportType: 'remedial-actions', format: 'CSV' }).filters).toEqual({});
+    });
+
+    it('should reject unknown report types, formats and filters', () => {
+      expect(exportRequestSchema.safeParse({ reportType: 'everything', format: 'CSV' }).success).toBe(false);
+      expect(exportRequestSchema.safeParse({ reportType: 'certificates', format: 'PDF' }).success).toBe(false);
+      expect(exportRequestSchema.safeParse({ reportType: 'certificates', format: 'CSV', filters: { organisationId: 'other' } }).success).toBe(false);
+    });
+
+    it('should normalise date filters and reject invalid ones', () => {
+      const request = (filters: Record<string, unknown>) => exportRequestSchema.safeParse({ reportType: 'certificates', format: 'CSV', filters });
+
+      expect(exportRequestSchema.parse({ reportType: 'certificates', format: 'CSV', filters: { dateFrom: '2025-01-01', dateTo: '2025-01-31T23:59:59Z' } }).filters)
+        .toEqual({ dateFrom: '2025-01-01T00:00:00.000Z', dateTo: '2025-01-31T23:59:59.000Z' });
+      expect(request({ dateFrom: 'last month' }).success).toBe(false);
+      expect(request({ dateTo: '' }).success).toBe(false);
+      expect(request({ dateFrom: null }).success).toBe(false);
+      expect(request({ dateFrom: '2025-02-01', dateTo: '2025-01-01' }).success).toBe(false);
+    });
+  });
+
+  describe('createCsvExportWriter', () => {
+    it('should write a header and escaped rows', async () => {
+      const output = new PassThrough();
+      const result = collect(output);
+      const writer = createCsvExportWriter(output, ['Name', 'Notes']);
+
+      await writer.writeRow(['Flat 1, Block A', 'said "ok"']);
+      await writer.writeRow(['=HYPERLINK("x")', null]);
+      await writer.finish();
+
+      const lines = (await result).toString().split('\r\n');
+      expect(lines[0]).toBe('Name,Notes');
+      expect(lines[1]).toBe('"Flat 1, Block A","said ""ok"""');
+      expect(lines[2].startsWith('"\'=HYPERLINK')).toBe(true);
+    });
+
+    it('should still write the header for an empty export', async () => {
+      const output = new PassThrough();
+      const result = collect(output);
+      const writer = createCsvExportWriter(output, ['A', 'B']);
+      await writer.finish();
+
+      expect((await result).toString()).toBe('A,B\r\n');
+    });
+  });
+
+  describe('createExcelExportWriter', () => {
+    it('should stream a readable workbook', async () => {
+      const output = new PassThrough();
+      const result = collect(output);
+      const writer = createExcelExportWriter(output, ['UPRN', 'Bedrooms'], 'properties');
+
+      await writer.writeRow(['100023336956', 3]);
+      await writer.writeRow(['100023336957', 2]);
+      await writer.finish();
+
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(await result);
+      const sheet = workbook.getWorksheet('properties')!;
+      expect(sheet.rowCount).toBe(3);
+      expect(sheet.getRow(1).getCell(1).value).toBe('UPRN');
+      expect(sheet.getRow(2).getCell(2).value).toBe(3);
+    });
+  });
+
+  describe('getExportProgress', () => {
+    it('should report percentage complete, capped until the job finishes', () => {
+      expect(getExportProgress({ status: 'QUEUED', processedRows: 0, totalRows: null })).toBe(0);
+      expect(getExportProgress({ status: 'PROCESSING', processedRows: 250, totalRows: 1000 })).toBe(25);
+      expect(getExportProgress({ status: 'PROCESSING', processedRows: 1000, totalRows: 1000 })).toBe(99);
+      expect(getExportProgress({ status: 'COMPLETED', processedRows: 0, totalRows: 0 })).toBe(100);
+    });
+  });
+
+  describe('runReportExport', () => {
+    it('should end the upload and delete the partial file when a batch fails', async () => {
+      let uploadSettled = false;
+      const provider = {
+        upload: vi.fn((key: string, data: Readable) => new Promise<string>((resolve, reject) => {
+          data.on('data', () => undefined);
+          data.on('end', () => resolve(key));
+          data.on('error', reject);
+        }).finally(() => { uploadSettled = true; })),
+        delete: vi.fn(async () => true),
+      };
+      vi.mocked(getOrInitializeStorage).mockResolvedValue(provider as any);
+      dbState.updates = [];
+      dbState.selects = [
+        async () => [{ id: 'export-1', organisationId: 'org-1', reportType: 'properties', format: 'CSV', status: 'QUEUED', filters: {} }],
+        async () => [{ total: 5000 }],
+        async () => { throw new Error('Database unavailable'); },
+      ];
+
+      await expect(runReportExport('export-1')).rejects.toThrow('Database unavailable');
+
+      expect(uploadSettled).toBe(true);
+      expect(provider.delete).toHaveBeenCalledWith('exports/org-1/export-1.csv');
+      expect(dbState.updates[dbState.updates.length - 1]).toMatchObject({ status: 'FAILED', errorMessage: 'Database unavailable' });
+    });
+  });
+
+  it('should build a dated download filename', () => {
+    expect(getExportFilename({ reportType: 'certificates', format: 'EXCEL', createdAt: new Date('2025-11-03T10:00:00Z') }))
+      .toBe('certificates-export-2025-11-03.xlsx');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as XLSX from 'xlsx';
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', () => ({
+  db: {},
+}));
+
+vi.mock('../server/storage/providers', () => ({
+  getOrInitializeStorage: vi.fn(),
+}));
+
+vi.mock('../server/services/report-data', () => ({
+  getComplianceSummaryData: vi.fn().mockResolvedValue({
+    totals: { totalCertificates: 12, compliant: 9, nonCompliant: 2, expired: 1, expiringSoon: 3, complianceRate: 75 },
+    byStream: [
+      { stream: 'gas', type: 'GAS_SAFETY', total: 8, compliant: 6, nonCompliant: 1, expired: 1, expiringSoon: 2 },
+      { stream: 'electrical', type: 'EICR', total: 4, compliant: 3, nonCompliant: 1, expired: 0, expiringSoon: 1 },
+    ],
+  }),
+  getCertificateExpiryData: vi.fn().mockResolvedValue({
+    expiring: [
+      { id: 'c1', type: 'GAS_SAFETY', complianceStream: 'gas', propertyAddress: '1 High Street', expiryDate: '2025-12-01' },
+    ],
+    grouped: { urgent: [], soon: [], upcoming: [] },
+    summary: { total: 1, urgentCount: 0, soonCount: 1, upcomingCount: 0 },
+  }),
+  getBoardSummaryData: vi.fn(),
+  getPropertyHealthData: vi.fn(),
+  getContractorPerformanceData: vi.fn(),
+  getMonthlyTrendsData: vi.fn(),
+}));
+
+import { getBoardSummaryData } from '../server/services/report-data';
+import {
+  resolveSectionSource,
+  buildReportSections,
+  renderReportCsv,
+  renderReportExcel,
+  renderReportPdf,
+  getReportDownloadFilename,
+  type ReportDocument,
+} from '../server/services/report-generator';
+
+describe('Report Generator', () => {
+  const report: ReportDocument = {
+    title: 'Board Pack',
+    generatedAt: new Date('2025-11-03T09:00:00Z'),
+    sections: [
+      {
+        title: 'Compliance by Stream',
+        summary: [{ label: 'Compliance Rate', value: '75%' }],
+        columns: ['Stream', 'Property', 'Total'],
+        rows: [
+          ['gas', 'Flat 1, "The Mews"', 8],
+          ['electrical', '=HYPERLINK("x")', 4],
+        ],
+      },
+    ],
+  };
+
+  describe('resolveSectionSource', () => {
+    it('should map template section names to report data sources', () => {
+      expect(resolveSectionSource('Expiring Certificates')).toBe('CERTIFICATE_EXPIRY');
+      expect(resolveSectionSource('Engineer Performance')).toBe('CONTRACTOR_PERFORMANCE');
+      expect(resolveSectionSource('Trend Analysis')).toBe('MONTHLY_TRENDS');
+      expect(resolveSectionSource('Executive Summary')).toBe('BOARD_SUMMARY');
+      expect(resolveSectionSource('LGSR Status')).toBe('COMPLIANCE_BY_STREAM');
+      expect(resolveSectionSource('Risk Matrix')).toBe('PROPERTY_HEALTH');
+    });
+
+    it('should return null for sections with no data source', () => {
+      expect(resolveSectionSource('Appendix')).toBeNull();
+    });
+  });
+
+  describe('buildReportSections', () => {
+    it('should load each section and apply the compliance stream filter', async () => {
+      const sections = await buildReportSections(
+        ['Compliance by Stream', 'Expiring Certificates'],
+        'org-1',
+        { complianceStreamId: 'electrical' }
+      );
+      expect(sections).toHaveLength(2);
+      expect(sections[0].rows).toEqual([['electrical', 'EICR', 4, 3, 1, 0, 1]]);
+      expect(sections[1].rows).toHaveLength(0);
+    });
+
+    it('should scope the board summary to the selected schemes and refuse a date range', async () => {
+      vi.mocked(getBoardSummaryData).mockResolvedValue({
+        overview: { overallCompliance: 90, totalProperties: 4, totalCertificates: 10, openActions: 3 },
+        certificates: { total: 10, compliant: 9, nonCompliant: 1, pending: 0 },
+        actions: { critical: 1, major: 1, minor: 1 },
+        riskLevel: 'MEDIUM',
+      });
+
+      const [section] = await buildReportSections(['Executive Summary'], 'org-1', { schemeIds: ['scheme-1'] });
+      expect(getBoardSummaryData).toHaveBeenCalledWith('org-1', { schemeIds: ['scheme-1'] });
+      expect(section.rows).toContainEqual(['Critical Open Actions', 1]);
+
+      await expect(buildReportSections(['Executive Summary'], 'org-1', { dateRangeType: 'LAST_30_DAYS' }))
+        .rejects.toThrow('dateRangeType');
+    });
+
+    it('should keep unmatched sections as empty placeholders', async () => {
+      const sections = await buildReportSections(['Appendix'], 'org-1');
+      expect(sections[0]).toEqual({ title: 'Appendix', summary: [], columns: [], rows: [] });
+    });
+  });
+
+  describe('renderers', () => {
+    it('should quote and neutralise CSV cells', () => {
+      const csv = renderReportCsv(report).toString('utf-8');
+      expect(csv).toContain('gas,"Flat 1, ""The Mews""",8');
+      expect(csv).toContain(`electrical,"'=HYPERLINK(""x"")",4`);
+    });
+
+    it('should write one worksheet per section plus a summary', () => {
+      const workbook = XLSX.read(renderReportExcel(report), { type: 'buffer' });
+      expect(workbook.SheetNames).toEqual(['Summary', 'Compliance by Stream']);
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets['Compliance by Stream'], { header: 1 });
+      expect(rows[0]).toEqual(['Stream', 'Property', 'Total']);
+      expect(rows).toHaveLength(3);
+    });
+
+    it('should produce a PDF document', () => {
+      const pdf = renderReportPdf(report);
+      expect(pdf.subarray(0, 5).toString('latin1')).toBe('%PDF-');
+      expect(pdf.length).toBeGreaterThan(1000);
+    });
+  });
+
+  describe('getReportDownloadFilename', () => {
+    it('should slugify the report name and use the format extension', () => {
+      expect(getReportDownloadFilename('Board Pack (Q3)', 'EXCEL', new Date('2025-11-03T09:00:00Z')))
+        .toBe('board-pack-q3-2025-11-03.xlsx');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, beforeAll } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+
+const state = vi.hoisted(() => ({
+  user: null as Record<string, unknown> | null,
+  queries: [] as Array<{ sql: string; params: unknown[] }>,
+}));
+
+vi.mock('../server/logger', () => {
+  const logger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: () => logger,
+  };
+  return { logger, jobLogger: logger, default: logger };
+});
+
+vi.mock('../server/session', () => ({
+  requireAuth: (req: any, res: any, next: () => void) => {
+    if (!state.user) return res.status(401).json({ error: 'Authentication required' });
+    req.user = state.user;
+    next();
+  },
+}));
+
+const generatedReports = [
+  { id: 'report-1', organisation_id: 'org-1', name: 'Board pack', deliveries: [{ recipient: 'board@org-one.example' }] },
+  { id: 'report-2', organisation_id: 'org-2', name: 'Other board pack', deliveries: [{ recipient: 'board@org-two.example' }] },
+];
+
+vi.mock('../server/db', () => ({
+  db: {
+    execute: vi.fn(async (query: any) => {
+      const { sql, params } = new PgDialect().sqlToQuery(query);
+      state.queries.push({ sql, params });
+      // Stand in for the WHERE clause: only reports of an organisation the query is bound to come back
+      return { rows: generatedReports.filter(report => !sql.includes('organisation_id') || params.includes(report.organisation_id)) };
+    }),
+  },
+  pool: {},
+}));
+
+vi.mock('../server/storage', () => ({
+  storage: new Proxy({} as Record<string, unknown>, {
+    get: (target, prop: string) => {
+      if (prop === 'then') return undefined;
+      target[prop] ??= vi.fn(async () => null);
+      return target[prop];
+    },
+  }),
+}));
+
+vi.mock('../server/storage/providers', () => ({
+  getOrInitializeStorage: vi.fn(),
+  StorageError: class extends Error {},
+  StorageErrorCode: {},
+}));
+
+describe('Generated report routes', () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    const { reportsRouter } = await import('../server/routes/reports.routes');
+    app = express();
+    app.use(express.json());
+    app.use('/api/reports', reportsRouter);
+  }, 60000);
+
+  beforeEach(() => {
+    state.user = { id: 'user-1', role: 'ADMIN', organisationId: 'org-1' };
+    state.queries = [];
+  });
+
+  it('lists only the session organisation reports and delivery recipients', async () => {
+    const response = await request(app).get('/api/reports/generated');
+
+    expect(response.status).toBe(200);
+    expect(response.body.map((report: { id: string }) => report.id)).toEqual(['report-1']);
+    expect(JSON.stringify(response.body)).not.toContain('org-two.example');
+    expect(state.queries[0].sql).toContain('gr.organisation_id = $');
+    expect(state.queries[0].sql).toContain('rd.organisation_id = $');
+    expect(state.queries[0].params).toEqual(['org-1', 'org-1']);
+  });
+
+  it('refuses users without an organisation', async () => {
+    state.user = { id: 'user-2', role: 'ADMIN', organisationId: null };
+
+    const response = await request(app).get('/api/reports/generated');
+
+    expect(response.status).toBe(403);
+    expect(state.queries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', () => ({
+  db: {},
+}));
+
+import {
+  applyScenarios,
+  simulateScenarios,
+  getNonCompliantStreams,
+  scenarioRequestSchema,
+  type PortfolioPropertyInput,
+  type Scenario,
+} from '../server/services/risk-scenarios';
+import { scorePropertyRisk } from '../server/services/risk-scoring';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+const THRESHOLDS = { CRITICAL: 45, HIGH: 35, MEDIUM: 20 };
+
+function makeProperty(id: string, overrides: Partial<PortfolioPropertyInput> = {}): PortfolioPropertyInput {
+  return {
+    propertyId: id,
+    name: `Property ${id}`,
+    lat: 51.5,
+    lng: -0.1,
+    property: {
+      constructionYear: 2000,
+      numberOfFloors: 2,
+      vulnerableOccupant: false,
+      hasAsbestos: false,
+      hasSprinklers: false,
+      hasGas: true,
+      hasElectricity: true,
+      epcRating: 'C',
+    },
+    certificates: [
+      { id: `${id}-gas`, certificateType: 'GAS_SAFETY', expiryDate: '2026-01-01' },
+      { id: `${id}-eicr`, certificateType: 'EICR', expiryDate: '2027-01-01' },
+      { id: `${id}-epc`, certificateType: 'EPC', expiryDate: '2030-01-01' },
+      { id: `${id}-fra`, certificateType: 'FIRE_RISK_ASSESSMENT', expiryDate: '2026-03-01' },
+    ],
+    openActions: [],
+    ...overrides,
+  };
+}
+
+function enable(type: Scenario['type'], params: Scenario['params'] = {}): Scenario {
+  return { type, enabled: true, params };
+}
+
+describe('Risk Scenarios', () => {
+  describe('scenarioRequestSchema', () => {
+    it('should accept the client scenario shape', () => {
+      const parsed = scenarioRequestSchema.parse({
+        scenarios: [{ type: 'certificate_slip', enabled: true, params: { slipPercentage: 30 } }],
+      });
+      expect(parsed.scenarios[0].params.slipPercentage).toBe(30);
+    });
+
+    it('should reject unknown scenario types', () => {
+      expect(scenarioRequestSchema.safeParse({ scenarios: [{ type: 'meteor_strike', enabled: true, params: {} }] }).success).toBe(false);
+    });
+  });
+
+  describe('applyScenarios', () => {
+    it('should not modify the original portfolio', () => {
+      const portfolio = [makeProperty('a', { openActions: [{ id: 'x', code: 'C3', dueDate: null, severity: 'ROUTINE', description: 'Bonding' }] })];
+      applyScenarios(portfolio, [enable('advisory_as_failure')], NOW);
+      expect(portfolio[0].openActions[0].severity).toBe('ROUTINE');
+    });
+
+    it('should treat advisory severities and C3/FI/NCS codes as major defects', () => {
+      const portfolio = [makeProperty('a', {
+        openActions: [
+          { id: '1', code: 'c3', dueDate: null, severity: 'ROUTINE', description: 'No RCD' },
+          { id: '2', code: null, dueDate: null, severity: 'ADVISORY', description: 'Consider upgrade' },
+          { id: '3', code: 'C2', dueDate: null, severity: 'ROUTINE', description: 'Other' },
+        ],
+      })];
+      const [result] = applyScenarios(portfolio, [enable('advisory_as_failure')], NOW);
+      expect(result.openActions.map(a => a.severity)).toEqual(['URGENT', 'URGENT', 'ROUTINE']);
+    });
+
+    it('should slip the earliest-expiring share of certificates due soon', () => {
+      const portfolio = [
+        makeProperty('a', { certificates: [{ id: 'a1', certificateType: 'GAS_SAFETY', expiryDate: '2025-06-05' }] }),
+        makeProperty('b', { certificates: [{ id: 'b1', certificateType: 'GAS_SAFETY', expiryDate: '2025-06-20' }] }),
+        makeProperty('c', { certificates: [{ id: 'c1', certificateType: 'GAS_SAFETY', expiryDate: '2025-09-01' }] }),
+      ];
+      const result = applyScenarios(portfolio, [enable('certificate_slip', { slipPercentage: 50 })], NOW);
+      expect(result[0].certificates[0].expiryDate).toBe('2025-05-31');
+      expect(result[1].certificates[0].expiryDate).toBe('2025-06-20');
+      expect(result[2].certificates[0].expiryDate).toBe('2025-09-01');
+    });
+
+    it('should escalate the soonest-due open actions under reduced capacity', () => {
+      const portfolio = [makeProperty('a', {
+        openActions: [
+          { id: '1', code: null, dueDate: '2025-07-01', severity: 'ROUTINE', description: 'Later' },
+          { id: '2', code: null, dueDate: '2025-06-10', severity: 'URGENT', description: 'Sooner' },
+          { id: '3', code: null, dueDate: null, severity: 'ROUTINE', description: 'Undated' },
+          { id: '4', code: null, dueDate: '2025-06-15', severity: 'ADVISORY', description: 'Middle' },
+        ],
+      })];
+      const [result] = applyScenarios(portfolio, [enable('capacity_reduction', { capacityReduction: 50 })], NOW);
+      expect(result.openActions.map(a => a.severity)).toEqual(['ROUTINE', 'IMMEDIATE', 'ROUTINE', 'URGENT']);
+    });
+
+    it('should add an immediate hazard where two or more streams are non-compliant', () => {
+      const failing = makeProperty('a', {
+        certificates: [
+          { id: 'a1', certificateType: 'GAS_SAFETY', expiryDate: '2025-01-01' },
+          { id: 'a2', certificateType: 'EPC', expiryDate: '2030-01-01' },
+          { id: 'a3', certificateType: 'FIRE_RISK_ASSESSMENT', expiryDate: '2026-01-01' },
+        ],
+      });
+      expect(getNonCompliantStreams(failing, NOW)).toEqual(['GAS_SAFETY', 'Electrical']);
+
+      const [result, healthy] = applyScenarios([failing, makeProperty('b')], [enable('dual_failure')], NOW);
+      expect(result.openActions).toHaveLength(1);
+      expect(result.openActions[0].severity).toBe('IMMEDIATE');
+      expect(healthy.openActions).toHaveLength(0);
+    });
+
+    it('should restrict the portfolio to high-rise buildings', () => {
+      const tower = makeProperty('tower', { property: { ...makeProperty('x').property!, numberOfFloors: 12 } });
+      const result = applyScenarios([makeProperty('a'), tower], [enable('hrb_only')], NOW);
+      expect(result.map(r => r.propertyId)).toEqual(['tower']);
+    });
+
+    it('should ignore disabled scenarios', () => {
+      const portfolio = [makeProperty('a'), makeProperty('b')];
+      const result = applyScenarios(portfolio, [{ type: 'hrb_only', enabled: false, params: {} }], NOW);
+      expect(result).toHaveLength(2);
+    });
+  });
+
+  describe('simulateScenarios', () => {
+    it('should report no change when no scenarios are enabled', () => {
+      const result = simulateScenarios([makeProperty('a'), makeProperty('b')], [], { organisationId: 'org', thresholds: THRESHOLDS, now: NOW });
+      expect(result.impact.scoreChange).toBe(0);
+      expect(result.impact.additionalAtRisk).toBe(0);
+      expect(result.properties.every(p => !p.tierChanged)).toBe(true);
+      expect(result.propertyCount).toBe(2);
+    });
+
+    it('should flag properties that flip to CRITICAL', () => {
+      const vulnerable = makeProperty('a', {
+        property: { ...makeProperty('x').property!, vulnerableOccupant: true, hasAsbestos: true, constructionYear: 1960 },
+        certificates: [
+          { id: 'a1', certificateType: 'GAS_SAFETY', expiryDate: '2025-06-03' },
+          { id: 'a2', certificateType: 'EICR', expiryDate: '2025-06-04' },
+          { id: 'a3', certificateType: 'EPC', expiryDate: '2030-01-01' },
+          { id: 'a4', certificateType: 'FIRE_RISK_ASSESSMENT', expiryDate: '2026-01-01' },
+        ],
+        openActions: [
+          { id: '1', code: 'C3', dueDate: '2025-06-02', severity: 'ADVISORY', description: 'No RCD' },
+          { id: '2', code: 'FI', dueDate: '2025-06-02', severity: 'ADVISORY', description: 'Investigate' },
+        ],
+      });
+      const stable = makeProperty('b');
+
+      const result = simulateScenarios(
+        [vulnerable, stable],
+        [enable('certificate_slip', { slipPercentage: 100 }), enable('advisory_as_failure'), enable('dual_failure')],
+        { organisationId: 'org', thresholds: THRESHOLDS, now: NOW }
+      );
+
+      const outcome = result.properties.find(p => p.propertyId === 'a')!;
+      expect(outcome.baselineTier).not.toBe('CRITICAL');
+      expect(outcome.scenarioTier).toBe('CRITICAL');
+      expect(outcome.becameCritical).toBe(true);
+      expect(result.properties.find(p => p.propertyId === 'b')!.tierChanged).toBe(false);
+      expect(result.impact.newHotspots.map(h => h.id)).toEqual(['a']);
+      expect(result.scenario.score).toBeLessThan(result.baseline.score);
+      expect(result.tierCounts.scenario.CRITICAL).toBe(1);
+    });
+
+    it('should score scenario inputs with the same model as calculatePropertyRiskScore', () => {
+      const property = makeProperty('a');
+      const result = simulateScenarios([property], [], { organisationId: 'org', thresholds: THRESHOLDS, now: NOW });
+      const direct = scorePropertyRisk(property, 'org', { thresholds: THRESHOLDS, now: NOW });
+      expect(result.properties[0].baselineRiskScore).toBe(direct.overallScore);
+      expect(result.properties[0].baselineTier).toBe(direct.riskTier);
+    });
+  });
+});
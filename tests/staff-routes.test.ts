@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, beforeAll } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+
+const sessionState = vi.hoisted(() => ({
+  user: null as Record<string, unknown> | null,
+  gate: 'SATISFIED' as string,
+}));
+
+vi.mock('../server/logger', () => {
+  const logger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: () => logger,
+  };
+  return { logger, jobLogger: logger, default: logger };
+});
+
+vi.mock('../server/auth', () => ({
+  auth: {
+    api: {
+      getSession: vi.fn(async () => sessionState.user ? { user: { id: sessionState.user.id }, session: { id: 'session-1' } } : null),
+    },
+    handler: vi.fn(),
+  },
+  getConfiguredProviders: () => [],
+}));
+
+vi.mock('better-auth/node', () => ({
+  fromNodeHeaders: (headers: unknown) => headers,
+  toNodeHandler: () => (_req: unknown, res: { status: (code: number) => { end: () => void } }) => res.status(404).end(),
+}));
+
+vi.mock('../server/db', () => {
+  const rows = () => sessionState.user ? [sessionState.user] : [];
+  const chain = (): any => new Proxy(() => undefined, {
+    get: (_target, prop) => prop === 'then'
+      ? (resolve: any, reject: any) => Promise.resolve().then(rows).then(resolve, reject)
+      : () => chain(),
+    apply: () => chain(),
+  });
+  return { db: chain(), pool: {} };
+});
+
+vi.mock('../server/storage', () => ({
+  storage: new Proxy({} as Record<string, unknown>, {
+    get: (target, prop: string) => {
+      if (prop === 'then') return undefined;
+      if (prop === 'getUser') return vi.fn(async () => sessionState.user);
+      if (prop === 'getFactorySettingValue') return vi.fn(async (_key: string, fallback: string) => fallback);
+      target[prop] ??= vi.fn(async () => null);
+      return target[prop];
+    },
+  }),
+}));
+
+vi.mock('../server/replit_integrations/object_storage', () => ({
+  ObjectStorageService: class {},
+  registerObjectStorageRoutes: vi.fn(),
+}));
+
+vi.mock('../server/services/mfa', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../server/services/mfa')>()),
+  getMfaGateStatus: vi.fn(async () => sessionState.gate),
+}));
+
+import { storage } from '../server/storage';
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+function sessionUser(role: string) {
+  return {
+    id: 'user-1',
+    username: 'jane',
+    name: 'Jane',
+    email: 'jane@example.com',
+    role,
+    organisationId: 'org-1',
+    mfaEnabled: false,
+  };
+}
+
+describe('Contractor staff routes', () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    const { mountDomainRouters } = await import('../server/routes');
+    app = express();
+    app.use(express.json());
+    mountDomainRouters(app);
+  }, 60000);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sessionState.user = sessionUser('ADMIN');
+    sessionState.gate = 'SATISFIED';
+  });
+
+  it('serves the competency matrix to a signed-in user', async () => {
+    const response = await request(app).get('/api/contractor-competency-matrix');
+
+    expect(response.status).toBe(200);
+    expect(mockStorage.getOrganisation).toHaveBeenCalledWith('org-1');
+  });
+
+  it('rejects requests without a session', async () => {
+    sessionState.user = null;
+
+    const response = await request(app).get('/api/contractor-competency-matrix');
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects a session that has not completed MFA', async () => {
+    sessionState.gate = 'MFA_VERIFICATION_REQUIRED';
+
+    const response = await request(app).get('/api/contractor-certification-monitor');
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('MFA_VERIFICATION_REQUIRED');
+  });
+
+  it('limits competency matrix changes to roles that may override the gate', async () => {
+    sessionState.user = sessionUser('VIEWER');
+
+    const response = await request(app).put('/api/contractor-competency-matrix').send({});
+
+    expect(response.status).toBe(403);
+    expect(mockStorage.updateOrganisation).not.toHaveBeenCalled();
+  });
+
+  it('only builds SLA statements for contractors in the session organisation', async () => {
+    mockStorage.getContractor.mockResolvedValueOnce({ id: 'contractor-1', organisationId: 'org-2' });
+
+    const response = await request(app).get('/api/contractor-performance/contractor-1/statement?month=2025-05');
+
+    expect(response.status).toBe(403);
+    expect(mockStorage.getContractor).toHaveBeenCalledWith('contractor-1');
+  });
+
+  it('keeps the stored gate evidence when an assignment update sends metadata', async () => {
+    const competency = { workCategory: 'GAS_BOILER', satisfied: false, override: { reason: 'Emergency cover' } };
+    const asbestosWarning = { acknowledgedById: 'user-2', acknowledgedAt: '2025-05-01T09:00:00.000Z' };
+    mockStorage.getContractorAssignment.mockResolvedValueOnce({
+      id: 'assignment-1',
+      organisationId: 'org-1',
+      contractorId: 'contractor-1',
+      workCategory: 'GAS_BOILER',
+      status: 'ASSIGNED',
+      metadata: { competency, asbestosWarning, purchaseOrder: 'PO-1' },
+    });
+
+    const response = await request(app).patch('/api/contractor-assignments/assignment-1').send({
+      metadata: { competency: { satisfied: true }, asbestosWarning: null, siteContact: 'Caretaker' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockStorage.updateContractorAssignment).toHaveBeenCalledWith('assignment-1', {
+      metadata: { competency, asbestosWarning, purchaseOrder: 'PO-1', siteContact: 'Caretaker' },
+    });
+  });
+
+  it('rejects SLA priorities the profile lookup does not know', async () => {
+    const assignment = await request(app).post('/api/contractor-assignments').send({ contractorId: 'contractor-1', priority: 'P1' });
+    const profile = await request(app).post('/api/contractor-sla-profiles').send({
+      name: 'Gas emergency',
+      workCategory: 'GAS_BOILER',
+      priority: 'urgent',
+      responseTimeHours: 4,
+      completionTimeHours: 24,
+    });
+
+    expect(assignment.status).toBe(400);
+    expect(profile.status).toBe(400);
+    expect(mockStorage.getContractor).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { generateKeyPairSync, randomUUID } from 'crypto';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { Storage } from '@google-cloud/storage';
+import {
+  IStorageProvider,
+  StorageProviderType,
+  ObjectVisibility,
+  ObjectPermission,
+  StorageError,
+  StorageErrorCode,
+} from '../server/storage/providers/types';
+import { LocalStorageProvider } from '../server/storage/providers/local';
+import { GCSStorageProvider } from '../server/storage/providers/gcs';
+
+const { privateKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+// Signing uses these locally, so no call ever reaches Google
+const TEST_CREDENTIALS = {
+  client_email: 'contract-tests@test-project.iam.gserviceaccount.com',
+  private_key: privateKey,
+};
+
+// Set to a running fake-gcs-server, e.g. http://localhost:4443
+const GCS_EMULATOR_HOST = process.env.GCS_API_ENDPOINT || process.env.STORAGE_EMULATOR_HOST;
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+interface ContractTarget {
+  setup: () => Promise<IStorageProvider>;
+  teardown?: () => Promise<void>;
+}
+
+function describeStorageContract(name: string, target: ContractTarget, options: { skip?: boolean } = {}) {
+  describe.skipIf(options.skip)(`${name} storage contract`, () => {
+    let provider: IStorageProvider;
+    const prefix = `.private/contract-${randomUUID()}`;
+    const key = `${prefix}/certificate.txt`;
+
+    beforeAll(async () => {
+      provider = await target.setup();
+    });
+
+    afterAll(async () => {
+      await target.teardown?.();
+    });
+
+    it('should report healthy once initialised', async () => {
+      expect(await provider.healthCheck()).toBe(true);
+    });
+
+    it('should upload a buffer and read it back with metadata', async () => {
+      await provider.upload(key, Buffer.from('gas safety record'), { contentType: 'text/plain' });
+
+      expect(await provider.exists(key)).toBe(true);
+      const { data, metadata } = await provider.download(key);
+      expect(await readAll(data)).toBe('gas safety record');
+      expect(metadata.contentType).toBe('text/plain');
+      expect((await provider.getMetadata(key)).size).toBe(17);
+    });
+
+    it('should upload from a stream', async () => {
+      const streamKey = `${prefix}/streamed.txt`;
+      await provider.upload(streamKey, Readable.from([Buffer.from('part one, '), Buffer.from('part two')]), {
+        contentType: 'text/plain',
+      });
+
+      const { data } = await provider.download(streamKey);
+      expect(await readAll(data)).toBe('part one, part two');
+    });
+
+    it('should copy objects and list them under a prefix', async () => {
+      const copyKey = `${prefix}/copy.txt`;
+      await provider.copy(key, copyKey);
+
+      const { data } = await provider.download(copyKey);
+      expect(await readAll(data)).toBe('gas safety record');
+
+      const { objects } = await provider.list({ prefix });
+      expect(objects.map((o) => o.key)).toEqual(expect.arrayContaining([key, copyKey]));
+    });
+
+    it('should store ACL policies and enforce visibility', async () => {
+      await provider.setAclPolicy(key, { visibility: ObjectVisibility.PRIVATE });
+      expect((await provider.getAclPolicy(key))?.visibility).toBe(ObjectVisibility.PRIVATE);
+      expect(await provider.canAccess(key, undefined, ObjectPermission.READ)).toBe(false);
+
+      await provider.setAclPolicy(key, { visibility: ObjectVisibility.PUBLIC });
+      expect(await provider.canAccess(key, undefined, ObjectPermission.READ)).toBe(true);
+      expect(await provider.canAccess(key, undefined, ObjectPermission.WRITE)).toBe(false);
+    });
+
+    it('should raise NOT_FOUND for missing objects and ignore deleting them', async () => {
+      const missing = `${prefix}/missing.txt`;
+
+      expect(await provider.exists(missing)).toBe(false);
+      await expect(provider.download(missing)).rejects.toMatchObject({ code: StorageErrorCode.NOT_FOUND });
+      await expect(provider.delete(missing)).resolves.toBeUndefined();
+    });
+
+    it('should delete objects', async () => {
+      await provider.delete(key);
+      expect(await provider.exists(key)).toBe(false);
+    });
+  });
+}
+
+let localDir = '';
+describeStorageContract('Local', {
+  setup: async () => {
+    localDir = await mkdtemp(path.join(tmpdir(), 'storage-contract-'));
+    const provider = new LocalStorageProvider({ type: StorageProviderType.LOCAL, basePath: localDir });
+    await provider.initialize();
+    return provider;
+  },
+  teardown: () => rm(localDir, { recursive: true, force: true }),
+});
+
+const emulatorBuckets = { publicBucket: `contract-public-${Date.now()}`, privateBucket: `contract-private-${Date.now()}` };
+describeStorageContract('GCS (emulator)', {
+  setup: async () => {
+    const admin = new Storage({ apiEndpoint: GCS_EMULATOR_HOST, projectId: 'test-project' });
+    await admin.createBucket(emulatorBuckets.publicBucket);
+    await admin.createBucket(emulatorBuckets.privateBucket);
+
+    const provider = new GCSStorageProvider({
+      type: StorageProviderType.GCS,
+      projectId: 'test-project',
+      apiEndpoint: GCS_EMULATOR_HOST,
+      credentials: TEST_CREDENTIALS,
+      ...emulatorBuckets,
+    });
+    await provider.initialize();
+    return provider;
+  },
+  teardown: async () => {
+    const admin = new Storage({ apiEndpoint: GCS_EMULATOR_HOST, projectId: 'test-project' });
+    for (const bucketName of Object.values(emulatorBuckets)) {
+      const bucket = admin.bucket(bucketName);
+      await bucket.deleteFiles({ force: true });
+      await bucket.delete({ ignoreNotFound: true });
+    }
+  },
+}, { skip: !GCS_EMULATOR_HOST });
+
+describe('GCS signed URLs', () => {
+  let provider: GCSStorageProvider;
+
+  beforeAll(async () => {
+    provider = new GCSStorageProvider({
+      type: StorageProviderType.GCS,
+      projectId: 'test-project',
+      credentials: TEST_CREDENTIALS,
+      publicBucket: 'compliance-public',
+      privateBucket: 'compliance-private',
+    });
+    await provider.initialize();
+  });
+
+  it('should sign V4 read URLs against the private bucket', async () => {
+    const url = new URL(await provider.getSignedUrl('.private/certificates/gas.pdf', { method: 'GET', ttlSec: 900 }));
+
+    expect(url.pathname).toBe('/compliance-private/certificates/gas.pdf');
+    expect(url.searchParams.get('X-Goog-Algorithm')).toBe('GOOG4-RSA-SHA256');
+    expect(url.searchParams.get('X-Goog-Expires')).toBe('900');
+    expect(url.searchParams.get('X-Goog-Credential')).toContain(TEST_CREDENTIALS.client_email);
+  });
+
+  it('should refuse to sign HEAD requests', async () => {
+    await expect(provider.getSignedUrl('.private/certificates/gas.pdf', { method: 'HEAD', ttlSec: 900 }))
+      .rejects.toMatchObject({ code: StorageErrorCode.CONFIGURATION_ERROR });
+  });
+
+  it('should clamp expiry to the seven day V4 maximum', async () => {
+    const url = new URL(await provider.getSignedUrl('public/logo.png', { method: 'GET', ttlSec: 30 * 24 * 3600 }));
+
+    expect(url.pathname).toBe('/compliance-public/logo.png');
+    expect(url.searchParams.get('X-Goog-Expires')).toBe('604800');
+  });
+
+  it('should issue private upload URLs under the requested prefix', async () => {
+    const { uploadUrl, objectKey } = await provider.getUploadUrl('evidence', 600);
+
+    expect(objectKey).toMatch(/^\.private\/evidence\/[0-9a-f-]{36}$/);
+    expect(new URL(uploadUrl).pathname).toBe(`/compliance-private/${objectKey.substring(9)}`);
+  });
+
+  it('should only expose public URLs for public keys', () => {
+    expect(provider.getPublicUrl('public/reports/summary v1.pdf'))
+      .toBe('https://storage.googleapis.com/compliance-public/reports/summary%20v1.pdf');
+    expect(provider.getPublicUrl('.private/certificates/gas.pdf')).toBeNull();
+  });
+
+  it('should reject operations before initialisation', async () => {
+    const uninitialised = new GCSStorageProvider({ type: StorageProviderType.GCS, projectId: 'test-project' });
+
+    await expect(uninitialised.getMetadata('.private/a.txt')).rejects.toBeInstanceOf(StorageError);
+    expect(await uninitialised.healthCheck()).toBe(false);
+  });
+});
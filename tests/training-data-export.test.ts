@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const dbState = vi.hoisted(() => ({
+  reviews: [] as any[],
+  corrections: [] as any[],
+  audits: [] as any[],
+  conditions: [] as any[],
+}));
+
+const providerState = vi.hoisted(() => ({
+  uploads: new Map<string, string>(),
+  signedUrls: true,
+}));
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', async () => {
+  const { getTableName } = await import('drizzle-orm');
+  const rowsFor = (table: any) => {
+    const name = getTableName(table);
+    if (name === 'extraction_corrections') return dbState.corrections;
+    if (name === 'extraction_tier_audits') return dbState.audits;
+    return dbState.reviews;
+  };
+  const chain = (rows: () => any[]): any => Object.assign(Promise.resolve().then(rows), {
+    innerJoin: () => chain(rows),
+    where: (condition: any) => {
+      dbState.conditions.push(condition);
+      return chain(rows);
+    },
+    orderBy: () => chain(rows),
+  });
+  return {
+    db: {
+      select: () => ({
+        from: (table: any) => chain(() => rowsFor(table)),
+      }),
+    },
+  };
+});
+
+vi.mock('../server/storage/providers', async () => {
+  const { StorageError, StorageErrorCode } = await import('../server/storage/providers/types');
+  const provider = {
+    upload: vi.fn(async (key: string, data: Buffer) => {
+      providerState.uploads.set(key, data.toString('utf-8'));
+      return key;
+    }),
+    getSignedUrl: vi.fn(async (key: string) => {
+      if (!providerState.signedUrls) {
+        throw new StorageError('Signed URLs not supported', StorageErrorCode.CONFIGURATION_ERROR, key, 'local');
+      }
+      return `https://storage.example/${key}?signature=abc`;
+    }),
+  };
+  return {
+    StorageError,
+    StorageErrorCode,
+    getOrInitializeStorage: vi.fn(async () => provider),
+  };
+});
+
+import { PgDialect } from 'drizzle-orm/pg-core';
+import {
+  REDACTED_NAME,
+  REDACTED_PHONE,
+  exportTrainingData,
+  redactTrainingRecord,
+  trainingDataExportSchema,
+  type TrainingRecord,
+} from '../server/services/training-data-export';
+
+function makeRecord(overrides: Partial<TrainingRecord> = {}): TrainingRecord {
+  return {
+    reviewId: 'review-1',
+    extractionRunId: 'run-1',
+    certificateId: 'cert-1',
+    certificateType: 'GAS_SAFETY',
+    documentType: 'GAS',
+    modelVersion: 'claude-sonnet-4-20250514',
+    promptVersion: 'v2.0',
+    schemaVersion: 'v1.0',
+    document: {
+      fileName: 'gas.pdf',
+      storageKey: 'uploads/gas.pdf',
+      pageCount: 2,
+      text: 'Tenant: Mary Jones. Contact 07700 900123. Certificate GS-01134960000 issued.',
+    },
+    rawOutput: { certificateNumber: 'GS-01134960000', tenantName: 'Mary Jones', occupierPhone: '0113 496 0000' },
+    approvedOutput: { certificateNumber: 'GS-01134960000', tenantName: 'Mary Jones', residentialType: 'Flat' },
+    fieldChanges: [{ field: 'tenantName', before: 'M Jones', after: 'Mary Jones' }],
+    corrections: [],
+    errorTags: ['missed_field'],
+    reviewerId: 'user-1',
+    reviewedAt: '2025-03-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function reviewRow(id: string, certificateType: string, overrides: Record<string, unknown> = {}) {
+  return {
+    review: {
+      id: `review-${id}`,
+      extractionRunId: `run-${id}`,
+      reviewerId: 'user-1',
+      organisationId: 'org-1',
+      approvedOutput: { certificateNumber: `CERT-${id}`, outcome: 'PASS' },
+      fieldChanges: [],
+      errorTags: ['wrong_date'],
+      reviewedAt: new Date('2025-03-01T10:00:00Z'),
+      ...overrides,
+    },
+    run: {
+      id: `run-${id}`,
+      certificateId: `cert-${id}`,
+      documentType: 'GAS',
+      modelVersion: 'claude-sonnet-4-20250514',
+      promptVersion: 'v2.0',
+      schemaVersion: 'v1.0',
+      rawOutput: { certificateNumber: `CERT-${id}`, outcome: 'FAIL' },
+    },
+    certificate: {
+      id: `cert-${id}`,
+      certificateType,
+      fileName: `${id}.pdf`,
+      storageKey: `uploads/${id}.pdf`,
+    },
+  };
+}
+
+describe('Training data export', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    providerState.uploads = new Map();
+    providerState.signedUrls = true;
+    dbState.reviews = [];
+    dbState.corrections = [];
+    dbState.audits = [];
+    dbState.conditions = [];
+  });
+
+  describe('redactTrainingRecord', () => {
+    it('redacts tenant names wherever they appear and phone numbers in free text', () => {
+      const redacted = redactTrainingRecord(makeRecord());
+
+      expect(redacted.approvedOutput).toEqual({ certificateNumber: 'GS-01134960000', tenantName: REDACTED_NAME, residentialType: 'Flat' });
+      expect(redacted.rawOutput).toMatchObject({ tenantName: REDACTED_NAME, occupierPhone: REDACTED_PHONE });
+      expect(redacted.document.text).toBe(`Tenant: ${REDACTED_NAME}. Contact ${REDACTED_PHONE}. Certificate GS-01134960000 issued.`);
+      expect(redacted.fieldChanges).toEqual([{ field: 'tenantName', before: REDACTED_NAME, after: REDACTED_NAME }]);
+    });
+
+    it('redacts phone-keyed fields and corrections to tenant fields', () => {
+      const redacted = redactTrainingRecord(makeRecord({
+        rawOutput: { contactPhone: '+44 7700 900123' },
+        approvedOutput: {},
+        fieldChanges: [],
+        corrections: [{ fieldName: 'tenantName', originalValue: 'J Smith', correctedValue: 'John Smith', correctionType: 'WRONG_VALUE', sourceText: 'Occupied by John Smith' }],
+      }));
+
+      expect(redacted.rawOutput).toEqual({ contactPhone: REDACTED_PHONE });
+      expect(redacted.corrections[0]).toMatchObject({
+        originalValue: REDACTED_NAME,
+        correctedValue: REDACTED_NAME,
+        sourceText: `Occupied by ${REDACTED_NAME}`,
+      });
+    });
+  });
+
+  describe('exportTrainingData', () => {
+    it('writes one JSONL file per certificate type with document text and corrections', async () => {
+      dbState.reviews = [reviewRow('1', 'GAS_SAFETY'), reviewRow('2', 'EICR'), reviewRow('3', 'GAS_SAFETY')];
+      dbState.corrections = [{ certificateId: 'cert-1', fieldName: 'outcome', originalValue: 'FAIL', correctedValue: 'PASS', correctionType: 'WRONG_VALUE', sourceText: 'Result: PASS' }];
+      dbState.audits = [
+        { certificateId: 'cert-1', pageCount: 3, rawOutput: { textContent: 'Gas safety record page text' } },
+        { certificateId: 'cert-1', pageCount: 1, rawOutput: { textContent: 'older run' } },
+      ];
+
+      const result = await exportTrainingData('org-1', trainingDataExportSchema.parse({ errorTag: 'wrong_date' }));
+
+      expect(result.totalRecords).toBe(3);
+      expect(result.redacted).toBe(true);
+      expect(result.files.map(file => [file.certificateType, file.records])).toEqual([['GAS_SAFETY', 2], ['EICR', 1]]);
+      expect(result.files[0].downloadUrl).toContain('signature=');
+
+      const gasLines = providerState.uploads.get(result.files[0].storageKey)!.trim().split('\n').map(line => JSON.parse(line));
+      expect(result.files[0].storageKey).toBe(`training-data/org-1/${result.exportId}/GAS_SAFETY.jsonl`);
+      expect(gasLines).toHaveLength(2);
+      expect(gasLines[0]).toMatchObject({
+        certificateId: 'cert-1',
+        document: { fileName: '1.pdf', pageCount: 3, text: 'Gas safety record page text' },
+        rawOutput: { outcome: 'FAIL' },
+        approvedOutput: { outcome: 'PASS' },
+        corrections: [{ fieldName: 'outcome', correctedValue: 'PASS' }],
+        errorTags: ['wrong_date'],
+      });
+      expect(gasLines[1].corrections).toEqual([]);
+    });
+
+    it('falls back to the authenticated download route when signed URLs are unavailable', async () => {
+      dbState.reviews = [reviewRow('1', 'EICR')];
+      providerState.signedUrls = false;
+
+      const result = await exportTrainingData('org-1', trainingDataExportSchema.parse({}));
+
+      expect(result.files[0].downloadUrl).toBe(`/api/model-insights/training-data/${result.exportId}/EICR`);
+    });
+
+    it('returns no files when nothing matches', async () => {
+      const result = await exportTrainingData('org-1', trainingDataExportSchema.parse({ dateFrom: '2025-01-01', redactPii: false }));
+
+      expect(result.totalRecords).toBe(0);
+      expect(result.files).toEqual([]);
+      expect(providerState.uploads.size).toBe(0);
+    });
+
+    it('only exports reviews of approved runs', async () => {
+      await exportTrainingData('org-1', trainingDataExportSchema.parse({}));
+
+      const { sql, params } = new PgDialect().sqlToQuery(dbState.conditions[0]);
+      expect(sql).toContain('"extraction_runs"."status" = $2');
+      expect(params).toEqual(['org-1', 'APPROVED']);
+    });
+  });
+});
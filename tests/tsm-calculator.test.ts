@@ -0,0 +1,291 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', () => ({
+  db: {},
+}));
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    listProperties: vi.fn(),
+    listHouseholds: vi.fn(),
+    listServiceRequests: vi.fn(),
+    listHazardCases: vi.fn(),
+    listCertificates: vi.fn(),
+    listComplianceStreams: vi.fn(),
+    listTsmSnapshots: vi.fn(),
+    createTsmSnapshot: vi.fn(async (snapshot) => ({ id: `snapshot-${snapshot.measureCode}`, ...snapshot })),
+    updateTsmSnapshot: vi.fn(async (id, updates) => ({ id, ...updates })),
+  },
+}));
+
+import { storage } from '../server/storage';
+import {
+  calculateTsmMeasure,
+  calculateTsmMeasures,
+  calculateTsmSnapshots,
+  compareWithPreviousYear,
+  getTsmNumeratorRecords,
+  parseTsmPeriod,
+  type TsmSourceData,
+} from '../server/services/tsm-calculator';
+import type { Certificate, HazardCase, Household, Property, ServiceRequest, TsmSnapshot } from '@shared/schema';
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const PERIOD = parseTsmPeriod('2025-04-01', '2026-03-31');
+
+function makeProperty(overrides: Partial<Property> = {}): Property {
+  return {
+    id: 'property-1',
+    uprn: '100000000001',
+    tenure: 'SOCIAL_RENT',
+    hasGas: true,
+    hasAsbestos: false,
+    deletedAt: null,
+    ...overrides,
+  } as Property;
+}
+
+function makeRequest(overrides: Partial<ServiceRequest> = {}): ServiceRequest {
+  return {
+    id: 'request-1',
+    organisationId: 'org-1',
+    propertyId: 'property-1',
+    householdId: null,
+    requestReference: 'SR-1',
+    requestType: 'REPAIR_ROUTINE',
+    title: 'Leaking tap',
+    reportedAt: new Date('2025-05-01T09:00:00Z'),
+    completedAt: new Date('2025-05-10T09:00:00Z'),
+    targetCompletionTime: 480,
+    actualCompletionTime: 216,
+    metCompletionTarget: true,
+    linkedHazardCaseId: null,
+    ...overrides,
+  } as ServiceRequest;
+}
+
+function makeCertificate(overrides: Partial<Certificate> = {}): Certificate {
+  return {
+    id: 'cert-1',
+    organisationId: 'org-1',
+    propertyId: 'property-1',
+    certificateType: 'GAS_SAFETY',
+    complianceStreamId: null,
+    status: 'APPROVED',
+    certificateNumber: 'CP12-1',
+    issueDate: '2025-09-01',
+    expiryDate: '2026-09-01',
+    createdAt: new Date('2025-09-01T00:00:00Z'),
+    deletedAt: null,
+    ...overrides,
+  } as Certificate;
+}
+
+function makeData(overrides: Partial<TsmSourceData> = {}): TsmSourceData {
+  return {
+    properties: [
+      makeProperty(),
+      makeProperty({ id: 'property-2', uprn: '100000000002', tenure: 'LEASEHOLD', hasGas: false }),
+    ],
+    households: [
+      { id: 'household-1', propertyId: 'property-1', tenureType: 'SUPPORTED_HOUSING', isActive: true } as Household,
+    ],
+    serviceRequests: [],
+    hazardCases: [],
+    certificates: [],
+    streamCodes: { 'stream-fire': 'FIRE_SAFETY' },
+    ...overrides,
+  };
+}
+
+describe('TSM calculator', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('repairs completed within target', () => {
+    it('should count requests completed in the period and split them by tenure', () => {
+      const data = makeData({
+        serviceRequests: [
+          makeRequest(),
+          makeRequest({ id: 'request-2', requestReference: 'SR-2', propertyId: 'property-2', metCompletionTarget: false }),
+          makeRequest({ id: 'request-3', requestReference: 'SR-3', propertyId: 'property-2', metCompletionTarget: null }),
+          makeRequest({ id: 'request-4', requestReference: 'SR-4', completedAt: new Date('2025-03-31T12:00:00Z') }),
+          makeRequest({ id: 'request-5', requestReference: 'SR-5', requestType: 'REPAIR_EMERGENCY' }),
+        ],
+      });
+
+      const measure = calculateTsmMeasure('RP02_1', data, PERIOD);
+
+      expect(measure).toMatchObject({ numerator: 1, denominator: 3, value: 33.3 });
+      expect(measure.byTenure).toEqual({
+        SUPPORTED_HOUSING: { numerator: 1, denominator: 1, value: 100 },
+        LEASEHOLDER: { numerator: 0, denominator: 2, value: 0 },
+      });
+      expect(measure.records.map(record => record.reference)).toEqual(['SR-1']);
+    });
+
+    it('should include emergency hazard works not raised as a repair request', () => {
+      const hazard = (overrides: Partial<HazardCase>) => ({
+        id: 'hazard-1',
+        propertyId: 'property-1',
+        caseReference: 'HC-1',
+        category: 'DAMP_MOULD',
+        severity: 'EMERGENCY',
+        worksCompletedAt: new Date('2025-06-02T10:00:00Z'),
+        worksCompletionDue: new Date('2025-06-02T12:00:00Z'),
+        linkedServiceRequestIds: null,
+        ...overrides,
+      }) as HazardCase;
+      const data = makeData({
+        serviceRequests: [makeRequest({ requestType: 'REPAIR_EMERGENCY', linkedHazardCaseId: 'hazard-linked' })],
+        hazardCases: [
+          hazard({}),
+          hazard({ id: 'hazard-late', caseReference: 'HC-2', worksCompletedAt: new Date('2025-06-03T10:00:00Z') }),
+          hazard({ id: 'hazard-linked', caseReference: 'HC-3' }),
+          hazard({ id: 'hazard-serious', caseReference: 'HC-4', severity: 'SERIOUS' }),
+        ],
+      });
+
+      const measure = calculateTsmMeasure('RP02_2', data, PERIOD);
+
+      expect(measure).toMatchObject({ numerator: 2, denominator: 3 });
+      expect(measure.records.map(record => [record.recordType, record.reference])).toEqual([
+        ['SERVICE_REQUEST', 'SR-1'],
+        ['HAZARD_CASE', 'HC-1'],
+      ]);
+    });
+  });
+
+  describe('complaints per 1,000 homes', () => {
+    it('should relate complaints received in the period to the homes of each tenure', () => {
+      const data = makeData({
+        serviceRequests: [
+          makeRequest({ requestType: 'COMPLAINT_STAGE_1' }),
+          makeRequest({ id: 'request-2', requestReference: 'SR-2', requestType: 'COMPLAINT_STAGE_2' }),
+          makeRequest({ id: 'request-3', requestReference: 'SR-3', requestType: 'COMPLAINT_STAGE_3', propertyId: 'property-2' }),
+        ],
+      });
+
+      expect(calculateTsmMeasure('CH01_1', data, PERIOD)).toMatchObject({ numerator: 1, denominator: 2, value: 500 });
+      expect(calculateTsmMeasure('CH01_2', data, PERIOD).byTenure).toEqual({
+        SUPPORTED_HOUSING: { numerator: 1, denominator: 1, value: 1000 },
+        LEASEHOLDER: { numerator: 1, denominator: 1, value: 1000 },
+      });
+    });
+  });
+
+  describe('building safety checks', () => {
+    it('should count homes needing a check against those with a certificate in force at the period end', () => {
+      const data = makeData({
+        certificates: [
+          makeCertificate({ id: 'gas-expired', expiryDate: '2026-03-01' }),
+          makeCertificate({ id: 'fra', propertyId: 'property-2', certificateType: 'OTHER', complianceStreamId: 'stream-fire', expiryDate: null }),
+          makeCertificate({ id: 'fra-future', certificateType: 'FIRE_RISK_ASSESSMENT', issueDate: '2026-05-01' }),
+        ],
+      });
+
+      const gas = calculateTsmMeasure('BS01', data, PERIOD);
+      const fire = calculateTsmMeasure('BS02', data, PERIOD);
+
+      expect(gas).toMatchObject({ numerator: 0, denominator: 1, value: 0 });
+      expect(fire).toMatchObject({ numerator: 1, denominator: 1, value: 100 });
+      expect(fire.records[0]).toMatchObject({ recordType: 'PROPERTY', propertyId: 'property-2', tenureType: 'LEASEHOLDER' });
+      expect(calculateTsmMeasure('BS05', data, PERIOD)).toMatchObject({ numerator: 0, denominator: 0, value: null });
+    });
+  });
+
+  describe('year-on-year comparison', () => {
+    it('should judge the trend by whether higher values are better', () => {
+      expect(compareWithPreviousYear('RP02_1', 92, 88)).toEqual({ previousPeriodValue: 88, yearOnYearChange: 4, trend: 'improving' });
+      expect(compareWithPreviousYear('CH01_1', 40, 35)).toMatchObject({ trend: 'deteriorating' });
+      expect(compareWithPreviousYear('BS01', 99.9, 99.7)).toMatchObject({ trend: 'stable' });
+      expect(compareWithPreviousYear('BS01', 99.9, null)).toEqual({ previousPeriodValue: null, yearOnYearChange: null, trend: null });
+    });
+
+    it('should compare each measure with the same period a year earlier', () => {
+      const data = makeData({
+        serviceRequests: [
+          makeRequest(),
+          makeRequest({ id: 'request-2', requestReference: 'SR-2', completedAt: new Date('2024-05-10T09:00:00Z'), metCompletionTarget: false }),
+        ],
+      });
+
+      const repairs = calculateTsmMeasures(data, PERIOD).find(measure => measure.measureCode === 'RP02_1')!;
+
+      expect(repairs).toMatchObject({ value: 100, previousPeriodValue: 0, yearOnYearChange: 100, trend: 'improving' });
+      expect(repairs).not.toHaveProperty('records');
+    });
+  });
+
+  describe('calculateTsmSnapshots', () => {
+    beforeEach(() => {
+      const data = makeData({ serviceRequests: [makeRequest()] });
+      mockStorage.listProperties.mockResolvedValue(data.properties);
+      mockStorage.listHouseholds.mockResolvedValue(data.households);
+      mockStorage.listServiceRequests.mockResolvedValue(data.serviceRequests);
+      mockStorage.listHazardCases.mockResolvedValue([]);
+      mockStorage.listCertificates.mockResolvedValue([]);
+      mockStorage.listComplianceStreams.mockResolvedValue([{ id: 'stream-fire', code: 'FIRE_SAFETY' }]);
+    });
+
+    it('should replace unpublished calculations and leave published snapshots alone', async () => {
+      mockStorage.listTsmSnapshots.mockImplementation(async (_organisationId: string, filters: { measureCode: string }) => {
+        if (filters.measureCode === 'RP02_1') return [{ id: 'existing-rp02', periodStart: '2025-04-01', periodEnd: '2026-03-31', isPublished: false }];
+        if (filters.measureCode === 'BS01') return [{ id: 'published-bs01', periodStart: '2025-04-01', periodEnd: '2026-03-31', isPublished: true }];
+        return [];
+      });
+
+      const result = await calculateTsmSnapshots('org-1', '2025-04-01', '2026-03-31');
+
+      expect(result.skippedPublished).toEqual(['BS01']);
+      expect(result.snapshots).toHaveLength(9);
+      expect(mockStorage.updateTsmSnapshot).toHaveBeenCalledWith('existing-rp02', expect.objectContaining({
+        numerator: 1,
+        denominator: 1,
+        percentageValue: 100,
+        absoluteValue: null,
+        metadata: expect.objectContaining({ calculated: true, byTenure: { SUPPORTED_HOUSING: { numerator: 1, denominator: 1, value: 100 } } }),
+      }));
+      expect(mockStorage.createTsmSnapshot).toHaveBeenCalledWith(expect.objectContaining({
+        organisationId: 'org-1',
+        measureCode: 'CH01_1',
+        percentageValue: null,
+        absoluteValue: 0,
+      }));
+      expect(mockStorage.createTsmSnapshot).toHaveBeenCalledTimes(7);
+    });
+
+    const calculatedSnapshot = {
+      organisationId: 'org-1',
+      measureCode: 'RP02_1',
+      periodStart: '2025-04-01',
+      periodEnd: '2026-03-31',
+      numerator: 1,
+      metadata: { calculated: true },
+    } as TsmSnapshot;
+
+    it('should list the records behind a snapshot numerator', async () => {
+      expect((await getTsmNumeratorRecords(calculatedSnapshot)).map(record => record.reference)).toEqual(['SR-1']);
+      expect(await getTsmNumeratorRecords(calculatedSnapshot, 'LEASEHOLDER')).toEqual([]);
+    });
+
+    it('should refuse snapshots that were entered rather than calculated', async () => {
+      await expect(getTsmNumeratorRecords({ ...calculatedSnapshot, metadata: null })).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('should refuse snapshots whose stored numerator no longer matches the records', async () => {
+      await expect(getTsmNumeratorRecords({ ...calculatedSnapshot, numerator: 3 })).rejects.toMatchObject({ status: 409 });
+    });
+  });
+});
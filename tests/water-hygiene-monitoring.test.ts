@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const dbState = vi.hoisted(() => ({
+  records: [] as any[],
+  events: [] as any[],
+}));
+
+vi.mock('../server/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db', () => ({
+  db: {
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          limit: () => Promise.resolve(dbState.events),
+        }),
+      }),
+    }),
+  },
+}));
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getOrganisation: vi.fn(),
+    listOutletTemperatureRecords: vi.fn(async (scope: { propertyId?: string }, outletKey: string) => {
+      const key = (value: string | null) => (value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+      return dbState.records
+        .filter(record => record.propertyId === scope.propertyId && (key(record.outletReference) || key(record.outletLocation)) === outletKey)
+        .sort((a, b) => b.monitoringDate.getTime() - a.monitoringDate.getTime());
+    }),
+    createWaterTemperatureRecord: vi.fn(async (record) => {
+      const created = { id: `reading-${dbState.records.length + 1}`, createdAt: new Date('2025-06-01T12:00:00Z'), ...record };
+      dbState.records.push(created);
+      return created;
+    }),
+    listRemedialActions: vi.fn(),
+    listCertificates: vi.fn(),
+    createRemedialAction: vi.fn(async (action) => ({ id: 'action-1', ...action })),
+    createCalendarEvent: vi.fn(async (event) => ({ id: 'event-1', ...event })),
+    getComplianceStreamByCode: vi.fn(async () => ({ id: 'stream-water' })),
+    getCertificate: vi.fn(async (id: string) => ({
+      'cert-own': { id, organisationId: 'org-1', propertyId: 'property-1' },
+      'cert-other-org': { id, organisationId: 'org-2', propertyId: 'property-9' },
+    } as Record<string, unknown>)[id]),
+    getComponent: vi.fn(async (id: string) => ({
+      'component-own': { id, propertyId: 'property-1', blockId: null },
+      'component-other-org': { id, propertyId: 'property-9', blockId: null },
+    } as Record<string, unknown>)[id]),
+  },
+}));
+
+vi.mock('../server/services/asbestos-register', () => ({
+  isScopeInOrganisation: vi.fn(async (_organisationId: string, scope: { propertyId?: string }) => scope.propertyId === 'property-1'),
+}));
+
+import { storage } from '../server/storage';
+import {
+  DEFAULT_WATER_HYGIENE_POLICY,
+  FLUSHING_REMEDIAL_CODE,
+  evaluateOutletReading,
+  findForeignReference,
+  parseWaterHygienePolicy,
+  recordOutletReading,
+  recordOutletReadingsFromCsv,
+  summariseOutlets,
+} from '../server/services/water-hygiene-monitoring';
+import { scoreDefectRisk, summariseWaterHygieneRisk } from '../server/services/risk-scoring';
+import type { WaterTemperatureRecord } from '@shared/schema';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const mockStorage = storage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+function makeRecord(overrides: Partial<WaterTemperatureRecord> = {}): WaterTemperatureRecord {
+  return {
+    id: 'record-1',
+    certificateId: null,
+    propertyId: 'property-1',
+    blockId: null,
+    componentId: null,
+    monitoringDate: new Date('2025-05-01T09:00:00Z'),
+    monitoredById: null,
+    outletLocation: 'Bathroom basin',
+    outletType: 'Sentinel',
+    outletReference: null,
+    coldWaterTemp: 14,
+    hotWaterTemp: 55,
+    hotWaterFlowTemp: null,
+    hotWaterReturnTemp: null,
+    calorifierTemp: null,
+    coldWithinLimit: true,
+    hotWithinLimit: true,
+    flushingRequired: false,
+    flushingCompleted: null,
+    flushingDate: null,
+    actionRequired: null,
+    notes: null,
+    metadata: null,
+    createdAt: new Date('2025-05-01T09:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Water hygiene monitoring', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dbState.records = [];
+    dbState.events = [];
+    mockStorage.listRemedialActions.mockResolvedValue([]);
+    mockStorage.listCertificates.mockResolvedValue([
+      { id: 'cert-old', certificateType: 'LEGIONELLA_ASSESSMENT', issueDate: '2023-04-01' },
+      { id: 'cert-latest', certificateType: 'LEGIONELLA_ASSESSMENT', issueDate: '2025-04-01' },
+      { id: 'cert-gas', certificateType: 'GAS_SAFETY', issueDate: '2025-05-01' },
+    ]);
+    mockStorage.getOrganisation.mockResolvedValue({ id: 'org-1', settings: {} });
+  });
+
+  describe('parseWaterHygienePolicy', () => {
+    it('should apply organisation thresholds over the L8 defaults', () => {
+      expect(parseWaterHygienePolicy(null)).toEqual(DEFAULT_WATER_HYGIENE_POLICY);
+      expect(parseWaterHygienePolicy({ waterHygiene: { hotMinTemp: 55, coldMaxTemp: 'cold', escalateAfterFailures: 0 } }))
+        .toEqual({ ...DEFAULT_WATER_HYGIENE_POLICY, hotMinTemp: 55 });
+    });
+  });
+
+  describe('evaluateOutletReading', () => {
+    it('should check each temperature against its limit', () => {
+      const evaluation = evaluateOutletReading({ coldWaterTemp: 21, hotWaterTemp: 50, calorifierTemp: 58 });
+
+      expect(evaluation).toEqual({
+        coldWithinLimit: false,
+        hotWithinLimit: true,
+        withinLimits: false,
+        failures: [
+          { measure: 'COLD', temperature: 21, limit: 20 },
+          { measure: 'CALORIFIER', temperature: 58, limit: 60 },
+        ],
+      });
+    });
+
+    it('should leave unmeasured outlets unassessed', () => {
+      expect(evaluateOutletReading({ hotWaterTemp: 62 })).toMatchObject({ coldWithinLimit: null, hotWithinLimit: true, withinLimits: true });
+    });
+  });
+
+  describe('summariseOutlets', () => {
+    it('should count the latest run of failures per outlet', () => {
+      const statuses = summariseOutlets([
+        makeRecord({ id: 'a', monitoringDate: new Date('2025-03-01') }),
+        makeRecord({ id: 'b', monitoringDate: new Date('2025-05-01'), hotWithinLimit: false }),
+        makeRecord({ id: 'c', monitoringDate: new Date('2025-04-01'), metadata: { failures: [{ measure: 'CALORIFIER' }] } }),
+        makeRecord({ id: 'd', outletLocation: 'Kitchen sink' }),
+      ]);
+
+      expect(statuses.find(status => status.outletKey === 'bathroombasin')).toMatchObject({ latestFailed: true, consecutiveFailures: 2, readings: 3 });
+      expect(statuses.find(status => status.outletKey === 'kitchensink')).toMatchObject({ latestFailed: false, consecutiveFailures: 0 });
+    });
+  });
+
+  describe('findForeignReference', () => {
+    it('should reject ids from outside the organisation or the reading\'s property', async () => {
+      const reading = { propertyId: 'property-1' };
+
+      expect(await findForeignReference('org-1', { ...reading, certificateId: 'cert-own', componentId: 'component-own' })).toBeNull();
+      expect(await findForeignReference('org-1', { propertyId: 'property-2' })).toBe('Property');
+      expect(await findForeignReference('org-1', { ...reading, blockId: 'block-9' })).toBe('Block');
+      expect(await findForeignReference('org-1', { ...reading, certificateId: 'cert-other-org' })).toBe('Certificate');
+      expect(await findForeignReference('org-1', { ...reading, certificateId: 'cert-missing' })).toBe('Certificate');
+      expect(await findForeignReference('org-1', { ...reading, componentId: 'component-other-org' })).toBe('Component');
+    });
+  });
+
+  describe('recordOutletReading', () => {
+    const failingReading = {
+      propertyId: 'property-1',
+      monitoringDate: new Date('2025-06-01T09:00:00Z'),
+      outletLocation: 'Bathroom basin',
+      outletType: 'Sentinel',
+      coldWaterTemp: 23,
+      hotWaterTemp: 52,
+    };
+
+    it('should store limit compliance without escalating a first failure', async () => {
+      const result = await recordOutletReading('org-1', failingReading, DEFAULT_WATER_HYGIENE_POLICY, 'user-1', NOW);
+
+      expect(result.record).toMatchObject({ coldWithinLimit: false, hotWithinLimit: true, flushingRequired: true, monitoredById: 'user-1' });
+      expect(result.consecutiveFailures).toBe(1);
+      expect(result.escalation).toBeNull();
+      expect(mockStorage.createRemedialAction).not.toHaveBeenCalled();
+    });
+
+    it('should raise a flushing task and remedial action on a repeat failure', async () => {
+      dbState.records = [makeRecord({ id: 'previous', coldWaterTemp: 22, coldWithinLimit: false })];
+
+      const result = await recordOutletReading('org-1', failingReading, DEFAULT_WATER_HYGIENE_POLICY, null, NOW);
+
+      expect(result.consecutiveFailures).toBe(2);
+      expect(result.escalation).toEqual({ flushingTaskCreated: true, remedialActionCreated: true });
+      expect(mockStorage.createCalendarEvent).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Legionella flushing: Bathroom basin',
+        eventType: 'STREAM_TASK',
+        complianceStreamId: 'stream-water',
+        startDate: new Date('2025-06-08T12:00:00Z'),
+        isSystemGenerated: true,
+      }));
+      expect(mockStorage.createRemedialAction).toHaveBeenCalledWith(expect.objectContaining({
+        certificateId: 'cert-latest',
+        code: FLUSHING_REMEDIAL_CODE,
+        location: 'Bathroom basin',
+        severity: 'URGENT',
+        dueDate: '2025-06-08',
+      }));
+    });
+
+    it('should not escalate an outlet that is already being dealt with', async () => {
+      dbState.records = [makeRecord({ id: 'previous', coldWithinLimit: false, createdAt: new Date('2025-05-01') })];
+      dbState.events = [{ title: 'Legionella flushing: Bathroom basin', propertyId: 'property-1', createdAt: new Date('2025-05-02') }];
+      mockStorage.listRemedialActions.mockResolvedValue([{ code: FLUSHING_REMEDIAL_CODE, location: 'bathroom basin', status: 'SCHEDULED' }]);
+
+      const result = await recordOutletReading('org-1', failingReading, DEFAULT_WATER_HYGIENE_POLICY, null, NOW);
+
+      expect(result.escalation).toEqual({ flushingTaskCreated: false, remedialActionCreated: false });
+    });
+  });
+
+  describe('recordOutletReadingsFromCsv', () => {
+    it('should record valid rows in date order and report the rest', async () => {
+      const csv = [
+        'propertyId,monitoringDate,outletLocation,outletReference,coldWaterTemp,hotWaterTemp',
+        'property-1,2025-05-03,Kitchen sink,K1,21,55',
+        'property-1,2025-04-03,Kitchen sink,K1,22,55',
+        'property-1,2025-05-03,Bath,,,',
+        'property-2,2025-05-03,Bath,,12,60',
+      ].join('\n') + '\nproperty-1,2025-05-03,Bath,,12,60,cert-other-org';
+      const csvWithCertificate = csv.replace('hotWaterTemp\n', 'hotWaterTemp,certificateId\n');
+
+      const result = await recordOutletReadingsFromCsv('org-1', csvWithCertificate, 'user-1', NOW);
+
+      expect(result).toMatchObject({ submitted: 5, recorded: 2, outOfRange: 2, escalated: 1 });
+      expect(result.errors).toEqual([
+        { row: 4, message: 'coldWaterTemp: At least one temperature is required' },
+        { row: 5, message: 'Property not found' },
+        { row: 6, message: 'Certificate not found' },
+      ]);
+      expect(dbState.records.map(record => record.monitoringDate.toISOString().slice(0, 10))).toEqual(['2025-04-03', '2025-05-03']);
+      expect(mockStorage.listOutletTemperatureRecords).toHaveBeenCalledTimes(1);
+      expect(mockStorage.listOutletTemperatureRecords).toHaveBeenCalledWith(
+        { propertyId: 'property-1' },
+        'k1',
+        { since: new Date('2024-04-03T00:00:00Z'), limit: 50 }
+      );
+    });
+  });
+
+  describe('risk scoring', () => {
+    it('should feed failing outlets into the defect risk score', () => {
+      const waterHygiene = summariseWaterHygieneRisk([
+        makeRecord({ id: 'a', monitoringDate: new Date('2025-04-01'), coldWithinLimit: false }),
+        makeRecord({ id: 'b', monitoringDate: new Date('2025-05-01'), coldWithinLimit: false }),
+        makeRecord({ id: 'c', outletLocation: 'Kitchen sink', hotWithinLimit: false }),
+      ]);
+
+      expect(waterHygiene).toEqual({ failingOutlets: 2, repeatFailingOutlets: 1 });
+      const defect = scoreDefectRisk([], waterHygiene);
+      expect(defect.score).toBe(25);
+      expect(defect.legislation).toContain('HSE ACOP L8 - Control of Legionella Bacteria in Water Systems');
+      expect(scoreDefectRisk([]).score).toBe(0);
+    });
+
+    it('should count repeat failures against the organisation\'s escalation threshold', () => {
+      const records = [
+        makeRecord({ id: 'a', monitoringDate: new Date('2025-04-01'), coldWithinLimit: false }),
+        makeRecord({ id: 'b', monitoringDate: new Date('2025-05-01'), coldWithinLimit: false }),
+      ];
+
+      expect(summariseWaterHygieneRisk(records, 3)).toEqual({ failingOutlets: 1, repeatFailingOutlets: 0 });
+    });
+  });
+});